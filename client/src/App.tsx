@@ -23,6 +23,7 @@ const TrialBalance = lazy(() => import('@/pages/TrialBalance'));
 const BalanceSheet = lazy(() => import('@/pages/BalanceSheet'));
 const ProfitLoss = lazy(() => import('@/pages/ProfitLoss'));
 const CashFlow = lazy(() => import('@/pages/CashFlow'));
+const NotesToAccounts = lazy(() => import('@/pages/NotesToAccounts'));
 const AgingReports = lazy(() => import('@/pages/AgingReports'));
 const BankImport = lazy(() => import('@/pages/BankImport'));
 const RecurringEntries = lazy(() => import('@/pages/RecurringEntries'));
@@ -57,12 +58,16 @@ const DebitNotes = lazy(() => import('@/pages/DebitNotes'));
 // Banking pages
 const BankAccounts = lazy(() => import('@/pages/BankAccounts'));
 const BankReconciliation = lazy(() => import('@/pages/BankReconciliation'));
+const Cheques = lazy(() => import('@/pages/Cheques'));
 
 // Inventory pages
 const Products = lazy(() => import('@/pages/Products'));
 
 // Accountant pages
 const CostCenters = lazy(() => import('@/pages/CostCenters'));
+const FixedAssets = lazy(() => import('@/pages/FixedAssets'));
+const Budgets = lazy(() => import('@/pages/Budgets'));
+const Approvals = lazy(() => import('@/pages/Approvals'));
 
 // Settings pages
 const DocumentTemplates = lazy(() => import('@/pages/DocumentTemplates'));
@@ -282,6 +287,11 @@ export default function App() {
               <CashFlow />
             </Suspense>
           } />
+          <Route path="notes-to-accounts" element={
+            <Suspense fallback={<PageLoader />}>
+              <NotesToAccounts />
+            </Suspense>
+          } />
           <Route path="aging-reports" element={
             <Suspense fallback={<PageLoader />}>
               <AgingReports />
@@ -415,6 +425,11 @@ export default function App() {
               <BankReconciliation />
             </Suspense>
           } />
+          <Route path="cheques" element={
+            <Suspense fallback={<PageLoader />}>
+              <Cheques />
+            </Suspense>
+          } />
           {/* Inventory routes */}
           <Route path="products" element={
             <Suspense fallback={<PageLoader />}>
@@ -427,6 +442,21 @@ export default function App() {
               <CostCenters />
             </Suspense>
           } />
+          <Route path="fixed-assets" element={
+            <Suspense fallback={<PageLoader />}>
+              <FixedAssets />
+            </Suspense>
+          } />
+          <Route path="budgets" element={
+            <Suspense fallback={<PageLoader />}>
+              <Budgets />
+            </Suspense>
+          } />
+          <Route path="approvals" element={
+            <Suspense fallback={<PageLoader />}>
+              <Approvals />
+            </Suspense>
+          } />
           {/* Settings routes */}
           <Route path="document-templates" element={
             <Suspense fallback={<PageLoader />}>
@@ -0,0 +1,382 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Trash2, Wand2 } from 'lucide-react';
+import { useToast } from '@/hooks/useToast';
+import { formatCurrency } from '@/lib/utils';
+
+type AdjustmentType = 'bank_charges' | 'tds' | 'rounding';
+
+interface OpenDocument {
+  id: string;
+  number: string;
+  date: string;
+  partyId: string;
+  partyName: string;
+  balanceDue: number;
+  taxableAmount: number;
+}
+
+interface GroupMatchProposal {
+  partyId: string;
+  partyName: string;
+  documentIds: string[];
+  documentNumbers: string[];
+  documentsTotal: number;
+  bankTotal: number;
+  difference: { type: 'none' | AdjustmentType; amount: number; rate?: number };
+  score: number;
+}
+
+interface ProposalsResponse {
+  side: 'receipt' | 'payment';
+  bankTotal: number;
+  proposals: GroupMatchProposal[];
+  documents: OpenDocument[];
+}
+
+interface Adjustment {
+  type: AdjustmentType;
+  accountId: string;
+  amount: string;
+}
+
+const adjustmentLabels: Record<AdjustmentType, string> = {
+  bank_charges: 'Bank charges',
+  tds: 'TDS',
+  rounding: 'Rounding',
+};
+
+interface BankGroupMatchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transactions: Array<{ id: string; transactionDate: string; description: string; debitAmount?: string; creditAmount?: string }>;
+  accounts: Array<{ id: string; name: string; code: string }>;
+  onMatched: () => void;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Matches bank lines against several invoices or bills of one party, with
+// any difference posted to bank charges, TDS or rounding
+export default function BankGroupMatch({ open, onOpenChange, transactions, accounts, onMatched }: BankGroupMatchProps) {
+  const { toast } = useToast();
+  const [partyId, setPartyId] = useState('');
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+  const [adjustments, setAdjustments] = useState<Adjustment[]>([]);
+  const transactionIds = transactions.map(txn => txn.id);
+
+  useEffect(() => {
+    if (open) {
+      setPartyId('');
+      setAllocations({});
+      setAdjustments([]);
+    }
+  }, [open]);
+
+  const { data, isLoading, error } = useQuery<ProposalsResponse>({
+    queryKey: ['bank-group-match', transactionIds],
+    queryFn: async () => {
+      const response = await fetch('/api/bank-feeds/group-match/proposals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ transactionIds }),
+      });
+      if (!response.ok) {
+        const body = await response.json();
+        throw new Error(body.error || 'Failed to propose matches');
+      }
+      return response.json();
+    },
+    enabled: open && transactionIds.length > 0,
+  });
+
+  const matchMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/bank-feeds/group-match', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          transactionIds,
+          partyId,
+          allocations: Object.entries(allocations).map(([documentId, amount]) => ({ documentId, amount: parseFloat(amount) || 0 })),
+          adjustments: adjustments.map(adjustment => ({ ...adjustment, amount: parseFloat(adjustment.amount) || 0 })),
+        }),
+      });
+      if (!response.ok) {
+        const body = await response.json();
+        throw new Error(body.error || 'Failed to match transactions');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Transactions matched', description: 'Payment and allocations recorded' });
+      onOpenChange(false);
+      onMatched();
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Match failed', description: err.message, variant: 'destructive' });
+    },
+  });
+
+  const isReceipt = data?.side !== 'payment';
+  const documentLabel = isReceipt ? 'Invoice' : 'Bill';
+  const parties = Array.from(new Map((data?.documents || []).map(doc => [doc.partyId, doc.partyName])).entries());
+  const partyDocuments = (data?.documents || [])
+    .filter(doc => doc.partyId === partyId)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const bankTotal = data?.bankTotal || 0;
+  const settledTotal = round(Object.values(allocations).reduce((sum, amount) => sum + (parseFloat(amount) || 0), 0));
+  const adjustedTotal = round(bankTotal + adjustments.reduce((sum, adjustment) => sum + (parseFloat(adjustment.amount) || 0), 0));
+  const unexplained = round(settledTotal - adjustedTotal);
+
+  const applyProposal = (proposal: GroupMatchProposal) => {
+    setPartyId(proposal.partyId);
+    const documents = data?.documents || [];
+    setAllocations(Object.fromEntries(proposal.documentIds.map(id => [
+      id,
+      (documents.find(doc => doc.id === id)?.balanceDue || 0).toFixed(2),
+    ])));
+    const { type, amount } = proposal.difference;
+    setAdjustments(type === 'none' ? [] : [{ type, accountId: '', amount: amount.toFixed(2) }]);
+  };
+
+  const toggleDocument = (doc: OpenDocument, checked: boolean) => {
+    const next = { ...allocations };
+    if (checked) next[doc.id] = doc.balanceDue.toFixed(2);
+    else delete next[doc.id];
+    setAllocations(next);
+  };
+
+  const updateAdjustment = (index: number, changes: Partial<Adjustment>) => {
+    setAdjustments(adjustments.map((adjustment, i) => (i === index ? { ...adjustment, ...changes } : adjustment)));
+  };
+
+  const canMatch = !!partyId
+    && Object.keys(allocations).length > 0
+    && Math.abs(unexplained) < 0.005
+    && adjustments.every(adjustment => adjustment.accountId || !(parseFloat(adjustment.amount) || 0))
+    && !matchMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Match {transactions.length === 1 ? 'Transaction' : `${transactions.length} Transactions`}</DialogTitle>
+          <DialogDescription>
+            Settle several {isReceipt ? 'invoices' : 'bills'} with {formatCurrency(bankTotal)} from the bank
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Looking for matching {isReceipt ? 'invoices' : 'bills'}...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{(error as Error).message}</p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label>Suggested Matches</Label>
+              {data?.proposals.length ? (
+                <div className="space-y-2 mt-2">
+                  {data.proposals.map((proposal, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => applyProposal(proposal)}
+                      className="w-full flex items-center justify-between p-2 border rounded-md text-left hover:bg-muted"
+                    >
+                      <div>
+                        <p className="text-sm font-medium">{proposal.partyName}</p>
+                        <p className="text-xs text-muted-foreground">{proposal.documentNumbers.join(', ')}</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm">{formatCurrency(proposal.documentsTotal)}</span>
+                        {proposal.difference.type === 'none' ? (
+                          <Badge variant="outline" className="text-green-600">Exact</Badge>
+                        ) : (
+                          <Badge variant="outline">
+                            {adjustmentLabels[proposal.difference.type]}
+                            {proposal.difference.rate !== undefined && ` ${proposal.difference.rate}%`}
+                            {' '}{formatCurrency(Math.abs(proposal.difference.amount))}
+                          </Badge>
+                        )}
+                        <Wand2 className="w-4 h-4 text-muted-foreground" />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground mt-1">
+                  No combination of open {isReceipt ? 'invoices' : 'bills'} matches; choose them below
+                </p>
+              )}
+            </div>
+
+            <div>
+              <Label>{isReceipt ? 'Customer' : 'Vendor'}</Label>
+              <Select
+                value={partyId}
+                onValueChange={(value) => {
+                  setPartyId(value);
+                  setAllocations({});
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={`Select ${isReceipt ? 'customer' : 'vendor'}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {parties.map(([id, name]) => (
+                    <SelectItem key={id} value={id}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {partyId && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>{documentLabel}</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Balance Due</TableHead>
+                    <TableHead className="text-right w-40">Settle</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {partyDocuments.map(doc => (
+                    <TableRow key={doc.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={doc.id in allocations}
+                          onCheckedChange={(checked) => toggleDocument(doc, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell>{doc.number}</TableCell>
+                      <TableCell>{new Date(doc.date).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(doc.balanceDue)}</TableCell>
+                      <TableCell className="text-right">
+                        {doc.id in allocations && (
+                          <Input
+                            type="number"
+                            step="0.01"
+                            className="text-right"
+                            value={allocations[doc.id]}
+                            onChange={(e) => setAllocations({ ...allocations, [doc.id]: e.target.value })}
+                          />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Differences</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setAdjustments([...adjustments, { type: 'bank_charges', accountId: '', amount: unexplained.toFixed(2) }])}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Difference
+                </Button>
+              </div>
+              {adjustments.map((adjustment, index) => (
+                <div key={index} className="flex gap-2">
+                  <Select value={adjustment.type} onValueChange={(value) => updateAdjustment(index, { type: value as AdjustmentType })}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(adjustmentLabels) as AdjustmentType[]).map(type => (
+                        <SelectItem key={type} value={type}>{adjustmentLabels[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={adjustment.accountId} onValueChange={(value) => updateAdjustment(index, { accountId: value })}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Post to account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {accounts.map(account => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.code} - {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    className="w-32 text-right"
+                    value={adjustment.amount}
+                    onChange={(e) => updateAdjustment(index, { amount: e.target.value })}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => setAdjustments(adjustments.filter((_, i) => i !== index))}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                {isReceipt
+                  ? 'A positive difference is charges or TDS taken from the receipt'
+                  : 'A positive difference is TDS deducted; enter bank charges added to the payment as negative'}
+              </p>
+            </div>
+
+            <div className="p-3 bg-muted rounded-md space-y-1 text-sm">
+              <div className="flex justify-between"><span>Bank amount</span><span>{formatCurrency(bankTotal)}</span></div>
+              <div className="flex justify-between"><span>{documentLabel}s settled</span><span>{formatCurrency(settledTotal)}</span></div>
+              <div className={`flex justify-between font-medium ${Math.abs(unexplained) < 0.005 ? 'text-green-600' : 'text-red-600'}`}>
+                <span>Unexplained difference</span>
+                <span>{formatCurrency(unexplained)}</span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => matchMutation.mutate()} disabled={!canMatch}>
+            {matchMutation.isPending ? 'Matching...' : 'Match'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import PrintableReport from '@/components/reports/PrintableReport';
+import { useToast } from '@/hooks/useToast';
+import { formatCurrency } from '@/lib/utils';
+
+interface StatementItem {
+  source: 'book' | 'bank';
+  id: string;
+  date: string;
+  reference: string | null;
+  description: string;
+  amount: number;
+  clearedOn: string | null;
+}
+
+interface StatementSection {
+  key: string;
+  label: string;
+  sign: 1 | -1;
+  total: number;
+  items: StatementItem[];
+}
+
+interface ReconciliationStatement {
+  bankAccountName: string;
+  accountNumber: string;
+  asOfDate: string;
+  balancePerBooks: number;
+  sections: StatementSection[];
+  balancePerBank: number;
+  statementBalance: number | null;
+  difference: number | null;
+}
+
+interface StatementSummary {
+  asOfDate: string;
+  balancePerBooks: number;
+  chequesNotPresented: number;
+  depositsNotCredited: number;
+  bankDebitsNotInBooks: number;
+  bankCreditsNotInBooks: number;
+  balancePerBank: number;
+  statementBalance: number | null;
+  difference: number | null;
+  items: number;
+}
+
+interface BankReconciliationStatementProps {
+  bankAccountId: string;
+  asOfDate: string;
+  statementBalance?: string;
+}
+
+const yearBefore = (date: string) => `${Number(date.slice(0, 4)) - 1}${date.slice(4)}`;
+
+// Book and bank balances of an account as at a date, with the items between them and how they moved period to period
+export default function BankReconciliationStatement({ bankAccountId, asOfDate, statementBalance }: BankReconciliationStatementProps) {
+  const { toast } = useToast();
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [historyFrom, setHistoryFrom] = useState('');
+  const [historyInterval, setHistoryInterval] = useState<'month' | 'quarter'>('quarter');
+
+  const statementParams = () => {
+    const params = new URLSearchParams({ bankAccountId, asOfDate });
+    if (statementBalance) params.append('statementBalance', statementBalance);
+    return params;
+  };
+
+  const { data: statement, isLoading } = useQuery<ReconciliationStatement>({
+    queryKey: ['bank-reconciliation-statement', bankAccountId, asOfDate, statementBalance],
+    queryFn: async () => {
+      const response = await fetch(`/api/bank-reconciliation/brs?${statementParams()}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch reconciliation statement');
+      return response.json();
+    },
+    enabled: !!bankAccountId && !!asOfDate,
+  });
+
+  const fromDate = historyFrom || yearBefore(asOfDate);
+  const { data: history } = useQuery<StatementSummary[]>({
+    queryKey: ['bank-reconciliation-history', bankAccountId, fromDate, asOfDate, historyInterval],
+    queryFn: async () => {
+      const params = new URLSearchParams({ bankAccountId, fromDate, toDate: asOfDate, interval: historyInterval });
+      const response = await fetch(`/api/bank-reconciliation/brs/history?${params}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) return [];
+      return response.json();
+    },
+    enabled: !!bankAccountId && !!asOfDate,
+  });
+
+  const handleExport = async () => {
+    const response = await fetch(`/api/bank-reconciliation/brs/export?${statementParams()}`, {
+      credentials: 'include',
+    });
+    if (!response.ok) {
+      toast({ title: 'Failed to export reconciliation statement', variant: 'destructive' });
+      return;
+    }
+    const blob = await response.blob();
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `brs-${asOfDate}.xlsx`;
+    a.click();
+  };
+
+  const toggleSection = (key: string) => {
+    const next = new Set(expanded);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setExpanded(next);
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+  if (!statement) return null;
+
+  return (
+    <PrintableReport
+      title="Bank Reconciliation Statement"
+      subtitle={`${statement.bankAccountName} - ${statement.accountNumber}`}
+      asOfDate={statement.asOfDate}
+      onExport={handleExport}
+    >
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Bank Reconciliation Statement</CardTitle>
+            <CardDescription>
+              As at {new Date(statement.asOfDate).toLocaleDateString()}. Open a section to see its items.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableBody>
+                <TableRow className="font-semibold">
+                  <TableCell colSpan={4}>Balance as per books</TableCell>
+                  <TableCell className="text-right">{formatCurrency(statement.balancePerBooks)}</TableCell>
+                </TableRow>
+                {statement.sections.map((section) => (
+                  <SectionRows
+                    key={section.key}
+                    section={section}
+                    open={expanded.has(section.key)}
+                    onToggle={() => toggleSection(section.key)}
+                  />
+                ))}
+                <TableRow className="font-bold border-t-2">
+                  <TableCell colSpan={4}>Balance as per bank</TableCell>
+                  <TableCell className="text-right">{formatCurrency(statement.balancePerBank)}</TableCell>
+                </TableRow>
+                {statement.statementBalance !== null && (
+                  <>
+                    <TableRow>
+                      <TableCell colSpan={4}>Balance as per bank statement</TableCell>
+                      <TableCell className="text-right">{formatCurrency(statement.statementBalance)}</TableCell>
+                    </TableRow>
+                    <TableRow className={statement.difference === 0 ? 'text-green-600' : 'text-yellow-600'}>
+                      <TableCell colSpan={4}>Unexplained difference</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(statement.difference || 0)}</TableCell>
+                    </TableRow>
+                  </>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>History</CardTitle>
+            <CardDescription>The statement at each period end, to see which items are ageing</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="no-print flex items-end gap-4">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Input type="date" value={fromDate} onChange={(e) => setHistoryFrom(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Interval</Label>
+                <Select value={historyInterval} onValueChange={(value) => setHistoryInterval(value as 'month' | 'quarter')}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="month">Monthly</SelectItem>
+                    <SelectItem value="quarter">Quarterly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {!history?.length ? (
+              <p className="text-sm text-muted-foreground">No period ends in this range</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>As at</TableHead>
+                    <TableHead className="text-right">Per Books</TableHead>
+                    <TableHead className="text-right">Cheques Not Presented</TableHead>
+                    <TableHead className="text-right">Deposits Not Credited</TableHead>
+                    <TableHead className="text-right">Bank Debits</TableHead>
+                    <TableHead className="text-right">Bank Credits</TableHead>
+                    <TableHead className="text-right">Per Bank</TableHead>
+                    <TableHead className="text-right">Difference</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map((row) => (
+                    <TableRow key={row.asOfDate}>
+                      <TableCell>{new Date(row.asOfDate).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.balancePerBooks)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.chequesNotPresented)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.depositsNotCredited)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.bankDebitsNotInBooks)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.bankCreditsNotInBooks)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(row.balancePerBank)}</TableCell>
+                      <TableCell className="text-right">
+                        {row.difference === null ? '-' : formatCurrency(row.difference)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </PrintableReport>
+  );
+}
+
+function SectionRows({ section, open, onToggle }: { section: StatementSection; open: boolean; onToggle: () => void }) {
+  const Chevron = open ? ChevronDown : ChevronRight;
+
+  return (
+    <>
+      <TableRow className="cursor-pointer hover:bg-muted/50" onClick={onToggle}>
+        <TableCell colSpan={4}>
+          <span className="inline-flex items-center gap-1">
+            <Chevron className="h-4 w-4 text-muted-foreground" />
+            {section.label}
+            <span className="text-xs text-muted-foreground">({section.items.length})</span>
+          </span>
+        </TableCell>
+        <TableCell className="text-right">{formatCurrency(section.sign * section.total)}</TableCell>
+      </TableRow>
+      {open && section.items.map((item) => (
+        <TableRow key={item.id} className="text-sm text-muted-foreground">
+          <TableCell className="pl-10">{new Date(item.date).toLocaleDateString()}</TableCell>
+          <TableCell className="font-mono">{item.reference || '-'}</TableCell>
+          <TableCell>
+            {item.description}
+            {item.clearedOn && (
+              <span className="ml-2 text-xs text-green-600">
+                {item.source === 'book' ? 'Cleared' : 'Booked'} {new Date(item.clearedOn).toLocaleDateString()}
+              </span>
+            )}
+          </TableCell>
+          <TableCell className="text-right">{formatCurrency(item.amount)}</TableCell>
+          <TableCell />
+        </TableRow>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,539 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Switch } from '@/components/ui/switch';
+import { Eye, Play, Plus, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import CostCenterSelect from './CostCenterSelect';
+
+type AllocationBasis = 'percentage' | 'driver';
+
+interface CostCenterRef {
+  id: string;
+  code: string;
+  name: string;
+}
+
+interface AllocationRule {
+  id: string;
+  name: string;
+  description?: string;
+  sourceAccountId: string;
+  sourceCostCenterId?: string;
+  basis: AllocationBasis;
+  driverName?: string;
+  isActive: boolean;
+  sourceAccount?: { code: string; name: string };
+  sourceCostCenter?: CostCenterRef;
+  targets: { costCenterId: string; value: string; costCenter?: CostCenterRef }[];
+}
+
+interface AllocationPreview {
+  periodStart: string;
+  periodEnd: string;
+  amount: number;
+  allocations: { costCenterId: string; share: number; amount: number }[];
+}
+
+interface TargetRow {
+  costCenterId?: string;
+  value: string;
+}
+
+const emptyForm = () => ({
+  name: '',
+  description: '',
+  sourceAccountId: '',
+  sourceCostCenterId: '',
+  basis: 'percentage' as AllocationBasis,
+  driverName: '',
+  targets: [{ value: '' }, { value: '' }] as TargetRow[],
+});
+
+const firstOfMonth = () => {
+  const today = new Date();
+  return new Date(today.getFullYear(), today.getMonth(), 1).toISOString().split('T')[0];
+};
+
+// Rules that spread a shared expense across cost centers, with preview and posting per period
+export default function CostAllocationRules() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showDialog, setShowDialog] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+  const [selectedRule, setSelectedRule] = useState<AllocationRule | null>(null);
+  const [period, setPeriod] = useState({
+    periodStart: firstOfMonth(),
+    periodEnd: new Date().toISOString().split('T')[0],
+  });
+  const [preview, setPreview] = useState<AllocationPreview | null>(null);
+
+  const { data: rules } = useQuery<AllocationRule[]>({
+    queryKey: ['cost-allocations'],
+    queryFn: async () => {
+      const response = await fetch('/api/cost-allocations', { credentials: 'include' });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  const { data: accounts } = useQuery<{ id: string; code: string; name: string; accountType: string }[]>({
+    queryKey: ['ledger-accounts'],
+    queryFn: async () => {
+      const response = await fetch('/api/chart-of-accounts/ledgers/list', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch accounts');
+      return response.json();
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: ReturnType<typeof emptyForm>) => {
+      const response = await fetch('/api/cost-allocations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          ...data,
+          sourceCostCenterId: data.sourceCostCenterId || null,
+          targets: data.targets.filter(target => target.costCenterId),
+        }),
+      });
+      if (!response.ok) {
+        const err = await response.json();
+        throw new Error(err.error || 'Failed to create allocation rule');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cost-allocations'] });
+      setShowDialog(false);
+      setFormData(emptyForm());
+      toast({ title: 'Allocation rule created' });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: 'destructive' });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (rule: AllocationRule) => {
+      const response = await fetch(`/api/cost-allocations/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ isActive: !rule.isActive }),
+      });
+      if (!response.ok) {
+        const err = await response.json();
+        throw new Error(err.error || 'Failed to update allocation rule');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cost-allocations'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/cost-allocations/${id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const err = await response.json();
+        throw new Error(err.error || 'Failed to delete allocation rule');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cost-allocations'] });
+      toast({ title: 'Allocation rule deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: 'destructive' });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (rule: AllocationRule) => {
+      const params = new URLSearchParams(period);
+      const response = await fetch(`/api/cost-allocations/${rule.id}/preview?${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        const err = await response.json();
+        throw new Error(err.error || 'Failed to preview allocation');
+      }
+      return response.json() as Promise<AllocationPreview>;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: 'destructive' });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (rule: AllocationRule) => {
+      const response = await fetch(`/api/cost-allocations/${rule.id}/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(period),
+      });
+      if (!response.ok) {
+        const err = await response.json();
+        throw new Error(err.error || 'Failed to run allocation');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
+      queryClient.invalidateQueries({ queryKey: ['cost-center-profit-loss'] });
+      queryClient.invalidateQueries({ queryKey: ['cost-center-trial-balance'] });
+      setSelectedRule(null);
+      setPreview(null);
+      toast({ title: 'Allocation journal posted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: 'destructive' });
+    },
+  });
+
+  const updateTarget = (index: number, target: Partial<TargetRow>) => {
+    const targets = [...formData.targets];
+    targets[index] = { ...targets[index], ...target };
+    setFormData({ ...formData, targets });
+  };
+
+  const costCenterName = (rule: AllocationRule, id: string) => {
+    const target = rule.targets.find(t => t.costCenterId === id);
+    return target?.costCenter ? `${target.costCenter.code} - ${target.costCenter.name}` : id;
+  };
+
+  const openRun = (rule: AllocationRule) => {
+    setSelectedRule(rule);
+    setPreview(null);
+  };
+
+  const percentageTotal = formData.targets.reduce((sum, target) => sum + (parseFloat(target.value) || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div className="space-y-1.5">
+          <CardTitle>Allocation Rules</CardTitle>
+          <CardDescription>
+            Spread shared expenses such as rent or salaries across cost centers by percentage or by a driver
+            such as headcount. Each run posts an allocation journal.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setShowDialog(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {!rules?.length ? (
+          <p className="text-sm text-muted-foreground">No allocation rules yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead>Pool</TableHead>
+                <TableHead>Basis</TableHead>
+                <TableHead>Targets</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="w-[140px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id} className={!rule.isActive ? 'opacity-50' : ''}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell>{rule.sourceAccount ? `${rule.sourceAccount.code} - ${rule.sourceAccount.name}` : '-'}</TableCell>
+                  <TableCell>{rule.sourceCostCenter?.name || 'Unassigned'}</TableCell>
+                  <TableCell>{rule.basis === 'percentage' ? 'Percentage' : rule.driverName || 'Driver'}</TableCell>
+                  <TableCell className="text-sm">
+                    {rule.targets.map(target => `${target.costCenter?.code || ''} ${parseFloat(target.value)}${rule.basis === 'percentage' ? '%' : ''}`).join(', ')}
+                  </TableCell>
+                  <TableCell>
+                    <Switch checked={rule.isActive} onCheckedChange={() => toggleMutation.mutate(rule)} />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Button variant="outline" size="sm" onClick={() => openRun(rule)} disabled={!rule.isActive}>
+                        <Play className="h-4 w-4 mr-1" />
+                        Run
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          if (confirm('Are you sure you want to delete this allocation rule?')) {
+                            deleteMutation.mutate(rule.id);
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Create Rule Dialog */}
+      <Dialog open={showDialog} onOpenChange={(open) => {
+        setShowDialog(open);
+        if (!open) setFormData(emptyForm());
+      }}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Add Allocation Rule</DialogTitle>
+            <DialogDescription>
+              The balance of the account in the pool is moved to the target cost centers
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  placeholder="e.g., Office rent"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Account</Label>
+                <Select
+                  value={formData.sourceAccountId}
+                  onValueChange={(value) => setFormData({ ...formData, sourceAccountId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts?.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        <span className="font-mono text-xs mr-2">{account.code}</span>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Pool Cost Center</Label>
+                <CostCenterSelect
+                  value={formData.sourceCostCenterId}
+                  onChange={(costCenterId) => setFormData({ ...formData, sourceCostCenterId: costCenterId || '' })}
+                />
+                <p className="text-xs text-muted-foreground">Leave empty to allocate untagged amounts</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Basis</Label>
+                <Select
+                  value={formData.basis}
+                  onValueChange={(value) => setFormData({ ...formData, basis: value as AllocationBasis })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage</SelectItem>
+                    <SelectItem value="driver">Driver</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {formData.basis === 'driver' && (
+              <div className="space-y-2">
+                <Label>Driver</Label>
+                <Input
+                  placeholder="e.g., Headcount, Floor area (sq ft)"
+                  value={formData.driverName}
+                  onChange={(e) => setFormData({ ...formData, driverName: e.target.value })}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Targets</Label>
+              {formData.targets.map((target, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <CostCenterSelect
+                      value={target.costCenterId}
+                      onChange={(costCenterId) => updateTarget(index, { costCenterId })}
+                    />
+                  </div>
+                  <Input
+                    type="number"
+                    className="w-[140px]"
+                    placeholder={formData.basis === 'percentage' ? '%' : 'Quantity'}
+                    value={target.value}
+                    onChange={(e) => updateTarget(index, { value: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setFormData({ ...formData, targets: formData.targets.filter((_, i) => i !== index) })}
+                    disabled={formData.targets.length <= 1}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFormData({ ...formData, targets: [...formData.targets, { value: '' }] })}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Target
+                </Button>
+                {formData.basis === 'percentage' && (
+                  <span className={`text-sm ${Math.abs(percentageTotal - 100) > 0.001 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    Total: {percentageTotal}%
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate(formData)}
+              disabled={!formData.name || !formData.sourceAccountId || createMutation.isPending}
+            >
+              {createMutation.isPending ? 'Creating...' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Run Rule Dialog */}
+      <Dialog open={!!selectedRule} onOpenChange={(open) => {
+        if (!open) {
+          setSelectedRule(null);
+          setPreview(null);
+        }
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Run {selectedRule?.name}</DialogTitle>
+            <DialogDescription>
+              Preview the amount to allocate for the period, then post the allocation journal
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Period Start</Label>
+                <Input
+                  type="date"
+                  value={period.periodStart}
+                  onChange={(e) => {
+                    setPeriod({ ...period, periodStart: e.target.value });
+                    setPreview(null);
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Period End</Label>
+                <Input
+                  type="date"
+                  value={period.periodEnd}
+                  onChange={(e) => {
+                    setPeriod({ ...period, periodEnd: e.target.value });
+                    setPreview(null);
+                  }}
+                />
+              </div>
+            </div>
+            {preview && selectedRule && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Cost Center</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.allocations.map((allocation) => (
+                    <TableRow key={allocation.costCenterId}>
+                      <TableCell>{costCenterName(selectedRule, allocation.costCenterId)}</TableCell>
+                      <TableCell className="text-right">{(allocation.share * 100).toFixed(2)}%</TableCell>
+                      <TableCell className="text-right">{formatCurrency(allocation.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={2} className="font-bold">Pool Balance</TableCell>
+                    <TableCell className="text-right font-bold">{formatCurrency(preview.amount)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => selectedRule && previewMutation.mutate(selectedRule)}
+              disabled={previewMutation.isPending}
+            >
+              <Eye className="h-4 w-4 mr-2" />
+              {previewMutation.isPending ? 'Loading...' : 'Preview'}
+            </Button>
+            <Button
+              onClick={() => selectedRule && runMutation.mutate(selectedRule)}
+              disabled={!preview || preview.amount === 0 || runMutation.isPending}
+            >
+              <Play className="h-4 w-4 mr-2" />
+              {runMutation.isPending ? 'Posting...' : 'Post Allocation'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ChevronRight } from 'lucide-react';
+import { formatCurrency } from '@/lib/utils';
+
+interface ProfitTotals {
+  income: number;
+  expenses: number;
+  netProfit: number;
+}
+
+interface CostCenterProfitRow {
+  id: string;
+  code: string;
+  name: string;
+  level: number;
+  own: ProfitTotals;
+  total: ProfitTotals;
+}
+
+interface CostCenterProfitLossReport {
+  fromDate: string;
+  toDate: string;
+  costCenters: CostCenterProfitRow[];
+  unassigned: ProfitTotals;
+  total: ProfitTotals;
+}
+
+interface CostCenterTrialBalanceItem {
+  accountId: string;
+  accountCode: string;
+  accountName: string;
+  debit: number;
+  credit: number;
+  closingDebit: number;
+  closingCredit: number;
+}
+
+interface CostCenterTrialBalance {
+  costCenter: { id: string; code: string; name: string };
+  items: CostCenterTrialBalanceItem[];
+  totals: { debit: number; credit: number; closingDebit: number; closingCredit: number };
+}
+
+const profitClass = (value: number) => (value < 0 ? 'text-red-600' : 'text-green-600');
+
+// Profit by cost center, rolled up the cost center tree, with the trial balance of the selected one
+export default function CostCenterProfitLoss() {
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const rangeParams = () => {
+    const params = new URLSearchParams();
+    if (fromDate) params.append('fromDate', fromDate);
+    return params;
+  };
+
+  const { data: report, isLoading } = useQuery<CostCenterProfitLossReport>({
+    queryKey: ['cost-center-profit-loss', fromDate, toDate],
+    queryFn: async () => {
+      const params = rangeParams();
+      if (toDate) params.append('toDate', toDate);
+      const response = await fetch(`/api/financial-statements/cost-center-profit-loss?${params}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch cost center P&L');
+      return response.json();
+    },
+  });
+
+  const { data: trialBalance } = useQuery<CostCenterTrialBalance>({
+    queryKey: ['cost-center-trial-balance', selectedId, fromDate, toDate],
+    queryFn: async () => {
+      const params = rangeParams();
+      if (toDate) params.append('asOfDate', toDate);
+      const response = await fetch(`/api/trial-balance/cost-center/${selectedId}?${params}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch cost center trial balance');
+      return response.json();
+    },
+    enabled: !!selectedId,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cost Center Profitability</CardTitle>
+        <CardDescription>
+          Income and expenses by cost center. Each total includes the cost centers below it.
+          Select a cost center to see its trial balance.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label>From</Label>
+            <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>To</Label>
+            <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+          {report && (
+            <p className="text-sm text-muted-foreground pb-2">
+              {report.fromDate} to {report.toDate}
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : report && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Cost Center</TableHead>
+                <TableHead className="text-right">Income</TableHead>
+                <TableHead className="text-right">Expenses</TableHead>
+                <TableHead className="text-right">Net Profit</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.costCenters.map((row) => (
+                <TableRow
+                  key={row.id}
+                  className={`cursor-pointer ${selectedId === row.id ? 'bg-muted' : ''}`}
+                  onClick={() => setSelectedId(row.id)}
+                >
+                  <TableCell>
+                    <div className="flex items-center gap-1" style={{ paddingLeft: `${row.level * 1.5}rem` }}>
+                      {row.level > 0 && <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+                      <span className="font-mono text-xs mr-2">{row.code}</span>
+                      {row.name}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.total.income)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.total.expenses)}</TableCell>
+                  <TableCell className={`text-right ${profitClass(row.total.netProfit)}`}>
+                    {formatCurrency(row.total.netProfit)}
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell className="text-muted-foreground">Unassigned</TableCell>
+                <TableCell className="text-right">{formatCurrency(report.unassigned.income)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(report.unassigned.expenses)}</TableCell>
+                <TableCell className={`text-right ${profitClass(report.unassigned.netProfit)}`}>
+                  {formatCurrency(report.unassigned.netProfit)}
+                </TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-bold">Total</TableCell>
+                <TableCell className="text-right font-bold">{formatCurrency(report.total.income)}</TableCell>
+                <TableCell className="text-right font-bold">{formatCurrency(report.total.expenses)}</TableCell>
+                <TableCell className={`text-right font-bold ${profitClass(report.total.netProfit)}`}>
+                  {formatCurrency(report.total.netProfit)}
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+
+        {trialBalance && (
+          <div className="space-y-2">
+            <Label>Trial Balance: {trialBalance.costCenter.code} - {trialBalance.costCenter.name}</Label>
+            {trialBalance.items.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No transactions tagged to this cost center</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Account</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                    <TableHead className="text-right">Closing Debit</TableHead>
+                    <TableHead className="text-right">Closing Credit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trialBalance.items.map((item) => (
+                    <TableRow key={item.accountId}>
+                      <TableCell>
+                        <span className="font-mono text-xs mr-2">{item.accountCode}</span>
+                        {item.accountName}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.debit)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.credit)}</TableCell>
+                      <TableCell className="text-right">{item.closingDebit ? formatCurrency(item.closingDebit) : '-'}</TableCell>
+                      <TableCell className="text-right">{item.closingCredit ? formatCurrency(item.closingCredit) : '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell className="font-bold">Total</TableCell>
+                    <TableCell className="text-right font-bold">{formatCurrency(trialBalance.totals.debit)}</TableCell>
+                    <TableCell className="text-right font-bold">{formatCurrency(trialBalance.totals.credit)}</TableCell>
+                    <TableCell className="text-right font-bold">{formatCurrency(trialBalance.totals.closingDebit)}</TableCell>
+                    <TableCell className="text-right font-bold">{formatCurrency(trialBalance.totals.closingCredit)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,57 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export interface CostCenterOption {
+  id: string;
+  code: string;
+  name: string;
+  isActive: boolean;
+}
+
+interface CostCenterSelectProps {
+  value?: string;
+  onChange: (costCenterId: string | undefined) => void;
+  disabled?: boolean;
+}
+
+const NO_COST_CENTER = 'none';
+
+// Tags a transaction line with a cost center
+export default function CostCenterSelect({ value, onChange, disabled }: CostCenterSelectProps) {
+  const { data: costCenters } = useQuery<CostCenterOption[]>({
+    queryKey: ['cost-centers'],
+    queryFn: async () => {
+      const response = await fetch('/api/cost-centers', {
+        credentials: 'include',
+      });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  return (
+    <Select
+      value={value || NO_COST_CENTER}
+      onValueChange={(id) => onChange(id === NO_COST_CENTER ? undefined : id)}
+      disabled={disabled}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder="Cost center" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_COST_CENTER}>No cost center</SelectItem>
+        {costCenters?.filter(cc => cc.isActive || cc.id === value).map((cc) => (
+          <SelectItem key={cc.id} value={cc.id}>
+            {cc.code} - {cc.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
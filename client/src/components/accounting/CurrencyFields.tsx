@@ -0,0 +1,98 @@
+import { useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+
+interface CurrencyOption {
+  code: string;
+  name: string;
+}
+
+export interface DocumentCurrencyValue {
+  currencyCode: string;
+  exchangeRate: string;
+}
+
+interface CurrencyFieldsProps {
+  value: DocumentCurrencyValue;
+  onChange: (value: DocumentCurrencyValue) => void;
+  disabled?: boolean;
+}
+
+export function useBaseCurrency(): string {
+  const { currentCompany } = useAuth();
+  return currentCompany?.baseCurrency || 'INR';
+}
+
+// Request fields for a document currency; the base currency sends neither
+export function currencyPayload(value: DocumentCurrencyValue, baseCurrency: string) {
+  if (!value.currencyCode || value.currencyCode === baseCurrency) return {};
+  return {
+    currencyCode: value.currencyCode,
+    exchangeRate: value.exchangeRate ? parseFloat(value.exchangeRate) : undefined,
+  };
+}
+
+// Currency of a document with its rate to the base currency. Left blank,
+// the rate is the stored one for the document date.
+export default function CurrencyFields({ value, onChange, disabled }: CurrencyFieldsProps) {
+  const baseCurrency = useBaseCurrency();
+  const { data: currencies } = useQuery<CurrencyOption[]>({
+    queryKey: ['currencies'],
+    queryFn: async () => {
+      const response = await fetch('/api/currencies', { credentials: 'include' });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  const selected = value.currencyCode || baseCurrency;
+  const options = currencies?.some(currency => currency.code === baseCurrency)
+    ? currencies
+    : [{ code: baseCurrency, name: baseCurrency }, ...(currencies || [])];
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label>Currency</Label>
+        <Select
+          value={selected}
+          disabled={disabled}
+          onValueChange={(code) => onChange({ currencyCode: code === baseCurrency ? '' : code, exchangeRate: '' })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((currency) => (
+              <SelectItem key={currency.code} value={currency.code}>
+                {currency.code} - {currency.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {selected !== baseCurrency && (
+        <div className="space-y-2">
+          <Label>Exchange Rate (1 {selected} = ? {baseCurrency})</Label>
+          <Input
+            type="number"
+            step="0.000001"
+            min="0"
+            placeholder="Stored rate"
+            value={value.exchangeRate}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...value, exchangeRate: e.target.value })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
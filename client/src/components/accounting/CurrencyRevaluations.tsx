@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Eye, Play } from 'lucide-react';
+import { useToast } from '@/hooks/useToast';
+import { formatCurrency } from '@/lib/utils';
+
+interface RevaluedItem {
+  kind: 'receivable' | 'payable' | 'bank';
+  currencyCode: string;
+  balanceFcy: number;
+  carryingAmount: number;
+  reference: string;
+  closingRate: number;
+  revaluedAmount: number;
+  difference: number;
+}
+
+interface RevaluationPreview {
+  revaluationDate: string;
+  baseCurrency: string;
+  rates: Record<string, number>;
+  missingRates: string[];
+  items: RevaluedItem[];
+  netAmount: number;
+}
+
+interface CurrencyRevaluation {
+  id: string;
+  revaluationDate: string;
+  reversalDate: string;
+  netAmount: string;
+  rates: Record<string, number>;
+  createdAt: string;
+}
+
+const kindLabels: Record<RevaluedItem['kind'], string> = {
+  receivable: 'Receivable',
+  payable: 'Payable',
+  bank: 'Bank',
+};
+
+// Period-end revaluation of open foreign currency balances at the closing rates
+export default function CurrencyRevaluations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [revaluationDate, setRevaluationDate] = useState(new Date().toISOString().split('T')[0]);
+  const [preview, setPreview] = useState<RevaluationPreview | null>(null);
+
+  const { data: revaluations } = useQuery<CurrencyRevaluation[]>({
+    queryKey: ['currency-revaluations'],
+    queryFn: async () => {
+      const response = await fetch('/api/currency-revaluations', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch revaluations');
+      return response.json();
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (date: string) => {
+      const response = await fetch(`/api/currency-revaluations/preview?date=${date}`, { credentials: 'include' });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to preview revaluation');
+      }
+      return response.json() as Promise<RevaluationPreview>;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (date: string) => {
+      const response = await fetch('/api/currency-revaluations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ revaluationDate: date }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to run revaluation');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['currency-revaluations'] });
+      queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
+      setPreview(null);
+      toast({
+        title: 'Revaluation posted',
+        description: 'The revaluation entry and its reversal on the next day have been posted.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const baseCurrency = preview?.baseCurrency || 'INR';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Period-end Revaluation</CardTitle>
+        <CardDescription>
+          Restate open foreign currency receivables, payables and bank balances at the closing rates.
+          The entry is reversed on the next day.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-end gap-2">
+          <div className="space-y-2">
+            <Label>Revaluation Date</Label>
+            <Input
+              type="date"
+              value={revaluationDate}
+              onChange={(e) => {
+                setRevaluationDate(e.target.value);
+                setPreview(null);
+              }}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => previewMutation.mutate(revaluationDate)}
+            disabled={!revaluationDate || previewMutation.isPending}
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            {previewMutation.isPending ? 'Loading...' : 'Preview'}
+          </Button>
+          <Button
+            onClick={() => runMutation.mutate(revaluationDate)}
+            disabled={!preview || preview.items.length === 0 || preview.missingRates.length > 0 || runMutation.isPending}
+          >
+            <Play className="h-4 w-4 mr-2" />
+            {runMutation.isPending ? 'Posting...' : 'Post Revaluation'}
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-2">
+            {preview.missingRates.length > 0 && (
+              <p className="text-sm text-destructive">
+                Add {preview.missingRates.join(', ')} exchange rates on or before {preview.revaluationDate}
+              </p>
+            )}
+            {preview.items.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No open foreign currency balances to revalue</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead className="text-right">Carrying Amount</TableHead>
+                    <TableHead className="text-right">Closing Rate</TableHead>
+                    <TableHead className="text-right">Revalued</TableHead>
+                    <TableHead className="text-right">Gain / (Loss)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.items.map((item, index) => (
+                    <TableRow key={`${item.reference}-${index}`}>
+                      <TableCell className="font-medium">{item.reference}</TableCell>
+                      <TableCell>{kindLabels[item.kind]}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.balanceFcy, item.currencyCode)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.carryingAmount, baseCurrency)}</TableCell>
+                      <TableCell className="text-right font-mono">{item.closingRate}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.revaluedAmount, baseCurrency)}</TableCell>
+                      <TableCell className={`text-right ${item.difference < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatCurrency(item.difference, baseCurrency)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={6} className="font-bold">Net Unrealised Gain / (Loss)</TableCell>
+                    <TableCell className={`text-right font-bold ${preview.netAmount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatCurrency(preview.netAmount, baseCurrency)}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        {revaluations && revaluations.length > 0 && (
+          <div className="space-y-2">
+            <Label>Previous Revaluations</Label>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Revaluation Date</TableHead>
+                  <TableHead>Reversed On</TableHead>
+                  <TableHead>Rates</TableHead>
+                  <TableHead className="text-right">Net Gain / (Loss)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {revaluations.map((revaluation) => (
+                  <TableRow key={revaluation.id}>
+                    <TableCell>{revaluation.revaluationDate}</TableCell>
+                    <TableCell>{revaluation.reversalDate}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {Object.entries(revaluation.rates || {}).map(([code, rate]) => `${code} ${rate}`).join(', ')}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(parseFloat(revaluation.netAmount))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -30,6 +30,7 @@ import {
 } from '@/components/ui/dialog';
 import { Plus, Trash2, RefreshCw, Upload } from 'lucide-react';
 import { useToast } from '@/hooks/useToast';
+import CurrencyRevaluations from './CurrencyRevaluations';
 
 interface Currency {
   id: string;
@@ -383,6 +384,8 @@ export default function CurrencySettings() {
           )}
         </CardContent>
       </Card>
+
+      <CurrencyRevaluations />
     </div>
   );
 }
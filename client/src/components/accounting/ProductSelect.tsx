@@ -0,0 +1,60 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export interface ProductOption {
+  id: string;
+  name: string;
+  sku?: string;
+  type: 'product' | 'service';
+  description?: string;
+  sellingPrice: string;
+  costPrice?: string;
+  hsnSacCode?: string;
+  gstRate: string;
+}
+
+interface ProductSelectProps {
+  value?: string;
+  onSelect: (product: ProductOption | null) => void;
+}
+
+const NO_PRODUCT = 'none';
+
+// Picks an item from the product master for a document line
+export default function ProductSelect({ value, onSelect }: ProductSelectProps) {
+  const { data: products } = useQuery<ProductOption[]>({
+    queryKey: ['products', 'active'],
+    queryFn: async () => {
+      const response = await fetch('/api/products?active=true', {
+        credentials: 'include',
+      });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  return (
+    <Select
+      value={value || NO_PRODUCT}
+      onValueChange={(id) => onSelect(products?.find(product => product.id === id) || null)}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder="Item" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_PRODUCT}>No item</SelectItem>
+        {products?.map((product) => (
+          <SelectItem key={product.id} value={product.id}>
+            {product.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { NavLink, useLocation } from 'react-router-dom';
 import { cn } from '@/lib/utils';
+import { usePermissions } from '@/hooks/useAuth';
+import type { PermissionArea } from '@shared/permissions';
 import {
   LayoutDashboard,
   BookOpen,
@@ -34,6 +36,9 @@ import {
   Landmark,
   ArrowLeftRight,
   Package,
+  Factory,
+  Target,
+  ShieldCheck,
   ArrowDownCircle,
   ArrowUpCircle,
   // Smart features icons
@@ -44,12 +49,15 @@ import {
   Bell,
   Mic,
   Store,
+  NotebookPen,
 } from 'lucide-react';
 
 interface MenuItem {
   label: string;
   path: string;
   icon: React.ReactNode;
+  // Permission area needed to see the item; defaults to 'accounting'
+  area?: PermissionArea;
 }
 
 interface MenuGroup {
@@ -98,6 +106,7 @@ const menuGroups: MenuGroup[] = [
       { label: 'Bank Feeds', path: '/bank-feeds', icon: <Wand2 className="h-4 w-4" /> },
       { label: 'Bank Reconciliation', path: '/bank-reconciliation', icon: <ArrowLeftRight className="h-4 w-4" /> },
       { label: 'Bank Import', path: '/bank-import', icon: <Upload className="h-4 w-4" /> },
+      { label: 'Cheques', path: '/cheques', icon: <NotebookPen className="h-4 w-4" /> },
     ],
   },
   {
@@ -106,10 +115,10 @@ const menuGroups: MenuGroup[] = [
     items: [
       { label: 'Document Scanner', path: '/document-scan', icon: <Camera className="h-4 w-4" /> },
       { label: 'Recurring Invoices', path: '/recurring-invoices', icon: <Repeat className="h-4 w-4" /> },
-      { label: 'Cash Flow Forecast', path: '/cash-flow-forecast', icon: <TrendingUp className="h-4 w-4" /> },
-      { label: 'Smart Alerts', path: '/smart-alerts', icon: <Bell className="h-4 w-4" /> },
+      { label: 'Cash Flow Forecast', path: '/cash-flow-forecast', icon: <TrendingUp className="h-4 w-4" />, area: 'reports' },
+      { label: 'Smart Alerts', path: '/smart-alerts', icon: <Bell className="h-4 w-4" />, area: 'reports' },
       { label: 'Voice Entry', path: '/voice-entry', icon: <Mic className="h-4 w-4" /> },
-      { label: 'Integrations', path: '/integrations', icon: <Store className="h-4 w-4" /> },
+      { label: 'Integrations', path: '/integrations', icon: <Store className="h-4 w-4" />, area: 'settings' },
     ],
   },
   {
@@ -118,20 +127,24 @@ const menuGroups: MenuGroup[] = [
     items: [
       { label: 'Chart of Accounts', path: '/chart-of-accounts', icon: <BookOpen className="h-4 w-4" /> },
       { label: 'Journal Entries', path: '/journal-entries', icon: <FileText className="h-4 w-4" /> },
+      { label: 'Approvals', path: '/approvals', icon: <ShieldCheck className="h-4 w-4" /> },
       { label: 'Ledger View', path: '/ledger', icon: <BookMarked className="h-4 w-4" /> },
       { label: 'Recurring Entries', path: '/recurring-entries', icon: <RefreshCw className="h-4 w-4" /> },
       { label: 'Parties', path: '/parties', icon: <Users className="h-4 w-4" /> },
+      { label: 'Fixed Assets', path: '/fixed-assets', icon: <Factory className="h-4 w-4" /> },
+      { label: 'Budgets', path: '/budgets', icon: <Target className="h-4 w-4" /> },
     ],
   },
   {
     label: 'Reports',
     icon: <PieChart className="h-4 w-4" />,
     items: [
-      { label: 'Trial Balance', path: '/trial-balance', icon: <Scale className="h-4 w-4" /> },
-      { label: 'Balance Sheet', path: '/balance-sheet', icon: <FileSpreadsheet className="h-4 w-4" /> },
-      { label: 'Profit & Loss', path: '/profit-loss', icon: <PieChart className="h-4 w-4" /> },
-      { label: 'Cash Flow', path: '/cash-flow', icon: <Banknote className="h-4 w-4" /> },
-      { label: 'Aging Reports', path: '/aging-reports', icon: <Clock className="h-4 w-4" /> },
+      { label: 'Trial Balance', path: '/trial-balance', icon: <Scale className="h-4 w-4" />, area: 'reports' },
+      { label: 'Balance Sheet', path: '/balance-sheet', icon: <FileSpreadsheet className="h-4 w-4" />, area: 'reports' },
+      { label: 'Profit & Loss', path: '/profit-loss', icon: <PieChart className="h-4 w-4" />, area: 'reports' },
+      { label: 'Cash Flow', path: '/cash-flow', icon: <Banknote className="h-4 w-4" />, area: 'reports' },
+      { label: 'Notes to Accounts', path: '/notes-to-accounts', icon: <ClipboardList className="h-4 w-4" />, area: 'reports' },
+      { label: 'Aging Reports', path: '/aging-reports', icon: <Clock className="h-4 w-4" />, area: 'reports' },
     ],
   },
   {
@@ -146,6 +159,10 @@ const menuGroups: MenuGroup[] = [
 
 export default function Sidebar() {
   const location = useLocation();
+  const { can } = usePermissions();
+  const visibleGroups = menuGroups
+    .map(group => ({ ...group, items: group.items.filter(item => can(item.area ?? 'accounting')) }))
+    .filter(group => group.items.length > 0);
   const [openMenus, setOpenMenus] = useState<Set<string>>(() => {
     // Auto-expand menu that contains current route
     const activeGroup = menuGroups.find(group =>
@@ -195,7 +212,7 @@ export default function Sidebar() {
         </NavLink>
 
         {/* Menu Groups */}
-        {menuGroups.map(group => (
+        {visibleGroups.map(group => (
           <div key={group.label} className="mt-2">
             <button
               onClick={() => toggleMenu(group.label)}
@@ -239,70 +256,78 @@ export default function Sidebar() {
       </nav>
 
       {/* Integrations */}
-      <div className="border-t border-sidebar-foreground/10 p-4 space-y-1">
-        <p className="px-2 mb-2 text-xs font-medium text-sidebar-foreground/50 uppercase tracking-wider">
-          Integrations
-        </p>
-        <NavLink
-          to="/pm-sync"
-          className={({ isActive }) =>
-            cn(
-              'flex items-center gap-3 px-2 py-2 text-sm rounded-md transition-colors',
-              isActive
-                ? 'bg-sidebar-accent/20 text-sidebar-accent'
-                : 'text-sidebar-foreground/70 hover:bg-sidebar-foreground/10 hover:text-sidebar-foreground'
-            )
-          }
-        >
-          <Link className="h-4 w-4" />
-          Practice Manager
-        </NavLink>
-        <NavLink
-          to="/traces"
-          className={({ isActive }) =>
-            cn(
-              'flex items-center gap-3 px-2 py-2 text-sm rounded-md transition-colors',
-              isActive
-                ? 'bg-sidebar-accent/20 text-sidebar-accent'
-                : 'text-sidebar-foreground/70 hover:bg-sidebar-foreground/10 hover:text-sidebar-foreground'
-            )
-          }
-        >
-          <FileSearch className="h-4 w-4" />
-          TRACES
-        </NavLink>
-      </div>
+      {can('accounting') && (
+        <div className="border-t border-sidebar-foreground/10 p-4 space-y-1">
+          <p className="px-2 mb-2 text-xs font-medium text-sidebar-foreground/50 uppercase tracking-wider">
+            Integrations
+          </p>
+          {can('settings') && (
+            <NavLink
+              to="/pm-sync"
+              className={({ isActive }) =>
+                cn(
+                  'flex items-center gap-3 px-2 py-2 text-sm rounded-md transition-colors',
+                  isActive
+                    ? 'bg-sidebar-accent/20 text-sidebar-accent'
+                    : 'text-sidebar-foreground/70 hover:bg-sidebar-foreground/10 hover:text-sidebar-foreground'
+                )
+              }
+            >
+              <Link className="h-4 w-4" />
+              Practice Manager
+            </NavLink>
+          )}
+          <NavLink
+            to="/traces"
+            className={({ isActive }) =>
+              cn(
+                'flex items-center gap-3 px-2 py-2 text-sm rounded-md transition-colors',
+                isActive
+                  ? 'bg-sidebar-accent/20 text-sidebar-accent'
+                  : 'text-sidebar-foreground/70 hover:bg-sidebar-foreground/10 hover:text-sidebar-foreground'
+              )
+            }
+          >
+            <FileSearch className="h-4 w-4" />
+            TRACES
+          </NavLink>
+        </div>
+      )}
 
       {/* Settings & Admin */}
       <div className="border-t border-sidebar-foreground/10 p-4 space-y-1">
-        <NavLink
-          to="/users"
-          className={({ isActive }) =>
-            cn(
-              'flex items-center gap-3 px-2 py-2 text-sm rounded-md transition-colors',
-              isActive
-                ? 'bg-sidebar-accent/20 text-sidebar-accent'
-                : 'text-sidebar-foreground/70 hover:bg-sidebar-foreground/10 hover:text-sidebar-foreground'
-            )
-          }
-        >
-          <UserPlus className="h-4 w-4" />
-          User Management
-        </NavLink>
-        <NavLink
-          to="/audit-log"
-          className={({ isActive }) =>
-            cn(
-              'flex items-center gap-3 px-2 py-2 text-sm rounded-md transition-colors',
-              isActive
-                ? 'bg-sidebar-accent/20 text-sidebar-accent'
-                : 'text-sidebar-foreground/70 hover:bg-sidebar-foreground/10 hover:text-sidebar-foreground'
-            )
-          }
-        >
-          <History className="h-4 w-4" />
-          Audit Log
-        </NavLink>
+        {can('users') && (
+          <NavLink
+            to="/users"
+            className={({ isActive }) =>
+              cn(
+                'flex items-center gap-3 px-2 py-2 text-sm rounded-md transition-colors',
+                isActive
+                  ? 'bg-sidebar-accent/20 text-sidebar-accent'
+                  : 'text-sidebar-foreground/70 hover:bg-sidebar-foreground/10 hover:text-sidebar-foreground'
+              )
+            }
+          >
+            <UserPlus className="h-4 w-4" />
+            User Management
+          </NavLink>
+        )}
+        {can('audit') && (
+          <NavLink
+            to="/audit-log"
+            className={({ isActive }) =>
+              cn(
+                'flex items-center gap-3 px-2 py-2 text-sm rounded-md transition-colors',
+                isActive
+                  ? 'bg-sidebar-accent/20 text-sidebar-accent'
+                  : 'text-sidebar-foreground/70 hover:bg-sidebar-foreground/10 hover:text-sidebar-foreground'
+              )
+            }
+          >
+            <History className="h-4 w-4" />
+            Audit Log
+          </NavLink>
+        )}
         <NavLink
           to="/settings"
           className={({ isActive }) =>
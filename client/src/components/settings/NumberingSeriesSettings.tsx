@@ -0,0 +1,334 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Pencil, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/useToast';
+
+interface NumberingSeries {
+  id: string;
+  documentType: string;
+  gstin: string | null;
+  name: string;
+  template: string;
+  isActive: boolean;
+  lastNumber: number;
+  releasedNumbers: number[];
+  nextNumber: string | null;
+}
+
+interface NumberingSeriesResponse {
+  fiscalYear: { id: string; name: string } | null;
+  series: NumberingSeries[];
+}
+
+const DOCUMENT_TYPES: Record<string, string> = {
+  invoice: 'Invoices',
+  credit_note: 'Credit Notes',
+  debit_note: 'Debit Notes',
+  bill: 'Bills',
+  quote: 'Quotes',
+  sales_order: 'Sales Orders',
+  purchase_order: 'Purchase Orders',
+  journal_entry: 'Journal Entries',
+};
+
+const emptyForm = { documentType: 'invoice', gstin: '', name: '', template: '', isActive: true, nextNumber: '' };
+
+export default function NumberingSeriesSettings() {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<NumberingSeries | null>(null);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const { data, isLoading } = useQuery<NumberingSeriesResponse>({
+    queryKey: ['numbering-series'],
+    queryFn: async () => {
+      const response = await fetch('/api/numbering-series', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch numbering series');
+      return response.json();
+    },
+  });
+
+  const { data: gstConfigs } = useQuery<{ id: string; gstin: string; tradeName: string | null }[]>({
+    queryKey: ['gst-configs'],
+    queryFn: async () => {
+      const response = await fetch('/api/gst/config', { credentials: 'include' });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const closeDialogs = () => {
+    setEditing(null);
+    setIsAddOpen(false);
+    setForm(emptyForm);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(editing ? `/api/numbering-series/${editing.id}` : '/api/numbering-series', {
+        method: editing ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(editing
+          ? {
+            name: form.name,
+            template: form.template,
+            isActive: form.isActive,
+            ...(form.nextNumber && { nextNumber: form.nextNumber, fiscalYearId: data?.fiscalYear?.id }),
+          }
+          : {
+            documentType: form.documentType,
+            gstin: form.gstin,
+            name: form.name,
+            template: form.template,
+          }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save numbering series');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['numbering-series'] });
+      toast({ title: editing ? 'Series updated' : 'Series created' });
+      closeDialogs();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/numbering-series/${id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete numbering series');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['numbering-series'] });
+      toast({ title: 'Series deleted' });
+    },
+    onError,
+  });
+
+  const openEdit = (series: NumberingSeries) => {
+    setEditing(series);
+    setForm({ ...emptyForm, name: series.name, template: series.template, isActive: series.isActive });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Document Numbering</CardTitle>
+          <CardDescription>
+            Number formats per document type{data?.fiscalYear ? `, showing ${data.fiscalYear.name}` : ''}.
+            Use {'{FY}'} for the fiscal year and {'{SEQ:5}'} for a zero-padded sequence.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setIsAddOpen(true)} disabled={!gstConfigs?.length}>
+          <Plus className="h-4 w-4 mr-2" />
+          Branch Series
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-8 text-center text-muted-foreground">Loading...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Document</TableHead>
+                <TableHead>GSTIN</TableHead>
+                <TableHead>Template</TableHead>
+                <TableHead>Next Number</TableHead>
+                <TableHead className="w-24"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data?.series.map((series) => (
+                <TableRow key={series.id}>
+                  <TableCell>
+                    <div className="font-medium">{DOCUMENT_TYPES[series.documentType]}</div>
+                    {series.name !== DOCUMENT_TYPES[series.documentType] && (
+                      <div className="text-xs text-muted-foreground">{series.name}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {series.gstin ? (
+                      <span className="font-mono text-sm">{series.gstin}</span>
+                    ) : (
+                      <span className="text-muted-foreground">All branches</span>
+                    )}
+                    {!series.isActive && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{series.template}</TableCell>
+                  <TableCell className="font-mono text-sm">
+                    {series.nextNumber || '-'}
+                    {series.releasedNumbers.length > 0 && (
+                      <span className="ml-2 font-sans text-xs text-muted-foreground">
+                        ({series.releasedNumbers.length} freed)
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => openEdit(series)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      {series.gstin && series.lastNumber === 0 && (
+                        <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(series.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing || isAddOpen} onOpenChange={(open) => !open && closeDialogs()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? `Edit ${DOCUMENT_TYPES[editing.documentType]} Series` : 'Add Branch Series'}
+            </DialogTitle>
+            <DialogDescription>
+              Invoice, credit note and debit note numbers may use letters, digits, "/" and "-" and
+              must fit in 16 characters.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            {!editing && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Document</Label>
+                  <Select
+                    value={form.documentType}
+                    onValueChange={(value) => setForm({ ...form, documentType: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DOCUMENT_TYPES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>GSTIN</Label>
+                  <Select value={form.gstin} onValueChange={(value) => setForm({ ...form, gstin: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select branch" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {gstConfigs?.map((config) => (
+                        <SelectItem key={config.id} value={config.gstin}>
+                          {config.gstin}{config.tradeName ? ` - ${config.tradeName}` : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Template</Label>
+              <Input
+                className="font-mono"
+                value={form.template}
+                onChange={(e) => setForm({ ...form, template: e.target.value })}
+                placeholder="INV/{FY}/{SEQ:5}"
+              />
+            </div>
+            {editing && (
+              <>
+                <div className="space-y-2">
+                  <Label>Continue From Number</Label>
+                  <Input
+                    type="number"
+                    min={editing.lastNumber + 1}
+                    value={form.nextNumber}
+                    onChange={(e) => setForm({ ...form, nextNumber: e.target.value })}
+                    placeholder={`${editing.lastNumber + 1}`}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Only needed when carrying on a sequence started elsewhere. Numbers cannot move back.
+                  </p>
+                </div>
+                {editing.gstin && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="seriesActive"
+                      checked={form.isActive}
+                      onCheckedChange={(checked) => setForm({ ...form, isActive: checked === true })}
+                    />
+                    <Label htmlFor="seriesActive">Active</Label>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialogs}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !form.name || !form.template || (!editing && !form.gstin)}
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
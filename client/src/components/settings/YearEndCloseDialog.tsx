@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from '@/hooks/useToast';
+import { CheckCircle, XCircle, AlertTriangle, Loader2 } from 'lucide-react';
+
+interface PreCloseCheck {
+  key: string;
+  label: string;
+  passed: boolean;
+  blocking: boolean;
+  detail: string;
+}
+
+interface CloseReview {
+  checks: PreCloseCheck[];
+  canClose: boolean;
+  hasWarnings: boolean;
+}
+
+interface YearEndCloseDialogProps {
+  companyId: string;
+  fiscalYear: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Guided year-end close: pre-close checks, then closing and opening entries
+export default function YearEndCloseDialog({ companyId, fiscalYear, onOpenChange }: YearEndCloseDialogProps) {
+  const queryClient = useQueryClient();
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  const { data: review, isLoading } = useQuery<CloseReview>({
+    queryKey: ['close-checks', fiscalYear?.id],
+    queryFn: async () => {
+      const response = await fetch(`/api/companies/${companyId}/fiscal-years/${fiscalYear!.id}/close-checks`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to run pre-close checks');
+      return response.json();
+    },
+    enabled: !!fiscalYear,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/companies/${companyId}/fiscal-years/${fiscalYear!.id}/close`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ acknowledgeWarnings: acknowledged }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to close fiscal year');
+      }
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['fiscal-years-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['auth'] });
+      toast({
+        title: `${fiscalYear?.name} closed`,
+        description: `Balances carried forward to ${result.nextFiscalYear.name}`,
+      });
+      handleOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Year-end close failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setAcknowledged(false);
+    onOpenChange(open);
+  };
+
+  const canSubmit = review?.canClose && (!review.hasWarnings || acknowledged) && !closeMutation.isPending;
+
+  return (
+    <Dialog open={!!fiscalYear} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Close {fiscalYear?.name}</DialogTitle>
+          <DialogDescription>
+            Income and expense balances move to retained earnings, balance sheet balances are
+            carried into the next year as an opening entry, and this year is locked.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {review?.checks.map((check) => (
+              <div key={check.key} className="flex items-start gap-3">
+                {check.passed ? (
+                  <CheckCircle className="h-5 w-5 text-green-600 mt-0.5" />
+                ) : check.blocking ? (
+                  <XCircle className="h-5 w-5 text-red-600 mt-0.5" />
+                ) : (
+                  <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+                )}
+                <div>
+                  <p className="text-sm font-medium">{check.label}</p>
+                  <p className="text-sm text-muted-foreground">{check.detail}</p>
+                </div>
+              </div>
+            ))}
+
+            {review?.canClose && review.hasWarnings && (
+              <div className="flex items-center gap-2 pt-2">
+                <Checkbox
+                  id="acknowledgeWarnings"
+                  checked={acknowledged}
+                  onCheckedChange={(checked) => setAcknowledged(checked === true)}
+                />
+                <Label htmlFor="acknowledgeWarnings">Close the year despite the warnings</Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => closeMutation.mutate()} disabled={!canSubmit}>
+            {closeMutation.isPending ? 'Closing...' : 'Close Year'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
+import { hasPermission, PermissionArea, AccessLevel } from '@shared/permissions';
 
 interface User {
   id: string;
@@ -23,6 +24,8 @@ interface Company {
   state: string | null;
   pincode: string | null;
   gaapStandard: string;
+  baseCurrency: string | null;
+  inventoryValuationMethod: string | null;
   logoUrl: string | null;
   defaultTemplate: string | null;
   role: string;
@@ -138,3 +141,11 @@ export function useIsOwner() {
   const { currentRole } = useAuth();
   return currentRole === 'owner';
 }
+
+// Checks the current company role against the shared permission matrix
+export function usePermissions() {
+  const { currentRole } = useAuth();
+  return {
+    can: (area: PermissionArea, level: AccessLevel = 'read') => hasPermission(currentRole, area, level),
+  };
+}
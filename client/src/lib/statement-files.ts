@@ -0,0 +1,53 @@
+/**
+ * Bank Statement Files
+ *
+ * Reading statement uploads for bank import and bank feeds. Text formats are
+ * sent as they are; Excel workbooks are sent base64 encoded.
+ */
+
+export const STATEMENT_FILE_ACCEPT = '.csv,.tsv,.txt,.ofx,.qfx,.sta,.mt940,.940,.xml,.xls,.xlsx';
+
+export const STATEMENT_FORMATS_HINT =
+  'CSV, Excel (XLS/XLSX), OFX/QFX, CAMT.053 XML, MT940, or text copied from a PDF statement. ' +
+  'HDFC, ICICI, SBI, Axis and Kotak layouts are recognised automatically.';
+
+// Labels of the formats the server reports having read
+export const STATEMENT_FORMAT_LABELS: Record<string, string> = {
+  csv: 'CSV',
+  ofx: 'OFX / QFX',
+  camt053: 'CAMT.053',
+  mt940: 'MT940',
+  xlsx: 'Excel',
+  text: 'PDF text',
+};
+
+export interface StatementFile {
+  content: string;
+  encoding: 'utf8' | 'base64';
+  fileName: string;
+}
+
+const BINARY_EXTENSIONS = ['.xls', '.xlsx'];
+
+export function readStatementFile(file: File): Promise<StatementFile> {
+  const isBinary = BINARY_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension));
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve({
+        // Data URLs carry the base64 content after the comma
+        content: isBinary ? result.slice(result.indexOf(',') + 1) : result,
+        encoding: isBinary ? 'base64' : 'utf8',
+        fileName: file.name,
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+    if (isBinary) {
+      reader.readAsDataURL(file);
+    } else {
+      reader.readAsText(file);
+    }
+  });
+}
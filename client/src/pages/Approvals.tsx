@@ -0,0 +1,580 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { ShieldCheck, CheckCircle, XCircle, Plus, Trash2, Inbox } from 'lucide-react';
+
+type DocumentType = 'journal_entry' | 'expense' | 'bill';
+
+interface ApprovalRequest {
+  id: string;
+  documentType: DocumentType;
+  documentId: string;
+  documentNumber?: string;
+  amount: string;
+  description?: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  comments?: string;
+  createdAt: string;
+  decidedAt?: string;
+  canDecide: boolean;
+  policy?: { name: string };
+  requestedBy?: { firstName: string; lastName?: string };
+  decidedBy?: { firstName: string; lastName?: string };
+}
+
+interface ApprovalPolicy {
+  id: string;
+  documentType: DocumentType;
+  name: string;
+  minAmount?: string;
+  accountIds: string[];
+  entryTypes: string[];
+  approverRoles: string[];
+  isActive: boolean;
+}
+
+const documentTypeLabels: Record<DocumentType, string> = {
+  journal_entry: 'Journal Entry',
+  expense: 'Expense',
+  bill: 'Bill',
+};
+
+// Each document type is approved through its own API
+const documentApiPaths: Record<DocumentType, string> = {
+  journal_entry: '/api/journal-entries',
+  expense: '/api/expenses',
+  bill: '/api/bills',
+};
+
+const documentPagePaths: Record<DocumentType, (id: string) => string> = {
+  journal_entry: (id) => `/journal-entries/${id}`,
+  expense: () => '/expenses',
+  bill: () => '/bills',
+};
+
+const ENTRY_TYPES = ['manual', 'recurring', 'bank_import', 'reversal', 'opening', 'closing'];
+const APPROVER_ROLES = ['owner', 'accountant'];
+
+const userName = (user?: { firstName: string; lastName?: string }) =>
+  user ? [user.firstName, user.lastName].filter(Boolean).join(' ') : '-';
+
+const emptyPolicyForm = () => ({
+  documentType: 'journal_entry' as DocumentType,
+  name: '',
+  minAmount: '',
+  accountIds: [] as string[],
+  entryTypes: [] as string[],
+  approverRoles: ['owner', 'accountant'],
+});
+
+export default function Approvals() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [historyStatus, setHistoryStatus] = useState('approved');
+  const [rejecting, setRejecting] = useState<ApprovalRequest | null>(null);
+  const [rejectComments, setRejectComments] = useState('');
+  const [showPolicyDialog, setShowPolicyDialog] = useState(false);
+  const [policyForm, setPolicyForm] = useState(emptyPolicyForm());
+
+  const { data: pending, isLoading } = useQuery<ApprovalRequest[]>({
+    queryKey: ['approvals', 'pending'],
+    queryFn: async () => {
+      const response = await fetch('/api/approvals?status=pending', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch approvals');
+      return response.json();
+    },
+  });
+
+  const { data: history } = useQuery<ApprovalRequest[]>({
+    queryKey: ['approvals', historyStatus],
+    queryFn: async () => {
+      const response = await fetch(`/api/approvals?status=${historyStatus}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch approvals');
+      return response.json();
+    },
+  });
+
+  const { data: policies } = useQuery<ApprovalPolicy[]>({
+    queryKey: ['approval-policies'],
+    queryFn: async () => {
+      const response = await fetch('/api/approvals/policies', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch approval policies');
+      return response.json();
+    },
+  });
+
+  const { data: accounts } = useQuery<{ id: string; code: string; name: string }[]>({
+    queryKey: ['ledger-accounts'],
+    queryFn: async () => {
+      const response = await fetch('/api/chart-of-accounts/ledgers/list', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch accounts');
+      return response.json();
+    },
+  });
+
+  const sendJson = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const err = await response.json();
+      throw new Error(err.error || 'Request failed');
+    }
+    return response.json();
+  };
+
+  const onDecided = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ['approvals'] });
+    queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
+    queryClient.invalidateQueries({ queryKey: ['expenses'] });
+    queryClient.invalidateQueries({ queryKey: ['bills'] });
+    toast({ title });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: error.message, variant: 'destructive' });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: (request: ApprovalRequest) =>
+      sendJson(`${documentApiPaths[request.documentType]}/${request.documentId}/approve`, 'POST', {}),
+    onSuccess: onDecided('Approved and posted'),
+    onError,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ request, comments }: { request: ApprovalRequest; comments: string }) =>
+      // Expenses take the rejection reason as `reason`
+      sendJson(`${documentApiPaths[request.documentType]}/${request.documentId}/reject`, 'POST', { comments, reason: comments }),
+    onSuccess: () => {
+      setRejecting(null);
+      setRejectComments('');
+      onDecided('Rejected and returned to the submitter')();
+    },
+    onError,
+  });
+
+  const createPolicyMutation = useMutation({
+    mutationFn: (data: ReturnType<typeof emptyPolicyForm>) => sendJson('/api/approvals/policies', 'POST', {
+      ...data,
+      minAmount: data.minAmount || null,
+      entryTypes: data.documentType === 'journal_entry' ? data.entryTypes : [],
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approval-policies'] });
+      setShowPolicyDialog(false);
+      setPolicyForm(emptyPolicyForm());
+      toast({ title: 'Approval policy created' });
+    },
+    onError,
+  });
+
+  const togglePolicyMutation = useMutation({
+    mutationFn: (policy: ApprovalPolicy) => sendJson(`/api/approvals/policies/${policy.id}`, 'PATCH', { isActive: !policy.isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['approval-policies'] }),
+    onError,
+  });
+
+  const deletePolicyMutation = useMutation({
+    mutationFn: (id: string) => sendJson(`/api/approvals/policies/${id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approval-policies'] });
+      toast({ title: 'Approval policy deleted' });
+    },
+    onError,
+  });
+
+  const toggleListValue = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const accountName = (id: string) => {
+    const account = accounts?.find(a => a.id === id);
+    return account ? `${account.code} ${account.name}` : id;
+  };
+
+  const policyConditions = (policy: ApprovalPolicy) => {
+    const conditions: string[] = [];
+    if (policy.minAmount) conditions.push(`${formatCurrency(parseFloat(policy.minAmount))} or more`);
+    if (policy.accountIds.length) conditions.push(`touches ${policy.accountIds.map(accountName).join(', ')}`);
+    if (policy.entryTypes.length) conditions.push(`type ${policy.entryTypes.join(', ')}`);
+    return conditions.length ? conditions.join('; ') : 'Every document';
+  };
+
+  const renderDocument = (request: ApprovalRequest) => (
+    <div>
+      <Link to={documentPagePaths[request.documentType](request.documentId)} className="font-medium hover:underline">
+        {request.documentNumber || documentTypeLabels[request.documentType]}
+      </Link>
+      {request.description && <p className="text-xs text-muted-foreground">{request.description}</p>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">Approvals</h1>
+        <p className="text-muted-foreground">
+          Journal entries, expenses and bills waiting for a second person's approval
+        </p>
+      </div>
+
+      <Tabs defaultValue="inbox">
+        <TabsList>
+          <TabsTrigger value="inbox">
+            Inbox
+            {!!pending?.length && <Badge variant="secondary" className="ml-2">{pending.length}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+          <TabsTrigger value="policies">Policies</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="inbox">
+          <Card>
+            <CardContent className="pt-6">
+              {isLoading ? (
+                <div className="space-y-4">
+                  {[...Array(3)].map((_, i) => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : !pending?.length ? (
+                <div className="text-center py-12">
+                  <Inbox className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">Nothing is waiting for approval</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Document</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Policy</TableHead>
+                      <TableHead>Submitted By</TableHead>
+                      <TableHead>Submitted</TableHead>
+                      <TableHead className="w-[200px]">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pending.map(request => (
+                      <TableRow key={request.id}>
+                        <TableCell>{documentTypeLabels[request.documentType]}</TableCell>
+                        <TableCell>{renderDocument(request)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(parseFloat(request.amount))}</TableCell>
+                        <TableCell>{request.policy?.name || '-'}</TableCell>
+                        <TableCell>{userName(request.requestedBy)}</TableCell>
+                        <TableCell>{formatDate(request.createdAt)}</TableCell>
+                        <TableCell>
+                          {request.canDecide ? (
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                onClick={() => approveMutation.mutate(request)}
+                                disabled={approveMutation.isPending}
+                              >
+                                <CheckCircle className="h-4 w-4 mr-1" />
+                                Approve
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => setRejecting(request)}>
+                                <XCircle className="h-4 w-4 mr-1" />
+                                Reject
+                              </Button>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Awaiting another approver</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <Select value={historyStatus} onValueChange={setHistoryStatus}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="approved">Approved</SelectItem>
+                  <SelectItem value="rejected">Rejected</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {!history?.length ? (
+                <p className="text-sm text-muted-foreground">No requests</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Document</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Submitted By</TableHead>
+                      <TableHead>Decided By</TableHead>
+                      <TableHead>Decided</TableHead>
+                      <TableHead>Comments</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {history.map(request => (
+                      <TableRow key={request.id}>
+                        <TableCell>{documentTypeLabels[request.documentType]}</TableCell>
+                        <TableCell>{renderDocument(request)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(parseFloat(request.amount))}</TableCell>
+                        <TableCell>{userName(request.requestedBy)}</TableCell>
+                        <TableCell>{userName(request.decidedBy)}</TableCell>
+                        <TableCell>{request.decidedAt ? formatDate(request.decidedAt) : '-'}</TableCell>
+                        <TableCell className="text-sm">{request.comments || '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="policies">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5" />
+                  Approval Policies
+                </CardTitle>
+                <Button onClick={() => setShowPolicyDialog(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Policy
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {!policies?.length ? (
+                <p className="text-sm text-muted-foreground">
+                  No policies yet. Documents post without approval until a policy applies to them.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Applies To</TableHead>
+                      <TableHead>Conditions</TableHead>
+                      <TableHead>Approvers</TableHead>
+                      <TableHead>Active</TableHead>
+                      <TableHead className="w-[60px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {policies.map(policy => (
+                      <TableRow key={policy.id}>
+                        <TableCell className="font-medium">{policy.name}</TableCell>
+                        <TableCell>{documentTypeLabels[policy.documentType]}</TableCell>
+                        <TableCell className="text-sm">{policyConditions(policy)}</TableCell>
+                        <TableCell className="capitalize">{policy.approverRoles.join(', ')}</TableCell>
+                        <TableCell>
+                          <Switch checked={policy.isActive} onCheckedChange={() => togglePolicyMutation.mutate(policy)} />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              if (confirm('Are you sure you want to delete this policy?')) {
+                                deletePolicyMutation.mutate(policy.id);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Reject Dialog */}
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject {rejecting?.documentNumber}</DialogTitle>
+            <DialogDescription>The submitter sees these comments and can correct and resubmit</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label>Comments</Label>
+            <Textarea value={rejectComments} onChange={(e) => setRejectComments(e.target.value)} rows={3} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting && rejectMutation.mutate({ request: rejecting, comments: rejectComments })}
+              disabled={!rejectComments.trim() || rejectMutation.isPending}
+            >
+              {rejectMutation.isPending ? 'Rejecting...' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* New Policy Dialog */}
+      <Dialog open={showPolicyDialog} onOpenChange={setShowPolicyDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New Approval Policy</DialogTitle>
+            <DialogDescription>
+              Documents meeting every condition need approval by someone other than their maker
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Applies To</Label>
+                <Select
+                  value={policyForm.documentType}
+                  onValueChange={(value) => setPolicyForm({ ...policyForm, documentType: value as DocumentType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(documentTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Minimum Amount (Optional)</Label>
+                <Input
+                  type="number"
+                  placeholder="Any amount"
+                  value={policyForm.minAmount}
+                  onChange={(e) => setPolicyForm({ ...policyForm, minAmount: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                placeholder="e.g., Large bank payments"
+                value={policyForm.name}
+                onChange={(e) => setPolicyForm({ ...policyForm, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Accounts (Optional)</Label>
+              <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-1">
+                {accounts?.map(account => (
+                  <label key={account.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={policyForm.accountIds.includes(account.id)}
+                      onCheckedChange={() => setPolicyForm({ ...policyForm, accountIds: toggleListValue(policyForm.accountIds, account.id) })}
+                    />
+                    <span className="font-mono text-xs">{account.code}</span>
+                    {account.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            {policyForm.documentType === 'journal_entry' && (
+              <div className="space-y-2">
+                <Label>Entry Types (Optional)</Label>
+                <div className="flex flex-wrap gap-3">
+                  {ENTRY_TYPES.map(type => (
+                    <label key={type} className="flex items-center gap-2 text-sm capitalize">
+                      <Checkbox
+                        checked={policyForm.entryTypes.includes(type)}
+                        onCheckedChange={() => setPolicyForm({ ...policyForm, entryTypes: toggleListValue(policyForm.entryTypes, type) })}
+                      />
+                      {type.replace('_', ' ')}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Approver Roles</Label>
+              <div className="flex gap-3">
+                {APPROVER_ROLES.map(role => (
+                  <label key={role} className="flex items-center gap-2 text-sm capitalize">
+                    <Checkbox
+                      checked={policyForm.approverRoles.includes(role)}
+                      onCheckedChange={() => setPolicyForm({ ...policyForm, approverRoles: toggleListValue(policyForm.approverRoles, role) })}
+                    />
+                    {role}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowPolicyDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createPolicyMutation.mutate(policyForm)}
+              disabled={!policyForm.name || !policyForm.approverRoles.length || createPolicyMutation.isPending}
+            >
+              {createPolicyMutation.isPending ? 'Creating...' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -99,6 +99,11 @@ const ACTION_LABELS: Record<string, string> = {
   approve: 'Approved',
   post: 'Posted',
   reverse: 'Reversed',
+  cancel: 'Cancelled',
+  reject: 'Rejected',
+  send: 'Sent',
+  issue: 'Issued',
+  dispose: 'Disposed',
 };
 
 const ENTITY_LABELS: Record<string, string> = {
@@ -111,6 +116,29 @@ const ENTITY_LABELS: Record<string, string> = {
   gst_config: 'GST Config',
   recurring_entry: 'Recurring Entry',
   bank_import: 'Bank Import',
+  invoice: 'Invoice',
+  bill: 'Bill',
+  expense: 'Expense',
+  credit_note: 'Credit Note',
+  debit_note: 'Debit Note',
+  payment_received: 'Payment Received',
+  payment_made: 'Payment Made',
+  gstr1_entry: 'GSTR-1 Entry',
+  itc_entry: 'ITC Entry',
+  gst_payment: 'GST Payment',
+  tds_deduction: 'TDS Deduction',
+  tds_challan: 'TDS Challan',
+  form26as_entry: 'Form 26AS Entry',
+  fixed_asset: 'Fixed Asset',
+  depreciation_run: 'Depreciation Run',
+  currency_revaluation: 'Currency Revaluation',
+  cost_allocation_rule: 'Cost Allocation Rule',
+  budget: 'Budget',
+  approval_policy: 'Approval Policy',
+  cheque: 'Cheque',
+  cheque_book: 'Cheque Book',
+  cheque_layout: 'Cheque Layout',
+  income_tax_asset_block: 'Income-tax Block',
 };
 
 export default function AuditLog() {
@@ -343,6 +371,8 @@ export default function AuditLog() {
                     <SelectItem value="logout">Logout</SelectItem>
                     <SelectItem value="post">Post</SelectItem>
                     <SelectItem value="reverse">Reverse</SelectItem>
+                    <SelectItem value="cancel">Cancel</SelectItem>
+                    <SelectItem value="approve">Approve</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -367,6 +397,12 @@ export default function AuditLog() {
                     <SelectItem value="company">Company</SelectItem>
                     <SelectItem value="user">User</SelectItem>
                     <SelectItem value="fiscal_year">Fiscal Year</SelectItem>
+                    <SelectItem value="invoice">Invoice</SelectItem>
+                    <SelectItem value="bill">Bill</SelectItem>
+                    <SelectItem value="payment_received">Payment Received</SelectItem>
+                    <SelectItem value="payment_made">Payment Made</SelectItem>
+                    <SelectItem value="gst_config">GST Config</SelectItem>
+                    <SelectItem value="tds_deduction">TDS Deduction</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,7 +13,7 @@ import {
 } from '@/components/ui/select';
 import { formatCurrency } from '@/lib/utils';
 import { cn } from '@/lib/utils';
-import { Download, Calendar, ChevronRight, ChevronDown, Printer } from 'lucide-react';
+import { Download, Calendar, ChevronRight, ChevronDown, ClipboardList, Printer } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 
 interface LineItem {
@@ -215,6 +216,12 @@ export default function BalanceSheet() {
           <p className="text-muted-foreground">Schedule III compliant statement of financial position</p>
         </div>
         <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link to="/notes-to-accounts">
+              <ClipboardList className="h-4 w-4 mr-2" />
+              Notes to Accounts
+            </Link>
+          </Button>
           <Button variant="outline" onClick={handlePrint}>
             <Printer className="h-4 w-4 mr-2" />
             Print
@@ -30,6 +30,7 @@ import {
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { formatCurrency } from '@/lib/utils';
+import { useBaseCurrency } from '@/components/accounting/CurrencyFields';
 import {
   Building2,
   Plus,
@@ -53,9 +54,15 @@ interface BankAccount {
   openingBalance: string;
   currentBalance: string;
   isActive: boolean;
+  currencyCode?: string | null;
   lastReconciled?: string;
 }
 
+interface Currency {
+  code: string;
+  name: string;
+}
+
 interface BankTransaction {
   id: string;
   date: string;
@@ -86,7 +93,9 @@ export default function BankAccounts() {
     ifscCode: '',
     accountType: 'current',
     openingBalance: '0',
+    currencyCode: '',
   });
+  const baseCurrency = useBaseCurrency();
 
   // Fetch bank accounts
   const { data: accounts, isLoading } = useQuery<BankAccount[]>({
@@ -100,6 +109,18 @@ export default function BankAccounts() {
     },
   });
 
+  // Fetch currencies
+  const { data: currencies } = useQuery<Currency[]>({
+    queryKey: ['currencies'],
+    queryFn: async () => {
+      const response = await fetch('/api/currencies', {
+        credentials: 'include',
+      });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
   // Fetch transactions for selected account
   const { data: transactions, isLoading: transactionsLoading } = useQuery<BankTransaction[]>({
     queryKey: ['bank-transactions', selectedAccount?.id],
@@ -121,7 +142,10 @@ export default function BankAccounts() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify(data),
+        body: JSON.stringify({
+          ...data,
+          currencyCode: data.currencyCode && data.currencyCode !== baseCurrency ? data.currencyCode : undefined,
+        }),
       });
       if (!response.ok) throw new Error('Failed to create bank account');
       return response.json();
@@ -164,6 +188,7 @@ export default function BankAccounts() {
       ifscCode: '',
       accountType: 'current',
       openingBalance: '0',
+      currencyCode: '',
     });
   };
 
@@ -325,6 +350,9 @@ export default function BankAccounts() {
                   <TableRow key={account.id}>
                     <TableCell className="font-medium">
                       {account.accountName}
+                      {account.currencyCode && (
+                        <span className="ml-2 text-xs text-muted-foreground">{account.currencyCode}</span>
+                      )}
                     </TableCell>
                     <TableCell>{account.bankName || '-'}</TableCell>
                     <TableCell className="font-mono">
@@ -437,14 +465,37 @@ export default function BankAccounts() {
                 </div>
               </>
             )}
-            <div className="space-y-2">
-              <Label>Opening Balance</Label>
-              <Input
-                type="number"
-                placeholder="0.00"
-                value={formData.openingBalance}
-                onChange={(e) => setFormData({ ...formData, openingBalance: e.target.value })}
-              />
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Currency</Label>
+                <Select
+                  value={formData.currencyCode || baseCurrency}
+                  onValueChange={(value) => setFormData({ ...formData, currencyCode: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {!currencies?.some((currency) => currency.code === baseCurrency) && (
+                      <SelectItem value={baseCurrency}>{baseCurrency}</SelectItem>
+                    )}
+                    {currencies?.map((currency) => (
+                      <SelectItem key={currency.code} value={currency.code}>
+                        {currency.code} - {currency.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Opening Balance ({baseCurrency})</Label>
+                <Input
+                  type="number"
+                  placeholder="0.00"
+                  value={formData.openingBalance}
+                  onChange={(e) => setFormData({ ...formData, openingBalance: e.target.value })}
+                />
+              </div>
             </div>
           </div>
           <DialogFooter>
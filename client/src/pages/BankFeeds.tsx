@@ -29,8 +29,11 @@ import {
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Checkbox } from '@/components/ui/checkbox';
+import BankGroupMatch from '@/components/accounting/BankGroupMatch';
 import { useToast } from '@/hooks/use-toast';
 import { formatCurrency } from '@/lib/utils';
+import { readStatementFile, STATEMENT_FILE_ACCEPT, STATEMENT_FORMATS_HINT, type StatementFile } from '@/lib/statement-files';
 import {
   Search,
   Upload,
@@ -40,6 +43,10 @@ import {
   Link2,
   Wand2,
   FileText,
+  Brain,
+  RefreshCw,
+  Combine,
+  RotateCcw,
 } from 'lucide-react';
 
 interface BankFeedTransaction {
@@ -51,6 +58,7 @@ interface BankFeedTransaction {
   creditAmount?: string;
   runningBalance?: string;
   reconciliationStatus: 'pending' | 'matched' | 'reconciled' | 'excluded';
+  matchGroupId?: string | null;
   suggestedAccount?: {
     id: string;
     name: string;
@@ -66,6 +74,52 @@ interface BankFeedTransaction {
   };
 }
 
+interface CategorySuggestion {
+  id: string;
+  confidence: number;
+}
+
+interface TransactionSuggestions {
+  accounts: Array<CategorySuggestion & { account?: { id: string; code: string; name: string } }>;
+  parties: Array<CategorySuggestion & { party?: { id: string; name: string } }>;
+}
+
+interface CalibrationBin {
+  from: number;
+  to: number;
+  predictions: number;
+  correct: number;
+}
+
+interface CategorizationModelStatus {
+  trained: boolean;
+  trainedAt?: string;
+  lastLearnedAt?: string;
+  trainingExamples?: number;
+  accountsKnown?: number;
+  partiesKnown?: number;
+  feedback?: { accepted: number; corrected: number; acceptanceRate: number | null };
+  evaluation?: {
+    examples: number;
+    evaluated: number;
+    folds: number;
+    accountAccuracy: number;
+    topThreeAccuracy: number;
+    partyExamples: number;
+    partyAccuracy: number;
+    autoApplyCoverage: number;
+    autoApplyAccuracy: number;
+    calibration: CalibrationBin[];
+    accounts: Array<{
+      accountId: string;
+      examples: number;
+      correct: number;
+      predicted: number;
+      account?: { code: string; name: string };
+    }>;
+  } | null;
+}
+
 interface BankFeedSummary {
   totalPending: number;
   totalMatched: number;
@@ -81,10 +135,15 @@ export default function BankFeeds() {
   const [statusFilter, setStatusFilter] = useState<string>('pending');
   const [bankAccountFilter, setBankAccountFilter] = useState<string>('all');
   const [showImportDialog, setShowImportDialog] = useState(false);
-  const [csvContent, setCsvContent] = useState('');
+  const [statementFile, setStatementFile] = useState<StatementFile | null>(null);
   const [selectedBankAccount, setSelectedBankAccount] = useState('');
   const [selectedTransaction, setSelectedTransaction] = useState<BankFeedTransaction | null>(null);
   const [showCategorizeDialog, setShowCategorizeDialog] = useState(false);
+  const [categoryAccountId, setCategoryAccountId] = useState('');
+  const [categoryPartyId, setCategoryPartyId] = useState<string | undefined>();
+  const [showModelReport, setShowModelReport] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [matchTransactions, setMatchTransactions] = useState<BankFeedTransaction[]>([]);
 
   // Fetch summary
   const { data: summary } = useQuery<BankFeedSummary>({
@@ -106,9 +165,77 @@ export default function BankFeeds() {
     queryKey: ['/api/chart-of-accounts/ledgers/list'],
   });
 
+  // Ranked suggestions of the company's categorization model
+  const { data: suggestions } = useQuery<TransactionSuggestions>({
+    queryKey: ['/api/bank-feeds/transactions', selectedTransaction?.id, 'suggestions'],
+    queryFn: async () => {
+      const res = await fetch(`/api/bank-feeds/transactions/${selectedTransaction!.id}/suggestions`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch suggestions');
+      return res.json();
+    },
+    enabled: showCategorizeDialog && !!selectedTransaction,
+  });
+
+  // Categorization model status and accuracy
+  const { data: modelStatus } = useQuery<CategorizationModelStatus>({
+    queryKey: ['/api/bank-feeds/model'],
+    queryFn: async () => {
+      const res = await fetch('/api/bank-feeds/model', { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch categorization model');
+      return res.json();
+    },
+  });
+
+  const trainModelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch('/api/bank-feeds/model/train', {
+        method: 'POST',
+        credentials: 'include',
+      });
+      if (!res.ok) throw new Error((await res.json()).error || 'Failed to train model');
+      return res.json();
+    },
+    onSuccess: (data: CategorizationModelStatus) => {
+      queryClient.setQueryData(['/api/bank-feeds/model'], data);
+      toast({
+        title: 'Model retrained',
+        description: `Learned from ${data.trainingExamples || 0} categorised transactions`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Training failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // Undo a grouped match, deleting the payment it recorded
+  const undoMatchMutation = useMutation({
+    mutationFn: async (groupId: string) => {
+      const res = await fetch(`/api/bank-feeds/group-match/${groupId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!res.ok) throw new Error((await res.json()).error || 'Failed to undo match');
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bank-feeds'] });
+      toast({ title: 'Match undone' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not undo match', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const openCategorizeDialog = (txn: BankFeedTransaction) => {
+    setSelectedTransaction(txn);
+    setCategoryAccountId(txn.suggestedAccount?.id || '');
+    setCategoryPartyId(txn.suggestedParty?.id);
+    setShowCategorizeDialog(true);
+  };
+
   // Import mutation
   const importMutation = useMutation({
-    mutationFn: async (data: { csvContent: string; bankAccountId: string }) => {
+    mutationFn: async (data: StatementFile & { bankAccountId: string }) => {
       const res = await fetch('/api/bank-feeds/import', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -125,7 +252,7 @@ export default function BankFeeds() {
         description: `Imported ${data.imported} transactions`,
       });
       setShowImportDialog(false);
-      setCsvContent('');
+      setStatementFile(null);
     },
     onError: (error: Error) => {
       toast({
@@ -150,6 +277,7 @@ export default function BankFeeds() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/bank-feeds'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bank-feeds/model'] });
       toast({ title: 'Transaction categorized' });
       setShowCategorizeDialog(false);
       setSelectedTransaction(null);
@@ -225,11 +353,15 @@ export default function BankFeeds() {
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        setCsvContent(event.target?.result as string);
-      };
-      reader.readAsText(file);
+      readStatementFile(file)
+        .then(setStatementFile)
+        .catch(() => {
+          toast({
+            title: 'Could not read file',
+            description: file.name,
+            variant: 'destructive',
+          });
+        });
     }
   };
 
@@ -249,9 +381,17 @@ export default function BankFeeds() {
             <Link2 className="w-4 h-4 mr-2" />
             Auto-Reconcile
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => setMatchTransactions(transactions?.filter(t => selectedIds.includes(t.id)) || [])}
+            disabled={selectedIds.length === 0}
+          >
+            <Combine className="w-4 h-4 mr-2" />
+            Match Selected{selectedIds.length > 0 && ` (${selectedIds.length})`}
+          </Button>
           <Button onClick={() => setShowImportDialog(true)}>
             <Upload className="w-4 h-4 mr-2" />
-            Import CSV
+            Import Statement
           </Button>
         </div>
       </div>
@@ -300,6 +440,76 @@ export default function BankFeeds() {
         </Card>
       </div>
 
+      {/* Categorization Model */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Brain className="h-4 w-4 text-purple-600" />
+            Categorization Model
+          </CardTitle>
+          <div className="flex gap-2">
+            {modelStatus?.evaluation && (
+              <Button variant="ghost" size="sm" onClick={() => setShowModelReport(true)}>
+                Accuracy Report
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => trainModelMutation.mutate()} disabled={trainModelMutation.isPending}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${trainModelMutation.isPending ? 'animate-spin' : ''}`} />
+              Retrain
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {modelStatus?.trained ? (
+            <div className="grid gap-4 md:grid-cols-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Learned from</p>
+                <p className="text-lg font-semibold">{modelStatus.trainingExamples} transactions</p>
+                <p className="text-xs text-muted-foreground">
+                  {modelStatus.accountsKnown} accounts, {modelStatus.partiesKnown} parties
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Top suggestion right</p>
+                <p className="text-lg font-semibold">
+                  {modelStatus.evaluation?.evaluated ? `${modelStatus.evaluation.accountAccuracy}%` : '-'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {modelStatus.evaluation?.evaluated
+                    ? `In top 3: ${modelStatus.evaluation.topThreeAccuracy}%`
+                    : 'Needs more categorised transactions'}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Confident suggestions</p>
+                <p className="text-lg font-semibold">
+                  {modelStatus.evaluation?.evaluated ? `${modelStatus.evaluation.autoApplyCoverage}%` : '-'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {modelStatus.evaluation?.evaluated
+                    ? `${modelStatus.evaluation.autoApplyAccuracy}% of them right`
+                    : 'Of transactions, 80%+ confidence'}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Accepted by users</p>
+                <p className="text-lg font-semibold">
+                  {modelStatus.feedback?.acceptanceRate != null ? `${modelStatus.feedback.acceptanceRate}%` : '-'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {modelStatus.feedback?.accepted || 0} accepted, {modelStatus.feedback?.corrected || 0} corrected
+                </p>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              The model learns from transactions you categorise and from your bank journal entries. It is trained
+              on first use, or retrain it now.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Filters */}
       <Card>
         <CardContent className="pt-6">
@@ -360,6 +570,7 @@ export default function BankFeeds() {
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-10" />
                   <TableHead>Date</TableHead>
                   <TableHead>Description</TableHead>
                   <TableHead>Reference</TableHead>
@@ -373,13 +584,23 @@ export default function BankFeeds() {
               <TableBody>
                 {filteredTransactions?.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
-                      No transactions found. Import a CSV to get started.
+                    <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                      No transactions found. Import a statement to get started.
                     </TableCell>
                   </TableRow>
                 ) : (
                   filteredTransactions?.map((txn) => (
                     <TableRow key={txn.id}>
+                      <TableCell>
+                        {txn.reconciliationStatus === 'pending' && (
+                          <Checkbox
+                            checked={selectedIds.includes(txn.id)}
+                            onCheckedChange={(checked) => setSelectedIds(checked === true
+                              ? [...selectedIds, txn.id]
+                              : selectedIds.filter(id => id !== txn.id))}
+                          />
+                        )}
+                      </TableCell>
                       <TableCell>{new Date(txn.transactionDate).toLocaleDateString()}</TableCell>
                       <TableCell className="max-w-[200px] truncate">{txn.description}</TableCell>
                       <TableCell>{txn.referenceNumber || '-'}</TableCell>
@@ -409,13 +630,35 @@ export default function BankFeeds() {
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => {
-                              setSelectedTransaction(txn);
-                              setShowCategorizeDialog(true);
-                            }}
+                            onClick={() => openCategorizeDialog(txn)}
                           >
                             <FileText className="w-4 h-4" />
                           </Button>
+                          {txn.reconciliationStatus === 'pending' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Match against invoices or bills"
+                              onClick={() => setMatchTransactions([txn])}
+                            >
+                              <Combine className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {txn.matchGroupId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Undo match"
+                              disabled={undoMatchMutation.isPending}
+                              onClick={() => {
+                                if (confirm('Undo this match? The payment it recorded and its journal entry will be deleted.')) {
+                                  undoMatchMutation.mutate(txn.matchGroupId!);
+                                }
+                              }}
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -427,13 +670,25 @@ export default function BankFeeds() {
         </CardContent>
       </Card>
 
+      {/* Group Match Dialog */}
+      <BankGroupMatch
+        open={matchTransactions.length > 0}
+        onOpenChange={(open) => !open && setMatchTransactions([])}
+        transactions={matchTransactions}
+        accounts={accounts || []}
+        onMatched={() => {
+          setSelectedIds([]);
+          queryClient.invalidateQueries({ queryKey: ['/api/bank-feeds'] });
+        }}
+      />
+
       {/* Import Dialog */}
       <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
         <DialogContent className="max-w-lg">
           <DialogHeader>
             <DialogTitle>Import Bank Statement</DialogTitle>
             <DialogDescription>
-              Upload a CSV file from your bank to import transactions
+              Upload a statement from your bank to import transactions
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
@@ -453,16 +708,16 @@ export default function BankFeeds() {
               </Select>
             </div>
             <div>
-              <Label>CSV File</Label>
-              <Input type="file" accept=".csv" onChange={handleFileUpload} />
+              <Label>Statement File</Label>
+              <Input type="file" accept={STATEMENT_FILE_ACCEPT} onChange={handleFileUpload} />
               <p className="text-xs text-muted-foreground mt-1">
-                Supports HDFC, ICICI, SBI, and standard bank statement formats
+                {STATEMENT_FORMATS_HINT}
               </p>
             </div>
-            {csvContent && (
+            {statementFile && (
               <div className="p-3 bg-muted rounded-md">
                 <p className="text-sm text-muted-foreground">
-                  File loaded: {csvContent.split('\n').length - 1} rows detected
+                  File loaded: {statementFile.fileName}
                 </p>
               </div>
             )}
@@ -472,8 +727,8 @@ export default function BankFeeds() {
               Cancel
             </Button>
             <Button
-              onClick={() => importMutation.mutate({ csvContent, bankAccountId: selectedBankAccount })}
-              disabled={!csvContent || !selectedBankAccount || importMutation.isPending}
+              onClick={() => statementFile && importMutation.mutate({ ...statementFile, bankAccountId: selectedBankAccount })}
+              disabled={!statementFile || !selectedBankAccount || importMutation.isPending}
             >
               {importMutation.isPending ? 'Importing...' : 'Import'}
             </Button>
@@ -501,9 +756,50 @@ export default function BankFeeds() {
                     : `Credit: ${formatCurrency(parseFloat(selectedTransaction.creditAmount || '0'))}`}
                 </p>
               </div>
+              {suggestions && suggestions.accounts.length > 0 && (
+                <div>
+                  <Label>Suggested</Label>
+                  <div className="flex flex-wrap gap-2 mt-1">
+                    {suggestions.accounts.map((suggestion) => (
+                      <Button
+                        key={suggestion.id}
+                        type="button"
+                        size="sm"
+                        variant={categoryAccountId === suggestion.id ? 'default' : 'outline'}
+                        onClick={() => {
+                          setCategoryAccountId(suggestion.id);
+                          if (!categoryPartyId && suggestions.parties[0]) {
+                            setCategoryPartyId(suggestions.parties[0].id);
+                          }
+                        }}
+                      >
+                        {suggestion.account?.name || 'Account'}
+                        <Badge variant="secondary" className="ml-2 text-xs">
+                          {suggestion.confidence.toFixed(0)}%
+                        </Badge>
+                      </Button>
+                    ))}
+                  </div>
+                  {suggestions.parties.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+                      <span className="text-muted-foreground">Party:</span>
+                      {suggestions.parties.map((suggestion) => (
+                        <Badge
+                          key={suggestion.id}
+                          variant={categoryPartyId === suggestion.id ? 'default' : 'outline'}
+                          className="cursor-pointer"
+                          onClick={() => setCategoryPartyId(categoryPartyId === suggestion.id ? undefined : suggestion.id)}
+                        >
+                          {suggestion.party?.name || 'Party'} ({suggestion.confidence.toFixed(0)}%)
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
               <div>
                 <Label>Account Category</Label>
-                <Select>
+                <Select value={categoryAccountId} onValueChange={setCategoryAccountId}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select account" />
                   </SelectTrigger>
@@ -522,12 +818,102 @@ export default function BankFeeds() {
             <Button variant="outline" onClick={() => setShowCategorizeDialog(false)}>
               Cancel
             </Button>
-            <Button onClick={() => {}} disabled={categorizeMutation.isPending}>
+            <Button
+              onClick={() => selectedTransaction && categorizeMutation.mutate({
+                transactionId: selectedTransaction.id,
+                accountId: categoryAccountId,
+                partyId: categoryPartyId,
+              })}
+              disabled={!categoryAccountId || categorizeMutation.isPending}
+            >
               Save Category
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Model Accuracy Report */}
+      <Dialog open={showModelReport} onOpenChange={setShowModelReport}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Categorization Accuracy</DialogTitle>
+            <DialogDescription>
+              {modelStatus?.evaluation
+                ? `Cross-validated over ${modelStatus.evaluation.folds} folds: each of ${modelStatus.evaluation.evaluated} transactions was predicted by a model that had not seen it.`
+                : 'Retrain the model to measure its accuracy.'}
+              {modelStatus?.trainedAt && ` Trained ${new Date(modelStatus.trainedAt).toLocaleString()}.`}
+            </DialogDescription>
+          </DialogHeader>
+          {modelStatus?.evaluation && (
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Account right</p>
+                  <p className="text-lg font-semibold">{modelStatus.evaluation.accountAccuracy}%</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Account in top 3</p>
+                  <p className="text-lg font-semibold">{modelStatus.evaluation.topThreeAccuracy}%</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Party right</p>
+                  <p className="text-lg font-semibold">
+                    {modelStatus.evaluation.partyExamples ? `${modelStatus.evaluation.partyAccuracy}%` : '-'}
+                  </p>
+                </div>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium mb-2">Confidence vs. outcome</p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Model probability</TableHead>
+                      <TableHead className="text-right">Suggestions</TableHead>
+                      <TableHead className="text-right">Right</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {modelStatus.evaluation.calibration.filter(bin => bin.predictions > 0).map((bin) => (
+                      <TableRow key={bin.from}>
+                        <TableCell>{Math.round(bin.from * 100)}% - {Math.round(bin.to * 100)}%</TableCell>
+                        <TableCell className="text-right">{bin.predictions}</TableCell>
+                        <TableCell className="text-right">{Math.round((bin.correct / bin.predictions) * 100)}%</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium mb-2">By account</p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Account</TableHead>
+                      <TableHead className="text-right">Transactions</TableHead>
+                      <TableHead className="text-right">Found</TableHead>
+                      <TableHead className="text-right">Suggested right</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {modelStatus.evaluation.accounts.filter(a => a.examples > 0).map((row) => (
+                      <TableRow key={row.accountId}>
+                        <TableCell>{row.account ? `${row.account.code} - ${row.account.name}` : 'Removed account'}</TableCell>
+                        <TableCell className="text-right">{row.examples}</TableCell>
+                        <TableCell className="text-right">{Math.round((row.correct / row.examples) * 100)}%</TableCell>
+                        <TableCell className="text-right">
+                          {row.predicted ? `${Math.round((row.correct / row.predicted) * 100)}%` : '-'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -31,6 +31,13 @@ import {
   Building2,
 } from 'lucide-react';
 import { cn, formatCurrency } from '@/lib/utils';
+import {
+  readStatementFile,
+  STATEMENT_FILE_ACCEPT,
+  STATEMENT_FORMATS_HINT,
+  STATEMENT_FORMAT_LABELS,
+  type StatementFile,
+} from '@/lib/statement-files';
 
 interface ParsedTransaction {
   date: string;
@@ -62,8 +69,9 @@ export default function BankImport() {
   const queryClient = useQueryClient();
   const [step, setStep] = useState<'upload' | 'review' | 'complete'>('upload');
   const [bankAccountId, setBankAccountId] = useState<string>('');
-  const [fileContent, setFileContent] = useState<string>('');
+  const [statementFile, setStatementFile] = useState<StatementFile | null>(null);
   const [transactions, setTransactions] = useState<ParsedTransaction[]>([]);
+  const [statementSource, setStatementSource] = useState<string | null>(null);
   const [summary, setSummary] = useState<{
     total: number;
     matched: number;
@@ -105,15 +113,15 @@ export default function BankImport() {
 
   // Parse mutation
   const parseMutation = useMutation({
-    mutationFn: async (content: string) => {
+    mutationFn: async (file: StatementFile) => {
       const response = await fetch('/api/bank-import/parse', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
         body: JSON.stringify({
-          content,
+          ...file,
           bankAccountId,
-          format: 'csv',
+          format: 'auto',
         }),
       });
       if (!response.ok) {
@@ -131,6 +139,7 @@ export default function BankImport() {
       }));
       setTransactions(txns);
       setSummary(data.summary);
+      setStatementSource(data.bank || STATEMENT_FORMAT_LABELS[data.format] || null);
       setStep('review');
     },
     onError: (error: Error) => {
@@ -189,19 +198,22 @@ export default function BankImport() {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      setFileContent(content);
-    };
-    reader.readAsText(file);
+    readStatementFile(file)
+      .then(setStatementFile)
+      .catch(() => {
+        toast({
+          title: 'File Error',
+          description: 'Could not read the selected file',
+          variant: 'destructive',
+        });
+      });
   };
 
   const handleParse = () => {
-    if (!fileContent) {
+    if (!statementFile) {
       toast({
         title: 'No File Selected',
-        description: 'Please select a CSV file to import',
+        description: 'Please select a statement file to import',
         variant: 'destructive',
       });
       return;
@@ -214,7 +226,7 @@ export default function BankImport() {
       });
       return;
     }
-    parseMutation.mutate(fileContent);
+    parseMutation.mutate(statementFile);
   };
 
   const handleToggleAll = (checked: boolean) => {
@@ -265,7 +277,8 @@ export default function BankImport() {
 
   const handleReset = () => {
     setStep('upload');
-    setFileContent('');
+    setStatementFile(null);
+    setStatementSource(null);
     setTransactions([]);
     setSummary(null);
   };
@@ -321,8 +334,8 @@ export default function BankImport() {
           <CardHeader>
             <CardTitle>Upload Bank Statement</CardTitle>
             <CardDescription>
-              Upload a CSV file exported from your bank. Supported formats: CSV
-              with Date, Description, Debit, Credit columns.
+              Upload a statement downloaded from your bank. Supported formats:{' '}
+              {STATEMENT_FORMATS_HINT}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -343,11 +356,11 @@ export default function BankImport() {
             </div>
 
             <div className="space-y-2">
-              <Label>Statement File (CSV)</Label>
+              <Label>Statement File</Label>
               <div className="border-2 border-dashed rounded-lg p-8 text-center">
                 <Input
                   type="file"
-                  accept=".csv"
+                  accept={STATEMENT_FILE_ACCEPT}
                   onChange={handleFileSelect}
                   className="hidden"
                   id="file-upload"
@@ -358,15 +371,15 @@ export default function BankImport() {
                 >
                   <Upload className="h-8 w-8 text-muted-foreground" />
                   <span className="text-sm text-muted-foreground">
-                    {fileContent
-                      ? 'File loaded. Click to change.'
-                      : 'Click to select CSV file'}
+                    {statementFile
+                      ? `${statementFile.fileName} loaded. Click to change.`
+                      : 'Click to select statement file'}
                   </span>
                 </label>
               </div>
             </div>
 
-            {fileContent && (
+            {statementFile && (
               <div className="flex items-center gap-2 p-3 bg-green-50 rounded-lg">
                 <Check className="h-4 w-4 text-green-600" />
                 <span className="text-sm text-green-700">
@@ -377,7 +390,7 @@ export default function BankImport() {
 
             <Button
               onClick={handleParse}
-              disabled={!fileContent || !bankAccountId || parseMutation.isPending}
+              disabled={!statementFile || !bankAccountId || parseMutation.isPending}
               className="w-full"
             >
               {parseMutation.isPending ? (
@@ -440,6 +453,7 @@ export default function BankImport() {
                 <CardTitle>Review Transactions</CardTitle>
                 <CardDescription>
                   Verify account mappings and select transactions to import
+                  {statementSource && ` (read as ${statementSource})`}
                 </CardDescription>
               </div>
               <div className="flex items-center gap-4">
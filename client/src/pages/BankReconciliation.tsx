@@ -23,6 +23,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { formatCurrency } from '@/lib/utils';
+import BankReconciliationStatement from '@/components/accounting/BankReconciliationStatement';
 import {
   Building2,
   CheckCircle,
@@ -476,6 +477,12 @@ export default function BankReconciliation() {
               </div>
             </CardContent>
           </Card>
+
+          <BankReconciliationStatement
+            bankAccountId={selectedAccountId}
+            asOfDate={statementDate}
+            statementBalance={statementBalance}
+          />
         </>
       )}
     </div>
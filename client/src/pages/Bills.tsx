@@ -45,6 +45,8 @@ import {
   Printer,
   FileDown,
   XCircle,
+  Send,
+  ShieldCheck,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -54,7 +56,10 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { generateDocument, DocumentData, TemplateId } from '@/lib/document-templates';
 import TemplateSelector from '@/components/document/TemplateSelector';
-import { useAuth } from '@/hooks/useAuth';
+import { useAuth, usePermissions } from '@/hooks/useAuth';
+import ProductSelect, { type ProductOption } from '@/components/accounting/ProductSelect';
+import CostCenterSelect from '@/components/accounting/CostCenterSelect';
+import CurrencyFields, { currencyPayload, useBaseCurrency } from '@/components/accounting/CurrencyFields';
 
 interface Bill {
   id: string;
@@ -69,7 +74,11 @@ interface Bill {
   totalAmount: string;
   paidAmount: string;
   balanceAmount: string;
-  status: 'draft' | 'open' | 'overdue' | 'paid';
+  currencyCode?: string | null;
+  exchangeRate?: string;
+  totalAmountFcy?: string | null;
+  balanceAmountFcy?: string | null;
+  status: 'draft' | 'open' | 'overdue' | 'paid' | 'pending_approval';
   items: BillItem[];
 }
 
@@ -83,6 +92,18 @@ interface BillItem {
   gstRate?: string;
 }
 
+interface BillFormItem {
+  productId?: string;
+  costCenterId?: string;
+  description: string;
+  quantity: number;
+  rate: string;
+  hsnSac: string;
+  gstRate: string;
+}
+
+const emptyBillItem = (): BillFormItem => ({ description: '', quantity: 1, rate: '', hsnSac: '', gstRate: '18' });
+
 interface Vendor {
   id: string;
   name: string;
@@ -103,15 +124,21 @@ export default function Bills() {
     vendorBillNumber: '',
     billDate: new Date().toISOString().split('T')[0],
     dueDate: '',
-    items: [{ description: '', quantity: 1, rate: '', hsnSac: '', gstRate: '18' }],
+    currencyCode: '',
+    exchangeRate: '',
+    items: [emptyBillItem()],
   });
   const [paymentData, setPaymentData] = useState({
     amount: '',
     paymentDate: new Date().toISOString().split('T')[0],
     paymentMode: 'bank',
     referenceNumber: '',
+    exchangeRate: '',
   });
   const { currentCompany } = useAuth();
+  const baseCurrency = useBaseCurrency();
+  const { can } = usePermissions();
+  const canEdit = can('accounting', 'write');
   const [showTemplateSelector, setShowTemplateSelector] = useState(false);
   const [pendingDownloadId, setPendingDownloadId] = useState<string | null>(null);
 
@@ -144,11 +171,12 @@ export default function Bills() {
   // Create bill mutation
   const createBillMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
+      const { currencyCode, exchangeRate, ...bill } = data;
       const response = await fetch('/api/bills', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...bill, ...currencyPayload({ currencyCode, exchangeRate }, baseCurrency) }),
       });
       if (!response.ok) throw new Error('Failed to create bill');
       return response.json();
@@ -167,11 +195,13 @@ export default function Bills() {
   // Update bill mutation
   const updateBillMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: any }) => {
+      // The currency is fixed once the bill is created
+      const { currencyCode, exchangeRate, ...bill } = data;
       const response = await fetch(`/api/bills/${id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify(data),
+        body: JSON.stringify(bill),
       });
       if (!response.ok) throw new Error('Failed to update bill');
       return response.json();
@@ -195,7 +225,10 @@ export default function Bills() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify(data.payment),
+        body: JSON.stringify({
+          ...data.payment,
+          exchangeRate: data.payment.exchangeRate ? parseFloat(data.payment.exchangeRate) : undefined,
+        }),
       });
       if (!response.ok) throw new Error('Failed to record payment');
       return response.json();
@@ -212,6 +245,27 @@ export default function Bills() {
     },
   });
 
+  const submitBillMutation = useMutation({
+    mutationFn: async (billId: string) => {
+      const response = await fetch(`/api/bills/${billId}/submit`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to submit bill');
+      }
+      return response.json();
+    },
+    onSuccess: (bill) => {
+      queryClient.invalidateQueries({ queryKey: ['bills'] });
+      toast({ title: bill.status === 'pending_approval' ? 'Bill sent for approval' : 'Bill submitted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: 'destructive' });
+    },
+  });
+
   const cancelBillMutation = useMutation({
     mutationFn: async (billId: string) => {
       const response = await fetch(`/api/bills/${billId}/cancel`, {
@@ -255,13 +309,17 @@ export default function Bills() {
     },
   });
 
+  const documentCurrency = formData.currencyCode || baseCurrency;
+
   const resetForm = () => {
     setFormData({
       vendorId: '',
       vendorBillNumber: '',
       billDate: new Date().toISOString().split('T')[0],
       dueDate: '',
-      items: [{ description: '', quantity: 1, rate: '', hsnSac: '', gstRate: '18' }],
+      currencyCode: '',
+      exchangeRate: '',
+      items: [emptyBillItem()],
     });
   };
 
@@ -275,15 +333,19 @@ export default function Bills() {
         vendorBillNumber: fullBill.vendorBillNumber || '',
         billDate: fullBill.billDate,
         dueDate: fullBill.dueDate || '',
+        currencyCode: fullBill.currencyCode || '',
+        exchangeRate: fullBill.currencyCode ? fullBill.exchangeRate : '',
         items: fullBill.lines && fullBill.lines.length > 0
           ? fullBill.lines.map((line: any) => ({
+              productId: line.productId || undefined,
+              costCenterId: line.costCenterId || undefined,
               description: line.description || '',
               quantity: parseFloat(line.quantity) || 1,
               rate: line.unitPrice || '',
               hsnSac: line.hsnSacCode || '',
               gstRate: line.taxRate || '18',
             }))
-          : [{ description: '', quantity: 1, rate: '', hsnSac: '', gstRate: '18' }],
+          : [emptyBillItem()],
       });
       setShowCreateDialog(true);
     }
@@ -378,7 +440,7 @@ export default function Bills() {
   const addLineItem = () => {
     setFormData({
       ...formData,
-      items: [...formData.items, { description: '', quantity: 1, rate: '', hsnSac: '', gstRate: '18' }],
+      items: [...formData.items, emptyBillItem()],
     });
   };
 
@@ -388,6 +450,22 @@ export default function Bills() {
     setFormData({ ...formData, items: newItems });
   };
 
+  // Fill a line from the product master at its purchase price
+  const selectLineProduct = (index: number, product: ProductOption | null) => {
+    const newItems = [...formData.items];
+    newItems[index] = product
+      ? {
+          ...newItems[index],
+          productId: product.id,
+          description: product.name,
+          hsnSac: product.hsnSacCode || '',
+          rate: product.costPrice || '',
+          gstRate: product.gstRate,
+        }
+      : { ...newItems[index], productId: undefined };
+    setFormData({ ...formData, items: newItems });
+  };
+
   const filteredBills = bills?.filter((bill) =>
     bill.billNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
     bill.vendorName.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -400,17 +478,22 @@ export default function Bills() {
       open: 'bg-blue-100 text-blue-700',
       overdue: 'bg-red-100 text-red-700',
       paid: 'bg-green-100 text-green-700',
+      pending_approval: 'bg-yellow-100 text-yellow-700',
+    };
+    const labels: Record<string, string> = {
+      pending_approval: 'Awaiting Approval',
     };
     const icons: Record<string, React.ReactNode> = {
       draft: <Edit className="h-3 w-3" />,
       open: <Clock className="h-3 w-3" />,
       overdue: <AlertCircle className="h-3 w-3" />,
       paid: <CheckCircle className="h-3 w-3" />,
+      pending_approval: <ShieldCheck className="h-3 w-3" />,
     };
     return (
       <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${styles[status]}`}>
         {icons[status]}
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {labels[status] || status.charAt(0).toUpperCase() + status.slice(1)}
       </span>
     );
   };
@@ -438,10 +521,12 @@ export default function Bills() {
             Manage vendor bills and payments
           </p>
         </div>
-        <Button onClick={() => setShowCreateDialog(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          New Bill
-        </Button>
+        {canEdit && (
+          <Button onClick={() => setShowCreateDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Bill
+          </Button>
+        )}
       </div>
 
       {/* Stats */}
@@ -534,10 +619,12 @@ export default function Bills() {
             <div className="text-center py-12">
               <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
               <p className="text-muted-foreground">No bills found</p>
-              <Button className="mt-4" onClick={() => setShowCreateDialog(true)}>
-                <Plus className="h-4 w-4 mr-2" />
-                Create First Bill
-              </Button>
+              {canEdit && (
+                <Button className="mt-4" onClick={() => setShowCreateDialog(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create First Bill
+                </Button>
+              )}
             </div>
           ) : (
             <Table>
@@ -567,10 +654,21 @@ export default function Bills() {
                       {new Date(bill.dueDate).toLocaleDateString()}
                     </TableCell>
                     <TableCell className="text-right font-medium">
-                      {formatCurrency(parseFloat(bill.totalAmount))}
+                      {bill.currencyCode ? (
+                        <>
+                          {formatCurrency(parseFloat(bill.totalAmountFcy || '0'), bill.currencyCode)}
+                          <div className="text-xs text-muted-foreground font-normal">
+                            {formatCurrency(parseFloat(bill.totalAmount))}
+                          </div>
+                        </>
+                      ) : (
+                        formatCurrency(parseFloat(bill.totalAmount))
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
-                      {formatCurrency(parseFloat(bill.balanceAmount))}
+                      {bill.currencyCode
+                        ? formatCurrency(parseFloat(bill.balanceAmountFcy || '0'), bill.currencyCode)
+                        : formatCurrency(parseFloat(bill.balanceAmount))}
                     </TableCell>
                     <TableCell>{getStatusBadge(bill.status)}</TableCell>
                     <TableCell>
@@ -602,17 +700,18 @@ export default function Bills() {
                             </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
-                        {['open', 'overdue'].includes(bill.status) && (
+                        {canEdit && ['open', 'overdue'].includes(bill.status) && (
                           <Button
                             variant="ghost"
                             size="icon"
                             onClick={() => {
                               setSelectedBill(bill);
                               setPaymentData({
-                                amount: bill.balanceAmount,
+                                amount: bill.currencyCode ? bill.balanceAmountFcy || '0' : bill.balanceAmount,
                                 paymentDate: new Date().toISOString().split('T')[0],
                                 paymentMode: 'bank',
                                 referenceNumber: '',
+                                exchangeRate: '',
                               });
                               setShowPaymentDialog(true);
                             }}
@@ -621,7 +720,18 @@ export default function Bills() {
                             <Wallet className="h-4 w-4 text-green-500" />
                           </Button>
                         )}
-                        {['draft', 'open'].includes(bill.status) && (
+                        {canEdit && bill.status === 'draft' && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => submitBillMutation.mutate(bill.id)}
+                            disabled={submitBillMutation.isPending}
+                            title="Submit Bill"
+                          >
+                            <Send className="h-4 w-4 text-blue-500" />
+                          </Button>
+                        )}
+                        {canEdit && ['draft', 'open'].includes(bill.status) && (
                           <>
                             <Button variant="ghost" size="icon" onClick={() => handleEditBill(bill)}>
                               <Edit className="h-4 w-4" />
@@ -640,7 +750,7 @@ export default function Bills() {
                             </Button>
                           </>
                         )}
-                        {['open', 'pending'].includes(bill.status) && parseFloat(bill.paidAmount || '0') === 0 && (
+                        {canEdit && ['open', 'pending'].includes(bill.status) && parseFloat(bill.paidAmount || '0') === 0 && (
                           <Button
                             variant="ghost"
                             size="icon"
@@ -721,23 +831,37 @@ export default function Bills() {
               </div>
             </div>
 
+            <CurrencyFields
+              value={{ currencyCode: formData.currencyCode, exchangeRate: formData.exchangeRate }}
+              onChange={(currency) => setFormData({ ...formData, ...currency })}
+              disabled={!!editingBill}
+            />
+
             {/* Line Items */}
             <div className="space-y-2">
               <Label>Items</Label>
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-[180px]">Item</TableHead>
                     <TableHead>Description</TableHead>
                     <TableHead>HSN/SAC</TableHead>
                     <TableHead className="w-[80px]">Qty</TableHead>
                     <TableHead className="w-[120px]">Rate</TableHead>
                     <TableHead className="w-[80px]">GST %</TableHead>
+                    <TableHead className="w-[160px]">Cost Center</TableHead>
                     <TableHead className="w-[120px] text-right">Amount</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {formData.items.map((item, index) => (
                     <TableRow key={index}>
+                      <TableCell>
+                        <ProductSelect
+                          value={item.productId}
+                          onSelect={(product) => selectLineProduct(index, product)}
+                        />
+                      </TableCell>
                       <TableCell>
                         <Input
                           placeholder="Item description"
@@ -784,8 +908,14 @@ export default function Bills() {
                           </SelectContent>
                         </Select>
                       </TableCell>
+                      <TableCell>
+                        <CostCenterSelect
+                          value={item.costCenterId}
+                          onChange={(costCenterId) => updateLineItem(index, 'costCenterId', costCenterId || '')}
+                        />
+                      </TableCell>
                       <TableCell className="text-right">
-                        {formatCurrency(item.quantity * parseFloat(item.rate || '0'))}
+                        {formatCurrency(item.quantity * parseFloat(item.rate || '0'), documentCurrency)}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -802,21 +932,21 @@ export default function Bills() {
               <div className="w-64 space-y-2">
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Subtotal</span>
-                  <span>{formatCurrency(formData.items.reduce((sum, item) => sum + (item.quantity * parseFloat(item.rate || '0')), 0))}</span>
+                  <span>{formatCurrency(formData.items.reduce((sum, item) => sum + (item.quantity * parseFloat(item.rate || '0')), 0), documentCurrency)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Tax</span>
                   <span>{formatCurrency(formData.items.reduce((sum, item) => {
                     const amount = item.quantity * parseFloat(item.rate || '0');
                     return sum + (amount * parseFloat(item.gstRate || '0') / 100);
-                  }, 0))}</span>
+                  }, 0), documentCurrency)}</span>
                 </div>
                 <div className="flex justify-between font-bold text-lg border-t pt-2">
                   <span>Total</span>
                   <span>{formatCurrency(formData.items.reduce((sum, item) => {
                     const amount = item.quantity * parseFloat(item.rate || '0');
                     return sum + amount + (amount * parseFloat(item.gstRate || '0') / 100);
-                  }, 0))}</span>
+                  }, 0), documentCurrency)}</span>
                 </div>
               </div>
             </div>
@@ -886,8 +1016,17 @@ export default function Bills() {
                 )}
               </div>
               <div className="border-t pt-4 space-y-2">
+                {selectedBill.currencyCode && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Total ({selectedBill.currencyCode})</span>
+                    <span>{formatCurrency(parseFloat(selectedBill.totalAmountFcy || '0'), selectedBill.currencyCode)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Total Amount</span>
+                  <span className="text-muted-foreground">
+                    Total Amount
+                    {selectedBill.currencyCode && ` at ${selectedBill.exchangeRate}`}
+                  </span>
                   <span>{formatCurrency(parseFloat(selectedBill.totalAmount))}</span>
                 </div>
                 <div className="flex justify-between">
@@ -905,13 +1044,14 @@ export default function Bills() {
             <Button variant="outline" onClick={() => setSelectedBill(null)}>
               Close
             </Button>
-            {selectedBill && ['open', 'overdue'].includes(selectedBill.status) && (
+            {canEdit && selectedBill && ['open', 'overdue'].includes(selectedBill.status) && (
               <Button onClick={() => {
                 setPaymentData({
-                  amount: selectedBill.balanceAmount,
+                  amount: selectedBill.currencyCode ? selectedBill.balanceAmountFcy || '0' : selectedBill.balanceAmount,
                   paymentDate: new Date().toISOString().split('T')[0],
                   paymentMode: 'bank',
                   referenceNumber: '',
+                  exchangeRate: '',
                 });
                 setShowPaymentDialog(true);
               }}>
@@ -946,7 +1086,7 @@ export default function Bills() {
                 />
               </div>
               <div className="space-y-2">
-                <Label>Amount</Label>
+                <Label>Amount{selectedBill?.currencyCode && ` (${selectedBill.currencyCode})`}</Label>
                 <Input
                   type="number"
                   placeholder="0.00"
@@ -954,10 +1094,28 @@ export default function Bills() {
                   onChange={(e) => setPaymentData({ ...paymentData, amount: e.target.value })}
                 />
                 <p className="text-xs text-muted-foreground">
-                  Balance: {formatCurrency(parseFloat(selectedBill?.balanceAmount || '0'))}
+                  Balance: {selectedBill?.currencyCode
+                    ? formatCurrency(parseFloat(selectedBill.balanceAmountFcy || '0'), selectedBill.currencyCode)
+                    : formatCurrency(parseFloat(selectedBill?.balanceAmount || '0'))}
                 </p>
               </div>
             </div>
+            {selectedBill?.currencyCode && (
+              <div className="space-y-2">
+                <Label>Exchange Rate (1 {selectedBill.currencyCode} = ? {baseCurrency})</Label>
+                <Input
+                  type="number"
+                  step="0.000001"
+                  min="0"
+                  placeholder="Rate on the payment date"
+                  value={paymentData.exchangeRate}
+                  onChange={(e) => setPaymentData({ ...paymentData, exchangeRate: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Booked at {selectedBill.exchangeRate}; the difference is posted as exchange gain or loss
+                </p>
+              </div>
+            )}
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label>Payment Mode</Label>
@@ -0,0 +1,732 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import CostCenterSelect from '@/components/accounting/CostCenterSelect';
+import { Plus, Trash2, Target, CalendarRange, ArrowLeft } from 'lucide-react';
+
+type BudgetPhasing = 'even' | 'seasonal' | 'last_year';
+
+interface FiscalYear {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  isCurrent: boolean;
+}
+
+interface BudgetSummary {
+  id: string;
+  name: string;
+  description?: string;
+  isActive: boolean;
+  fiscalYear: FiscalYear;
+  lineCount: number;
+  totalAmount: number;
+}
+
+interface BudgetLine {
+  id: string;
+  accountId: string;
+  costCenterId?: string;
+  phasing: BudgetPhasing;
+  growthPercent?: string;
+  annualAmount: string;
+  monthlyAmounts: number[];
+  account: { code: string; name: string; accountType: string };
+  costCenter?: { code: string; name: string };
+  phasingTemplate?: { name: string };
+}
+
+interface BudgetDetail extends BudgetSummary {
+  months: string[];
+  lines: BudgetLine[];
+}
+
+interface PhasingTemplate {
+  id: string;
+  name: string;
+  weights: number[];
+}
+
+interface VarianceRow {
+  budget: number;
+  actual: number;
+  variance: number;
+  percentConsumed: number | null;
+  annualBudget: number;
+}
+
+interface BudgetVsActual {
+  fromDate: string;
+  toDate: string;
+  lines: (VarianceRow & {
+    id: string;
+    accountCode: string;
+    accountName: string;
+    accountType: string;
+    costCenter?: { code: string; name: string };
+  })[];
+  totals: { income: VarianceRow; expenses: VarianceRow };
+}
+
+const phasingLabels: Record<BudgetPhasing, string> = {
+  even: 'Even',
+  seasonal: 'Seasonal',
+  last_year: "Last year's actuals",
+};
+
+const TEMPLATE_MONTHS = ['Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec', 'Jan', 'Feb', 'Mar'];
+
+const monthLabel = (month: string) =>
+  new Date(`${month}T00:00:00`).toLocaleDateString('en-IN', { month: 'short', year: '2-digit' });
+
+const emptyLineForm = () => ({
+  accountId: '',
+  costCenterId: '',
+  phasing: 'even' as BudgetPhasing,
+  annualAmount: '',
+  phasingTemplateId: '',
+  growthPercent: '0',
+});
+
+export default function Budgets() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedFiscalYear, setSelectedFiscalYear] = useState('');
+  const [selectedBudgetId, setSelectedBudgetId] = useState<string | null>(null);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showLineDialog, setShowLineDialog] = useState(false);
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false);
+  const [budgetForm, setBudgetForm] = useState({ fiscalYearId: '', name: '', description: '' });
+  const [lineForm, setLineForm] = useState(emptyLineForm());
+  const [templateForm, setTemplateForm] = useState({ name: '', weights: Array(12).fill('1') as string[] });
+  const [range, setRange] = useState({ fromDate: '', toDate: '' });
+
+  const { data: fiscalYears } = useQuery<FiscalYear[]>({
+    queryKey: ['fiscal-years'],
+    queryFn: async () => {
+      const response = await fetch('/api/fiscal-years', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch fiscal years');
+      return response.json();
+    },
+  });
+
+  const { data: budgets, isLoading } = useQuery<BudgetSummary[]>({
+    queryKey: ['budgets', selectedFiscalYear],
+    queryFn: async () => {
+      const params = selectedFiscalYear ? `?fiscalYearId=${selectedFiscalYear}` : '';
+      const response = await fetch(`/api/budgets${params}`, { credentials: 'include' });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  const { data: budget } = useQuery<BudgetDetail>({
+    queryKey: ['budget', selectedBudgetId],
+    queryFn: async () => {
+      const response = await fetch(`/api/budgets/${selectedBudgetId}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch budget');
+      return response.json();
+    },
+    enabled: !!selectedBudgetId,
+  });
+
+  const { data: vsActual } = useQuery<BudgetVsActual>({
+    queryKey: ['budget-vs-actual', selectedBudgetId, range.fromDate, range.toDate],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (range.fromDate) params.append('fromDate', range.fromDate);
+      if (range.toDate) params.append('toDate', range.toDate);
+      const response = await fetch(`/api/budgets/${selectedBudgetId}/vs-actual?${params}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch budget vs actual');
+      return response.json();
+    },
+    enabled: !!selectedBudgetId,
+  });
+
+  const { data: accounts } = useQuery<{ id: string; code: string; name: string; accountType: string }[]>({
+    queryKey: ['ledger-accounts'],
+    queryFn: async () => {
+      const response = await fetch('/api/chart-of-accounts/ledgers/list', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch accounts');
+      return response.json();
+    },
+  });
+
+  const { data: templates } = useQuery<PhasingTemplate[]>({
+    queryKey: ['budget-templates'],
+    queryFn: async () => {
+      const response = await fetch('/api/budgets/templates', { credentials: 'include' });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  const sendJson = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const err = await response.json();
+      throw new Error(err.error || 'Request failed');
+    }
+    return response.json();
+  };
+
+  const invalidateBudget = () => {
+    queryClient.invalidateQueries({ queryKey: ['budgets'] });
+    queryClient.invalidateQueries({ queryKey: ['budget', selectedBudgetId] });
+    queryClient.invalidateQueries({ queryKey: ['budget-vs-actual', selectedBudgetId] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: error.message, variant: 'destructive' });
+  };
+
+  const createBudgetMutation = useMutation({
+    mutationFn: (data: typeof budgetForm) => sendJson('/api/budgets', 'POST', data),
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      setShowCreateDialog(false);
+      setBudgetForm({ fiscalYearId: '', name: '', description: '' });
+      setSelectedBudgetId(created.id);
+      toast({ title: 'Budget created' });
+    },
+    onError,
+  });
+
+  const toggleBudgetMutation = useMutation({
+    mutationFn: (data: BudgetSummary) => sendJson(`/api/budgets/${data.id}`, 'PATCH', { isActive: !data.isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['budgets'] }),
+    onError,
+  });
+
+  const deleteBudgetMutation = useMutation({
+    mutationFn: (id: string) => sendJson(`/api/budgets/${id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      toast({ title: 'Budget deleted' });
+    },
+    onError,
+  });
+
+  const addLineMutation = useMutation({
+    mutationFn: (data: ReturnType<typeof emptyLineForm>) => sendJson(`/api/budgets/${selectedBudgetId}/lines`, 'POST', {
+      ...data,
+      costCenterId: data.costCenterId || null,
+      phasingTemplateId: data.phasingTemplateId || null,
+    }),
+    onSuccess: () => {
+      invalidateBudget();
+      setShowLineDialog(false);
+      setLineForm(emptyLineForm());
+      toast({ title: 'Budget line added' });
+    },
+    onError,
+  });
+
+  const deleteLineMutation = useMutation({
+    mutationFn: (lineId: string) => sendJson(`/api/budgets/${selectedBudgetId}/lines/${lineId}`, 'DELETE'),
+    onSuccess: invalidateBudget,
+    onError,
+  });
+
+  const createTemplateMutation = useMutation({
+    mutationFn: (data: typeof templateForm) => sendJson('/api/budgets/templates', 'POST', {
+      name: data.name,
+      weights: data.weights.map(weight => parseFloat(weight) || 0),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['budget-templates'] });
+      setShowTemplateDialog(false);
+      setTemplateForm({ name: '', weights: Array(12).fill('1') });
+      toast({ title: 'Seasonal template created' });
+    },
+    onError,
+  });
+
+  const budgetAccounts = accounts?.filter(account => account.accountType === 'income' || account.accountType === 'expense');
+
+  const varianceClass = (value: number) => (value < 0 ? 'text-red-600' : 'text-green-600');
+
+  const renderVarianceCells = (row: VarianceRow, bold = false) => (
+    <>
+      <TableCell className={`text-right ${bold ? 'font-bold' : ''}`}>{formatCurrency(row.annualBudget)}</TableCell>
+      <TableCell className={`text-right ${bold ? 'font-bold' : ''}`}>{formatCurrency(row.budget)}</TableCell>
+      <TableCell className={`text-right ${bold ? 'font-bold' : ''}`}>{formatCurrency(row.actual)}</TableCell>
+      <TableCell className={`text-right ${bold ? 'font-bold' : ''} ${varianceClass(row.variance)}`}>
+        {formatCurrency(row.variance)}
+      </TableCell>
+      <TableCell className={`text-right ${bold ? 'font-bold' : ''}`}>
+        {row.percentConsumed === null ? '-' : `${row.percentConsumed.toFixed(1)}%`}
+      </TableCell>
+    </>
+  );
+
+  if (selectedBudgetId) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => setSelectedBudgetId(null)}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">{budget?.name || 'Budget'}</h1>
+              <p className="text-muted-foreground">{budget?.fiscalYear.name}</p>
+            </div>
+          </div>
+          <Button onClick={() => setShowLineDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Line
+          </Button>
+        </div>
+
+        <Tabs defaultValue="lines">
+          <TabsList>
+            <TabsTrigger value="lines">Budget Lines</TabsTrigger>
+            <TabsTrigger value="vs-actual">Budget vs Actual</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="lines">
+            <Card>
+              <CardContent className="pt-6 overflow-x-auto">
+                {!budget?.lines.length ? (
+                  <p className="text-sm text-muted-foreground">No budget lines yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Account</TableHead>
+                        <TableHead>Cost Center</TableHead>
+                        <TableHead>Phasing</TableHead>
+                        {budget.months.map(month => (
+                          <TableHead key={month} className="text-right">{monthLabel(month)}</TableHead>
+                        ))}
+                        <TableHead className="text-right">Annual</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {budget.lines.map(line => (
+                        <TableRow key={line.id}>
+                          <TableCell>
+                            <span className="font-mono text-xs mr-2">{line.account.code}</span>
+                            {line.account.name}
+                          </TableCell>
+                          <TableCell>{line.costCenter?.name || 'All'}</TableCell>
+                          <TableCell className="text-sm">
+                            {line.phasing === 'seasonal' && line.phasingTemplate
+                              ? line.phasingTemplate.name
+                              : line.phasing === 'last_year'
+                                ? `Last year +${parseFloat(line.growthPercent || '0')}%`
+                                : phasingLabels[line.phasing]}
+                          </TableCell>
+                          {line.monthlyAmounts.map((amount, index) => (
+                            <TableCell key={index} className="text-right text-sm">{formatCurrency(amount)}</TableCell>
+                          ))}
+                          <TableCell className="text-right font-medium">{formatCurrency(parseFloat(line.annualAmount))}</TableCell>
+                          <TableCell>
+                            <Button variant="ghost" size="icon" onClick={() => deleteLineMutation.mutate(line.id)}>
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="vs-actual">
+            <Card>
+              <CardHeader>
+                <div className="flex items-end gap-4">
+                  <div className="space-y-2">
+                    <Label>From</Label>
+                    <Input type="date" value={range.fromDate} onChange={(e) => setRange({ ...range, fromDate: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>To</Label>
+                    <Input type="date" value={range.toDate} onChange={(e) => setRange({ ...range, toDate: e.target.value })} />
+                  </div>
+                  {vsActual && (
+                    <p className="text-sm text-muted-foreground pb-2">{vsActual.fromDate} to {vsActual.toDate}</p>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {vsActual && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Account</TableHead>
+                        <TableHead>Cost Center</TableHead>
+                        <TableHead className="text-right">Annual Budget</TableHead>
+                        <TableHead className="text-right">Budget</TableHead>
+                        <TableHead className="text-right">Actual</TableHead>
+                        <TableHead className="text-right">Variance</TableHead>
+                        <TableHead className="text-right">Consumed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {vsActual.lines.map(line => (
+                        <TableRow key={line.id}>
+                          <TableCell>
+                            <span className="font-mono text-xs mr-2">{line.accountCode}</span>
+                            {line.accountName}
+                          </TableCell>
+                          <TableCell>{line.costCenter?.name || 'All'}</TableCell>
+                          {renderVarianceCells(line)}
+                        </TableRow>
+                      ))}
+                      <TableRow>
+                        <TableCell colSpan={2} className="font-bold">Total Income</TableCell>
+                        {renderVarianceCells(vsActual.totals.income, true)}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell colSpan={2} className="font-bold">Total Expenses</TableCell>
+                        {renderVarianceCells(vsActual.totals.expenses, true)}
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        {/* Add Line Dialog */}
+        <Dialog open={showLineDialog} onOpenChange={(open) => {
+          setShowLineDialog(open);
+          if (!open) setLineForm(emptyLineForm());
+        }}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Budget Line</DialogTitle>
+              <DialogDescription>Budget an income or expense account for the year</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label>Account</Label>
+                <Select value={lineForm.accountId} onValueChange={(value) => setLineForm({ ...lineForm, accountId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {budgetAccounts?.map(account => (
+                      <SelectItem key={account.id} value={account.id}>
+                        <span className="font-mono text-xs mr-2">{account.code}</span>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Cost Center (Optional)</Label>
+                <CostCenterSelect
+                  value={lineForm.costCenterId}
+                  onChange={(costCenterId) => setLineForm({ ...lineForm, costCenterId: costCenterId || '' })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Phasing</Label>
+                <Select value={lineForm.phasing} onValueChange={(value) => setLineForm({ ...lineForm, phasing: value as BudgetPhasing })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(phasingLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {lineForm.phasing === 'seasonal' && (
+                <div className="space-y-2">
+                  <Label>Seasonal Template</Label>
+                  <div className="flex gap-2">
+                    <Select value={lineForm.phasingTemplateId} onValueChange={(value) => setLineForm({ ...lineForm, phasingTemplateId: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select template" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templates?.map(template => (
+                          <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="outline" onClick={() => setShowTemplateDialog(true)}>
+                      <CalendarRange className="h-4 w-4 mr-2" />
+                      New
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {lineForm.phasing === 'last_year' ? (
+                <div className="space-y-2">
+                  <Label>Growth over Last Year (%)</Label>
+                  <Input
+                    type="number"
+                    value={lineForm.growthPercent}
+                    onChange={(e) => setLineForm({ ...lineForm, growthPercent: e.target.value })}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Annual Amount</Label>
+                  <Input
+                    type="number"
+                    placeholder="0.00"
+                    value={lineForm.annualAmount}
+                    onChange={(e) => setLineForm({ ...lineForm, annualAmount: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setShowLineDialog(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => addLineMutation.mutate(lineForm)}
+                disabled={!lineForm.accountId || addLineMutation.isPending}
+              >
+                {addLineMutation.isPending ? 'Adding...' : 'Add Line'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Seasonal Template Dialog */}
+        <Dialog open={showTemplateDialog} onOpenChange={setShowTemplateDialog}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>New Seasonal Template</DialogTitle>
+              <DialogDescription>Relative weight of each month, from the first month of the fiscal year</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  placeholder="e.g., Festive season"
+                  value={templateForm.name}
+                  onChange={(e) => setTemplateForm({ ...templateForm, name: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                {TEMPLATE_MONTHS.map((month, index) => (
+                  <div key={month} className="space-y-1">
+                    <Label className="text-xs">{month}</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={templateForm.weights[index]}
+                      onChange={(e) => {
+                        const weights = [...templateForm.weights];
+                        weights[index] = e.target.value;
+                        setTemplateForm({ ...templateForm, weights });
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setShowTemplateDialog(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => createTemplateMutation.mutate(templateForm)}
+                disabled={!templateForm.name || createTemplateMutation.isPending}
+              >
+                {createTemplateMutation.isPending ? 'Creating...' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Budgets</h1>
+          <p className="text-muted-foreground">
+            Annual budgets by account and cost center, phased by month
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={selectedFiscalYear || 'all'} onValueChange={(value) => setSelectedFiscalYear(value === 'all' ? '' : value)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All fiscal years</SelectItem>
+              {fiscalYears?.map(fy => (
+                <SelectItem key={fy.id} value={fy.id}>{fy.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setShowCreateDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Budget
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Budget List
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !budgets?.length ? (
+            <div className="text-center py-12">
+              <Target className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No budgets found</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Fiscal Year</TableHead>
+                  <TableHead className="text-right">Lines</TableHead>
+                  <TableHead className="text-right">Total Budget</TableHead>
+                  <TableHead>Overrun Alerts</TableHead>
+                  <TableHead className="w-[100px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {budgets.map(item => (
+                  <TableRow key={item.id} className="cursor-pointer" onClick={() => setSelectedBudgetId(item.id)}>
+                    <TableCell className="font-medium">{item.name}</TableCell>
+                    <TableCell>{item.fiscalYear.name}</TableCell>
+                    <TableCell className="text-right">{item.lineCount}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.totalAmount)}</TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <Switch checked={item.isActive} onCheckedChange={() => toggleBudgetMutation.mutate(item)} />
+                    </TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          if (confirm('Are you sure you want to delete this budget?')) {
+                            deleteBudgetMutation.mutate(item.id);
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Budget Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Budget</DialogTitle>
+            <DialogDescription>Create a budget for a fiscal year, then add its lines</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Fiscal Year</Label>
+              <Select value={budgetForm.fiscalYearId} onValueChange={(value) => setBudgetForm({ ...budgetForm, fiscalYearId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select fiscal year" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fiscalYears?.map(fy => (
+                    <SelectItem key={fy.id} value={fy.id}>{fy.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                placeholder="e.g., Operating budget"
+                value={budgetForm.name}
+                onChange={(e) => setBudgetForm({ ...budgetForm, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Description (Optional)</Label>
+              <Input
+                value={budgetForm.description}
+                onChange={(e) => setBudgetForm({ ...budgetForm, description: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createBudgetMutation.mutate(budgetForm)}
+              disabled={!budgetForm.fiscalYearId || !budgetForm.name || createBudgetMutation.isPending}
+            >
+              {createBudgetMutation.isPending ? 'Creating...' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
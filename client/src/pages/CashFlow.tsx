@@ -30,6 +30,8 @@ interface StatementLine {
   name: string;
   amount: number;
   previousAmount?: number;
+  variance?: number;
+  variancePercent?: number | null;
   indentLevel: number;
   isBold: boolean;
   isTotal: boolean;
@@ -100,6 +102,9 @@ export default function CashFlow() {
     }
   };
 
+  // Previous year columns only when that year has figures to compare
+  const showComparative = !!data?.comparative && data.comparative.source !== 'none';
+
   const getAmountColor = (amount: number, isTotal: boolean = false) => {
     if (amount > 0) return isTotal ? 'text-green-700' : 'text-green-600';
     if (amount < 0) return isTotal ? 'text-red-700' : 'text-red-600';
@@ -173,6 +178,31 @@ export default function CashFlow() {
         >
           {!isHeader || line.isTotal ? formatCurrency(line.amount) : ''}
         </td>
+        {showComparative && (
+          <>
+            <td
+              className={cn(
+                'py-3 text-right tabular-nums text-muted-foreground',
+                line.isBold && 'font-semibold',
+              )}
+            >
+              {!isHeader || line.isTotal ? formatCurrency(line.previousAmount || 0) : ''}
+            </td>
+            <td
+              className={cn(
+                'py-3 text-right tabular-nums',
+                getAmountColor(line.variance || 0, line.isTotal),
+              )}
+            >
+              {!isHeader || line.isTotal ? formatCurrency(line.variance || 0) : ''}
+            </td>
+            <td className="py-3 px-4 text-right tabular-nums text-muted-foreground">
+              {(!isHeader || line.isTotal) && line.variancePercent != null
+                ? `${line.variancePercent.toFixed(1)}%`
+                : ''}
+            </td>
+          </>
+        )}
       </tr>
     );
   };
@@ -367,7 +397,16 @@ export default function CashFlow() {
               <thead>
                 <tr className="border-b bg-muted/50">
                   <th className="py-3 px-4 text-left font-semibold">Particulars</th>
-                  <th className="py-3 px-4 text-right font-semibold w-48">Amount</th>
+                  <th className="py-3 px-4 text-right font-semibold w-48">
+                    {showComparative ? 'Current Period' : 'Amount'}
+                  </th>
+                  {showComparative && (
+                    <>
+                      <th className="py-3 px-4 text-right font-semibold w-48">Previous Period</th>
+                      <th className="py-3 px-4 text-right font-semibold w-40">Variance</th>
+                      <th className="py-3 px-4 text-right font-semibold w-24">%</th>
+                    </>
+                  )}
                 </tr>
               </thead>
               <tbody>
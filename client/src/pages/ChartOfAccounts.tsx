@@ -23,6 +23,7 @@ import {
 import { Checkbox } from '@/components/ui/checkbox';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/useAuth';
 import {
   ChevronRight,
   ChevronDown,
@@ -79,6 +80,7 @@ function AccountRow({
   onEdit: (account: Account) => void;
   onDelete: (account: Account) => void;
 }) {
+  const { can } = usePermissions();
   const hasChildren = account.children && account.children.length > 0;
   const isExpanded = expanded.has(account.id);
 
@@ -120,16 +122,18 @@ function AccountRow({
           )}
         </td>
         <td className="py-3 pr-4 text-right">
-          <div className="flex items-center justify-end gap-1">
-            <Button variant="ghost" size="sm" onClick={() => onEdit(account)}>
-              <Edit className="h-4 w-4" />
-            </Button>
-            {!account.isGroup && (
-              <Button variant="ghost" size="sm" onClick={() => onDelete(account)}>
-                <Trash2 className="h-4 w-4 text-red-500" />
+          {can('accounting', 'write') && (
+            <div className="flex items-center justify-end gap-1">
+              <Button variant="ghost" size="sm" onClick={() => onEdit(account)}>
+                <Edit className="h-4 w-4" />
               </Button>
-            )}
-          </div>
+              {!account.isGroup && (
+                <Button variant="ghost" size="sm" onClick={() => onDelete(account)}>
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              )}
+            </div>
+          )}
         </td>
       </tr>
       {hasChildren && isExpanded && account.children?.map((child) => (
@@ -161,6 +165,8 @@ const emptyForm = {
 };
 
 export default function ChartOfAccounts() {
+  const { can } = usePermissions();
+  const canEdit = can('accounting', 'write');
   const [searchTerm, setSearchTerm] = useState('');
   const [expanded, setExpanded] = useState<Set<string>>(new Set());
   const [selectedType, setSelectedType] = useState<string | null>(null);
@@ -450,26 +456,28 @@ export default function ChartOfAccounts() {
           <h1 className="text-2xl font-bold">Chart of Accounts</h1>
           <p className="text-muted-foreground">Manage your company's account structure</p>
         </div>
-        <div className="flex gap-2">
-          {(!data?.accounts || data.accounts.length === 0) && (
-            <Button
-              variant="outline"
-              onClick={handleInitializeTemplate}
-              disabled={initializeTemplateMutation.isPending}
-            >
-              <FileText className="h-4 w-4 mr-2" />
-              {initializeTemplateMutation.isPending ? 'Initializing...' : 'Initialize Template'}
+        {canEdit && (
+          <div className="flex gap-2">
+            {(!data?.accounts || data.accounts.length === 0) && (
+              <Button
+                variant="outline"
+                onClick={handleInitializeTemplate}
+                disabled={initializeTemplateMutation.isPending}
+              >
+                <FileText className="h-4 w-4 mr-2" />
+                {initializeTemplateMutation.isPending ? 'Initializing...' : 'Initialize Template'}
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setShowImport(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
             </Button>
-          )}
-          <Button variant="outline" onClick={() => setShowImport(true)}>
-            <Upload className="h-4 w-4 mr-2" />
-            Import
-          </Button>
-          <Button onClick={handleAddAccount}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Account
-          </Button>
-        </div>
+            <Button onClick={handleAddAccount}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Account
+            </Button>
+          </div>
+        )}
       </div>
 
       <CoaImport open={showImport} onOpenChange={setShowImport} />
@@ -550,19 +558,21 @@ export default function ChartOfAccounts() {
                         <p className="text-lg font-medium">No accounts found</p>
                         <p className="text-muted-foreground">Get started by selecting an accounting standard template or add accounts manually</p>
                       </div>
-                      <div className="flex gap-2">
-                        <Button
-                          onClick={handleInitializeTemplate}
-                          disabled={initializeTemplateMutation.isPending}
-                        >
-                          <FileText className="h-4 w-4 mr-2" />
-                          {initializeTemplateMutation.isPending ? 'Initializing...' : 'Choose Template'}
-                        </Button>
-                        <Button variant="outline" onClick={handleAddAccount}>
-                          <Plus className="h-4 w-4 mr-2" />
-                          Add Account Manually
-                        </Button>
-                      </div>
+                      {canEdit && (
+                        <div className="flex gap-2">
+                          <Button
+                            onClick={handleInitializeTemplate}
+                            disabled={initializeTemplateMutation.isPending}
+                          >
+                            <FileText className="h-4 w-4 mr-2" />
+                            {initializeTemplateMutation.isPending ? 'Initializing...' : 'Choose Template'}
+                          </Button>
+                          <Button variant="outline" onClick={handleAddAccount}>
+                            <Plus className="h-4 w-4 mr-2" />
+                            Add Account Manually
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   </td>
                 </tr>
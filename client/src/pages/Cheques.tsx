@@ -0,0 +1,1069 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import {
+  Plus,
+  MoreHorizontal,
+  Printer,
+  Send,
+  CheckCircle,
+  XCircle,
+  Ban,
+  Trash2,
+  BookOpen,
+  CalendarClock,
+} from 'lucide-react';
+
+type ChequeDirection = 'issued' | 'received';
+type ChequeStatus = 'issued' | 'presented' | 'cleared' | 'bounced' | 'cancelled';
+type ChequeAction = 'present' | 'clear' | 'bounce' | 'cancel';
+
+interface BankAccount {
+  id: string;
+  accountName: string;
+  bankName: string;
+  accountNumber: string;
+}
+
+interface Cheque {
+  id: string;
+  direction: ChequeDirection;
+  chequeNumber: string;
+  chequeDate: string;
+  amount: string;
+  payeeName?: string;
+  drawerBankName?: string;
+  status: ChequeStatus;
+  presentedDate?: string;
+  clearedDate?: string;
+  bouncedDate?: string;
+  bounceReason?: string;
+  bankAccountId?: string;
+  paymentReceivedId?: string;
+  paymentMadeId?: string;
+  printedAt?: string;
+  isPostDated: boolean;
+  party?: { name: string };
+  bankAccount?: BankAccount;
+}
+
+interface ChequeBook {
+  id: string;
+  bankAccountId: string;
+  firstNumber: number;
+  lastNumber: number;
+  nextNumber: number;
+  numberLength: number;
+  layoutKey?: string;
+  isActive: boolean;
+  leavesRemaining: number;
+  bankAccount: BankAccount;
+}
+
+interface ChequeLayoutOption {
+  id: string;
+  key: string;
+  name: string;
+  bankName?: string;
+  layout: Record<string, any>;
+  isBuiltIn: boolean;
+}
+
+interface PrintField {
+  name: string;
+  text: string;
+  xMm: number;
+  yMm: number;
+  widthMm?: number;
+}
+
+const statusStyles: Record<ChequeStatus, string> = {
+  issued: 'bg-blue-100 text-blue-700',
+  presented: 'bg-yellow-100 text-yellow-700',
+  cleared: 'bg-green-100 text-green-700',
+  bounced: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-700',
+};
+
+const actionLabels: Record<ChequeAction, string> = {
+  present: 'Mark Presented',
+  clear: 'Mark Cleared',
+  bounce: 'Record Bounce',
+  cancel: 'Cancel Cheque',
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyChequeForm = () => ({
+  direction: 'received' as ChequeDirection,
+  bankAccountId: '',
+  chequeBookId: '',
+  chequeNumber: '',
+  chequeDate: today(),
+  amount: '',
+  partyId: '',
+  payeeName: '',
+  drawerBankName: '',
+  notes: '',
+});
+
+const emptyBookForm = () => ({
+  bankAccountId: '',
+  firstNumber: '',
+  lastNumber: '',
+  numberLength: '6',
+  layoutKey: 'cts2010',
+});
+
+const emptyActionForm = () => ({
+  date: today(),
+  bankAccountId: '',
+  reason: '',
+  bankCharges: '',
+  recoverCharges: false,
+});
+
+// Opens the leaf in a window sized to the cheque, each field placed in millimetres
+function printLeaf(layout: { widthMm: number; heightMm: number; fontSizePt?: number }, fields: PrintField[]) {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  const escape = (text: string) => text.replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+  const spans = fields.map((field) => {
+    const width = field.widthMm ? `width:${field.widthMm}mm;` : '';
+    const style = field.name === 'accountPayee'
+      ? 'border-top:1px solid #000;border-bottom:1px solid #000;transform:rotate(-20deg);'
+      : '';
+    return `<span style="position:absolute;left:${field.xMm}mm;top:${field.yMm}mm;${width}${style}">${escape(field.text)}</span>`;
+  }).join('');
+
+  printWindow.document.write(`<!DOCTYPE html><html><head><title>Cheque</title><style>
+    @page { size: ${layout.widthMm}mm ${layout.heightMm}mm; margin: 0; }
+    body { margin: 0; font-family: Arial, sans-serif; font-size: ${layout.fontSizePt || 11}pt; }
+    .leaf { position: relative; width: ${layout.widthMm}mm; height: ${layout.heightMm}mm; white-space: nowrap; }
+  </style></head><body><div class="leaf">${spans}</div></body></html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
+
+export default function Cheques() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [directionFilter, setDirectionFilter] = useState<string>('all');
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [showChequeDialog, setShowChequeDialog] = useState(false);
+  const [showBookDialog, setShowBookDialog] = useState(false);
+  const [showLayoutDialog, setShowLayoutDialog] = useState(false);
+  const [chequeForm, setChequeForm] = useState(emptyChequeForm());
+  const [bookForm, setBookForm] = useState(emptyBookForm());
+  const [layoutForm, setLayoutForm] = useState({ name: '', bankName: '', layout: '' });
+  const [action, setAction] = useState<{ type: ChequeAction; cheque: Cheque } | null>(null);
+  const [actionForm, setActionForm] = useState(emptyActionForm());
+
+  const { data: cheques, isLoading } = useQuery<Cheque[]>({
+    queryKey: ['cheques', directionFilter, statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (directionFilter !== 'all') params.append('direction', directionFilter);
+      if (statusFilter !== 'all') params.append('status', statusFilter);
+      const response = await fetch(`/api/cheques?${params}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch cheques');
+      return response.json();
+    },
+  });
+
+  const { data: postDated } = useQuery<Cheque[]>({
+    queryKey: ['cheques', 'pdc'],
+    queryFn: async () => {
+      const response = await fetch('/api/cheques?pdc=true', { credentials: 'include' });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  const { data: books } = useQuery<ChequeBook[]>({
+    queryKey: ['cheque-books'],
+    queryFn: async () => {
+      const response = await fetch('/api/cheques/books', { credentials: 'include' });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  const { data: layouts } = useQuery<ChequeLayoutOption[]>({
+    queryKey: ['cheque-layouts'],
+    queryFn: async () => {
+      const response = await fetch('/api/cheques/layouts', { credentials: 'include' });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  const { data: bankAccounts } = useQuery<BankAccount[]>({
+    queryKey: ['bank-accounts'],
+    queryFn: async () => {
+      const response = await fetch('/api/bank-accounts', { credentials: 'include' });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  const { data: parties } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ['parties'],
+    queryFn: async () => {
+      const response = await fetch('/api/parties', { credentials: 'include' });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  const sendJson = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const err = await response.json();
+      throw new Error(err.error || 'Request failed');
+    }
+    return response.json();
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: error.message, variant: 'destructive' });
+  };
+
+  const createChequeMutation = useMutation({
+    mutationFn: (data: ReturnType<typeof emptyChequeForm>) => sendJson('/api/cheques', 'POST', {
+      ...data,
+      bankAccountId: data.bankAccountId || null,
+      chequeBookId: data.direction === 'issued' ? data.chequeBookId || null : null,
+      partyId: data.partyId || null,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cheques'] });
+      queryClient.invalidateQueries({ queryKey: ['cheque-books'] });
+      setShowChequeDialog(false);
+      setChequeForm(emptyChequeForm());
+      toast({ title: 'Cheque recorded' });
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ type, cheque }: { type: ChequeAction; cheque: Cheque }) => sendJson(`/api/cheques/${cheque.id}/${type}`, 'POST', {
+      date: actionForm.date,
+      bankAccountId: actionForm.bankAccountId || undefined,
+      reason: actionForm.reason || undefined,
+      bankCharges: actionForm.bankCharges || undefined,
+      recoverCharges: actionForm.recoverCharges,
+    }),
+    onSuccess: (_, { type }) => {
+      queryClient.invalidateQueries({ queryKey: ['cheques'] });
+      setAction(null);
+      setActionForm(emptyActionForm());
+      toast({ title: type === 'bounce' ? 'Bounce recorded and payment reversed' : 'Cheque updated' });
+    },
+    onError,
+  });
+
+  const printMutation = useMutation({
+    mutationFn: (cheque: Cheque) => sendJson(`/api/cheques/${cheque.id}/print`, 'POST', { accountPayee: true }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['cheques'] });
+      if (!printLeaf(result.layout, result.fields)) {
+        toast({ title: 'Please allow popups to print the cheque', variant: 'destructive' });
+      }
+    },
+    onError,
+  });
+
+  const createBookMutation = useMutation({
+    mutationFn: (data: ReturnType<typeof emptyBookForm>) => sendJson('/api/cheques/books', 'POST', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cheque-books'] });
+      setShowBookDialog(false);
+      setBookForm(emptyBookForm());
+      toast({ title: 'Cheque book added' });
+    },
+    onError,
+  });
+
+  const updateBookMutation = useMutation({
+    mutationFn: ({ id, ...data }: { id: string; layoutKey?: string; isActive?: boolean }) =>
+      sendJson(`/api/cheques/books/${id}`, 'PATCH', data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['cheque-books'] }),
+    onError,
+  });
+
+  const createLayoutMutation = useMutation({
+    mutationFn: (data: typeof layoutForm) => {
+      let layout: unknown;
+      try {
+        layout = JSON.parse(data.layout);
+      } catch {
+        throw new Error('Layout is not valid JSON');
+      }
+      return sendJson('/api/cheques/layouts', 'POST', { name: data.name, bankName: data.bankName || null, layout });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cheque-layouts'] });
+      setShowLayoutDialog(false);
+      toast({ title: 'Cheque layout saved' });
+    },
+    onError,
+  });
+
+  const deleteLayoutMutation = useMutation({
+    mutationFn: (id: string) => sendJson(`/api/cheques/layouts/${id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cheque-layouts'] });
+      toast({ title: 'Cheque layout deleted' });
+    },
+    onError,
+  });
+
+  const openAction = (type: ChequeAction, cheque: Cheque) => {
+    setActionForm({ ...emptyActionForm(), bankAccountId: cheque.bankAccountId || '' });
+    setAction({ type, cheque });
+  };
+
+  const openLayoutDialog = (base?: ChequeLayoutOption) => {
+    const from = base || layouts?.[0];
+    setLayoutForm({
+      name: from ? `${from.name} (custom)` : '',
+      bankName: from?.bankName || '',
+      layout: from ? JSON.stringify(from.layout, null, 2) : '',
+    });
+    setShowLayoutDialog(true);
+  };
+
+  const layoutName = (key?: string) => layouts?.find((layout) => layout.key === key)?.name || 'CTS-2010 standard';
+
+  const totalOf = (list: Cheque[] | undefined, direction: ChequeDirection) =>
+    (list || []).filter((cheque) => cheque.direction === direction).reduce((sum, cheque) => sum + parseFloat(cheque.amount), 0);
+
+  const unpresentedIssued = (cheques || []).filter((cheque) => cheque.direction === 'issued' && cheque.status === 'issued');
+
+  const renderChequeRows = (list: Cheque[]) => list.map((cheque) => (
+    <TableRow key={cheque.id}>
+      <TableCell>
+        {new Date(cheque.chequeDate).toLocaleDateString()}
+        {cheque.isPostDated && <Badge variant="outline" className="ml-2">PDC</Badge>}
+      </TableCell>
+      <TableCell className="font-mono">{cheque.chequeNumber}</TableCell>
+      <TableCell className="capitalize">{cheque.direction}</TableCell>
+      <TableCell>{cheque.party?.name || cheque.payeeName || '-'}</TableCell>
+      <TableCell>{cheque.bankAccount?.bankName || cheque.drawerBankName || '-'}</TableCell>
+      <TableCell className="text-right font-medium">{formatCurrency(parseFloat(cheque.amount))}</TableCell>
+      <TableCell>
+        <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${statusStyles[cheque.status]}`}>
+          {cheque.status}
+        </span>
+        {cheque.status === 'bounced' && cheque.bounceReason && (
+          <p className="text-xs text-muted-foreground mt-1">{cheque.bounceReason}</p>
+        )}
+      </TableCell>
+      <TableCell>
+        {(cheque.status === 'issued' || cheque.status === 'presented') && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon">
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {cheque.status === 'issued' && cheque.direction === 'issued' && (
+                <DropdownMenuItem onClick={() => printMutation.mutate(cheque)}>
+                  <Printer className="h-4 w-4 mr-2" />
+                  {cheque.printedAt ? 'Reprint' : 'Print'}
+                </DropdownMenuItem>
+              )}
+              {cheque.status === 'issued' && (
+                <DropdownMenuItem onClick={() => openAction('present', cheque)}>
+                  <Send className="h-4 w-4 mr-2" />
+                  {actionLabels.present}
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={() => openAction('clear', cheque)}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                {actionLabels.clear}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => openAction('bounce', cheque)}>
+                <XCircle className="h-4 w-4 mr-2" />
+                {actionLabels.bounce}
+              </DropdownMenuItem>
+              {cheque.status === 'issued' && (
+                <DropdownMenuItem onClick={() => openAction('cancel', cheque)}>
+                  <Ban className="h-4 w-4 mr-2" />
+                  {actionLabels.cancel}
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </TableCell>
+    </TableRow>
+  ));
+
+  const chequeTableHeader = (
+    <TableHeader>
+      <TableRow>
+        <TableHead>Date</TableHead>
+        <TableHead>Cheque No.</TableHead>
+        <TableHead>Direction</TableHead>
+        <TableHead>Party</TableHead>
+        <TableHead>Bank</TableHead>
+        <TableHead className="text-right">Amount</TableHead>
+        <TableHead>Status</TableHead>
+        <TableHead></TableHead>
+      </TableRow>
+    </TableHeader>
+  );
+
+  const activeBooks = books?.filter((book) => book.isActive && book.leavesRemaining > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Cheques</h1>
+          <p className="text-muted-foreground">Cheques issued and received, post-dated cheques and cheque printing</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowBookDialog(true)}>
+            <BookOpen className="h-4 w-4 mr-2" />
+            Add Cheque Book
+          </Button>
+          <Button onClick={() => setShowChequeDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Record Cheque
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Post-dated Cheques Received</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(totalOf(postDated, 'received'))}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Post-dated Cheques Issued</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(totalOf(postDated, 'issued'))}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Issued, Not Presented</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(totalOf(unpresentedIssued, 'issued'))}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="register">
+        <TabsList>
+          <TabsTrigger value="register">Register</TabsTrigger>
+          <TabsTrigger value="pdc">
+            Post-dated
+            {!!postDated?.length && <Badge variant="secondary" className="ml-2">{postDated.length}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="books">Cheque Books</TabsTrigger>
+          <TabsTrigger value="layouts">Print Layouts</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="register">
+          <Card>
+            <CardHeader>
+              <div className="flex gap-4">
+                <Select value={directionFilter} onValueChange={setDirectionFilter}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Cheques</SelectItem>
+                    <SelectItem value="issued">Issued</SelectItem>
+                    <SelectItem value="received">Received</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Statuses</SelectItem>
+                    {Object.keys(statusStyles).map((status) => (
+                      <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <Skeleton className="h-48 w-full" />
+              ) : !cheques?.length ? (
+                <p className="text-sm text-muted-foreground">No cheques recorded</p>
+              ) : (
+                <Table>
+                  {chequeTableHeader}
+                  <TableBody>{renderChequeRows(cheques)}</TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="pdc">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarClock className="h-5 w-5" />
+                Post-dated Cheques
+              </CardTitle>
+              <CardDescription>Cheques dated after today. Smart alerts remind you a few days before each falls due.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!postDated?.length ? (
+                <p className="text-sm text-muted-foreground">No post-dated cheques</p>
+              ) : (
+                <Table>
+                  {chequeTableHeader}
+                  <TableBody>{renderChequeRows([...postDated].sort((a, b) => a.chequeDate.localeCompare(b.chequeDate)))}</TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="books">
+          <Card>
+            <CardContent className="pt-6">
+              {!books?.length ? (
+                <p className="text-sm text-muted-foreground">No cheque books yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Bank Account</TableHead>
+                      <TableHead>Leaves</TableHead>
+                      <TableHead>Next Leaf</TableHead>
+                      <TableHead className="text-right">Remaining</TableHead>
+                      <TableHead>Print Layout</TableHead>
+                      <TableHead>Active</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {books.map((book) => (
+                      <TableRow key={book.id}>
+                        <TableCell>{book.bankAccount.accountName} - {book.bankAccount.bankName}</TableCell>
+                        <TableCell className="font-mono">
+                          {String(book.firstNumber).padStart(book.numberLength, '0')} - {String(book.lastNumber).padStart(book.numberLength, '0')}
+                        </TableCell>
+                        <TableCell className="font-mono">
+                          {book.leavesRemaining ? String(book.nextNumber).padStart(book.numberLength, '0') : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">{book.leavesRemaining}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={book.layoutKey || 'cts2010'}
+                            onValueChange={(layoutKey) => updateBookMutation.mutate({ id: book.id, layoutKey })}
+                          >
+                            <SelectTrigger className="w-56">
+                              <SelectValue>{layoutName(book.layoutKey)}</SelectValue>
+                            </SelectTrigger>
+                            <SelectContent>
+                              {layouts?.map((layout) => (
+                                <SelectItem key={layout.key} value={layout.key}>{layout.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={book.isActive}
+                            onCheckedChange={(isActive) => updateBookMutation.mutate({ id: book.id, isActive })}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="layouts">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardDescription>
+                  Where the date, payee and amount are printed on each bank's leaves. Save a copy to adjust it for your printer.
+                </CardDescription>
+                <Button variant="outline" onClick={() => openLayoutDialog()}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Layout
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Bank</TableHead>
+                    <TableHead>Leaf Size</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {layouts?.map((layout) => (
+                    <TableRow key={layout.key}>
+                      <TableCell>
+                        {layout.name}
+                        {layout.isBuiltIn && <Badge variant="secondary" className="ml-2">Built-in</Badge>}
+                      </TableCell>
+                      <TableCell>{layout.bankName || '-'}</TableCell>
+                      <TableCell>{layout.layout.widthMm} x {layout.layout.heightMm} mm</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => openLayoutDialog(layout)}>
+                          Copy
+                        </Button>
+                        {!layout.isBuiltIn && (
+                          <Button variant="ghost" size="icon" onClick={() => deleteLayoutMutation.mutate(layout.id)}>
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Record Cheque Dialog */}
+      <Dialog open={showChequeDialog} onOpenChange={(open) => {
+        setShowChequeDialog(open);
+        if (!open) setChequeForm(emptyChequeForm());
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Cheque</DialogTitle>
+            <DialogDescription>Cheques recorded with a payment are added to the register automatically</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Direction</Label>
+                <Select
+                  value={chequeForm.direction}
+                  onValueChange={(value) => setChequeForm({ ...chequeForm, direction: value as ChequeDirection })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="received">Received</SelectItem>
+                    <SelectItem value="issued">Issued</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Cheque Date</Label>
+                <Input
+                  type="date"
+                  value={chequeForm.chequeDate}
+                  onChange={(e) => setChequeForm({ ...chequeForm, chequeDate: e.target.value })}
+                />
+              </div>
+            </div>
+            {chequeForm.direction === 'issued' && (
+              <div className="space-y-2">
+                <Label>Cheque Book</Label>
+                <Select
+                  value={chequeForm.chequeBookId}
+                  onValueChange={(value) => setChequeForm({ ...chequeForm, chequeBookId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select cheque book" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeBooks?.map((book) => (
+                      <SelectItem key={book.id} value={book.id}>
+                        {book.bankAccount.bankName} - next leaf {String(book.nextNumber).padStart(book.numberLength, '0')}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {(chequeForm.direction === 'received' || !chequeForm.chequeBookId) && (
+              <div className="space-y-2">
+                <Label>{chequeForm.direction === 'received' ? 'Deposit To (Optional)' : 'Bank Account'}</Label>
+                <Select
+                  value={chequeForm.bankAccountId}
+                  onValueChange={(value) => setChequeForm({ ...chequeForm, bankAccountId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select bank account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {bankAccounts?.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.accountName} - {account.bankName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Cheque Number</Label>
+                <Input
+                  placeholder={chequeForm.chequeBookId ? 'Next leaf' : '000000'}
+                  value={chequeForm.chequeNumber}
+                  onChange={(e) => setChequeForm({ ...chequeForm, chequeNumber: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Amount</Label>
+                <Input
+                  type="number"
+                  placeholder="0.00"
+                  value={chequeForm.amount}
+                  onChange={(e) => setChequeForm({ ...chequeForm, amount: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Party</Label>
+              <Select
+                value={chequeForm.partyId}
+                onValueChange={(value) => setChequeForm({ ...chequeForm, partyId: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select party" />
+                </SelectTrigger>
+                <SelectContent>
+                  {parties?.map((party) => (
+                    <SelectItem key={party.id} value={party.id}>{party.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {chequeForm.direction === 'issued' ? (
+              <div className="space-y-2">
+                <Label>Payee Name (Optional)</Label>
+                <Input
+                  placeholder="Defaults to the party's name"
+                  value={chequeForm.payeeName}
+                  onChange={(e) => setChequeForm({ ...chequeForm, payeeName: e.target.value })}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Drawn On (Optional)</Label>
+                <Input
+                  placeholder="Customer's bank"
+                  value={chequeForm.drawerBankName}
+                  onChange={(e) => setChequeForm({ ...chequeForm, drawerBankName: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowChequeDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createChequeMutation.mutate(chequeForm)}
+              disabled={!chequeForm.amount || createChequeMutation.isPending}
+            >
+              {createChequeMutation.isPending ? 'Saving...' : 'Record Cheque'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cheque Action Dialog */}
+      <Dialog open={!!action} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          {action && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{actionLabels[action.type]}</DialogTitle>
+                <DialogDescription>
+                  Cheque {action.cheque.chequeNumber} for {formatCurrency(parseFloat(action.cheque.amount))}
+                  {(action.type === 'bounce' || action.type === 'cancel') && (action.cheque.paymentReceivedId || action.cheque.paymentMadeId)
+                    ? '. Its payment will be reversed and the invoices or bills it settled reopened.'
+                    : ''}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="space-y-2">
+                  <Label>Date</Label>
+                  <Input
+                    type="date"
+                    value={actionForm.date}
+                    onChange={(e) => setActionForm({ ...actionForm, date: e.target.value })}
+                  />
+                </div>
+                {(action.type === 'present' || action.type === 'clear') && !action.cheque.bankAccountId && (
+                  <div className="space-y-2">
+                    <Label>Deposited Into</Label>
+                    <Select
+                      value={actionForm.bankAccountId}
+                      onValueChange={(value) => setActionForm({ ...actionForm, bankAccountId: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select bank account" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {bankAccounts?.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.accountName} - {account.bankName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {(action.type === 'bounce' || action.type === 'cancel') && (
+                  <div className="space-y-2">
+                    <Label>Reason</Label>
+                    <Textarea
+                      placeholder={action.type === 'bounce' ? 'e.g., Funds insufficient' : 'e.g., Misprinted'}
+                      value={actionForm.reason}
+                      onChange={(e) => setActionForm({ ...actionForm, reason: e.target.value })}
+                    />
+                  </div>
+                )}
+                {action.type === 'bounce' && (
+                  <>
+                    <div className="space-y-2">
+                      <Label>Bank Charges</Label>
+                      <Input
+                        type="number"
+                        placeholder="0.00"
+                        value={actionForm.bankCharges}
+                        onChange={(e) => setActionForm({ ...actionForm, bankCharges: e.target.value })}
+                      />
+                    </div>
+                    {action.cheque.direction === 'received' && (
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id="recover-charges"
+                          checked={actionForm.recoverCharges}
+                          onCheckedChange={(checked) => setActionForm({ ...actionForm, recoverCharges: checked === true })}
+                        />
+                        <Label htmlFor="recover-charges">Invoice the customer for the charges</Label>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setAction(null)}>
+                  Back
+                </Button>
+                <Button
+                  variant={action.type === 'bounce' || action.type === 'cancel' ? 'destructive' : 'default'}
+                  onClick={() => actionMutation.mutate(action)}
+                  disabled={!actionForm.date || actionMutation.isPending}
+                >
+                  {actionMutation.isPending ? 'Saving...' : actionLabels[action.type]}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Add Cheque Book Dialog */}
+      <Dialog open={showBookDialog} onOpenChange={(open) => {
+        setShowBookDialog(open);
+        if (!open) setBookForm(emptyBookForm());
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Cheque Book</DialogTitle>
+            <DialogDescription>Leaf numbers as printed on the first and last cheques of the book</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Bank Account</Label>
+              <Select
+                value={bookForm.bankAccountId}
+                onValueChange={(value) => setBookForm({ ...bookForm, bankAccountId: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select bank account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {bankAccounts?.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.accountName} - {account.bankName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>First Leaf</Label>
+                <Input
+                  type="number"
+                  value={bookForm.firstNumber}
+                  onChange={(e) => setBookForm({ ...bookForm, firstNumber: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Last Leaf</Label>
+                <Input
+                  type="number"
+                  value={bookForm.lastNumber}
+                  onChange={(e) => setBookForm({ ...bookForm, lastNumber: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Digits</Label>
+                <Input
+                  type="number"
+                  value={bookForm.numberLength}
+                  onChange={(e) => setBookForm({ ...bookForm, numberLength: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Print Layout</Label>
+              <Select
+                value={bookForm.layoutKey}
+                onValueChange={(value) => setBookForm({ ...bookForm, layoutKey: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {layouts?.map((layout) => (
+                    <SelectItem key={layout.key} value={layout.key}>{layout.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowBookDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createBookMutation.mutate(bookForm)}
+              disabled={!bookForm.bankAccountId || !bookForm.firstNumber || !bookForm.lastNumber || createBookMutation.isPending}
+            >
+              {createBookMutation.isPending ? 'Adding...' : 'Add Cheque Book'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cheque Layout Dialog */}
+      <Dialog open={showLayoutDialog} onOpenChange={setShowLayoutDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Cheque Layout</DialogTitle>
+            <DialogDescription>
+              Positions are in millimetres from the top left corner of the leaf
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  value={layoutForm.name}
+                  onChange={(e) => setLayoutForm({ ...layoutForm, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Bank</Label>
+                <Input
+                  value={layoutForm.bankName}
+                  onChange={(e) => setLayoutForm({ ...layoutForm, bankName: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Layout</Label>
+              <Textarea
+                className="font-mono text-xs h-64"
+                value={layoutForm.layout}
+                onChange={(e) => setLayoutForm({ ...layoutForm, layout: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowLayoutDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createLayoutMutation.mutate(layoutForm)}
+              disabled={!layoutForm.name || !layoutForm.layout || createLayoutMutation.isPending}
+            >
+              {createLayoutMutation.isPending ? 'Saving...' : 'Save Layout'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -30,6 +30,8 @@ import {
 import { Skeleton } from '@/components/ui/skeleton';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
+import CostCenterProfitLoss from '@/components/accounting/CostCenterProfitLoss';
+import CostAllocationRules from '@/components/accounting/CostAllocationRules';
 import {
   Target,
   Plus,
@@ -373,6 +375,10 @@ export default function CostCenters() {
         </CardContent>
       </Card>
 
+      <CostCenterProfitLoss />
+
+      <CostAllocationRules />
+
       {/* Create Cost Center Dialog */}
       <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
         <DialogContent>
@@ -29,7 +29,9 @@ import {
 } from '@/components/ui/dialog';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/useAuth';
 import { formatCurrency } from '@/lib/utils';
+import CostCenterSelect from '@/components/accounting/CostCenterSelect';
 import {
   Receipt,
   Plus,
@@ -86,6 +88,8 @@ const paymentMethods = [
 
 export default function Expenses() {
   const { toast } = useToast();
+  const { can } = usePermissions();
+  const canEdit = can('accounting', 'write');
   const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
@@ -100,6 +104,7 @@ export default function Expenses() {
     taxAmount: '0',
     paymentMethod: 'bank',
     vendorId: '',
+    costCenterId: '',
   });
 
   // Fetch expenses
@@ -140,6 +145,7 @@ export default function Expenses() {
         taxAmount: '0',
         paymentMethod: 'bank',
         vendorId: '',
+        costCenterId: '',
       });
       toast({ title: 'Expense recorded successfully' });
     },
@@ -155,15 +161,18 @@ export default function Expenses() {
         method: 'POST',
         credentials: 'include',
       });
-      if (!response.ok) throw new Error('Failed to approve expense');
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to approve expense');
+      }
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
       toast({ title: 'Expense approved' });
     },
-    onError: () => {
-      toast({ title: 'Failed to approve expense', variant: 'destructive' });
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: 'destructive' });
     },
   });
 
@@ -238,10 +247,12 @@ export default function Expenses() {
             Track and manage business expenses
           </p>
         </div>
-        <Button onClick={() => setShowCreateDialog(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          New Expense
-        </Button>
+        {canEdit && (
+          <Button onClick={() => setShowCreateDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Expense
+          </Button>
+        )}
       </div>
 
       {/* Stats */}
@@ -359,10 +370,12 @@ export default function Expenses() {
             <div className="text-center py-12">
               <Receipt className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
               <p className="text-muted-foreground">No expenses found</p>
-              <Button className="mt-4" onClick={() => setShowCreateDialog(true)}>
-                <Plus className="h-4 w-4 mr-2" />
-                Record First Expense
-              </Button>
+              {canEdit && (
+                <Button className="mt-4" onClick={() => setShowCreateDialog(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Record First Expense
+                </Button>
+              )}
             </div>
           ) : (
             <Table>
@@ -403,7 +416,7 @@ export default function Expenses() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        {expense.status === 'pending' && (
+                        {canEdit && expense.status === 'pending' && (
                           <>
                             <Button
                               variant="ghost"
@@ -523,6 +536,13 @@ export default function Expenses() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="space-y-2">
+              <Label>Cost Center (Optional)</Label>
+              <CostCenterSelect
+                value={formData.costCenterId}
+                onChange={(costCenterId) => setFormData({ ...formData, costCenterId: costCenterId || '' })}
+              />
+            </div>
             <div className="space-y-2">
               <Label>Receipt/Bill (Optional)</Label>
               <div className="border-2 border-dashed rounded-lg p-4 text-center">
@@ -0,0 +1,847 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { Factory, Plus, Trash2, LogOut, Play, Calculator } from 'lucide-react';
+
+interface FixedAsset {
+  id: string;
+  assetCode: string;
+  name: string;
+  assetAccountId: string;
+  purchaseDate: string;
+  putToUseDate: string;
+  cost: string;
+  residualValue: string;
+  usefulLifeYears: string;
+  depreciationMethod: 'slm' | 'wdv';
+  wdvRate: number | null;
+  accumulatedDepreciation: string;
+  bookValue: string;
+  depreciatedUpTo: string | null;
+  status: 'active' | 'disposed';
+  disposalDate: string | null;
+  disposalProceeds: string | null;
+}
+
+interface AssetAccount {
+  id: string;
+  code: string;
+  name: string;
+  lineItemCode: string;
+}
+
+interface Candidate {
+  journalEntryLineId: string;
+  entryNumber: string;
+  entryDate: string;
+  narration: string | null;
+  description: string | null;
+  accountId: string;
+  accountName: string;
+  amount: string;
+}
+
+interface Account {
+  id: string;
+  code: string;
+  name: string;
+}
+
+interface FiscalYear {
+  id: string;
+  name: string;
+  isCurrent: boolean;
+}
+
+interface DepreciationRun {
+  id: string;
+  frequency: string;
+  periodStart: string;
+  periodEnd: string;
+  totalAmount: string;
+  journalEntryId: string | null;
+}
+
+interface PeriodRange {
+  periodStart: string;
+  periodEnd: string;
+}
+
+interface BlockSchedule {
+  block: { id: string; name: string; rate: string };
+  result: {
+    openingWdv: number;
+    additionsFullRate: number;
+    additionsHalfRate: number;
+    saleProceeds: number;
+    depreciation: number;
+    closingWdv: number;
+    shortTermCapitalGain: number;
+  };
+}
+
+const emptyAsset = {
+  sourceJournalLineId: '',
+  name: '',
+  assetAccountId: '',
+  purchaseDate: '',
+  putToUseDate: '',
+  cost: '',
+  residualValue: '',
+  usefulLifeYears: '',
+  depreciationMethod: 'slm',
+  incomeTaxBlockId: '',
+};
+
+async function send(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    const err = await response.json();
+    throw new Error(err.error || 'Request failed');
+  }
+  return response.json();
+}
+
+export default function FixedAssets() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedFiscalYear, setSelectedFiscalYear] = useState('');
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showBlockDialog, setShowBlockDialog] = useState(false);
+  const [disposing, setDisposing] = useState<FixedAsset | null>(null);
+  const [formData, setFormData] = useState(emptyAsset);
+  const [blockForm, setBlockForm] = useState({ name: '', rate: '', openingWdv: '', openingDate: '' });
+  const [disposalForm, setDisposalForm] = useState({ disposalDate: '', proceeds: '', proceedsAccountId: '' });
+
+  const { data: assets, isLoading } = useQuery<FixedAsset[]>({
+    queryKey: ['fixed-assets'],
+    queryFn: async () => {
+      const response = await fetch('/api/fixed-assets', { credentials: 'include' });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  const { data: assetAccounts } = useQuery<AssetAccount[]>({
+    queryKey: ['fixed-asset-accounts'],
+    queryFn: async () => {
+      const response = await fetch('/api/fixed-assets/accounts', { credentials: 'include' });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  const { data: candidates } = useQuery<Candidate[]>({
+    queryKey: ['fixed-asset-candidates'],
+    queryFn: async () => {
+      const response = await fetch('/api/fixed-assets/candidates', { credentials: 'include' });
+      if (!response.ok) return [];
+      return response.json();
+    },
+  });
+
+  const { data: ledgers } = useQuery<Account[]>({
+    queryKey: ['chart-of-accounts-list'],
+    queryFn: async () => {
+      const response = await fetch('/api/chart-of-accounts/ledgers/list', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch accounts');
+      return response.json();
+    },
+  });
+
+  const { data: fiscalYears } = useQuery<FiscalYear[]>({
+    queryKey: ['fiscal-years'],
+    queryFn: async () => {
+      const response = await fetch('/api/fiscal-years', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch fiscal years');
+      return response.json();
+    },
+  });
+
+  const { data: runsData } = useQuery<{ runs: DepreciationRun[]; nextPeriod: Record<'monthly' | 'yearly', PeriodRange | null> }>({
+    queryKey: ['depreciation-runs', selectedFiscalYear],
+    queryFn: async () => {
+      const params = selectedFiscalYear ? `?fiscalYearId=${selectedFiscalYear}` : '';
+      const response = await fetch(`/api/fixed-assets/depreciation-runs${params}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch depreciation runs');
+      return response.json();
+    },
+  });
+
+  const { data: blocksData } = useQuery<{ blocks: BlockSchedule[] }>({
+    queryKey: ['income-tax-blocks', selectedFiscalYear],
+    queryFn: async () => {
+      const params = selectedFiscalYear ? `?fiscalYearId=${selectedFiscalYear}` : '';
+      const response = await fetch(`/api/fixed-assets/it-blocks${params}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch income-tax blocks');
+      return response.json();
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['fixed-assets'] });
+    queryClient.invalidateQueries({ queryKey: ['fixed-asset-candidates'] });
+    queryClient.invalidateQueries({ queryKey: ['depreciation-runs'] });
+    queryClient.invalidateQueries({ queryKey: ['income-tax-blocks'] });
+  };
+
+  const createAssetMutation = useMutation({
+    mutationFn: (data: typeof formData) => send('/api/fixed-assets', 'POST', data),
+    onSuccess: () => {
+      refresh();
+      setShowCreateDialog(false);
+      setFormData(emptyAsset);
+      toast({ title: 'Asset added to the register' });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteAssetMutation = useMutation({
+    mutationFn: (id: string) => send(`/api/fixed-assets/${id}`, 'DELETE'),
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Asset deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: 'destructive' });
+    },
+  });
+
+  const disposeAssetMutation = useMutation({
+    mutationFn: (data: { id: string } & typeof disposalForm) =>
+      send(`/api/fixed-assets/${data.id}/dispose`, 'POST', data),
+    onSuccess: (result: { gainOrLoss: number }) => {
+      refresh();
+      setDisposing(null);
+      toast({
+        title: result.gainOrLoss >= 0
+          ? `Asset disposed with a profit of ${formatCurrency(result.gainOrLoss)}`
+          : `Asset disposed with a loss of ${formatCurrency(-result.gainOrLoss)}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: 'destructive' });
+    },
+  });
+
+  const runDepreciationMutation = useMutation({
+    mutationFn: (frequency: 'monthly' | 'yearly') =>
+      send('/api/fixed-assets/depreciation-runs', 'POST', { frequency, fiscalYearId: selectedFiscalYear || undefined }),
+    onSuccess: (result: { run: DepreciationRun }) => {
+      refresh();
+      toast({ title: `Depreciation of ${formatCurrency(result.run.totalAmount)} posted` });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: 'destructive' });
+    },
+  });
+
+  const createBlockMutation = useMutation({
+    mutationFn: (data: typeof blockForm) => send('/api/fixed-assets/it-blocks', 'POST', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['income-tax-blocks'] });
+      setShowBlockDialog(false);
+      setBlockForm({ name: '', rate: '', openingWdv: '', openingDate: '' });
+      toast({ title: 'Income-tax block created' });
+    },
+    onError: (error: Error) => {
+      toast({ title: error.message, variant: 'destructive' });
+    },
+  });
+
+  const selectCandidate = (lineId: string) => {
+    const line = candidates?.find(c => c.journalEntryLineId === lineId);
+    if (!line) {
+      setFormData({ ...formData, sourceJournalLineId: '' });
+      return;
+    }
+    setFormData({
+      ...formData,
+      sourceJournalLineId: line.journalEntryLineId,
+      name: formData.name || line.description || line.narration || '',
+      assetAccountId: line.accountId,
+      purchaseDate: line.entryDate,
+      putToUseDate: formData.putToUseDate || line.entryDate,
+      cost: line.amount,
+    });
+  };
+
+  const openDisposal = (asset: FixedAsset) => {
+    setDisposing(asset);
+    setDisposalForm({ disposalDate: '', proceeds: '', proceedsAccountId: '' });
+  };
+
+  const active = assets?.filter(a => a.status === 'active') || [];
+  const stats = {
+    cost: active.reduce((sum, a) => sum + parseFloat(a.cost), 0),
+    accumulated: active.reduce((sum, a) => sum + parseFloat(a.accumulatedDepreciation), 0),
+    bookValue: active.reduce((sum, a) => sum + parseFloat(a.bookValue), 0),
+  };
+  const blocks = blocksData?.blocks || [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Fixed Assets</h1>
+          <p className="text-muted-foreground">
+            Asset register with Schedule II depreciation and income-tax blocks
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <Select value={selectedFiscalYear} onValueChange={setSelectedFiscalYear}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Current Fiscal Year" />
+            </SelectTrigger>
+            <SelectContent>
+              {fiscalYears?.map((fy) => (
+                <SelectItem key={fy.id} value={fy.id}>
+                  {fy.name} {fy.isCurrent && '(Current)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setShowCreateDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Asset
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Gross Block</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(stats.cost)}</div>
+            <p className="text-xs text-muted-foreground">{active.length} assets in use</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Accumulated Depreciation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{formatCurrency(stats.accumulated)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Net Block</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{formatCurrency(stats.bookValue)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="register">
+        <TabsList>
+          <TabsTrigger value="register" className="flex items-center gap-2">
+            <Factory className="h-4 w-4" />
+            Register
+          </TabsTrigger>
+          <TabsTrigger value="depreciation" className="flex items-center gap-2">
+            <Play className="h-4 w-4" />
+            Depreciation Runs
+          </TabsTrigger>
+          <TabsTrigger value="tax" className="flex items-center gap-2">
+            <Calculator className="h-4 w-4" />
+            Income-tax Blocks
+          </TabsTrigger>
+        </TabsList>
+
+        {/* Register */}
+        <TabsContent value="register">
+          <Card>
+            <CardContent className="pt-6">
+              {isLoading ? (
+                <div className="space-y-4">
+                  {[...Array(5)].map((_, i) => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : !assets?.length ? (
+                <div className="text-center py-12">
+                  <Factory className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">No assets registered</p>
+                  {!!candidates?.length && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {candidates.length} bill or journal lines on asset accounts are waiting to be registered
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Code</TableHead>
+                      <TableHead>Asset</TableHead>
+                      <TableHead>Put to Use</TableHead>
+                      <TableHead>Method</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                      <TableHead className="text-right">Accumulated</TableHead>
+                      <TableHead className="text-right">Book Value</TableHead>
+                      <TableHead>Depreciated To</TableHead>
+                      <TableHead className="w-[100px]">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {assets.map((asset) => (
+                      <TableRow key={asset.id} className={asset.status === 'disposed' ? 'opacity-50' : ''}>
+                        <TableCell className="font-mono">{asset.assetCode}</TableCell>
+                        <TableCell>
+                          {asset.name}
+                          {asset.status === 'disposed' && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              Disposed {asset.disposalDate && formatDate(asset.disposalDate)}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>{formatDate(asset.putToUseDate)}</TableCell>
+                        <TableCell>
+                          {asset.depreciationMethod === 'wdv' ? `WDV ${asset.wdvRate}%` : `SLM ${parseFloat(asset.usefulLifeYears)} yrs`}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(asset.cost)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(asset.accumulatedDepreciation)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(asset.bookValue)}</TableCell>
+                        <TableCell>{asset.depreciatedUpTo ? formatDate(asset.depreciatedUpTo) : '-'}</TableCell>
+                        <TableCell>
+                          {asset.status === 'active' && (
+                            <div className="flex items-center gap-1">
+                              <Button variant="ghost" size="icon" title="Dispose" onClick={() => openDisposal(asset)}>
+                                <LogOut className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => {
+                                  if (confirm('Are you sure you want to delete this asset?')) {
+                                    deleteAssetMutation.mutate(asset.id);
+                                  }
+                                }}
+                              >
+                                <Trash2 className="h-4 w-4 text-red-500" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Depreciation runs */}
+        <TabsContent value="depreciation" className="space-y-4">
+          <Card>
+            <CardContent className="pt-6 flex flex-wrap items-center gap-4">
+              {(['monthly', 'yearly'] as const).map((frequency) => {
+                const period = runsData?.nextPeriod[frequency];
+                return (
+                  <Button
+                    key={frequency}
+                    variant={frequency === 'monthly' ? 'default' : 'outline'}
+                    disabled={!period || runDepreciationMutation.isPending}
+                    onClick={() => runDepreciationMutation.mutate(frequency)}
+                  >
+                    <Play className="h-4 w-4 mr-2" />
+                    {frequency === 'monthly' ? 'Run for the month' : 'Run for the rest of the year'}
+                    {period && ` (${formatDate(period.periodStart)} - ${formatDate(period.periodEnd)})`}
+                  </Button>
+                );
+              })}
+              {runsData && !runsData.nextPeriod.monthly && (
+                <p className="text-sm text-muted-foreground">Depreciation has been run to the end of the year</p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              {!runsData?.runs.length ? (
+                <p className="text-center py-8 text-muted-foreground">No depreciation runs for this year</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Frequency</TableHead>
+                      <TableHead className="text-right">Depreciation</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {runsData.runs.map((run) => (
+                      <TableRow key={run.id}>
+                        <TableCell>{formatDate(run.periodStart)} - {formatDate(run.periodEnd)}</TableCell>
+                        <TableCell className="capitalize">{run.frequency}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(run.totalAmount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Income-tax blocks */}
+        <TabsContent value="tax" className="space-y-4">
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={() => setShowBlockDialog(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Block
+            </Button>
+          </div>
+          <Card>
+            <CardContent className="pt-6">
+              {blocks.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">No income-tax blocks set up</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Block</TableHead>
+                      <TableHead className="text-right">Opening WDV</TableHead>
+                      <TableHead className="text-right">Additions (180 days or more)</TableHead>
+                      <TableHead className="text-right">Additions (less than 180 days)</TableHead>
+                      <TableHead className="text-right">Sale Proceeds</TableHead>
+                      <TableHead className="text-right">Depreciation</TableHead>
+                      <TableHead className="text-right">Closing WDV</TableHead>
+                      <TableHead className="text-right">STCG u/s 50</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {blocks.map(({ block, result }) => (
+                      <TableRow key={block.id}>
+                        <TableCell>{block.name} ({parseFloat(block.rate)}%)</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(result.openingWdv)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(result.additionsFullRate)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(result.additionsHalfRate)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(result.saleProceeds)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(result.depreciation)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatCurrency(result.closingWdv)}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {result.shortTermCapitalGain !== 0 ? formatCurrency(result.shortTermCapitalGain) : '-'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Add Asset Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Add Asset</DialogTitle>
+            <DialogDescription>
+              Register an asset from a bill or journal, or enter it directly
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>From Bill or Journal (Optional)</Label>
+              <Select value={formData.sourceJournalLineId} onValueChange={selectCandidate}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an unregistered addition" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="">Enter manually</SelectItem>
+                  {candidates?.map((line) => (
+                    <SelectItem key={line.journalEntryLineId} value={line.journalEntryLineId}>
+                      {line.entryNumber} - {line.accountName} - {formatCurrency(line.amount)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Asset Account</Label>
+                <Select
+                  value={formData.assetAccountId}
+                  onValueChange={(value) => setFormData({ ...formData, assetAccountId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assetAccounts?.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.code} - {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Purchase Date</Label>
+                <Input
+                  type="date"
+                  value={formData.purchaseDate}
+                  onChange={(e) => setFormData({ ...formData, purchaseDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Put to Use</Label>
+                <Input
+                  type="date"
+                  value={formData.putToUseDate}
+                  onChange={(e) => setFormData({ ...formData, putToUseDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Cost</Label>
+                <Input
+                  type="number"
+                  value={formData.cost}
+                  onChange={(e) => setFormData({ ...formData, cost: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Residual Value</Label>
+                <Input
+                  type="number"
+                  placeholder="Up to 5% of cost"
+                  value={formData.residualValue}
+                  onChange={(e) => setFormData({ ...formData, residualValue: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Useful Life (years)</Label>
+                <Input
+                  type="number"
+                  placeholder="As per Schedule II"
+                  value={formData.usefulLifeYears}
+                  onChange={(e) => setFormData({ ...formData, usefulLifeYears: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Method</Label>
+                <Select
+                  value={formData.depreciationMethod}
+                  onValueChange={(value) => setFormData({ ...formData, depreciationMethod: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="slm">Straight Line (SLM)</SelectItem>
+                    <SelectItem value="wdv">Written Down Value (WDV)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Income-tax Block (Optional)</Label>
+              <Select
+                value={formData.incomeTaxBlockId}
+                onValueChange={(value) => setFormData({ ...formData, incomeTaxBlockId: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select block" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="">None</SelectItem>
+                  {blocks.map(({ block }) => (
+                    <SelectItem key={block.id} value={block.id}>
+                      {block.name} ({parseFloat(block.rate)}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createAssetMutation.mutate(formData)}
+              disabled={!formData.name || !formData.assetAccountId || !formData.usefulLifeYears || createAssetMutation.isPending}
+            >
+              {createAssetMutation.isPending ? 'Adding...' : 'Add Asset'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Dispose Dialog */}
+      <Dialog open={!!disposing} onOpenChange={(open) => !open && setDisposing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Dispose of {disposing?.name}</DialogTitle>
+            <DialogDescription>
+              Depreciation is charged to the disposal date and the profit or loss on sale is posted
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Disposal Date</Label>
+                <Input
+                  type="date"
+                  value={disposalForm.disposalDate}
+                  onChange={(e) => setDisposalForm({ ...disposalForm, disposalDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Sale Proceeds</Label>
+                <Input
+                  type="number"
+                  placeholder="0 for a write-off"
+                  value={disposalForm.proceeds}
+                  onChange={(e) => setDisposalForm({ ...disposalForm, proceeds: e.target.value })}
+                />
+              </div>
+            </div>
+            {parseFloat(disposalForm.proceeds) > 0 && (
+              <div className="space-y-2">
+                <Label>Proceeds Received In</Label>
+                <Select
+                  value={disposalForm.proceedsAccountId}
+                  onValueChange={(value) => setDisposalForm({ ...disposalForm, proceedsAccountId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Bank, cash or receivable account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ledgers?.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.code} - {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDisposing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => disposing && disposeAssetMutation.mutate({ id: disposing.id, ...disposalForm })}
+              disabled={!disposalForm.disposalDate || disposeAssetMutation.isPending}
+            >
+              {disposeAssetMutation.isPending ? 'Posting...' : 'Dispose'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Add Block Dialog */}
+      <Dialog open={showBlockDialog} onOpenChange={setShowBlockDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Income-tax Block</DialogTitle>
+            <DialogDescription>
+              Blocks carry forward their written down value from the opening date
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  placeholder="e.g., Plant and Machinery"
+                  value={blockForm.name}
+                  onChange={(e) => setBlockForm({ ...blockForm, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Rate (%)</Label>
+                <Input
+                  type="number"
+                  value={blockForm.rate}
+                  onChange={(e) => setBlockForm({ ...blockForm, rate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Opening WDV</Label>
+                <Input
+                  type="number"
+                  value={blockForm.openingWdv}
+                  onChange={(e) => setBlockForm({ ...blockForm, openingWdv: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>As at</Label>
+                <Input
+                  type="date"
+                  value={blockForm.openingDate}
+                  onChange={(e) => setBlockForm({ ...blockForm, openingDate: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowBlockDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createBlockMutation.mutate(blockForm)}
+              disabled={!blockForm.name || !blockForm.rate || !blockForm.openingDate || createBlockMutation.isPending}
+            >
+              {createBlockMutation.isPending ? 'Creating...' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
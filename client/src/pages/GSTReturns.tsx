@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import {
@@ -9,6 +9,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { useToast } from '@/hooks/useToast';
+import { usePermissions } from '@/hooks/useAuth';
 import { formatCurrency } from '@/lib/utils';
 import { cn } from '@/lib/utils';
 import {
@@ -31,6 +33,11 @@ const currentYear = new Date().getFullYear();
 const years = Array.from({ length: 5 }, (_, i) => currentYear - i);
 
 export default function GSTReturns() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canEdit = can('accounting', 'write');
+  const queryClient = useQueryClient();
+  const portalFileRef = useRef<HTMLInputElement>(null);
   const [selectedMonth, setSelectedMonth] = useState((new Date().getMonth() + 1).toString().padStart(2, '0'));
   const [selectedYear, setSelectedYear] = useState(currentYear.toString());
   const [activeTab, setActiveTab] = useState<'gstr1' | 'gstr3b' | 'itc'>('gstr1');
@@ -63,7 +70,7 @@ export default function GSTReturns() {
   const { data: gstr3bData, isLoading: gstr3bLoading } = useQuery({
     queryKey: ['gstr3b', returnPeriod],
     queryFn: async () => {
-      const response = await fetch(`/api/gst/gstr3b?period=${returnPeriod}`, {
+      const response = await fetch(`/api/gst/gstr3b/${returnPeriod}`, {
         credentials: 'include',
       });
       if (!response.ok) throw new Error('Failed to fetch GSTR-3B data');
@@ -75,7 +82,7 @@ export default function GSTReturns() {
   const { data: itcData, isLoading: itcLoading } = useQuery({
     queryKey: ['itc', returnPeriod],
     queryFn: async () => {
-      const response = await fetch(`/api/gst/itc?period=${returnPeriod}`, {
+      const response = await fetch(`/api/gst/itc?returnPeriod=${returnPeriod}`, {
         credentials: 'include',
       });
       if (!response.ok) throw new Error('Failed to fetch ITC data');
@@ -85,7 +92,7 @@ export default function GSTReturns() {
   });
 
   const handleExport = async (type: string) => {
-    const response = await fetch(`/api/gst/${type}/export?period=${returnPeriod}`, {
+    const response = await fetch(`/api/gst/${type}/export?returnPeriod=${returnPeriod}`, {
       credentials: 'include',
     });
     if (response.ok) {
@@ -93,11 +100,99 @@ export default function GSTReturns() {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${type.toUpperCase()}-${returnPeriod}.xlsx`;
+      // GSTR-1 is exported as GSTN offline-tool JSON
+      a.download = `${type.toUpperCase()}-${returnPeriod}.${type === 'gstr1' ? 'json' : 'xlsx'}`;
       a.click();
+    } else {
+      const error = await response.json().catch(() => ({}));
+      const issues: { documentNumber: string | null; message: string }[] = error.issues || [];
+      toast({
+        title: error.error || 'Export failed',
+        description: issues.slice(0, 3)
+          .map(issue => issue.documentNumber ? `${issue.documentNumber}: ${issue.message}` : issue.message)
+          .join('\n') || undefined,
+        variant: 'destructive',
+      });
     }
   };
 
+  // Import GSTR-2A/2B JSON and reconcile it against the ITC register
+  const reconcileMutation = useMutation({
+    mutationFn: async (file: File) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error('File is not valid JSON');
+      }
+      const response = await fetch('/api/gst/itc/reconcile', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ returnPeriod, data }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to reconcile ITC');
+      }
+      return response.json();
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ['itc'] });
+      toast({
+        title: 'ITC reconciled',
+        description: `${report.summary.matched} matched, ${report.summary.mismatch} mismatched, ${report.summary.notIn2a} not in 2A/2B, ${report.summary.excessIn2a} only in 2A/2B`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Reconciliation failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const itcActionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'accept' | 'reject' }) => {
+      const response = await fetch(`/api/gst/itc/${id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) throw new Error('Failed to update ITC entry');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['itc'] });
+    },
+    onError: () => {
+      toast({ title: 'Failed to update ITC entry', variant: 'destructive' });
+    },
+  });
+
+  // Record that the return has been filed on the GST portal
+  const fileReturnMutation = useMutation({
+    mutationFn: async (type: 'gstr1' | 'gstr3b') => {
+      const url = type === 'gstr1' ? '/api/gst/gstr1/file' : `/api/gst/gstr3b/${returnPeriod}/file`;
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ returnPeriod }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to mark return as filed');
+      }
+      return response.json();
+    },
+    onSuccess: (_, type) => {
+      queryClient.invalidateQueries({ queryKey: [type] });
+      toast({ title: `${type === 'gstr1' ? 'GSTR-1' : 'GSTR-3B'} marked as filed` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to mark as filed', description: error.message, variant: 'destructive' });
+    },
+  });
+
   const isLoading = gstr1Loading || gstr3bLoading || itcLoading;
 
   return (
@@ -236,10 +331,22 @@ export default function GSTReturns() {
                 <CardTitle>GSTR-1 Details</CardTitle>
                 <CardDescription>Outward supplies for the period</CardDescription>
               </div>
-              <Button onClick={() => handleExport('gstr1')}>
-                <Download className="h-4 w-4 mr-2" />
-                Export
-              </Button>
+              <div className="flex gap-2">
+                {canEdit && gstr1Data?.summary?.status !== 'filed' && (gstr1Data?.entries?.length ?? 0) > 0 && (
+                  <Button
+                    variant="outline"
+                    onClick={() => fileReturnMutation.mutate('gstr1')}
+                    disabled={fileReturnMutation.isPending}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Mark as Filed
+                  </Button>
+                )}
+                <Button onClick={() => handleExport('gstr1')}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               <div className="space-y-6">
@@ -360,10 +467,27 @@ export default function GSTReturns() {
               <CardTitle>GSTR-3B Summary</CardTitle>
               <CardDescription>Monthly summary return</CardDescription>
             </div>
-            <Button onClick={() => handleExport('gstr3b')}>
-              <Download className="h-4 w-4 mr-2" />
-              Export
-            </Button>
+            <div className="flex gap-2">
+              {canEdit && gstr3bData?.filingStatus === 'pending' ? (
+                <Button
+                  variant="outline"
+                  onClick={() => fileReturnMutation.mutate('gstr3b')}
+                  disabled={fileReturnMutation.isPending}
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Mark as Filed
+                </Button>
+              ) : gstr3bData?.filingStatus && gstr3bData.filingStatus !== 'pending' && (
+                <span className="flex items-center gap-2 text-green-600 font-medium">
+                  <CheckCircle className="h-5 w-5 text-green-500" />
+                  Filed{gstr3bData.arnNumber ? ` (ARN ${gstr3bData.arnNumber})` : ''}
+                </span>
+              )}
+              <Button onClick={() => handleExport('gstr3b')}>
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+            </div>
           </CardHeader>
           <CardContent>
             <div className="space-y-6">
@@ -595,10 +719,27 @@ export default function GSTReturns() {
                 <CardDescription>Input Tax Credit details with 2A/2B reconciliation status</CardDescription>
               </div>
               <div className="flex gap-2">
-                <Button variant="outline" onClick={() => {}}>
-                  <RefreshCw className="h-4 w-4 mr-2" />
-                  Reconcile
-                </Button>
+                <input
+                  ref={portalFileRef}
+                  type="file"
+                  accept=".json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) reconcileMutation.mutate(file);
+                    e.target.value = '';
+                  }}
+                />
+                {canEdit && (
+                  <Button
+                    variant="outline"
+                    onClick={() => portalFileRef.current?.click()}
+                    disabled={reconcileMutation.isPending}
+                  >
+                    <RefreshCw className={cn('h-4 w-4 mr-2', reconcileMutation.isPending && 'animate-spin')} />
+                    Reconcile with 2A/2B
+                  </Button>
+                )}
                 <Button onClick={() => handleExport('itc')}>
                   <Download className="h-4 w-4 mr-2" />
                   Export
@@ -615,6 +756,7 @@ export default function GSTReturns() {
                     <th className="py-2 text-right text-sm font-medium">Taxable Value</th>
                     <th className="py-2 text-right text-sm font-medium">Total ITC</th>
                     <th className="py-2 text-center text-sm font-medium">Status</th>
+                    <th className="py-2 pr-4 text-right text-sm font-medium">Action</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -637,18 +779,47 @@ export default function GSTReturns() {
                           'px-2 py-1 rounded-full text-xs font-medium',
                           entry.reconciliationStatus === 'matched' && 'bg-green-100 text-green-700',
                           entry.reconciliationStatus === 'mismatch' && 'bg-yellow-100 text-yellow-700',
-                          entry.reconciliationStatus === 'not_in_2a' && 'bg-red-100 text-red-700'
+                          entry.reconciliationStatus === 'not_in_2a' && 'bg-red-100 text-red-700',
+                          entry.reconciliationStatus === 'excess_in_2a' && 'bg-blue-100 text-blue-700'
                         )}>
                           {entry.reconciliationStatus === 'matched' && 'Matched'}
                           {entry.reconciliationStatus === 'mismatch' && 'Mismatch'}
                           {entry.reconciliationStatus === 'not_in_2a' && 'Not in 2A'}
+                          {entry.reconciliationStatus === 'excess_in_2a' && 'Only in 2A'}
                         </span>
+                        {(entry.reconciliationDifferences || []).map((diff: any) => (
+                          <p key={diff.field} className="mt-1 text-xs text-muted-foreground">
+                            {diff.field}: {formatCurrency(diff.books)} vs {formatCurrency(diff.portal)}
+                          </p>
+                        ))}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {entry.reconciliationAction ? (
+                          <span className="text-xs text-muted-foreground capitalize">{entry.reconciliationAction}</span>
+                        ) : canEdit && ['mismatch', 'not_in_2a', 'excess_in_2a'].includes(entry.reconciliationStatus) && (
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => itcActionMutation.mutate({ id: entry.id, action: 'accept' })}
+                            >
+                              Accept
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => itcActionMutation.mutate({ id: entry.id, action: 'reject' })}
+                            >
+                              Reject
+                            </Button>
+                          </div>
+                        )}
                       </td>
                     </tr>
                   ))}
                   {(!itcData?.entries || itcData.entries.length === 0) && (
                     <tr>
-                      <td colSpan={6} className="py-8 text-center text-muted-foreground">
+                      <td colSpan={7} className="py-8 text-center text-muted-foreground">
                         No ITC entries for this period
                       </td>
                     </tr>
@@ -30,7 +30,10 @@ import {
 } from '@/components/ui/dialog';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
-import { useAuth } from '@/hooks/useAuth';
+import { useAuth, usePermissions } from '@/hooks/useAuth';
+import ProductSelect, { type ProductOption } from '@/components/accounting/ProductSelect';
+import CostCenterSelect from '@/components/accounting/CostCenterSelect';
+import CurrencyFields, { currencyPayload, useBaseCurrency } from '@/components/accounting/CurrencyFields';
 import { formatCurrency } from '@/lib/utils';
 import {
   FileText,
@@ -67,6 +70,9 @@ interface Invoice {
   subtotal: string;
   taxAmount: string;
   totalAmount: string;
+  currencyCode?: string | null;
+  exchangeRate?: string;
+  totalAmountFcy?: string | null;
   status: 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
   items: InvoiceItem[];
 }
@@ -90,6 +96,8 @@ interface Customer {
 
 interface LineItem {
   id: string;
+  productId?: string;
+  costCenterId?: string;
   description: string;
   hsnSac: string;
   quantity: number;
@@ -113,6 +121,9 @@ const emptyLineItem = (): LineItem => ({
 export default function Invoices() {
   const { toast } = useToast();
   const { currentCompany } = useAuth();
+  const baseCurrency = useBaseCurrency();
+  const { can } = usePermissions();
+  const canEdit = can('accounting', 'write');
   const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
@@ -129,6 +140,8 @@ export default function Invoices() {
     dueDate: '',
     placeOfSupply: '',
     notes: '',
+    currencyCode: '',
+    exchangeRate: '',
   });
   const [lineItems, setLineItems] = useState<LineItem[]>([emptyLineItem()]);
 
@@ -153,6 +166,26 @@ export default function Invoices() {
     });
   };
 
+  // Fill a line from the product master
+  const selectLineProduct = (index: number, product: ProductOption | null) => {
+    setLineItems(prev => {
+      const updated = [...prev];
+      const item = { ...updated[index], productId: product?.id };
+
+      if (product) {
+        item.description = product.name;
+        item.hsnSac = product.hsnSacCode || '';
+        item.rate = parseFloat(product.sellingPrice) || 0;
+        item.gstRate = parseFloat(product.gstRate) || 0;
+        item.amount = item.quantity * item.rate;
+        item.taxAmount = (item.amount * item.gstRate) / 100;
+      }
+
+      updated[index] = item;
+      return updated;
+    });
+  };
+
   const addLineItem = () => {
     setLineItems(prev => [...prev, emptyLineItem()]);
   };
@@ -169,6 +202,7 @@ export default function Invoices() {
   const cgst = totalTax / 2;
   const sgst = totalTax / 2;
   const total = subtotal + totalTax;
+  const documentCurrency = formData.currencyCode || baseCurrency;
 
   // Handle opening template selector for download
   const handleOpenTemplateSelector = (invoiceId: string) => {
@@ -295,11 +329,15 @@ export default function Invoices() {
         dueDate: fullInvoice.dueDate,
         placeOfSupply: fullInvoice.placeOfSupply || '',
         notes: fullInvoice.notes || '',
+        currencyCode: fullInvoice.currencyCode || '',
+        exchangeRate: fullInvoice.currencyCode ? fullInvoice.exchangeRate : '',
       });
       // Convert invoice lines to form line items
       if (fullInvoice.lines && fullInvoice.lines.length > 0) {
         setLineItems(fullInvoice.lines.map((line: any) => ({
           id: line.id,
+          productId: line.productId || undefined,
+          costCenterId: line.costCenterId || undefined,
           description: line.description || '',
           hsnSac: line.hsnSacCode || '',
           quantity: parseFloat(line.quantity) || 1,
@@ -322,6 +360,8 @@ export default function Invoices() {
         dueDate: '',
         placeOfSupply: '',
         notes: '',
+        currencyCode: '',
+        exchangeRate: '',
       });
       setLineItems([emptyLineItem()]);
       setEditingInvoice(null);
@@ -532,10 +572,12 @@ export default function Invoices() {
             Create and manage customer invoices
           </p>
         </div>
-        <Button onClick={() => setShowCreateDialog(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          New Invoice
-        </Button>
+        {canEdit && (
+          <Button onClick={() => setShowCreateDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Invoice
+          </Button>
+        )}
       </div>
 
       {/* Stats */}
@@ -628,10 +670,12 @@ export default function Invoices() {
             <div className="text-center py-12">
               <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
               <p className="text-muted-foreground">No invoices found</p>
-              <Button className="mt-4" onClick={() => setShowCreateDialog(true)}>
-                <Plus className="h-4 w-4 mr-2" />
-                Create First Invoice
-              </Button>
+              {canEdit && (
+                <Button className="mt-4" onClick={() => setShowCreateDialog(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create First Invoice
+                </Button>
+              )}
             </div>
           ) : (
             <Table>
@@ -660,7 +704,16 @@ export default function Invoices() {
                       {new Date(invoice.dueDate).toLocaleDateString()}
                     </TableCell>
                     <TableCell className="text-right font-medium">
-                      {formatCurrency(parseFloat(invoice.totalAmount))}
+                      {invoice.currencyCode ? (
+                        <>
+                          {formatCurrency(parseFloat(invoice.totalAmountFcy || '0'), invoice.currencyCode)}
+                          <div className="text-xs text-muted-foreground font-normal">
+                            {formatCurrency(parseFloat(invoice.totalAmount))}
+                          </div>
+                        </>
+                      ) : (
+                        formatCurrency(parseFloat(invoice.totalAmount))
+                      )}
                     </TableCell>
                     <TableCell>{getStatusBadge(invoice.status)}</TableCell>
                     <TableCell>
@@ -672,7 +725,7 @@ export default function Invoices() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        {invoice.status === 'draft' && (
+                        {canEdit && invoice.status === 'draft' && (
                           <>
                             <Button
                               variant="ghost"
@@ -702,7 +755,7 @@ export default function Invoices() {
                             </Button>
                           </>
                         )}
-                        {invoice.status === 'sent' && (
+                        {canEdit && invoice.status === 'sent' && (
                           <Button
                             variant="ghost"
                             size="icon"
@@ -711,7 +764,7 @@ export default function Invoices() {
                             <CheckCircle className="h-4 w-4 text-green-500" />
                           </Button>
                         )}
-                        {invoice.status === 'sent' && (
+                        {canEdit && invoice.status === 'sent' && (
                           <Button
                             variant="ghost"
                             size="icon"
@@ -826,6 +879,12 @@ export default function Invoices() {
               </div>
             </div>
 
+            <CurrencyFields
+              value={{ currencyCode: formData.currencyCode, exchangeRate: formData.exchangeRate }}
+              onChange={(currency) => setFormData(prev => ({ ...prev, ...currency }))}
+              disabled={!!editingInvoice}
+            />
+
             {/* Line Items */}
             <div className="space-y-2">
               <Label>Items</Label>
@@ -833,11 +892,13 @@ export default function Invoices() {
                 <Table>
                   <TableHeader>
                     <TableRow className="bg-muted/50">
+                      <TableHead className="w-[180px]">Item</TableHead>
                       <TableHead className="w-[250px]">Description *</TableHead>
                       <TableHead className="w-[100px]">HSN/SAC</TableHead>
                       <TableHead className="w-[80px]">Qty</TableHead>
                       <TableHead className="w-[120px]">Rate</TableHead>
                       <TableHead className="w-[80px]">GST %</TableHead>
+                      <TableHead className="w-[160px]">Cost Center</TableHead>
                       <TableHead className="w-[120px] text-right">Amount</TableHead>
                       <TableHead className="w-[50px]"></TableHead>
                     </TableRow>
@@ -845,6 +906,12 @@ export default function Invoices() {
                   <TableBody>
                     {lineItems.map((item, index) => (
                       <TableRow key={item.id}>
+                        <TableCell className="p-2">
+                          <ProductSelect
+                            value={item.productId}
+                            onSelect={(product) => selectLineProduct(index, product)}
+                          />
+                        </TableCell>
                         <TableCell className="p-2">
                           <Input
                             placeholder="Item description"
@@ -894,8 +961,14 @@ export default function Invoices() {
                             </SelectContent>
                           </Select>
                         </TableCell>
+                        <TableCell className="p-2">
+                          <CostCenterSelect
+                            value={item.costCenterId}
+                            onChange={(costCenterId) => updateLineItem(index, 'costCenterId', costCenterId || '')}
+                          />
+                        </TableCell>
                         <TableCell className="p-2 text-right font-medium">
-                          {formatCurrency(item.amount)}
+                          {formatCurrency(item.amount, documentCurrency)}
                         </TableCell>
                         <TableCell className="p-2">
                           {lineItems.length > 1 && (
@@ -936,19 +1009,19 @@ export default function Invoices() {
               <div className="w-72 space-y-2 bg-muted/30 p-4 rounded-lg">
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Subtotal</span>
-                  <span className="font-medium">{formatCurrency(subtotal)}</span>
+                  <span className="font-medium">{formatCurrency(subtotal, documentCurrency)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">CGST</span>
-                  <span>{formatCurrency(cgst)}</span>
+                  <span>{formatCurrency(cgst, documentCurrency)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">SGST</span>
-                  <span>{formatCurrency(sgst)}</span>
+                  <span>{formatCurrency(sgst, documentCurrency)}</span>
                 </div>
                 <div className="flex justify-between font-bold text-lg border-t pt-2 mt-2">
                   <span>Total</span>
-                  <span>{formatCurrency(total)}</span>
+                  <span>{formatCurrency(total, documentCurrency)}</span>
                 </div>
               </div>
             </div>
@@ -974,7 +1047,11 @@ export default function Invoices() {
                   invoiceDate: formData.invoiceDate,
                   dueDate: formData.dueDate,
                   notes: formData.notes,
+                  // The currency is fixed once the invoice is created
+                  ...(editingInvoice ? {} : currencyPayload(formData, baseCurrency)),
                   lines: lineItems.filter(item => item.description).map(item => ({
+                    productId: item.productId,
+                    costCenterId: item.costCenterId || undefined,
                     description: item.description,
                     hsnSacCode: item.hsnSac,
                     quantity: item.quantity,
@@ -1008,7 +1085,10 @@ export default function Invoices() {
                     invoiceDate: formData.invoiceDate,
                     dueDate: formData.dueDate,
                     notes: formData.notes,
+                    ...currencyPayload(formData, baseCurrency),
                     lines: lineItems.filter(item => item.description).map(item => ({
+                      productId: item.productId,
+                      costCenterId: item.costCenterId || undefined,
                       description: item.description,
                       hsnSacCode: item.hsnSac,
                       quantity: item.quantity,
@@ -1053,8 +1133,17 @@ export default function Invoices() {
                 </div>
               </div>
               <div className="border-t pt-4">
-                <div className="flex justify-between text-lg font-bold">
-                  <span>Total Amount</span>
+                {selectedInvoice.currencyCode && (
+                  <div className="flex justify-between text-lg font-bold">
+                    <span>Total ({selectedInvoice.currencyCode})</span>
+                    <span>{formatCurrency(parseFloat(selectedInvoice.totalAmountFcy || '0'), selectedInvoice.currencyCode)}</span>
+                  </div>
+                )}
+                <div className={selectedInvoice.currencyCode ? 'flex justify-between text-muted-foreground' : 'flex justify-between text-lg font-bold'}>
+                  <span>
+                    Total Amount
+                    {selectedInvoice.currencyCode && ` at ${selectedInvoice.exchangeRate}`}
+                  </span>
                   <span>{formatCurrency(parseFloat(selectedInvoice.totalAmount))}</span>
                 </div>
               </div>
@@ -12,6 +12,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { formatCurrency, formatDate } from '@/lib/utils';
+import { usePermissions } from '@/hooks/useAuth';
 import { cn } from '@/lib/utils';
 import { Plus, Search, Filter, FileText, Check, RotateCcw } from 'lucide-react';
 
@@ -27,13 +28,19 @@ const entryTypeLabels: Record<string, string> = {
   auto_invoice: 'Invoice',
   auto_payment: 'Payment',
   auto_expense: 'Expense',
+  auto_inventory: 'Inventory',
   recurring: 'Recurring',
   reversal: 'Reversal',
   bank_import: 'Bank Import',
   opening: 'Opening',
+  closing: 'Closing',
+  auto_depreciation: 'Depreciation',
+  auto_revaluation: 'Revaluation',
+  cost_allocation: 'Cost Allocation',
 };
 
 export default function JournalEntries() {
+  const { can } = usePermissions();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [typeFilter, setTypeFilter] = useState<string>('all');
@@ -76,12 +83,14 @@ export default function JournalEntries() {
           <h1 className="text-2xl font-bold">Journal Entries</h1>
           <p className="text-muted-foreground">Record and manage financial transactions</p>
         </div>
-        <Button asChild>
-          <Link to="/journal-entries/new">
-            <Plus className="h-4 w-4 mr-2" />
-            New Entry
-          </Link>
-        </Button>
+        {can('accounting', 'write') && (
+          <Button asChild>
+            <Link to="/journal-entries/new">
+              <Plus className="h-4 w-4 mr-2" />
+              New Entry
+            </Link>
+          </Button>
+        )}
       </div>
 
       {/* Summary Cards */}
@@ -169,6 +178,7 @@ export default function JournalEntries() {
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="pending_approval">Pending Approval</SelectItem>
                   <SelectItem value="posted">Posted</SelectItem>
                   <SelectItem value="reversed">Reversed</SelectItem>
                 </SelectContent>
@@ -182,6 +192,7 @@ export default function JournalEntries() {
                   <SelectItem value="manual">Manual</SelectItem>
                   <SelectItem value="auto_invoice">Invoice</SelectItem>
                   <SelectItem value="auto_payment">Payment</SelectItem>
+                  <SelectItem value="auto_inventory">Inventory</SelectItem>
                   <SelectItem value="recurring">Recurring</SelectItem>
                 </SelectContent>
               </Select>
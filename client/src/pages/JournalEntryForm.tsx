@@ -14,12 +14,14 @@ import {
 } from '@/components/ui/select';
 import { toast } from '@/hooks/useToast';
 import { formatCurrency } from '@/lib/utils';
+import CostCenterSelect from '@/components/accounting/CostCenterSelect';
 import { Plus, Trash2, Save, Check, ArrowLeft } from 'lucide-react';
 
 interface EntryLine {
   id?: string;
   accountId: string;
   accountName?: string;
+  costCenterId?: string;
   debitAmount: string;
   creditAmount: string;
   description: string;
@@ -114,6 +116,7 @@ export default function JournalEntryForm() {
           id: line.id,
           accountId: line.accountId,
           accountName: line.account?.name,
+          costCenterId: line.costCenterId || undefined,
           debitAmount: line.debitAmount !== '0' ? line.debitAmount : '',
           creditAmount: line.creditAmount !== '0' ? line.creditAmount : '',
           description: line.description || '',
@@ -137,6 +140,7 @@ export default function JournalEntryForm() {
           status: data.status,
           lines: data.lines.map((line) => ({
             accountId: line.accountId,
+            costCenterId: line.costCenterId || undefined,
             debitAmount: line.debitAmount || '0',
             creditAmount: line.creditAmount || '0',
             description: line.description,
@@ -151,9 +155,9 @@ export default function JournalEntryForm() {
       }
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (entry) => {
       queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
-      toast({ title: 'Entry saved successfully!' });
+      toast({ title: entry.status === 'pending_approval' ? 'Entry sent for approval' : 'Entry saved successfully!' });
       navigate('/journal-entries');
     },
     onError: (error: any) => {
@@ -239,6 +243,17 @@ export default function JournalEntryForm() {
         </div>
       </div>
 
+      {existingEntry?.status === 'pending_approval' && (
+        <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+          This entry is awaiting approval and will be posted once approved.
+        </div>
+      )}
+      {existingEntry?.status === 'draft' && existingEntry.approval?.status === 'rejected' && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          Rejected{existingEntry.approval.decidedBy ? ` by ${existingEntry.approval.decidedBy.firstName}` : ''}: {existingEntry.approval.comments}
+        </div>
+      )}
+
       <div className="grid gap-6 md:grid-cols-3">
         <Card className="md:col-span-2">
           <CardHeader>
@@ -331,8 +346,9 @@ export default function JournalEntryForm() {
           <table className="w-full">
             <thead className="border-b bg-muted/50">
               <tr>
-                <th className="py-2 pl-4 text-left text-sm font-medium w-[35%]">Account</th>
-                <th className="py-2 text-left text-sm font-medium w-[25%]">Description</th>
+                <th className="py-2 pl-4 text-left text-sm font-medium w-[30%]">Account</th>
+                <th className="py-2 text-left text-sm font-medium w-[15%]">Cost Center</th>
+                <th className="py-2 text-left text-sm font-medium w-[15%]">Description</th>
                 <th className="py-2 text-right text-sm font-medium w-[15%]">Debit</th>
                 <th className="py-2 text-right text-sm font-medium w-[15%]">Credit</th>
                 <th className="py-2 pr-4 text-center text-sm font-medium w-[10%]"></th>
@@ -360,6 +376,13 @@ export default function JournalEntryForm() {
                       </SelectContent>
                     </Select>
                   </td>
+                  <td className="py-2">
+                    <CostCenterSelect
+                      value={line.costCenterId}
+                      onChange={(costCenterId) => updateLine(index, 'costCenterId', costCenterId || '')}
+                      disabled={!canEdit}
+                    />
+                  </td>
                   <td className="py-2">
                     <Input
                       placeholder="Description"
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Printer } from 'lucide-react';
+import { cn, formatCurrency } from '@/lib/utils';
+import { useAuth } from '@/hooks/useAuth';
+
+interface NoteRow {
+  label: string;
+  values: (number | string | null)[];
+  indentLevel: number;
+  isBold: boolean;
+  isTotal: boolean;
+}
+
+interface StatementNote {
+  number: number;
+  code: string;
+  title: string;
+  lineItemCodes: string[];
+  columns: string[];
+  rows: NoteRow[];
+  footnotes: string[];
+}
+
+interface FiscalYear {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  isCurrent: boolean;
+}
+
+function NoteTable({ note }: { note: StatementNote }) {
+  return (
+    <Card id={`note-${note.number}`} className="break-inside-avoid">
+      <CardHeader className="border-b">
+        <CardTitle className="text-base">
+          Note {note.number}: {note.title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        {note.rows.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground">Nothing to disclose</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="py-2 px-4 text-left font-semibold">Particulars</th>
+                {note.columns.map((column) => (
+                  <th key={column} className="py-2 px-4 text-right font-semibold">{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {note.rows.map((row, index) => (
+                <tr
+                  key={index}
+                  className={cn(
+                    'border-b last:border-0',
+                    row.isTotal && 'bg-muted/30',
+                    (row.isBold || row.isTotal) && 'font-semibold'
+                  )}
+                >
+                  <td className="py-2 pr-4" style={{ paddingLeft: `${row.indentLevel * 1.5 + 1}rem` }}>
+                    {row.label}
+                  </td>
+                  {row.values.map((value, i) => (
+                    <td key={i} className={cn('py-2 px-4', typeof value === 'number' && 'text-right tabular-nums')}>
+                      {typeof value === 'number' ? (value !== 0 ? formatCurrency(value) : '-') : value}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {note.footnotes.length > 0 && (
+          <div className="px-4 py-3 space-y-1 border-t">
+            {note.footnotes.map((footnote) => (
+              <p key={footnote} className="text-xs italic text-muted-foreground">{footnote}</p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function NotesToAccounts() {
+  const { currentCompany } = useAuth();
+  const [selectedFiscalYear, setSelectedFiscalYear] = useState<string>('');
+  const [asOfDate, setAsOfDate] = useState('');
+
+  // Fetch fiscal years
+  const { data: fiscalYears } = useQuery<FiscalYear[]>({
+    queryKey: ['fiscal-years'],
+    queryFn: async () => {
+      const response = await fetch('/api/fiscal-years', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch fiscal years');
+      return response.json();
+    },
+  });
+
+  // Fetch notes
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['notes-to-accounts', selectedFiscalYear, asOfDate],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (selectedFiscalYear) params.append('fiscalYearId', selectedFiscalYear);
+      if (asOfDate) params.append('asOfDate', asOfDate);
+
+      const response = await fetch(`/api/financial-statements/notes?${params}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch notes to accounts');
+      return response.json();
+    },
+  });
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-muted-foreground">Failed to load notes to accounts</p>
+      </div>
+    );
+  }
+
+  const notes: StatementNote[] = data?.notes || [];
+
+  return (
+    <div className="space-y-6">
+      {/* Print Header - visible only when printing */}
+      <div className="hidden print:block print:text-center print:mb-6 print:border-b-2 print:border-black print:pb-4">
+        <h1 className="text-xl font-bold">{currentCompany?.name || 'Company Name'}</h1>
+        <h2 className="text-lg font-semibold mt-2">Notes to Accounts</h2>
+        {data?.asOfDate && (
+          <p className="text-sm text-gray-600">
+            For the period ended {new Date(data.asOfDate).toLocaleDateString('en-IN', { day: '2-digit', month: 'long', year: 'numeric' })}
+          </p>
+        )}
+      </div>
+
+      {/* Header */}
+      <div className="flex items-center justify-between no-print">
+        <div>
+          <h1 className="text-2xl font-bold">Notes to Accounts</h1>
+          <p className="text-muted-foreground">
+            Schedule III notes behind the balance sheet and profit and loss lines
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <Select value={selectedFiscalYear} onValueChange={setSelectedFiscalYear}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Current Fiscal Year" />
+            </SelectTrigger>
+            <SelectContent>
+              {fiscalYears?.map((fy) => (
+                <SelectItem key={fy.id} value={fy.id}>
+                  {fy.name} {fy.isCurrent && '(Current)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            value={asOfDate}
+            onChange={(e) => setAsOfDate(e.target.value)}
+            className="w-44"
+          />
+          <Button variant="outline" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {/* Index */}
+      {notes.length > 0 && (
+        <Card className="no-print">
+          <CardContent className="pt-4 flex flex-wrap gap-2">
+            {notes.map((note) => (
+              <a
+                key={note.number}
+                href={`#note-${note.number}`}
+                className="text-sm rounded border px-2 py-1 hover:bg-muted"
+              >
+                {note.number}. {note.title}
+              </a>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(6)].map((_, i) => (
+            <Skeleton key={i} className="h-32 w-full" />
+          ))}
+        </div>
+      ) : (
+        notes.map((note) => <NoteTable key={note.number} note={note} />)
+      )}
+    </div>
+  );
+}
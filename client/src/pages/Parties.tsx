@@ -41,6 +41,8 @@ export default function Parties() {
     pincode: '',
     creditLimit: '',
     paymentTerms: 30,
+    udyamNumber: '',
+    relatedPartyRelationship: '',
   });
 
   const { data, isLoading } = useQuery({
@@ -91,6 +93,8 @@ export default function Parties() {
         pincode: '',
         creditLimit: '',
         paymentTerms: 30,
+        udyamNumber: '',
+        relatedPartyRelationship: '',
       });
     },
     onError: (error: any) => {
@@ -326,6 +330,25 @@ export default function Parties() {
                     onChange={(e) => setFormData({ ...formData, creditLimit: e.target.value })}
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="udyamNumber">Udyam Registration No. (MSME)</Label>
+                  <Input
+                    id="udyamNumber"
+                    value={formData.udyamNumber}
+                    onChange={(e) => setFormData({ ...formData, udyamNumber: e.target.value.toUpperCase() })}
+                    placeholder="UDYAM-XX-00-0000000"
+                    maxLength={19}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="relatedPartyRelationship">Related Party Relationship</Label>
+                  <Input
+                    id="relatedPartyRelationship"
+                    value={formData.relatedPartyRelationship}
+                    onChange={(e) => setFormData({ ...formData, relatedPartyRelationship: e.target.value })}
+                    placeholder="e.g. Director, Subsidiary"
+                  />
+                </div>
               </div>
               <div className="flex gap-4">
                 <Button type="submit" disabled={createMutation.isPending}>
@@ -30,6 +30,7 @@ import {
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { formatCurrency } from '@/lib/utils';
+import CurrencyFields, { currencyPayload, useBaseCurrency } from '@/components/accounting/CurrencyFields';
 import {
   Wallet,
   Plus,
@@ -52,6 +53,8 @@ interface PaymentMade {
   billId?: string;
   billNumber?: string;
   amount: string;
+  currencyCode?: string | null;
+  amountFcy?: string | null;
   paymentMode: 'cash' | 'bank' | 'cheque' | 'upi' | 'card';
   referenceNumber?: string;
   paidFromAccountId?: string;
@@ -67,6 +70,7 @@ interface Vendor {
 interface Bill {
   id: string;
   billNumber: string;
+  currencyCode?: string | null;
   totalAmount: string;
   balanceAmount: string;
   status: string;
@@ -102,7 +106,10 @@ export default function PaymentsMade() {
     referenceNumber: '',
     paidFromAccountId: '',
     notes: '',
+    currencyCode: '',
+    exchangeRate: '',
   });
+  const baseCurrency = useBaseCurrency();
 
   // Fetch payments
   const { data: payments, isLoading } = useQuery<PaymentMade[]>({
@@ -159,11 +166,12 @@ export default function PaymentsMade() {
   // Create payment mutation
   const createPaymentMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
+      const { currencyCode, exchangeRate, ...payment } = data;
       const response = await fetch('/api/payments-made', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...payment, ...currencyPayload({ currencyCode, exchangeRate }, baseCurrency) }),
       });
       if (!response.ok) throw new Error('Failed to record payment');
       return response.json();
@@ -213,6 +221,8 @@ export default function PaymentsMade() {
       referenceNumber: '',
       paidFromAccountId: '',
       notes: '',
+      currencyCode: '',
+      exchangeRate: '',
     });
   };
 
@@ -410,7 +420,16 @@ export default function PaymentsMade() {
                       {payment.billNumber || '-'}
                     </TableCell>
                     <TableCell className="text-right font-medium">
-                      {formatCurrency(parseFloat(payment.amount))}
+                      {payment.currencyCode ? (
+                        <>
+                          {formatCurrency(parseFloat(payment.amountFcy || '0'), payment.currencyCode)}
+                          <div className="text-xs text-muted-foreground font-normal">
+                            {formatCurrency(parseFloat(payment.amount))}
+                          </div>
+                        </>
+                      ) : (
+                        formatCurrency(parseFloat(payment.amount))
+                      )}
                     </TableCell>
                     <TableCell>{getPaymentModeBadge(payment.paymentMode)}</TableCell>
                     <TableCell>{payment.paidFromAccountName || '-'}</TableCell>
@@ -473,6 +492,10 @@ export default function PaymentsMade() {
                 </SelectContent>
               </Select>
             </div>
+            <CurrencyFields
+              value={{ currencyCode: formData.currencyCode, exchangeRate: formData.exchangeRate }}
+              onChange={(currency) => setFormData({ ...formData, ...currency, billId: '' })}
+            />
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label>Payment Date</Label>
@@ -483,7 +506,7 @@ export default function PaymentsMade() {
                 />
               </div>
               <div className="space-y-2">
-                <Label>Amount</Label>
+                <Label>Amount ({formData.currencyCode || baseCurrency})</Label>
                 <Input
                   type="number"
                   placeholder="0.00"
@@ -503,7 +526,7 @@ export default function PaymentsMade() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="">No Bill</SelectItem>
-                  {bills?.map((bill) => (
+                  {bills?.filter(bill => (bill.currencyCode || '') === formData.currencyCode).map((bill) => (
                     <SelectItem key={bill.id} value={bill.id}>
                       {bill.billNumber} - Balance: {formatCurrency(parseFloat(bill.balanceAmount))}
                     </SelectItem>
@@ -30,6 +30,7 @@ import {
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { formatCurrency } from '@/lib/utils';
+import CurrencyFields, { currencyPayload, useBaseCurrency } from '@/components/accounting/CurrencyFields';
 import {
   Wallet,
   Plus,
@@ -52,6 +53,8 @@ interface PaymentReceived {
   invoiceId?: string;
   invoiceNumber?: string;
   amount: string;
+  currencyCode?: string | null;
+  amountFcy?: string | null;
   paymentMode: 'cash' | 'bank' | 'cheque' | 'upi' | 'card';
   referenceNumber?: string;
   depositAccountId?: string;
@@ -67,6 +70,7 @@ interface Customer {
 interface Invoice {
   id: string;
   invoiceNumber: string;
+  currencyCode?: string | null;
   totalAmount: string;
   status: string;
 }
@@ -101,7 +105,10 @@ export default function PaymentsReceived() {
     referenceNumber: '',
     depositAccountId: '',
     notes: '',
+    currencyCode: '',
+    exchangeRate: '',
   });
+  const baseCurrency = useBaseCurrency();
 
   // Fetch payments
   const { data: payments, isLoading } = useQuery<PaymentReceived[]>({
@@ -158,11 +165,12 @@ export default function PaymentsReceived() {
   // Create payment mutation
   const createPaymentMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
+      const { currencyCode, exchangeRate, ...payment } = data;
       const response = await fetch('/api/payments-received', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...payment, ...currencyPayload({ currencyCode, exchangeRate }, baseCurrency) }),
       });
       if (!response.ok) throw new Error('Failed to record payment');
       return response.json();
@@ -212,6 +220,8 @@ export default function PaymentsReceived() {
       referenceNumber: '',
       depositAccountId: '',
       notes: '',
+      currencyCode: '',
+      exchangeRate: '',
     });
   };
 
@@ -409,7 +419,16 @@ export default function PaymentsReceived() {
                       {payment.invoiceNumber || '-'}
                     </TableCell>
                     <TableCell className="text-right font-medium">
-                      {formatCurrency(parseFloat(payment.amount))}
+                      {payment.currencyCode ? (
+                        <>
+                          {formatCurrency(parseFloat(payment.amountFcy || '0'), payment.currencyCode)}
+                          <div className="text-xs text-muted-foreground font-normal">
+                            {formatCurrency(parseFloat(payment.amount))}
+                          </div>
+                        </>
+                      ) : (
+                        formatCurrency(parseFloat(payment.amount))
+                      )}
                     </TableCell>
                     <TableCell>{getPaymentModeBadge(payment.paymentMode)}</TableCell>
                     <TableCell>{payment.depositAccountName || '-'}</TableCell>
@@ -472,6 +491,10 @@ export default function PaymentsReceived() {
                 </SelectContent>
               </Select>
             </div>
+            <CurrencyFields
+              value={{ currencyCode: formData.currencyCode, exchangeRate: formData.exchangeRate }}
+              onChange={(currency) => setFormData({ ...formData, ...currency, invoiceId: '' })}
+            />
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label>Payment Date</Label>
@@ -482,7 +505,7 @@ export default function PaymentsReceived() {
                 />
               </div>
               <div className="space-y-2">
-                <Label>Amount</Label>
+                <Label>Amount ({formData.currencyCode || baseCurrency})</Label>
                 <Input
                   type="number"
                   placeholder="0.00"
@@ -502,7 +525,7 @@ export default function PaymentsReceived() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="">No Invoice</SelectItem>
-                  {invoices?.map((invoice) => (
+                  {invoices?.filter(invoice => (invoice.currencyCode || '') === formData.currencyCode).map((invoice) => (
                     <SelectItem key={invoice.id} value={invoice.id}>
                       {invoice.invoiceNumber} - {formatCurrency(parseFloat(invoice.totalAmount))}
                     </SelectItem>
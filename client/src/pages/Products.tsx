@@ -60,6 +60,31 @@ interface Product {
   isActive: boolean;
 }
 
+interface StockMovement {
+  id: string;
+  movementDate: string;
+  movementType: string;
+  direction: 'in' | 'out';
+  quantity: string;
+  sourceNumber?: string;
+  reversalOfId?: string;
+  balance: number;
+}
+
+interface StockRegister {
+  opening: number;
+  closing: number;
+  movements: StockMovement[];
+}
+
+const movementLabels: Record<string, string> = {
+  purchase: 'Purchase',
+  sale: 'Sale',
+  sales_return: 'Sales Return',
+  purchase_return: 'Purchase Return',
+  adjustment: 'Adjustment',
+};
+
 const itemTypes = [
   { value: 'product', label: 'Product', icon: Box },
   { value: 'service', label: 'Service', icon: Wrench },
@@ -105,6 +130,7 @@ export default function Products() {
     unit: 'nos',
     trackInventory: false,
     reorderLevel: '',
+    openingStock: '',
   });
 
   // Fetch products
@@ -121,6 +147,19 @@ export default function Products() {
     },
   });
 
+  // Stock movement register of the item being viewed
+  const { data: stockRegister, isLoading: stockLoading } = useQuery<StockRegister>({
+    queryKey: ['products', selectedProduct?.id, 'stock-movements'],
+    queryFn: async () => {
+      const response = await fetch(`/api/products/${selectedProduct!.id}/stock-movements`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch stock movements');
+      return response.json();
+    },
+    enabled: !!selectedProduct?.trackInventory,
+  });
+
   // Create product mutation
   const createProductMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
@@ -176,6 +215,7 @@ export default function Products() {
       unit: 'nos',
       trackInventory: false,
       reorderLevel: '',
+      openingStock: '',
     });
   };
 
@@ -525,6 +565,17 @@ export default function Products() {
                   </SelectContent>
                 </Select>
               </div>
+              {formData.type === 'product' && formData.trackInventory && (
+                <div className="space-y-2">
+                  <Label>Opening Stock</Label>
+                  <Input
+                    type="number"
+                    placeholder="0"
+                    value={formData.openingStock}
+                    onChange={(e) => setFormData({ ...formData, openingStock: e.target.value })}
+                  />
+                </div>
+              )}
               {formData.type === 'product' && formData.trackInventory && (
                 <div className="space-y-2">
                   <Label>Reorder Level</Label>
@@ -564,7 +615,7 @@ export default function Products() {
 
       {/* View Item Dialog */}
       <Dialog open={!!selectedProduct} onOpenChange={() => setSelectedProduct(null)}>
-        <DialogContent>
+        <DialogContent className="max-w-2xl">
           <DialogHeader>
             <DialogTitle>{selectedProduct?.name}</DialogTitle>
           </DialogHeader>
@@ -614,6 +665,50 @@ export default function Products() {
                   <p>{selectedProduct.description}</p>
                 </div>
               )}
+              {selectedProduct.trackInventory && (
+                <div className="space-y-2">
+                  <Label className="text-muted-foreground">Stock Movements</Label>
+                  {stockLoading ? (
+                    <Skeleton className="h-24 w-full" />
+                  ) : !stockRegister?.movements.length ? (
+                    <p className="text-sm text-muted-foreground">No stock movements yet</p>
+                  ) : (
+                    <div className="max-h-64 overflow-y-auto border rounded-lg">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Date</TableHead>
+                            <TableHead>Type</TableHead>
+                            <TableHead>Document</TableHead>
+                            <TableHead className="text-right">In</TableHead>
+                            <TableHead className="text-right">Out</TableHead>
+                            <TableHead className="text-right">Balance</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {stockRegister.movements.map((movement) => (
+                            <TableRow key={movement.id}>
+                              <TableCell>{new Date(movement.movementDate).toLocaleDateString()}</TableCell>
+                              <TableCell>
+                                {movementLabels[movement.movementType] || movement.movementType}
+                                {movement.reversalOfId && ' (reversal)'}
+                              </TableCell>
+                              <TableCell className="font-mono text-xs">{movement.sourceNumber || '-'}</TableCell>
+                              <TableCell className="text-right">
+                                {movement.direction === 'in' ? parseFloat(movement.quantity) : ''}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {movement.direction === 'out' ? parseFloat(movement.quantity) : ''}
+                              </TableCell>
+                              <TableCell className="text-right font-medium">{movement.balance}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           )}
           <DialogFooter>
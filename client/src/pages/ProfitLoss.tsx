@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,7 +13,7 @@ import {
 } from '@/components/ui/select';
 import { formatCurrency } from '@/lib/utils';
 import { cn } from '@/lib/utils';
-import { Download, Calendar, ChevronRight, ChevronDown, TrendingUp, TrendingDown } from 'lucide-react';
+import { Download, Calendar, ChevronRight, ChevronDown, ClipboardList, TrendingUp, TrendingDown } from 'lucide-react';
 
 interface LineItem {
   code: string;
@@ -216,10 +217,18 @@ export default function ProfitLoss() {
           <h1 className="text-2xl font-bold">Profit & Loss Statement</h1>
           <p className="text-muted-foreground">Statement of income and expenditure</p>
         </div>
-        <Button onClick={handleExport}>
-          <Download className="h-4 w-4 mr-2" />
-          Export Excel
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link to="/notes-to-accounts">
+              <ClipboardList className="h-4 w-4 mr-2" />
+              Notes to Accounts
+            </Link>
+          </Button>
+          <Button onClick={handleExport}>
+            <Download className="h-4 w-4 mr-2" />
+            Export Excel
+          </Button>
+        </div>
       </div>
 
       {/* KPI Summary */}
@@ -12,7 +12,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { toast } from '@/hooks/useToast';
-import { useAuth } from '@/hooks/useAuth';
+import { useAuth, usePermissions } from '@/hooks/useAuth';
 import {
   Building2,
   User,
@@ -26,20 +26,24 @@ import {
   DollarSign,
   Palette,
   ExternalLink,
+  Hash,
 } from 'lucide-react';
 import { Link as RouterLink } from 'react-router-dom';
 import { GstinInput } from '@/components/ui/gstin-input';
 import { getShortAddress, type GstinDetails } from '@/lib/gst-utils';
 import CurrencySettings from '@/components/accounting/CurrencySettings';
 import LogoUpload from '@/components/settings/LogoUpload';
+import YearEndCloseDialog from '@/components/settings/YearEndCloseDialog';
+import NumberingSeriesSettings from '@/components/settings/NumberingSeriesSettings';
 import { TemplateGrid } from '@/components/document/TemplatePreview';
 import { TemplateId } from '@/lib/document-templates/types';
 
-type SettingsTab = 'company' | 'branding' | 'profile' | 'fiscal-years' | 'currencies' | 'gst' | 'tds' | 'integration';
+type SettingsTab = 'company' | 'branding' | 'profile' | 'fiscal-years' | 'numbering' | 'currencies' | 'gst' | 'tds' | 'integration';
 
 export default function Settings() {
   const queryClient = useQueryClient();
   const { user, currentCompany } = useAuth();
+  const { can } = usePermissions();
   const [activeTab, setActiveTab] = useState<SettingsTab>('company');
 
   // Company settings
@@ -55,6 +59,7 @@ export default function Settings() {
     state: currentCompany?.state || '',
     pincode: currentCompany?.pincode || '',
     gaapStandard: currentCompany?.gaapStandard || 'INDIA_GAAP',
+    inventoryValuationMethod: currentCompany?.inventoryValuationMethod || 'weighted_average',
   });
 
   // Profile settings
@@ -66,6 +71,7 @@ export default function Settings() {
   });
 
   // Fiscal years
+  const [closingYear, setClosingYear] = useState<{ id: string; name: string } | null>(null);
   const { data: fiscalYears, isLoading: fyLoading } = useQuery({
     queryKey: ['fiscal-years-settings'],
     queryFn: async () => {
@@ -145,6 +151,48 @@ export default function Settings() {
     },
   });
 
+  const lockFiscalYearMutation = useMutation({
+    mutationFn: async ({ id, lock }: { id: string; lock: boolean }) => {
+      const response = await fetch(`/api/companies/${currentCompany?.id}/fiscal-years/${id}/${lock ? 'lock' : 'unlock'}`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update fiscal year');
+      }
+      return response.json();
+    },
+    onSuccess: (_, { lock }) => {
+      queryClient.invalidateQueries({ queryKey: ['fiscal-years-settings'] });
+      toast({ title: lock ? 'Fiscal year locked' : 'Fiscal year unlocked' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Update failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const reopenFiscalYearMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/companies/${currentCompany?.id}/fiscal-years/${id}/reopen`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to reopen fiscal year');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['fiscal-years-settings'] });
+      toast({ title: 'Fiscal year reopened', description: 'Closing and opening entries were removed' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Reopen failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
   const updateProfileMutation = useMutation({
     mutationFn: async (data: typeof profileData) => {
       const response = await fetch('/api/auth/profile', {
@@ -221,6 +269,7 @@ export default function Settings() {
     { id: 'branding' as SettingsTab, label: 'Branding', icon: Palette },
     { id: 'profile' as SettingsTab, label: 'Profile', icon: User },
     { id: 'fiscal-years' as SettingsTab, label: 'Fiscal Years', icon: Calendar },
+    { id: 'numbering' as SettingsTab, label: 'Numbering', icon: Hash },
     { id: 'currencies' as SettingsTab, label: 'Currencies', icon: DollarSign },
     { id: 'gst' as SettingsTab, label: 'GST Settings', icon: FileText },
     { id: 'tds' as SettingsTab, label: 'TDS Settings', icon: Shield },
@@ -389,11 +438,28 @@ export default function Settings() {
                         </SelectContent>
                       </Select>
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="inventoryValuationMethod">Inventory Valuation</Label>
+                      <Select
+                        value={companyData.inventoryValuationMethod}
+                        onValueChange={(value) => setCompanyData({ ...companyData, inventoryValuationMethod: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="weighted_average">Weighted Average</SelectItem>
+                          <SelectItem value="fifo">FIFO</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
-                  <Button type="submit" disabled={updateCompanyMutation.isPending}>
-                    <Save className="h-4 w-4 mr-2" />
-                    {updateCompanyMutation.isPending ? 'Saving...' : 'Save Changes'}
-                  </Button>
+                  {can('settings', 'write') && (
+                    <Button type="submit" disabled={updateCompanyMutation.isPending}>
+                      <Save className="h-4 w-4 mr-2" />
+                      {updateCompanyMutation.isPending ? 'Saving...' : 'Save Changes'}
+                    </Button>
+                  )}
                 </form>
               </CardContent>
             </Card>
@@ -532,10 +598,12 @@ export default function Settings() {
                   <CardTitle>Fiscal Years</CardTitle>
                   <CardDescription>Manage accounting periods</CardDescription>
                 </div>
-                <Button>
-                  <Calendar className="h-4 w-4 mr-2" />
-                  Add Fiscal Year
-                </Button>
+                {can('accounting', 'write') && (
+                  <Button>
+                    <Calendar className="h-4 w-4 mr-2" />
+                    Add Fiscal Year
+                  </Button>
+                )}
               </CardHeader>
               <CardContent>
                 {fyLoading ? (
@@ -564,6 +632,10 @@ export default function Settings() {
                               <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-700">
                                 Current
                               </span>
+                            ) : fy.isClosed ? (
+                              <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                                Closed
+                              </span>
                             ) : fy.isLocked ? (
                               <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
                                 Locked
@@ -575,19 +647,54 @@ export default function Settings() {
                             )}
                           </td>
                           <td className="py-3 text-right">
-                            <Button variant="ghost" size="sm">
-                              {fy.isLocked ? 'Unlock' : 'Lock'}
-                            </Button>
+                            {can('periods', 'write') && (fy.isClosed ? (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => reopenFiscalYearMutation.mutate(fy.id)}
+                                disabled={reopenFiscalYearMutation.isPending}
+                              >
+                                Reopen
+                              </Button>
+                            ) : (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => lockFiscalYearMutation.mutate({ id: fy.id, lock: !fy.isLocked })}
+                                  disabled={lockFiscalYearMutation.isPending}
+                                >
+                                  {fy.isLocked ? 'Unlock' : 'Lock'}
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setClosingYear({ id: fy.id, name: fy.name })}
+                                >
+                                  Close Year
+                                </Button>
+                              </>
+                            ))}
                           </td>
                         </tr>
                       ))}
                     </tbody>
                   </table>
                 )}
+                {currentCompany?.id && (
+                  <YearEndCloseDialog
+                    companyId={currentCompany.id}
+                    fiscalYear={closingYear}
+                    onOpenChange={(open) => !open && setClosingYear(null)}
+                  />
+                )}
               </CardContent>
             </Card>
           )}
 
+          {/* Document Numbering */}
+          {activeTab === 'numbering' && <NumberingSeriesSettings />}
+
           {/* Currency Settings */}
           {activeTab === 'currencies' && <CurrencySettings />}
 
@@ -692,10 +799,12 @@ export default function Settings() {
                       />
                     </div>
                   </div>
-                  <Button type="submit" disabled={updateGstMutation.isPending}>
-                    <Save className="h-4 w-4 mr-2" />
-                    {updateGstMutation.isPending ? 'Saving...' : 'Save GST Settings'}
-                  </Button>
+                  {can('settings', 'write') && (
+                    <Button type="submit" disabled={updateGstMutation.isPending}>
+                      <Save className="h-4 w-4 mr-2" />
+                      {updateGstMutation.isPending ? 'Saving...' : 'Save GST Settings'}
+                    </Button>
+                  )}
                 </form>
               </CardContent>
             </Card>
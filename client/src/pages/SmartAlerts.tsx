@@ -33,6 +33,9 @@ import {
   FileText,
   Settings,
   BellOff,
+  Package,
+  Target,
+  CalendarClock,
 } from 'lucide-react';
 
 interface SmartAlert {
@@ -191,6 +194,12 @@ export default function SmartAlerts() {
         return <Receipt className="w-4 h-4" />;
       case 'expense_limit':
         return <DollarSign className="w-4 h-4" />;
+      case 'low_stock':
+        return <Package className="w-4 h-4" />;
+      case 'budget_overrun':
+        return <Target className="w-4 h-4" />;
+      case 'pdc_due':
+        return <CalendarClock className="w-4 h-4" />;
       default:
         return <FileText className="w-4 h-4" />;
     }
@@ -29,6 +29,7 @@ import {
 } from '@/components/ui/dialog';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/useToast';
+import { usePermissions } from '@/hooks/useAuth';
 import {
   Users,
   UserPlus,
@@ -69,6 +70,8 @@ const roles = [
 
 export default function UserManagement() {
   const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManageUsers = can('users', 'write');
   const queryClient = useQueryClient();
   const [showInviteDialog, setShowInviteDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
@@ -209,10 +212,12 @@ export default function UserManagement() {
             Manage team members and their access to this company
           </p>
         </div>
-        <Button onClick={() => setShowInviteDialog(true)}>
-          <UserPlus className="h-4 w-4 mr-2" />
-          Invite User
-        </Button>
+        {canManageUsers && (
+          <Button onClick={() => setShowInviteDialog(true)}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Invite User
+          </Button>
+        )}
       </div>
 
       {/* Stats */}
@@ -324,7 +329,7 @@ export default function UserManagement() {
                       {new Date(user.createdAt).toLocaleDateString()}
                     </TableCell>
                     <TableCell>
-                      {user.role !== 'owner' && (
+                      {canManageUsers && user.role !== 'owner' && (
                         <div className="flex items-center gap-2">
                           <Button
                             variant="ghost"
@@ -400,13 +405,15 @@ export default function UserManagement() {
                       {new Date(invite.expiresAt).toLocaleDateString()}
                     </TableCell>
                     <TableCell>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => cancelInviteMutation.mutate(invite.id)}
-                      >
-                        <Trash2 className="h-4 w-4 text-red-500" />
-                      </Button>
+                      {canManageUsers && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => cancelInviteMutation.mutate(invite.id)}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
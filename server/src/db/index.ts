@@ -9,3 +9,14 @@ const pool = new Pool({
 });
 
 export const db = drizzle(pool, { schema });
+
+// Database handle or an open transaction
+export type DbClient = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Runs the work in a transaction of its own, or inside the caller's when
+ * passed one
+ */
+export function withTransaction<T>(client: DbClient, work: (tx: DbClient) => Promise<T>): Promise<T> {
+  return client === db ? db.transaction(work) : work(client);
+}
@@ -0,0 +1,36 @@
+import { db } from './index';
+import { companies } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { rebuildPeriodBalances, checkPeriodBalances } from '../services/ledger';
+
+// Usage: npm run db:rebuild-balances [companyId]
+async function rebuild() {
+  const companyId = process.argv[2];
+  const targets = await db.select({ id: companies.id, name: companies.name })
+    .from(companies)
+    .where(companyId ? eq(companies.id, companyId) : undefined);
+
+  if (targets.length === 0) {
+    console.log('No companies found');
+    return;
+  }
+
+  let mismatched = 0;
+  for (const company of targets) {
+    const { periods } = await rebuildPeriodBalances(company.id);
+    const mismatches = await checkPeriodBalances(company.id);
+    mismatched += mismatches.length;
+
+    console.log(`${company.name}: ${periods} months rebuilt${mismatches.length ? `, ${mismatches.length} still differ` : ''}`);
+  }
+
+  console.log(mismatched ? 'Rebuild finished with differences' : 'Rebuild complete!');
+  process.exitCode = mismatched ? 1 : 0;
+}
+
+rebuild()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
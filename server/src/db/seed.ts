@@ -39,6 +39,7 @@ const commonAssets = [
   { code: '1212', name: 'Work-in-Progress', type: 'asset', level: 4, parent: '1210' },
   { code: '1213', name: 'Finished Goods', type: 'asset', level: 4, parent: '1210' },
   { code: '1214', name: 'Stores and Spares', type: 'asset', level: 4, parent: '1210' },
+  { code: '1215', name: 'Stock-in-Trade', type: 'asset', level: 4, parent: '1210' },
   { code: '1220', name: 'Current Investments', type: 'asset', isGroup: true, level: 3, parent: '1200', scheduleIII: 'BS_ASSET_CA_INVESTMENTS' },
   { code: '1230', name: 'Trade Receivables', type: 'asset', level: 3, parent: '1200', scheduleIII: 'BS_ASSET_CA_RECEIVABLES' },
   { code: '1240', name: 'Cash and Cash Equivalents', type: 'asset', isGroup: true, level: 3, parent: '1200', scheduleIII: 'BS_ASSET_CA_CASH' },
@@ -109,6 +110,7 @@ const commonExpenses = [
   { code: '5110', name: 'Raw Material Consumed', type: 'expense', level: 3, parent: '5100' },
   { code: '5120', name: 'Consumables', type: 'expense', level: 3, parent: '5100' },
   { code: '5200', name: 'Purchases of Stock-in-Trade', type: 'expense', level: 2, parent: '5000', scheduleIII: 'PL_PURCHASES' },
+  { code: '5250', name: 'Changes in Inventories', type: 'expense', level: 2, parent: '5000', scheduleIII: 'PL_INVENTORY_CHANGE' },
   { code: '5300', name: 'Employee Benefits Expense', type: 'expense', isGroup: true, level: 2, parent: '5000', scheduleIII: 'PL_EMPLOYEE_BENEFITS' },
   { code: '5310', name: 'Salaries and Wages', type: 'expense', level: 3, parent: '5300' },
   { code: '5320', name: 'Contribution to PF/ESI', type: 'expense', level: 3, parent: '5300' },
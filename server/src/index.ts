@@ -7,6 +7,16 @@ import { fileURLToPath } from 'url';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import { sanitizeInput } from './middleware/sanitize';
+import { auditTrail } from './middleware/auditTrail';
+import { requirePermission } from './middleware/auth';
+import { startScheduler, JOBS } from './services/jobs';
+import {
+  chartOfAccounts, journalEntries, parties, gstConfig, gstr1Entries, itcRegister, gstPayments,
+  journalEntryLines, tdsDeductions, tdsChallans, form26asEntries, invoices, invoiceLines, expenses,
+  creditNotes, creditNoteLines, bills, billLines, debitNotes, debitNoteLines, paymentsReceived, paymentsMade,
+  fixedAssets, depreciationRuns, incomeTaxAssetBlocks, currencyRevaluations,
+  costAllocationRules, budgets, approvalPolicies, cheques, chequeBooks, chequeLayouts,
+} from '@shared/schema';
 
 // Import routes
 import authRoutes from './routes/auth';
@@ -43,6 +53,13 @@ import paymentsReceivedRoutes from './routes/paymentsReceived';
 import paymentsMadeRoutes from './routes/paymentsMade';
 import bankReconciliationRoutes from './routes/bankReconciliation';
 import documentTemplatesRoutes from './routes/documentTemplates';
+import numberingSeriesRoutes from './routes/numberingSeries';
+import fixedAssetsRoutes from './routes/fixedAssets';
+import currencyRevaluationsRoutes from './routes/currencyRevaluations';
+import costAllocationsRoutes from './routes/costAllocations';
+import budgetsRoutes from './routes/budgets';
+import approvalsRoutes from './routes/approvals';
+import chequesRoutes from './routes/cheques';
 
 // Multi-tenancy routes
 import adminRoutes from './routes/admin';
@@ -139,42 +156,69 @@ app.use(
 );
 
 // API Routes
+// Company routes are guarded by the role permission matrix (shared/permissions.ts)
 // Apply strict rate limiting to login endpoint
 app.use('/api/auth/login', authLimiter);
 app.use('/api/auth', authRoutes);
 app.use('/api/companies', companiesRoutes);
-app.use('/api/chart-of-accounts', chartOfAccountsRoutes);
-app.use('/api/journal-entries', journalEntriesRoutes);
-app.use('/api/trial-balance', trialBalanceRoutes);
-app.use('/api/financial-statements', financialStatementsRoutes);
-app.use('/api/parties', partiesRoutes);
-app.use('/api/gst', gstRoutes);
-app.use('/api/tds', tdsRoutes);
-app.use('/api/dashboard', dashboardRoutes);
-app.use('/api/assistant', assistantRoutes);
-app.use('/api/pm-integration', pmIntegrationRoutes);
-app.use('/api/bank-import', bankImportRoutes);
-app.use('/api/recurring-entries', recurringEntriesRoutes);
-app.use('/api/aging', agingReportsRoutes);
-app.use('/api/currencies', currenciesRoutes);
-app.use('/api/audit-log', auditLogRoutes);
-app.use('/api/coa-import', coaImportRoutes);
-app.use('/api/users', userManagementRoutes);
-app.use('/api/invoices', invoicesRoutes);
-app.use('/api/expenses', expensesRoutes);
-app.use('/api/products', productsRoutes);
-app.use('/api/bank-accounts', bankAccountsRoutes);
-app.use('/api/cost-centers', costCentersRoutes);
-app.use('/api/quotes', quotesRoutes);
-app.use('/api/sales-orders', salesOrdersRoutes);
-app.use('/api/credit-notes', creditNotesRoutes);
-app.use('/api/bills', billsRoutes);
-app.use('/api/purchase-orders', purchaseOrdersRoutes);
-app.use('/api/debit-notes', debitNotesRoutes);
-app.use('/api/payments-received', paymentsReceivedRoutes);
-app.use('/api/payments-made', paymentsMadeRoutes);
-app.use('/api/bank-reconciliation', bankReconciliationRoutes);
-app.use('/api/document-templates', documentTemplatesRoutes);
+app.use('/api/chart-of-accounts', requirePermission('accounting'), auditTrail([{ path: '', entityType: 'chart_of_accounts', table: chartOfAccounts }]), chartOfAccountsRoutes);
+app.use('/api/journal-entries', requirePermission('accounting'), auditTrail([{ path: '', entityType: 'journal_entry', table: journalEntries, lines: { table: journalEntryLines, foreignKey: 'journalEntryId' } }]), journalEntriesRoutes);
+app.use('/api/trial-balance', requirePermission('reports'), trialBalanceRoutes);
+app.use('/api/financial-statements', requirePermission('reports'), financialStatementsRoutes);
+app.use('/api/parties', requirePermission('accounting'), auditTrail([{ path: '', entityType: 'party', table: parties }]), partiesRoutes);
+app.use('/api/gst', requirePermission('accounting'), auditTrail([
+  { path: '/config', entityType: 'gst_config', table: gstConfig },
+  { path: '/gstr1', entityType: 'gstr1_entry', table: gstr1Entries },
+  { path: '/itc', entityType: 'itc_entry', table: itcRegister },
+  { path: '/payments', entityType: 'gst_payment', table: gstPayments },
+  { path: '/einvoice', entityType: 'einvoice' },
+  { path: '/ewaybill', entityType: 'ewaybill' },
+]), gstRoutes);
+app.use('/api/tds', requirePermission('accounting'), auditTrail([
+  { path: '/deductions', entityType: 'tds_deduction', table: tdsDeductions },
+  { path: '/challans', entityType: 'tds_challan', table: tdsChallans },
+  { path: '/form26as', entityType: 'form26as_entry', table: form26asEntries },
+]), tdsRoutes);
+app.use('/api/dashboard', requirePermission('reports'), dashboardRoutes);
+app.use('/api/assistant', requirePermission('accounting', { readOnlyPaths: [/^\/chat$/] }), assistantRoutes);
+app.use('/api/pm-integration', requirePermission('settings'), pmIntegrationRoutes);
+app.use('/api/bank-import', requirePermission('accounting'), bankImportRoutes);
+app.use('/api/recurring-entries', requirePermission('accounting'), recurringEntriesRoutes);
+app.use('/api/aging', requirePermission('reports'), agingReportsRoutes);
+app.use('/api/currencies', requirePermission('settings'), currenciesRoutes);
+app.use('/api/audit-log', requirePermission('audit'), auditLogRoutes);
+app.use('/api/coa-import', requirePermission('accounting'), coaImportRoutes);
+app.use('/api/users', requirePermission('users', { exemptPaths: [/^\/accept-invitation$/] }), userManagementRoutes);
+app.use('/api/invoices', requirePermission('accounting'), auditTrail([{ path: '', entityType: 'invoice', table: invoices, lines: { table: invoiceLines, foreignKey: 'invoiceId' } }]), invoicesRoutes);
+app.use('/api/expenses', requirePermission('accounting'), auditTrail([{ path: '', entityType: 'expense', table: expenses }]), expensesRoutes);
+app.use('/api/products', requirePermission('accounting'), productsRoutes);
+app.use('/api/bank-accounts', requirePermission('accounting'), bankAccountsRoutes);
+app.use('/api/cost-centers', requirePermission('accounting'), costCentersRoutes);
+app.use('/api/quotes', requirePermission('accounting'), quotesRoutes);
+app.use('/api/sales-orders', requirePermission('accounting'), salesOrdersRoutes);
+app.use('/api/credit-notes', requirePermission('accounting'), auditTrail([{ path: '', entityType: 'credit_note', table: creditNotes, lines: { table: creditNoteLines, foreignKey: 'creditNoteId' } }]), creditNotesRoutes);
+app.use('/api/bills', requirePermission('accounting'), auditTrail([{ path: '', entityType: 'bill', table: bills, lines: { table: billLines, foreignKey: 'billId' } }]), billsRoutes);
+app.use('/api/purchase-orders', requirePermission('accounting'), purchaseOrdersRoutes);
+app.use('/api/debit-notes', requirePermission('accounting'), auditTrail([{ path: '', entityType: 'debit_note', table: debitNotes, lines: { table: debitNoteLines, foreignKey: 'debitNoteId' } }]), debitNotesRoutes);
+app.use('/api/payments-received', requirePermission('accounting'), auditTrail([{ path: '', entityType: 'payment_received', table: paymentsReceived }]), paymentsReceivedRoutes);
+app.use('/api/payments-made', requirePermission('accounting'), auditTrail([{ path: '', entityType: 'payment_made', table: paymentsMade }]), paymentsMadeRoutes);
+app.use('/api/bank-reconciliation', requirePermission('accounting'), bankReconciliationRoutes);
+app.use('/api/document-templates', requirePermission('settings'), documentTemplatesRoutes);
+app.use('/api/numbering-series', requirePermission('settings'), numberingSeriesRoutes);
+app.use('/api/fixed-assets', requirePermission('accounting'), auditTrail([
+  { path: '', entityType: 'fixed_asset', table: fixedAssets },
+  { path: '/depreciation-runs', entityType: 'depreciation_run', table: depreciationRuns },
+  { path: '/it-blocks', entityType: 'income_tax_asset_block', table: incomeTaxAssetBlocks },
+]), fixedAssetsRoutes);
+app.use('/api/currency-revaluations', requirePermission('accounting'), auditTrail([{ path: '', entityType: 'currency_revaluation', table: currencyRevaluations }]), currencyRevaluationsRoutes);
+app.use('/api/cost-allocations', requirePermission('accounting'), auditTrail([{ path: '', entityType: 'cost_allocation_rule', table: costAllocationRules }]), costAllocationsRoutes);
+app.use('/api/budgets', requirePermission('accounting'), auditTrail([{ path: '', entityType: 'budget', table: budgets }]), budgetsRoutes);
+app.use('/api/approvals', requirePermission('accounting'), auditTrail([{ path: '/policies', entityType: 'approval_policy', table: approvalPolicies }]), approvalsRoutes);
+app.use('/api/cheques', requirePermission('accounting'), auditTrail([
+  { path: '', entityType: 'cheque', table: cheques },
+  { path: '/books', entityType: 'cheque_book', table: chequeBooks },
+  { path: '/layouts', entityType: 'cheque_layout', table: chequeLayouts },
+]), chequesRoutes);
 
 // Multi-tenancy routes
 app.use('/api/admin', adminRoutes);
@@ -182,14 +226,14 @@ app.use('/api/partner', partnerRoutes);
 app.use('/api/tenant', tenantRoutes);
 
 // Smart features routes
-app.use('/api/bank-feeds', bankFeedsRoutes);
-app.use('/api/document-scan', documentScanRoutes);
-app.use('/api/recurring-invoices', recurringInvoicesRoutes);
-app.use('/api/payment-gateway', paymentGatewayRoutes);
-app.use('/api/analytics', analyticsRoutes);
-app.use('/api/alerts', alertsRoutes);
-app.use('/api/voice', voiceRoutes);
-app.use('/api/integrations', integrationsRoutes);
+app.use('/api/bank-feeds', requirePermission('accounting'), bankFeedsRoutes);
+app.use('/api/document-scan', requirePermission('accounting'), documentScanRoutes);
+app.use('/api/recurring-invoices', requirePermission('accounting'), recurringInvoicesRoutes);
+app.use('/api/payment-gateway', requirePermission('accounting', { exemptPaths: [/^\/webhook\//] }), paymentGatewayRoutes);
+app.use('/api/analytics', requirePermission('reports'), analyticsRoutes);
+app.use('/api/alerts', requirePermission('reports', { readOnlyPaths: [/^\/[^/]+\/read$/, /^\/mark-all-read$/] }), alertsRoutes);
+app.use('/api/voice', requirePermission('accounting'), voiceRoutes);
+app.use('/api/integrations', requirePermission('settings'), integrationsRoutes);
 
 // Health check (basic - always returns ok for Railway health checks)
 app.get('/api/health', (_req: Request, res: Response) => {
@@ -234,4 +278,9 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
 const PORT = process.env.PORT || 3001;
 app.listen(PORT, () => {
   console.log(`Zara Books server running on port ${PORT}`);
+
+  // Recurring invoices, recurring journals, reminders and alerts
+  if (process.env.JOB_SCHEDULER !== 'off') {
+    startScheduler(JOBS);
+  }
 });
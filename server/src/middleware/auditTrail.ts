@@ -0,0 +1,132 @@
+import { Request, Response, NextFunction } from 'express';
+import { eq, and } from 'drizzle-orm';
+import type { PgTableWithColumns } from 'drizzle-orm/pg-core';
+import { db } from '../db';
+import { auditLog } from '@shared/schema';
+
+/**
+ * A resource under a router whose mutations are written to the audit log.
+ * `path` is relative to the router mount point ('' for the router root).
+ */
+export interface AuditedResource {
+  path: string;
+  entityType: string;
+  table?: PgTableWithColumns<any>;
+  // Child rows stored with the record (e.g. invoice lines)
+  lines?: { table: PgTableWithColumns<any>; foreignKey: string };
+}
+
+export interface AuditTarget {
+  resource: AuditedResource;
+  action: string;
+  entityId: string | null;
+}
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const METHOD_ACTIONS: Record<string, string> = {
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+/**
+ * Works out the audited resource, action and entity id of a request path.
+ * `/:id` maps to the HTTP method's action; `/:id/post`, `/:id/cancel` etc.
+ * use the trailing verb.
+ */
+export function resolveAuditTarget(
+  method: string,
+  path: string,
+  resources: AuditedResource[]
+): AuditTarget | null {
+  if (!MUTATING_METHODS.has(method)) return null;
+
+  const resource = [...resources]
+    .sort((a, b) => b.path.length - a.path.length)
+    .find(r => r.path === '' || path === r.path || path.startsWith(`${r.path}/`));
+  if (!resource) return null;
+
+  const segments = path.slice(resource.path.length).split('/').filter(Boolean);
+  const entityId = segments.length > 0 && ID_PATTERN.test(segments[0]) ? segments[0] : null;
+  const verb = (entityId ? segments.slice(1) : segments).join('_');
+
+  return {
+    resource,
+    action: verb ? verb.replace(/-/g, '_') : METHOD_ACTIONS[method],
+    entityId,
+  };
+}
+
+async function loadRecord(resource: AuditedResource, id: string, companyId: string) {
+  const table = resource.table!;
+  const [row] = await db.select().from(table).where(
+    table.companyId ? and(eq(table.id, id), eq(table.companyId, companyId)) : eq(table.id, id)
+  );
+  if (!row || !resource.lines) return row ?? null;
+
+  const lines = await db.select().from(resource.lines.table)
+    .where(eq(resource.lines.table[resource.lines.foreignKey], id));
+  return { ...row, lines };
+}
+
+/**
+ * Records create/update/delete and workflow actions (post, reverse, cancel,
+ * approve, ...) of the given resources with the before and after state of
+ * the record. Entries are only written for successful responses.
+ */
+export function auditTrail(resources: AuditedResource[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const companyId = req.session?.companyId;
+    const target = resolveAuditTarget(req.method, req.path, resources);
+    if (!target || !companyId) return next();
+
+    const { resource, action } = target;
+    let oldData: unknown = null;
+    if (target.entityId && resource.table) {
+      try {
+        oldData = await loadRecord(resource, target.entityId, companyId);
+      } catch (error) {
+        console.error('Audit trail load error:', error);
+      }
+    }
+
+    let responseBody: any;
+    const json = res.json.bind(res);
+    res.json = (body: any) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    res.on('finish', async () => {
+      if (res.statusCode >= 400) return;
+      try {
+        const entityId = target.entityId || (typeof responseBody?.id === 'string' ? responseBody.id : null);
+        let newData: unknown = null;
+        if (action !== 'delete') {
+          newData = entityId && resource.table
+            ? await loadRecord(resource, entityId, companyId)
+            : responseBody ?? null;
+        }
+
+        await db.insert(auditLog).values({
+          companyId,
+          userId: req.session?.userId,
+          action,
+          entityType: resource.entityType,
+          entityId,
+          oldData,
+          newData,
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent'),
+        });
+      } catch (error) {
+        console.error('Audit trail write error:', error);
+      }
+    });
+
+    next();
+  };
+}
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { db } from '../db';
 import { companyUsers, partnerUsers, tenantUsers, users } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
+import { hasPermission, type PermissionArea, type AccessLevel } from '@shared/permissions';
 
 // Extend Express Session type for multi-tenancy
 declare module 'express-session' {
@@ -79,6 +80,56 @@ export function requireCompanyRole(roles: string[]) {
   };
 }
 
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// Reads are GET requests plus POSTs that only compute something (e.g. an assistant query)
+export function getAccessLevel(method: string, path: string, readOnlyPaths: RegExp[] = []): AccessLevel {
+  if (READ_METHODS.has(method)) return 'read';
+  return readOnlyPaths.some(pattern => pattern.test(path)) ? 'read' : 'write';
+}
+
+// Require the company role to have access to a permission area.
+// Mounted in front of a router; requests without a selected company are left
+// to the router's own requireAuth/requireCompany checks. `exemptPaths` act on
+// the user or an external caller rather than the selected company.
+export function requirePermission(
+  area: PermissionArea,
+  options: { readOnlyPaths?: RegExp[]; exemptPaths?: RegExp[] } = {}
+) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.session?.userId || !req.session?.companyId) {
+      return next();
+    }
+    if (options.exemptPaths?.some(pattern => pattern.test(req.path))) {
+      return next();
+    }
+
+    try {
+      const companyUser = await db.query.companyUsers.findFirst({
+        where: and(
+          eq(companyUsers.userId, req.session.userId),
+          eq(companyUsers.companyId, req.session.companyId),
+          eq(companyUsers.isActive, true)
+        ),
+      });
+
+      if (!companyUser) {
+        return res.status(403).json({ error: 'No access to this company' });
+      }
+
+      const level = getAccessLevel(req.method, req.path, options.readOnlyPaths);
+      if (!hasPermission(companyUser.role, area, level)) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      req.companyRole = companyUser.role;
+      next();
+    } catch {
+      res.status(500).json({ error: 'Server error' });
+    }
+  };
+}
+
 // NEW: Require tenant context
 export function requireTenant(req: AuthenticatedRequest, res: Response, next: NextFunction) {
   if (!req.session?.userId) {
@@ -5,6 +5,7 @@ import partnersRoutes from './partners';
 import subscriptionsRoutes from './subscriptions';
 import commissionsRoutes from './commissions';
 import payoutsRoutes from './payouts';
+import jobsRoutes from './jobs';
 
 const router = Router();
 
@@ -14,5 +15,6 @@ router.use('/partners', partnersRoutes);
 router.use('/subscriptions', subscriptionsRoutes);
 router.use('/commissions', commissionsRoutes);
 router.use('/payouts', payoutsRoutes);
+router.use('/jobs', jobsRoutes);
 
 export default router;
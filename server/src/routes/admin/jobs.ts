@@ -0,0 +1,102 @@
+import { Router } from 'express';
+import { db } from '../../db';
+import { requireSuperAdmin, AuthenticatedRequest } from '../../middleware/auth';
+import { scheduledJobs, jobRuns } from '@shared/schema';
+import { eq, desc } from 'drizzle-orm';
+import { JOBS, getJobDefinition, registerJobs, runJob, isValidCron, getNextCronRun } from '../../services/jobs';
+
+const router = Router();
+
+// List background jobs with their schedule and last run
+router.get('/', requireSuperAdmin, async (req: AuthenticatedRequest, res) => {
+  try {
+    await registerJobs(JOBS);
+
+    const jobs = await db.select().from(scheduledJobs);
+
+    res.json(JOBS.map(definition => ({
+      ...jobs.find(job => job.name === definition.name),
+      description: definition.description,
+      defaultSchedule: definition.schedule,
+    })));
+  } catch (error) {
+    console.error('List jobs error:', error);
+    res.status(500).json({ error: 'Failed to fetch jobs' });
+  }
+});
+
+// Run history of a job
+router.get('/:name/runs', requireSuperAdmin, async (req: AuthenticatedRequest, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const runs = await db.query.jobRuns.findMany({
+      where: eq(jobRuns.jobName, req.params.name),
+      orderBy: desc(jobRuns.startedAt),
+      limit,
+    });
+
+    res.json(runs);
+  } catch (error) {
+    console.error('Get job runs error:', error);
+    res.status(500).json({ error: 'Failed to fetch job runs' });
+  }
+});
+
+// Trigger a job now
+router.post('/:name/run', requireSuperAdmin, async (req: AuthenticatedRequest, res) => {
+  try {
+    const definition = getJobDefinition(req.params.name);
+    if (!definition) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    await registerJobs([definition]);
+    const run = await runJob(definition, 'manual', req.userId);
+
+    if (!run) {
+      return res.status(409).json({ error: 'Job is already running' });
+    }
+
+    res.json(run);
+  } catch (error) {
+    console.error('Run job error:', error);
+    res.status(500).json({ error: 'Failed to run job' });
+  }
+});
+
+// Enable/disable a job or change its schedule
+router.patch('/:name', requireSuperAdmin, async (req: AuthenticatedRequest, res) => {
+  try {
+    const definition = getJobDefinition(req.params.name);
+    if (!definition) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const { schedule, isEnabled } = req.body;
+    if (schedule !== undefined && (typeof schedule !== 'string' || !isValidCron(schedule))) {
+      return res.status(400).json({ error: 'Schedule must be a valid 5-field cron expression' });
+    }
+
+    await registerJobs([definition]);
+
+    const updates: Partial<typeof scheduledJobs.$inferInsert> = { updatedAt: new Date() };
+    if (schedule !== undefined) {
+      updates.schedule = schedule;
+      updates.nextRunAt = getNextCronRun(schedule);
+    }
+    if (isEnabled !== undefined) updates.isEnabled = Boolean(isEnabled);
+
+    const [updated] = await db.update(scheduledJobs)
+      .set(updates)
+      .where(eq(scheduledJobs.name, definition.name))
+      .returning();
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Update job error:', error);
+    res.status(500).json({ error: 'Failed to update job' });
+  }
+});
+
+export default router;
@@ -0,0 +1,224 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { approvalPolicies, approvalRequests, chartOfAccounts } from '@shared/schema';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import {
+  validateApprovalPolicy,
+  approvalBlocker,
+  requestApproverRoles,
+  getDocumentCreators,
+  APPROVAL_DOCUMENT_TYPES,
+  type ApprovalPolicyInput,
+  type ApprovalDocumentType,
+} from '../services/approvals';
+
+const router = Router();
+
+const REQUEST_STATUSES = ['pending', 'approved', 'rejected', 'cancelled'];
+
+function parsePolicy(body: any): ApprovalPolicyInput {
+  return {
+    documentType: body.documentType,
+    name: body.name,
+    minAmount: body.minAmount === undefined || body.minAmount === null || body.minAmount === ''
+      ? null
+      : parseFloat(body.minAmount),
+    accountIds: Array.isArray(body.accountIds) ? body.accountIds : [],
+    entryTypes: Array.isArray(body.entryTypes) ? body.entryTypes : [],
+    approverRoles: Array.isArray(body.approverRoles) ? body.approverRoles : ['owner', 'accountant'],
+  };
+}
+
+// Checks the policy is valid and its accounts belong to the company
+async function validatePolicy(companyId: string, policy: ApprovalPolicyInput): Promise<string | null> {
+  const error = validateApprovalPolicy(policy);
+  if (error) return error;
+
+  if (policy.accountIds!.length > 0) {
+    const found = await db.query.chartOfAccounts.findMany({
+      where: and(
+        eq(chartOfAccounts.companyId, companyId),
+        inArray(chartOfAccounts.id, policy.accountIds!)
+      ),
+    });
+    if (found.length !== new Set(policy.accountIds).size) return 'Account not found';
+  }
+  return null;
+}
+
+// Policies are a control over the other users, so only the owner changes them
+function requireOwner(req: AuthenticatedRequest, res: any): boolean {
+  if (req.companyRole !== 'owner') {
+    res.status(403).json({ error: 'Only the company owner can change approval policies' });
+    return false;
+  }
+  return true;
+}
+
+// Get approval policies
+router.get('/policies', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const policies = await db.query.approvalPolicies.findMany({
+      where: eq(approvalPolicies.companyId, req.companyId!),
+      orderBy: [approvalPolicies.documentType, approvalPolicies.createdAt],
+    });
+
+    res.json(policies);
+  } catch (error) {
+    console.error('Get approval policies error:', error);
+    res.status(500).json({ error: 'Failed to get approval policies' });
+  }
+});
+
+// Create an approval policy
+router.post('/policies', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!requireOwner(req, res)) return;
+
+    const policy = parsePolicy(req.body);
+    const error = await validatePolicy(req.companyId!, policy);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const [created] = await db.insert(approvalPolicies).values({
+      companyId: req.companyId!,
+      documentType: policy.documentType as ApprovalDocumentType,
+      name: policy.name!.trim(),
+      minAmount: policy.minAmount === null ? null : policy.minAmount!.toFixed(2),
+      accountIds: policy.accountIds,
+      entryTypes: policy.entryTypes,
+      approverRoles: policy.approverRoles,
+      isActive: req.body.isActive ?? true,
+    }).returning();
+
+    res.status(201).json(created);
+  } catch (error) {
+    console.error('Create approval policy error:', error);
+    res.status(500).json({ error: 'Failed to create approval policy' });
+  }
+});
+
+// Update an approval policy
+router.patch('/policies/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!requireOwner(req, res)) return;
+
+    const existing = await db.query.approvalPolicies.findFirst({
+      where: and(
+        eq(approvalPolicies.id, req.params.id),
+        eq(approvalPolicies.companyId, req.companyId!)
+      ),
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Approval policy not found' });
+    }
+
+    const policy = parsePolicy({
+      documentType: existing.documentType,
+      name: existing.name,
+      minAmount: existing.minAmount,
+      accountIds: existing.accountIds,
+      entryTypes: existing.entryTypes,
+      approverRoles: existing.approverRoles,
+      ...req.body,
+    });
+    const error = await validatePolicy(req.companyId!, policy);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const [updated] = await db.update(approvalPolicies)
+      .set({
+        documentType: policy.documentType as ApprovalDocumentType,
+        name: policy.name!.trim(),
+        minAmount: policy.minAmount === null ? null : policy.minAmount!.toFixed(2),
+        accountIds: policy.accountIds,
+        entryTypes: policy.entryTypes,
+        approverRoles: policy.approverRoles,
+        isActive: req.body.isActive ?? existing.isActive,
+        updatedAt: new Date(),
+      })
+      .where(eq(approvalPolicies.id, existing.id))
+      .returning();
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Update approval policy error:', error);
+    res.status(500).json({ error: 'Failed to update approval policy' });
+  }
+});
+
+// Delete an approval policy. Open requests under it stay open.
+router.delete('/policies/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!requireOwner(req, res)) return;
+
+    const [deleted] = await db.delete(approvalPolicies)
+      .where(and(
+        eq(approvalPolicies.id, req.params.id),
+        eq(approvalPolicies.companyId, req.companyId!)
+      ))
+      .returning();
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Approval policy not found' });
+    }
+
+    res.json({ message: 'Approval policy deleted' });
+  } catch (error) {
+    console.error('Delete approval policy error:', error);
+    res.status(500).json({ error: 'Failed to delete approval policy' });
+  }
+});
+
+// Approval inbox: pending requests by default, with whether the current
+// user can decide each one
+router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const status = (req.query.status as string) || 'pending';
+    const documentType = req.query.documentType as string | undefined;
+
+    if (!REQUEST_STATUSES.includes(status)) {
+      return res.status(400).json({ error: 'Invalid status' });
+    }
+    if (documentType && !APPROVAL_DOCUMENT_TYPES.includes(documentType as ApprovalDocumentType)) {
+      return res.status(400).json({ error: 'Invalid document type' });
+    }
+
+    const requests = await db.query.approvalRequests.findMany({
+      where: and(
+        eq(approvalRequests.companyId, req.companyId!),
+        eq(approvalRequests.status, status as typeof approvalRequests.status.enumValues[number]),
+        documentType ? eq(approvalRequests.documentType, documentType as ApprovalDocumentType) : undefined
+      ),
+      with: {
+        policy: true,
+        requestedBy: { columns: { id: true, firstName: true, lastName: true } },
+        decidedBy: { columns: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: desc(approvalRequests.createdAt),
+      limit: 200,
+    });
+
+    const creators = await getDocumentCreators(db, requests.filter(request => request.status === 'pending'));
+
+    res.json(requests.map(request => ({
+      ...request,
+      canDecide: request.status === 'pending' &&
+        approvalBlocker(
+          request,
+          requestApproverRoles(request),
+          { userId: req.userId!, role: req.companyRole },
+          creators.get(request.documentId)
+        ) === null,
+    })));
+  } catch (error) {
+    console.error('Get approval requests error:', error);
+    res.status(500).json({ error: 'Failed to get approval requests' });
+  }
+});
+
+export default router;
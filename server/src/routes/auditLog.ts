@@ -17,7 +17,7 @@ const requireAuth = (req: Request, res: Response, next: Function) => {
 // Get audit logs with filtering
 router.get('/', requireAuth, async (req: Request, res: Response) => {
   try {
-    const companyId = req.session?.currentCompanyId;
+    const companyId = req.session?.companyId;
     if (!companyId) {
       return res.status(400).json({ error: 'No company selected' });
     }
@@ -133,7 +133,7 @@ router.get('/', requireAuth, async (req: Request, res: Response) => {
 // Get audit log statistics
 router.get('/stats', requireAuth, async (req: Request, res: Response) => {
   try {
-    const companyId = req.session?.currentCompanyId;
+    const companyId = req.session?.companyId;
     if (!companyId) {
       return res.status(400).json({ error: 'No company selected' });
     }
@@ -207,7 +207,7 @@ router.get('/stats', requireAuth, async (req: Request, res: Response) => {
 // Get a single audit log entry
 router.get('/:id', requireAuth, async (req: Request, res: Response) => {
   try {
-    const companyId = req.session?.currentCompanyId;
+    const companyId = req.session?.companyId;
     if (!companyId) {
       return res.status(400).json({ error: 'No company selected' });
     }
@@ -268,7 +268,7 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
 // Export audit logs
 router.get('/export/csv', requireAuth, async (req: Request, res: Response) => {
   try {
-    const companyId = req.session?.currentCompanyId;
+    const companyId = req.session?.companyId;
     if (!companyId) {
       return res.status(400).json({ error: 'No company selected' });
     }
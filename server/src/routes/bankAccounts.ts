@@ -150,6 +150,7 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       branchName,
       branchAddress,
       isPrimary,
+      currencyCode,
     } = req.body;
 
     if (!accountName && !bankName) {
@@ -217,6 +218,7 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       accountNumber: accountNumber || '',
       accountType: accountType || 'current',
       ifscCode,
+      currencyCode: currencyCode || null,
       branchName,
       branchAddress,
       openingBalance: openingBalance || '0',
@@ -14,16 +14,27 @@ import {
   chartOfAccounts,
   parties
 } from '@shared/schema';
-import { eq, and, desc, sql, or, ilike } from 'drizzle-orm';
+import { eq, and, desc, sql, or, ilike, inArray } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
 import {
   importTransactions,
-  parseCSV,
+  toFeedTransactions,
   getBankFeedSummary,
   categorizeTransaction,
   bulkCategorize,
-  createRuleFromTransaction
+  createRuleFromTransaction,
+  suggestCategories,
+  loadCategorizationModel,
+  getCategorizationModel,
+  retrainCategorizationModel,
+  learnFromCategorizations,
+  proposeMatchesForTransactions,
+  confirmGroupMatch,
+  undoGroupMatch,
+  type CategorizationModelState,
+  type CategorizationAccuracyReport
 } from '../services/bankFeeds';
+import { parseStatement } from '../services/bankStatements';
 import {
   findMatch,
   reconcileTransaction,
@@ -163,20 +174,22 @@ router.get('/transactions', requireCompany, async (req: AuthenticatedRequest, re
   }
 });
 
-// Import CSV transactions
+// Import transactions from a bank statement
 router.post('/import', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
-    const { csvContent, bankAccountId, connectionId } = req.body;
+    const { bankAccountId, connectionId, format, encoding, fileName } = req.body;
+    // csvContent is still accepted from older clients
+    const content = req.body.content || req.body.csvContent;
 
-    if (!csvContent || !bankAccountId) {
-      return res.status(400).json({ error: 'CSV content and bank account ID required' });
+    if (!content || !bankAccountId) {
+      return res.status(400).json({ error: 'Statement content and bank account ID required' });
     }
 
-    const parsedTransactions = parseCSV(csvContent);
-
-    if (parsedTransactions.length === 0) {
-      return res.status(400).json({ error: 'No valid transactions found in CSV' });
+    const parsed = await parseStatement(content, { format, encoding, fileName });
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
     }
+    const parsedTransactions = toFeedTransactions(parsed.statement);
 
     const result = await importTransactions(
       req.companyId!,
@@ -200,6 +213,17 @@ router.post('/transactions/:id/categorize', requireCompany, async (req: Authenti
   try {
     const { accountId, partyId, createRule } = req.body;
 
+    const [transaction] = await db.select()
+      .from(bankFeedTransactions)
+      .where(and(
+        eq(bankFeedTransactions.id, req.params.id),
+        eq(bankFeedTransactions.companyId, req.companyId!)
+      ));
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
     // Update transaction
     await db.update(bankFeedTransactions)
       .set({
@@ -208,26 +232,23 @@ router.post('/transactions/:id/categorize', requireCompany, async (req: Authenti
         categorizationSource: 'manual',
         confidenceScore: '100'
       })
-      .where(and(
-        eq(bankFeedTransactions.id, req.params.id),
-        eq(bankFeedTransactions.companyId, req.companyId!)
-      ));
+      .where(eq(bankFeedTransactions.id, transaction.id));
+
+    // The model learns the decision, and whether its suggestion was right
+    await learnFromCategorizations(req.companyId!, [{
+      example: { ...transaction, accountId: accountId || null, partyId: partyId || null },
+      suggestedAccountId: transaction.categorizationSource === 'ml' ? transaction.suggestedAccountId : null,
+    }]);
 
     // Optionally create a rule
     if (createRule) {
-      const [transaction] = await db.select()
-        .from(bankFeedTransactions)
-        .where(eq(bankFeedTransactions.id, req.params.id));
-
-      if (transaction) {
-        await createRuleFromTransaction(
-          req.companyId!,
-          req.userId!,
-          transaction,
-          accountId,
-          partyId
-        );
-      }
+      await createRuleFromTransaction(
+        req.companyId!,
+        req.userId!,
+        transaction,
+        accountId,
+        partyId
+      );
     }
 
     res.json({ success: true });
@@ -237,6 +258,46 @@ router.post('/transactions/:id/categorize', requireCompany, async (req: Authenti
   }
 });
 
+// Ranked account and party suggestions for a transaction
+router.get('/transactions/:id/suggestions', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const [transaction] = await db.select()
+      .from(bankFeedTransactions)
+      .where(and(
+        eq(bankFeedTransactions.id, req.params.id),
+        eq(bankFeedTransactions.companyId, req.companyId!)
+      ));
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    const model = await loadCategorizationModel(req.companyId!);
+    const suggestions = await suggestCategories(req.companyId!, transaction, model);
+
+    const accountIds = suggestions.accounts.map(s => s.id);
+    const partyIds = suggestions.parties.map(s => s.id);
+    const accountRows = accountIds.length > 0
+      ? await db.select({ id: chartOfAccounts.id, code: chartOfAccounts.code, name: chartOfAccounts.name })
+        .from(chartOfAccounts)
+        .where(inArray(chartOfAccounts.id, accountIds))
+      : [];
+    const partyRows = partyIds.length > 0
+      ? await db.select({ id: parties.id, name: parties.name })
+        .from(parties)
+        .where(inArray(parties.id, partyIds))
+      : [];
+
+    res.json({
+      accounts: suggestions.accounts.map(s => ({ ...s, account: accountRows.find(a => a.id === s.id) })),
+      parties: suggestions.parties.map(s => ({ ...s, party: partyRows.find(p => p.id === s.id) })),
+    });
+  } catch (error) {
+    console.error('Error suggesting categories:', error);
+    res.status(500).json({ error: 'Failed to suggest categories' });
+  }
+});
+
 // Auto-categorize pending transactions
 router.post('/auto-categorize', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
@@ -319,6 +380,17 @@ router.post('/transactions/:id/create-entry', requireCompany, async (req: Authen
       return res.status(400).json({ error: 'Account ID required' });
     }
 
+    const [transaction] = await db.select()
+      .from(bankFeedTransactions)
+      .where(and(
+        eq(bankFeedTransactions.id, req.params.id),
+        eq(bankFeedTransactions.companyId, req.companyId!)
+      ));
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
     const result = await createJournalEntryFromTransaction(
       req.companyId!,
       req.userId!,
@@ -327,6 +399,16 @@ router.post('/transactions/:id/create-entry', requireCompany, async (req: Authen
       partyId
     );
 
+    // A manual categorisation to the same account was learned already
+    const alreadyLearned = transaction.categorizationSource === 'manual'
+      && transaction.suggestedAccountId === accountId;
+    if (!alreadyLearned) {
+      await learnFromCategorizations(req.companyId!, [{
+        example: { ...transaction, accountId, partyId: partyId || null },
+        suggestedAccountId: transaction.categorizationSource === 'ml' ? transaction.suggestedAccountId : null,
+      }]);
+    }
+
     res.json(result);
   } catch (error) {
     console.error('Error creating entry:', error);
@@ -362,6 +444,138 @@ router.post('/auto-reconcile', requireCompany, async (req: AuthenticatedRequest,
   }
 });
 
+// Propose combinations of open invoices or bills for one or more bank lines
+router.post('/group-match/proposals', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { transactionIds, partyId } = req.body;
+
+    if (!Array.isArray(transactionIds) || transactionIds.length === 0) {
+      return res.status(400).json({ error: 'Transaction IDs required' });
+    }
+
+    const result = await proposeMatchesForTransactions(req.companyId!, transactionIds, partyId || undefined);
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    const partyIds = Array.from(new Set(result.documents.map(doc => doc.partyId)));
+    const partyRows = partyIds.length > 0
+      ? await db.select({ id: parties.id, name: parties.name })
+        .from(parties)
+        .where(and(eq(parties.companyId, req.companyId!), inArray(parties.id, partyIds)))
+      : [];
+    const partyName = (id: string) => partyRows.find(p => p.id === id)?.name || 'Unknown';
+
+    res.json({
+      ...result,
+      proposals: result.proposals.map(p => ({ ...p, partyName: partyName(p.partyId) })),
+      documents: result.documents.map(d => ({ ...d, partyName: partyName(d.partyId) })),
+    });
+  } catch (error) {
+    console.error('Error proposing group matches:', error);
+    res.status(500).json({ error: 'Failed to propose matches' });
+  }
+});
+
+// Match bank lines against several documents, posting any difference
+router.post('/group-match', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { transactionIds, partyId, allocations, adjustments = [] } = req.body;
+
+    if (!Array.isArray(transactionIds) || !partyId || !Array.isArray(allocations) || !Array.isArray(adjustments)) {
+      return res.status(400).json({ error: 'Transaction IDs, party and allocations required' });
+    }
+
+    const result = await confirmGroupMatch(req.companyId!, req.userId!, {
+      transactionIds,
+      partyId,
+      allocations,
+      adjustments,
+    });
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Error confirming group match:', error);
+    res.status(500).json({ error: 'Failed to match transactions' });
+  }
+});
+
+// Undo a grouped match, deleting its payment and journal entry
+router.delete('/group-match/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await undoGroupMatch(req.companyId!, req.params.id);
+    if ('error' in result) {
+      return res.status(404).json({ error: result.error });
+    }
+
+    res.json({ message: 'Match undone' });
+  } catch (error) {
+    console.error('Error undoing group match:', error);
+    res.status(500).json({ error: 'Failed to undo match' });
+  }
+});
+
+// ==================== CATEGORIZATION MODEL ====================
+
+async function modelStatus(companyId: string) {
+  const stored = await getCategorizationModel(companyId);
+  if (!stored) return { trained: false };
+
+  const model = stored.model as CategorizationModelState;
+  const evaluation = stored.evaluation as CategorizationAccuracyReport | null;
+  const { accepted, corrected } = model.feedback;
+
+  // Name the accounts in the per-account figures
+  const accountIds = evaluation?.accounts.map(a => a.accountId) || [];
+  const accountRows = accountIds.length > 0
+    ? await db.select({ id: chartOfAccounts.id, code: chartOfAccounts.code, name: chartOfAccounts.name })
+      .from(chartOfAccounts)
+      .where(inArray(chartOfAccounts.id, accountIds))
+    : [];
+
+  return {
+    trained: true,
+    trainedAt: stored.trainedAt,
+    lastLearnedAt: stored.lastLearnedAt,
+    trainingExamples: stored.trainingExamples,
+    accountsKnown: Object.keys(model.accounts.classes).length,
+    partiesKnown: Object.keys(model.parties.classes).length,
+    feedback: {
+      accepted,
+      corrected,
+      acceptanceRate: accepted + corrected > 0 ? Math.round((accepted / (accepted + corrected)) * 1000) / 10 : null,
+    },
+    evaluation: evaluation && {
+      ...evaluation,
+      accounts: evaluation.accounts.map(a => ({ ...a, account: accountRows.find(row => row.id === a.accountId) })),
+    },
+  };
+}
+
+// Categorization model status and accuracy report
+router.get('/model', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json(await modelStatus(req.companyId!));
+  } catch (error) {
+    console.error('Error fetching categorization model:', error);
+    res.status(500).json({ error: 'Failed to fetch categorization model' });
+  }
+});
+
+// Retrain the categorization model from the company's history
+router.post('/model/train', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    await retrainCategorizationModel(req.companyId!);
+    res.json(await modelStatus(req.companyId!));
+  } catch (error) {
+    console.error('Error training categorization model:', error);
+    res.status(500).json({ error: 'Failed to train categorization model' });
+  }
+});
+
 // ==================== CATEGORIZATION RULES ====================
 
 // Get categorization rules
@@ -6,9 +6,20 @@ import {
 } from '@shared/schema';
 import { eq, and, sql, desc, or, like } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { allocateDocumentNumber } from '../services/numbering';
+import { parseStatement } from '../services/bankStatements';
+import {
+  loadCategorizationModel,
+  predictCategory,
+  learnFromCategorizations,
+  type CategorizationDecision,
+} from '../services/bankFeeds';
 
 const router = Router();
 
+// Learned suggestions less certain than this give way to the narration patterns
+const MIN_SUGGESTION_CONFIDENCE = 40;
+
 // Bank transaction matching rules
 interface MatchRule {
   pattern: string;
@@ -17,109 +28,6 @@ interface MatchRule {
   description: string;
 }
 
-// Parse CSV bank statement
-function parseCSV(content: string): Array<{
-  date: string;
-  description: string;
-  debit?: number;
-  credit?: number;
-  balance?: number;
-  reference?: string;
-}> {
-  const lines = content.trim().split('\n');
-  if (lines.length < 2) return [];
-
-  // Try to detect header row and column positions
-  const header = lines[0].toLowerCase();
-  const columns = header.split(',').map(c => c.trim().replace(/"/g, ''));
-
-  const dateIdx = columns.findIndex(c => c.includes('date') || c.includes('txn'));
-  const descIdx = columns.findIndex(c => c.includes('description') || c.includes('narration') || c.includes('particular'));
-  const debitIdx = columns.findIndex(c => c.includes('debit') || c.includes('withdrawal') || c.includes('dr'));
-  const creditIdx = columns.findIndex(c => c.includes('credit') || c.includes('deposit') || c.includes('cr'));
-  const balanceIdx = columns.findIndex(c => c.includes('balance'));
-  const refIdx = columns.findIndex(c => c.includes('reference') || c.includes('ref') || c.includes('chq'));
-
-  const transactions: Array<{
-    date: string;
-    description: string;
-    debit?: number;
-    credit?: number;
-    balance?: number;
-    reference?: string;
-  }> = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    // Handle quoted CSV values
-    const values: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (const char of line) {
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        values.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    values.push(current.trim());
-
-    const parseAmount = (val: string | undefined): number | undefined => {
-      if (!val) return undefined;
-      const cleaned = val.replace(/[,'"₹$]/g, '').trim();
-      const num = parseFloat(cleaned);
-      return isNaN(num) ? undefined : Math.abs(num);
-    };
-
-    const parseDate = (val: string): string => {
-      // Try different date formats
-      const cleaned = val.replace(/"/g, '').trim();
-
-      // DD/MM/YYYY or DD-MM-YYYY
-      const dmyMatch = cleaned.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})/);
-      if (dmyMatch) {
-        return `${dmyMatch[3]}-${dmyMatch[2].padStart(2, '0')}-${dmyMatch[1].padStart(2, '0')}`;
-      }
-
-      // YYYY-MM-DD
-      const isoMatch = cleaned.match(/(\d{4})-(\d{2})-(\d{2})/);
-      if (isoMatch) {
-        return cleaned;
-      }
-
-      // MM/DD/YYYY
-      const mdyMatch = cleaned.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})/);
-      if (mdyMatch) {
-        return `${mdyMatch[3]}-${mdyMatch[1].padStart(2, '0')}-${mdyMatch[2].padStart(2, '0')}`;
-      }
-
-      return cleaned;
-    };
-
-    const date = dateIdx >= 0 ? parseDate(values[dateIdx] || '') : '';
-    const description = descIdx >= 0 ? (values[descIdx] || '').replace(/"/g, '') : '';
-
-    if (!date || !description) continue;
-
-    transactions.push({
-      date,
-      description,
-      debit: debitIdx >= 0 ? parseAmount(values[debitIdx]) : undefined,
-      credit: creditIdx >= 0 ? parseAmount(values[creditIdx]) : undefined,
-      balance: balanceIdx >= 0 ? parseAmount(values[balanceIdx]) : undefined,
-      reference: refIdx >= 0 ? values[refIdx]?.replace(/"/g, '') : undefined,
-    });
-  }
-
-  return transactions;
-}
-
 // Get bank accounts
 router.get('/bank-accounts', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
@@ -153,22 +61,18 @@ router.get('/bank-accounts', requireCompany, async (req: AuthenticatedRequest, r
 // Upload and parse bank statement
 router.post('/parse', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
-    const { content, bankAccountId, format = 'csv' } = req.body;
+    const { content, bankAccountId, format = 'auto', encoding, fileName } = req.body;
 
     if (!content) {
       return res.status(400).json({ error: 'Statement content is required' });
     }
 
-    let transactions;
-    if (format === 'csv') {
-      transactions = parseCSV(content);
-    } else {
-      return res.status(400).json({ error: 'Unsupported format. Use CSV.' });
-    }
-
-    if (transactions.length === 0) {
-      return res.status(400).json({ error: 'No transactions found in statement' });
+    const parsed = await parseStatement(content, { format, encoding, fileName });
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
     }
+    const { statement } = parsed;
+    const transactions = statement.transactions;
 
     // Get matching rules for auto-categorization
     const accounts = await db.query.chartOfAccounts.findMany({
@@ -183,14 +87,23 @@ router.post('/parse', requireCompany, async (req: AuthenticatedRequest, res) =>
       where: eq(parties.companyId, req.companyId!),
     });
 
+    const model = await loadCategorizationModel(req.companyId!);
+
     // Auto-match transactions
     const matched = transactions.map(txn => {
       const desc = txn.description.toLowerCase();
       let suggestedAccount: typeof accounts[0] | undefined;
       let suggestedParty: typeof partiesList[0] | undefined;
 
-      // Match patterns
-      if (desc.includes('salary') || desc.includes('payroll')) {
+      // The company's learned model first, then common narration patterns
+      const prediction = predictCategory(model, { description: txn.description, debitAmount: txn.debit, creditAmount: txn.credit });
+      const learnedAccount = prediction.accounts.find(s => s.confidence >= MIN_SUGGESTION_CONFIDENCE && accounts.some(a => a.id === s.id));
+      const learnedParty = prediction.parties.find(s => s.confidence >= MIN_SUGGESTION_CONFIDENCE && partiesList.some(p => p.id === s.id));
+
+      if (learnedAccount) {
+        suggestedAccount = accounts.find(a => a.id === learnedAccount.id);
+        suggestedParty = partiesList.find(p => p.id === learnedParty?.id);
+      } else if (desc.includes('salary') || desc.includes('payroll')) {
         suggestedAccount = accounts.find(a => a.name.toLowerCase().includes('salary'));
       } else if (desc.includes('rent')) {
         suggestedAccount = accounts.find(a => a.name.toLowerCase().includes('rent'));
@@ -207,7 +120,7 @@ router.post('/parse', requireCompany, async (req: AuthenticatedRequest, res) =>
       }
 
       // Match parties by name
-      for (const party of partiesList) {
+      for (const party of suggestedParty ? [] : partiesList) {
         if (desc.includes(party.name.toLowerCase())) {
           suggestedParty = party;
           break;
@@ -220,11 +133,15 @@ router.post('/parse', requireCompany, async (req: AuthenticatedRequest, res) =>
         suggestedAccountName: suggestedAccount?.name,
         suggestedPartyId: suggestedParty?.id,
         suggestedPartyName: suggestedParty?.name,
+        confidence: learnedAccount?.confidence,
         isMatched: !!suggestedAccount,
       };
     });
 
     res.json({
+      format: statement.format,
+      bank: statement.bank,
+      accountNumber: statement.accountNumber,
       transactions: matched,
       summary: {
         total: transactions.length,
@@ -275,6 +192,7 @@ router.post('/import', requireCompany, async (req: AuthenticatedRequest, res) =>
 
     const createdEntries: string[] = [];
     const errors: Array<{ index: number; error: string }> = [];
+    const decisions: CategorizationDecision[] = [];
 
     for (let i = 0; i < transactions.length; i++) {
       const txn = transactions[i];
@@ -285,67 +203,71 @@ router.post('/import', requireCompany, async (req: AuthenticatedRequest, res) =>
       }
 
       try {
-        // Generate entry number
-        const lastEntry = await db.query.journalEntries.findFirst({
-          where: and(
-            eq(journalEntries.companyId, req.companyId!),
-            eq(journalEntries.fiscalYearId, fiscalYear.id)
-          ),
-          orderBy: desc(journalEntries.entryNumber),
-        });
-
-        const lastNum = lastEntry?.entryNumber
-          ? parseInt(lastEntry.entryNumber.split('/').pop() || '0')
-          : 0;
-        const entryNumber = `BK/${fiscalYear.name}/${String(lastNum + 1).padStart(4, '0')}`;
-
         const amount = txn.debit || txn.credit;
         const isDebit = !!txn.debit; // Bank has debit = money going out
 
-        // Create journal entry
-        const [entry] = await db.insert(journalEntries).values({
-          companyId: req.companyId!,
-          fiscalYearId: fiscalYear.id,
-          entryNumber,
-          entryDate: txn.date,
-          postingDate: txn.date,
-          entryType: 'bank_import',
-          narration: txn.description,
-          totalDebit: amount,
-          totalCredit: amount,
-          sourceType: 'bank_import',
-          status: 'draft',
-          createdByUserId: req.userId!,
-        }).returning();
-
-        // Create journal entry lines
-        // If bank shows debit (money out): Debit expense/asset, Credit bank
-        // If bank shows credit (money in): Debit bank, Credit income/liability
-        await db.insert(journalEntryLines).values([
-          {
-            journalEntryId: entry.id,
-            accountId: isDebit ? txn.accountId : bankAccountId,
-            debitAmount: amount,
-            creditAmount: 0,
-            partyId: txn.partyId || null,
+        // Number and create each entry in its own transaction
+        const entry = await db.transaction(async (tx) => {
+          const entryNumber = await allocateDocumentNumber(tx, req.companyId!, 'journal_entry', fiscalYear, { type: 'BK' });
+
+          const [created] = await tx.insert(journalEntries).values({
+            companyId: req.companyId!,
+            fiscalYearId: fiscalYear.id,
+            entryNumber,
+            entryDate: txn.date,
+            postingDate: txn.date,
+            entryType: 'bank_import',
+            narration: txn.description,
+            totalDebit: amount,
+            totalCredit: amount,
+            sourceType: 'bank_import',
+            status: 'draft',
+            createdByUserId: req.userId!,
+          }).returning();
+
+          // Create journal entry lines
+          // If bank shows debit (money out): Debit expense/asset, Credit bank
+          // If bank shows credit (money in): Debit bank, Credit income/liability
+          await tx.insert(journalEntryLines).values([
+            {
+              journalEntryId: created.id,
+              accountId: isDebit ? txn.accountId : bankAccountId,
+              debitAmount: amount,
+              creditAmount: 0,
+              partyId: txn.partyId || null,
+              description: txn.description,
+            },
+            {
+              journalEntryId: created.id,
+              accountId: isDebit ? bankAccountId : txn.accountId,
+              debitAmount: 0,
+              creditAmount: amount,
+              partyId: txn.partyId || null,
+              description: txn.description,
+            },
+          ]);
+
+          return created;
+        });
+
+        createdEntries.push(entry.id);
+        decisions.push({
+          example: {
             description: txn.description,
-          },
-          {
-            journalEntryId: entry.id,
-            accountId: isDebit ? bankAccountId : txn.accountId,
-            debitAmount: 0,
-            creditAmount: amount,
+            debitAmount: txn.debit,
+            creditAmount: txn.credit,
+            accountId: txn.accountId,
             partyId: txn.partyId || null,
-            description: txn.description,
           },
-        ]);
-
-        createdEntries.push(entry.id);
+          suggestedAccountId: txn.suggestedAccountId || null,
+        });
       } catch (err) {
         errors.push({ index: i, error: 'Failed to create entry' });
       }
     }
 
+    await learnFromCategorizations(req.companyId!, decisions);
+
     res.json({
       success: true,
       created: createdEntries.length,
@@ -1,11 +1,21 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { bankReconciliations, bankReconciliationLines, bankAccounts, journalEntries, journalEntryLines } from '@shared/schema';
+import { bankReconciliations, bankReconciliationLines, bankAccounts, companies, journalEntries, journalEntryLines } from '@shared/schema';
 import { eq, and, desc, asc, gte, lte, notInArray, sql } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import {
+  getBankReconciliationStatement,
+  getBankReconciliationHistory,
+  periodEndDates,
+} from '../services/bankReconciliation';
+import { generateBankReconciliationExcel } from '../services/excelExport';
 
 const router = Router();
 
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// Periods in a statement history, enough for five years of month ends
+const MAX_HISTORY_PERIODS = 60;
+
 // Get all reconciliations
 router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
@@ -49,6 +59,112 @@ router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
   }
 });
 
+// Bank reconciliation statement as at a date
+router.get('/brs', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { bankAccountId, asOfDate, statementBalance } = req.query;
+
+    if (!bankAccountId || !DATE_PATTERN.test(String(asOfDate || ''))) {
+      return res.status(400).json({ error: 'Bank account and as-of date (YYYY-MM-DD) are required' });
+    }
+    const reported = statementBalance !== undefined && statementBalance !== '' ? Number(statementBalance) : null;
+    if (reported !== null && !Number.isFinite(reported)) {
+      return res.status(400).json({ error: 'Statement balance must be a number' });
+    }
+
+    const result = await getBankReconciliationStatement(req.companyId!, bankAccountId as string, asOfDate as string, reported);
+    if (!result) {
+      return res.status(404).json({ error: 'Bank account not found' });
+    }
+
+    res.json({
+      bankAccountId: result.bankAccount.id,
+      bankAccountName: result.bankAccount.bankName,
+      accountNumber: result.bankAccount.accountNumber,
+      ...result.statement,
+    });
+  } catch (error) {
+    console.error('Get reconciliation statement error:', error);
+    res.status(500).json({ error: 'Failed to get reconciliation statement' });
+  }
+});
+
+// Statement totals at each month or quarter end in a range
+router.get('/brs/history', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { bankAccountId, fromDate, toDate, interval = 'quarter' } = req.query;
+
+    if (!bankAccountId || !DATE_PATTERN.test(String(fromDate || '')) || !DATE_PATTERN.test(String(toDate || ''))) {
+      return res.status(400).json({ error: 'Bank account, from date and to date (YYYY-MM-DD) are required' });
+    }
+    if (interval !== 'month' && interval !== 'quarter') {
+      return res.status(400).json({ error: 'Interval must be month or quarter' });
+    }
+
+    const dates = periodEndDates(fromDate as string, toDate as string, interval);
+    if (dates.length === 0) {
+      return res.status(400).json({ error: 'No period ends between the from and to dates' });
+    }
+    if (dates.length > MAX_HISTORY_PERIODS) {
+      return res.status(400).json({ error: `History is limited to ${MAX_HISTORY_PERIODS} periods` });
+    }
+
+    const result = await getBankReconciliationHistory(req.companyId!, bankAccountId as string, dates);
+    if (!result) {
+      return res.status(404).json({ error: 'Bank account not found' });
+    }
+
+    res.json(result.history);
+  } catch (error) {
+    console.error('Get reconciliation history error:', error);
+    res.status(500).json({ error: 'Failed to get reconciliation history' });
+  }
+});
+
+// Export the statement, with its quarterly history for the year, to Excel
+router.get('/brs/export', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { bankAccountId, asOfDate, statementBalance } = req.query;
+
+    if (!bankAccountId || !DATE_PATTERN.test(String(asOfDate || ''))) {
+      return res.status(400).json({ error: 'Bank account and as-of date (YYYY-MM-DD) are required' });
+    }
+    const reported = statementBalance !== undefined && statementBalance !== '' ? Number(statementBalance) : null;
+    if (reported !== null && !Number.isFinite(reported)) {
+      return res.status(400).json({ error: 'Statement balance must be a number' });
+    }
+
+    const result = await getBankReconciliationStatement(req.companyId!, bankAccountId as string, asOfDate as string, reported);
+    if (!result) {
+      return res.status(404).json({ error: 'Bank account not found' });
+    }
+
+    const yearAgo = `${Number((asOfDate as string).slice(0, 4)) - 1}${(asOfDate as string).slice(4)}`;
+    const history = await getBankReconciliationHistory(
+      req.companyId!,
+      bankAccountId as string,
+      periodEndDates(yearAgo, asOfDate as string, 'quarter')
+    );
+
+    const company = await db.query.companies.findFirst({
+      where: eq(companies.id, req.companyId!),
+    });
+
+    const buffer = await generateBankReconciliationExcel(company!, result.bankAccount, {
+      statement: result.statement,
+      history: history?.history,
+    });
+    const filename = `BRS_${result.bankAccount.bankName}_${asOfDate}.xlsx`;
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(buffer);
+  } catch (error) {
+    console.error('Export reconciliation statement error:', error);
+    res.status(500).json({ error: 'Failed to export reconciliation statement' });
+  }
+});
+
 // Get reconciliation by ID
 router.get('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
@@ -3,9 +3,49 @@ import { db } from '../db';
 import { bills, billLines, fiscalYears, journalEntries, journalEntryLines, chartOfAccounts, paymentsMade, paymentMadeAllocations } from '@shared/schema';
 import { eq, and, desc, asc, gte, lte } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { webhookEvents } from '../services/integrations/webhookDispatcher';
+import { recordDocumentStock, reverseDocumentStock, getStockPeriodError } from '../services/inventory';
+import { allocateDocumentNumber, releaseDocumentNumber } from '../services/numbering';
+import { refreshPeriodBalances } from '../services/ledger';
+import {
+  resolveDocumentCurrency,
+  convertAmountFields,
+  foreignAmountFields,
+  settleForeignBalance,
+  settlementJournalLines,
+  getForexAccounts,
+  toBase,
+  type Settlement,
+} from '../services/forex';
+import {
+  findApplicablePolicy,
+  requestApproval,
+  getPendingApproval,
+  getLatestApproval,
+  cancelApprovalRequests,
+  approvalBlocker,
+  requestApproverRoles,
+  decideApproval,
+  type ApprovalDocument,
+} from '../services/approvals';
 
 const router = Router();
 
+// What the approval policies look at for a bill
+function approvalDocument(
+  bill: { id: string; billNumber: string; totalAmount: string; vendorBillNumber: string | null },
+  accountIds: (string | null)[]
+): ApprovalDocument {
+  return {
+    documentType: 'bill',
+    documentId: bill.id,
+    documentNumber: bill.billNumber,
+    amount: parseFloat(bill.totalAmount),
+    accountIds: [...new Set(accountIds.filter((id): id is string => !!id))],
+    description: bill.vendorBillNumber ? `Vendor bill ${bill.vendorBillNumber}` : null,
+  };
+}
+
 // Get all bills
 router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
@@ -49,6 +89,10 @@ router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       totalAmount: b.totalAmount,
       paidAmount: b.paidAmount || '0',
       balanceAmount: b.balanceDue,
+      currencyCode: b.currencyCode,
+      exchangeRate: b.exchangeRate,
+      totalAmountFcy: b.totalAmountFcy,
+      balanceAmountFcy: b.balanceDueFcy,
       status: b.status === 'pending' ? 'open' : b.status,
     }));
 
@@ -88,7 +132,9 @@ router.get('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ error: 'Bill not found' });
     }
 
-    res.json(bill);
+    const approval = await getLatestApproval(db, req.companyId!, 'bill', bill.id);
+
+    res.json({ ...bill, approval: approval || null });
   } catch (error) {
     console.error('Get bill error:', error);
     res.status(500).json({ error: 'Failed to get bill' });
@@ -104,6 +150,9 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       billDate,
       dueDate,
       notes,
+      currencyCode,
+      exchangeRate,
+      reverseCharge,
       items = [],
     } = req.body;
 
@@ -111,6 +160,18 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'Vendor, bill date, and due date are required' });
     }
 
+    // Items are entered in the bill currency; the rate defaults to the stored one for the bill date
+    const currency = await resolveDocumentCurrency(
+      db,
+      req.companyId!,
+      currencyCode,
+      billDate,
+      exchangeRate ? parseFloat(exchangeRate) : null
+    );
+    if (!currency) {
+      return res.status(400).json({ error: `No ${currencyCode} exchange rate on or before ${billDate}; enter the rate on the bill` });
+    }
+
     // Get current fiscal year
     const fiscalYear = await db.query.fiscalYears.findFirst({
       where: and(
@@ -123,17 +184,6 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate bill number
-    const lastBill = await db.query.bills.findFirst({
-      where: eq(bills.companyId, req.companyId!),
-      orderBy: desc(bills.createdAt),
-    });
-
-    const nextNumber = lastBill
-      ? parseInt(lastBill.billNumber.split('-').pop() || '0', 10) + 1
-      : 1;
-    const billNumber = `BILL-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
-
     // Calculate totals
     let subtotal = 0;
     let totalTax = 0;
@@ -157,6 +207,7 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       return {
         productId: item.productId,
         accountId: item.accountId,
+        costCenterId: item.costCenterId || null,
         description: item.description,
         hsnSacCode: item.hsnSac || item.hsnSacCode,
         quantity: quantity.toString(),
@@ -168,10 +219,40 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       };
     });
 
-    const totalAmount = subtotal + totalTax;
+    let totalAmount = subtotal + totalTax;
+    const totalAmountFcy = totalAmount;
+    let baseLines = processedLines;
+
+    // Foreign currency lines are kept in the base currency at the bill rate
+    if (currency.currencyCode) {
+      baseLines = processedLines.map((line: any) =>
+        convertAmountFields(line, currency.exchangeRate, ['unitPrice', 'taxAmount', 'amount'])
+      );
+      totalTax = baseLines.reduce((sum: number, line: any) => sum + parseFloat(line.taxAmount), 0);
+      totalAmount = baseLines.reduce((sum: number, line: any) => sum + parseFloat(line.amount), 0);
+      subtotal = totalAmount - totalTax;
+      totalCgst = totalTax / 2;
+      totalSgst = totalTax / 2;
+    }
+
+    // A bill that meets an approval policy is held, with its journal unposted, until approved
+    const approvalPolicy = await findApplicablePolicy(db, req.companyId!, {
+      documentType: 'bill',
+      amount: totalAmount,
+      accountIds: baseLines.map((line: any) => line.accountId).filter(Boolean),
+    });
+
+    const stockPeriodError = !approvalPolicy && baseLines.some((line: any) => line.productId)
+      ? await getStockPeriodError(db, req.companyId!, billDate)
+      : null;
+    if (stockPeriodError) {
+      return res.status(400).json({ error: stockPeriodError });
+    }
 
     // Create bill, line items, and journal entry in a transaction
     const completeBill = await db.transaction(async (tx) => {
+      const billNumber = await allocateDocumentNumber(tx, req.companyId!, 'bill', fiscalYear);
+
       const [bill] = await tx.insert(bills).values({
         companyId: req.companyId!,
         fiscalYearId: fiscalYear.id,
@@ -184,34 +265,51 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
         taxAmount: totalTax.toString(),
         cgst: totalCgst.toString(),
         sgst: totalSgst.toString(),
+        reverseCharge: Boolean(reverseCharge),
         totalAmount: totalAmount.toString(),
         paidAmount: '0',
         balanceDue: totalAmount.toString(),
-        status: 'pending',
+        currencyCode: currency.currencyCode,
+        exchangeRate: currency.exchangeRate.toString(),
+        totalAmountFcy: currency.currencyCode ? totalAmountFcy.toString() : null,
+        paidAmountFcy: currency.currencyCode ? '0' : null,
+        balanceDueFcy: currency.currencyCode ? totalAmountFcy.toString() : null,
+        status: approvalPolicy ? 'pending_approval' : 'pending',
         notes,
         createdByUserId: req.userId,
       }).returning();
 
-      if (processedLines.length > 0) {
+      if (approvalPolicy) {
+        await requestApproval(
+          tx,
+          req.companyId!,
+          approvalDocument(bill, baseLines.map((line: any) => line.accountId)),
+          approvalPolicy,
+          req.userId
+        );
+      }
+
+      if (baseLines.length > 0) {
         await tx.insert(billLines).values(
-          processedLines.map((line: any) => ({
+          baseLines.map((line: any) => ({
             billId: bill.id,
             ...line,
           }))
         );
       }
 
-      // Create journal entry for the bill
-      const lastEntry = await tx.query.journalEntries.findFirst({
-        where: eq(journalEntries.companyId, req.companyId!),
-        orderBy: desc(journalEntries.createdAt),
-      });
-
-      const nextNum = lastEntry
-        ? parseInt(lastEntry.entryNumber.split('/').pop() || '0', 10) + 1
-        : 1;
-      const entryNumber = `BILL/${fiscalYear.name.replace(/\s/g, '')}/${nextNum.toString().padStart(5, '0')}`;
+      // Goods come into stock once the bill is approved
+      if (!approvalPolicy) {
+        await recordDocumentStock(tx, req.companyId!, {
+          sourceType: 'bill',
+          sourceId: bill.id,
+          sourceNumber: billNumber,
+          date: billDate,
+          lines: baseLines,
+        }, req.userId);
+      }
 
+      // Create journal entry for the bill
       const apAccount = await tx.query.chartOfAccounts.findFirst({
         where: and(
           eq(chartOfAccounts.companyId, req.companyId!),
@@ -220,6 +318,8 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       });
 
       if (apAccount) {
+        const entryNumber = await allocateDocumentNumber(tx, req.companyId!, 'journal_entry', fiscalYear, { type: 'BILL' });
+
         const [je] = await tx.insert(journalEntries).values({
           companyId: req.companyId!,
           fiscalYearId: fiscalYear.id,
@@ -231,7 +331,7 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
           totalCredit: totalAmount.toString(),
           sourceType: 'bill',
           sourceId: bill.id,
-          status: 'posted',
+          status: approvalPolicy ? 'pending_approval' : 'posted',
           createdByUserId: req.userId,
         }).returning();
 
@@ -242,16 +342,18 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
           accountId: apAccount.id,
           debitAmount: '0',
           creditAmount: totalAmount.toString(),
+          ...foreignAmountFields(currency.currencyCode, currency.exchangeRate, 0, totalAmountFcy),
           partyType: 'vendor' as const,
           partyId: vendorId,
           description: `Bill ${billNumber}`,
         });
 
-        for (const line of processedLines) {
+        for (const line of baseLines) {
           if (line.accountId) {
             jeLines.push({
               journalEntryId: je.id,
               accountId: line.accountId,
+              costCenterId: line.costCenterId,
               debitAmount: line.amount,
               creditAmount: '0',
               description: line.description,
@@ -261,6 +363,9 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
 
         if (jeLines.length > 0) {
           await tx.insert(journalEntryLines).values(jeLines);
+          if (je.status === 'posted') {
+            await refreshPeriodBalances(tx, req.companyId!, [je]);
+          }
         }
 
         await tx.update(bills)
@@ -277,6 +382,8 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       });
     });
 
+    webhookEvents.billCreated(req.companyId!, completeBill);
+
     res.status(201).json(completeBill);
   } catch (error) {
     console.error('Create bill error:', error);
@@ -320,11 +427,239 @@ router.patch('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
   }
 });
 
+// Submit a draft bill, posting it or sending it for approval
+router.post('/:id/submit', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const bill = await db.query.bills.findFirst({
+      where: and(
+        eq(bills.id, id),
+        eq(bills.companyId, req.companyId!)
+      ),
+      with: {
+        lines: true,
+      },
+    });
+
+    if (!bill) {
+      return res.status(404).json({ error: 'Bill not found' });
+    }
+
+    if (bill.status !== 'draft') {
+      return res.status(400).json({ error: 'Only draft bills can be submitted' });
+    }
+
+    const document = approvalDocument(bill, bill.lines.map(line => line.accountId));
+    const approvalPolicy = await findApplicablePolicy(db, req.companyId!, document);
+
+    const stockPeriodError = !approvalPolicy && bill.lines.some(line => line.productId)
+      ? await getStockPeriodError(db, req.companyId!, bill.billDate)
+      : null;
+    if (stockPeriodError) {
+      return res.status(400).json({ error: stockPeriodError });
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      if (bill.journalEntryId) {
+        const [je] = await tx.update(journalEntries)
+          .set({
+            status: approvalPolicy ? 'pending_approval' : 'posted',
+            postingDate: approvalPolicy ? null : bill.billDate,
+            updatedAt: new Date(),
+          })
+          .where(eq(journalEntries.id, bill.journalEntryId))
+          .returning();
+        if (je && !approvalPolicy) {
+          await refreshPeriodBalances(tx, req.companyId!, [je]);
+        }
+      }
+
+      if (approvalPolicy) {
+        await requestApproval(tx, req.companyId!, document, approvalPolicy, req.userId);
+      } else {
+        await recordDocumentStock(tx, req.companyId!, {
+          sourceType: 'bill',
+          sourceId: bill.id,
+          sourceNumber: bill.billNumber,
+          date: bill.billDate,
+          lines: bill.lines,
+        }, req.userId);
+      }
+
+      const [submitted] = await tx.update(bills)
+        .set({ status: approvalPolicy ? 'pending_approval' : 'pending', updatedAt: new Date() })
+        .where(eq(bills.id, id))
+        .returning();
+      return submitted;
+    });
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Submit bill error:', error);
+    res.status(500).json({ error: 'Failed to submit bill' });
+  }
+});
+
+// Approve a bill awaiting approval, posting its journal
+router.post('/:id/approve', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { comments } = req.body;
+
+    const bill = await db.query.bills.findFirst({
+      where: and(
+        eq(bills.id, id),
+        eq(bills.companyId, req.companyId!)
+      ),
+      with: {
+        lines: true,
+      },
+    });
+
+    if (!bill) {
+      return res.status(404).json({ error: 'Bill not found' });
+    }
+
+    const approval = await getPendingApproval(db, req.companyId!, 'bill', id);
+    if (bill.status !== 'pending_approval' || !approval) {
+      return res.status(400).json({ error: 'Bill is not awaiting approval' });
+    }
+
+    const stockPeriodError = bill.lines.some(line => line.productId)
+      ? await getStockPeriodError(db, req.companyId!, bill.billDate)
+      : null;
+    if (stockPeriodError) {
+      return res.status(400).json({ error: stockPeriodError });
+    }
+
+    const blocker = approvalBlocker(
+      approval,
+      requestApproverRoles(approval),
+      { userId: req.userId!, role: req.companyRole },
+      bill.createdByUserId
+    );
+    if (blocker) {
+      return res.status(403).json({ error: blocker });
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      if (!await decideApproval(tx, approval.id, 'approved', req.userId!, comments)) {
+        return null;
+      }
+
+      if (bill.journalEntryId) {
+        const [je] = await tx.update(journalEntries)
+          .set({
+            status: 'posted',
+            postingDate: bill.billDate,
+            approvedByUserId: req.userId!,
+            approvedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(journalEntries.id, bill.journalEntryId))
+          .returning();
+        if (je) {
+          await refreshPeriodBalances(tx, req.companyId!, [je]);
+        }
+      }
+
+      await recordDocumentStock(tx, req.companyId!, {
+        sourceType: 'bill',
+        sourceId: bill.id,
+        sourceNumber: bill.billNumber,
+        date: bill.billDate,
+        lines: bill.lines,
+      }, req.userId);
+
+      const [approved] = await tx.update(bills)
+        .set({ status: 'pending', updatedAt: new Date() })
+        .where(eq(bills.id, id))
+        .returning();
+      return approved;
+    });
+
+    if (!updated) {
+      return res.status(409).json({ error: 'Bill has already been approved or rejected' });
+    }
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Approve bill error:', error);
+    res.status(500).json({ error: 'Failed to approve bill' });
+  }
+});
+
+// Reject a bill awaiting approval, returning it to draft
+router.post('/:id/reject', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { comments } = req.body;
+
+    if (!comments?.trim()) {
+      return res.status(400).json({ error: 'Comments are required to reject a bill' });
+    }
+
+    const bill = await db.query.bills.findFirst({
+      where: and(
+        eq(bills.id, id),
+        eq(bills.companyId, req.companyId!)
+      ),
+    });
+
+    if (!bill) {
+      return res.status(404).json({ error: 'Bill not found' });
+    }
+
+    const approval = await getPendingApproval(db, req.companyId!, 'bill', id);
+    if (bill.status !== 'pending_approval' || !approval) {
+      return res.status(400).json({ error: 'Bill is not awaiting approval' });
+    }
+
+    const blocker = approvalBlocker(
+      approval,
+      requestApproverRoles(approval),
+      { userId: req.userId!, role: req.companyRole },
+      bill.createdByUserId
+    );
+    if (blocker) {
+      return res.status(403).json({ error: blocker });
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      if (!await decideApproval(tx, approval.id, 'rejected', req.userId!, comments.trim())) {
+        return null;
+      }
+
+      if (bill.journalEntryId) {
+        await tx.update(journalEntries)
+          .set({ status: 'draft', updatedAt: new Date() })
+          .where(eq(journalEntries.id, bill.journalEntryId));
+      }
+
+      const [rejected] = await tx.update(bills)
+        .set({ status: 'draft', updatedAt: new Date() })
+        .where(eq(bills.id, id))
+        .returning();
+      return rejected;
+    });
+
+    if (!updated) {
+      return res.status(409).json({ error: 'Bill has already been approved or rejected' });
+    }
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Reject bill error:', error);
+    res.status(500).json({ error: 'Failed to reject bill' });
+  }
+});
+
 // Record payment for bill
 router.post('/:id/record-payment', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
-    const { amount, paymentDate, paymentMode, referenceNumber, bankAccountId } = req.body;
+    const { amount, paymentDate, paymentMode, referenceNumber, bankAccountId, exchangeRate } = req.body;
 
     const bill = await db.query.bills.findFirst({
       where: and(
@@ -344,17 +679,47 @@ router.post('/:id/record-payment', requireCompany, async (req: AuthenticatedRequ
       return res.status(400).json({ error: 'Cannot record payment for this bill' });
     }
 
-    const paymentAmount = parseFloat(amount);
+    const paidOn = paymentDate || new Date().toISOString().split('T')[0];
+    const enteredAmount = parseFloat(amount);
     const currentPaid = parseFloat(bill.paidAmount || '0');
     const totalAmount = parseFloat(bill.totalAmount);
-    const newPaidAmount = currentPaid + paymentAmount;
+
+    // Foreign currency bills are paid in their own currency, at the rate of the payment date
+    let settlement: Settlement | null = null;
+    let paymentRate = 1;
+    if (bill.currencyCode) {
+      const currency = await resolveDocumentCurrency(
+        db,
+        req.companyId!,
+        bill.currencyCode,
+        paidOn,
+        exchangeRate ? parseFloat(exchangeRate) : null
+      );
+      if (!currency) {
+        return res.status(400).json({ error: `No ${bill.currencyCode} exchange rate on or before ${paidOn}; enter the rate of the payment` });
+      }
+      if (enteredAmount > parseFloat(bill.balanceDueFcy || '0')) {
+        return res.status(400).json({ error: 'Payment amount exceeds balance due' });
+      }
+      paymentRate = currency.exchangeRate;
+      settlement = settleForeignBalance({
+        balanceDue: parseFloat(bill.balanceDue),
+        balanceDueFcy: parseFloat(bill.balanceDueFcy || '0'),
+        exchangeRate: parseFloat(bill.exchangeRate || '1'),
+      }, enteredAmount, paymentRate, 'payable');
+    }
+
+    const paymentAmount = settlement ? settlement.baseSettled : enteredAmount;
+    const clearedAmount = settlement ? settlement.baseCleared : enteredAmount;
+    const newPaidAmount = currentPaid + clearedAmount;
     const newBalanceDue = totalAmount - newPaidAmount;
 
     if (newPaidAmount > totalAmount) {
       return res.status(400).json({ error: 'Payment amount exceeds balance due' });
     }
 
-    const newStatus = newBalanceDue === 0 ? 'paid' : 'partially_paid';
+    const newBalanceDueFcy = settlement ? parseFloat(bill.balanceDueFcy || '0') - settlement.amountFcy : 0;
+    const newStatus = (settlement ? newBalanceDueFcy : newBalanceDue) === 0 ? 'paid' : 'partially_paid';
 
     // Get fiscal year
     const fiscalYear = await db.query.fiscalYears.findFirst({
@@ -380,14 +745,17 @@ router.post('/:id/record-payment', requireCompany, async (req: AuthenticatedRequ
     const paymentNumber = `PM-${fiscalYear.name.replace(/\s/g, '')}-${nextNum.toString().padStart(5, '0')}`;
 
     // Create payment, allocation, journal entry, and update bill in a transaction
-    const updated = await db.transaction(async (tx) => {
+    const { updated, payment } = await db.transaction(async (tx) => {
       const [payment] = await tx.insert(paymentsMade).values({
         companyId: req.companyId!,
         fiscalYearId: fiscalYear.id,
         paymentNumber,
-        paymentDate: paymentDate || new Date().toISOString().split('T')[0],
+        paymentDate: paidOn,
         vendorId: bill.vendorId,
         amount: paymentAmount.toString(),
+        currencyCode: bill.currencyCode,
+        exchangeRate: paymentRate.toString(),
+        amountFcy: settlement ? settlement.amountFcy.toString() : null,
         paymentMethod: paymentMode || 'bank',
         referenceNumber,
         bankAccountId,
@@ -398,59 +766,52 @@ router.post('/:id/record-payment', requireCompany, async (req: AuthenticatedRequ
       await tx.insert(paymentMadeAllocations).values({
         paymentMadeId: payment.id,
         billId: bill.id,
-        amount: paymentAmount.toString(),
+        amount: clearedAmount.toString(),
+        amountFcy: settlement ? settlement.amountFcy.toString() : null,
+        exchangeDifference: settlement ? settlement.exchangeDifference.toString() : '0',
       });
 
       if (bankAccountId) {
-        const lastEntry = await tx.query.journalEntries.findFirst({
-          where: eq(journalEntries.companyId, req.companyId!),
-          orderBy: desc(journalEntries.createdAt),
-        });
-
-        const nextEntryNum = lastEntry
-          ? parseInt(lastEntry.entryNumber.split('/').pop() || '0', 10) + 1
-          : 1;
-        const entryNumber = `PAY/${fiscalYear.name.replace(/\s/g, '')}/${nextEntryNum.toString().padStart(5, '0')}`;
-
-        const apAccount = await tx.query.chartOfAccounts.findFirst({
-          where: and(
-            eq(chartOfAccounts.companyId, req.companyId!),
-            eq(chartOfAccounts.code, '2100')
-          ),
-        });
+        const forexAccounts = await getForexAccounts(tx, req.companyId!);
+
+        if (forexAccounts.payablesAccountId) {
+          const entryNumber = await allocateDocumentNumber(tx, req.companyId!, 'journal_entry', fiscalYear, { type: 'PAY' });
+
+          const lines = settlementJournalLines({
+            side: 'payable',
+            bankAccountId,
+            controlAccountId: forexAccounts.payablesAccountId,
+            partyType: 'vendor',
+            partyId: bill.vendorId,
+            currencyCode: bill.currencyCode,
+            paymentRate,
+            amountFcy: enteredAmount,
+            baseAmount: settlement ? toBase(enteredAmount, paymentRate) : enteredAmount,
+            settlements: settlement ? [settlement] : [],
+            accounts: forexAccounts,
+            descriptions: {
+              bank: `Payment - ${referenceNumber || bill.billNumber}`,
+              party: `Payment - ${bill.billNumber}`,
+              exchange: `Exchange difference - ${bill.billNumber}`,
+            },
+          });
+          const total = lines.reduce((sum, line) => sum + parseFloat(line.debitAmount), 0).toFixed(2);
 
-        if (apAccount) {
           const [je] = await tx.insert(journalEntries).values({
             companyId: req.companyId!,
             fiscalYearId: fiscalYear.id,
             entryNumber,
-            entryDate: paymentDate || new Date().toISOString().split('T')[0],
+            entryDate: paidOn,
             entryType: 'auto_payment',
             narration: `Payment made for Bill ${bill.billNumber} - ${bill.vendor.name}`,
-            totalDebit: paymentAmount.toString(),
-            totalCredit: paymentAmount.toString(),
+            totalDebit: total,
+            totalCredit: total,
             status: 'posted',
             createdByUserId: req.userId,
           }).returning();
 
-          await tx.insert(journalEntryLines).values([
-            {
-              journalEntryId: je.id,
-              accountId: apAccount.id,
-              debitAmount: paymentAmount.toString(),
-              creditAmount: '0',
-              partyType: 'vendor' as const,
-              partyId: bill.vendorId,
-              description: `Payment - ${bill.billNumber}`,
-            },
-            {
-              journalEntryId: je.id,
-              accountId: bankAccountId,
-              debitAmount: '0',
-              creditAmount: paymentAmount.toString(),
-              description: `Payment - ${referenceNumber || bill.billNumber}`,
-            },
-          ]);
+          await tx.insert(journalEntryLines).values(lines.map(line => ({ journalEntryId: je.id, ...line })));
+          await refreshPeriodBalances(tx, req.companyId!, [je]);
 
           await tx.update(paymentsMade)
             .set({ journalEntryId: je.id })
@@ -462,15 +823,24 @@ router.post('/:id/record-payment', requireCompany, async (req: AuthenticatedRequ
         .set({
           paidAmount: newPaidAmount.toString(),
           balanceDue: newBalanceDue.toString(),
+          ...(settlement && {
+            paidAmountFcy: (parseFloat(bill.paidAmountFcy || '0') + settlement.amountFcy).toString(),
+            balanceDueFcy: newBalanceDueFcy.toString(),
+          }),
           status: newStatus,
           updatedAt: new Date(),
         })
         .where(eq(bills.id, id))
         .returning();
 
-      return inv;
+      return { updated: inv, payment };
     });
 
+    webhookEvents.paymentMade(req.companyId!, { ...payment, vendor: bill.vendor, billId: bill.id, billNumber: bill.billNumber });
+    if (updated.status === 'paid') {
+      webhookEvents.billPaid(req.companyId!, { ...updated, vendor: bill.vendor });
+    }
+
     res.json(updated);
   } catch (error) {
     console.error('Record payment error:', error);
@@ -502,6 +872,11 @@ router.post('/:id/cancel', requireCompany, async (req: AuthenticatedRequest, res
       return res.status(400).json({ error: 'Cannot cancel bill with payments. Remove payments first.' });
     }
 
+    const stockPeriodError = await getStockPeriodError(db, req.companyId!, bill.billDate);
+    if (stockPeriodError) {
+      return res.status(400).json({ error: stockPeriodError });
+    }
+
     // Reverse journal entries
     const relatedJournals = await db.query.journalEntries.findMany({
       where: and(
@@ -515,6 +890,7 @@ router.post('/:id/cancel', requireCompany, async (req: AuthenticatedRequest, res
       await db.delete(journalEntryLines).where(eq(journalEntryLines.journalEntryId, je.id));
       await db.delete(journalEntries).where(eq(journalEntries.id, je.id));
     }
+    await refreshPeriodBalances(db, req.companyId!, relatedJournals);
 
     const [updated] = await db.update(bills)
       .set({
@@ -524,6 +900,8 @@ router.post('/:id/cancel', requireCompany, async (req: AuthenticatedRequest, res
       .where(eq(bills.id, id))
       .returning();
 
+    await reverseDocumentStock(db, req.companyId!, 'bill', id, bill.billDate, req.userId);
+
     res.json(updated);
   } catch (error) {
     console.error('Cancel bill error:', error);
@@ -547,17 +925,31 @@ router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) =>
       return res.status(404).json({ error: 'Bill not found' });
     }
 
-    if (!['draft', 'pending'].includes(bill.status)) {
+    if (!['draft', 'pending', 'pending_approval'].includes(bill.status)) {
       return res.status(400).json({ error: 'Only draft or pending bills can be deleted' });
     }
 
+    const stockPeriodError = bill.status === 'pending'
+      ? await getStockPeriodError(db, req.companyId!, bill.billDate)
+      : null;
+    if (stockPeriodError) {
+      return res.status(400).json({ error: stockPeriodError });
+    }
+
     await db.transaction(async (tx) => {
+      await cancelApprovalRequests(tx, req.companyId!, 'bill', id);
       if (bill.journalEntryId) {
         await tx.delete(journalEntryLines).where(eq(journalEntryLines.journalEntryId, bill.journalEntryId));
-        await tx.delete(journalEntries).where(eq(journalEntries.id, bill.journalEntryId));
+        const [je] = await tx.delete(journalEntries).where(eq(journalEntries.id, bill.journalEntryId)).returning();
+        if (je) {
+          await refreshPeriodBalances(tx, req.companyId!, [je]);
+          await releaseDocumentNumber(tx, req.companyId!, 'journal_entry', je.fiscalYearId, je.entryNumber, { type: 'BILL' });
+        }
       }
+      await reverseDocumentStock(tx, req.companyId!, 'bill', id, bill.billDate, req.userId);
       await tx.delete(billLines).where(eq(billLines.billId, id));
       await tx.delete(bills).where(eq(bills.id, id));
+      await releaseDocumentNumber(tx, req.companyId!, 'bill', bill.fiscalYearId, bill.billNumber);
     });
 
     res.json({ message: 'Bill deleted' });
@@ -0,0 +1,438 @@
+import { Router } from 'express';
+import { db } from '../db';
+import {
+  budgets,
+  budgetLines,
+  budgetPhasingTemplates,
+  chartOfAccounts,
+  costCenters,
+  fiscalYears,
+  type FiscalYear,
+} from '@shared/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import {
+  fiscalYearMonths,
+  phaseEvenly,
+  phaseByWeights,
+  phaseFromActuals,
+  sumAmounts,
+  validatePhasingWeights,
+  getLastYearActuals,
+  getBudgetVsActual,
+  type BudgetPhasing,
+} from '../services/budgets';
+
+const router = Router();
+
+const PHASINGS: BudgetPhasing[] = ['even', 'seasonal', 'last_year'];
+const BUDGET_ACCOUNT_TYPES = ['income', 'expense'];
+
+async function findBudget(companyId: string, id: string) {
+  return db.query.budgets.findFirst({
+    where: and(
+      eq(budgets.id, id),
+      eq(budgets.companyId, companyId)
+    ),
+    with: {
+      fiscalYear: true,
+      lines: {
+        with: { account: true, costCenter: true, phasingTemplate: true },
+      },
+    },
+  });
+}
+
+// Works out the monthly amounts of a budget line from its phasing method
+async function phaseLine(
+  companyId: string,
+  fiscalYear: Pick<FiscalYear, 'startDate' | 'endDate'>,
+  input: any
+): Promise<{ error: string } | { values: Record<string, any> }> {
+  const { accountId, costCenterId, phasing = 'even', phasingTemplateId } = input;
+
+  if (!accountId) return { error: 'Account is required' };
+  if (!PHASINGS.includes(phasing)) return { error: 'Phasing must be even, seasonal or last_year' };
+
+  const account = await db.query.chartOfAccounts.findFirst({
+    where: and(
+      eq(chartOfAccounts.id, accountId),
+      eq(chartOfAccounts.companyId, companyId)
+    ),
+  });
+  if (!account || account.isGroup) return { error: 'Account not found' };
+  if (!BUDGET_ACCOUNT_TYPES.includes(account.accountType)) {
+    return { error: 'Budgets can be set only for income and expense accounts' };
+  }
+
+  if (costCenterId) {
+    const costCenter = await db.query.costCenters.findFirst({
+      where: and(
+        eq(costCenters.id, costCenterId),
+        eq(costCenters.companyId, companyId)
+      ),
+    });
+    if (!costCenter) return { error: 'Cost center not found' };
+  }
+
+  const months = fiscalYearMonths(fiscalYear.startDate, fiscalYear.endDate);
+  const annualAmount = parseFloat(input.annualAmount);
+  const growthPercent = parseFloat(input.growthPercent || '0');
+  let monthlyAmounts: number[];
+
+  if (phasing === 'last_year') {
+    if (!Number.isFinite(growthPercent)) return { error: 'Growth percentage must be a number' };
+    const actuals = await getLastYearActuals(companyId, fiscalYear, account, costCenterId || null);
+    monthlyAmounts = phaseFromActuals(actuals, growthPercent);
+  } else {
+    if (!Number.isFinite(annualAmount) || annualAmount < 0) return { error: 'Annual amount must be zero or more' };
+
+    if (phasing === 'seasonal') {
+      const template = phasingTemplateId && await db.query.budgetPhasingTemplates.findFirst({
+        where: and(
+          eq(budgetPhasingTemplates.id, phasingTemplateId),
+          eq(budgetPhasingTemplates.companyId, companyId)
+        ),
+      });
+      if (!template) return { error: 'Seasonal template not found' };
+
+      monthlyAmounts = phaseByWeights(annualAmount, (template.weights as number[]).slice(0, months.length));
+      if (monthlyAmounts.length === 0) return { error: 'The template has no weight in the months of this fiscal year' };
+    } else {
+      monthlyAmounts = phaseEvenly(annualAmount, months.length);
+    }
+  }
+
+  return {
+    values: {
+      accountId,
+      costCenterId: costCenterId || null,
+      phasing,
+      phasingTemplateId: phasing === 'seasonal' ? phasingTemplateId : null,
+      growthPercent: phasing === 'last_year' ? growthPercent.toString() : null,
+      annualAmount: sumAmounts(monthlyAmounts).toFixed(2),
+      monthlyAmounts,
+    },
+  };
+}
+
+// Get seasonal phasing templates
+router.get('/templates', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const templates = await db.query.budgetPhasingTemplates.findMany({
+      where: eq(budgetPhasingTemplates.companyId, req.companyId!),
+      orderBy: budgetPhasingTemplates.name,
+    });
+
+    res.json(templates);
+  } catch (error) {
+    console.error('Get phasing templates error:', error);
+    res.status(500).json({ error: 'Failed to get phasing templates' });
+  }
+});
+
+// Create a seasonal phasing template
+router.post('/templates', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { name } = req.body;
+    const weights = Array.isArray(req.body.weights) ? req.body.weights.map((weight: any) => parseFloat(weight)) : req.body.weights;
+
+    if (!name) {
+      return res.status(400).json({ error: 'Name is required' });
+    }
+    const error = validatePhasingWeights(weights);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const existing = await db.query.budgetPhasingTemplates.findFirst({
+      where: and(
+        eq(budgetPhasingTemplates.companyId, req.companyId!),
+        eq(budgetPhasingTemplates.name, name)
+      ),
+    });
+    if (existing) {
+      return res.status(400).json({ error: 'A template with this name already exists' });
+    }
+
+    const [template] = await db.insert(budgetPhasingTemplates).values({
+      companyId: req.companyId!,
+      name,
+      weights,
+    }).returning();
+
+    res.status(201).json(template);
+  } catch (error) {
+    console.error('Create phasing template error:', error);
+    res.status(500).json({ error: 'Failed to create phasing template' });
+  }
+});
+
+// Delete a seasonal phasing template no budget line uses
+router.delete('/templates/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const template = await db.query.budgetPhasingTemplates.findFirst({
+      where: and(
+        eq(budgetPhasingTemplates.id, req.params.id),
+        eq(budgetPhasingTemplates.companyId, req.companyId!)
+      ),
+    });
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    const line = await db.query.budgetLines.findFirst({
+      where: eq(budgetLines.phasingTemplateId, template.id),
+    });
+    if (line) {
+      return res.status(400).json({ error: 'Template is used by budget lines' });
+    }
+
+    await db.delete(budgetPhasingTemplates).where(eq(budgetPhasingTemplates.id, template.id));
+    res.json({ message: 'Template deleted' });
+  } catch (error) {
+    console.error('Delete phasing template error:', error);
+    res.status(500).json({ error: 'Failed to delete phasing template' });
+  }
+});
+
+// Get all budgets
+router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { fiscalYearId } = req.query;
+
+    const result = await db.query.budgets.findMany({
+      where: and(
+        eq(budgets.companyId, req.companyId!),
+        fiscalYearId ? eq(budgets.fiscalYearId, fiscalYearId as string) : undefined
+      ),
+      with: {
+        fiscalYear: true,
+        lines: true,
+      },
+      orderBy: desc(budgets.createdAt),
+    });
+
+    res.json(result.map(({ lines, ...budget }) => ({
+      ...budget,
+      lineCount: lines.length,
+      totalAmount: sumAmounts(lines.map(line => parseFloat(line.annualAmount))),
+    })));
+  } catch (error) {
+    console.error('Get budgets error:', error);
+    res.status(500).json({ error: 'Failed to get budgets' });
+  }
+});
+
+// Get a budget with its lines
+router.get('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const budget = await findBudget(req.companyId!, req.params.id);
+    if (!budget) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    res.json({ ...budget, months: fiscalYearMonths(budget.fiscalYear.startDate, budget.fiscalYear.endDate) });
+  } catch (error) {
+    console.error('Get budget error:', error);
+    res.status(500).json({ error: 'Failed to get budget' });
+  }
+});
+
+// Create a budget
+router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { fiscalYearId, name, description } = req.body;
+
+    if (!fiscalYearId || !name) {
+      return res.status(400).json({ error: 'Fiscal year and name are required' });
+    }
+
+    const fiscalYear = await db.query.fiscalYears.findFirst({
+      where: and(
+        eq(fiscalYears.id, fiscalYearId),
+        eq(fiscalYears.companyId, req.companyId!)
+      ),
+    });
+    if (!fiscalYear) {
+      return res.status(400).json({ error: 'Fiscal year not found' });
+    }
+
+    const existing = await db.query.budgets.findFirst({
+      where: and(
+        eq(budgets.companyId, req.companyId!),
+        eq(budgets.fiscalYearId, fiscalYearId),
+        eq(budgets.name, name)
+      ),
+    });
+    if (existing) {
+      return res.status(400).json({ error: `${fiscalYear.name} already has a budget named ${name}` });
+    }
+
+    const [budget] = await db.insert(budgets).values({
+      companyId: req.companyId!,
+      fiscalYearId,
+      name,
+      description,
+      createdByUserId: req.userId,
+    }).returning();
+
+    res.status(201).json(budget);
+  } catch (error) {
+    console.error('Create budget error:', error);
+    res.status(500).json({ error: 'Failed to create budget' });
+  }
+});
+
+// Update a budget
+router.patch('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const budget = await findBudget(req.companyId!, req.params.id);
+    if (!budget) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    const { name, description, isActive } = req.body;
+    const updateData: any = { updatedAt: new Date() };
+    if (name !== undefined) updateData.name = name;
+    if (description !== undefined) updateData.description = description;
+    if (isActive !== undefined) updateData.isActive = isActive;
+
+    const [updated] = await db.update(budgets)
+      .set(updateData)
+      .where(eq(budgets.id, budget.id))
+      .returning();
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Update budget error:', error);
+    res.status(500).json({ error: 'Failed to update budget' });
+  }
+});
+
+// Delete a budget and its lines
+router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const budget = await findBudget(req.companyId!, req.params.id);
+    if (!budget) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    await db.delete(budgets).where(eq(budgets.id, budget.id));
+    res.json({ message: 'Budget deleted' });
+  } catch (error) {
+    console.error('Delete budget error:', error);
+    res.status(500).json({ error: 'Failed to delete budget' });
+  }
+});
+
+// Add a line to a budget
+router.post('/:id/lines', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const budget = await findBudget(req.companyId!, req.params.id);
+    if (!budget) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    const result = await phaseLine(req.companyId!, budget.fiscalYear, req.body);
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    const duplicate = budget.lines.some(line =>
+      line.accountId === result.values.accountId && line.costCenterId === result.values.costCenterId
+    );
+    if (duplicate) {
+      return res.status(400).json({ error: 'The budget already has a line for this account and cost center' });
+    }
+
+    const [line] = await db.insert(budgetLines).values({
+      budgetId: budget.id,
+      ...result.values,
+    } as typeof budgetLines.$inferInsert).returning();
+
+    res.status(201).json(line);
+  } catch (error) {
+    console.error('Create budget line error:', error);
+    res.status(500).json({ error: 'Failed to create budget line' });
+  }
+});
+
+// Re-phase a budget line
+router.patch('/:id/lines/:lineId', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const budget = await findBudget(req.companyId!, req.params.id);
+    const line = budget?.lines.find(l => l.id === req.params.lineId);
+    if (!budget || !line) {
+      return res.status(404).json({ error: 'Budget line not found' });
+    }
+
+    const result = await phaseLine(req.companyId!, budget.fiscalYear, {
+      accountId: line.accountId,
+      costCenterId: line.costCenterId,
+      phasing: line.phasing,
+      phasingTemplateId: line.phasingTemplateId,
+      annualAmount: line.annualAmount,
+      growthPercent: line.growthPercent,
+      ...req.body,
+    });
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    const duplicate = budget.lines.some(other =>
+      other.id !== line.id && other.accountId === result.values.accountId && other.costCenterId === result.values.costCenterId
+    );
+    if (duplicate) {
+      return res.status(400).json({ error: 'The budget already has a line for this account and cost center' });
+    }
+
+    const [updated] = await db.update(budgetLines)
+      .set({ ...result.values, updatedAt: new Date() })
+      .where(eq(budgetLines.id, line.id))
+      .returning();
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Update budget line error:', error);
+    res.status(500).json({ error: 'Failed to update budget line' });
+  }
+});
+
+// Remove a line from a budget
+router.delete('/:id/lines/:lineId', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const budget = await findBudget(req.companyId!, req.params.id);
+    const line = budget?.lines.find(l => l.id === req.params.lineId);
+    if (!budget || !line) {
+      return res.status(404).json({ error: 'Budget line not found' });
+    }
+
+    await db.delete(budgetLines).where(eq(budgetLines.id, line.id));
+    res.json({ message: 'Budget line deleted' });
+  } catch (error) {
+    console.error('Delete budget line error:', error);
+    res.status(500).json({ error: 'Failed to delete budget line' });
+  }
+});
+
+// Budget vs actual for the fiscal year, or a date range within it
+router.get('/:id/vs-actual', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const budget = await findBudget(req.companyId!, req.params.id);
+    if (!budget) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    const { fromDate, toDate } = req.query;
+    res.json(await getBudgetVsActual(req.companyId!, budget, {
+      from: fromDate as string | undefined,
+      to: toDate as string | undefined,
+    }));
+  } catch (error) {
+    console.error('Budget vs actual error:', error);
+    res.status(500).json({ error: 'Failed to generate budget vs actual' });
+  }
+});
+
+export default router;
@@ -0,0 +1,483 @@
+import { Router } from 'express';
+import { db } from '../db';
+import {
+  bankAccounts,
+  chequeBooks,
+  chequeLayouts,
+  cheques,
+} from '@shared/schema';
+import { eq, and, desc, gte, lte } from 'drizzle-orm';
+import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import {
+  CHEQUE_LAYOUTS,
+  findBuiltInLayout,
+  isPostDated,
+  leavesRemaining,
+  validateChequeBookRange,
+  validateChequeLayout,
+  registerCheque,
+  advanceCheque,
+  bounceCheque,
+  cancelCheque,
+  printCheque,
+  type ChequeDirection,
+  type ChequeStatus,
+} from '../services/cheques';
+
+const router = Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DIRECTIONS: ChequeDirection[] = ['issued', 'received'];
+const STATUSES: ChequeStatus[] = ['issued', 'presented', 'cleared', 'bounced', 'cancelled'];
+
+async function findChequeBook(companyId: string, id: string) {
+  return db.query.chequeBooks.findFirst({
+    where: and(
+      eq(chequeBooks.id, id),
+      eq(chequeBooks.companyId, companyId)
+    ),
+    with: { bankAccount: true },
+  });
+}
+
+// A built-in layout key or one of the company's saved layouts
+async function isKnownLayout(companyId: string, layoutKey: string): Promise<boolean> {
+  if (findBuiltInLayout(layoutKey)) return true;
+  const saved = await db.query.chequeLayouts.findFirst({
+    where: and(
+      eq(chequeLayouts.id, layoutKey),
+      eq(chequeLayouts.companyId, companyId)
+    ),
+  });
+  return !!saved;
+}
+
+// Get cheque books with the leaves left in each
+router.get('/books', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { bankAccountId } = req.query;
+
+    const books = await db.query.chequeBooks.findMany({
+      where: and(
+        eq(chequeBooks.companyId, req.companyId!),
+        bankAccountId ? eq(chequeBooks.bankAccountId, bankAccountId as string) : undefined
+      ),
+      with: { bankAccount: true },
+      orderBy: desc(chequeBooks.createdAt),
+    });
+
+    res.json(books.map(book => ({ ...book, leavesRemaining: leavesRemaining(book) })));
+  } catch (error) {
+    console.error('Get cheque books error:', error);
+    res.status(500).json({ error: 'Failed to get cheque books' });
+  }
+});
+
+// Add a cheque book
+router.post('/books', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { bankAccountId, layoutKey } = req.body;
+    const firstNumber = parseInt(req.body.firstNumber, 10);
+    const lastNumber = parseInt(req.body.lastNumber, 10);
+    const nextNumber = req.body.nextNumber !== undefined && req.body.nextNumber !== '' ? parseInt(req.body.nextNumber, 10) : firstNumber;
+    const numberLength = req.body.numberLength ? parseInt(req.body.numberLength, 10) : 6;
+
+    if (!bankAccountId) {
+      return res.status(400).json({ error: 'Bank account is required' });
+    }
+    const error = validateChequeBookRange({ firstNumber, lastNumber, nextNumber });
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    if (!Number.isInteger(numberLength) || numberLength < String(lastNumber).length || numberLength > 20) {
+      return res.status(400).json({ error: 'Number length must fit the last leaf number' });
+    }
+
+    const bankAccount = await db.query.bankAccounts.findFirst({
+      where: and(
+        eq(bankAccounts.id, bankAccountId),
+        eq(bankAccounts.companyId, req.companyId!)
+      ),
+    });
+    if (!bankAccount) {
+      return res.status(400).json({ error: 'Bank account not found' });
+    }
+    if (layoutKey && !(await isKnownLayout(req.companyId!, layoutKey))) {
+      return res.status(400).json({ error: 'Cheque layout not found' });
+    }
+
+    const [book] = await db.insert(chequeBooks).values({
+      companyId: req.companyId!,
+      bankAccountId,
+      firstNumber,
+      lastNumber,
+      nextNumber,
+      numberLength,
+      layoutKey: layoutKey || null,
+    }).returning();
+
+    res.status(201).json(book);
+  } catch (error) {
+    console.error('Create cheque book error:', error);
+    res.status(500).json({ error: 'Failed to create cheque book' });
+  }
+});
+
+// Update a cheque book's layout, next leaf or whether it is in use
+router.patch('/books/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const book = await findChequeBook(req.companyId!, req.params.id);
+    if (!book) {
+      return res.status(404).json({ error: 'Cheque book not found' });
+    }
+
+    const { layoutKey, isActive } = req.body;
+    const updateData: any = { updatedAt: new Date() };
+
+    if (req.body.nextNumber !== undefined) {
+      const nextNumber = parseInt(req.body.nextNumber, 10);
+      const error = validateChequeBookRange({ ...book, nextNumber });
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      updateData.nextNumber = nextNumber;
+    }
+    if (layoutKey !== undefined) {
+      if (layoutKey && !(await isKnownLayout(req.companyId!, layoutKey))) {
+        return res.status(400).json({ error: 'Cheque layout not found' });
+      }
+      updateData.layoutKey = layoutKey || null;
+    }
+    if (isActive !== undefined) updateData.isActive = isActive;
+
+    const [updated] = await db.update(chequeBooks)
+      .set(updateData)
+      .where(eq(chequeBooks.id, book.id))
+      .returning();
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Update cheque book error:', error);
+    res.status(500).json({ error: 'Failed to update cheque book' });
+  }
+});
+
+// Get the built-in bank layouts and the company's own
+router.get('/layouts', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const saved = await db.query.chequeLayouts.findMany({
+      where: eq(chequeLayouts.companyId, req.companyId!),
+      orderBy: chequeLayouts.name,
+    });
+
+    res.json([
+      ...CHEQUE_LAYOUTS.map(layout => ({ ...layout, id: layout.key, isBuiltIn: true })),
+      ...saved.map(layout => ({ ...layout, key: layout.id, isBuiltIn: false })),
+    ]);
+  } catch (error) {
+    console.error('Get cheque layouts error:', error);
+    res.status(500).json({ error: 'Failed to get cheque layouts' });
+  }
+});
+
+// Save a cheque layout
+router.post('/layouts', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { name, bankName, layout } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ error: 'Name is required' });
+    }
+    const error = validateChequeLayout(layout);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const existing = await db.query.chequeLayouts.findFirst({
+      where: and(
+        eq(chequeLayouts.companyId, req.companyId!),
+        eq(chequeLayouts.name, name)
+      ),
+    });
+    if (existing) {
+      return res.status(400).json({ error: 'A layout with this name already exists' });
+    }
+
+    const [saved] = await db.insert(chequeLayouts).values({
+      companyId: req.companyId!,
+      name,
+      bankName,
+      layout,
+    }).returning();
+
+    res.status(201).json(saved);
+  } catch (error) {
+    console.error('Create cheque layout error:', error);
+    res.status(500).json({ error: 'Failed to create cheque layout' });
+  }
+});
+
+// Update a saved cheque layout
+router.put('/layouts/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const saved = await db.query.chequeLayouts.findFirst({
+      where: and(
+        eq(chequeLayouts.id, req.params.id),
+        eq(chequeLayouts.companyId, req.companyId!)
+      ),
+    });
+    if (!saved) {
+      return res.status(404).json({ error: 'Cheque layout not found' });
+    }
+
+    const { name = saved.name, bankName = saved.bankName, layout = saved.layout } = req.body;
+    const error = validateChequeLayout(layout);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const [updated] = await db.update(chequeLayouts)
+      .set({ name, bankName, layout, updatedAt: new Date() })
+      .where(eq(chequeLayouts.id, saved.id))
+      .returning();
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Update cheque layout error:', error);
+    res.status(500).json({ error: 'Failed to update cheque layout' });
+  }
+});
+
+// Delete a saved cheque layout no cheque book uses
+router.delete('/layouts/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const saved = await db.query.chequeLayouts.findFirst({
+      where: and(
+        eq(chequeLayouts.id, req.params.id),
+        eq(chequeLayouts.companyId, req.companyId!)
+      ),
+    });
+    if (!saved) {
+      return res.status(404).json({ error: 'Cheque layout not found' });
+    }
+
+    const book = await db.query.chequeBooks.findFirst({
+      where: and(
+        eq(chequeBooks.companyId, req.companyId!),
+        eq(chequeBooks.layoutKey, saved.id)
+      ),
+    });
+    if (book) {
+      return res.status(400).json({ error: 'Layout is used by a cheque book' });
+    }
+
+    await db.delete(chequeLayouts).where(eq(chequeLayouts.id, saved.id));
+    res.json({ message: 'Cheque layout deleted' });
+  } catch (error) {
+    console.error('Delete cheque layout error:', error);
+    res.status(500).json({ error: 'Failed to delete cheque layout' });
+  }
+});
+
+// Get the cheque register
+router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { direction, status, bankAccountId, fromDate, toDate, pdc } = req.query;
+
+    if (direction && !DIRECTIONS.includes(direction as ChequeDirection)) {
+      return res.status(400).json({ error: 'Direction must be issued or received' });
+    }
+    if (status && !STATUSES.includes(status as ChequeStatus)) {
+      return res.status(400).json({ error: 'Unknown cheque status' });
+    }
+    if ((fromDate && !DATE_PATTERN.test(fromDate as string)) || (toDate && !DATE_PATTERN.test(toDate as string))) {
+      return res.status(400).json({ error: 'Dates must be YYYY-MM-DD' });
+    }
+
+    const result = await db.query.cheques.findMany({
+      where: and(
+        eq(cheques.companyId, req.companyId!),
+        direction ? eq(cheques.direction, direction as ChequeDirection) : undefined,
+        status ? eq(cheques.status, status as ChequeStatus) : undefined,
+        bankAccountId ? eq(cheques.bankAccountId, bankAccountId as string) : undefined,
+        fromDate ? gte(cheques.chequeDate, fromDate as string) : undefined,
+        toDate ? lte(cheques.chequeDate, toDate as string) : undefined
+      ),
+      with: {
+        party: true,
+        bankAccount: true,
+      },
+      orderBy: [desc(cheques.chequeDate), desc(cheques.createdAt)],
+    });
+
+    const today = new Date().toISOString().split('T')[0];
+    const register = result.map(cheque => ({ ...cheque, isPostDated: isPostDated(cheque, today) }));
+
+    res.json(pdc === 'true' ? register.filter(cheque => cheque.isPostDated) : register);
+  } catch (error) {
+    console.error('Get cheques error:', error);
+    res.status(500).json({ error: 'Failed to get cheques' });
+  }
+});
+
+// Get a cheque
+router.get('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const cheque = await db.query.cheques.findFirst({
+      where: and(
+        eq(cheques.id, req.params.id),
+        eq(cheques.companyId, req.companyId!)
+      ),
+      with: {
+        party: true,
+        bankAccount: true,
+        chequeBook: true,
+        paymentReceived: true,
+        paymentMade: true,
+        chargesInvoice: true,
+      },
+    });
+    if (!cheque) {
+      return res.status(404).json({ error: 'Cheque not found' });
+    }
+
+    res.json(cheque);
+  } catch (error) {
+    console.error('Get cheque error:', error);
+    res.status(500).json({ error: 'Failed to get cheque' });
+  }
+});
+
+// Register a cheque written or received outside a payment
+router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await registerCheque(db, req.companyId!, req.userId!, {
+      direction: req.body.direction,
+      bankAccountId: req.body.bankAccountId,
+      chequeBookId: req.body.chequeBookId,
+      chequeNumber: req.body.chequeNumber,
+      chequeDate: req.body.chequeDate,
+      amount: parseFloat(req.body.amount),
+      partyId: req.body.partyId,
+      payeeName: req.body.payeeName,
+      drawerBankName: req.body.drawerBankName,
+      notes: req.body.notes,
+    });
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.status(201).json(result.cheque);
+  } catch (error) {
+    console.error('Create cheque error:', error);
+    res.status(500).json({ error: 'Failed to create cheque' });
+  }
+});
+
+// Mark a cheque presented to the bank
+router.post('/:id/present', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await advanceCheque(req.companyId!, req.params.id, 'presented', req.body.date, req.body.bankAccountId);
+    if (!result) {
+      return res.status(404).json({ error: 'Cheque not found' });
+    }
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.cheque);
+  } catch (error) {
+    console.error('Present cheque error:', error);
+    res.status(500).json({ error: 'Failed to present cheque' });
+  }
+});
+
+// Mark a cheque cleared
+router.post('/:id/clear', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await advanceCheque(req.companyId!, req.params.id, 'cleared', req.body.date, req.body.bankAccountId);
+    if (!result) {
+      return res.status(404).json({ error: 'Cheque not found' });
+    }
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.cheque);
+  } catch (error) {
+    console.error('Clear cheque error:', error);
+    res.status(500).json({ error: 'Failed to clear cheque' });
+  }
+});
+
+// Record a bounced cheque, reversing its payment
+router.post('/:id/bounce', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const bankCharges = req.body.bankCharges ? parseFloat(req.body.bankCharges) : 0;
+    if (!Number.isFinite(bankCharges)) {
+      return res.status(400).json({ error: 'Bank charges must be a number' });
+    }
+
+    const result = await bounceCheque(req.companyId!, req.userId!, req.params.id, {
+      bouncedDate: req.body.date,
+      reason: req.body.reason,
+      bankCharges,
+      chargesAccountId: req.body.chargesAccountId,
+      recoverCharges: req.body.recoverCharges === true,
+    });
+    if (!result) {
+      return res.status(404).json({ error: 'Cheque not found' });
+    }
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.cheque);
+  } catch (error) {
+    console.error('Bounce cheque error:', error);
+    res.status(500).json({ error: 'Failed to record bounced cheque' });
+  }
+});
+
+// Cancel a cheque not yet presented
+router.post('/:id/cancel', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await cancelCheque(req.companyId!, req.userId!, req.params.id, {
+      cancelledDate: req.body.date,
+      reason: req.body.reason,
+    });
+    if (!result) {
+      return res.status(404).json({ error: 'Cheque not found' });
+    }
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.cheque);
+  } catch (error) {
+    console.error('Cancel cheque error:', error);
+    res.status(500).json({ error: 'Failed to cancel cheque' });
+  }
+});
+
+// Get what to print on a cheque leaf
+router.post('/:id/print', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await printCheque(req.companyId!, req.params.id, {
+      accountPayee: req.body.accountPayee,
+    });
+    if (!result) {
+      return res.status(404).json({ error: 'Cheque not found' });
+    }
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Print cheque error:', error);
+    res.status(500).json({ error: 'Failed to print cheque' });
+  }
+});
+
+export default router;
@@ -1,8 +1,9 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { db } from '../db';
-import { companies, companyUsers, fiscalYears, chartOfAccounts, coaTemplates } from '@shared/schema';
+import { companies, companyUsers, fiscalYears, chartOfAccounts, coaTemplates, inventoryValuationMethodEnum } from '@shared/schema';
 import { eq, and, desc } from 'drizzle-orm';
-import { requireAuth, requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { requireAuth, requireCompany, requireCompanyRole, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { getPreCloseChecks, closeFiscalYear, reopenFiscalYear } from '../services/yearEnd';
 
 const router = Router();
 
@@ -203,6 +204,11 @@ router.patch('/:id', requireAuth, async (req: AuthenticatedRequest, res) => {
       return res.status(403).json({ error: 'Insufficient permissions' });
     }
 
+    const { inventoryValuationMethod } = req.body;
+    if (inventoryValuationMethod && !inventoryValuationMethodEnum.enumValues.includes(inventoryValuationMethod)) {
+      return res.status(400).json({ error: 'Invalid inventory valuation method' });
+    }
+
     const [updated] = await db.update(companies)
       .set({
         ...req.body,
@@ -240,7 +246,7 @@ router.get('/:id/fiscal-years', requireCompany, async (req: AuthenticatedRequest
 });
 
 // Create fiscal year
-router.post('/:id/fiscal-years', requireCompany, async (req: AuthenticatedRequest, res) => {
+router.post('/:id/fiscal-years', requireCompanyRole(['owner', 'accountant']), async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
     const { name, startDate, endDate, isCurrent } = req.body;
@@ -271,6 +277,163 @@ router.post('/:id/fiscal-years', requireCompany, async (req: AuthenticatedReques
   }
 });
 
+// Lock or unlock a fiscal year (owner only); locked years reject journal postings
+async function setFiscalYearLock(req: AuthenticatedRequest, res: Response, isLocked: boolean) {
+  const { id, fyId } = req.params;
+
+  if (id !== req.companyId) {
+    return res.status(403).json({ error: 'Access denied' });
+  }
+
+  if (!isLocked) {
+    const existing = await db.query.fiscalYears.findFirst({
+      where: and(
+        eq(fiscalYears.id, fyId),
+        eq(fiscalYears.companyId, id)
+      ),
+    });
+
+    if (existing?.isClosed) {
+      return res.status(400).json({ error: 'Reopen the closed fiscal year to unlock it' });
+    }
+  }
+
+  const [fy] = await db.update(fiscalYears)
+    .set({
+      isLocked,
+      lockedByUserId: isLocked ? req.userId : null,
+      lockedAt: isLocked ? new Date() : null,
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(fiscalYears.id, fyId),
+      eq(fiscalYears.companyId, id)
+    ))
+    .returning();
+
+  if (!fy) {
+    return res.status(404).json({ error: 'Fiscal year not found' });
+  }
+
+  res.json(fy);
+}
+
+router.post('/:id/fiscal-years/:fyId/lock', requireCompany, requirePermission('periods'), async (req: AuthenticatedRequest, res) => {
+  try {
+    await setFiscalYearLock(req, res, true);
+  } catch (error) {
+    console.error('Lock fiscal year error:', error);
+    res.status(500).json({ error: 'Failed to lock fiscal year' });
+  }
+});
+
+router.post('/:id/fiscal-years/:fyId/unlock', requireCompany, requirePermission('periods'), async (req: AuthenticatedRequest, res) => {
+  try {
+    await setFiscalYearLock(req, res, false);
+  } catch (error) {
+    console.error('Unlock fiscal year error:', error);
+    res.status(500).json({ error: 'Failed to unlock fiscal year' });
+  }
+});
+
+async function findCompanyFiscalYear(companyId: string, fyId: string) {
+  return db.query.fiscalYears.findFirst({
+    where: and(
+      eq(fiscalYears.id, fyId),
+      eq(fiscalYears.companyId, companyId)
+    ),
+  });
+}
+
+// Pre-close checks for the year-end close
+router.get('/:id/fiscal-years/:fyId/close-checks', requireCompany, requirePermission('periods'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id, fyId } = req.params;
+
+    if (id !== req.companyId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const fy = await findCompanyFiscalYear(id, fyId);
+    if (!fy) {
+      return res.status(404).json({ error: 'Fiscal year not found' });
+    }
+
+    res.json(await getPreCloseChecks(id, fy));
+  } catch (error) {
+    console.error('Get close checks error:', error);
+    res.status(500).json({ error: 'Failed to run pre-close checks' });
+  }
+});
+
+// Close a fiscal year: closing and opening entries, then lock
+router.post('/:id/fiscal-years/:fyId/close', requireCompany, requirePermission('periods'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id, fyId } = req.params;
+    const { acknowledgeWarnings } = req.body;
+
+    if (id !== req.companyId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const fy = await findCompanyFiscalYear(id, fyId);
+    if (!fy) {
+      return res.status(404).json({ error: 'Fiscal year not found' });
+    }
+
+    if (fy.isClosed) {
+      return res.status(400).json({ error: 'Fiscal year is already closed' });
+    }
+
+    const review = await getPreCloseChecks(id, fy);
+    if (!review.canClose) {
+      return res.status(400).json({ error: 'Pre-close checks failed', checks: review.checks });
+    }
+
+    if (review.hasWarnings && !acknowledgeWarnings) {
+      return res.status(400).json({ error: 'Acknowledge the pre-close warnings to continue', checks: review.checks });
+    }
+
+    const result = await closeFiscalYear(id, fy, req.userId!);
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('Close fiscal year error:', error);
+    res.status(500).json({ error: 'Failed to close fiscal year' });
+  }
+});
+
+// Reopen a closed fiscal year, removing its closing and opening entries
+router.post('/:id/fiscal-years/:fyId/reopen', requireCompany, requirePermission('periods'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id, fyId } = req.params;
+
+    if (id !== req.companyId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const fy = await findCompanyFiscalYear(id, fyId);
+    if (!fy) {
+      return res.status(404).json({ error: 'Fiscal year not found' });
+    }
+
+    if (!fy.isClosed) {
+      return res.status(400).json({ error: 'Fiscal year is not closed' });
+    }
+
+    const result = await reopenFiscalYear(id, fy);
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('Reopen fiscal year error:', error);
+    res.status(500).json({ error: 'Failed to reopen fiscal year' });
+  }
+});
+
 // Add user to company
 router.post('/:id/users', requireAuth, async (req: AuthenticatedRequest, res) => {
   try {
@@ -0,0 +1,331 @@
+import { Router } from 'express';
+import { db } from '../db';
+import {
+  costAllocationRules,
+  costAllocationTargets,
+  costAllocationRuns,
+  costCenters,
+  chartOfAccounts,
+  fiscalYears,
+} from '@shared/schema';
+import { eq, and, lte, gte, desc, inArray } from 'drizzle-orm';
+import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import {
+  previewAllocation,
+  runAllocation,
+  validateAllocationTargets,
+  type AllocationBasis,
+  type AllocationTarget,
+} from '../services/costCenters';
+
+const router = Router();
+
+const BASES: AllocationBasis[] = ['percentage', 'driver'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function findRule(companyId: string, id: string) {
+  return db.query.costAllocationRules.findFirst({
+    where: and(
+      eq(costAllocationRules.id, id),
+      eq(costAllocationRules.companyId, companyId)
+    ),
+    with: {
+      sourceAccount: true,
+      sourceCostCenter: true,
+      targets: {
+        with: { costCenter: true },
+      },
+    },
+  });
+}
+
+function parseTargets(targets: any): AllocationTarget[] {
+  if (!Array.isArray(targets)) return [];
+  return targets.map((target: any) => ({
+    costCenterId: target.costCenterId,
+    value: parseFloat(target.value),
+  }));
+}
+
+// Checks the accounts and cost centers of a rule belong to the company
+async function validateRule(
+  companyId: string,
+  rule: { sourceAccountId: string; sourceCostCenterId: string | null; basis: AllocationBasis; targets: AllocationTarget[] }
+): Promise<string | null> {
+  const targetError = validateAllocationTargets(rule.basis, rule.targets);
+  if (targetError) return targetError;
+
+  const account = await db.query.chartOfAccounts.findFirst({
+    where: and(
+      eq(chartOfAccounts.id, rule.sourceAccountId),
+      eq(chartOfAccounts.companyId, companyId)
+    ),
+  });
+  if (!account || account.isGroup) return 'Source account not found';
+
+  const costCenterIds = [...rule.targets.map(target => target.costCenterId), ...(rule.sourceCostCenterId ? [rule.sourceCostCenterId] : [])];
+  const found = await db.query.costCenters.findMany({
+    where: and(
+      eq(costCenters.companyId, companyId),
+      inArray(costCenters.id, costCenterIds)
+    ),
+  });
+  if (found.length !== new Set(costCenterIds).size) return 'Cost center not found';
+  if (rule.sourceCostCenterId && rule.targets.some(target => target.costCenterId === rule.sourceCostCenterId)) {
+    return 'The pool cost center cannot also be a target';
+  }
+  return null;
+}
+
+function parsePeriod(query: any) {
+  const periodStart = query.periodStart as string | undefined;
+  const periodEnd = query.periodEnd as string | undefined;
+  if (!periodStart || !periodEnd || !DATE_PATTERN.test(periodStart) || !DATE_PATTERN.test(periodEnd) || periodStart > periodEnd) {
+    return null;
+  }
+  return { periodStart, periodEnd };
+}
+
+// Get all allocation rules
+router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const rules = await db.query.costAllocationRules.findMany({
+      where: eq(costAllocationRules.companyId, req.companyId!),
+      with: {
+        sourceAccount: true,
+        sourceCostCenter: true,
+        targets: {
+          with: { costCenter: true },
+        },
+      },
+      orderBy: desc(costAllocationRules.createdAt),
+    });
+
+    res.json(rules);
+  } catch (error) {
+    console.error('Get cost allocation rules error:', error);
+    res.status(500).json({ error: 'Failed to get cost allocation rules' });
+  }
+});
+
+// Create an allocation rule
+router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { name, description, sourceAccountId, sourceCostCenterId, basis = 'percentage', driverName } = req.body;
+    const targets = parseTargets(req.body.targets);
+
+    if (!name || !sourceAccountId) {
+      return res.status(400).json({ error: 'Name and source account are required' });
+    }
+    if (!BASES.includes(basis)) {
+      return res.status(400).json({ error: 'Basis must be percentage or driver' });
+    }
+
+    const error = await validateRule(req.companyId!, { sourceAccountId, sourceCostCenterId: sourceCostCenterId || null, basis, targets });
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const rule = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(costAllocationRules).values({
+        companyId: req.companyId!,
+        name,
+        description,
+        sourceAccountId,
+        sourceCostCenterId: sourceCostCenterId || null,
+        basis,
+        driverName: basis === 'driver' ? driverName : null,
+        createdByUserId: req.userId,
+      }).returning();
+
+      await tx.insert(costAllocationTargets).values(targets.map(target => ({
+        ruleId: created.id,
+        costCenterId: target.costCenterId,
+        value: target.value.toString(),
+      })));
+      return created;
+    });
+
+    res.status(201).json(await findRule(req.companyId!, rule.id));
+  } catch (error) {
+    console.error('Create cost allocation rule error:', error);
+    res.status(500).json({ error: 'Failed to create cost allocation rule' });
+  }
+});
+
+// Update an allocation rule; targets, when given, replace the existing ones
+router.patch('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const rule = await findRule(req.companyId!, req.params.id);
+    if (!rule) {
+      return res.status(404).json({ error: 'Cost allocation rule not found' });
+    }
+
+    const { name, description, sourceAccountId, sourceCostCenterId, basis, driverName, isActive } = req.body;
+    if (basis !== undefined && !BASES.includes(basis)) {
+      return res.status(400).json({ error: 'Basis must be percentage or driver' });
+    }
+
+    const next = {
+      sourceAccountId: sourceAccountId ?? rule.sourceAccountId,
+      sourceCostCenterId: sourceCostCenterId !== undefined ? sourceCostCenterId || null : rule.sourceCostCenterId,
+      basis: (basis ?? rule.basis) as AllocationBasis,
+      targets: req.body.targets !== undefined
+        ? parseTargets(req.body.targets)
+        : rule.targets.map(target => ({ costCenterId: target.costCenterId, value: parseFloat(target.value) })),
+    };
+    const error = await validateRule(req.companyId!, next);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const updateData: any = { updatedAt: new Date() };
+    if (name !== undefined) updateData.name = name;
+    if (description !== undefined) updateData.description = description;
+    if (isActive !== undefined) updateData.isActive = isActive;
+    if (driverName !== undefined) updateData.driverName = driverName;
+    updateData.sourceAccountId = next.sourceAccountId;
+    updateData.sourceCostCenterId = next.sourceCostCenterId;
+    updateData.basis = next.basis;
+
+    await db.transaction(async (tx) => {
+      await tx.update(costAllocationRules)
+        .set(updateData)
+        .where(eq(costAllocationRules.id, rule.id));
+
+      if (req.body.targets !== undefined) {
+        await tx.delete(costAllocationTargets).where(eq(costAllocationTargets.ruleId, rule.id));
+        await tx.insert(costAllocationTargets).values(next.targets.map(target => ({
+          ruleId: rule.id,
+          costCenterId: target.costCenterId,
+          value: target.value.toString(),
+        })));
+      }
+    });
+
+    res.json(await findRule(req.companyId!, rule.id));
+  } catch (error) {
+    console.error('Update cost allocation rule error:', error);
+    res.status(500).json({ error: 'Failed to update cost allocation rule' });
+  }
+});
+
+// Delete an allocation rule that has never been run
+router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const rule = await findRule(req.companyId!, req.params.id);
+    if (!rule) {
+      return res.status(404).json({ error: 'Cost allocation rule not found' });
+    }
+
+    const run = await db.query.costAllocationRuns.findFirst({
+      where: eq(costAllocationRuns.ruleId, rule.id),
+    });
+    if (run) {
+      return res.status(400).json({ error: 'Rule has posted allocations; deactivate it instead' });
+    }
+
+    await db.delete(costAllocationRules).where(eq(costAllocationRules.id, rule.id));
+    res.json({ message: 'Cost allocation rule deleted' });
+  } catch (error) {
+    console.error('Delete cost allocation rule error:', error);
+    res.status(500).json({ error: 'Failed to delete cost allocation rule' });
+  }
+});
+
+// Get the runs of a rule
+router.get('/:id/runs', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const rule = await findRule(req.companyId!, req.params.id);
+    if (!rule) {
+      return res.status(404).json({ error: 'Cost allocation rule not found' });
+    }
+
+    const runs = await db.query.costAllocationRuns.findMany({
+      where: eq(costAllocationRuns.ruleId, rule.id),
+      with: { journalEntry: true },
+      orderBy: desc(costAllocationRuns.periodEnd),
+    });
+
+    res.json(runs);
+  } catch (error) {
+    console.error('Get cost allocation runs error:', error);
+    res.status(500).json({ error: 'Failed to get cost allocation runs' });
+  }
+});
+
+// Preview the pool balance and its split for a period
+router.get('/:id/preview', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const period = parsePeriod(req.query);
+    if (!period) {
+      return res.status(400).json({ error: 'A valid period start and end are required' });
+    }
+
+    const rule = await findRule(req.companyId!, req.params.id);
+    if (!rule) {
+      return res.status(404).json({ error: 'Cost allocation rule not found' });
+    }
+
+    res.json(await previewAllocation(req.companyId!, rule, period));
+  } catch (error) {
+    console.error('Preview cost allocation error:', error);
+    res.status(500).json({ error: 'Failed to preview cost allocation' });
+  }
+});
+
+// Post the allocation journal for a period
+router.post('/:id/run', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const period = parsePeriod(req.body);
+    if (!period) {
+      return res.status(400).json({ error: 'A valid period start and end are required' });
+    }
+
+    const rule = await findRule(req.companyId!, req.params.id);
+    if (!rule) {
+      return res.status(404).json({ error: 'Cost allocation rule not found' });
+    }
+    if (!rule.isActive) {
+      return res.status(400).json({ error: 'Rule is inactive' });
+    }
+
+    const fiscalYear = await db.query.fiscalYears.findFirst({
+      where: and(
+        eq(fiscalYears.companyId, req.companyId!),
+        lte(fiscalYears.startDate, period.periodStart),
+        gte(fiscalYears.endDate, period.periodEnd)
+      ),
+    });
+    if (!fiscalYear) {
+      return res.status(400).json({ error: 'The period must fall within one fiscal year' });
+    }
+    if (fiscalYear.isLocked) {
+      return res.status(400).json({ error: `${fiscalYear.name} is locked` });
+    }
+
+    const existing = await db.query.costAllocationRuns.findFirst({
+      where: and(
+        eq(costAllocationRuns.ruleId, rule.id),
+        eq(costAllocationRuns.periodStart, period.periodStart),
+        eq(costAllocationRuns.periodEnd, period.periodEnd)
+      ),
+    });
+    if (existing) {
+      return res.status(400).json({ error: `${rule.name} has already been run from ${period.periodStart} to ${period.periodEnd}` });
+    }
+
+    const preview = await previewAllocation(req.companyId!, rule, period);
+    if (preview.amount === 0) {
+      return res.status(400).json({ error: `${rule.sourceAccount?.name || 'The source account'} has no balance to allocate in the period` });
+    }
+
+    const result = await runAllocation(req.companyId!, rule, fiscalYear, period, req.userId!);
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Run cost allocation error:', error);
+    res.status(500).json({ error: 'Failed to run cost allocation' });
+  }
+});
+
+export default router;
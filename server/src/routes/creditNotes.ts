@@ -3,6 +3,11 @@ import { db } from '../db';
 import { creditNotes, creditNoteLines, fiscalYears, invoices, journalEntries, journalEntryLines, chartOfAccounts } from '@shared/schema';
 import { eq, and, desc, asc, gte, lte } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { syncGstr1ForDocument } from '../services/gst';
+import { recordDocumentStock, reverseDocumentStock, getStockPeriodError } from '../services/inventory';
+import { webhookEvents } from '../services/integrations/webhookDispatcher';
+import { allocateDocumentNumber, releaseDocumentNumber } from '../services/numbering';
+import { refreshPeriodBalances } from '../services/ledger';
 
 const router = Router();
 
@@ -123,17 +128,6 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate credit note number
-    const lastNote = await db.query.creditNotes.findFirst({
-      where: eq(creditNotes.companyId, req.companyId!),
-      orderBy: desc(creditNotes.createdAt),
-    });
-
-    const nextNumber = lastNote
-      ? parseInt(lastNote.creditNoteNumber.split('-').pop() || '0', 10) + 1
-      : 1;
-    const creditNoteNumber = `CN-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
-
     // Calculate totals
     let subtotal = 0;
     let totalTax = 0;
@@ -170,34 +164,39 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
 
     const totalAmount = subtotal + totalTax;
 
-    // Create credit note
-    const [note] = await db.insert(creditNotes).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      creditNoteNumber,
-      creditNoteDate,
-      customerId,
-      originalInvoiceId,
-      reason,
-      subtotal: subtotal.toString(),
-      taxAmount: totalTax.toString(),
-      cgst: totalCgst.toString(),
-      sgst: totalSgst.toString(),
-      totalAmount: totalAmount.toString(),
-      status: 'draft',
-      notes,
-      createdByUserId: req.userId,
-    }).returning();
-
-    // Create line items
-    if (processedLines.length > 0) {
-      await db.insert(creditNoteLines).values(
-        processedLines.map((line: any) => ({
-          creditNoteId: note.id,
-          ...line,
-        }))
-      );
-    }
+    // Create credit note and line items in a transaction
+    const note = await db.transaction(async (tx) => {
+      const creditNoteNumber = await allocateDocumentNumber(tx, req.companyId!, 'credit_note', fiscalYear);
+
+      const [created] = await tx.insert(creditNotes).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        creditNoteNumber,
+        creditNoteDate,
+        customerId,
+        originalInvoiceId,
+        reason,
+        subtotal: subtotal.toString(),
+        taxAmount: totalTax.toString(),
+        cgst: totalCgst.toString(),
+        sgst: totalSgst.toString(),
+        totalAmount: totalAmount.toString(),
+        status: 'draft',
+        notes,
+        createdByUserId: req.userId,
+      }).returning();
+
+      if (processedLines.length > 0) {
+        await tx.insert(creditNoteLines).values(
+          processedLines.map((line: any) => ({
+            creditNoteId: created.id,
+            ...line,
+          }))
+        );
+      }
+
+      return created;
+    });
 
     // Fetch complete note
     const completeNote = await db.query.creditNotes.findFirst({
@@ -208,6 +207,8 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       },
     });
 
+    webhookEvents.creditNoteCreated(req.companyId!, completeNote);
+
     res.status(201).json(completeNote);
   } catch (error) {
     console.error('Create credit note error:', error);
@@ -239,6 +240,13 @@ router.post('/:id/issue', requireCompany, async (req: AuthenticatedRequest, res)
       return res.status(400).json({ error: 'Credit note has already been issued' });
     }
 
+    const stockPeriodError = note.lines.some(line => line.productId)
+      ? await getStockPeriodError(db, req.companyId!, note.creditNoteDate)
+      : null;
+    if (stockPeriodError) {
+      return res.status(400).json({ error: stockPeriodError });
+    }
+
     // Create journal entry
     const fiscalYear = await db.query.fiscalYears.findFirst({
       where: and(
@@ -251,17 +259,6 @@ router.post('/:id/issue', requireCompany, async (req: AuthenticatedRequest, res)
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate journal entry number
-    const lastEntry = await db.query.journalEntries.findFirst({
-      where: eq(journalEntries.companyId, req.companyId!),
-      orderBy: desc(journalEntries.createdAt),
-    });
-
-    const nextNum = lastEntry
-      ? parseInt(lastEntry.entryNumber.split('/').pop() || '0', 10) + 1
-      : 1;
-    const entryNumber = `CN/${fiscalYear.name.replace(/\s/g, '')}/${nextNum.toString().padStart(5, '0')}`;
-
     // Get accounts receivable account
     const arAccount = await db.query.chartOfAccounts.findFirst({
       where: and(
@@ -274,62 +271,79 @@ router.post('/:id/issue', requireCompany, async (req: AuthenticatedRequest, res)
       return res.status(400).json({ error: 'Accounts receivable account not found' });
     }
 
-    // Create journal entry
-    const [je] = await db.insert(journalEntries).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      entryNumber,
-      entryDate: note.creditNoteDate,
-      entryType: 'auto_invoice',
-      narration: `Credit Note ${note.creditNoteNumber} - ${note.customer.name}`,
-      totalDebit: note.totalAmount,
-      totalCredit: note.totalAmount,
-      sourceType: 'credit_note',
-      sourceId: note.id,
-      status: 'posted',
-      createdByUserId: req.userId,
-    }).returning();
-
-    // Journal entry lines:
-    // Debit: Revenue accounts (reduces revenue)
-    // Credit: Accounts Receivable (reduces receivable from customer)
-    const jeLines = [];
-
-    // Credit AR (reduce receivable)
-    jeLines.push({
-      journalEntryId: je.id,
-      accountId: arAccount.id,
-      debitAmount: '0',
-      creditAmount: note.totalAmount,
-      partyType: 'customer' as const,
-      partyId: note.customerId,
-      description: `Credit Note ${note.creditNoteNumber}`,
-    });
-
-    // Debit revenue accounts for each line
-    for (const line of note.lines) {
-      if (line.accountId) {
-        jeLines.push({
-          journalEntryId: je.id,
-          accountId: line.accountId,
-          debitAmount: line.amount,
-          creditAmount: '0',
-          description: line.description,
-        });
+    // Create journal entry and update credit note in a transaction
+    const updated = await db.transaction(async (tx) => {
+      const entryNumber = await allocateDocumentNumber(tx, req.companyId!, 'journal_entry', fiscalYear, { type: 'CN' });
+
+      const [je] = await tx.insert(journalEntries).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        entryNumber,
+        entryDate: note.creditNoteDate,
+        entryType: 'auto_invoice',
+        narration: `Credit Note ${note.creditNoteNumber} - ${note.customer.name}`,
+        totalDebit: note.totalAmount,
+        totalCredit: note.totalAmount,
+        sourceType: 'credit_note',
+        sourceId: note.id,
+        status: 'posted',
+        createdByUserId: req.userId,
+      }).returning();
+
+      // Journal entry lines:
+      // Debit: Revenue accounts (reduces revenue)
+      // Credit: Accounts Receivable (reduces receivable from customer)
+      const jeLines = [];
+
+      // Credit AR (reduce receivable)
+      jeLines.push({
+        journalEntryId: je.id,
+        accountId: arAccount.id,
+        debitAmount: '0',
+        creditAmount: note.totalAmount,
+        partyType: 'customer' as const,
+        partyId: note.customerId,
+        description: `Credit Note ${note.creditNoteNumber}`,
+      });
+
+      // Debit revenue accounts for each line
+      for (const line of note.lines) {
+        if (line.accountId) {
+          jeLines.push({
+            journalEntryId: je.id,
+            accountId: line.accountId,
+            debitAmount: line.amount,
+            creditAmount: '0',
+            description: line.description,
+          });
+        }
       }
-    }
 
-    await db.insert(journalEntryLines).values(jeLines);
+      await tx.insert(journalEntryLines).values(jeLines);
+      await refreshPeriodBalances(tx, req.companyId!, [je]);
 
-    // Update credit note status
-    const [updated] = await db.update(creditNotes)
-      .set({
-        status: 'issued',
-        journalEntryId: je.id,
-        updatedAt: new Date(),
-      })
-      .where(eq(creditNotes.id, id))
-      .returning();
+      const [issued] = await tx.update(creditNotes)
+        .set({
+          status: 'issued',
+          journalEntryId: je.id,
+          updatedAt: new Date(),
+        })
+        .where(eq(creditNotes.id, id))
+        .returning();
+
+      await syncGstr1ForDocument(tx, req.companyId!, 'credit_note', id);
+      await recordDocumentStock(tx, req.companyId!, {
+        sourceType: 'credit_note',
+        sourceId: id,
+        sourceNumber: note.creditNoteNumber,
+        date: note.creditNoteDate,
+        lines: note.lines,
+      }, req.userId);
+
+      return issued;
+    });
+
+    webhookEvents.creditNoteIssued(req.companyId!, { ...updated, customer: note.customer, lines: note.lines });
 
     res.json(updated);
   } catch (error) {
@@ -431,6 +445,11 @@ router.post('/:id/cancel', requireCompany, async (req: AuthenticatedRequest, res
       return res.status(400).json({ error: 'Cannot cancel credit note that has been applied' });
     }
 
+    const stockPeriodError = await getStockPeriodError(db, req.companyId!, note.creditNoteDate);
+    if (stockPeriodError) {
+      return res.status(400).json({ error: stockPeriodError });
+    }
+
     // Reverse journal entries
     const relatedJournals = await db.query.journalEntries.findMany({
       where: and(
@@ -444,6 +463,7 @@ router.post('/:id/cancel', requireCompany, async (req: AuthenticatedRequest, res
       await db.delete(journalEntryLines).where(eq(journalEntryLines.journalEntryId, je.id));
       await db.delete(journalEntries).where(eq(journalEntries.id, je.id));
     }
+    await refreshPeriodBalances(db, req.companyId!, relatedJournals);
 
     const [updated] = await db.update(creditNotes)
       .set({
@@ -453,7 +473,11 @@ router.post('/:id/cancel', requireCompany, async (req: AuthenticatedRequest, res
       .where(eq(creditNotes.id, id))
       .returning();
 
-    res.json(updated);
+    const gstr1 = await syncGstr1ForDocument(db, req.companyId!, 'credit_note', id);
+    await reverseDocumentStock(db, req.companyId!, 'credit_note', id, note.creditNoteDate, req.userId);
+
+    // Filed GSTR-1 rows are left as they are; the cancellation has to be amended there
+    res.json(gstr1.synced ? updated : { ...updated, gstr1AmendmentRequired: true });
   } catch (error) {
     console.error('Cancel credit note error:', error);
     res.status(500).json({ error: 'Failed to cancel credit note' });
@@ -482,6 +506,7 @@ router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) =>
 
     await db.delete(creditNoteLines).where(eq(creditNoteLines.creditNoteId, id));
     await db.delete(creditNotes).where(eq(creditNotes.id, id));
+    await releaseDocumentNumber(db, req.companyId!, 'credit_note', note.fiscalYearId, note.creditNoteNumber);
 
     res.json({ message: 'Credit note deleted' });
   } catch (error) {
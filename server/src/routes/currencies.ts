@@ -1,8 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { db } from '../db';
-import { currencies, exchangeRates, companies } from '../../../shared/schema';
-import { eq, and, desc, lte } from 'drizzle-orm';
+import { currencies, exchangeRates } from '../../../shared/schema';
+import { eq, and, desc } from 'drizzle-orm';
 import { z } from 'zod';
+import { lookupExchangeRate } from '../services/forex';
 
 const router = Router();
 
@@ -141,68 +142,11 @@ router.get('/exchange-rates/rate', requireAuth, async (req: Request, res: Respon
       return res.status(400).json({ error: 'fromCurrency and toCurrency are required' });
     }
 
-    // Get the company's base currency
-    const company = await db
-      .select()
-      .from(companies)
-      .where(eq(companies.id, companyId))
-      .limit(1);
-
-    const baseCurrency = company[0]?.baseCurrency || 'INR';
-
-    // If same currency, rate is 1
-    if (fromCurrency === toCurrency) {
-      return res.json({ rate: 1, effectiveDate: date || new Date().toISOString().split('T')[0] });
-    }
-
     const dateStr = (date as string) || new Date().toISOString().split('T')[0];
+    const rate = await lookupExchangeRate(db, companyId, fromCurrency as string, toCurrency as string, dateStr);
 
-    // Try to find direct rate
-    const directRate = await db
-      .select()
-      .from(exchangeRates)
-      .where(
-        and(
-          eq(exchangeRates.companyId, companyId),
-          eq(exchangeRates.fromCurrency, fromCurrency as string),
-          eq(exchangeRates.toCurrency, toCurrency as string),
-          lte(exchangeRates.effectiveDate, dateStr)
-        )
-      )
-      .orderBy(desc(exchangeRates.effectiveDate))
-      .limit(1);
-
-    if (directRate.length > 0) {
-      return res.json({
-        rate: parseFloat(directRate[0].rate),
-        effectiveDate: directRate[0].effectiveDate,
-        source: directRate[0].source,
-      });
-    }
-
-    // Try reverse rate
-    const reverseRate = await db
-      .select()
-      .from(exchangeRates)
-      .where(
-        and(
-          eq(exchangeRates.companyId, companyId),
-          eq(exchangeRates.fromCurrency, toCurrency as string),
-          eq(exchangeRates.toCurrency, fromCurrency as string),
-          lte(exchangeRates.effectiveDate, dateStr)
-        )
-      )
-      .orderBy(desc(exchangeRates.effectiveDate))
-      .limit(1);
-
-    if (reverseRate.length > 0) {
-      const rate = 1 / parseFloat(reverseRate[0].rate);
-      return res.json({
-        rate,
-        effectiveDate: reverseRate[0].effectiveDate,
-        source: reverseRate[0].source,
-        calculated: true,
-      });
+    if (rate) {
+      return res.json(rate);
     }
 
     // No rate found
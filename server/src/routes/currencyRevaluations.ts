@@ -0,0 +1,109 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { currencyRevaluations, fiscalYears } from '@shared/schema';
+import { eq, and, lte, gte, desc } from 'drizzle-orm';
+import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { previewRevaluation, runRevaluation, reversalDateFor } from '../services/forex';
+
+const router = Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function findFiscalYearFor(companyId: string, date: string) {
+  return db.query.fiscalYears.findFirst({
+    where: and(
+      eq(fiscalYears.companyId, companyId),
+      lte(fiscalYears.startDate, date),
+      gte(fiscalYears.endDate, date)
+    ),
+  });
+}
+
+// Get all revaluation runs
+router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const revaluations = await db.query.currencyRevaluations.findMany({
+      where: eq(currencyRevaluations.companyId, req.companyId!),
+      orderBy: desc(currencyRevaluations.revaluationDate),
+    });
+
+    res.json(revaluations);
+  } catch (error) {
+    console.error('Get currency revaluations error:', error);
+    res.status(500).json({ error: 'Failed to get currency revaluations' });
+  }
+});
+
+// Preview the items a revaluation on the date would restate
+router.get('/preview', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const date = req.query.date as string | undefined;
+    if (!date || !DATE_PATTERN.test(date)) {
+      return res.status(400).json({ error: 'Revaluation date is required' });
+    }
+
+    const preview = await previewRevaluation(req.companyId!, date);
+    res.json(preview);
+  } catch (error) {
+    console.error('Preview currency revaluation error:', error);
+    res.status(500).json({ error: 'Failed to preview currency revaluation' });
+  }
+});
+
+// Revalue at the closing rates and post the entry with its reversal on the next day
+router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { revaluationDate } = req.body;
+    if (!revaluationDate || !DATE_PATTERN.test(revaluationDate)) {
+      return res.status(400).json({ error: 'Revaluation date is required' });
+    }
+
+    const reversalDate = reversalDateFor(revaluationDate);
+    const fiscalYear = await findFiscalYearFor(req.companyId!, revaluationDate);
+    const reversalFiscalYear = await findFiscalYearFor(req.companyId!, reversalDate);
+    if (!fiscalYear) {
+      return res.status(400).json({ error: 'No fiscal year covers the revaluation date' });
+    }
+    if (!reversalFiscalYear) {
+      return res.status(400).json({ error: `No fiscal year covers ${reversalDate}, when the revaluation is reversed` });
+    }
+    for (const year of [fiscalYear, reversalFiscalYear]) {
+      if (year.isLocked) {
+        return res.status(400).json({ error: `${year.name} is locked` });
+      }
+    }
+
+    const existing = await db.query.currencyRevaluations.findFirst({
+      where: and(
+        eq(currencyRevaluations.companyId, req.companyId!),
+        eq(currencyRevaluations.revaluationDate, revaluationDate)
+      ),
+    });
+    if (existing) {
+      return res.status(400).json({ error: `Foreign currency balances have already been revalued as on ${revaluationDate}` });
+    }
+
+    const preview = await previewRevaluation(req.companyId!, revaluationDate);
+    if (preview.missingRates.length > 0) {
+      return res.status(400).json({ error: `Add ${preview.missingRates.join(', ')} exchange rates on or before ${revaluationDate}` });
+    }
+    if (!preview.accounts.gainAccountId || !preview.accounts.lossAccountId) {
+      return res.status(400).json({ error: 'Foreign exchange gain or loss account not found' });
+    }
+    if (preview.items.length === 0) {
+      return res.status(400).json({ error: 'There are no open foreign currency balances to revalue' });
+    }
+
+    const result = await runRevaluation(req.companyId!, fiscalYear, reversalFiscalYear, {
+      revaluationDate,
+      reversalDate,
+    }, req.userId!);
+
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Run currency revaluation error:', error);
+    res.status(500).json({ error: 'Failed to run currency revaluation' });
+  }
+});
+
+export default router;
@@ -3,6 +3,9 @@ import { db } from '../db';
 import { debitNotes, debitNoteLines, fiscalYears, bills, journalEntries, journalEntryLines, chartOfAccounts } from '@shared/schema';
 import { eq, and, desc, asc, gte, lte } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { recordDocumentStock, reverseDocumentStock, getStockPeriodError } from '../services/inventory';
+import { allocateDocumentNumber, releaseDocumentNumber } from '../services/numbering';
+import { refreshPeriodBalances } from '../services/ledger';
 
 const router = Router();
 
@@ -123,17 +126,6 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate debit note number
-    const lastNote = await db.query.debitNotes.findFirst({
-      where: eq(debitNotes.companyId, req.companyId!),
-      orderBy: desc(debitNotes.createdAt),
-    });
-
-    const nextNumber = lastNote
-      ? parseInt(lastNote.debitNoteNumber.split('-').pop() || '0', 10) + 1
-      : 1;
-    const debitNoteNumber = `DN-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
-
     // Calculate totals
     let subtotal = 0;
     let totalTax = 0;
@@ -170,34 +162,39 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
 
     const totalAmount = subtotal + totalTax;
 
-    // Create debit note
-    const [note] = await db.insert(debitNotes).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      debitNoteNumber,
-      debitNoteDate,
-      vendorId,
-      originalBillId,
-      reason,
-      subtotal: subtotal.toString(),
-      taxAmount: totalTax.toString(),
-      cgst: totalCgst.toString(),
-      sgst: totalSgst.toString(),
-      totalAmount: totalAmount.toString(),
-      status: 'draft',
-      notes,
-      createdByUserId: req.userId,
-    }).returning();
-
-    // Create line items
-    if (processedLines.length > 0) {
-      await db.insert(debitNoteLines).values(
-        processedLines.map((line: any) => ({
-          debitNoteId: note.id,
-          ...line,
-        }))
-      );
-    }
+    // Create debit note and line items in a transaction
+    const note = await db.transaction(async (tx) => {
+      const debitNoteNumber = await allocateDocumentNumber(tx, req.companyId!, 'debit_note', fiscalYear);
+
+      const [created] = await tx.insert(debitNotes).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        debitNoteNumber,
+        debitNoteDate,
+        vendorId,
+        originalBillId,
+        reason,
+        subtotal: subtotal.toString(),
+        taxAmount: totalTax.toString(),
+        cgst: totalCgst.toString(),
+        sgst: totalSgst.toString(),
+        totalAmount: totalAmount.toString(),
+        status: 'draft',
+        notes,
+        createdByUserId: req.userId,
+      }).returning();
+
+      if (processedLines.length > 0) {
+        await tx.insert(debitNoteLines).values(
+          processedLines.map((line: any) => ({
+            debitNoteId: created.id,
+            ...line,
+          }))
+        );
+      }
+
+      return created;
+    });
 
     // Fetch complete note
     const completeNote = await db.query.debitNotes.findFirst({
@@ -239,6 +236,13 @@ router.post('/:id/issue', requireCompany, async (req: AuthenticatedRequest, res)
       return res.status(400).json({ error: 'Debit note has already been issued' });
     }
 
+    const stockPeriodError = note.lines.some(line => line.productId)
+      ? await getStockPeriodError(db, req.companyId!, note.debitNoteDate)
+      : null;
+    if (stockPeriodError) {
+      return res.status(400).json({ error: stockPeriodError });
+    }
+
     // Create journal entry
     const fiscalYear = await db.query.fiscalYears.findFirst({
       where: and(
@@ -251,17 +255,6 @@ router.post('/:id/issue', requireCompany, async (req: AuthenticatedRequest, res)
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate journal entry number
-    const lastEntry = await db.query.journalEntries.findFirst({
-      where: eq(journalEntries.companyId, req.companyId!),
-      orderBy: desc(journalEntries.createdAt),
-    });
-
-    const nextNum = lastEntry
-      ? parseInt(lastEntry.entryNumber.split('/').pop() || '0', 10) + 1
-      : 1;
-    const entryNumber = `DN/${fiscalYear.name.replace(/\s/g, '')}/${nextNum.toString().padStart(5, '0')}`;
-
     // Get accounts payable account
     const apAccount = await db.query.chartOfAccounts.findFirst({
       where: and(
@@ -274,62 +267,76 @@ router.post('/:id/issue', requireCompany, async (req: AuthenticatedRequest, res)
       return res.status(400).json({ error: 'Accounts payable account not found' });
     }
 
-    // Create journal entry
-    const [je] = await db.insert(journalEntries).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      entryNumber,
-      entryDate: note.debitNoteDate,
-      entryType: 'auto_expense',
-      narration: `Debit Note ${note.debitNoteNumber} - ${note.vendor.name}`,
-      totalDebit: note.totalAmount,
-      totalCredit: note.totalAmount,
-      sourceType: 'debit_note',
-      sourceId: note.id,
-      status: 'posted',
-      createdByUserId: req.userId,
-    }).returning();
-
-    // Journal entry lines:
-    // Debit: Accounts Payable (reduce liability)
-    // Credit: Expense accounts (reduce expense)
-    const jeLines = [];
-
-    // Debit AP
-    jeLines.push({
-      journalEntryId: je.id,
-      accountId: apAccount.id,
-      debitAmount: note.totalAmount,
-      creditAmount: '0',
-      partyType: 'vendor' as const,
-      partyId: note.vendorId,
-      description: `Debit Note ${note.debitNoteNumber}`,
-    });
-
-    // Credit expense accounts for each line
-    for (const line of note.lines) {
-      if (line.accountId) {
-        jeLines.push({
-          journalEntryId: je.id,
-          accountId: line.accountId,
-          debitAmount: '0',
-          creditAmount: line.amount,
-          description: line.description,
-        });
+    // Create journal entry and update debit note in a transaction
+    const updated = await db.transaction(async (tx) => {
+      const entryNumber = await allocateDocumentNumber(tx, req.companyId!, 'journal_entry', fiscalYear, { type: 'DN' });
+
+      const [je] = await tx.insert(journalEntries).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        entryNumber,
+        entryDate: note.debitNoteDate,
+        entryType: 'auto_expense',
+        narration: `Debit Note ${note.debitNoteNumber} - ${note.vendor.name}`,
+        totalDebit: note.totalAmount,
+        totalCredit: note.totalAmount,
+        sourceType: 'debit_note',
+        sourceId: note.id,
+        status: 'posted',
+        createdByUserId: req.userId,
+      }).returning();
+
+      // Journal entry lines:
+      // Debit: Accounts Payable (reduce liability)
+      // Credit: Expense accounts (reduce expense)
+      const jeLines = [];
+
+      // Debit AP
+      jeLines.push({
+        journalEntryId: je.id,
+        accountId: apAccount.id,
+        debitAmount: note.totalAmount,
+        creditAmount: '0',
+        partyType: 'vendor' as const,
+        partyId: note.vendorId,
+        description: `Debit Note ${note.debitNoteNumber}`,
+      });
+
+      // Credit expense accounts for each line
+      for (const line of note.lines) {
+        if (line.accountId) {
+          jeLines.push({
+            journalEntryId: je.id,
+            accountId: line.accountId,
+            debitAmount: '0',
+            creditAmount: line.amount,
+            description: line.description,
+          });
+        }
       }
-    }
 
-    await db.insert(journalEntryLines).values(jeLines);
+      await tx.insert(journalEntryLines).values(jeLines);
+      await refreshPeriodBalances(tx, req.companyId!, [je]);
 
-    // Update debit note status
-    const [updated] = await db.update(debitNotes)
-      .set({
-        status: 'issued',
-        journalEntryId: je.id,
-        updatedAt: new Date(),
-      })
-      .where(eq(debitNotes.id, id))
-      .returning();
+      const [issued] = await tx.update(debitNotes)
+        .set({
+          status: 'issued',
+          journalEntryId: je.id,
+          updatedAt: new Date(),
+        })
+        .where(eq(debitNotes.id, id))
+        .returning();
+
+      await recordDocumentStock(tx, req.companyId!, {
+        sourceType: 'debit_note',
+        sourceId: id,
+        sourceNumber: note.debitNoteNumber,
+        date: note.debitNoteDate,
+        lines: note.lines,
+      }, req.userId);
+
+      return issued;
+    });
 
     res.json(updated);
   } catch (error) {
@@ -431,6 +438,11 @@ router.post('/:id/cancel', requireCompany, async (req: AuthenticatedRequest, res
       return res.status(400).json({ error: 'Cannot cancel debit note that has been applied' });
     }
 
+    const stockPeriodError = await getStockPeriodError(db, req.companyId!, note.debitNoteDate);
+    if (stockPeriodError) {
+      return res.status(400).json({ error: stockPeriodError });
+    }
+
     // Reverse journal entries
     const relatedJournals = await db.query.journalEntries.findMany({
       where: and(
@@ -444,6 +456,7 @@ router.post('/:id/cancel', requireCompany, async (req: AuthenticatedRequest, res
       await db.delete(journalEntryLines).where(eq(journalEntryLines.journalEntryId, je.id));
       await db.delete(journalEntries).where(eq(journalEntries.id, je.id));
     }
+    await refreshPeriodBalances(db, req.companyId!, relatedJournals);
 
     const [updated] = await db.update(debitNotes)
       .set({
@@ -453,6 +466,8 @@ router.post('/:id/cancel', requireCompany, async (req: AuthenticatedRequest, res
       .where(eq(debitNotes.id, id))
       .returning();
 
+    await reverseDocumentStock(db, req.companyId!, 'debit_note', id, note.debitNoteDate, req.userId);
+
     res.json(updated);
   } catch (error) {
     console.error('Cancel debit note error:', error);
@@ -482,6 +497,7 @@ router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) =>
 
     await db.delete(debitNoteLines).where(eq(debitNoteLines.debitNoteId, id));
     await db.delete(debitNotes).where(eq(debitNotes.id, id));
+    await releaseDocumentNumber(db, req.companyId!, 'debit_note', note.fiscalYearId, note.debitNoteNumber);
 
     res.json({ message: 'Debit note deleted' });
   } catch (error) {
@@ -1,11 +1,63 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { expenses, fiscalYears, journalEntries, journalEntryLines, chartOfAccounts, companyUsers } from '@shared/schema';
+import { expenses, fiscalYears, journalEntries, journalEntryLines, chartOfAccounts, companyUsers, type Expense } from '@shared/schema';
 import { eq, and, desc, sql, gte, lte } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { webhookEvents } from '../services/integrations/webhookDispatcher';
+import { allocateDocumentNumber } from '../services/numbering';
+import { refreshPeriodBalances } from '../services/ledger';
+import {
+  findApplicablePolicy,
+  requestApproval,
+  getPendingApproval,
+  getLatestApproval,
+  cancelApprovalRequests,
+  approvalBlocker,
+  requestApproverRoles,
+  decideApproval,
+  type ApprovalDocument,
+} from '../services/approvals';
 
 const router = Router();
 
+// What the approval policies look at for an expense
+function approvalDocument(expense: Expense): ApprovalDocument {
+  return {
+    documentType: 'expense',
+    documentId: expense.id,
+    documentNumber: expense.expenseNumber,
+    amount: parseFloat(expense.totalAmount),
+    accountIds: [expense.accountId, expense.paymentAccountId].filter((id): id is string => !!id),
+    description: expense.description,
+  };
+}
+
+// Opens an approval request when the expense meets a policy, or cancels
+// the open one when an edit takes it out of every policy
+async function syncExpenseApproval(expense: Expense, userId: string | undefined) {
+  const document = approvalDocument(expense);
+  const policy = await findApplicablePolicy(db, expense.companyId, document);
+  if (policy) {
+    await requestApproval(db, expense.companyId, document, policy, userId);
+  } else {
+    await cancelApprovalRequests(db, expense.companyId, 'expense', expense.id);
+  }
+}
+
+// The expense's open approval request. Expenses entered before a policy
+// existed are checked against the policies when they are decided.
+async function pendingExpenseApproval(expense: Expense) {
+  const approval = await getPendingApproval(db, expense.companyId, 'expense', expense.id);
+  if (approval) return approval;
+
+  const document = approvalDocument(expense);
+  const policy = await findApplicablePolicy(db, expense.companyId, document);
+  if (!policy) return null;
+
+  await requestApproval(db, expense.companyId, document, policy, expense.createdByUserId || undefined);
+  return getPendingApproval(db, expense.companyId, 'expense', expense.id);
+}
+
 // Get all expenses
 router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
@@ -75,7 +127,9 @@ router.get('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ error: 'Expense not found' });
     }
 
-    res.json(expense);
+    const approval = await getLatestApproval(db, req.companyId!, 'expense', expense.id);
+
+    res.json({ ...expense, approval: approval || null });
   } catch (error) {
     console.error('Get expense error:', error);
     res.status(500).json({ error: 'Failed to get expense' });
@@ -90,6 +144,7 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       vendorId,
       accountId,
       paymentAccountId,
+      costCenterId,
       category,
       amount,
       taxAmount = '0',
@@ -137,6 +192,7 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       vendorId,
       accountId,
       paymentAccountId,
+      costCenterId: costCenterId || null,
       category,
       amount: amount.toString(),
       taxAmount: taxAmount.toString(),
@@ -150,6 +206,8 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       createdByUserId: req.userId,
     }).returning();
 
+    await syncExpenseApproval(expense, req.userId);
+
     const completeExpense = await db.query.expenses.findFirst({
       where: eq(expenses.id, expense.id),
       with: {
@@ -158,6 +216,8 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       },
     });
 
+    webhookEvents.expenseCreated(req.companyId!, completeExpense);
+
     res.status(201).json(completeExpense);
   } catch (error) {
     console.error('Create expense error:', error);
@@ -202,6 +262,8 @@ router.patch('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
       .where(eq(expenses.id, id))
       .returning();
 
+    await syncExpenseApproval(updated, req.userId);
+
     res.json(updated);
   } catch (error) {
     console.error('Update expense error:', error);
@@ -246,6 +308,19 @@ router.post('/:id/approve', requireCompany, async (req: AuthenticatedRequest, re
       return res.status(400).json({ error: 'Only pending expenses can be approved' });
     }
 
+    const approval = await pendingExpenseApproval(expense);
+    if (approval) {
+      const blocker = approvalBlocker(
+        approval,
+        requestApproverRoles(approval),
+        { userId: req.userId!, role: userAccess.role },
+        expense.createdByUserId
+      );
+      if (blocker) {
+        return res.status(403).json({ error: blocker });
+      }
+    }
+
     // Create journal entry
     const fiscalYear = await db.query.fiscalYears.findFirst({
       where: and(
@@ -258,88 +333,93 @@ router.post('/:id/approve', requireCompany, async (req: AuthenticatedRequest, re
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    const lastEntry = await db.query.journalEntries.findFirst({
-      where: eq(journalEntries.companyId, req.companyId!),
-      orderBy: desc(journalEntries.createdAt),
-    });
-
-    const nextNum = lastEntry
-      ? parseInt(lastEntry.entryNumber.split('/').pop() || '0', 10) + 1
-      : 1;
-    const entryNumber = `EXP/${fiscalYear.name.replace(/\s/g, '')}/${nextNum.toString().padStart(5, '0')}`;
-
-    const [je] = await db.insert(journalEntries).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      entryNumber,
-      entryDate: expense.expenseDate,
-      entryType: 'auto_expense',
-      narration: expense.description || `Expense ${expense.expenseNumber}${expense.vendor ? ` - ${expense.vendor.name}` : ''}`,
-      totalDebit: expense.totalAmount,
-      totalCredit: expense.totalAmount,
-      sourceType: 'expense',
-      sourceId: expense.id,
-      status: 'posted',
-      createdByUserId: req.userId,
-    }).returning();
-
-    // Create journal entry lines
-    const jeLines = [];
-
-    // Debit: Expense account
-    jeLines.push({
-      journalEntryId: je.id,
-      accountId: expense.accountId,
-      debitAmount: expense.totalAmount,
-      creditAmount: '0',
-      description: expense.description || expense.expenseNumber,
-    });
+    // Post the expense and record the decision in a transaction
+    const updated = await db.transaction(async (tx) => {
+      if (approval && !await decideApproval(tx, approval.id, 'approved', req.userId!, req.body.comments)) {
+        return null;
+      }
 
-    // Credit: Payment account or Accounts Payable
-    if (expense.paymentAccountId) {
-      // Paid immediately
+      const entryNumber = await allocateDocumentNumber(tx, req.companyId!, 'journal_entry', fiscalYear, { type: 'EXP' });
+
+      const [je] = await tx.insert(journalEntries).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        entryNumber,
+        entryDate: expense.expenseDate,
+        entryType: 'auto_expense',
+        narration: expense.description || `Expense ${expense.expenseNumber}${expense.vendor ? ` - ${expense.vendor.name}` : ''}`,
+        totalDebit: expense.totalAmount,
+        totalCredit: expense.totalAmount,
+        sourceType: 'expense',
+        sourceId: expense.id,
+        status: 'posted',
+        createdByUserId: req.userId,
+      }).returning();
+
+      // Create journal entry lines
+      const jeLines = [];
+
+      // Debit: Expense account
       jeLines.push({
         journalEntryId: je.id,
-        accountId: expense.paymentAccountId,
-        debitAmount: '0',
-        creditAmount: expense.totalAmount,
-        description: `Payment - ${expense.expenseNumber}`,
-      });
-    } else {
-      // Accounts Payable
-      const apAccount = await db.query.chartOfAccounts.findFirst({
-        where: and(
-          eq(chartOfAccounts.companyId, req.companyId!),
-          eq(chartOfAccounts.code, '2100') // Trade Payables
-        ),
+        accountId: expense.accountId,
+        costCenterId: expense.costCenterId,
+        debitAmount: expense.totalAmount,
+        creditAmount: '0',
+        description: expense.description || expense.expenseNumber,
       });
 
-      if (apAccount) {
+      // Credit: Payment account or Accounts Payable
+      if (expense.paymentAccountId) {
+        // Paid immediately
         jeLines.push({
           journalEntryId: je.id,
-          accountId: apAccount.id,
+          accountId: expense.paymentAccountId,
           debitAmount: '0',
           creditAmount: expense.totalAmount,
-          partyType: 'vendor' as const,
-          partyId: expense.vendorId || undefined,
-          description: `Payable - ${expense.expenseNumber}`,
+          description: `Payment - ${expense.expenseNumber}`,
+        });
+      } else {
+        // Accounts Payable
+        const apAccount = await tx.query.chartOfAccounts.findFirst({
+          where: and(
+            eq(chartOfAccounts.companyId, req.companyId!),
+            eq(chartOfAccounts.code, '2100') // Trade Payables
+          ),
         });
+
+        if (apAccount) {
+          jeLines.push({
+            journalEntryId: je.id,
+            accountId: apAccount.id,
+            debitAmount: '0',
+            creditAmount: expense.totalAmount,
+            partyType: 'vendor' as const,
+            partyId: expense.vendorId || undefined,
+            description: `Payable - ${expense.expenseNumber}`,
+          });
+        }
       }
-    }
 
-    await db.insert(journalEntryLines).values(jeLines);
+      await tx.insert(journalEntryLines).values(jeLines);
+      await refreshPeriodBalances(tx, req.companyId!, [je]);
 
-    // Update expense
-    const [updated] = await db.update(expenses)
-      .set({
-        status: expense.paymentAccountId ? 'paid' : 'approved',
-        approvedByUserId: req.userId,
-        approvedAt: new Date(),
-        journalEntryId: je.id,
-        updatedAt: new Date(),
-      })
-      .where(eq(expenses.id, id))
-      .returning();
+      const [approved] = await tx.update(expenses)
+        .set({
+          status: expense.paymentAccountId ? 'paid' : 'approved',
+          approvedByUserId: req.userId,
+          approvedAt: new Date(),
+          journalEntryId: je.id,
+          updatedAt: new Date(),
+        })
+        .where(eq(expenses.id, id))
+        .returning();
+      return approved;
+    });
+
+    if (!updated) {
+      return res.status(409).json({ error: 'Expense has already been approved or rejected' });
+    }
 
     res.json(updated);
   } catch (error) {
@@ -382,14 +462,38 @@ router.post('/:id/reject', requireCompany, async (req: AuthenticatedRequest, res
       return res.status(400).json({ error: 'Only pending expenses can be rejected' });
     }
 
-    const [updated] = await db.update(expenses)
-      .set({
-        status: 'rejected',
-        notes: reason ? `Rejected: ${reason}` : expense.notes,
-        updatedAt: new Date(),
-      })
-      .where(eq(expenses.id, id))
-      .returning();
+    const approval = await pendingExpenseApproval(expense);
+    if (approval) {
+      const blocker = approvalBlocker(
+        approval,
+        requestApproverRoles(approval),
+        { userId: req.userId!, role: userAccess.role },
+        expense.createdByUserId
+      );
+      if (blocker) {
+        return res.status(403).json({ error: blocker });
+      }
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      if (approval && !await decideApproval(tx, approval.id, 'rejected', req.userId!, reason)) {
+        return null;
+      }
+
+      const [rejected] = await tx.update(expenses)
+        .set({
+          status: 'rejected',
+          notes: reason ? `Rejected: ${reason}` : expense.notes,
+          updatedAt: new Date(),
+        })
+        .where(eq(expenses.id, id))
+        .returning();
+      return rejected;
+    });
+
+    if (!updated) {
+      return res.status(409).json({ error: 'Expense has already been approved or rejected' });
+    }
 
     res.json(updated);
   } catch (error) {
@@ -510,6 +614,7 @@ router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) =>
       return res.status(400).json({ error: 'Only pending expenses can be deleted' });
     }
 
+    await cancelApprovalRequests(db, req.companyId!, 'expense', id);
     await db.delete(expenses).where(eq(expenses.id, id));
 
     res.json({ message: 'Expense deleted' });
@@ -1,25 +1,454 @@
 import { Router } from 'express';
 import { db } from '../db';
 import {
-  journalEntries, journalEntryLines, chartOfAccounts,
-  fiscalYears, scheduleIIIMappings, financialStatementRuns, companies
+  fiscalYears, scheduleIIIMappings, financialStatementRuns, companies,
+  type ChartOfAccount, type ScheduleIIIMapping,
 } from '@shared/schema';
-import { eq, and, lte, sql, asc } from 'drizzle-orm';
+import { eq, and, sql, asc } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
-import { generateBalanceSheetExcel, generatePLExcel } from '../services/excelExport';
+import { generateBalanceSheetExcel, generatePLExcel, generateCashFlowExcel } from '../services/excelExport';
+import { getStockValuation } from '../services/inventory';
+import { previousDay } from '../services/ledger';
+import {
+  getStatementBalances, hasActivity, addComparative, previousYearDate, noteNumberFor,
+  buildBalanceSheetNotes, buildProfitAndLossNotes,
+  type StatementBalance, type StatementLine, type StatementComparative, type ComparativeSource,
+} from '../services/statements';
+import { getCostCenterProfitAndLoss, getCostCenterProfitAndLossDetail } from '../services/costCenters';
 
 const router = Router();
 
-interface StatementLine {
-  code: string;
-  name: string;
-  amount: number;
-  previousAmount?: number;
-  indentLevel: number;
-  isBold: boolean;
-  isTotal: boolean;
-  hasSubSchedule: boolean;
-  children?: StatementLine[];
+// Balance sheet lines from account balances as at a date
+async function buildBalanceSheet(
+  companyId: string,
+  mappings: ScheduleIIIMapping[],
+  balances: StatementBalance[],
+  asOfDate: string
+) {
+  // Calculate P&L for the period (for Reserves & Surplus)
+  const plBalances = balances.filter(b =>
+    b.accountType === 'income' || b.accountType === 'expense'
+  );
+
+  let netProfit = 0;
+  plBalances.forEach(b => {
+    if (b.accountType === 'income') {
+      // Income: credit balance is positive (credit - debit)
+      netProfit += parseFloat(b.credit) - parseFloat(b.debit);
+    } else {
+      // Expense: debit balance reduces profit (subtract debit - credit)
+      netProfit -= parseFloat(b.debit) - parseFloat(b.credit);
+    }
+  });
+
+  // Group balances by Schedule III mapping
+  const mappingBalances = new Map<string, number>();
+
+  balances.forEach(b => {
+    if (b.scheduleIIIMapping) {
+      const balance = parseFloat(b.debit) - parseFloat(b.credit);
+      // For liability and equity, show credit balance as positive
+      let adjustedBalance = balance;
+      if (b.accountType === 'liability' || b.accountType === 'equity') {
+        adjustedBalance = -balance;
+      }
+
+      const current = mappingBalances.get(b.scheduleIIIMapping) || 0;
+      mappingBalances.set(b.scheduleIIIMapping, current + adjustedBalance);
+    }
+  });
+
+  // Inventories stay at the ledger balance so the balance sheet still
+  // balances; the stock ledger valuation is reported alongside, and any
+  // difference has to be posted through a stock journal
+  const stockValuation = await getStockValuation(companyId, asOfDate);
+  const ledgerInventory = mappingBalances.get('BS_ASSET_CA_INVENTORIES') || 0;
+  const inventoryReconciliation = stockValuation.items.length > 0
+    ? {
+        ledgerBalance: ledgerInventory,
+        stockValuation: stockValuation.totalValue,
+        difference: Math.round((stockValuation.totalValue - ledgerInventory) * 100) / 100,
+      }
+    : null;
+
+  // Build statement structure
+  const buildStatement = (items: ScheduleIIIMapping[]): StatementLine[] => {
+    return items.map(item => {
+      let amount = mappingBalances.get(item.lineItemCode) || 0;
+
+      // Handle computed totals
+      if (item.isTotal) {
+        // Sum up relevant items based on the total line
+        if (item.lineItemCode === 'BS_ASSET_NCA_TOTAL') {
+          amount = ['BS_ASSET_NCA_PPE', 'BS_ASSET_NCA_CWIP', 'BS_ASSET_NCA_INTANGIBLE',
+                    'BS_ASSET_NCA_INVESTMENTS', 'BS_ASSET_NCA_DTA', 'BS_ASSET_NCA_LOANS',
+                    'BS_ASSET_NCA_OTHER']
+            .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
+        } else if (item.lineItemCode === 'BS_ASSET_CA_TOTAL') {
+          amount = ['BS_ASSET_CA_INVENTORIES', 'BS_ASSET_CA_INVESTMENTS', 'BS_ASSET_CA_RECEIVABLES',
+                    'BS_ASSET_CA_CASH', 'BS_ASSET_CA_LOANS', 'BS_ASSET_CA_OTHER']
+            .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
+        } else if (item.lineItemCode === 'BS_ASSETS_TOTAL') {
+          const nca = ['BS_ASSET_NCA_PPE', 'BS_ASSET_NCA_CWIP', 'BS_ASSET_NCA_INTANGIBLE',
+                      'BS_ASSET_NCA_INVESTMENTS', 'BS_ASSET_NCA_DTA', 'BS_ASSET_NCA_LOANS',
+                      'BS_ASSET_NCA_OTHER']
+            .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
+          const ca = ['BS_ASSET_CA_INVENTORIES', 'BS_ASSET_CA_INVESTMENTS', 'BS_ASSET_CA_RECEIVABLES',
+                      'BS_ASSET_CA_CASH', 'BS_ASSET_CA_LOANS', 'BS_ASSET_CA_OTHER']
+            .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
+          amount = nca + ca;
+        } else if (item.lineItemCode === 'BS_EQUITY_TOTAL') {
+          amount = ['BS_EQUITY_SHARE_CAPITAL', 'BS_EQUITY_RESERVES', 'BS_EQUITY_OTHER']
+            .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0) + netProfit;
+        } else if (item.lineItemCode === 'BS_LIAB_NCL_TOTAL') {
+          amount = ['BS_LIAB_NCL_BORROWINGS', 'BS_LIAB_NCL_DTL', 'BS_LIAB_NCL_PROVISIONS',
+                    'BS_LIAB_NCL_OTHER']
+            .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
+        } else if (item.lineItemCode === 'BS_LIAB_CL_TOTAL') {
+          amount = ['BS_LIAB_CL_BORROWINGS', 'BS_LIAB_CL_PAYABLES', 'BS_LIAB_CL_OTHER',
+                    'BS_LIAB_CL_PROVISIONS']
+            .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
+        } else if (item.lineItemCode === 'BS_EQUITY_LIAB_TOTAL') {
+          const equity = ['BS_EQUITY_SHARE_CAPITAL', 'BS_EQUITY_RESERVES', 'BS_EQUITY_OTHER']
+            .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0) + netProfit;
+          const ncl = ['BS_LIAB_NCL_BORROWINGS', 'BS_LIAB_NCL_DTL', 'BS_LIAB_NCL_PROVISIONS',
+                      'BS_LIAB_NCL_OTHER']
+            .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
+          const cl = ['BS_LIAB_CL_BORROWINGS', 'BS_LIAB_CL_PAYABLES', 'BS_LIAB_CL_OTHER',
+                      'BS_LIAB_CL_PROVISIONS']
+            .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
+          amount = equity + ncl + cl;
+        }
+      }
+
+      // Add current year profit to reserves
+      if (item.lineItemCode === 'BS_EQUITY_RESERVES') {
+        amount += netProfit;
+      }
+
+      return {
+        code: item.lineItemCode,
+        name: item.lineItemName,
+        amount,
+        indentLevel: item.indentLevel || 0,
+        isBold: item.isBold || false,
+        isTotal: item.isTotal || false,
+        hasSubSchedule: item.hasSubSchedule || false,
+        noteNumber: noteNumberFor(item.lineItemCode),
+      };
+    });
+  };
+
+  const statement = buildStatement(mappings);
+
+  return { statement, netProfit, inventoryReconciliation };
+}
+
+// Profit and loss lines from income and expense totals for a period
+function buildProfitAndLoss(mappings: ScheduleIIIMapping[], balances: StatementBalance[]) {
+  // Group balances by Schedule III mapping
+  const mappingBalances = new Map<string, number>();
+
+  balances.forEach(b => {
+    if (b.scheduleIIIMapping) {
+      // For income: credit - debit (positive is income)
+      // For expense: debit - credit (positive is expense)
+      let amount: number;
+      if (b.accountType === 'income') {
+        amount = parseFloat(b.credit) - parseFloat(b.debit);
+      } else {
+        amount = parseFloat(b.debit) - parseFloat(b.credit);
+      }
+
+      const current = mappingBalances.get(b.scheduleIIIMapping) || 0;
+      mappingBalances.set(b.scheduleIIIMapping, current + amount);
+    }
+  });
+
+  // Build statement
+  const buildStatement = (items: ScheduleIIIMapping[]): StatementLine[] => {
+    return items.map(item => {
+      let amount = mappingBalances.get(item.lineItemCode) || 0;
+
+      // Handle computed totals
+      if (item.isTotal || item.lineItemCode.includes('TOTAL') || item.lineItemCode === 'PL_PBT' || item.lineItemCode === 'PL_PAT') {
+        if (item.lineItemCode === 'PL_TOTAL_INCOME') {
+          amount = (mappingBalances.get('PL_REVENUE_OPERATIONS') || 0) +
+                   (mappingBalances.get('PL_OTHER_INCOME') || 0);
+        } else if (item.lineItemCode === 'PL_TOTAL_EXPENSES') {
+          amount = ['PL_COST_MATERIALS', 'PL_PURCHASES', 'PL_INVENTORY_CHANGE',
+                    'PL_EMPLOYEE_BENEFITS', 'PL_FINANCE_COSTS', 'PL_DEPRECIATION',
+                    'PL_OTHER_EXPENSES']
+            .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
+        } else if (item.lineItemCode === 'PL_PBT') {
+          const income = (mappingBalances.get('PL_REVENUE_OPERATIONS') || 0) +
+                        (mappingBalances.get('PL_OTHER_INCOME') || 0);
+          const expenses = ['PL_COST_MATERIALS', 'PL_PURCHASES', 'PL_INVENTORY_CHANGE',
+                           'PL_EMPLOYEE_BENEFITS', 'PL_FINANCE_COSTS', 'PL_DEPRECIATION',
+                           'PL_OTHER_EXPENSES']
+            .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
+          amount = income - expenses;
+        } else if (item.lineItemCode === 'PL_PAT') {
+          const income = (mappingBalances.get('PL_REVENUE_OPERATIONS') || 0) +
+                        (mappingBalances.get('PL_OTHER_INCOME') || 0);
+          const expenses = ['PL_COST_MATERIALS', 'PL_PURCHASES', 'PL_INVENTORY_CHANGE',
+                           'PL_EMPLOYEE_BENEFITS', 'PL_FINANCE_COSTS', 'PL_DEPRECIATION',
+                           'PL_OTHER_EXPENSES', 'PL_TAX_EXPENSE']
+            .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
+          amount = income - expenses;
+        }
+      }
+
+      return {
+        code: item.lineItemCode,
+        name: item.lineItemName,
+        amount,
+        indentLevel: item.indentLevel || 0,
+        isBold: item.isBold || false,
+        isTotal: item.isTotal || false,
+        hasSubSchedule: item.hasSubSchedule || false,
+        noteNumber: noteNumberFor(item.lineItemCode),
+      };
+    });
+  };
+
+  const statement = buildStatement(mappings);
+  const netProfit = statement.find(s => s.code === 'PL_PAT')?.amount || 0;
+
+  return { statement, netProfit };
+}
+
+// Cash flow lines (indirect method) from the period's movements and the
+// balances brought into it
+function buildCashFlow(periodBalances: StatementBalance[], openingBalances: StatementBalance[]) {
+  // Calculate opening and closing balances for each account
+  const openingMap = new Map<string, number>();
+  openingBalances.forEach(b => {
+    const balance = b.accountType === 'asset' || b.accountType === 'expense'
+      ? parseFloat(b.debit) - parseFloat(b.credit)
+      : parseFloat(b.credit) - parseFloat(b.debit);
+    openingMap.set(b.accountId, balance);
+  });
+
+  // Calculate net profit
+  let netProfit = 0;
+  periodBalances.filter(b => b.accountType === 'income' || b.accountType === 'expense').forEach(b => {
+    const balance = parseFloat(b.credit) - parseFloat(b.debit);
+    if (b.accountType === 'income') {
+      netProfit += balance;
+    } else {
+      netProfit -= (parseFloat(b.debit) - parseFloat(b.credit));
+    }
+  });
+
+  // Categorize changes for cash flow
+  let depreciation = 0;
+  let receivablesChange = 0;
+  let inventoryChange = 0;
+  let payablesChange = 0;
+  let otherCurrentAssetsChange = 0;
+  let otherCurrentLiabilitiesChange = 0;
+  let fixedAssetsChange = 0;
+  let investmentsChange = 0;
+  let borrowingsChange = 0;
+  let equityChange = 0;
+
+  periodBalances.forEach(b => {
+    const periodChange = parseFloat(b.debit) - parseFloat(b.credit);
+    const mapping = b.scheduleIIIMapping || '';
+    const name = b.accountName.toLowerCase();
+
+    // Depreciation (non-cash expense - add back)
+    if (name.includes('depreciation') || name.includes('amortization')) {
+      depreciation += Math.abs(periodChange);
+    }
+    // Trade receivables
+    else if (mapping.includes('RECEIVABLE') || name.includes('receivable') || name.includes('debtor')) {
+      receivablesChange += periodChange;
+    }
+    // Inventories
+    else if (mapping.includes('INVENTOR') || name.includes('inventory') || name.includes('stock')) {
+      inventoryChange += periodChange;
+    }
+    // Trade payables
+    else if (mapping.includes('PAYABLE') || name.includes('payable') || name.includes('creditor')) {
+      payablesChange += -periodChange; // Credit increase = positive for cash
+    }
+    // Fixed assets (PPE, Intangibles)
+    else if (mapping.includes('PPE') || mapping.includes('INTANGIBLE') ||
+             name.includes('plant') || name.includes('machinery') ||
+             name.includes('furniture') || name.includes('vehicle') ||
+             name.includes('building') || name.includes('land')) {
+      fixedAssetsChange += periodChange;
+    }
+    // Investments
+    else if (mapping.includes('INVESTMENT') || name.includes('investment')) {
+      investmentsChange += periodChange;
+    }
+    // Borrowings
+    else if (mapping.includes('BORROWING') || name.includes('loan') || name.includes('borrowing')) {
+      borrowingsChange += -periodChange;
+    }
+    // Equity changes
+    else if (b.accountType === 'equity') {
+      equityChange += -periodChange;
+    }
+    // Other current assets
+    else if (b.accountType === 'asset' && !mapping.includes('CASH') && !mapping.includes('BANK')) {
+      if (mapping.includes('CA_') || name.includes('advance') || name.includes('prepaid')) {
+        otherCurrentAssetsChange += periodChange;
+      }
+    }
+    // Other current liabilities
+    else if (b.accountType === 'liability') {
+      if (mapping.includes('CL_') || name.includes('provision') || name.includes('accrued')) {
+        otherCurrentLiabilitiesChange += -periodChange;
+      }
+    }
+  });
+
+  // Get cash/bank balances
+  let openingCash = 0;
+  let closingCash = 0;
+
+  openingBalances
+    .filter(b => b.scheduleIIIMapping?.includes('CASH') ||
+                 b.accountName.toLowerCase().includes('cash') ||
+                 b.accountName.toLowerCase().includes('bank'))
+    .forEach(b => {
+      openingCash += parseFloat(b.debit) - parseFloat(b.credit);
+    });
+
+  periodBalances
+    .filter(b => b.scheduleIIIMapping?.includes('CASH') ||
+                 b.accountName.toLowerCase().includes('cash') ||
+                 b.accountName.toLowerCase().includes('bank'))
+    .forEach(b => {
+      const opening = openingMap.get(b.accountId) || 0;
+      closingCash += opening + parseFloat(b.debit) - parseFloat(b.credit);
+    });
+
+  // Build Cash Flow Statement (Indirect Method)
+  const operatingActivities: StatementLine[] = [
+    { code: 'CFO_HEADER', name: 'A. Cash Flow from Operating Activities', amount: 0, indentLevel: 0, isBold: true, isTotal: false, hasSubSchedule: false },
+    { code: 'CFO_NET_PROFIT', name: 'Net Profit Before Tax', amount: netProfit, indentLevel: 1, isBold: false, isTotal: false, hasSubSchedule: false },
+    { code: 'CFO_ADJ_HEADER', name: 'Adjustments for:', amount: 0, indentLevel: 1, isBold: true, isTotal: false, hasSubSchedule: false },
+    { code: 'CFO_DEPRECIATION', name: 'Depreciation and Amortization', amount: depreciation, indentLevel: 2, isBold: false, isTotal: false, hasSubSchedule: false },
+    { code: 'CFO_WC_HEADER', name: 'Working Capital Changes:', amount: 0, indentLevel: 1, isBold: true, isTotal: false, hasSubSchedule: false },
+    { code: 'CFO_RECEIVABLES', name: '(Increase)/Decrease in Trade Receivables', amount: -receivablesChange, indentLevel: 2, isBold: false, isTotal: false, hasSubSchedule: false },
+    { code: 'CFO_INVENTORY', name: '(Increase)/Decrease in Inventories', amount: -inventoryChange, indentLevel: 2, isBold: false, isTotal: false, hasSubSchedule: false },
+    { code: 'CFO_OTHER_CA', name: '(Increase)/Decrease in Other Current Assets', amount: -otherCurrentAssetsChange, indentLevel: 2, isBold: false, isTotal: false, hasSubSchedule: false },
+    { code: 'CFO_PAYABLES', name: 'Increase/(Decrease) in Trade Payables', amount: payablesChange, indentLevel: 2, isBold: false, isTotal: false, hasSubSchedule: false },
+    { code: 'CFO_OTHER_CL', name: 'Increase/(Decrease) in Other Current Liabilities', amount: otherCurrentLiabilitiesChange, indentLevel: 2, isBold: false, isTotal: false, hasSubSchedule: false },
+  ];
+
+  const netCashFromOperating = netProfit + depreciation - receivablesChange - inventoryChange -
+                                otherCurrentAssetsChange + payablesChange + otherCurrentLiabilitiesChange;
+
+  operatingActivities.push({
+    code: 'CFO_TOTAL',
+    name: 'Net Cash from Operating Activities (A)',
+    amount: netCashFromOperating,
+    indentLevel: 0,
+    isBold: true,
+    isTotal: true,
+    hasSubSchedule: false,
+  });
+
+  const investingActivities: StatementLine[] = [
+    { code: 'CFI_HEADER', name: 'B. Cash Flow from Investing Activities', amount: 0, indentLevel: 0, isBold: true, isTotal: false, hasSubSchedule: false },
+    { code: 'CFI_FIXED_ASSETS', name: 'Purchase of Property, Plant & Equipment', amount: -fixedAssetsChange, indentLevel: 1, isBold: false, isTotal: false, hasSubSchedule: false },
+    { code: 'CFI_INVESTMENTS', name: '(Purchase)/Sale of Investments', amount: -investmentsChange, indentLevel: 1, isBold: false, isTotal: false, hasSubSchedule: false },
+  ];
+
+  const netCashFromInvesting = -fixedAssetsChange - investmentsChange;
+
+  investingActivities.push({
+    code: 'CFI_TOTAL',
+    name: 'Net Cash from Investing Activities (B)',
+    amount: netCashFromInvesting,
+    indentLevel: 0,
+    isBold: true,
+    isTotal: true,
+    hasSubSchedule: false,
+  });
+
+  const financingActivities: StatementLine[] = [
+    { code: 'CFF_HEADER', name: 'C. Cash Flow from Financing Activities', amount: 0, indentLevel: 0, isBold: true, isTotal: false, hasSubSchedule: false },
+    { code: 'CFF_BORROWINGS', name: 'Proceeds/(Repayment) of Borrowings', amount: borrowingsChange, indentLevel: 1, isBold: false, isTotal: false, hasSubSchedule: false },
+    { code: 'CFF_EQUITY', name: 'Proceeds from Issue of Equity', amount: equityChange, indentLevel: 1, isBold: false, isTotal: false, hasSubSchedule: false },
+  ];
+
+  const netCashFromFinancing = borrowingsChange + equityChange;
+
+  financingActivities.push({
+    code: 'CFF_TOTAL',
+    name: 'Net Cash from Financing Activities (C)',
+    amount: netCashFromFinancing,
+    indentLevel: 0,
+    isBold: true,
+    isTotal: true,
+    hasSubSchedule: false,
+  });
+
+  const netIncrease = netCashFromOperating + netCashFromInvesting + netCashFromFinancing;
+
+  const summary: StatementLine[] = [
+    { code: 'CF_NET_INCREASE', name: 'Net Increase/(Decrease) in Cash (A+B+C)', amount: netIncrease, indentLevel: 0, isBold: true, isTotal: true, hasSubSchedule: false },
+    { code: 'CF_OPENING', name: 'Cash and Cash Equivalents at Beginning', amount: openingCash, indentLevel: 0, isBold: false, isTotal: false, hasSubSchedule: false },
+    { code: 'CF_CLOSING', name: 'Cash and Cash Equivalents at End', amount: openingCash + netIncrease, indentLevel: 0, isBold: true, isTotal: true, hasSubSchedule: false },
+  ];
+
+  const statement = [...operatingActivities, ...investingActivities, ...financingActivities, ...summary];
+
+  return {
+    statement,
+    totals: {
+      netCashFromOperating,
+      netCashFromInvesting,
+      netCashFromFinancing,
+      netIncrease,
+      openingCash,
+      closingCash: openingCash + netIncrease,
+    },
+  };
+}
+
+// Previous year balances as at the same date. A year that was never booked
+// here still has its closing position in this year's opening balances
+async function previousYearEndBalances(companyId: string, fiscalYearId: string, asOfDate: string) {
+  const previousAsOf = previousYearDate(asOfDate);
+  let balances = await getStatementBalances(companyId, { to: previousAsOf });
+  let source: ComparativeSource = 'ledger';
+
+  if (!hasActivity(balances)) {
+    balances = await getStatementBalances(
+      companyId,
+      { fiscalYearId, openingEntries: 'only' },
+      { includeAccountOpening: true }
+    );
+    source = hasActivity(balances) ? 'opening_balances' : 'none';
+  }
+
+  const comparative: StatementComparative = { toDate: previousAsOf, source };
+  return { balances: source === 'none' ? null : balances, comparative };
+}
+
+// Same period of the previous year, from its posted movements only;
+// opening balances carry no income, expense or cash movement
+async function previousPeriodBalances(
+  companyId: string,
+  fromDate: string,
+  toDate: string,
+  accountTypes?: ChartOfAccount['accountType'][]
+) {
+  const previousFrom = previousYearDate(fromDate);
+  const previousTo = previousYearDate(toDate);
+  const balances = await getStatementBalances(companyId, { from: previousFrom, to: previousTo }, { accountTypes });
+  const source: ComparativeSource = hasActivity(balances) ? 'ledger' : 'none';
+
+  const comparative: StatementComparative = { fromDate: previousFrom, toDate: previousTo, source };
+  return { balances: source === 'none' ? null : balances, comparative };
 }
 
 // Get Balance Sheet
@@ -66,145 +495,36 @@ router.get('/balance-sheet', requireCompany, async (req: AuthenticatedRequest, r
     });
 
     // Get account balances
-    const balances = await db
-      .select({
-        accountId: chartOfAccounts.id,
-        accountCode: chartOfAccounts.code,
-        accountName: chartOfAccounts.name,
-        accountType: chartOfAccounts.accountType,
-        scheduleIIIMapping: chartOfAccounts.scheduleIIIMapping,
-        debit: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}), 0)`,
-        credit: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount}), 0)`,
-      })
-      .from(chartOfAccounts)
-      .leftJoin(journalEntryLines, eq(chartOfAccounts.id, journalEntryLines.accountId))
-      .leftJoin(journalEntries, and(
-        eq(journalEntryLines.journalEntryId, journalEntries.id),
-        eq(journalEntries.status, 'posted'),
-        lte(journalEntries.entryDate, endDate)
-      ))
-      .where(and(
-        eq(chartOfAccounts.companyId, req.companyId!),
-        eq(chartOfAccounts.isActive, true),
-        eq(chartOfAccounts.isGroup, false)
-      ))
-      .groupBy(
-        chartOfAccounts.id,
-        chartOfAccounts.code,
-        chartOfAccounts.name,
-        chartOfAccounts.accountType,
-        chartOfAccounts.scheduleIIIMapping
-      );
-
-    // Calculate P&L for the period (for Reserves & Surplus)
-    const plBalances = balances.filter(b =>
-      b.accountType === 'income' || b.accountType === 'expense'
-    );
-
-    let netProfit = 0;
-    plBalances.forEach(b => {
-      if (b.accountType === 'income') {
-        // Income: credit balance is positive (credit - debit)
-        netProfit += parseFloat(b.credit) - parseFloat(b.debit);
-      } else {
-        // Expense: debit balance reduces profit (subtract debit - credit)
-        netProfit -= parseFloat(b.debit) - parseFloat(b.credit);
+    const balances = await getStatementBalances(req.companyId!, { to: endDate });
+    const { statement: current, netProfit, inventoryReconciliation } =
+      await buildBalanceSheet(req.companyId!, mappings, balances, endDate);
+
+    let previous: StatementLine[] | null = null;
+    let previousBalances: StatementBalance[] | null = null;
+    let comparative: StatementComparative | null = null;
+    if (includeComparative !== 'false') {
+      ({ balances: previousBalances, comparative } = await previousYearEndBalances(req.companyId!, fy.id, endDate));
+      if (previousBalances) {
+        previous = (await buildBalanceSheet(req.companyId!, mappings, previousBalances, comparative.toDate)).statement;
       }
-    });
-
-    // Group balances by Schedule III mapping
-    const mappingBalances = new Map<string, number>();
-
-    balances.forEach(b => {
-      if (b.scheduleIIIMapping) {
-        const balance = parseFloat(b.debit) - parseFloat(b.credit);
-        // For liability and equity, show credit balance as positive
-        let adjustedBalance = balance;
-        if (b.accountType === 'liability' || b.accountType === 'equity') {
-          adjustedBalance = -balance;
-        }
+    }
 
-        const current = mappingBalances.get(b.scheduleIIIMapping) || 0;
-        mappingBalances.set(b.scheduleIIIMapping, current + adjustedBalance);
-      }
+    const statement = addComparative(current, previous);
+    const notes = await buildBalanceSheetNotes(req.companyId!, {
+      fromDate: fy.startDate,
+      asOfDate: endDate,
+      balances,
+      previousBalances,
+      previousAsOf: comparative?.toDate,
     });
 
-    // Build statement structure
-    const buildStatement = (items: typeof mappings): StatementLine[] => {
-      return items.map(item => {
-        let amount = mappingBalances.get(item.lineItemCode) || 0;
-
-        // Handle computed totals
-        if (item.isTotal) {
-          // Sum up relevant items based on the total line
-          if (item.lineItemCode === 'BS_ASSET_NCA_TOTAL') {
-            amount = ['BS_ASSET_NCA_PPE', 'BS_ASSET_NCA_CWIP', 'BS_ASSET_NCA_INTANGIBLE',
-                      'BS_ASSET_NCA_INVESTMENTS', 'BS_ASSET_NCA_DTA', 'BS_ASSET_NCA_LOANS',
-                      'BS_ASSET_NCA_OTHER']
-              .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
-          } else if (item.lineItemCode === 'BS_ASSET_CA_TOTAL') {
-            amount = ['BS_ASSET_CA_INVENTORIES', 'BS_ASSET_CA_INVESTMENTS', 'BS_ASSET_CA_RECEIVABLES',
-                      'BS_ASSET_CA_CASH', 'BS_ASSET_CA_LOANS', 'BS_ASSET_CA_OTHER']
-              .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
-          } else if (item.lineItemCode === 'BS_ASSETS_TOTAL') {
-            const nca = ['BS_ASSET_NCA_PPE', 'BS_ASSET_NCA_CWIP', 'BS_ASSET_NCA_INTANGIBLE',
-                        'BS_ASSET_NCA_INVESTMENTS', 'BS_ASSET_NCA_DTA', 'BS_ASSET_NCA_LOANS',
-                        'BS_ASSET_NCA_OTHER']
-              .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
-            const ca = ['BS_ASSET_CA_INVENTORIES', 'BS_ASSET_CA_INVESTMENTS', 'BS_ASSET_CA_RECEIVABLES',
-                        'BS_ASSET_CA_CASH', 'BS_ASSET_CA_LOANS', 'BS_ASSET_CA_OTHER']
-              .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
-            amount = nca + ca;
-          } else if (item.lineItemCode === 'BS_EQUITY_TOTAL') {
-            amount = ['BS_EQUITY_SHARE_CAPITAL', 'BS_EQUITY_RESERVES', 'BS_EQUITY_OTHER']
-              .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0) + netProfit;
-          } else if (item.lineItemCode === 'BS_LIAB_NCL_TOTAL') {
-            amount = ['BS_LIAB_NCL_BORROWINGS', 'BS_LIAB_NCL_DTL', 'BS_LIAB_NCL_PROVISIONS',
-                      'BS_LIAB_NCL_OTHER']
-              .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
-          } else if (item.lineItemCode === 'BS_LIAB_CL_TOTAL') {
-            amount = ['BS_LIAB_CL_BORROWINGS', 'BS_LIAB_CL_PAYABLES', 'BS_LIAB_CL_OTHER',
-                      'BS_LIAB_CL_PROVISIONS']
-              .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
-          } else if (item.lineItemCode === 'BS_EQUITY_LIAB_TOTAL') {
-            const equity = ['BS_EQUITY_SHARE_CAPITAL', 'BS_EQUITY_RESERVES', 'BS_EQUITY_OTHER']
-              .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0) + netProfit;
-            const ncl = ['BS_LIAB_NCL_BORROWINGS', 'BS_LIAB_NCL_DTL', 'BS_LIAB_NCL_PROVISIONS',
-                        'BS_LIAB_NCL_OTHER']
-              .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
-            const cl = ['BS_LIAB_CL_BORROWINGS', 'BS_LIAB_CL_PAYABLES', 'BS_LIAB_CL_OTHER',
-                        'BS_LIAB_CL_PROVISIONS']
-              .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
-            amount = equity + ncl + cl;
-          }
-        }
-
-        // Add current year profit to reserves
-        if (item.lineItemCode === 'BS_EQUITY_RESERVES') {
-          amount += netProfit;
-        }
-
-        return {
-          code: item.lineItemCode,
-          name: item.lineItemName,
-          amount,
-          indentLevel: item.indentLevel || 0,
-          isBold: item.isBold || false,
-          isTotal: item.isTotal || false,
-          hasSubSchedule: item.hasSubSchedule || false,
-        };
-      });
-    };
-
-    const statement = buildStatement(mappings);
-
     // Save run
     const [run] = await db.insert(financialStatementRuns).values({
       companyId: req.companyId!,
       fiscalYearId: fy.id,
       statementType: 'balance_sheet',
       asOfDate: endDate,
-      generatedData: { statement, netProfit },
+      generatedData: { statement, netProfit, asOfDate: endDate, comparative, notes, inventoryReconciliation },
       generatedByUserId: req.userId!,
     }).returning();
 
@@ -214,6 +534,9 @@ router.get('/balance-sheet', requireCompany, async (req: AuthenticatedRequest, r
       asOfDate: endDate,
       statement,
       netProfit,
+      comparative,
+      notes,
+      inventoryReconciliation,
       runId: run.id,
     });
   } catch (error) {
@@ -225,7 +548,7 @@ router.get('/balance-sheet', requireCompany, async (req: AuthenticatedRequest, r
 // Get Profit & Loss Statement
 router.get('/profit-loss', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
-    const { fiscalYearId, fromDate, toDate } = req.query;
+    const { fiscalYearId, fromDate, toDate, includeComparative } = req.query;
 
     // Get fiscal year
     let fy;
@@ -267,105 +590,30 @@ router.get('/profit-loss', requireCompany, async (req: AuthenticatedRequest, res
     });
 
     // Get income and expense balances
-    const balances = await db
-      .select({
-        accountId: chartOfAccounts.id,
-        accountCode: chartOfAccounts.code,
-        accountName: chartOfAccounts.name,
-        accountType: chartOfAccounts.accountType,
-        scheduleIIIMapping: chartOfAccounts.scheduleIIIMapping,
-        debit: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}), 0)`,
-        credit: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount}), 0)`,
-      })
-      .from(chartOfAccounts)
-      .leftJoin(journalEntryLines, eq(chartOfAccounts.id, journalEntryLines.accountId))
-      .leftJoin(journalEntries, and(
-        eq(journalEntryLines.journalEntryId, journalEntries.id),
-        eq(journalEntries.status, 'posted'),
-        sql`${journalEntries.entryDate} >= ${startDate}`,
-        sql`${journalEntries.entryDate} <= ${endDate}`
-      ))
-      .where(and(
-        eq(chartOfAccounts.companyId, req.companyId!),
-        eq(chartOfAccounts.isActive, true),
-        eq(chartOfAccounts.isGroup, false),
-        sql`${chartOfAccounts.accountType} IN ('income', 'expense')`
-      ))
-      .groupBy(
-        chartOfAccounts.id,
-        chartOfAccounts.code,
-        chartOfAccounts.name,
-        chartOfAccounts.accountType,
-        chartOfAccounts.scheduleIIIMapping
-      );
-
-    // Group balances by Schedule III mapping
-    const mappingBalances = new Map<string, number>();
-
-    balances.forEach(b => {
-      if (b.scheduleIIIMapping) {
-        // For income: credit - debit (positive is income)
-        // For expense: debit - credit (positive is expense)
-        let amount: number;
-        if (b.accountType === 'income') {
-          amount = parseFloat(b.credit) - parseFloat(b.debit);
-        } else {
-          amount = parseFloat(b.debit) - parseFloat(b.credit);
-        }
-
-        const current = mappingBalances.get(b.scheduleIIIMapping) || 0;
-        mappingBalances.set(b.scheduleIIIMapping, current + amount);
+    const balances = await getStatementBalances(req.companyId!, { from: startDate, to: endDate }, { accountTypes: ['income', 'expense'] });
+    const { statement: current, netProfit } = buildProfitAndLoss(mappings, balances);
+
+    let previous: StatementLine[] | null = null;
+    let previousBalances: StatementBalance[] | null = null;
+    let comparative: StatementComparative | null = null;
+    if (includeComparative !== 'false') {
+      ({ balances: previousBalances, comparative } = await previousPeriodBalances(
+        req.companyId!, startDate, endDate, ['income', 'expense']
+      ));
+      if (previousBalances) {
+        previous = buildProfitAndLoss(mappings, previousBalances).statement;
       }
-    });
-
-    // Build statement
-    const buildStatement = (items: typeof mappings): StatementLine[] => {
-      return items.map(item => {
-        let amount = mappingBalances.get(item.lineItemCode) || 0;
-
-        // Handle computed totals
-        if (item.isTotal || item.lineItemCode.includes('TOTAL') || item.lineItemCode === 'PL_PBT' || item.lineItemCode === 'PL_PAT') {
-          if (item.lineItemCode === 'PL_TOTAL_INCOME') {
-            amount = (mappingBalances.get('PL_REVENUE_OPERATIONS') || 0) +
-                     (mappingBalances.get('PL_OTHER_INCOME') || 0);
-          } else if (item.lineItemCode === 'PL_TOTAL_EXPENSES') {
-            amount = ['PL_COST_MATERIALS', 'PL_PURCHASES', 'PL_INVENTORY_CHANGE',
-                      'PL_EMPLOYEE_BENEFITS', 'PL_FINANCE_COSTS', 'PL_DEPRECIATION',
-                      'PL_OTHER_EXPENSES']
-              .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
-          } else if (item.lineItemCode === 'PL_PBT') {
-            const income = (mappingBalances.get('PL_REVENUE_OPERATIONS') || 0) +
-                          (mappingBalances.get('PL_OTHER_INCOME') || 0);
-            const expenses = ['PL_COST_MATERIALS', 'PL_PURCHASES', 'PL_INVENTORY_CHANGE',
-                             'PL_EMPLOYEE_BENEFITS', 'PL_FINANCE_COSTS', 'PL_DEPRECIATION',
-                             'PL_OTHER_EXPENSES']
-              .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
-            amount = income - expenses;
-          } else if (item.lineItemCode === 'PL_PAT') {
-            const income = (mappingBalances.get('PL_REVENUE_OPERATIONS') || 0) +
-                          (mappingBalances.get('PL_OTHER_INCOME') || 0);
-            const expenses = ['PL_COST_MATERIALS', 'PL_PURCHASES', 'PL_INVENTORY_CHANGE',
-                             'PL_EMPLOYEE_BENEFITS', 'PL_FINANCE_COSTS', 'PL_DEPRECIATION',
-                             'PL_OTHER_EXPENSES', 'PL_TAX_EXPENSE']
-              .reduce((sum, code) => sum + (mappingBalances.get(code) || 0), 0);
-            amount = income - expenses;
-          }
-        }
-
-        return {
-          code: item.lineItemCode,
-          name: item.lineItemName,
-          amount,
-          indentLevel: item.indentLevel || 0,
-          isBold: item.isBold || false,
-          isTotal: item.isTotal || false,
-          hasSubSchedule: item.hasSubSchedule || false,
-        };
-      });
-    };
+    }
 
-    const statement = buildStatement(mappings);
-    const netProfit = statement.find(s => s.code === 'PL_PAT')?.amount || 0;
+    const statement = addComparative(current, previous);
+    const notes = buildProfitAndLossNotes({
+      fromDate: startDate,
+      toDate: endDate,
+      balances,
+      previousBalances,
+      previousFromDate: comparative?.fromDate,
+      previousToDate: comparative?.toDate,
+    });
 
     // Save run
     const [run] = await db.insert(financialStatementRuns).values({
@@ -373,7 +621,7 @@ router.get('/profit-loss', requireCompany, async (req: AuthenticatedRequest, res
       fiscalYearId: fy.id,
       statementType: 'profit_loss',
       asOfDate: endDate,
-      generatedData: { statement, fromDate: startDate, toDate: endDate },
+      generatedData: { statement, netProfit, fromDate: startDate, toDate: endDate, comparative, notes },
       generatedByUserId: req.userId!,
     }).returning();
 
@@ -384,6 +632,8 @@ router.get('/profit-loss', requireCompany, async (req: AuthenticatedRequest, res
       toDate: endDate,
       statement,
       netProfit,
+      comparative,
+      notes,
       runId: run.id,
     });
   } catch (error) {
@@ -392,6 +642,132 @@ router.get('/profit-loss', requireCompany, async (req: AuthenticatedRequest, res
   }
 });
 
+// Profit and loss by cost center, rolled up the cost center tree; with a
+// costCenterId, the income and expense accounts of that cost center
+router.get('/cost-center-profit-loss', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { fiscalYearId, fromDate, toDate, costCenterId } = req.query;
+
+    // Get fiscal year
+    let fy;
+    if (fiscalYearId) {
+      fy = await db.query.fiscalYears.findFirst({
+        where: and(
+          eq(fiscalYears.id, fiscalYearId as string),
+          eq(fiscalYears.companyId, req.companyId!)
+        ),
+      });
+    } else {
+      fy = await db.query.fiscalYears.findFirst({
+        where: and(
+          eq(fiscalYears.companyId, req.companyId!),
+          eq(fiscalYears.isCurrent, true)
+        ),
+      });
+    }
+
+    if (!fy) {
+      return res.status(400).json({ error: 'No fiscal year found' });
+    }
+
+    const range = {
+      from: fromDate as string || fy.startDate,
+      to: toDate as string || fy.endDate,
+    };
+
+    if (costCenterId) {
+      const detail = await getCostCenterProfitAndLossDetail(req.companyId!, costCenterId as string, range);
+      if (!detail) {
+        return res.status(404).json({ error: 'Cost center not found' });
+      }
+      return res.json({ fiscalYear: fy, ...detail });
+    }
+
+    const report = await getCostCenterProfitAndLoss(req.companyId!, range);
+    res.json({ fiscalYear: fy, ...report });
+  } catch (error) {
+    console.error('Cost center P&L error:', error);
+    res.status(500).json({ error: 'Failed to generate cost center P&L' });
+  }
+});
+
+// Get Notes to Accounts for the balance sheet and profit and loss
+router.get('/notes', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { fiscalYearId, asOfDate, includeComparative } = req.query;
+
+    // Get fiscal year
+    let fy;
+    if (fiscalYearId) {
+      fy = await db.query.fiscalYears.findFirst({
+        where: and(
+          eq(fiscalYears.id, fiscalYearId as string),
+          eq(fiscalYears.companyId, req.companyId!)
+        ),
+      });
+    } else {
+      fy = await db.query.fiscalYears.findFirst({
+        where: and(
+          eq(fiscalYears.companyId, req.companyId!),
+          eq(fiscalYears.isCurrent, true)
+        ),
+      });
+    }
+
+    if (!fy) {
+      return res.status(400).json({ error: 'No fiscal year found' });
+    }
+
+    const endDate = asOfDate as string || fy.endDate;
+
+    const company = await db.query.companies.findFirst({
+      where: eq(companies.id, req.companyId!),
+    });
+
+    const balances = await getStatementBalances(req.companyId!, { to: endDate });
+    const periodBalances = await getStatementBalances(
+      req.companyId!,
+      { from: fy.startDate, to: endDate },
+      { accountTypes: ['income', 'expense'] }
+    );
+
+    const withComparative = includeComparative !== 'false';
+    const previousYearEnd = withComparative ? await previousYearEndBalances(req.companyId!, fy.id, endDate) : null;
+    const previousPeriod = withComparative
+      ? await previousPeriodBalances(req.companyId!, fy.startDate, endDate, ['income', 'expense'])
+      : null;
+
+    const notes = [
+      ...await buildBalanceSheetNotes(req.companyId!, {
+        fromDate: fy.startDate,
+        asOfDate: endDate,
+        balances,
+        previousBalances: previousYearEnd?.balances || null,
+        previousAsOf: previousYearEnd?.comparative.toDate,
+      }),
+      ...buildProfitAndLossNotes({
+        fromDate: fy.startDate,
+        toDate: endDate,
+        balances: periodBalances,
+        previousBalances: previousPeriod?.balances || null,
+        previousFromDate: previousPeriod?.comparative.fromDate,
+        previousToDate: previousPeriod?.comparative.toDate,
+      }),
+    ].sort((a, b) => a.number - b.number);
+
+    res.json({
+      fiscalYear: fy,
+      company,
+      fromDate: fy.startDate,
+      asOfDate: endDate,
+      notes,
+    });
+  } catch (error) {
+    console.error('Notes to accounts error:', error);
+    res.status(500).json({ error: 'Failed to generate notes to accounts' });
+  }
+});
+
 // Export to Excel
 router.get('/export/:runId', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
@@ -425,6 +801,9 @@ router.get('/export/:runId', requireCompany, async (req: AuthenticatedRequest, r
     } else if (run.statementType === 'profit_loss') {
       buffer = await generatePLExcel(company!, fy!, run.generatedData as any);
       filename = `Profit_Loss_${company?.name}_${fy?.name}.xlsx`;
+    } else if (run.statementType === 'cash_flow') {
+      buffer = await generateCashFlowExcel(company!, fy!, run.generatedData as any);
+      filename = `Cash_Flow_${company?.name}_${fy?.name}.xlsx`;
     } else {
       return res.status(400).json({ error: 'Export not supported for this statement type' });
     }
@@ -441,7 +820,7 @@ router.get('/export/:runId', requireCompany, async (req: AuthenticatedRequest, r
 // Get Cash Flow Statement (Indirect Method)
 router.get('/cash-flow', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
-    const { fiscalYearId, fromDate, toDate } = req.query;
+    const { fiscalYearId, fromDate, toDate, includeComparative } = req.query;
 
     // Get fiscal year
     let fy;
@@ -474,247 +853,25 @@ router.get('/cash-flow', requireCompany, async (req: AuthenticatedRequest, res)
     });
 
     // Get all account balances for the period
-    const periodBalances = await db
-      .select({
-        accountId: chartOfAccounts.id,
-        accountCode: chartOfAccounts.code,
-        accountName: chartOfAccounts.name,
-        accountType: chartOfAccounts.accountType,
-        scheduleIIIMapping: chartOfAccounts.scheduleIIIMapping,
-        debit: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}), 0)`,
-        credit: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount}), 0)`,
-      })
-      .from(chartOfAccounts)
-      .leftJoin(journalEntryLines, eq(chartOfAccounts.id, journalEntryLines.accountId))
-      .leftJoin(journalEntries, and(
-        eq(journalEntryLines.journalEntryId, journalEntries.id),
-        eq(journalEntries.status, 'posted'),
-        sql`${journalEntries.entryDate} >= ${startDate}`,
-        sql`${journalEntries.entryDate} <= ${endDate}`
-      ))
-      .where(and(
-        eq(chartOfAccounts.companyId, req.companyId!),
-        eq(chartOfAccounts.isActive, true),
-        eq(chartOfAccounts.isGroup, false)
-      ))
-      .groupBy(
-        chartOfAccounts.id,
-        chartOfAccounts.code,
-        chartOfAccounts.name,
-        chartOfAccounts.accountType,
-        chartOfAccounts.scheduleIIIMapping
-      );
+    const periodBalances = await getStatementBalances(req.companyId!, { from: startDate, to: endDate });
 
     // Get opening balances (up to start date - 1 day)
-    const openingBalances = await db
-      .select({
-        accountId: chartOfAccounts.id,
-        accountCode: chartOfAccounts.code,
-        accountName: chartOfAccounts.name,
-        accountType: chartOfAccounts.accountType,
-        scheduleIIIMapping: chartOfAccounts.scheduleIIIMapping,
-        debit: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}), 0)`,
-        credit: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount}), 0)`,
-      })
-      .from(chartOfAccounts)
-      .leftJoin(journalEntryLines, eq(chartOfAccounts.id, journalEntryLines.accountId))
-      .leftJoin(journalEntries, and(
-        eq(journalEntryLines.journalEntryId, journalEntries.id),
-        eq(journalEntries.status, 'posted'),
-        sql`${journalEntries.entryDate} < ${startDate}`
-      ))
-      .where(and(
-        eq(chartOfAccounts.companyId, req.companyId!),
-        eq(chartOfAccounts.isActive, true),
-        eq(chartOfAccounts.isGroup, false)
-      ))
-      .groupBy(
-        chartOfAccounts.id,
-        chartOfAccounts.code,
-        chartOfAccounts.name,
-        chartOfAccounts.accountType,
-        chartOfAccounts.scheduleIIIMapping
-      );
-
-    // Calculate opening and closing balances for each account
-    const openingMap = new Map<string, number>();
-    openingBalances.forEach(b => {
-      const balance = b.accountType === 'asset' || b.accountType === 'expense'
-        ? parseFloat(b.debit) - parseFloat(b.credit)
-        : parseFloat(b.credit) - parseFloat(b.debit);
-      openingMap.set(b.accountId, balance);
-    });
-
-    // Calculate net profit
-    let netProfit = 0;
-    periodBalances.filter(b => b.accountType === 'income' || b.accountType === 'expense').forEach(b => {
-      const balance = parseFloat(b.credit) - parseFloat(b.debit);
-      if (b.accountType === 'income') {
-        netProfit += balance;
-      } else {
-        netProfit -= (parseFloat(b.debit) - parseFloat(b.credit));
-      }
-    });
-
-    // Categorize changes for cash flow
-    let depreciation = 0;
-    let receivablesChange = 0;
-    let inventoryChange = 0;
-    let payablesChange = 0;
-    let otherCurrentAssetsChange = 0;
-    let otherCurrentLiabilitiesChange = 0;
-    let fixedAssetsChange = 0;
-    let investmentsChange = 0;
-    let borrowingsChange = 0;
-    let equityChange = 0;
-
-    periodBalances.forEach(b => {
-      const periodChange = parseFloat(b.debit) - parseFloat(b.credit);
-      const mapping = b.scheduleIIIMapping || '';
-      const name = b.accountName.toLowerCase();
-
-      // Depreciation (non-cash expense - add back)
-      if (name.includes('depreciation') || name.includes('amortization')) {
-        depreciation += Math.abs(periodChange);
-      }
-      // Trade receivables
-      else if (mapping.includes('RECEIVABLE') || name.includes('receivable') || name.includes('debtor')) {
-        receivablesChange += periodChange;
+    const openingBalances = await getStatementBalances(req.companyId!, { to: previousDay(startDate) });
+
+    const { statement: current, totals } = buildCashFlow(periodBalances, openingBalances);
+
+    let previous: StatementLine[] | null = null;
+    let comparative: StatementComparative | null = null;
+    if (includeComparative !== 'false') {
+      const previousPeriod = await previousPeriodBalances(req.companyId!, startDate, endDate);
+      comparative = previousPeriod.comparative;
+      if (previousPeriod.balances) {
+        const previousOpening = await getStatementBalances(req.companyId!, { to: previousDay(previousPeriod.comparative.fromDate!) });
+        previous = buildCashFlow(previousPeriod.balances, previousOpening).statement;
       }
-      // Inventories
-      else if (mapping.includes('INVENTOR') || name.includes('inventory') || name.includes('stock')) {
-        inventoryChange += periodChange;
-      }
-      // Trade payables
-      else if (mapping.includes('PAYABLE') || name.includes('payable') || name.includes('creditor')) {
-        payablesChange += -periodChange; // Credit increase = positive for cash
-      }
-      // Fixed assets (PPE, Intangibles)
-      else if (mapping.includes('PPE') || mapping.includes('INTANGIBLE') ||
-               name.includes('plant') || name.includes('machinery') ||
-               name.includes('furniture') || name.includes('vehicle') ||
-               name.includes('building') || name.includes('land')) {
-        fixedAssetsChange += periodChange;
-      }
-      // Investments
-      else if (mapping.includes('INVESTMENT') || name.includes('investment')) {
-        investmentsChange += periodChange;
-      }
-      // Borrowings
-      else if (mapping.includes('BORROWING') || name.includes('loan') || name.includes('borrowing')) {
-        borrowingsChange += -periodChange;
-      }
-      // Equity changes
-      else if (b.accountType === 'equity') {
-        equityChange += -periodChange;
-      }
-      // Other current assets
-      else if (b.accountType === 'asset' && !mapping.includes('CASH') && !mapping.includes('BANK')) {
-        if (mapping.includes('CA_') || name.includes('advance') || name.includes('prepaid')) {
-          otherCurrentAssetsChange += periodChange;
-        }
-      }
-      // Other current liabilities
-      else if (b.accountType === 'liability') {
-        if (mapping.includes('CL_') || name.includes('provision') || name.includes('accrued')) {
-          otherCurrentLiabilitiesChange += -periodChange;
-        }
-      }
-    });
-
-    // Get cash/bank balances
-    let openingCash = 0;
-    let closingCash = 0;
-
-    openingBalances
-      .filter(b => b.scheduleIIIMapping?.includes('CASH') ||
-                   b.accountName.toLowerCase().includes('cash') ||
-                   b.accountName.toLowerCase().includes('bank'))
-      .forEach(b => {
-        openingCash += parseFloat(b.debit) - parseFloat(b.credit);
-      });
-
-    periodBalances
-      .filter(b => b.scheduleIIIMapping?.includes('CASH') ||
-                   b.accountName.toLowerCase().includes('cash') ||
-                   b.accountName.toLowerCase().includes('bank'))
-      .forEach(b => {
-        const opening = openingMap.get(b.accountId) || 0;
-        closingCash += opening + parseFloat(b.debit) - parseFloat(b.credit);
-      });
-
-    // Build Cash Flow Statement (Indirect Method)
-    const operatingActivities: StatementLine[] = [
-      { code: 'CFO_HEADER', name: 'A. Cash Flow from Operating Activities', amount: 0, indentLevel: 0, isBold: true, isTotal: false, hasSubSchedule: false },
-      { code: 'CFO_NET_PROFIT', name: 'Net Profit Before Tax', amount: netProfit, indentLevel: 1, isBold: false, isTotal: false, hasSubSchedule: false },
-      { code: 'CFO_ADJ_HEADER', name: 'Adjustments for:', amount: 0, indentLevel: 1, isBold: true, isTotal: false, hasSubSchedule: false },
-      { code: 'CFO_DEPRECIATION', name: 'Depreciation and Amortization', amount: depreciation, indentLevel: 2, isBold: false, isTotal: false, hasSubSchedule: false },
-      { code: 'CFO_WC_HEADER', name: 'Working Capital Changes:', amount: 0, indentLevel: 1, isBold: true, isTotal: false, hasSubSchedule: false },
-      { code: 'CFO_RECEIVABLES', name: '(Increase)/Decrease in Trade Receivables', amount: -receivablesChange, indentLevel: 2, isBold: false, isTotal: false, hasSubSchedule: false },
-      { code: 'CFO_INVENTORY', name: '(Increase)/Decrease in Inventories', amount: -inventoryChange, indentLevel: 2, isBold: false, isTotal: false, hasSubSchedule: false },
-      { code: 'CFO_OTHER_CA', name: '(Increase)/Decrease in Other Current Assets', amount: -otherCurrentAssetsChange, indentLevel: 2, isBold: false, isTotal: false, hasSubSchedule: false },
-      { code: 'CFO_PAYABLES', name: 'Increase/(Decrease) in Trade Payables', amount: payablesChange, indentLevel: 2, isBold: false, isTotal: false, hasSubSchedule: false },
-      { code: 'CFO_OTHER_CL', name: 'Increase/(Decrease) in Other Current Liabilities', amount: otherCurrentLiabilitiesChange, indentLevel: 2, isBold: false, isTotal: false, hasSubSchedule: false },
-    ];
-
-    const netCashFromOperating = netProfit + depreciation - receivablesChange - inventoryChange -
-                                  otherCurrentAssetsChange + payablesChange + otherCurrentLiabilitiesChange;
-
-    operatingActivities.push({
-      code: 'CFO_TOTAL',
-      name: 'Net Cash from Operating Activities (A)',
-      amount: netCashFromOperating,
-      indentLevel: 0,
-      isBold: true,
-      isTotal: true,
-      hasSubSchedule: false,
-    });
-
-    const investingActivities: StatementLine[] = [
-      { code: 'CFI_HEADER', name: 'B. Cash Flow from Investing Activities', amount: 0, indentLevel: 0, isBold: true, isTotal: false, hasSubSchedule: false },
-      { code: 'CFI_FIXED_ASSETS', name: 'Purchase of Property, Plant & Equipment', amount: -fixedAssetsChange, indentLevel: 1, isBold: false, isTotal: false, hasSubSchedule: false },
-      { code: 'CFI_INVESTMENTS', name: '(Purchase)/Sale of Investments', amount: -investmentsChange, indentLevel: 1, isBold: false, isTotal: false, hasSubSchedule: false },
-    ];
-
-    const netCashFromInvesting = -fixedAssetsChange - investmentsChange;
-
-    investingActivities.push({
-      code: 'CFI_TOTAL',
-      name: 'Net Cash from Investing Activities (B)',
-      amount: netCashFromInvesting,
-      indentLevel: 0,
-      isBold: true,
-      isTotal: true,
-      hasSubSchedule: false,
-    });
-
-    const financingActivities: StatementLine[] = [
-      { code: 'CFF_HEADER', name: 'C. Cash Flow from Financing Activities', amount: 0, indentLevel: 0, isBold: true, isTotal: false, hasSubSchedule: false },
-      { code: 'CFF_BORROWINGS', name: 'Proceeds/(Repayment) of Borrowings', amount: borrowingsChange, indentLevel: 1, isBold: false, isTotal: false, hasSubSchedule: false },
-      { code: 'CFF_EQUITY', name: 'Proceeds from Issue of Equity', amount: equityChange, indentLevel: 1, isBold: false, isTotal: false, hasSubSchedule: false },
-    ];
-
-    const netCashFromFinancing = borrowingsChange + equityChange;
-
-    financingActivities.push({
-      code: 'CFF_TOTAL',
-      name: 'Net Cash from Financing Activities (C)',
-      amount: netCashFromFinancing,
-      indentLevel: 0,
-      isBold: true,
-      isTotal: true,
-      hasSubSchedule: false,
-    });
-
-    const netIncrease = netCashFromOperating + netCashFromInvesting + netCashFromFinancing;
-
-    const summary: StatementLine[] = [
-      { code: 'CF_NET_INCREASE', name: 'Net Increase/(Decrease) in Cash (A+B+C)', amount: netIncrease, indentLevel: 0, isBold: true, isTotal: true, hasSubSchedule: false },
-      { code: 'CF_OPENING', name: 'Cash and Cash Equivalents at Beginning', amount: openingCash, indentLevel: 0, isBold: false, isTotal: false, hasSubSchedule: false },
-      { code: 'CF_CLOSING', name: 'Cash and Cash Equivalents at End', amount: openingCash + netIncrease, indentLevel: 0, isBold: true, isTotal: true, hasSubSchedule: false },
-    ];
+    }
 
-    const statement = [...operatingActivities, ...investingActivities, ...financingActivities, ...summary];
+    const statement = addComparative(current, previous);
 
     // Save run
     const [run] = await db.insert(financialStatementRuns).values({
@@ -726,12 +883,8 @@ router.get('/cash-flow', requireCompany, async (req: AuthenticatedRequest, res)
         statement,
         fromDate: startDate,
         toDate: endDate,
-        netCashFromOperating,
-        netCashFromInvesting,
-        netCashFromFinancing,
-        netIncrease,
-        openingCash,
-        closingCash: openingCash + netIncrease,
+        ...totals,
+        comparative,
       },
       generatedByUserId: req.userId!,
     }).returning();
@@ -742,14 +895,8 @@ router.get('/cash-flow', requireCompany, async (req: AuthenticatedRequest, res)
       fromDate: startDate,
       toDate: endDate,
       statement,
-      summary: {
-        netCashFromOperating,
-        netCashFromInvesting,
-        netCashFromFinancing,
-        netIncrease,
-        openingCash,
-        closingCash: openingCash + netIncrease,
-      },
+      summary: totals,
+      comparative,
       runId: run.id,
     });
   } catch (error) {
@@ -0,0 +1,591 @@
+import { Router } from 'express';
+import { db } from '../db';
+import {
+  fixedAssets,
+  fixedAssetDepreciation,
+  depreciationRuns,
+  depreciationMethodEnum,
+  incomeTaxAssetBlocks,
+  chartOfAccounts,
+  fiscalYears,
+  type FixedAsset,
+} from '@shared/schema';
+import { eq, and, lte, gte, desc, count } from 'drizzle-orm';
+import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import {
+  getFixedAssetAccounts,
+  getAdditionCandidates,
+  defaultDepreciationAccountId,
+  getNextDepreciationPeriod,
+  runDepreciation,
+  disposeAsset,
+  getIncomeTaxBlockSchedule,
+  wdvRate,
+  type DepreciationFrequency,
+} from '../services/fixedAssets';
+
+const router = Router();
+
+const FREQUENCIES: DepreciationFrequency[] = ['monthly', 'yearly'];
+
+async function findFiscalYear(companyId: string, fiscalYearId?: string) {
+  return db.query.fiscalYears.findFirst({
+    where: and(
+      eq(fiscalYears.companyId, companyId),
+      fiscalYearId ? eq(fiscalYears.id, fiscalYearId) : eq(fiscalYears.isCurrent, true)
+    ),
+  });
+}
+
+async function findFiscalYearFor(companyId: string, date: string) {
+  return db.query.fiscalYears.findFirst({
+    where: and(
+      eq(fiscalYears.companyId, companyId),
+      lte(fiscalYears.startDate, date),
+      gte(fiscalYears.endDate, date)
+    ),
+  });
+}
+
+async function findAsset(companyId: string, id: string) {
+  return db.query.fixedAssets.findFirst({
+    where: and(
+      eq(fixedAssets.id, id),
+      eq(fixedAssets.companyId, companyId)
+    ),
+  });
+}
+
+async function findCompanyAccount(companyId: string, accountId: string) {
+  return db.query.chartOfAccounts.findFirst({
+    where: and(
+      eq(chartOfAccounts.id, accountId),
+      eq(chartOfAccounts.companyId, companyId)
+    ),
+  });
+}
+
+async function hasDepreciation(assetId: string) {
+  const charge = await db.query.fixedAssetDepreciation.findFirst({
+    where: eq(fixedAssetDepreciation.assetId, assetId),
+  });
+  return !!charge;
+}
+
+function withBookValue(asset: FixedAsset) {
+  const cost = parseFloat(asset.cost);
+  return {
+    ...asset,
+    bookValue: (cost - parseFloat(asset.accumulatedDepreciation)).toFixed(2),
+    wdvRate: asset.depreciationMethod === 'wdv'
+      ? Math.round(wdvRate(cost, parseFloat(asset.residualValue), parseFloat(asset.usefulLifeYears)) * 10000) / 100
+      : null,
+  };
+}
+
+// Checks the figures that drive depreciation; returns an error message
+function validateDepreciationTerms(terms: {
+  cost: number;
+  residualValue: number;
+  usefulLifeYears: number;
+  depreciationMethod: string;
+  purchaseDate: string;
+  putToUseDate: string;
+}): string | null {
+  if (isNaN(terms.cost) || terms.cost <= 0) return 'Cost must be greater than zero';
+  if (isNaN(terms.residualValue) || terms.residualValue < 0 || terms.residualValue >= terms.cost) {
+    return 'Residual value must be at least zero and below the cost';
+  }
+  if (isNaN(terms.usefulLifeYears) || terms.usefulLifeYears <= 0) return 'Useful life must be greater than zero';
+  if (!depreciationMethodEnum.enumValues.includes(terms.depreciationMethod as FixedAsset['depreciationMethod'])) {
+    return 'Invalid depreciation method';
+  }
+  if (terms.putToUseDate < terms.purchaseDate) return 'Put-to-use date cannot be before the purchase date';
+  return null;
+}
+
+// Get the fixed asset register
+router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { status } = req.query;
+
+    const assets = await db.query.fixedAssets.findMany({
+      where: and(
+        eq(fixedAssets.companyId, req.companyId!),
+        status === 'active' || status === 'disposed' ? eq(fixedAssets.status, status) : undefined
+      ),
+      orderBy: fixedAssets.assetCode,
+    });
+
+    res.json(assets.map(withBookValue));
+  } catch (error) {
+    console.error('Get fixed assets error:', error);
+    res.status(500).json({ error: 'Failed to get fixed assets' });
+  }
+});
+
+// Get the ledger accounts assets can be registered against
+router.get('/accounts', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const accounts = await getFixedAssetAccounts(req.companyId!);
+    res.json(accounts);
+  } catch (error) {
+    console.error('Get fixed asset accounts error:', error);
+    res.status(500).json({ error: 'Failed to get fixed asset accounts' });
+  }
+});
+
+// Get bill and journal lines on fixed asset accounts not yet registered
+router.get('/candidates', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const candidates = await getAdditionCandidates(req.companyId!);
+    res.json(candidates);
+  } catch (error) {
+    console.error('Get fixed asset candidates error:', error);
+    res.status(500).json({ error: 'Failed to get fixed asset candidates' });
+  }
+});
+
+// Get the depreciation runs of a fiscal year with the period each frequency would run next
+router.get('/depreciation-runs', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const fiscalYear = await findFiscalYear(req.companyId!, req.query.fiscalYearId as string | undefined);
+    if (!fiscalYear) {
+      return res.status(404).json({ error: 'Fiscal year not found' });
+    }
+
+    const runs = await db.query.depreciationRuns.findMany({
+      where: and(
+        eq(depreciationRuns.companyId, req.companyId!),
+        eq(depreciationRuns.fiscalYearId, fiscalYear.id)
+      ),
+      orderBy: desc(depreciationRuns.periodEnd),
+    });
+
+    res.json({
+      fiscalYear,
+      runs,
+      nextPeriod: {
+        monthly: await getNextDepreciationPeriod(req.companyId!, fiscalYear, 'monthly'),
+        yearly: await getNextDepreciationPeriod(req.companyId!, fiscalYear, 'yearly'),
+      },
+    });
+  } catch (error) {
+    console.error('Get depreciation runs error:', error);
+    res.status(500).json({ error: 'Failed to get depreciation runs' });
+  }
+});
+
+// Run and post depreciation for the next month or the rest of the year
+router.post('/depreciation-runs', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { fiscalYearId, frequency } = req.body;
+
+    if (!FREQUENCIES.includes(frequency)) {
+      return res.status(400).json({ error: 'Frequency must be monthly or yearly' });
+    }
+
+    const fiscalYear = await findFiscalYear(req.companyId!, fiscalYearId);
+    if (!fiscalYear) {
+      return res.status(400).json({ error: 'Invalid fiscal year' });
+    }
+    if (fiscalYear.isLocked) {
+      return res.status(400).json({ error: `${fiscalYear.name} is locked` });
+    }
+
+    const period = await getNextDepreciationPeriod(req.companyId!, fiscalYear, frequency);
+    if (!period) {
+      return res.status(400).json({ error: `Depreciation has been run to the end of ${fiscalYear.name}` });
+    }
+
+    const result = await runDepreciation(req.companyId!, fiscalYear, frequency, period, req.userId!);
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Run depreciation error:', error);
+    res.status(500).json({ error: 'Failed to run depreciation' });
+  }
+});
+
+// Get the income-tax block computation for a fiscal year
+router.get('/it-blocks', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const fiscalYear = await findFiscalYear(req.companyId!, req.query.fiscalYearId as string | undefined);
+    if (!fiscalYear) {
+      return res.status(404).json({ error: 'Fiscal year not found' });
+    }
+
+    const blocks = await getIncomeTaxBlockSchedule(req.companyId!, fiscalYear);
+    res.json({ fiscalYear, blocks });
+  } catch (error) {
+    console.error('Get income-tax blocks error:', error);
+    res.status(500).json({ error: 'Failed to get income-tax blocks' });
+  }
+});
+
+// Create an income-tax block
+router.post('/it-blocks', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { name, rate, openingWdv, openingDate } = req.body;
+
+    const blockRate = parseFloat(rate);
+    if (!name || !openingDate) {
+      return res.status(400).json({ error: 'Name and opening date are required' });
+    }
+    if (isNaN(blockRate) || blockRate <= 0 || blockRate > 100) {
+      return res.status(400).json({ error: 'Rate must be between 0 and 100' });
+    }
+
+    const [block] = await db.insert(incomeTaxAssetBlocks)
+      .values({
+        companyId: req.companyId!,
+        name,
+        rate: blockRate.toFixed(2),
+        openingWdv: (parseFloat(openingWdv) || 0).toFixed(2),
+        openingDate,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!block) {
+      return res.status(400).json({ error: 'A block with this name already exists' });
+    }
+
+    res.status(201).json(block);
+  } catch (error) {
+    console.error('Create income-tax block error:', error);
+    res.status(500).json({ error: 'Failed to create income-tax block' });
+  }
+});
+
+// Update an income-tax block
+router.patch('/it-blocks/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { name, rate, openingWdv, openingDate } = req.body;
+
+    const block = await db.query.incomeTaxAssetBlocks.findFirst({
+      where: and(
+        eq(incomeTaxAssetBlocks.id, id),
+        eq(incomeTaxAssetBlocks.companyId, req.companyId!)
+      ),
+    });
+
+    if (!block) {
+      return res.status(404).json({ error: 'Income-tax block not found' });
+    }
+
+    if (rate !== undefined) {
+      const blockRate = parseFloat(rate);
+      if (isNaN(blockRate) || blockRate <= 0 || blockRate > 100) {
+        return res.status(400).json({ error: 'Rate must be between 0 and 100' });
+      }
+    }
+
+    const [updated] = await db.update(incomeTaxAssetBlocks)
+      .set({
+        ...(name !== undefined && { name }),
+        ...(rate !== undefined && { rate: parseFloat(rate).toFixed(2) }),
+        ...(openingWdv !== undefined && { openingWdv: (parseFloat(openingWdv) || 0).toFixed(2) }),
+        ...(openingDate !== undefined && { openingDate }),
+        updatedAt: new Date(),
+      })
+      .where(eq(incomeTaxAssetBlocks.id, id))
+      .returning();
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Update income-tax block error:', error);
+    res.status(500).json({ error: 'Failed to update income-tax block' });
+  }
+});
+
+// Get a single asset with its depreciation history
+router.get('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const asset = await findAsset(req.companyId!, req.params.id);
+
+    if (!asset) {
+      return res.status(404).json({ error: 'Fixed asset not found' });
+    }
+
+    const depreciation = await db.query.fixedAssetDepreciation.findMany({
+      where: eq(fixedAssetDepreciation.assetId, asset.id),
+      orderBy: fixedAssetDepreciation.fromDate,
+    });
+
+    res.json({ ...withBookValue(asset), depreciation });
+  } catch (error) {
+    console.error('Get fixed asset error:', error);
+    res.status(500).json({ error: 'Failed to get fixed asset' });
+  }
+});
+
+// Register an asset, optionally from a bill or journal line
+router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const {
+      assetCode,
+      name,
+      description,
+      sourceJournalLineId,
+      accumulatedDepreciationAccountId,
+      incomeTaxBlockId,
+      residualValue,
+      usefulLifeYears,
+      depreciationMethod = 'slm',
+      accumulatedDepreciation,
+      depreciatedUpTo,
+    } = req.body;
+    let { assetAccountId, depreciationAccountId, purchaseDate, putToUseDate, cost } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ error: 'Name is required' });
+    }
+
+    // An addition from the books takes its account, date and cost from the line
+    if (sourceJournalLineId) {
+      const candidates = await getAdditionCandidates(req.companyId!);
+      const line = candidates.find(c => c.journalEntryLineId === sourceJournalLineId);
+      if (!line) {
+        return res.status(400).json({ error: 'Journal line is not an unregistered fixed asset addition' });
+      }
+      assetAccountId = assetAccountId || line.accountId;
+      purchaseDate = purchaseDate || line.entryDate;
+      cost = cost ?? line.amount;
+    }
+
+    if (!assetAccountId || !purchaseDate) {
+      return res.status(400).json({ error: 'Asset account and purchase date are required' });
+    }
+    putToUseDate = putToUseDate || purchaseDate;
+
+    const assetAccounts = await getFixedAssetAccounts(req.companyId!);
+    if (!assetAccounts.some(account => account.id === assetAccountId)) {
+      return res.status(400).json({ error: 'Asset account must be a property, plant and equipment or intangible asset account' });
+    }
+
+    const termsError = validateDepreciationTerms({
+      cost: parseFloat(cost),
+      residualValue: parseFloat(residualValue || '0'),
+      usefulLifeYears: parseFloat(usefulLifeYears),
+      depreciationMethod,
+      purchaseDate,
+      putToUseDate,
+    });
+    if (termsError) {
+      return res.status(400).json({ error: termsError });
+    }
+
+    depreciationAccountId = depreciationAccountId || await defaultDepreciationAccountId(req.companyId!, assetAccountId);
+    if (!depreciationAccountId || !(await findCompanyAccount(req.companyId!, depreciationAccountId))) {
+      return res.status(400).json({ error: 'Depreciation account is required' });
+    }
+    if (accumulatedDepreciationAccountId && !(await findCompanyAccount(req.companyId!, accumulatedDepreciationAccountId))) {
+      return res.status(400).json({ error: 'Invalid accumulated depreciation account' });
+    }
+
+    // Depreciation already charged in earlier books when the asset is taken over
+    const openingDepreciation = parseFloat(accumulatedDepreciation || '0');
+    if (isNaN(openingDepreciation) || openingDepreciation < 0 || openingDepreciation > parseFloat(cost)) {
+      return res.status(400).json({ error: 'Accumulated depreciation must be between zero and the cost' });
+    }
+    if (openingDepreciation > 0 && !depreciatedUpTo) {
+      return res.status(400).json({ error: 'Give the date the accumulated depreciation runs to' });
+    }
+
+    let code = assetCode;
+    if (!code) {
+      const [{ total }] = await db.select({ total: count() })
+        .from(fixedAssets)
+        .where(eq(fixedAssets.companyId, req.companyId!));
+      code = `FA-${String(total + 1).padStart(4, '0')}`;
+    }
+
+    const [asset] = await db.insert(fixedAssets)
+      .values({
+        companyId: req.companyId!,
+        assetCode: code,
+        name,
+        description,
+        assetAccountId,
+        accumulatedDepreciationAccountId: accumulatedDepreciationAccountId || null,
+        depreciationAccountId,
+        sourceJournalLineId: sourceJournalLineId || null,
+        purchaseDate,
+        putToUseDate,
+        cost: parseFloat(cost).toFixed(2),
+        residualValue: parseFloat(residualValue || '0').toFixed(2),
+        usefulLifeYears: parseFloat(usefulLifeYears).toString(),
+        depreciationMethod,
+        incomeTaxBlockId: incomeTaxBlockId || null,
+        accumulatedDepreciation: openingDepreciation.toFixed(2),
+        depreciatedUpTo: openingDepreciation > 0 ? depreciatedUpTo : null,
+        createdByUserId: req.userId,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!asset) {
+      return res.status(400).json({ error: 'Asset code already exists' });
+    }
+
+    res.status(201).json(withBookValue(asset));
+  } catch (error) {
+    console.error('Create fixed asset error:', error);
+    res.status(500).json({ error: 'Failed to create fixed asset' });
+  }
+});
+
+// Update an asset; the depreciation terms are fixed once depreciation is charged
+router.patch('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    const {
+      name,
+      description,
+      incomeTaxBlockId,
+      depreciationAccountId,
+      accumulatedDepreciationAccountId,
+      purchaseDate,
+      putToUseDate,
+      cost,
+      residualValue,
+      usefulLifeYears,
+      depreciationMethod,
+    } = req.body;
+
+    const asset = await findAsset(req.companyId!, id);
+    if (!asset) {
+      return res.status(404).json({ error: 'Fixed asset not found' });
+    }
+    if (asset.status === 'disposed') {
+      return res.status(400).json({ error: 'Disposed assets cannot be changed' });
+    }
+
+    const termsChanged = [purchaseDate, putToUseDate, cost, residualValue, usefulLifeYears, depreciationMethod]
+      .some(value => value !== undefined);
+    const accountChanged = accumulatedDepreciationAccountId !== undefined;
+    if ((termsChanged || accountChanged) && await hasDepreciation(asset.id)) {
+      return res.status(400).json({ error: 'Depreciation has been charged on this asset; its terms can no longer be changed' });
+    }
+
+    if (termsChanged) {
+      const termsError = validateDepreciationTerms({
+        cost: parseFloat(cost ?? asset.cost),
+        residualValue: parseFloat(residualValue ?? asset.residualValue),
+        usefulLifeYears: parseFloat(usefulLifeYears ?? asset.usefulLifeYears),
+        depreciationMethod: depreciationMethod ?? asset.depreciationMethod,
+        purchaseDate: purchaseDate ?? asset.purchaseDate,
+        putToUseDate: putToUseDate ?? asset.putToUseDate,
+      });
+      if (termsError) {
+        return res.status(400).json({ error: termsError });
+      }
+    }
+
+    if (depreciationAccountId && !(await findCompanyAccount(req.companyId!, depreciationAccountId))) {
+      return res.status(400).json({ error: 'Invalid depreciation account' });
+    }
+    if (accumulatedDepreciationAccountId && !(await findCompanyAccount(req.companyId!, accumulatedDepreciationAccountId))) {
+      return res.status(400).json({ error: 'Invalid accumulated depreciation account' });
+    }
+
+    const [updated] = await db.update(fixedAssets)
+      .set({
+        ...(name !== undefined && { name }),
+        ...(description !== undefined && { description }),
+        ...(incomeTaxBlockId !== undefined && { incomeTaxBlockId: incomeTaxBlockId || null }),
+        ...(depreciationAccountId && { depreciationAccountId }),
+        ...(accountChanged && { accumulatedDepreciationAccountId: accumulatedDepreciationAccountId || null }),
+        ...(purchaseDate !== undefined && { purchaseDate }),
+        ...(putToUseDate !== undefined && { putToUseDate }),
+        ...(cost !== undefined && { cost: parseFloat(cost).toFixed(2) }),
+        ...(residualValue !== undefined && { residualValue: parseFloat(residualValue).toFixed(2) }),
+        ...(usefulLifeYears !== undefined && { usefulLifeYears: parseFloat(usefulLifeYears).toString() }),
+        ...(depreciationMethod !== undefined && { depreciationMethod }),
+        updatedAt: new Date(),
+      })
+      .where(eq(fixedAssets.id, id))
+      .returning();
+
+    res.json(withBookValue(updated));
+  } catch (error) {
+    console.error('Update fixed asset error:', error);
+    res.status(500).json({ error: 'Failed to update fixed asset' });
+  }
+});
+
+// Delete an asset registered by mistake
+router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const asset = await findAsset(req.companyId!, req.params.id);
+
+    if (!asset) {
+      return res.status(404).json({ error: 'Fixed asset not found' });
+    }
+
+    if (asset.status === 'disposed' || await hasDepreciation(asset.id)) {
+      return res.status(400).json({ error: 'Cannot delete an asset that has been depreciated or disposed' });
+    }
+
+    await db.delete(fixedAssets).where(eq(fixedAssets.id, asset.id));
+
+    res.json({ message: 'Fixed asset deleted' });
+  } catch (error) {
+    console.error('Delete fixed asset error:', error);
+    res.status(500).json({ error: 'Failed to delete fixed asset' });
+  }
+});
+
+// Dispose of an asset, posting depreciation to the date of sale and the profit or loss
+router.post('/:id/dispose', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { disposalDate, proceeds, proceedsAccountId } = req.body;
+
+    const asset = await findAsset(req.companyId!, req.params.id);
+    if (!asset) {
+      return res.status(404).json({ error: 'Fixed asset not found' });
+    }
+    if (asset.status === 'disposed') {
+      return res.status(400).json({ error: 'Asset is already disposed' });
+    }
+
+    const saleProceeds = parseFloat(proceeds || '0');
+    if (!disposalDate) {
+      return res.status(400).json({ error: 'Disposal date is required' });
+    }
+    if (isNaN(saleProceeds) || saleProceeds < 0) {
+      return res.status(400).json({ error: 'Proceeds cannot be negative' });
+    }
+    if (saleProceeds > 0 && (!proceedsAccountId || !(await findCompanyAccount(req.companyId!, proceedsAccountId)))) {
+      return res.status(400).json({ error: 'Account receiving the proceeds is required' });
+    }
+    if (disposalDate < asset.putToUseDate) {
+      return res.status(400).json({ error: 'Disposal date cannot be before the asset was put to use' });
+    }
+    if (asset.depreciatedUpTo && disposalDate < asset.depreciatedUpTo) {
+      return res.status(400).json({ error: `Depreciation has been charged up to ${asset.depreciatedUpTo}; dispose on or after that date` });
+    }
+
+    const fiscalYear = await findFiscalYearFor(req.companyId!, disposalDate);
+    if (!fiscalYear) {
+      return res.status(400).json({ error: 'No fiscal year covers the disposal date' });
+    }
+    if (fiscalYear.isLocked) {
+      return res.status(400).json({ error: `${fiscalYear.name} is locked` });
+    }
+
+    const result = await disposeAsset(req.companyId!, asset, fiscalYear, {
+      disposalDate,
+      proceeds: saleProceeds,
+      proceedsAccountId: proceedsAccountId || '',
+    }, req.userId!);
+
+    res.json({ ...result, asset: withBookValue(result.asset) });
+  } catch (error) {
+    console.error('Dispose fixed asset error:', error);
+    res.status(500).json({ error: 'Failed to dispose of fixed asset' });
+  }
+});
+
+export default router;
@@ -3,10 +3,16 @@ import { db } from '../db';
 import {
   gstConfig, gstr1Entries, gstr3bSummary, itcRegister, gstPayments, hsnSacMaster
 } from '@shared/schema';
-import { eq, and, asc, desc, sql, gte, lte } from 'drizzle-orm';
+import { eq, and, asc, desc, sql, gte, lte, inArray } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
 import { nicApiService } from '../services/nicApi';
 import { gstinLookupService, validateGstinFormat } from '../services/gstinLookup';
+import {
+  buildGstr1Json, validateGstr1Export,
+  parsePortalItcData, runItcReconciliation, buildItcReconciliationReport, getItcForAction,
+  refreshGstr3bSummary, type Gstr3bComputation,
+} from '../services/gst';
+import { webhookEvents } from '../services/integrations/webhookDispatcher';
 
 const router = Router();
 
@@ -195,15 +201,20 @@ router.get('/gstr1', requireCompany, async (req: AuthenticatedRequest, res) => {
       orderBy: [desc(gstr1Entries.invoiceDate)],
     });
 
-    // Calculate summary
+    // Calculate summary (cancelled documents are listed but not counted)
+    const activeEntries = entries.filter(e => !e.isCancelled);
+    // Every HSN/rate row of a document carries the document's full value
+    const documentValues = new Map(activeEntries.map(e => [`${e.documentType}:${e.invoiceNumber}`, parseFloat(e.invoiceValue || '0')]));
     const summary = {
-      totalInvoices: entries.length,
-      totalTaxableValue: entries.reduce((sum, e) => sum + parseFloat(e.taxableValue || '0'), 0),
-      totalIgst: entries.reduce((sum, e) => sum + parseFloat(e.igst || '0'), 0),
-      totalCgst: entries.reduce((sum, e) => sum + parseFloat(e.cgst || '0'), 0),
-      totalSgst: entries.reduce((sum, e) => sum + parseFloat(e.sgst || '0'), 0),
-      totalCess: entries.reduce((sum, e) => sum + parseFloat(e.cess || '0'), 0),
-      totalInvoiceValue: entries.reduce((sum, e) => sum + parseFloat(e.invoiceValue || '0'), 0),
+      totalInvoices: documentValues.size,
+      totalTaxableValue: activeEntries.reduce((sum, e) => sum + parseFloat(e.taxableValue || '0'), 0),
+      totalIgst: activeEntries.reduce((sum, e) => sum + parseFloat(e.igst || '0'), 0),
+      totalCgst: activeEntries.reduce((sum, e) => sum + parseFloat(e.cgst || '0'), 0),
+      totalSgst: activeEntries.reduce((sum, e) => sum + parseFloat(e.sgst || '0'), 0),
+      totalCess: activeEntries.reduce((sum, e) => sum + parseFloat(e.cess || '0'), 0),
+      totalInvoiceValue: Array.from(documentValues.values()).reduce((sum, value) => sum + value, 0),
+      cancelledDocuments: new Set(entries.filter(e => e.isCancelled).map(e => `${e.documentType}:${e.invoiceNumber}`)).size,
+      status: entries.length > 0 && entries.every(e => e.filingStatus !== 'pending') ? 'filed' : 'pending',
     };
 
     // Group by invoice type
@@ -225,6 +236,68 @@ router.get('/gstr1', requireCompany, async (req: AuthenticatedRequest, res) => {
   }
 });
 
+// Export GSTR-1 as GSTN offline-tool JSON
+router.get('/gstr1/export', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { returnPeriod, gstConfigId } = req.query;
+
+    if (!returnPeriod) {
+      return res.status(400).json({ error: 'Return period is required' });
+    }
+
+    const config = await db.query.gstConfig.findFirst({
+      where: gstConfigId
+        ? and(eq(gstConfig.companyId, req.companyId!), eq(gstConfig.id, gstConfigId as string))
+        : and(eq(gstConfig.companyId, req.companyId!), eq(gstConfig.isPrimary, true)),
+    });
+
+    if (!config) {
+      return res.status(400).json({ error: 'GST configuration not found' });
+    }
+
+    let whereConditions = [
+      eq(gstr1Entries.companyId, req.companyId!),
+      eq(gstr1Entries.returnPeriod, returnPeriod as string),
+    ];
+    // Entries without a registration belong to the primary GSTIN
+    if (config.isPrimary) {
+      whereConditions.push(sql`(${gstr1Entries.gstConfigId} = ${config.id} OR ${gstr1Entries.gstConfigId} IS NULL)`);
+    } else {
+      whereConditions.push(eq(gstr1Entries.gstConfigId, config.id));
+    }
+
+    const entries = await db.query.gstr1Entries.findMany({
+      where: and(...whereConditions),
+      orderBy: [asc(gstr1Entries.invoiceDate), asc(gstr1Entries.invoiceNumber)],
+    });
+
+    const codes = Array.from(new Set(entries.map(e => e.hsnSacCode).filter((c): c is string => !!c)));
+    const hsnRows = codes.length > 0
+      ? await db.query.hsnSacMaster.findMany({ where: inArray(hsnSacMaster.code, codes) })
+      : [];
+
+    const input = {
+      gstin: config.gstin,
+      returnPeriod: returnPeriod as string,
+      entries,
+      hsnDescriptions: Object.fromEntries(hsnRows.map(h => [h.code, h.description])),
+    };
+
+    const issues = validateGstr1Export(input);
+    if (issues.length > 0) {
+      return res.status(400).json({ error: 'GSTR-1 data has validation errors', issues });
+    }
+
+    const filename = `GSTR1_${config.gstin}_${returnPeriod}.json`;
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(JSON.stringify(buildGstr1Json(input)));
+  } catch (error) {
+    console.error('Export GSTR-1 error:', error);
+    res.status(500).json({ error: 'Failed to export GSTR-1' });
+  }
+});
+
 // Create GSTR-1 entry
 router.post('/gstr1', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
@@ -241,87 +314,130 @@ router.post('/gstr1', requireCompany, async (req: AuthenticatedRequest, res) =>
   }
 });
 
+// Mark GSTR-1 as filed on the portal
+router.post('/gstr1/file', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { returnPeriod, gstConfigId, arnNumber, filingDate } = req.body;
+
+    if (!returnPeriod || !/^(0[1-9]|1[0-2])[0-9]{4}$/.test(returnPeriod)) {
+      return res.status(400).json({ error: 'Return period must be in MMYYYY format' });
+    }
+
+    const config = await db.query.gstConfig.findFirst({
+      where: gstConfigId
+        ? and(eq(gstConfig.companyId, req.companyId!), eq(gstConfig.id, gstConfigId))
+        : and(eq(gstConfig.companyId, req.companyId!), eq(gstConfig.isPrimary, true)),
+    });
+
+    if (!config) {
+      return res.status(400).json({ error: 'GST configuration not found' });
+    }
+
+    const filed = await db.update(gstr1Entries)
+      .set({ filingStatus: 'filed', updatedAt: new Date() })
+      .where(and(
+        eq(gstr1Entries.companyId, req.companyId!),
+        eq(gstr1Entries.returnPeriod, returnPeriod),
+        eq(gstr1Entries.filingStatus, 'pending'),
+        config.isPrimary
+          ? sql`(${gstr1Entries.gstConfigId} = ${config.id} OR ${gstr1Entries.gstConfigId} IS NULL)`
+          : eq(gstr1Entries.gstConfigId, config.id)
+      ))
+      .returning();
+
+    if (filed.length === 0) {
+      return res.status(400).json({ error: 'No pending GSTR-1 entries for this period' });
+    }
+
+    const active = filed.filter(e => !e.isCancelled);
+    const result = {
+      returnType: 'GSTR-1',
+      returnPeriod,
+      gstin: config.gstin,
+      arnNumber: arnNumber || null,
+      filingDate: filingDate || new Date().toISOString().split('T')[0],
+      documentCount: new Set(active.map(e => `${e.documentType}:${e.invoiceNumber}`)).size,
+      totalTaxableValue: active.reduce((sum, e) => sum + parseFloat(e.taxableValue || '0'), 0),
+      totalTax: active.reduce((sum, e) =>
+        sum + parseFloat(e.igst || '0') + parseFloat(e.cgst || '0') + parseFloat(e.sgst || '0') + parseFloat(e.cess || '0'), 0
+      ),
+    };
+
+    webhookEvents.gstFiled(req.companyId!, result);
+
+    res.json(result);
+  } catch (error) {
+    console.error('File GSTR-1 error:', error);
+    res.status(500).json({ error: 'Failed to mark GSTR-1 as filed' });
+  }
+});
+
 // ==================== GSTR-3B ====================
 
-// Get GSTR-3B summary
+// Get GSTR-3B summary (recomputed from source data until filed)
 router.get('/gstr3b/:returnPeriod', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
     const { returnPeriod } = req.params;
-    const { gstConfigId } = req.query;
 
-    let whereConditions = [
-      eq(gstr3bSummary.companyId, req.companyId!),
-      eq(gstr3bSummary.returnPeriod, returnPeriod),
-    ];
+    if (!/^(0[1-9]|1[0-2])[0-9]{4}$/.test(returnPeriod)) {
+      return res.status(400).json({ error: 'Return period must be in MMYYYY format' });
+    }
 
-    if (gstConfigId) {
-      whereConditions.push(eq(gstr3bSummary.gstConfigId, gstConfigId as string));
+    const summary = await db.transaction(async (tx) =>
+      refreshGstr3bSummary(tx, req.companyId!, returnPeriod)
+    );
+
+    res.json({
+      ...summary,
+      ...(summary.computation as Gstr3bComputation | null),
+    });
+  } catch (error) {
+    console.error('Get GSTR-3B error:', error);
+    res.status(500).json({ error: 'Failed to get GSTR-3B summary' });
+  }
+});
+
+// Mark GSTR-3B as filed, freezing the computation
+router.post('/gstr3b/:returnPeriod/file', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { returnPeriod } = req.params;
+    const { arnNumber, filingDate } = req.body;
+
+    if (!/^(0[1-9]|1[0-2])[0-9]{4}$/.test(returnPeriod)) {
+      return res.status(400).json({ error: 'Return period must be in MMYYYY format' });
     }
 
-    let summary = await db.query.gstr3bSummary.findFirst({
-      where: and(...whereConditions),
+    const filed = await db.transaction(async (tx) => {
+      const summary = await refreshGstr3bSummary(tx, req.companyId!, returnPeriod);
+      if (summary.filingStatus !== 'pending') return null;
+
+      const [updated] = await tx.update(gstr3bSummary)
+        .set({
+          filingStatus: parseFloat(summary.lateFee || '0') > 0 ? 'filed_with_late_fee' : 'filed',
+          arnNumber,
+          filingDate: filingDate || new Date().toISOString().split('T')[0],
+          updatedAt: new Date(),
+        })
+        .where(eq(gstr3bSummary.id, summary.id))
+        .returning();
+      return updated;
     });
 
-    if (!summary) {
-      // Compute from GSTR-1 entries
-      const gstr1 = await db.query.gstr1Entries.findMany({
-        where: and(
-          eq(gstr1Entries.companyId, req.companyId!),
-          eq(gstr1Entries.returnPeriod, returnPeriod)
-        ),
-      });
+    if (!filed) {
+      return res.status(400).json({ error: 'GSTR-3B for this period is already filed' });
+    }
 
-      const outwardTaxable = gstr1.reduce((sum, e) => sum + parseFloat(e.taxableValue || '0'), 0);
-      const outwardIgst = gstr1.reduce((sum, e) => sum + parseFloat(e.igst || '0'), 0);
-      const outwardCgst = gstr1.reduce((sum, e) => sum + parseFloat(e.cgst || '0'), 0);
-      const outwardSgst = gstr1.reduce((sum, e) => sum + parseFloat(e.sgst || '0'), 0);
-      const outwardCess = gstr1.reduce((sum, e) => sum + parseFloat(e.cess || '0'), 0);
-
-      // Get ITC from register
-      const itcEntries = await db.query.itcRegister.findMany({
-        where: and(
-          eq(itcRegister.companyId, req.companyId!),
-          eq(itcRegister.returnPeriod, returnPeriod)
-        ),
-      });
+    const result = {
+      ...filed,
+      ...(filed.computation as Gstr3bComputation | null),
+    };
 
-      const itcIgst = itcEntries.reduce((sum, e) => sum + parseFloat(e.igst || '0'), 0);
-      const itcCgst = itcEntries.reduce((sum, e) => sum + parseFloat(e.cgst || '0'), 0);
-      const itcSgst = itcEntries.reduce((sum, e) => sum + parseFloat(e.sgst || '0'), 0);
-      const itcCess = itcEntries.reduce((sum, e) => sum + parseFloat(e.cess || '0'), 0);
-
-      // Calculate payable
-      const payableIgst = Math.max(0, outwardIgst - itcIgst);
-      const payableCgst = Math.max(0, outwardCgst - itcCgst);
-      const payableSgst = Math.max(0, outwardSgst - itcSgst);
-      const payableCess = Math.max(0, outwardCess - itcCess);
-
-      // Create summary
-      [summary] = await db.insert(gstr3bSummary).values({
-        companyId: req.companyId!,
-        gstConfigId: gstConfigId as string,
-        returnPeriod,
-        outwardTaxable: outwardTaxable.toFixed(2),
-        outwardIgst: outwardIgst.toFixed(2),
-        outwardCgst: outwardCgst.toFixed(2),
-        outwardSgst: outwardSgst.toFixed(2),
-        outwardCess: outwardCess.toFixed(2),
-        itcIgst: itcIgst.toFixed(2),
-        itcCgst: itcCgst.toFixed(2),
-        itcSgst: itcSgst.toFixed(2),
-        itcCess: itcCess.toFixed(2),
-        payableIgst: payableIgst.toFixed(2),
-        payableCgst: payableCgst.toFixed(2),
-        payableSgst: payableSgst.toFixed(2),
-        payableCess: payableCess.toFixed(2),
-        computedAt: new Date(),
-      }).returning();
-    }
-
-    res.json(summary);
+    webhookEvents.gstFiled(req.companyId!, { returnType: 'GSTR-3B', ...filed });
+
+    res.json(result);
   } catch (error) {
-    console.error('Get GSTR-3B error:', error);
-    res.status(500).json({ error: 'Failed to get GSTR-3B summary' });
+    console.error('File GSTR-3B error:', error);
+    res.status(500).json({ error: 'Failed to mark GSTR-3B as filed' });
   }
 });
 
@@ -378,6 +494,112 @@ router.post('/itc', requireCompany, async (req: AuthenticatedRequest, res) => {
   }
 });
 
+// Import GSTR-2A/2B JSON and reconcile it with the ITC register and bills
+router.post('/itc/reconcile', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { data, amountTolerance, similarityThreshold } = req.body;
+
+    let portalData;
+    try {
+      portalData = parsePortalItcData(typeof data === 'string' ? JSON.parse(data) : data);
+    } catch (parseError: any) {
+      return res.status(400).json({ error: parseError.message || 'Invalid GSTR-2A/2B file' });
+    }
+
+    const returnPeriod = req.body.returnPeriod || portalData.returnPeriod;
+    if (!returnPeriod) {
+      return res.status(400).json({ error: 'Return period is required' });
+    }
+
+    // The file must belong to one of the company's registrations
+    if (portalData.gstin) {
+      const configs = await db.query.gstConfig.findMany({
+        where: eq(gstConfig.companyId, req.companyId!),
+      });
+      if (configs.length > 0 && !configs.some(c => c.gstin === portalData.gstin)) {
+        return res.status(400).json({ error: `File belongs to GSTIN ${portalData.gstin}, which is not configured for this company` });
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      await runItcReconciliation(tx, req.companyId!, returnPeriod, portalData, {
+        amountTolerance: amountTolerance !== undefined ? parseFloat(amountTolerance) : undefined,
+        similarityThreshold: similarityThreshold !== undefined ? parseFloat(similarityThreshold) : undefined,
+      });
+    });
+
+    const entries = await db.query.itcRegister.findMany({
+      where: and(
+        eq(itcRegister.companyId, req.companyId!),
+        eq(itcRegister.returnPeriod, returnPeriod)
+      ),
+      orderBy: [asc(itcRegister.vendorGstin), asc(itcRegister.invoiceDate)],
+    });
+
+    res.json({ returnPeriod, source: portalData.source, ...buildItcReconciliationReport(entries) });
+  } catch (error) {
+    console.error('ITC reconciliation error:', error);
+    res.status(500).json({ error: 'Failed to reconcile ITC' });
+  }
+});
+
+// Get ITC reconciliation report
+router.get('/itc/reconciliation/:returnPeriod', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { returnPeriod } = req.params;
+
+    const entries = await db.query.itcRegister.findMany({
+      where: and(
+        eq(itcRegister.companyId, req.companyId!),
+        eq(itcRegister.returnPeriod, returnPeriod)
+      ),
+      orderBy: [asc(itcRegister.vendorGstin), asc(itcRegister.invoiceDate)],
+    });
+
+    res.json({ returnPeriod, ...buildItcReconciliationReport(entries) });
+  } catch (error) {
+    console.error('Get ITC reconciliation error:', error);
+    res.status(500).json({ error: 'Failed to get ITC reconciliation' });
+  }
+});
+
+// Accept or reject a reconciliation line
+router.post('/itc/:id/:action(accept|reject)', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id, action } = req.params;
+
+    const entry = await db.query.itcRegister.findFirst({
+      where: and(
+        eq(itcRegister.id, id),
+        eq(itcRegister.companyId, req.companyId!)
+      ),
+    });
+
+    if (!entry) {
+      return res.status(404).json({ error: 'ITC entry not found' });
+    }
+
+    const reconciliationAction = action === 'accept' ? 'accepted' : 'rejected';
+
+    const [updated] = await db.update(itcRegister)
+      .set({
+        ...getItcForAction(entry, reconciliationAction),
+        reversalReason: reconciliationAction === 'rejected' ? (req.body.reason || 'Rejected in ITC reconciliation') : null,
+        reconciliationAction,
+        actionedByUserId: req.userId!,
+        actionedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(itcRegister.id, id))
+      .returning();
+
+    res.json(updated);
+  } catch (error) {
+    console.error('ITC action error:', error);
+    res.status(500).json({ error: 'Failed to update ITC entry' });
+  }
+});
+
 // ==================== GST PAYMENTS ====================
 
 // Get GST payments
@@ -19,7 +19,8 @@ import {
 import {
   testWebhook,
   retryWebhook,
-  enableWebhook
+  enableWebhook,
+  isWebhookEventType
 } from '../services/integrations/webhookDispatcher';
 
 const router = Router();
@@ -272,6 +273,10 @@ router.post('/webhooks', requireCompany, async (req: AuthenticatedRequest, res)
       return res.status(400).json({ error: 'Name, event type, and target URL required' });
     }
 
+    if (!isWebhookEventType(eventType)) {
+      return res.status(400).json({ error: `Unknown event type: ${eventType}` });
+    }
+
     const webhook = await createWebhook(req.companyId!, req.userId!, {
       name,
       eventType,
@@ -474,6 +479,34 @@ router.get('/webhook-events', requireCompany, async (req: AuthenticatedRequest,
       {
         event: 'gst.filed',
         description: 'When a GST return is filed'
+      },
+      {
+        event: 'credit_note.created',
+        description: 'When a new credit note is created'
+      },
+      {
+        event: 'credit_note.issued',
+        description: 'When a credit note is issued to customer'
+      },
+      {
+        event: 'journal_entry.posted',
+        description: 'When a journal entry is posted to the ledger'
+      },
+      {
+        event: 'journal_entry.reversed',
+        description: 'When a posted journal entry is reversed'
+      },
+      {
+        event: 'quote.created',
+        description: 'When a new quote is created'
+      },
+      {
+        event: 'quote.sent',
+        description: 'When a quote is sent to customer'
+      },
+      {
+        event: 'quote.accepted',
+        description: 'When a customer accepts a quote'
       }
     ]);
   } catch (error) {
@@ -3,10 +3,27 @@ import { db } from '../db';
 import { invoices, invoiceLines, fiscalYears, parties, journalEntries, journalEntryLines, chartOfAccounts } from '@shared/schema';
 import { eq, and, desc, asc, sql, gte, lte } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { syncGstr1ForDocument, getSupplierGstContext, resolvePlaceOfSupply, isInterStateSupply } from '../services/gst';
+import { webhookEvents } from '../services/integrations/webhookDispatcher';
+import { recordDocumentStock, reverseDocumentStock, getStockPeriodError } from '../services/inventory';
+import { allocateDocumentNumber, releaseDocumentNumber } from '../services/numbering';
+import { refreshPeriodBalances } from '../services/ledger';
+import {
+  resolveDocumentCurrency,
+  convertAmountFields,
+  foreignAmountFields,
+  settleForeignBalance,
+  settlementJournalLines,
+  getForexAccounts,
+  toBase,
+  type Settlement,
+} from '../services/forex';
 import { z } from 'zod';
 
 const invoiceLineSchema = z.object({
+  productId: z.string().optional(),
   accountId: z.string().min(1, 'Account is required'),
+  costCenterId: z.string().optional(),
   description: z.string().min(1, 'Description is required'),
   hsnSacCode: z.string().optional(),
   quantity: z.union([z.string(), z.number()]).transform(v => parseFloat(String(v))).pipe(z.number().positive('Quantity must be positive')),
@@ -24,6 +41,9 @@ const createInvoiceSchema = z.object({
   shippingAddress: z.string().optional(),
   notes: z.string().optional(),
   terms: z.string().optional(),
+  // Lines are entered in this currency; the rate defaults to the stored one for the invoice date
+  currencyCode: z.string().length(3).optional(),
+  exchangeRate: z.union([z.string(), z.number()]).transform(v => parseFloat(String(v))).pipe(z.number().positive('Exchange rate must be positive')).optional(),
   lines: z.array(invoiceLineSchema).min(1, 'At least one line item is required'),
 });
 
@@ -33,6 +53,8 @@ const recordPaymentSchema = z.object({
   paymentMethod: z.string().optional(),
   reference: z.string().optional(),
   bankAccountId: z.string().optional(),
+  // Rate of a foreign currency payment; defaults to the stored one for the payment date
+  exchangeRate: z.union([z.string(), z.number()]).transform(v => parseFloat(String(v))).pipe(z.number().positive('Exchange rate must be positive')).optional(),
 });
 
 const router = Router();
@@ -127,6 +149,8 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       shippingAddress,
       notes,
       terms,
+      currencyCode,
+      exchangeRate,
       lines,
     } = parseResult.data;
 
@@ -142,16 +166,29 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate invoice number
-    const lastInvoice = await db.query.invoices.findFirst({
-      where: eq(invoices.companyId, req.companyId!),
-      orderBy: desc(invoices.createdAt),
+    // Determine inter-state vs intra-state from the place of supply
+    const customer = await db.query.parties.findFirst({
+      where: and(
+        eq(parties.id, customerId),
+        eq(parties.companyId, req.companyId!)
+      ),
     });
 
-    const nextNumber = lastInvoice
-      ? parseInt(lastInvoice.invoiceNumber.split('-').pop() || '0', 10) + 1
-      : 1;
-    const invoiceNumber = `INV-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
+    if (!customer) {
+      return res.status(400).json({ error: 'Customer not found' });
+    }
+
+    const currency = await resolveDocumentCurrency(db, req.companyId!, currencyCode, invoiceDate, exchangeRate);
+    if (!currency) {
+      return res.status(400).json({ error: `No ${currencyCode} exchange rate on or before ${invoiceDate}; enter the rate on the invoice` });
+    }
+
+    const supplier = await getSupplierGstContext(db, req.companyId!);
+    const interState = isInterStateSupply(
+      customer,
+      resolvePlaceOfSupply(customer, supplier.stateCode),
+      supplier.stateCode
+    );
 
     // Calculate totals
     let subtotal = 0;
@@ -171,15 +208,16 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       const taxRate = parseFloat(line.taxRate || 0);
       const taxAmount = (taxableAmount * taxRate) / 100;
 
-      // For now, split equally between CGST and SGST (intra-state)
-      // In production, determine based on place of supply
-      const cgst = taxAmount / 2;
-      const sgst = taxAmount / 2;
+      // Inter-state supplies attract IGST, intra-state split equally between CGST and SGST
+      const igst = interState ? taxAmount : 0;
+      const cgst = interState ? 0 : taxAmount / 2;
+      const sgst = interState ? 0 : taxAmount / 2;
 
       subtotal += taxableAmount;
       totalTax += taxAmount;
       totalCgst += cgst;
       totalSgst += sgst;
+      totalIgst += igst;
 
       return {
         ...line,
@@ -192,10 +230,27 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       };
     });
 
-    const totalAmount = subtotal + totalTax;
+    let totalAmount = subtotal + totalTax;
+    const totalAmountFcy = totalAmount;
+    let baseLines = processedLines;
+
+    // Foreign currency lines are kept in the base currency at the invoice rate
+    if (currency.currencyCode) {
+      baseLines = processedLines.map((line: any) =>
+        convertAmountFields(line, currency.exchangeRate, ['unitPrice', 'discountAmount', 'taxAmount', 'amount'])
+      );
+      totalTax = baseLines.reduce((sum: number, line: any) => sum + parseFloat(line.taxAmount), 0);
+      totalAmount = baseLines.reduce((sum: number, line: any) => sum + parseFloat(line.amount), 0);
+      subtotal = totalAmount - totalTax;
+      totalIgst = interState ? totalTax : 0;
+      totalCgst = interState ? 0 : totalTax / 2;
+      totalSgst = totalCgst;
+    }
 
     // Create invoice and line items in a transaction
     const completeInvoice = await db.transaction(async (tx) => {
+      const invoiceNumber = await allocateDocumentNumber(tx, req.companyId!, 'invoice', fiscalYear);
+
       const [invoice] = await tx.insert(invoices).values({
         companyId: req.companyId!,
         fiscalYearId: fiscalYear.id,
@@ -212,17 +267,24 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
         igst: totalIgst.toString(),
         totalAmount: totalAmount.toString(),
         balanceDue: totalAmount.toString(),
+        currencyCode: currency.currencyCode,
+        exchangeRate: currency.exchangeRate.toString(),
+        totalAmountFcy: currency.currencyCode ? totalAmountFcy.toString() : null,
+        paidAmountFcy: currency.currencyCode ? '0' : null,
+        balanceDueFcy: currency.currencyCode ? totalAmountFcy.toString() : null,
         status: 'draft',
         notes,
         terms,
         createdByUserId: req.userId,
       }).returning();
 
-      if (processedLines.length > 0) {
+      if (baseLines.length > 0) {
         await tx.insert(invoiceLines).values(
-          processedLines.map((line: any) => ({
+          baseLines.map((line: any) => ({
             invoiceId: invoice.id,
+            productId: line.productId,
             accountId: line.accountId,
+            costCenterId: line.costCenterId || null,
             description: line.description,
             hsnSacCode: line.hsnSacCode,
             quantity: line.quantity,
@@ -246,6 +308,8 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       });
     });
 
+    webhookEvents.invoiceCreated(req.companyId!, completeInvoice);
+
     res.status(201).json(completeInvoice);
   } catch (error) {
     console.error('Create invoice error:', error);
@@ -314,6 +378,13 @@ router.post('/:id/send', requireCompany, async (req: AuthenticatedRequest, res)
       return res.status(400).json({ error: 'Invoice has already been sent' });
     }
 
+    const stockPeriodError = invoice.lines.some(line => line.productId)
+      ? await getStockPeriodError(db, req.companyId!, invoice.invoiceDate)
+      : null;
+    if (stockPeriodError) {
+      return res.status(400).json({ error: stockPeriodError });
+    }
+
     // Create journal entry for the invoice
     const fiscalYear = await db.query.fiscalYears.findFirst({
       where: and(
@@ -326,17 +397,6 @@ router.post('/:id/send', requireCompany, async (req: AuthenticatedRequest, res)
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate journal entry number
-    const lastEntry = await db.query.journalEntries.findFirst({
-      where: eq(journalEntries.companyId, req.companyId!),
-      orderBy: desc(journalEntries.createdAt),
-    });
-
-    const nextNum = lastEntry
-      ? parseInt(lastEntry.entryNumber.split('/').pop() || '0', 10) + 1
-      : 1;
-    const entryNumber = `INV/${fiscalYear.name.replace(/\s/g, '')}/${nextNum.toString().padStart(5, '0')}`;
-
     // Get accounts receivable account
     const arAccount = await db.query.chartOfAccounts.findFirst({
       where: and(
@@ -351,6 +411,8 @@ router.post('/:id/send', requireCompany, async (req: AuthenticatedRequest, res)
 
     // Create journal entry and update invoice in a transaction
     const updated = await db.transaction(async (tx) => {
+      const entryNumber = await allocateDocumentNumber(tx, req.companyId!, 'journal_entry', fiscalYear, { type: 'INV' });
+
       const [je] = await tx.insert(journalEntries).values({
         companyId: req.companyId!,
         fiscalYearId: fiscalYear.id,
@@ -374,6 +436,7 @@ router.post('/:id/send', requireCompany, async (req: AuthenticatedRequest, res)
         accountId: arAccount.id,
         debitAmount: invoice.totalAmount,
         creditAmount: '0',
+        ...foreignAmountFields(invoice.currencyCode, parseFloat(invoice.exchangeRate || '1'), parseFloat(invoice.totalAmountFcy || '0'), 0),
         partyType: 'customer' as const,
         partyId: invoice.customerId,
         description: `Invoice ${invoice.invoiceNumber}`,
@@ -385,6 +448,7 @@ router.post('/:id/send', requireCompany, async (req: AuthenticatedRequest, res)
           jeLines.push({
             journalEntryId: je.id,
             accountId: line.accountId,
+            costCenterId: line.costCenterId,
             debitAmount: '0',
             creditAmount: line.amount,
             description: line.description,
@@ -393,6 +457,7 @@ router.post('/:id/send', requireCompany, async (req: AuthenticatedRequest, res)
       }
 
       await tx.insert(journalEntryLines).values(jeLines);
+      await refreshPeriodBalances(tx, req.companyId!, [je]);
 
       const [inv] = await tx.update(invoices)
         .set({
@@ -403,9 +468,21 @@ router.post('/:id/send', requireCompany, async (req: AuthenticatedRequest, res)
         .where(eq(invoices.id, id))
         .returning();
 
+      await syncGstr1ForDocument(tx, req.companyId!, 'invoice', id);
+
+      await recordDocumentStock(tx, req.companyId!, {
+        sourceType: 'invoice',
+        sourceId: id,
+        sourceNumber: invoice.invoiceNumber,
+        date: invoice.invoiceDate,
+        lines: invoice.lines,
+      }, req.userId);
+
       return inv;
     });
 
+    webhookEvents.invoiceSent(req.companyId!, { ...updated, customer: invoice.customer, lines: invoice.lines });
+
     res.json(updated);
   } catch (error) {
     console.error('Send invoice error:', error);
@@ -422,7 +499,7 @@ router.post('/:id/payment', requireCompany, async (req: AuthenticatedRequest, re
       const errors = paymentParse.error.errors.map(e => e.message).join(', ');
       return res.status(400).json({ error: errors });
     }
-    const { amount, paymentDate, paymentMethod, reference, bankAccountId } = paymentParse.data;
+    const { amount, paymentDate, paymentMethod, reference, bankAccountId, exchangeRate } = paymentParse.data;
 
     const invoice = await db.query.invoices.findFirst({
       where: and(
@@ -442,17 +519,39 @@ router.post('/:id/payment', requireCompany, async (req: AuthenticatedRequest, re
       return res.status(400).json({ error: 'Cannot record payment for this invoice' });
     }
 
-    const paymentAmount = typeof amount === 'number' ? amount : parseFloat(amount);
+    const receivedOn = paymentDate || new Date().toISOString().split('T')[0];
     const currentPaid = parseFloat(invoice.paidAmount || '0');
     const totalAmount = parseFloat(invoice.totalAmount);
-    const newPaidAmount = currentPaid + paymentAmount;
+
+    // Foreign currency invoices are paid in their own currency, at the rate of the payment date
+    let settlement: Settlement | null = null;
+    let paymentRate = 1;
+    if (invoice.currencyCode) {
+      const currency = await resolveDocumentCurrency(db, req.companyId!, invoice.currencyCode, receivedOn, exchangeRate);
+      if (!currency) {
+        return res.status(400).json({ error: `No ${invoice.currencyCode} exchange rate on or before ${receivedOn}; enter the rate of the payment` });
+      }
+      if (amount > parseFloat(invoice.balanceDueFcy || '0')) {
+        return res.status(400).json({ error: 'Payment amount exceeds balance due' });
+      }
+      paymentRate = currency.exchangeRate;
+      settlement = settleForeignBalance({
+        balanceDue: parseFloat(invoice.balanceDue),
+        balanceDueFcy: parseFloat(invoice.balanceDueFcy || '0'),
+        exchangeRate: parseFloat(invoice.exchangeRate || '1'),
+      }, amount, paymentRate, 'receivable');
+    }
+
+    const paymentAmount = settlement ? settlement.baseSettled : amount;
+    const newPaidAmount = currentPaid + (settlement ? settlement.baseCleared : amount);
     const newBalanceDue = totalAmount - newPaidAmount;
 
     if (newPaidAmount > totalAmount) {
       return res.status(400).json({ error: 'Payment amount exceeds balance due' });
     }
 
-    const newStatus = newBalanceDue === 0 ? 'paid' : 'partially_paid';
+    const newBalanceDueFcy = settlement ? parseFloat(invoice.balanceDueFcy || '0') - settlement.amountFcy : 0;
+    const newStatus = (settlement ? newBalanceDueFcy : newBalanceDue) === 0 ? 'paid' : 'partially_paid';
 
     // Update invoice and create journal entry in a transaction
     const updated = await db.transaction(async (tx) => {
@@ -460,6 +559,10 @@ router.post('/:id/payment', requireCompany, async (req: AuthenticatedRequest, re
         .set({
           paidAmount: newPaidAmount.toString(),
           balanceDue: newBalanceDue.toString(),
+          ...(settlement && {
+            paidAmountFcy: (parseFloat(invoice.paidAmountFcy || '0') + settlement.amountFcy).toString(),
+            balanceDueFcy: newBalanceDueFcy.toString(),
+          }),
           status: newStatus,
           updatedAt: new Date(),
         })
@@ -476,55 +579,46 @@ router.post('/:id/payment', requireCompany, async (req: AuthenticatedRequest, re
         });
 
         if (fiscalYear) {
-          const lastEntry = await tx.query.journalEntries.findFirst({
-            where: eq(journalEntries.companyId, req.companyId!),
-            orderBy: desc(journalEntries.createdAt),
-          });
-
-          const nextNum = lastEntry
-            ? parseInt(lastEntry.entryNumber.split('/').pop() || '0', 10) + 1
-            : 1;
-          const entryNumber = `RCV/${fiscalYear.name.replace(/\s/g, '')}/${nextNum.toString().padStart(5, '0')}`;
-
-          const arAccount = await tx.query.chartOfAccounts.findFirst({
-            where: and(
-              eq(chartOfAccounts.companyId, req.companyId!),
-              eq(chartOfAccounts.code, '1300')
-            ),
-          });
+          const forexAccounts = await getForexAccounts(tx, req.companyId!);
+
+          if (forexAccounts.receivablesAccountId) {
+            const entryNumber = await allocateDocumentNumber(tx, req.companyId!, 'journal_entry', fiscalYear, { type: 'RCV' });
+
+            const lines = settlementJournalLines({
+              side: 'receivable',
+              bankAccountId,
+              controlAccountId: forexAccounts.receivablesAccountId,
+              partyType: 'customer',
+              partyId: invoice.customerId,
+              currencyCode: invoice.currencyCode,
+              paymentRate,
+              amountFcy: amount,
+              baseAmount: settlement ? toBase(amount, paymentRate) : amount,
+              settlements: settlement ? [settlement] : [],
+              accounts: forexAccounts,
+              descriptions: {
+                bank: `Payment - ${reference || invoice.invoiceNumber}`,
+                party: `Payment - ${invoice.invoiceNumber}`,
+                exchange: `Exchange difference - ${invoice.invoiceNumber}`,
+              },
+            });
+            const total = lines.reduce((sum, line) => sum + parseFloat(line.debitAmount), 0).toFixed(2);
 
-          if (arAccount) {
             const [je] = await tx.insert(journalEntries).values({
               companyId: req.companyId!,
               fiscalYearId: fiscalYear.id,
               entryNumber,
-              entryDate: paymentDate || new Date().toISOString().split('T')[0],
+              entryDate: receivedOn,
               entryType: 'auto_payment',
               narration: `Payment received for Invoice ${invoice.invoiceNumber} - ${invoice.customer.name}`,
-              totalDebit: paymentAmount.toString(),
-              totalCredit: paymentAmount.toString(),
+              totalDebit: total,
+              totalCredit: total,
               status: 'posted',
               createdByUserId: req.userId,
             }).returning();
 
-            await tx.insert(journalEntryLines).values([
-              {
-                journalEntryId: je.id,
-                accountId: bankAccountId,
-                debitAmount: paymentAmount.toString(),
-                creditAmount: '0',
-                description: `Payment - ${reference || invoice.invoiceNumber}`,
-              },
-              {
-                journalEntryId: je.id,
-                accountId: arAccount.id,
-                debitAmount: '0',
-                creditAmount: paymentAmount.toString(),
-                partyType: 'customer' as const,
-                partyId: invoice.customerId,
-                description: `Payment - ${invoice.invoiceNumber}`,
-              },
-            ]);
+            await tx.insert(journalEntryLines).values(lines.map(line => ({ journalEntryId: je.id, ...line })));
+            await refreshPeriodBalances(tx, req.companyId!, [je]);
           }
         }
       }
@@ -532,6 +626,19 @@ router.post('/:id/payment', requireCompany, async (req: AuthenticatedRequest, re
       return inv;
     });
 
+    webhookEvents.paymentReceived(req.companyId!, {
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      customerId: invoice.customerId,
+      amount: paymentAmount.toString(),
+      paymentDate: receivedOn,
+      paymentMethod,
+      reference,
+    });
+    if (updated.status === 'paid') {
+      webhookEvents.invoicePaid(req.companyId!, { ...updated, customer: invoice.customer });
+    }
+
     res.json(updated);
   } catch (error) {
     console.error('Record payment error:', error);
@@ -607,6 +714,11 @@ router.post('/:id/cancel', requireCompany, async (req: AuthenticatedRequest, res
       return res.status(400).json({ error: 'Cannot cancel invoice with payments. Remove payments first.' });
     }
 
+    const stockPeriodError = await getStockPeriodError(db, req.companyId!, invoice.invoiceDate);
+    if (stockPeriodError) {
+      return res.status(400).json({ error: stockPeriodError });
+    }
+
     // Reverse journal entries
     const relatedJournals = await db.query.journalEntries.findMany({
       where: and(
@@ -620,6 +732,7 @@ router.post('/:id/cancel', requireCompany, async (req: AuthenticatedRequest, res
       await db.delete(journalEntryLines).where(eq(journalEntryLines.journalEntryId, je.id));
       await db.delete(journalEntries).where(eq(journalEntries.id, je.id));
     }
+    await refreshPeriodBalances(db, req.companyId!, relatedJournals);
 
     const [updated] = await db.update(invoices)
       .set({
@@ -629,7 +742,11 @@ router.post('/:id/cancel', requireCompany, async (req: AuthenticatedRequest, res
       .where(eq(invoices.id, id))
       .returning();
 
-    res.json(updated);
+    const gstr1 = await syncGstr1ForDocument(db, req.companyId!, 'invoice', id);
+    await reverseDocumentStock(db, req.companyId!, 'invoice', id, invoice.invoiceDate, req.userId);
+
+    // Filed GSTR-1 rows are left as they are; the cancellation has to be amended there
+    res.json(gstr1.synced ? updated : { ...updated, gstr1AmendmentRequired: true });
   } catch (error) {
     console.error('Cancel invoice error:', error);
     res.status(500).json({ error: 'Failed to cancel invoice' });
@@ -659,6 +776,7 @@ router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) =>
     await db.transaction(async (tx) => {
       await tx.delete(invoiceLines).where(eq(invoiceLines.invoiceId, id));
       await tx.delete(invoices).where(eq(invoices.id, id));
+      await releaseDocumentNumber(tx, req.companyId!, 'invoice', invoice.fiscalYearId, invoice.invoiceNumber);
     });
 
     res.json({ message: 'Invoice deleted' });
@@ -1,37 +1,39 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { journalEntries, journalEntryLines, fiscalYears, chartOfAccounts, trialBalanceCache } from '@shared/schema';
+import { journalEntries, journalEntryLines, fiscalYears, chartOfAccounts } from '@shared/schema';
 import { eq, and, desc, gte, lte, sql, asc } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { webhookEvents } from '../services/integrations/webhookDispatcher';
+import { allocateDocumentNumber, releaseDocumentNumber } from '../services/numbering';
+import { refreshPeriodBalances } from '../services/ledger';
+import {
+  findApplicablePolicy,
+  requestApproval,
+  getPendingApproval,
+  getLatestApproval,
+  approvalBlocker,
+  requestApproverRoles,
+  decideApproval,
+  type ApprovalDocument,
+} from '../services/approvals';
 
 const router = Router();
 
-// Generate entry number
-async function generateEntryNumber(companyId: string, fiscalYearId: string): Promise<string> {
-  const fy = await db.query.fiscalYears.findFirst({
-    where: eq(fiscalYears.id, fiscalYearId),
-  });
-
-  const fyName = fy?.name.replace('FY ', '') || '';
-
-  const lastEntry = await db.query.journalEntries.findFirst({
-    where: and(
-      eq(journalEntries.companyId, companyId),
-      eq(journalEntries.fiscalYearId, fiscalYearId)
-    ),
-    orderBy: desc(journalEntries.createdAt),
-  });
-
-  let nextNumber = 1;
-  if (lastEntry?.entryNumber) {
-    const parts = lastEntry.entryNumber.split('/');
-    const lastNum = parseInt(parts[parts.length - 1], 10);
-    if (!isNaN(lastNum)) {
-      nextNumber = lastNum + 1;
-    }
-  }
-
-  return `JV/${fyName}/${nextNumber.toString().padStart(4, '0')}`;
+// What the approval policies look at when an entry is posted
+function approvalDocument(
+  entry: { id: string; entryNumber: string; entryType: string; narration: string | null },
+  totalDebit: number,
+  accountIds: string[]
+): ApprovalDocument {
+  return {
+    documentType: 'journal_entry',
+    documentId: entry.id,
+    documentNumber: entry.entryNumber,
+    amount: totalDebit,
+    accountIds: [...new Set(accountIds)],
+    entryType: entry.entryType,
+    description: entry.narration,
+  };
 }
 
 // Get all journal entries
@@ -116,7 +118,9 @@ router.get('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ error: 'Entry not found' });
     }
 
-    res.json(entry);
+    const approval = await getLatestApproval(db, req.companyId!, 'journal_entry', entry.id);
+
+    res.json({ ...entry, approval: approval || null });
   } catch (error) {
     console.error('Get entry error:', error);
     res.status(500).json({ error: 'Failed to get entry' });
@@ -177,47 +181,74 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'Entry must balance (debits must equal credits)' });
     }
 
-    // Generate entry number
-    const entryNumber = await generateEntryNumber(req.companyId!, fiscalYearId);
+    if (!['draft', 'posted'].includes(status)) {
+      return res.status(400).json({ error: 'Status must be draft or posted' });
+    }
 
-    // Create entry
-    const [entry] = await db.insert(journalEntries).values({
-      companyId: req.companyId!,
-      fiscalYearId,
-      entryNumber,
-      entryDate,
-      postingDate: status === 'posted' ? entryDate : null,
-      entryType,
-      narration,
-      totalDebit: totalDebit.toFixed(2),
-      totalCredit: totalCredit.toFixed(2),
-      sourceType,
-      sourceId,
-      status,
-      attachments,
-      createdByUserId: req.userId!,
-    }).returning();
-
-    // Create lines
-    const lineValues = lines.map((line: any, index: number) => ({
-      journalEntryId: entry.id,
-      accountId: line.accountId,
-      debitAmount: parseFloat(line.debitAmount || 0).toFixed(2),
-      creditAmount: parseFloat(line.creditAmount || 0).toFixed(2),
-      partyType: line.partyType,
-      partyId: line.partyId,
-      costCenterId: line.costCenterId,
-      description: line.description,
-      gstDetails: line.gstDetails,
-      sortOrder: index,
-    }));
-
-    await db.insert(journalEntryLines).values(lineValues);
-
-    // Mark trial balance cache as stale
-    await db.update(trialBalanceCache)
-      .set({ isStale: true })
-      .where(eq(trialBalanceCache.companyId, req.companyId!));
+    // An entry that meets an approval policy waits for approval instead of posting
+    const approvalPolicy = status === 'posted'
+      ? await findApplicablePolicy(db, req.companyId!, {
+        documentType: 'journal_entry',
+        amount: totalDebit,
+        accountIds: lines.map((line: any) => line.accountId),
+        entryType,
+      })
+      : null;
+    const entryStatus = approvalPolicy ? 'pending_approval' : status;
+
+    // Create the entry, its lines and any approval request in a transaction
+    const entry = await db.transaction(async (tx) => {
+      const entryNumber = await allocateDocumentNumber(tx, req.companyId!, 'journal_entry', fy, { type: 'JV' });
+
+      const [created] = await tx.insert(journalEntries).values({
+        companyId: req.companyId!,
+        fiscalYearId,
+        entryNumber,
+        entryDate,
+        postingDate: entryStatus === 'posted' ? entryDate : null,
+        entryType,
+        narration,
+        totalDebit: totalDebit.toFixed(2),
+        totalCredit: totalCredit.toFixed(2),
+        sourceType,
+        sourceId,
+        status: entryStatus,
+        attachments,
+        createdByUserId: req.userId!,
+      }).returning();
+
+      // Create lines
+      const lineValues = lines.map((line: any, index: number) => ({
+        journalEntryId: created.id,
+        accountId: line.accountId,
+        debitAmount: parseFloat(line.debitAmount || 0).toFixed(2),
+        creditAmount: parseFloat(line.creditAmount || 0).toFixed(2),
+        partyType: line.partyType,
+        partyId: line.partyId,
+        costCenterId: line.costCenterId,
+        description: line.description,
+        gstDetails: line.gstDetails,
+        sortOrder: index,
+      }));
+
+      await tx.insert(journalEntryLines).values(lineValues);
+
+      if (created.status === 'posted') {
+        await refreshPeriodBalances(tx, req.companyId!, [created]);
+      }
+
+      if (approvalPolicy) {
+        await requestApproval(
+          tx,
+          req.companyId!,
+          approvalDocument(created, totalDebit, lines.map((line: any) => line.accountId)),
+          approvalPolicy,
+          req.userId
+        );
+      }
+
+      return created;
+    });
 
     // Fetch complete entry with lines
     const completeEntry = await db.query.journalEntries.findFirst({
@@ -232,6 +263,10 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       },
     });
 
+    if (completeEntry?.status === 'posted') {
+      webhookEvents.journalEntryPosted(req.companyId!, completeEntry);
+    }
+
     res.status(201).json(completeEntry);
   } catch (error) {
     console.error('Create entry error:', error);
@@ -252,6 +287,7 @@ router.patch('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
       ),
       with: {
         fiscalYear: true,
+        lines: true,
       },
     });
 
@@ -263,10 +299,33 @@ router.patch('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'Cannot edit posted entry. Create reversal instead.' });
     }
 
+    if (entry.status === 'pending_approval') {
+      return res.status(400).json({ error: 'Entry is awaiting approval' });
+    }
+
     if (entry.fiscalYear?.isLocked) {
       return res.status(400).json({ error: 'Fiscal year is locked' });
     }
 
+    if (status !== undefined && !['draft', 'posted'].includes(status)) {
+      return res.status(400).json({ error: 'Status must be draft or posted' });
+    }
+
+    // Posting an entry that meets an approval policy sends it for approval instead
+    const accountIds: string[] = (lines || entry.lines).map((line: any) => line.accountId);
+    const amount = lines
+      ? lines.reduce((sum: number, line: any) => sum + parseFloat(line.debitAmount || 0), 0)
+      : parseFloat(entry.totalDebit);
+    const approvalPolicy = status === 'posted'
+      ? await findApplicablePolicy(db, req.companyId!, {
+        documentType: 'journal_entry',
+        amount,
+        accountIds,
+        entryType: entry.entryType,
+      })
+      : null;
+    const nextStatus = approvalPolicy ? 'pending_approval' : status;
+
     // If updating lines
     if (lines) {
       // Validate lines
@@ -310,10 +369,10 @@ router.patch('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
         .set({
           narration,
           attachments,
-          status,
+          status: nextStatus,
           totalDebit: totalDebit.toFixed(2),
           totalCredit: totalCredit.toFixed(2),
-          postingDate: status === 'posted' ? entry.entryDate : null,
+          postingDate: nextStatus === 'posted' ? entry.entryDate : null,
           updatedAt: new Date(),
         })
         .where(eq(journalEntries.id, id));
@@ -322,17 +381,20 @@ router.patch('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
         .set({
           narration,
           attachments,
-          status,
-          postingDate: status === 'posted' ? entry.entryDate : null,
+          status: nextStatus,
+          postingDate: nextStatus === 'posted' ? entry.entryDate : null,
           updatedAt: new Date(),
         })
         .where(eq(journalEntries.id, id));
     }
 
-    // Mark trial balance cache as stale
-    await db.update(trialBalanceCache)
-      .set({ isStale: true })
-      .where(eq(trialBalanceCache.companyId, req.companyId!));
+    if (nextStatus === 'posted') {
+      await refreshPeriodBalances(db, req.companyId!, [entry]);
+    }
+
+    if (approvalPolicy) {
+      await requestApproval(db, req.companyId!, approvalDocument(entry, amount, accountIds), approvalPolicy, req.userId);
+    }
 
     const updated = await db.query.journalEntries.findFirst({
       where: eq(journalEntries.id, id),
@@ -360,6 +422,9 @@ router.post('/:id/post', requireCompany, async (req: AuthenticatedRequest, res)
         eq(journalEntries.id, id),
         eq(journalEntries.companyId, req.companyId!)
       ),
+      with: {
+        lines: true,
+      },
     });
 
     if (!entry) {
@@ -370,6 +435,24 @@ router.post('/:id/post', requireCompany, async (req: AuthenticatedRequest, res)
       return res.status(400).json({ error: 'Entry already posted' });
     }
 
+    if (entry.status === 'pending_approval') {
+      return res.status(400).json({ error: 'Entry is awaiting approval' });
+    }
+
+    const document = approvalDocument(entry, parseFloat(entry.totalDebit), entry.lines.map(line => line.accountId));
+    const approvalPolicy = await findApplicablePolicy(db, req.companyId!, document);
+
+    if (approvalPolicy) {
+      const [submitted] = await db.update(journalEntries)
+        .set({ status: 'pending_approval', updatedAt: new Date() })
+        .where(eq(journalEntries.id, id))
+        .returning();
+
+      await requestApproval(db, req.companyId!, document, approvalPolicy, req.userId);
+
+      return res.json(submitted);
+    }
+
     const [updated] = await db.update(journalEntries)
       .set({
         status: 'posted',
@@ -379,10 +462,9 @@ router.post('/:id/post', requireCompany, async (req: AuthenticatedRequest, res)
       .where(eq(journalEntries.id, id))
       .returning();
 
-    // Mark trial balance cache as stale
-    await db.update(trialBalanceCache)
-      .set({ isStale: true })
-      .where(eq(trialBalanceCache.companyId, req.companyId!));
+    await refreshPeriodBalances(db, req.companyId!, [updated]);
+
+    webhookEvents.journalEntryPosted(req.companyId!, updated);
 
     res.json(updated);
   } catch (error) {
@@ -391,6 +473,130 @@ router.post('/:id/post', requireCompany, async (req: AuthenticatedRequest, res)
   }
 });
 
+// Approve an entry awaiting approval, posting it
+router.post('/:id/approve', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { comments } = req.body;
+
+    const entry = await db.query.journalEntries.findFirst({
+      where: and(
+        eq(journalEntries.id, id),
+        eq(journalEntries.companyId, req.companyId!)
+      ),
+    });
+
+    if (!entry) {
+      return res.status(404).json({ error: 'Entry not found' });
+    }
+
+    const approval = await getPendingApproval(db, req.companyId!, 'journal_entry', id);
+    if (entry.status !== 'pending_approval' || !approval) {
+      return res.status(400).json({ error: 'Entry is not awaiting approval' });
+    }
+
+    const blocker = approvalBlocker(
+      approval,
+      requestApproverRoles(approval),
+      { userId: req.userId!, role: req.companyRole },
+      entry.createdByUserId
+    );
+    if (blocker) {
+      return res.status(403).json({ error: blocker });
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      if (!await decideApproval(tx, approval.id, 'approved', req.userId!, comments)) {
+        return null;
+      }
+
+      const [posted] = await tx.update(journalEntries)
+        .set({
+          status: 'posted',
+          postingDate: entry.entryDate,
+          approvedByUserId: req.userId!,
+          approvedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(journalEntries.id, id))
+        .returning();
+
+      await refreshPeriodBalances(tx, req.companyId!, [posted]);
+      return posted;
+    });
+
+    if (!updated) {
+      return res.status(409).json({ error: 'Entry has already been approved or rejected' });
+    }
+
+    webhookEvents.journalEntryPosted(req.companyId!, updated);
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Approve entry error:', error);
+    res.status(500).json({ error: 'Failed to approve entry' });
+  }
+});
+
+// Reject an entry awaiting approval, returning it to draft
+router.post('/:id/reject', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { comments } = req.body;
+
+    if (!comments?.trim()) {
+      return res.status(400).json({ error: 'Comments are required to reject an entry' });
+    }
+
+    const entry = await db.query.journalEntries.findFirst({
+      where: and(
+        eq(journalEntries.id, id),
+        eq(journalEntries.companyId, req.companyId!)
+      ),
+    });
+
+    if (!entry) {
+      return res.status(404).json({ error: 'Entry not found' });
+    }
+
+    const approval = await getPendingApproval(db, req.companyId!, 'journal_entry', id);
+    if (entry.status !== 'pending_approval' || !approval) {
+      return res.status(400).json({ error: 'Entry is not awaiting approval' });
+    }
+
+    const blocker = approvalBlocker(
+      approval,
+      requestApproverRoles(approval),
+      { userId: req.userId!, role: req.companyRole },
+      entry.createdByUserId
+    );
+    if (blocker) {
+      return res.status(403).json({ error: blocker });
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      if (!await decideApproval(tx, approval.id, 'rejected', req.userId!, comments.trim())) {
+        return null;
+      }
+
+      const [draft] = await tx.update(journalEntries)
+        .set({ status: 'draft', updatedAt: new Date() })
+        .where(eq(journalEntries.id, id))
+        .returning();
+      return draft;
+    });
+
+    if (!updated) {
+      return res.status(409).json({ error: 'Entry has already been approved or rejected' });
+    }
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Reject entry error:', error);
+    res.status(500).json({ error: 'Failed to reject entry' });
+  }
+});
+
 // Reverse entry
 router.post('/:id/reverse', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
@@ -420,50 +626,53 @@ router.post('/:id/reverse', requireCompany, async (req: AuthenticatedRequest, re
       return res.status(400).json({ error: 'Entry already reversed' });
     }
 
-    // Generate new entry number
-    const entryNumber = await generateEntryNumber(req.companyId!, originalEntry.fiscalYearId);
-
-    // Create reversal entry (swap debits and credits)
-    const [reversalEntry] = await db.insert(journalEntries).values({
-      companyId: req.companyId!,
-      fiscalYearId: originalEntry.fiscalYearId,
-      entryNumber,
-      entryDate: reversalDate || originalEntry.entryDate,
-      postingDate: reversalDate || originalEntry.entryDate,
-      entryType: 'reversal',
-      narration: narration || `Reversal of ${originalEntry.entryNumber}`,
-      totalDebit: originalEntry.totalCredit, // Swapped
-      totalCredit: originalEntry.totalDebit, // Swapped
-      status: 'posted',
-      reversedEntryId: originalEntry.id,
-      createdByUserId: req.userId!,
-    }).returning();
-
-    // Create reversal lines (swap debits and credits)
-    const reversalLines = originalEntry.lines.map((line, index) => ({
-      journalEntryId: reversalEntry.id,
-      accountId: line.accountId,
-      debitAmount: line.creditAmount, // Swapped
-      creditAmount: line.debitAmount, // Swapped
-      partyType: line.partyType,
-      partyId: line.partyId,
-      costCenterId: line.costCenterId,
-      description: `Reversal: ${line.description || ''}`,
-      gstDetails: line.gstDetails,
-      sortOrder: index,
-    }));
-
-    await db.insert(journalEntryLines).values(reversalLines);
-
-    // Mark original as reversed
-    await db.update(journalEntries)
-      .set({ isReversed: true, reversedEntryId: reversalEntry.id, updatedAt: new Date() })
-      .where(eq(journalEntries.id, id));
+    // Post the reversal and flag the original in a transaction
+    const reversalEntry = await db.transaction(async (tx) => {
+      const entryNumber = await allocateDocumentNumber(tx, req.companyId!, 'journal_entry', originalEntry.fiscalYear, {
+        type: 'JV',
+      });
+
+      // Create reversal entry (swap debits and credits)
+      const [reversal] = await tx.insert(journalEntries).values({
+        companyId: req.companyId!,
+        fiscalYearId: originalEntry.fiscalYearId,
+        entryNumber,
+        entryDate: reversalDate || originalEntry.entryDate,
+        postingDate: reversalDate || originalEntry.entryDate,
+        entryType: 'reversal',
+        narration: narration || `Reversal of ${originalEntry.entryNumber}`,
+        totalDebit: originalEntry.totalCredit, // Swapped
+        totalCredit: originalEntry.totalDebit, // Swapped
+        status: 'posted',
+        reversedEntryId: originalEntry.id,
+        createdByUserId: req.userId!,
+      }).returning();
+
+      // Create reversal lines (swap debits and credits)
+      const reversalLines = originalEntry.lines.map((line, index) => ({
+        journalEntryId: reversal.id,
+        accountId: line.accountId,
+        debitAmount: line.creditAmount, // Swapped
+        creditAmount: line.debitAmount, // Swapped
+        partyType: line.partyType,
+        partyId: line.partyId,
+        costCenterId: line.costCenterId,
+        description: `Reversal: ${line.description || ''}`,
+        gstDetails: line.gstDetails,
+        sortOrder: index,
+      }));
 
-    // Mark trial balance cache as stale
-    await db.update(trialBalanceCache)
-      .set({ isStale: true })
-      .where(eq(trialBalanceCache.companyId, req.companyId!));
+      await tx.insert(journalEntryLines).values(reversalLines);
+
+      // Mark original as reversed
+      await tx.update(journalEntries)
+        .set({ isReversed: true, reversedEntryId: reversal.id, updatedAt: new Date() })
+        .where(eq(journalEntries.id, id));
+
+      await refreshPeriodBalances(tx, req.companyId!, [reversal]);
+
+      return reversal;
+    });
 
     const completeReversal = await db.query.journalEntries.findFirst({
       where: eq(journalEntries.id, reversalEntry.id),
@@ -474,6 +683,12 @@ router.post('/:id/reverse', requireCompany, async (req: AuthenticatedRequest, re
       },
     });
 
+    webhookEvents.journalEntryReversed(req.companyId!, {
+      ...completeReversal,
+      originalEntryId: originalEntry.id,
+      originalEntryNumber: originalEntry.entryNumber,
+    });
+
     res.status(201).json(completeReversal);
   } catch (error) {
     console.error('Reverse entry error:', error);
@@ -508,6 +723,8 @@ router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) =>
     await db.delete(journalEntries)
       .where(eq(journalEntries.id, id));
 
+    await releaseDocumentNumber(db, req.companyId!, 'journal_entry', entry.fiscalYearId, entry.entryNumber);
+
     res.json({ message: 'Entry deleted' });
   } catch (error) {
     console.error('Delete entry error:', error);
@@ -0,0 +1,188 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { numberingSeries, numberingSeriesCounters, numberingDocumentTypeEnum, fiscalYears, gstConfig } from '@shared/schema';
+import { eq, and, gt } from 'drizzle-orm';
+import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import {
+  listNumberingSeries,
+  validateTemplate,
+  setNextSequence,
+  type NumberingDocumentType,
+} from '../services/numbering';
+
+const router = Router();
+
+async function findFiscalYear(companyId: string, fiscalYearId?: string) {
+  return db.query.fiscalYears.findFirst({
+    where: and(
+      eq(fiscalYears.companyId, companyId),
+      fiscalYearId ? eq(fiscalYears.id, fiscalYearId) : eq(fiscalYears.isCurrent, true)
+    ),
+  });
+}
+
+// Get all numbering series with the next number of each
+router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const fiscalYear = await findFiscalYear(req.companyId!, req.query.fiscalYearId as string | undefined);
+    const series = await listNumberingSeries(req.companyId!, fiscalYear);
+
+    res.json({ fiscalYear: fiscalYear || null, series });
+  } catch (error) {
+    console.error('Get numbering series error:', error);
+    res.status(500).json({ error: 'Failed to get numbering series' });
+  }
+});
+
+// Create a series for a GSTIN branch
+router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { documentType, gstin, name, template } = req.body;
+
+    if (!numberingDocumentTypeEnum.enumValues.includes(documentType)) {
+      return res.status(400).json({ error: 'Invalid document type' });
+    }
+    if (!gstin || !name || !template) {
+      return res.status(400).json({ error: 'GSTIN, name and template are required' });
+    }
+
+    const branch = await db.query.gstConfig.findFirst({
+      where: and(
+        eq(gstConfig.companyId, req.companyId!),
+        eq(gstConfig.gstin, gstin)
+      ),
+    });
+    if (!branch) {
+      return res.status(400).json({ error: 'GSTIN is not registered for this company' });
+    }
+
+    const templateError = validateTemplate(template, documentType as NumberingDocumentType);
+    if (templateError) {
+      return res.status(400).json({ error: templateError });
+    }
+
+    const [series] = await db.insert(numberingSeries)
+      .values({
+        companyId: req.companyId!,
+        documentType,
+        gstin,
+        name,
+        template,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!series) {
+      return res.status(400).json({ error: 'A series already exists for this document type and GSTIN' });
+    }
+
+    res.status(201).json(series);
+  } catch (error) {
+    console.error('Create numbering series error:', error);
+    res.status(500).json({ error: 'Failed to create numbering series' });
+  }
+});
+
+// Update a series template, or move its counter forward
+router.patch('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { name, template, isActive, nextNumber, fiscalYearId } = req.body;
+
+    const series = await db.query.numberingSeries.findFirst({
+      where: and(
+        eq(numberingSeries.id, id),
+        eq(numberingSeries.companyId, req.companyId!)
+      ),
+    });
+
+    if (!series) {
+      return res.status(404).json({ error: 'Numbering series not found' });
+    }
+
+    if (template !== undefined) {
+      const templateError = validateTemplate(template, series.documentType);
+      if (templateError) {
+        return res.status(400).json({ error: templateError });
+      }
+    }
+
+    if (isActive === false && !series.gstin) {
+      return res.status(400).json({ error: 'The company-wide series cannot be deactivated' });
+    }
+
+    if (nextNumber !== undefined) {
+      const sequence = parseInt(nextNumber, 10);
+      if (isNaN(sequence) || sequence < 1) {
+        return res.status(400).json({ error: 'Next number must be a positive whole number' });
+      }
+
+      const fiscalYear = await findFiscalYear(req.companyId!, fiscalYearId);
+      if (!fiscalYear) {
+        return res.status(400).json({ error: 'Invalid fiscal year' });
+      }
+
+      const moved = await setNextSequence(series.id, fiscalYear.id, sequence);
+      if (!moved) {
+        return res.status(400).json({ error: 'Next number must be above the last number issued' });
+      }
+    }
+
+    const [updated] = await db.update(numberingSeries)
+      .set({
+        ...(name !== undefined && { name }),
+        ...(template !== undefined && { template }),
+        ...(isActive !== undefined && { isActive }),
+        updatedAt: new Date(),
+      })
+      .where(eq(numberingSeries.id, id))
+      .returning();
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Update numbering series error:', error);
+    res.status(500).json({ error: 'Failed to update numbering series' });
+  }
+});
+
+// Delete a branch series that has not issued any numbers
+router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const series = await db.query.numberingSeries.findFirst({
+      where: and(
+        eq(numberingSeries.id, id),
+        eq(numberingSeries.companyId, req.companyId!)
+      ),
+    });
+
+    if (!series) {
+      return res.status(404).json({ error: 'Numbering series not found' });
+    }
+
+    if (!series.gstin) {
+      return res.status(400).json({ error: 'The company-wide series cannot be deleted' });
+    }
+
+    const issued = await db.query.numberingSeriesCounters.findFirst({
+      where: and(
+        eq(numberingSeriesCounters.seriesId, id),
+        gt(numberingSeriesCounters.lastNumber, 0)
+      ),
+    });
+
+    if (issued) {
+      return res.status(400).json({ error: 'Series has issued numbers; deactivate it instead' });
+    }
+
+    await db.delete(numberingSeries).where(eq(numberingSeries.id, id));
+
+    res.json({ message: 'Numbering series deleted' });
+  } catch (error) {
+    console.error('Delete numbering series error:', error);
+    res.status(500).json({ error: 'Failed to delete numbering series' });
+  }
+});
+
+export default router;
@@ -139,6 +139,8 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       pan,
       gstin,
       gstRegistrationType,
+      udyamNumber,
+      relatedPartyRelationship,
       email,
       phone,
       address,
@@ -183,6 +185,8 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       pan: pan || null,
       gstin: gstin || null,
       gstRegistrationType: gstRegistrationType || null,
+      udyamNumber: udyamNumber || null,
+      relatedPartyRelationship: relatedPartyRelationship || null,
       email: email || null,
       phone: phone || null,
       address: address || null,
@@ -238,6 +242,11 @@ router.patch('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
       }
     }
 
+    // A blank Udyam number or relationship clears the MSME or related party flag
+    for (const field of ['udyamNumber', 'relatedPartyRelationship']) {
+      if (req.body[field] === '') req.body[field] = null;
+    }
+
     const [updated] = await db.update(parties)
       .set({
         ...req.body,
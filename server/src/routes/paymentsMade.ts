@@ -1,8 +1,20 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { paymentsMade, paymentMadeAllocations, fiscalYears, bills, journalEntries, journalEntryLines, chartOfAccounts } from '@shared/schema';
+import { paymentsMade, paymentMadeAllocations, fiscalYears, bills, journalEntries, journalEntryLines, cheques, bankMatchGroups, bankFeedTransactions, type Cheque } from '@shared/schema';
 import { eq, and, desc, gte, lte } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { webhookEvents } from '../services/integrations/webhookDispatcher';
+import { allocateDocumentNumber } from '../services/numbering';
+import { refreshPeriodBalances } from '../services/ledger';
+import {
+  resolveDocumentCurrency,
+  settleForeignBalance,
+  settlementJournalLines,
+  getForexAccounts,
+  toBase,
+  type Settlement,
+} from '../services/forex';
+import { findPaymentBankAccount, registerCheque } from '../services/cheques';
 
 const router = Router();
 
@@ -46,6 +58,9 @@ router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       vendorId: p.vendorId,
       vendorName: p.vendor?.name || 'Unknown',
       amount: p.amount,
+      currencyCode: p.currencyCode,
+      exchangeRate: p.exchangeRate,
+      amountFcy: p.amountFcy,
       paymentMethod: p.paymentMethod,
       referenceNumber: p.referenceNumber,
       bankAccountName: p.bankAccount?.bankName,
@@ -54,6 +69,8 @@ router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
         billId: a.billId,
         billNumber: a.bill?.billNumber,
         amount: a.amount,
+        amountFcy: a.amountFcy,
+        exchangeDifference: a.exchangeDifference,
       })),
     }));
 
@@ -136,6 +153,11 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       referenceNumber,
       bankAccountId,
       notes,
+      currencyCode,
+      exchangeRate,
+      chequeNumber,
+      chequeDate,
+      chequeBookId,
       allocations = [],
     } = req.body;
 
@@ -143,6 +165,18 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'Vendor, payment date, and amount are required' });
     }
 
+    // A foreign currency payment is entered in its own currency and settles bills in that currency
+    const currency = await resolveDocumentCurrency(
+      db,
+      req.companyId!,
+      currencyCode,
+      paymentDate,
+      exchangeRate ? parseFloat(exchangeRate) : null
+    );
+    if (!currency) {
+      return res.status(400).json({ error: `No ${currencyCode} exchange rate on or before ${paymentDate}; enter the rate of the payment` });
+    }
+
     // Get current fiscal year
     const fiscalYear = await db.query.fiscalYears.findFirst({
       where: and(
@@ -155,133 +189,181 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate payment number
-    const lastPayment = await db.query.paymentsMade.findFirst({
-      where: eq(paymentsMade.companyId, req.companyId!),
-      orderBy: desc(paymentsMade.createdAt),
-    });
-
-    const nextNumber = lastPayment
-      ? parseInt(lastPayment.paymentNumber.split('-').pop() || '0', 10) + 1
-      : 1;
-    const paymentNumber = `PM-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
-
-    // Create payment
-    const [payment] = await db.insert(paymentsMade).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      paymentNumber,
-      paymentDate,
-      vendorId,
-      amount: amount.toString(),
-      paymentMethod: paymentMethod || 'bank',
-      referenceNumber,
-      bankAccountId,
-      notes,
-      createdByUserId: req.userId,
-    }).returning();
-
-    // Create allocations and update bills
-    const paymentAmount = parseFloat(amount);
-    let allocatedAmount = 0;
-
-    for (const alloc of allocations) {
-      if (allocatedAmount >= paymentAmount) break;
-
-      const bill = await db.query.bills.findFirst({
-        where: and(
-          eq(bills.id, alloc.billId),
-          eq(bills.companyId, req.companyId!)
-        ),
+    // Create the payment, its cheque, allocations and journal entry in a transaction
+    const payment = await db.transaction(async (tx) => {
+      // Generate payment number
+      const lastPayment = await tx.query.paymentsMade.findFirst({
+        where: eq(paymentsMade.companyId, req.companyId!),
+        orderBy: desc(paymentsMade.createdAt),
       });
 
-      if (!bill) continue;
-
-      const billBalance = parseFloat(bill.balanceDue);
-      const allocAmount = Math.min(parseFloat(alloc.amount), billBalance, paymentAmount - allocatedAmount);
-
-      if (allocAmount <= 0) continue;
-
-      // Create allocation
-      await db.insert(paymentMadeAllocations).values({
-        paymentMadeId: payment.id,
-        billId: alloc.billId,
-        amount: allocAmount.toString(),
-      });
+      const nextNumber = lastPayment
+        ? parseInt(lastPayment.paymentNumber.split('-').pop() || '0', 10) + 1
+        : 1;
+      const paymentNumber = `PM-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
+
+      const enteredAmount = parseFloat(amount);
+      const baseAmount = currency.currencyCode ? toBase(enteredAmount, currency.exchangeRate) : enteredAmount;
+
+      // A cheque with its number entered goes into the cheque register; registering it
+      // first checks it before anything is saved
+      let cheque: Cheque | null = null;
+      if (paymentMethod === 'cheque' && (chequeNumber || chequeBookId)) {
+        const result = await registerCheque(tx, req.companyId!, req.userId!, {
+          direction: 'issued',
+          bankAccountId: await findPaymentBankAccount(tx, req.companyId!, bankAccountId),
+          chequeBookId,
+          chequeNumber,
+          chequeDate: chequeDate || paymentDate,
+          amount: enteredAmount,
+          partyId: vendorId,
+        });
+        if ('error' in result) {
+          return { error: result.error };
+        }
+        cheque = result.cheque;
+      }
 
-      // Update bill
-      const newPaid = parseFloat(bill.paidAmount || '0') + allocAmount;
-      const newBalance = parseFloat(bill.totalAmount) - newPaid;
+      // Create payment
+      const [created] = await tx.insert(paymentsMade).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        paymentNumber,
+        paymentDate,
+        vendorId,
+        amount: baseAmount.toString(),
+        currencyCode: currency.currencyCode,
+        exchangeRate: currency.exchangeRate.toString(),
+        amountFcy: currency.currencyCode ? enteredAmount.toString() : null,
+        paymentMethod: paymentMethod || 'bank',
+        referenceNumber: cheque?.chequeNumber || referenceNumber,
+        bankAccountId,
+        notes,
+        createdByUserId: req.userId,
+      }).returning();
+
+      if (cheque) {
+        await tx.update(cheques)
+          .set({ paymentMadeId: created.id, updatedAt: new Date() })
+          .where(eq(cheques.id, cheque.id));
+      }
 
-      await db.update(bills)
-        .set({
-          paidAmount: newPaid.toString(),
-          balanceDue: newBalance.toString(),
-          status: newBalance === 0 ? 'paid' : 'partially_paid',
-          updatedAt: new Date(),
-        })
-        .where(eq(bills.id, alloc.billId));
+      // Create allocations and update bills
+      let allocatedAmount = 0;
+      const settlements: Settlement[] = [];
+
+      for (const alloc of allocations) {
+        if (allocatedAmount >= enteredAmount) break;
+
+        const bill = await tx.query.bills.findFirst({
+          where: and(
+            eq(bills.id, alloc.billId),
+            eq(bills.companyId, req.companyId!)
+          ),
+        });
+
+        if (!bill || (bill.currencyCode || null) !== currency.currencyCode) continue;
+
+        // Allocations are in the payment currency
+        const billBalance = parseFloat((currency.currencyCode ? bill.balanceDueFcy : bill.balanceDue) || '0');
+        const allocAmount = Math.min(parseFloat(alloc.amount), billBalance, enteredAmount - allocatedAmount);
+
+        if (allocAmount <= 0) continue;
+
+        const settlement = currency.currencyCode
+          ? settleForeignBalance({
+            balanceDue: parseFloat(bill.balanceDue),
+            balanceDueFcy: billBalance,
+            exchangeRate: parseFloat(bill.exchangeRate || '1'),
+          }, allocAmount, currency.exchangeRate, 'payable')
+          : null;
+        if (settlement) settlements.push(settlement);
+
+        // Create allocation
+        await tx.insert(paymentMadeAllocations).values({
+          paymentMadeId: created.id,
+          billId: alloc.billId,
+          amount: (settlement ? settlement.baseCleared : allocAmount).toString(),
+          amountFcy: settlement ? settlement.amountFcy.toString() : null,
+          exchangeDifference: settlement ? settlement.exchangeDifference.toString() : '0',
+        });
+
+        // Update bill
+        const newPaid = parseFloat(bill.paidAmount || '0') + (settlement ? settlement.baseCleared : allocAmount);
+        const newBalance = parseFloat(bill.totalAmount) - newPaid;
+        const newBalanceFcy = settlement ? billBalance - settlement.amountFcy : 0;
 
-      allocatedAmount += allocAmount;
-    }
+        await tx.update(bills)
+          .set({
+            paidAmount: newPaid.toString(),
+            balanceDue: newBalance.toString(),
+            ...(settlement && {
+              paidAmountFcy: (parseFloat(bill.paidAmountFcy || '0') + settlement.amountFcy).toString(),
+              balanceDueFcy: newBalanceFcy.toString(),
+            }),
+            status: (settlement ? newBalanceFcy : newBalance) === 0 ? 'paid' : 'partially_paid',
+            updatedAt: new Date(),
+          })
+          .where(eq(bills.id, alloc.billId));
 
-    // Create journal entry
-    if (bankAccountId) {
-      const lastEntry = await db.query.journalEntries.findFirst({
-        where: eq(journalEntries.companyId, req.companyId!),
-        orderBy: desc(journalEntries.createdAt),
-      });
+        allocatedAmount += allocAmount;
+      }
 
-      const nextNum = lastEntry
-        ? parseInt(lastEntry.entryNumber.split('/').pop() || '0', 10) + 1
-        : 1;
-      const entryNumber = `PAY/${fiscalYear.name.replace(/\s/g, '')}/${nextNum.toString().padStart(5, '0')}`;
+      // Create journal entry
+      if (bankAccountId) {
+        const forexAccounts = await getForexAccounts(tx, req.companyId!);
 
-      const apAccount = await db.query.chartOfAccounts.findFirst({
-        where: and(
-          eq(chartOfAccounts.companyId, req.companyId!),
-          eq(chartOfAccounts.code, '2100') // Trade Payables
-        ),
-      });
+        if (forexAccounts.payablesAccountId) {
+          const entryNumber = await allocateDocumentNumber(tx, req.companyId!, 'journal_entry', fiscalYear, { type: 'PAY' });
 
-      if (apAccount) {
-        const [je] = await db.insert(journalEntries).values({
-          companyId: req.companyId!,
-          fiscalYearId: fiscalYear.id,
-          entryNumber,
-          entryDate: paymentDate,
-          entryType: 'auto_payment',
-          narration: `Payment made - ${paymentNumber}`,
-          totalDebit: amount.toString(),
-          totalCredit: amount.toString(),
-          status: 'posted',
-          createdByUserId: req.userId,
-        }).returning();
-
-        await db.insert(journalEntryLines).values([
-          {
-            journalEntryId: je.id,
-            accountId: apAccount.id,
-            debitAmount: amount.toString(),
-            creditAmount: '0',
-            partyType: 'vendor' as const,
+          const lines = settlementJournalLines({
+            side: 'payable',
+            bankAccountId,
+            controlAccountId: forexAccounts.payablesAccountId,
+            partyType: 'vendor',
             partyId: vendorId,
-            description: `Payment made - ${paymentNumber}`,
-          },
-          {
-            journalEntryId: je.id,
-            accountId: bankAccountId,
-            debitAmount: '0',
-            creditAmount: amount.toString(),
-            description: `Payment - ${referenceNumber || paymentNumber}`,
-          },
-        ]);
-
-        // Update payment with journal entry
-        await db.update(paymentsMade)
-          .set({ journalEntryId: je.id })
-          .where(eq(paymentsMade.id, payment.id));
+            currencyCode: currency.currencyCode,
+            paymentRate: currency.exchangeRate,
+            amountFcy: enteredAmount,
+            baseAmount,
+            settlements,
+            accounts: forexAccounts,
+            descriptions: {
+              bank: `Payment - ${referenceNumber || paymentNumber}`,
+              party: `Payment made - ${paymentNumber}`,
+              exchange: `Exchange difference - ${paymentNumber}`,
+            },
+          });
+          const total = lines.reduce((sum, line) => sum + parseFloat(line.debitAmount), 0).toFixed(2);
+
+          const [je] = await tx.insert(journalEntries).values({
+            companyId: req.companyId!,
+            fiscalYearId: fiscalYear.id,
+            entryNumber,
+            entryDate: paymentDate,
+            entryType: 'auto_payment',
+            narration: `Payment made - ${paymentNumber}`,
+            totalDebit: total,
+            totalCredit: total,
+            status: 'posted',
+            createdByUserId: req.userId,
+          }).returning();
+
+          await tx.insert(journalEntryLines).values(lines.map(line => ({ journalEntryId: je.id, ...line })));
+          await refreshPeriodBalances(tx, req.companyId!, [je]);
+
+          // Update payment with journal entry
+          await tx.update(paymentsMade)
+            .set({ journalEntryId: je.id })
+            .where(eq(paymentsMade.id, created.id));
+        }
       }
+
+      return created;
+    });
+
+    if ('error' in payment) {
+      return res.status(400).json({ error: payment.error });
     }
 
     // Fetch complete payment
@@ -297,6 +379,13 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       },
     });
 
+    webhookEvents.paymentMade(req.companyId!, completePayment);
+    for (const allocation of completePayment?.allocations || []) {
+      if (allocation.bill?.status === 'paid') {
+        webhookEvents.billPaid(req.companyId!, allocation.bill);
+      }
+    }
+
     res.status(201).json(completePayment);
   } catch (error) {
     console.error('Create payment made error:', error);
@@ -323,32 +412,56 @@ router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) =>
       return res.status(404).json({ error: 'Payment not found' });
     }
 
-    // Reverse allocations on bills
-    for (const alloc of payment.allocations) {
-      const bill = await db.query.bills.findFirst({
-        where: eq(bills.id, alloc.billId),
-      });
-
-      if (bill) {
-        const newPaid = Math.max(0, parseFloat(bill.paidAmount || '0') - parseFloat(alloc.amount));
-        const newBalance = parseFloat(bill.totalAmount) - newPaid;
+    const [matchGroup] = await db.select({ id: bankMatchGroups.id })
+      .from(bankMatchGroups)
+      .where(eq(bankMatchGroups.paymentMadeId, id));
+    if (matchGroup) {
+      return res.status(400).json({ error: 'This payment was matched from bank statement lines; undo the match in Bank Feeds instead' });
+    }
 
-        await db.update(bills)
-          .set({
-            paidAmount: newPaid.toString(),
-            balanceDue: newBalance.toString(),
-            status: newBalance === parseFloat(bill.totalAmount) ? 'pending' : 'partially_paid',
-            updatedAt: new Date(),
-          })
-          .where(eq(bills.id, alloc.billId));
+    await db.transaction(async (tx) => {
+      // Reverse allocations on bills
+      for (const alloc of payment.allocations) {
+        const bill = await tx.query.bills.findFirst({
+          where: eq(bills.id, alloc.billId),
+        });
+
+        if (bill) {
+          const newPaid = Math.max(0, parseFloat(bill.paidAmount || '0') - parseFloat(alloc.amount));
+          const newBalance = parseFloat(bill.totalAmount) - newPaid;
+          const newPaidFcy = Math.max(0, parseFloat(bill.paidAmountFcy || '0') - parseFloat(alloc.amountFcy || '0'));
+
+          await tx.update(bills)
+            .set({
+              paidAmount: newPaid.toString(),
+              balanceDue: newBalance.toString(),
+              ...(bill.currencyCode && {
+                paidAmountFcy: newPaidFcy.toString(),
+                balanceDueFcy: (parseFloat(bill.totalAmountFcy || '0') - newPaidFcy).toString(),
+              }),
+              status: newBalance === parseFloat(bill.totalAmount) ? 'pending' : 'partially_paid',
+              updatedAt: new Date(),
+            })
+            .where(eq(bills.id, alloc.billId));
+        }
       }
-    }
 
-    // Delete allocations
-    await db.delete(paymentMadeAllocations).where(eq(paymentMadeAllocations.paymentMadeId, id));
+      // Delete allocations
+      await tx.delete(paymentMadeAllocations).where(eq(paymentMadeAllocations.paymentMadeId, id));
 
-    // Delete payment
-    await db.delete(paymentsMade).where(eq(paymentsMade.id, id));
+      // Its cheque stays in the register
+      await tx.update(cheques)
+        .set({ paymentMadeId: null, updatedAt: new Date() })
+        .where(eq(cheques.paymentMadeId, id));
+
+      // Bank lines matched to it are open again
+      await tx.update(bankFeedTransactions)
+        .set({ reconciliationStatus: 'pending', matchedPaymentMadeId: null })
+        .where(eq(bankFeedTransactions.matchedPaymentMadeId, id));
+
+      // Delete payment
+      await tx.delete(paymentsMade).where(eq(paymentsMade.id, id));
+    });
 
     res.json({ message: 'Payment deleted and allocations reversed' });
   } catch (error) {
@@ -1,8 +1,20 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { paymentsReceived, paymentAllocations, fiscalYears, invoices, journalEntries, journalEntryLines, chartOfAccounts } from '@shared/schema';
+import { paymentsReceived, paymentAllocations, fiscalYears, invoices, journalEntries, journalEntryLines, cheques, bankMatchGroups, bankFeedTransactions, type Cheque } from '@shared/schema';
 import { eq, and, desc, gte, lte } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { webhookEvents } from '../services/integrations/webhookDispatcher';
+import { allocateDocumentNumber } from '../services/numbering';
+import { refreshPeriodBalances } from '../services/ledger';
+import {
+  resolveDocumentCurrency,
+  settleForeignBalance,
+  settlementJournalLines,
+  getForexAccounts,
+  toBase,
+  type Settlement,
+} from '../services/forex';
+import { findPaymentBankAccount, registerCheque } from '../services/cheques';
 
 const router = Router();
 
@@ -46,6 +58,9 @@ router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       customerId: p.customerId,
       customerName: p.customer?.name || 'Unknown',
       amount: p.amount,
+      currencyCode: p.currencyCode,
+      exchangeRate: p.exchangeRate,
+      amountFcy: p.amountFcy,
       paymentMethod: p.paymentMethod,
       referenceNumber: p.referenceNumber,
       bankAccountName: p.bankAccount?.bankName,
@@ -54,6 +69,8 @@ router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
         invoiceId: a.invoiceId,
         invoiceNumber: a.invoice?.invoiceNumber,
         amount: a.amount,
+        amountFcy: a.amountFcy,
+        exchangeDifference: a.exchangeDifference,
       })),
     }));
 
@@ -136,6 +153,11 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       referenceNumber,
       bankAccountId,
       notes,
+      currencyCode,
+      exchangeRate,
+      chequeNumber,
+      chequeDate,
+      drawerBankName,
       allocations = [],
     } = req.body;
 
@@ -143,6 +165,18 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'Customer, payment date, and amount are required' });
     }
 
+    // A foreign currency payment is entered in its own currency and settles invoices in that currency
+    const currency = await resolveDocumentCurrency(
+      db,
+      req.companyId!,
+      currencyCode,
+      paymentDate,
+      exchangeRate ? parseFloat(exchangeRate) : null
+    );
+    if (!currency) {
+      return res.status(400).json({ error: `No ${currencyCode} exchange rate on or before ${paymentDate}; enter the rate of the payment` });
+    }
+
     // Get current fiscal year
     const fiscalYear = await db.query.fiscalYears.findFirst({
       where: and(
@@ -155,133 +189,181 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate payment number
-    const lastPayment = await db.query.paymentsReceived.findFirst({
-      where: eq(paymentsReceived.companyId, req.companyId!),
-      orderBy: desc(paymentsReceived.createdAt),
-    });
-
-    const nextNumber = lastPayment
-      ? parseInt(lastPayment.paymentNumber.split('-').pop() || '0', 10) + 1
-      : 1;
-    const paymentNumber = `PR-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
-
-    // Create payment
-    const [payment] = await db.insert(paymentsReceived).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      paymentNumber,
-      paymentDate,
-      customerId,
-      amount: amount.toString(),
-      paymentMethod: paymentMethod || 'bank',
-      referenceNumber,
-      bankAccountId,
-      notes,
-      createdByUserId: req.userId,
-    }).returning();
-
-    // Create allocations and update invoices
-    const paymentAmount = parseFloat(amount);
-    let allocatedAmount = 0;
-
-    for (const alloc of allocations) {
-      if (allocatedAmount >= paymentAmount) break;
-
-      const invoice = await db.query.invoices.findFirst({
-        where: and(
-          eq(invoices.id, alloc.invoiceId),
-          eq(invoices.companyId, req.companyId!)
-        ),
+    // Create the payment, its cheque, allocations and journal entry in a transaction
+    const payment = await db.transaction(async (tx) => {
+      // Generate payment number
+      const lastPayment = await tx.query.paymentsReceived.findFirst({
+        where: eq(paymentsReceived.companyId, req.companyId!),
+        orderBy: desc(paymentsReceived.createdAt),
       });
 
-      if (!invoice) continue;
-
-      const invoiceBalance = parseFloat(invoice.balanceDue);
-      const allocAmount = Math.min(parseFloat(alloc.amount), invoiceBalance, paymentAmount - allocatedAmount);
-
-      if (allocAmount <= 0) continue;
-
-      // Create allocation
-      await db.insert(paymentAllocations).values({
-        paymentReceivedId: payment.id,
-        invoiceId: alloc.invoiceId,
-        amount: allocAmount.toString(),
-      });
+      const nextNumber = lastPayment
+        ? parseInt(lastPayment.paymentNumber.split('-').pop() || '0', 10) + 1
+        : 1;
+      const paymentNumber = `PR-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
+
+      const enteredAmount = parseFloat(amount);
+      const baseAmount = currency.currencyCode ? toBase(enteredAmount, currency.exchangeRate) : enteredAmount;
+
+      // A cheque with its number entered goes into the cheque register; registering it
+      // first checks it before anything is saved
+      let cheque: Cheque | null = null;
+      if (paymentMethod === 'cheque' && chequeNumber) {
+        const result = await registerCheque(tx, req.companyId!, req.userId!, {
+          direction: 'received',
+          bankAccountId: await findPaymentBankAccount(tx, req.companyId!, bankAccountId),
+          drawerBankName,
+          chequeNumber,
+          chequeDate: chequeDate || paymentDate,
+          amount: enteredAmount,
+          partyId: customerId,
+        });
+        if ('error' in result) {
+          return { error: result.error };
+        }
+        cheque = result.cheque;
+      }
 
-      // Update invoice
-      const newPaid = parseFloat(invoice.paidAmount || '0') + allocAmount;
-      const newBalance = parseFloat(invoice.totalAmount) - newPaid;
+      // Create payment
+      const [created] = await tx.insert(paymentsReceived).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        paymentNumber,
+        paymentDate,
+        customerId,
+        amount: baseAmount.toString(),
+        currencyCode: currency.currencyCode,
+        exchangeRate: currency.exchangeRate.toString(),
+        amountFcy: currency.currencyCode ? enteredAmount.toString() : null,
+        paymentMethod: paymentMethod || 'bank',
+        referenceNumber: cheque?.chequeNumber || referenceNumber,
+        bankAccountId,
+        notes,
+        createdByUserId: req.userId,
+      }).returning();
+
+      if (cheque) {
+        await tx.update(cheques)
+          .set({ paymentReceivedId: created.id, updatedAt: new Date() })
+          .where(eq(cheques.id, cheque.id));
+      }
 
-      await db.update(invoices)
-        .set({
-          paidAmount: newPaid.toString(),
-          balanceDue: newBalance.toString(),
-          status: newBalance === 0 ? 'paid' : 'partially_paid',
-          updatedAt: new Date(),
-        })
-        .where(eq(invoices.id, alloc.invoiceId));
+      // Create allocations and update invoices
+      let allocatedAmount = 0;
+      const settlements: Settlement[] = [];
+
+      for (const alloc of allocations) {
+        if (allocatedAmount >= enteredAmount) break;
+
+        const invoice = await tx.query.invoices.findFirst({
+          where: and(
+            eq(invoices.id, alloc.invoiceId),
+            eq(invoices.companyId, req.companyId!)
+          ),
+        });
+
+        if (!invoice || (invoice.currencyCode || null) !== currency.currencyCode) continue;
+
+        // Allocations are in the payment currency
+        const invoiceBalance = parseFloat((currency.currencyCode ? invoice.balanceDueFcy : invoice.balanceDue) || '0');
+        const allocAmount = Math.min(parseFloat(alloc.amount), invoiceBalance, enteredAmount - allocatedAmount);
+
+        if (allocAmount <= 0) continue;
+
+        const settlement = currency.currencyCode
+          ? settleForeignBalance({
+            balanceDue: parseFloat(invoice.balanceDue),
+            balanceDueFcy: invoiceBalance,
+            exchangeRate: parseFloat(invoice.exchangeRate || '1'),
+          }, allocAmount, currency.exchangeRate, 'receivable')
+          : null;
+        if (settlement) settlements.push(settlement);
+
+        // Create allocation
+        await tx.insert(paymentAllocations).values({
+          paymentReceivedId: created.id,
+          invoiceId: alloc.invoiceId,
+          amount: (settlement ? settlement.baseCleared : allocAmount).toString(),
+          amountFcy: settlement ? settlement.amountFcy.toString() : null,
+          exchangeDifference: settlement ? settlement.exchangeDifference.toString() : '0',
+        });
+
+        // Update invoice
+        const newPaid = parseFloat(invoice.paidAmount || '0') + (settlement ? settlement.baseCleared : allocAmount);
+        const newBalance = parseFloat(invoice.totalAmount) - newPaid;
+        const newBalanceFcy = settlement ? invoiceBalance - settlement.amountFcy : 0;
 
-      allocatedAmount += allocAmount;
-    }
+        await tx.update(invoices)
+          .set({
+            paidAmount: newPaid.toString(),
+            balanceDue: newBalance.toString(),
+            ...(settlement && {
+              paidAmountFcy: (parseFloat(invoice.paidAmountFcy || '0') + settlement.amountFcy).toString(),
+              balanceDueFcy: newBalanceFcy.toString(),
+            }),
+            status: (settlement ? newBalanceFcy : newBalance) === 0 ? 'paid' : 'partially_paid',
+            updatedAt: new Date(),
+          })
+          .where(eq(invoices.id, alloc.invoiceId));
 
-    // Create journal entry
-    if (bankAccountId) {
-      const lastEntry = await db.query.journalEntries.findFirst({
-        where: eq(journalEntries.companyId, req.companyId!),
-        orderBy: desc(journalEntries.createdAt),
-      });
+        allocatedAmount += allocAmount;
+      }
 
-      const nextNum = lastEntry
-        ? parseInt(lastEntry.entryNumber.split('/').pop() || '0', 10) + 1
-        : 1;
-      const entryNumber = `RCV/${fiscalYear.name.replace(/\s/g, '')}/${nextNum.toString().padStart(5, '0')}`;
+      // Create journal entry
+      if (bankAccountId) {
+        const forexAccounts = await getForexAccounts(tx, req.companyId!);
 
-      const arAccount = await db.query.chartOfAccounts.findFirst({
-        where: and(
-          eq(chartOfAccounts.companyId, req.companyId!),
-          eq(chartOfAccounts.code, '1300') // Trade Receivables
-        ),
-      });
+        if (forexAccounts.receivablesAccountId) {
+          const entryNumber = await allocateDocumentNumber(tx, req.companyId!, 'journal_entry', fiscalYear, { type: 'RCV' });
 
-      if (arAccount) {
-        const [je] = await db.insert(journalEntries).values({
-          companyId: req.companyId!,
-          fiscalYearId: fiscalYear.id,
-          entryNumber,
-          entryDate: paymentDate,
-          entryType: 'auto_payment',
-          narration: `Payment received - ${paymentNumber}`,
-          totalDebit: amount.toString(),
-          totalCredit: amount.toString(),
-          status: 'posted',
-          createdByUserId: req.userId,
-        }).returning();
-
-        await db.insert(journalEntryLines).values([
-          {
-            journalEntryId: je.id,
-            accountId: bankAccountId,
-            debitAmount: amount.toString(),
-            creditAmount: '0',
-            description: `Payment - ${referenceNumber || paymentNumber}`,
-          },
-          {
-            journalEntryId: je.id,
-            accountId: arAccount.id,
-            debitAmount: '0',
-            creditAmount: amount.toString(),
-            partyType: 'customer' as const,
+          const lines = settlementJournalLines({
+            side: 'receivable',
+            bankAccountId,
+            controlAccountId: forexAccounts.receivablesAccountId,
+            partyType: 'customer',
             partyId: customerId,
-            description: `Payment received - ${paymentNumber}`,
-          },
-        ]);
-
-        // Update payment with journal entry
-        await db.update(paymentsReceived)
-          .set({ journalEntryId: je.id })
-          .where(eq(paymentsReceived.id, payment.id));
+            currencyCode: currency.currencyCode,
+            paymentRate: currency.exchangeRate,
+            amountFcy: enteredAmount,
+            baseAmount,
+            settlements,
+            accounts: forexAccounts,
+            descriptions: {
+              bank: `Payment - ${referenceNumber || paymentNumber}`,
+              party: `Payment received - ${paymentNumber}`,
+              exchange: `Exchange difference - ${paymentNumber}`,
+            },
+          });
+          const total = lines.reduce((sum, line) => sum + parseFloat(line.debitAmount), 0).toFixed(2);
+
+          const [je] = await tx.insert(journalEntries).values({
+            companyId: req.companyId!,
+            fiscalYearId: fiscalYear.id,
+            entryNumber,
+            entryDate: paymentDate,
+            entryType: 'auto_payment',
+            narration: `Payment received - ${paymentNumber}`,
+            totalDebit: total,
+            totalCredit: total,
+            status: 'posted',
+            createdByUserId: req.userId,
+          }).returning();
+
+          await tx.insert(journalEntryLines).values(lines.map(line => ({ journalEntryId: je.id, ...line })));
+          await refreshPeriodBalances(tx, req.companyId!, [je]);
+
+          // Update payment with journal entry
+          await tx.update(paymentsReceived)
+            .set({ journalEntryId: je.id })
+            .where(eq(paymentsReceived.id, created.id));
+        }
       }
+
+      return created;
+    });
+
+    if ('error' in payment) {
+      return res.status(400).json({ error: payment.error });
     }
 
     // Fetch complete payment
@@ -297,6 +379,13 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       },
     });
 
+    webhookEvents.paymentReceived(req.companyId!, completePayment);
+    for (const allocation of completePayment?.allocations || []) {
+      if (allocation.invoice?.status === 'paid') {
+        webhookEvents.invoicePaid(req.companyId!, allocation.invoice);
+      }
+    }
+
     res.status(201).json(completePayment);
   } catch (error) {
     console.error('Create payment received error:', error);
@@ -323,32 +412,56 @@ router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) =>
       return res.status(404).json({ error: 'Payment not found' });
     }
 
-    // Reverse allocations on invoices
-    for (const alloc of payment.allocations) {
-      const invoice = await db.query.invoices.findFirst({
-        where: eq(invoices.id, alloc.invoiceId),
-      });
-
-      if (invoice) {
-        const newPaid = Math.max(0, parseFloat(invoice.paidAmount || '0') - parseFloat(alloc.amount));
-        const newBalance = parseFloat(invoice.totalAmount) - newPaid;
+    const [matchGroup] = await db.select({ id: bankMatchGroups.id })
+      .from(bankMatchGroups)
+      .where(eq(bankMatchGroups.paymentReceivedId, id));
+    if (matchGroup) {
+      return res.status(400).json({ error: 'This payment was matched from bank statement lines; undo the match in Bank Feeds instead' });
+    }
 
-        await db.update(invoices)
-          .set({
-            paidAmount: newPaid.toString(),
-            balanceDue: newBalance.toString(),
-            status: newBalance === parseFloat(invoice.totalAmount) ? 'sent' : 'partially_paid',
-            updatedAt: new Date(),
-          })
-          .where(eq(invoices.id, alloc.invoiceId));
+    await db.transaction(async (tx) => {
+      // Reverse allocations on invoices
+      for (const alloc of payment.allocations) {
+        const invoice = await tx.query.invoices.findFirst({
+          where: eq(invoices.id, alloc.invoiceId),
+        });
+
+        if (invoice) {
+          const newPaid = Math.max(0, parseFloat(invoice.paidAmount || '0') - parseFloat(alloc.amount));
+          const newBalance = parseFloat(invoice.totalAmount) - newPaid;
+          const newPaidFcy = Math.max(0, parseFloat(invoice.paidAmountFcy || '0') - parseFloat(alloc.amountFcy || '0'));
+
+          await tx.update(invoices)
+            .set({
+              paidAmount: newPaid.toString(),
+              balanceDue: newBalance.toString(),
+              ...(invoice.currencyCode && {
+                paidAmountFcy: newPaidFcy.toString(),
+                balanceDueFcy: (parseFloat(invoice.totalAmountFcy || '0') - newPaidFcy).toString(),
+              }),
+              status: newBalance === parseFloat(invoice.totalAmount) ? 'sent' : 'partially_paid',
+              updatedAt: new Date(),
+            })
+            .where(eq(invoices.id, alloc.invoiceId));
+        }
       }
-    }
 
-    // Delete allocations
-    await db.delete(paymentAllocations).where(eq(paymentAllocations.paymentReceivedId, id));
+      // Delete allocations
+      await tx.delete(paymentAllocations).where(eq(paymentAllocations.paymentReceivedId, id));
 
-    // Delete payment
-    await db.delete(paymentsReceived).where(eq(paymentsReceived.id, id));
+      // Its cheque stays in the register
+      await tx.update(cheques)
+        .set({ paymentReceivedId: null, updatedAt: new Date() })
+        .where(eq(cheques.paymentReceivedId, id));
+
+      // Bank lines matched to it are open again
+      await tx.update(bankFeedTransactions)
+        .set({ reconciliationStatus: 'pending', matchedPaymentReceivedId: null })
+        .where(eq(bankFeedTransactions.matchedPaymentReceivedId, id));
+
+      // Delete payment
+      await tx.delete(paymentsReceived).where(eq(paymentsReceived.id, id));
+    });
 
     res.json({ message: 'Payment deleted and allocations reversed' });
   } catch (error) {
@@ -6,6 +6,7 @@ import {
 } from '@shared/schema';
 import { eq, and, desc } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { refreshPeriodBalances } from '../services/ledger';
 
 const router = Router();
 
@@ -300,6 +301,7 @@ router.post('/sync/invoices', requireCompany, async (req: AuthenticatedRequest,
         }
 
         await db.insert(journalEntryLines).values(lines);
+        await refreshPeriodBalances(db, req.companyId!, [entry]);
 
         // Log success
         await db.insert(pmSyncLog).values({
@@ -436,6 +438,7 @@ router.post('/sync/payments', requireCompany, async (req: AuthenticatedRequest,
             sortOrder: 1,
           },
         ]);
+        await refreshPeriodBalances(db, req.companyId!, [entry]);
 
         await db.insert(pmSyncLog).values({
           companyId: req.companyId!,
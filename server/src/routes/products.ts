@@ -3,6 +3,7 @@ import { db } from '../db';
 import { products } from '@shared/schema';
 import { eq, and, desc, like, or } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { getStockSummary, getStockValuation, getProductStockMovements, recordStockAdjustment, getStockPeriodError } from '../services/inventory';
 
 const router = Router();
 
@@ -48,6 +49,7 @@ router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       costPrice: p.purchasePrice,
       hsnSacCode: p.hsnSacCode,
       gstRate: p.gstRate || '18',
+      nonGst: p.nonGst,
       unit: p.unit,
       trackInventory: p.type === 'goods',
       currentStock: p.currentStock ? parseFloat(p.currentStock) : 0,
@@ -62,6 +64,40 @@ router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
   }
 });
 
+// Stock summary of goods products for a period
+router.get('/stock-summary', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { from, to } = req.query;
+
+    const summary = await getStockSummary(req.companyId!, {
+      from: from as string | undefined,
+      to: to as string | undefined,
+    });
+
+    res.json(summary);
+  } catch (error) {
+    console.error('Get stock summary error:', error);
+    res.status(500).json({ error: 'Failed to get stock summary' });
+  }
+});
+
+// Get closing stock valuation
+router.get('/stock-valuation', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { asOfDate } = req.query;
+
+    const valuation = await getStockValuation(
+      req.companyId!,
+      (asOfDate as string) || new Date().toISOString().split('T')[0]
+    );
+
+    res.json(valuation);
+  } catch (error) {
+    console.error('Get stock valuation error:', error);
+    res.status(500).json({ error: 'Failed to get stock valuation' });
+  }
+});
+
 // Get product by ID
 router.get('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
@@ -97,9 +133,11 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       costPrice,
       hsnSacCode,
       gstRate,
+      nonGst,
       unit,
       trackInventory,
       reorderLevel,
+      openingStock,
     } = req.body;
 
     if (!name) {
@@ -116,8 +154,12 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       purchasePrice: costPrice,
       hsnSacCode,
       gstRate: gstRate || '18',
+      nonGst: Boolean(nonGst),
       unit: unit || 'nos',
       reorderLevel: trackInventory && reorderLevel ? reorderLevel : null,
+      // The stock ledger starts from the opening stock
+      openingStock: trackInventory && openingStock ? openingStock : '0',
+      currentStock: trackInventory && openingStock ? openingStock : '0',
       isActive: true,
     }).returning();
 
@@ -158,6 +200,7 @@ router.patch('/:id', requireCompany, async (req: AuthenticatedRequest, res) => {
     if (updateData.costPrice !== undefined) dbUpdateData.purchasePrice = updateData.costPrice;
     if (updateData.hsnSacCode !== undefined) dbUpdateData.hsnSacCode = updateData.hsnSacCode;
     if (updateData.gstRate !== undefined) dbUpdateData.gstRate = updateData.gstRate;
+    if (updateData.nonGst !== undefined) dbUpdateData.nonGst = Boolean(updateData.nonGst);
     if (updateData.unit !== undefined) dbUpdateData.unit = updateData.unit;
     if (updateData.reorderLevel !== undefined) dbUpdateData.reorderLevel = updateData.reorderLevel;
     if (updateData.isActive !== undefined) dbUpdateData.isActive = updateData.isActive;
@@ -199,11 +242,32 @@ router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) =>
   }
 });
 
+// Stock movement register of a product
+router.get('/:id/stock-movements', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { from, to } = req.query;
+
+    const register = await getProductStockMovements(req.companyId!, req.params.id, {
+      from: from as string | undefined,
+      to: to as string | undefined,
+    });
+
+    if (!register) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    res.json(register);
+  } catch (error) {
+    console.error('Get stock movements error:', error);
+    res.status(500).json({ error: 'Failed to get stock movements' });
+  }
+});
+
 // Update stock
 router.post('/:id/adjust-stock', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
     const { id } = req.params;
-    const { adjustment, reason } = req.body;
+    const { adjustment, reason, date } = req.body;
 
     const product = await db.query.products.findFirst({
       where: and(
@@ -216,16 +280,27 @@ router.post('/:id/adjust-stock', requireCompany, async (req: AuthenticatedReques
       return res.status(404).json({ error: 'Product not found' });
     }
 
-    const currentStock = parseFloat(product.currentStock || '0');
-    const newStock = currentStock + parseFloat(adjustment);
+    const quantity = parseFloat(adjustment);
+    if (isNaN(quantity) || quantity === 0) {
+      return res.status(400).json({ error: 'Adjustment must be a non-zero number' });
+    }
 
-    const [updated] = await db.update(products)
-      .set({
-        currentStock: newStock.toString(),
-        updatedAt: new Date(),
-      })
-      .where(eq(products.id, id))
-      .returning();
+    const stockPeriodError = await getStockPeriodError(db, req.companyId!, date || new Date().toISOString().split('T')[0]);
+    if (stockPeriodError) {
+      return res.status(400).json({ error: stockPeriodError });
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      await recordStockAdjustment(tx, req.companyId!, id, quantity, {
+        date,
+        notes: reason,
+        userId: req.userId,
+      });
+
+      return await tx.query.products.findFirst({
+        where: eq(products.id, id),
+      });
+    });
 
     res.json(updated);
   } catch (error) {
@@ -3,6 +3,7 @@ import { db } from '../db';
 import { purchaseOrders, purchaseOrderLines, fiscalYears, bills, billLines } from '@shared/schema';
 import { eq, and, desc, asc, gte, lte } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { allocateDocumentNumber, releaseDocumentNumber } from '../services/numbering';
 
 const router = Router();
 
@@ -118,17 +119,6 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate order number
-    const lastOrder = await db.query.purchaseOrders.findFirst({
-      where: eq(purchaseOrders.companyId, req.companyId!),
-      orderBy: desc(purchaseOrders.createdAt),
-    });
-
-    const nextNumber = lastOrder
-      ? parseInt(lastOrder.orderNumber.split('-').pop() || '0', 10) + 1
-      : 1;
-    const orderNumber = `PO-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
-
     // Calculate totals
     let subtotal = 0;
     let totalTax = 0;
@@ -164,33 +154,38 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
 
     const totalAmount = subtotal + totalTax;
 
-    // Create purchase order
-    const [order] = await db.insert(purchaseOrders).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      orderNumber,
-      orderDate,
-      expectedDate,
-      vendorId,
-      subtotal: subtotal.toString(),
-      taxAmount: totalTax.toString(),
-      cgst: totalCgst.toString(),
-      sgst: totalSgst.toString(),
-      totalAmount: totalAmount.toString(),
-      status: 'draft',
-      notes,
-      createdByUserId: req.userId,
-    }).returning();
-
-    // Create line items
-    if (processedLines.length > 0) {
-      await db.insert(purchaseOrderLines).values(
-        processedLines.map((line: any) => ({
-          purchaseOrderId: order.id,
-          ...line,
-        }))
-      );
-    }
+    // Create purchase order and line items in a transaction
+    const order = await db.transaction(async (tx) => {
+      const orderNumber = await allocateDocumentNumber(tx, req.companyId!, 'purchase_order', fiscalYear);
+
+      const [created] = await tx.insert(purchaseOrders).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        orderNumber,
+        orderDate,
+        expectedDate,
+        vendorId,
+        subtotal: subtotal.toString(),
+        taxAmount: totalTax.toString(),
+        cgst: totalCgst.toString(),
+        sgst: totalSgst.toString(),
+        totalAmount: totalAmount.toString(),
+        status: 'draft',
+        notes,
+        createdByUserId: req.userId,
+      }).returning();
+
+      if (processedLines.length > 0) {
+        await tx.insert(purchaseOrderLines).values(
+          processedLines.map((line: any) => ({
+            purchaseOrderId: created.id,
+            ...line,
+          }))
+        );
+      }
+
+      return created;
+    });
 
     // Fetch complete order
     const completeOrder = await db.query.purchaseOrders.findFirst({
@@ -356,67 +351,62 @@ router.post('/:id/convert-to-bill', requireCompany, async (req: AuthenticatedReq
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate bill number
-    const lastBill = await db.query.bills.findFirst({
-      where: eq(bills.companyId, req.companyId!),
-      orderBy: desc(bills.createdAt),
-    });
-
-    const nextNumber = lastBill
-      ? parseInt(lastBill.billNumber.split('-').pop() || '0', 10) + 1
-      : 1;
-    const billNumber = `BILL-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
-
     const today = new Date().toISOString().split('T')[0];
     const dueDate = new Date(new Date().getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
-    // Create bill
-    const [bill] = await db.insert(bills).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      billNumber,
-      billDate: today,
-      dueDate,
-      vendorId: order.vendorId,
-      subtotal: order.subtotal,
-      taxAmount: order.taxAmount,
-      cgst: order.cgst,
-      sgst: order.sgst,
-      igst: order.igst,
-      totalAmount: order.totalAmount,
-      paidAmount: '0',
-      balanceDue: order.totalAmount,
-      status: 'pending',
-      notes: order.notes,
-      createdByUserId: req.userId,
-    }).returning();
-
-    // Copy line items
-    if (order.lines.length > 0) {
-      await db.insert(billLines).values(
-        order.lines.map((line) => ({
-          billId: bill.id,
-          productId: line.productId,
-          description: line.description,
-          hsnSacCode: line.hsnSacCode,
-          quantity: line.quantity,
-          unitPrice: line.unitPrice,
-          taxRate: line.taxRate,
-          taxAmount: line.taxAmount,
-          amount: line.amount,
-          sortOrder: line.sortOrder,
-        }))
-      );
-    }
-
-    // Update order
-    await db.update(purchaseOrders)
-      .set({
-        convertedToBillId: bill.id,
-        status: 'received',
-        updatedAt: new Date(),
-      })
-      .where(eq(purchaseOrders.id, id));
+    // Create the bill and close the order in a transaction
+    const bill = await db.transaction(async (tx) => {
+      const billNumber = await allocateDocumentNumber(tx, req.companyId!, 'bill', fiscalYear);
+
+      const [created] = await tx.insert(bills).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        billNumber,
+        billDate: today,
+        dueDate,
+        vendorId: order.vendorId,
+        subtotal: order.subtotal,
+        taxAmount: order.taxAmount,
+        cgst: order.cgst,
+        sgst: order.sgst,
+        igst: order.igst,
+        totalAmount: order.totalAmount,
+        paidAmount: '0',
+        balanceDue: order.totalAmount,
+        status: 'pending',
+        notes: order.notes,
+        createdByUserId: req.userId,
+      }).returning();
+
+      // Copy line items
+      if (order.lines.length > 0) {
+        await tx.insert(billLines).values(
+          order.lines.map((line) => ({
+            billId: created.id,
+            productId: line.productId,
+            description: line.description,
+            hsnSacCode: line.hsnSacCode,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            taxRate: line.taxRate,
+            taxAmount: line.taxAmount,
+            amount: line.amount,
+            sortOrder: line.sortOrder,
+          }))
+        );
+      }
+
+      // Update order
+      await tx.update(purchaseOrders)
+        .set({
+          convertedToBillId: created.id,
+          status: 'received',
+          updatedAt: new Date(),
+        })
+        .where(eq(purchaseOrders.id, id));
+
+      return created;
+    });
 
     res.json(bill);
   } catch (error) {
@@ -489,6 +479,7 @@ router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) =>
 
     await db.delete(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, id));
     await db.delete(purchaseOrders).where(eq(purchaseOrders.id, id));
+    await releaseDocumentNumber(db, req.companyId!, 'purchase_order', order.fiscalYearId, order.orderNumber);
 
     res.json({ message: 'Purchase order deleted' });
   } catch (error) {
@@ -3,6 +3,8 @@ import { db } from '../db';
 import { quotes, quoteLines, fiscalYears, parties, invoices, invoiceLines, salesOrders, salesOrderLines } from '@shared/schema';
 import { eq, and, desc, asc, gte, lte } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { webhookEvents } from '../services/integrations/webhookDispatcher';
+import { allocateDocumentNumber, releaseDocumentNumber } from '../services/numbering';
 
 const router = Router();
 
@@ -118,17 +120,6 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate quote number
-    const lastQuote = await db.query.quotes.findFirst({
-      where: eq(quotes.companyId, req.companyId!),
-      orderBy: desc(quotes.createdAt),
-    });
-
-    const nextNumber = lastQuote
-      ? parseInt(lastQuote.quoteNumber.split('-').pop() || '0', 10) + 1
-      : 1;
-    const quoteNumber = `QT-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
-
     // Calculate totals
     let subtotal = 0;
     let totalTax = 0;
@@ -166,34 +157,39 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
     // Calculate valid until (default 30 days if not provided)
     const validUntil = expiryDate || new Date(new Date(quoteDate).getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
-    // Create quote
-    const [quote] = await db.insert(quotes).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      quoteNumber,
-      quoteDate,
-      validUntil,
-      customerId,
-      subtotal: subtotal.toString(),
-      taxAmount: totalTax.toString(),
-      cgst: totalCgst.toString(),
-      sgst: totalSgst.toString(),
-      totalAmount: totalAmount.toString(),
-      status: 'draft',
-      notes,
-      terms,
-      createdByUserId: req.userId,
-    }).returning();
-
-    // Create line items
-    if (processedLines.length > 0) {
-      await db.insert(quoteLines).values(
-        processedLines.map((line: any) => ({
-          quoteId: quote.id,
-          ...line,
-        }))
-      );
-    }
+    // Create quote and line items in a transaction
+    const quote = await db.transaction(async (tx) => {
+      const quoteNumber = await allocateDocumentNumber(tx, req.companyId!, 'quote', fiscalYear);
+
+      const [created] = await tx.insert(quotes).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        quoteNumber,
+        quoteDate,
+        validUntil,
+        customerId,
+        subtotal: subtotal.toString(),
+        taxAmount: totalTax.toString(),
+        cgst: totalCgst.toString(),
+        sgst: totalSgst.toString(),
+        totalAmount: totalAmount.toString(),
+        status: 'draft',
+        notes,
+        terms,
+        createdByUserId: req.userId,
+      }).returning();
+
+      if (processedLines.length > 0) {
+        await tx.insert(quoteLines).values(
+          processedLines.map((line: any) => ({
+            quoteId: created.id,
+            ...line,
+          }))
+        );
+      }
+
+      return created;
+    });
 
     // Fetch complete quote with relations
     const completeQuote = await db.query.quotes.findFirst({
@@ -204,6 +200,8 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       },
     });
 
+    webhookEvents.quoteCreated(req.companyId!, completeQuote);
+
     res.status(201).json(completeQuote);
   } catch (error) {
     console.error('Create quote error:', error);
@@ -336,6 +334,8 @@ router.post('/:id/send', requireCompany, async (req: AuthenticatedRequest, res)
       .where(eq(quotes.id, id))
       .returning();
 
+    webhookEvents.quoteSent(req.companyId!, updated);
+
     res.json(updated);
   } catch (error) {
     console.error('Send quote error:', error);
@@ -371,6 +371,8 @@ router.post('/:id/accept', requireCompany, async (req: AuthenticatedRequest, res
       .where(eq(quotes.id, id))
       .returning();
 
+    webhookEvents.quoteAccepted(req.companyId!, updated);
+
     res.json(updated);
   } catch (error) {
     console.error('Accept quote error:', error);
@@ -450,70 +452,67 @@ router.post('/:id/convert-to-invoice', requireCompany, async (req: Authenticated
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate invoice number
-    const lastInvoice = await db.query.invoices.findFirst({
-      where: eq(invoices.companyId, req.companyId!),
-      orderBy: desc(invoices.createdAt),
-    });
-
-    const nextNumber = lastInvoice
-      ? parseInt(lastInvoice.invoiceNumber.split('-').pop() || '0', 10) + 1
-      : 1;
-    const invoiceNumber = `INV-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
-
-    // Create invoice
     const today = new Date().toISOString().split('T')[0];
     const dueDate = new Date(new Date().getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
-    const [invoice] = await db.insert(invoices).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      invoiceNumber,
-      invoiceDate: today,
-      dueDate,
-      customerId: quote.customerId,
-      billingAddress: quote.billingAddress,
-      shippingAddress: quote.shippingAddress,
-      subtotal: quote.subtotal,
-      taxAmount: quote.taxAmount,
-      cgst: quote.cgst,
-      sgst: quote.sgst,
-      igst: quote.igst,
-      totalAmount: quote.totalAmount,
-      balanceDue: quote.totalAmount,
-      status: 'draft',
-      notes: quote.notes,
-      terms: quote.terms,
-      createdByUserId: req.userId,
-    }).returning();
-
-    // Copy line items
-    if (quote.lines.length > 0) {
-      await db.insert(invoiceLines).values(
-        quote.lines.map((line) => ({
-          invoiceId: invoice.id,
-          description: line.description,
-          hsnSacCode: line.hsnSacCode,
-          quantity: line.quantity,
-          unitPrice: line.unitPrice,
-          discountPercent: line.discountPercent,
-          discountAmount: line.discountAmount,
-          taxRate: line.taxRate,
-          taxAmount: line.taxAmount,
-          amount: line.amount,
-          sortOrder: line.sortOrder,
-        }))
-      );
-    }
+    // Create the invoice and close the quote in a transaction
+    const invoice = await db.transaction(async (tx) => {
+      const invoiceNumber = await allocateDocumentNumber(tx, req.companyId!, 'invoice', fiscalYear);
+
+      const [created] = await tx.insert(invoices).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        invoiceNumber,
+        invoiceDate: today,
+        dueDate,
+        customerId: quote.customerId,
+        billingAddress: quote.billingAddress,
+        shippingAddress: quote.shippingAddress,
+        subtotal: quote.subtotal,
+        taxAmount: quote.taxAmount,
+        cgst: quote.cgst,
+        sgst: quote.sgst,
+        igst: quote.igst,
+        totalAmount: quote.totalAmount,
+        balanceDue: quote.totalAmount,
+        status: 'draft',
+        notes: quote.notes,
+        terms: quote.terms,
+        createdByUserId: req.userId,
+      }).returning();
+
+      // Copy line items
+      if (quote.lines.length > 0) {
+        await tx.insert(invoiceLines).values(
+          quote.lines.map((line) => ({
+            invoiceId: created.id,
+            description: line.description,
+            hsnSacCode: line.hsnSacCode,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            discountPercent: line.discountPercent,
+            discountAmount: line.discountAmount,
+            taxRate: line.taxRate,
+            taxAmount: line.taxAmount,
+            amount: line.amount,
+            sortOrder: line.sortOrder,
+          }))
+        );
+      }
+
+      // Update quote status
+      await tx.update(quotes)
+        .set({
+          status: 'converted',
+          convertedToInvoiceId: created.id,
+          updatedAt: new Date(),
+        })
+        .where(eq(quotes.id, id));
+
+      return created;
+    });
 
-    // Update quote status
-    await db.update(quotes)
-      .set({
-        status: 'converted',
-        convertedToInvoiceId: invoice.id,
-        updatedAt: new Date(),
-      })
-      .where(eq(quotes.id, id));
+    webhookEvents.invoiceCreated(req.companyId!, invoice);
 
     res.json(invoice);
   } catch (error) {
@@ -563,17 +562,6 @@ router.post('/:id/convert-to-order', requireCompany, async (req: AuthenticatedRe
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate order number
-    const lastOrder = await db.query.salesOrders.findFirst({
-      where: eq(salesOrders.companyId, req.companyId!),
-      orderBy: desc(salesOrders.createdAt),
-    });
-
-    const nextNumber = lastOrder
-      ? parseInt(lastOrder.orderNumber.split('-').pop() || '0', 10) + 1
-      : 1;
-    const orderNumber = `SO-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
-
     const today = new Date().toISOString().split('T')[0];
 
     // Create sales order with PO/Engagement Letter reference in notes
@@ -584,54 +572,61 @@ router.post('/:id/convert-to-order', requireCompany, async (req: AuthenticatedRe
 
     const orderNotes = [referenceNotes, quote.notes].filter(Boolean).join('\n\n');
 
-    const [order] = await db.insert(salesOrders).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      orderNumber,
-      orderDate: today,
-      customerId: quote.customerId,
-      quoteId: quote.id,
-      billingAddress: quote.billingAddress,
-      shippingAddress: quote.shippingAddress,
-      subtotal: quote.subtotal,
-      taxAmount: quote.taxAmount,
-      cgst: quote.cgst,
-      sgst: quote.sgst,
-      igst: quote.igst,
-      totalAmount: quote.totalAmount,
-      status: 'confirmed',
-      notes: orderNotes || null,
-      createdByUserId: req.userId,
-    }).returning();
-
-    // Copy line items
-    if (quote.lines.length > 0) {
-      await db.insert(salesOrderLines).values(
-        quote.lines.map((line) => ({
-          salesOrderId: order.id,
-          productId: line.productId,
-          description: line.description,
-          hsnSacCode: line.hsnSacCode,
-          quantity: line.quantity,
-          unitPrice: line.unitPrice,
-          discountPercent: line.discountPercent,
-          discountAmount: line.discountAmount,
-          taxRate: line.taxRate,
-          taxAmount: line.taxAmount,
-          amount: line.amount,
-          sortOrder: line.sortOrder,
-        }))
-      );
-    }
-
-    // Update quote status
-    await db.update(quotes)
-      .set({
-        status: 'converted',
-        convertedToOrderId: order.id,
-        updatedAt: new Date(),
-      })
-      .where(eq(quotes.id, id));
+    // Create the sales order and close the quote in a transaction
+    const order = await db.transaction(async (tx) => {
+      const orderNumber = await allocateDocumentNumber(tx, req.companyId!, 'sales_order', fiscalYear);
+
+      const [created] = await tx.insert(salesOrders).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        orderNumber,
+        orderDate: today,
+        customerId: quote.customerId,
+        quoteId: quote.id,
+        billingAddress: quote.billingAddress,
+        shippingAddress: quote.shippingAddress,
+        subtotal: quote.subtotal,
+        taxAmount: quote.taxAmount,
+        cgst: quote.cgst,
+        sgst: quote.sgst,
+        igst: quote.igst,
+        totalAmount: quote.totalAmount,
+        status: 'confirmed',
+        notes: orderNotes || null,
+        createdByUserId: req.userId,
+      }).returning();
+
+      // Copy line items
+      if (quote.lines.length > 0) {
+        await tx.insert(salesOrderLines).values(
+          quote.lines.map((line) => ({
+            salesOrderId: created.id,
+            productId: line.productId,
+            description: line.description,
+            hsnSacCode: line.hsnSacCode,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            discountPercent: line.discountPercent,
+            discountAmount: line.discountAmount,
+            taxRate: line.taxRate,
+            taxAmount: line.taxAmount,
+            amount: line.amount,
+            sortOrder: line.sortOrder,
+          }))
+        );
+      }
+
+      // Update quote status
+      await tx.update(quotes)
+        .set({
+          status: 'converted',
+          convertedToOrderId: created.id,
+          updatedAt: new Date(),
+        })
+        .where(eq(quotes.id, id));
+
+      return created;
+    });
 
     res.json(order);
   } catch (error) {
@@ -663,6 +658,7 @@ router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) =>
 
     await db.delete(quoteLines).where(eq(quoteLines.quoteId, id));
     await db.delete(quotes).where(eq(quotes.id, id));
+    await releaseDocumentNumber(db, req.companyId!, 'quote', quote.fiscalYearId, quote.quoteNumber);
 
     res.json({ message: 'Quote deleted' });
   } catch (error) {
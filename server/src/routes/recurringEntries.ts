@@ -6,6 +6,8 @@ import {
 } from '@shared/schema';
 import { eq, and, lte, sql, desc } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { processDueRecurringEntries, getNextRunDate } from '../services/recurringEntries';
+import { allocateDocumentNumber } from '../services/numbering';
 
 const router = Router();
 
@@ -182,89 +184,62 @@ router.post('/:id/generate', requireCompany, async (req: AuthenticatedRequest, r
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate entry number
-    const lastEntry = await db.query.journalEntries.findFirst({
-      where: and(
-        eq(journalEntries.companyId, req.companyId!),
-        eq(journalEntries.fiscalYearId, fiscalYear.id)
-      ),
-      orderBy: desc(journalEntries.entryNumber),
-    });
-
-    const lastNum = lastEntry?.entryNumber
-      ? parseInt(lastEntry.entryNumber.split('/').pop() || '0')
-      : 0;
-    const entryNumber = `REC/${fiscalYear.name}/${String(lastNum + 1).padStart(4, '0')}`;
-
     const templateLines = template.templateLines as any[];
     const totalDebit = templateLines.reduce((sum, l) => sum + (l.debitAmount || 0), 0);
     const totalCredit = templateLines.reduce((sum, l) => sum + (l.creditAmount || 0), 0);
 
-    // Create journal entry
-    const [entry] = await db.insert(journalEntries).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      entryNumber,
-      entryDate: entryDate || template.nextRunDate,
-      postingDate: entryDate || template.nextRunDate,
-      entryType: 'recurring',
-      narration: template.narration || template.name,
-      totalDebit,
-      totalCredit,
-      sourceType: 'recurring',
-      sourceId: template.id,
-      status: 'draft',
-      createdByUserId: req.userId!,
-    }).returning();
-
-    // Create journal entry lines
-    for (const line of templateLines) {
-      await db.insert(journalEntryLines).values({
-        journalEntryId: entry.id,
-        accountId: line.accountId,
-        debitAmount: line.debitAmount || 0,
-        creditAmount: line.creditAmount || 0,
-        partyId: line.partyId || null,
-        description: line.description || '',
-      });
-    }
-
     // Calculate next run date based on frequency
-    const currentDate = new Date(template.nextRunDate);
-    let nextDate = new Date(currentDate);
-
-    switch (template.frequency) {
-      case 'daily':
-        nextDate.setDate(nextDate.getDate() + 1);
-        break;
-      case 'weekly':
-        nextDate.setDate(nextDate.getDate() + 7);
-        break;
-      case 'monthly':
-        nextDate.setMonth(nextDate.getMonth() + 1);
-        break;
-      case 'quarterly':
-        nextDate.setMonth(nextDate.getMonth() + 3);
-        break;
-      case 'yearly':
-        nextDate.setFullYear(nextDate.getFullYear() + 1);
-        break;
-    }
+    const nextRunDate = getNextRunDate(template.nextRunDate || entryDate, template.frequency);
+
+    // Create the entry and move the template on in a transaction
+    const entry = await db.transaction(async (tx) => {
+      const entryNumber = await allocateDocumentNumber(tx, req.companyId!, 'journal_entry', fiscalYear, { type: 'REC' });
+
+      const [created] = await tx.insert(journalEntries).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        entryNumber,
+        entryDate: entryDate || template.nextRunDate,
+        postingDate: entryDate || template.nextRunDate,
+        entryType: 'recurring',
+        narration: template.narration || template.name,
+        totalDebit,
+        totalCredit,
+        sourceType: 'recurring',
+        sourceId: template.id,
+        status: 'draft',
+        createdByUserId: req.userId!,
+      }).returning();
+
+      // Create journal entry lines
+      for (const line of templateLines) {
+        await tx.insert(journalEntryLines).values({
+          journalEntryId: created.id,
+          accountId: line.accountId,
+          debitAmount: line.debitAmount || 0,
+          creditAmount: line.creditAmount || 0,
+          partyId: line.partyId || null,
+          description: line.description || '',
+        });
+      }
 
-    // Update template with next run date and last run date
-    await db
-      .update(recurringEntryTemplates)
-      .set({
-        nextRunDate: nextDate.toISOString().split('T')[0],
-        lastRunAt: new Date(),
-      })
-      .where(eq(recurringEntryTemplates.id, template.id));
+      // Update template with next run date and last run date
+      await tx
+        .update(recurringEntryTemplates)
+        .set({
+          nextRunDate,
+          lastRunAt: new Date(),
+        })
+        .where(eq(recurringEntryTemplates.id, template.id));
+
+      return created;
+    });
 
     res.json({
       success: true,
       entryId: entry.id,
       entryNumber: entry.entryNumber,
-      nextRunDate: nextDate.toISOString().split('T')[0],
+      nextRunDate,
     });
   } catch (error) {
     console.error('Generate entry error:', error);
@@ -295,131 +270,12 @@ router.get('/due/list', requireCompany, async (req: AuthenticatedRequest, res) =
 // Process all due templates
 router.post('/process-due', requireCompany, async (req: AuthenticatedRequest, res) => {
   try {
-    const today = new Date().toISOString().split('T')[0];
-
-    const dueTemplates = await db.query.recurringEntryTemplates.findMany({
-      where: and(
-        eq(recurringEntryTemplates.companyId, req.companyId!),
-        eq(recurringEntryTemplates.isActive, true),
-        lte(recurringEntryTemplates.nextRunDate, today)
-      ),
+    const result = await processDueRecurringEntries({
+      companyId: req.companyId!,
+      userId: req.userId!,
     });
 
-    const results: Array<{ templateId: string; templateName: string; entryId?: string; error?: string }> = [];
-
-    for (const template of dueTemplates) {
-      try {
-        // Get current fiscal year
-        const fiscalYear = await db.query.fiscalYears.findFirst({
-          where: and(
-            eq(fiscalYears.companyId, req.companyId!),
-            eq(fiscalYears.isCurrent, true)
-          ),
-        });
-
-        if (!fiscalYear) continue;
-
-        // Generate entry number
-        const lastEntry = await db.query.journalEntries.findFirst({
-          where: and(
-            eq(journalEntries.companyId, req.companyId!),
-            eq(journalEntries.fiscalYearId, fiscalYear.id)
-          ),
-          orderBy: desc(journalEntries.entryNumber),
-        });
-
-        const lastNum = lastEntry?.entryNumber
-          ? parseInt(lastEntry.entryNumber.split('/').pop() || '0')
-          : 0;
-        const entryNumber = `REC/${fiscalYear.name}/${String(lastNum + 1).padStart(4, '0')}`;
-
-        const templateLines = template.templateLines as any[];
-        const totalDebit = templateLines.reduce((sum, l) => sum + (l.debitAmount || 0), 0);
-        const totalCredit = templateLines.reduce((sum, l) => sum + (l.creditAmount || 0), 0);
-
-        // Create journal entry
-        const [entry] = await db.insert(journalEntries).values({
-          companyId: req.companyId!,
-          fiscalYearId: fiscalYear.id,
-          entryNumber,
-          entryDate: template.nextRunDate,
-          postingDate: template.nextRunDate,
-          entryType: 'recurring',
-          narration: template.narration || template.name,
-          totalDebit,
-          totalCredit,
-          sourceType: 'recurring',
-          sourceId: template.id,
-          status: 'draft',
-          createdByUserId: req.userId!,
-        }).returning();
-
-        // Create journal entry lines
-        for (const line of templateLines) {
-          await db.insert(journalEntryLines).values({
-            journalEntryId: entry.id,
-            accountId: line.accountId,
-            debitAmount: line.debitAmount || 0,
-            creditAmount: line.creditAmount || 0,
-            partyId: line.partyId || null,
-            description: line.description || '',
-          });
-        }
-
-        // Calculate next run date
-        const currentDate = new Date(template.nextRunDate);
-        let nextDate = new Date(currentDate);
-
-        switch (template.frequency) {
-          case 'daily':
-            nextDate.setDate(nextDate.getDate() + 1);
-            break;
-          case 'weekly':
-            nextDate.setDate(nextDate.getDate() + 7);
-            break;
-          case 'monthly':
-            nextDate.setMonth(nextDate.getMonth() + 1);
-            break;
-          case 'quarterly':
-            nextDate.setMonth(nextDate.getMonth() + 3);
-            break;
-          case 'yearly':
-            nextDate.setFullYear(nextDate.getFullYear() + 1);
-            break;
-        }
-
-        // Check if end date is reached
-        const shouldDeactivate = template.endDate && nextDate > new Date(template.endDate);
-
-        // Update template
-        await db
-          .update(recurringEntryTemplates)
-          .set({
-            nextRunDate: nextDate.toISOString().split('T')[0],
-            lastRunAt: new Date(),
-            isActive: !shouldDeactivate,
-          })
-          .where(eq(recurringEntryTemplates.id, template.id));
-
-        results.push({
-          templateId: template.id,
-          templateName: template.name,
-          entryId: entry.id,
-        });
-      } catch (err) {
-        results.push({
-          templateId: template.id,
-          templateName: template.name,
-          error: 'Failed to process',
-        });
-      }
-    }
-
-    res.json({
-      processed: results.filter(r => r.entryId).length,
-      failed: results.filter(r => r.error).length,
-      results,
-    });
+    res.json(result);
   } catch (error) {
     console.error('Process due templates error:', error);
     res.status(500).json({ error: 'Failed to process due templates' });
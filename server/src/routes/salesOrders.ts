@@ -3,6 +3,8 @@ import { db } from '../db';
 import { salesOrders, salesOrderLines, fiscalYears, invoices, invoiceLines } from '@shared/schema';
 import { eq, and, desc, asc, gte, lte } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import { webhookEvents } from '../services/integrations/webhookDispatcher';
+import { allocateDocumentNumber, releaseDocumentNumber } from '../services/numbering';
 
 const router = Router();
 
@@ -119,17 +121,6 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate order number
-    const lastOrder = await db.query.salesOrders.findFirst({
-      where: eq(salesOrders.companyId, req.companyId!),
-      orderBy: desc(salesOrders.createdAt),
-    });
-
-    const nextNumber = lastOrder
-      ? parseInt(lastOrder.orderNumber.split('-').pop() || '0', 10) + 1
-      : 1;
-    const orderNumber = `SO-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
-
     // Calculate totals
     let subtotal = 0;
     let totalTax = 0;
@@ -165,33 +156,38 @@ router.post('/', requireCompany, async (req: AuthenticatedRequest, res) => {
 
     const totalAmount = subtotal + totalTax;
 
-    // Create sales order
-    const [order] = await db.insert(salesOrders).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      orderNumber,
-      orderDate,
-      expectedDeliveryDate,
-      customerId,
-      subtotal: subtotal.toString(),
-      taxAmount: totalTax.toString(),
-      cgst: totalCgst.toString(),
-      sgst: totalSgst.toString(),
-      totalAmount: totalAmount.toString(),
-      status: 'draft',
-      notes,
-      createdByUserId: req.userId,
-    }).returning();
-
-    // Create line items
-    if (processedLines.length > 0) {
-      await db.insert(salesOrderLines).values(
-        processedLines.map((line: any) => ({
-          salesOrderId: order.id,
-          ...line,
-        }))
-      );
-    }
+    // Create sales order and line items in a transaction
+    const order = await db.transaction(async (tx) => {
+      const orderNumber = await allocateDocumentNumber(tx, req.companyId!, 'sales_order', fiscalYear);
+
+      const [created] = await tx.insert(salesOrders).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        orderNumber,
+        orderDate,
+        expectedDeliveryDate,
+        customerId,
+        subtotal: subtotal.toString(),
+        taxAmount: totalTax.toString(),
+        cgst: totalCgst.toString(),
+        sgst: totalSgst.toString(),
+        totalAmount: totalAmount.toString(),
+        status: 'draft',
+        notes,
+        createdByUserId: req.userId,
+      }).returning();
+
+      if (processedLines.length > 0) {
+        await tx.insert(salesOrderLines).values(
+          processedLines.map((line: any) => ({
+            salesOrderId: created.id,
+            ...line,
+          }))
+        );
+      }
+
+      return created;
+    });
 
     // Fetch complete order
     const completeOrder = await db.query.salesOrders.findFirst({
@@ -357,68 +353,65 @@ router.post('/:id/convert-to-invoice', requireCompany, async (req: Authenticated
       return res.status(400).json({ error: 'No active fiscal year found' });
     }
 
-    // Generate invoice number
-    const lastInvoice = await db.query.invoices.findFirst({
-      where: eq(invoices.companyId, req.companyId!),
-      orderBy: desc(invoices.createdAt),
-    });
-
-    const nextNumber = lastInvoice
-      ? parseInt(lastInvoice.invoiceNumber.split('-').pop() || '0', 10) + 1
-      : 1;
-    const invoiceNumber = `INV-${fiscalYear.name.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
-
     const today = new Date().toISOString().split('T')[0];
     const dueDate = new Date(new Date().getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
-    // Create invoice
-    const [invoice] = await db.insert(invoices).values({
-      companyId: req.companyId!,
-      fiscalYearId: fiscalYear.id,
-      invoiceNumber,
-      invoiceDate: today,
-      dueDate,
-      customerId: order.customerId,
-      billingAddress: order.billingAddress,
-      shippingAddress: order.shippingAddress,
-      subtotal: order.subtotal,
-      taxAmount: order.taxAmount,
-      cgst: order.cgst,
-      sgst: order.sgst,
-      igst: order.igst,
-      totalAmount: order.totalAmount,
-      balanceDue: order.totalAmount,
-      status: 'draft',
-      notes: order.notes,
-      createdByUserId: req.userId,
-    }).returning();
-
-    // Copy line items
-    if (order.lines.length > 0) {
-      await db.insert(invoiceLines).values(
-        order.lines.map((line) => ({
-          invoiceId: invoice.id,
-          description: line.description,
-          hsnSacCode: line.hsnSacCode,
-          quantity: line.quantity,
-          unitPrice: line.unitPrice,
-          discountPercent: line.discountPercent,
-          discountAmount: line.discountAmount,
-          taxRate: line.taxRate,
-          taxAmount: line.taxAmount,
-          amount: line.amount,
-          sortOrder: line.sortOrder,
-        }))
-      );
-    }
+    // Create the invoice and link the order in a transaction
+    const invoice = await db.transaction(async (tx) => {
+      const invoiceNumber = await allocateDocumentNumber(tx, req.companyId!, 'invoice', fiscalYear);
+
+      const [created] = await tx.insert(invoices).values({
+        companyId: req.companyId!,
+        fiscalYearId: fiscalYear.id,
+        invoiceNumber,
+        invoiceDate: today,
+        dueDate,
+        customerId: order.customerId,
+        billingAddress: order.billingAddress,
+        shippingAddress: order.shippingAddress,
+        subtotal: order.subtotal,
+        taxAmount: order.taxAmount,
+        cgst: order.cgst,
+        sgst: order.sgst,
+        igst: order.igst,
+        totalAmount: order.totalAmount,
+        balanceDue: order.totalAmount,
+        status: 'draft',
+        notes: order.notes,
+        createdByUserId: req.userId,
+      }).returning();
+
+      // Copy line items
+      if (order.lines.length > 0) {
+        await tx.insert(invoiceLines).values(
+          order.lines.map((line) => ({
+            invoiceId: created.id,
+            description: line.description,
+            hsnSacCode: line.hsnSacCode,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            discountPercent: line.discountPercent,
+            discountAmount: line.discountAmount,
+            taxRate: line.taxRate,
+            taxAmount: line.taxAmount,
+            amount: line.amount,
+            sortOrder: line.sortOrder,
+          }))
+        );
+      }
+
+      // Update order
+      await tx.update(salesOrders)
+        .set({
+          convertedToInvoiceId: created.id,
+          updatedAt: new Date(),
+        })
+        .where(eq(salesOrders.id, id));
+
+      return created;
+    });
 
-    // Update order
-    await db.update(salesOrders)
-      .set({
-        convertedToInvoiceId: invoice.id,
-        updatedAt: new Date(),
-      })
-      .where(eq(salesOrders.id, id));
+    webhookEvents.invoiceCreated(req.companyId!, invoice);
 
     res.json(invoice);
   } catch (error) {
@@ -491,6 +484,7 @@ router.delete('/:id', requireCompany, async (req: AuthenticatedRequest, res) =>
 
     await db.delete(salesOrderLines).where(eq(salesOrderLines.salesOrderId, id));
     await db.delete(salesOrders).where(eq(salesOrders.id, id));
+    await releaseDocumentNumber(db, req.companyId!, 'sales_order', order.fiscalYearId, order.orderNumber);
 
     res.json({ message: 'Sales order deleted' });
   } catch (error) {
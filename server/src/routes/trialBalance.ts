@@ -1,8 +1,15 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { journalEntries, journalEntryLines, chartOfAccounts, trialBalanceCache, fiscalYears } from '@shared/schema';
-import { eq, and, gte, lte, sql, asc } from 'drizzle-orm';
+import { journalEntries, journalEntryLines, chartOfAccounts, fiscalYears } from '@shared/schema';
+import { eq, and, gte, lte, asc } from 'drizzle-orm';
 import { requireCompany, AuthenticatedRequest } from '../middleware/auth';
+import {
+  getAccountBalances,
+  previousDay,
+  rebuildPeriodBalances,
+  checkPeriodBalances,
+} from '../services/ledger';
+import { getCostCenterTrialBalance } from '../services/costCenters';
 
 const router = Router();
 
@@ -61,55 +68,38 @@ router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
       orderBy: asc(chartOfAccounts.code),
     });
 
-    // Get opening balances (entries before startDate in the fiscal year)
-    const openingBalancesQuery = db
-      .select({
-        accountId: journalEntryLines.accountId,
-        debit: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}), 0)`,
-        credit: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount}), 0)`,
-      })
-      .from(journalEntryLines)
-      .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
-      .where(and(
-        eq(journalEntries.companyId, req.companyId!),
-        eq(journalEntries.fiscalYearId, fy.id),
-        eq(journalEntries.status, 'posted'),
-        sql`${journalEntries.entryDate} < ${startDate}`
-      ))
-      .groupBy(journalEntryLines.accountId);
-
-    const openingBalances = await openingBalancesQuery;
-    const openingMap = new Map(openingBalances.map(ob => [ob.accountId, ob]));
+    // Get opening balances (entries before startDate in the fiscal year,
+    // plus the opening entry that carries balances in from the last year)
+    const openingMap = await getAccountBalances(req.companyId!, {
+      fiscalYearId: fy.id,
+      to: previousDay(startDate),
+      openingEntries: 'exclude',
+    });
+    const carriedIn = await getAccountBalances(req.companyId!, {
+      fiscalYearId: fy.id,
+      openingEntries: 'only',
+    });
+    carriedIn.forEach((balance, accountId) => {
+      const opening = openingMap.get(accountId) || { debit: 0, credit: 0 };
+      openingMap.set(accountId, { debit: opening.debit + balance.debit, credit: opening.credit + balance.credit });
+    });
 
     // Get period transactions
-    const periodTransactionsQuery = db
-      .select({
-        accountId: journalEntryLines.accountId,
-        debit: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}), 0)`,
-        credit: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount}), 0)`,
-      })
-      .from(journalEntryLines)
-      .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
-      .where(and(
-        eq(journalEntries.companyId, req.companyId!),
-        eq(journalEntries.fiscalYearId, fy.id),
-        eq(journalEntries.status, 'posted'),
-        gte(journalEntries.entryDate, startDate),
-        lte(journalEntries.entryDate, endDate)
-      ))
-      .groupBy(journalEntryLines.accountId);
-
-    const periodTransactions = await periodTransactionsQuery;
-    const periodMap = new Map(periodTransactions.map(pt => [pt.accountId, pt]));
+    const periodMap = await getAccountBalances(req.companyId!, {
+      fiscalYearId: fy.id,
+      from: startDate,
+      to: endDate,
+      openingEntries: 'exclude',
+    });
 
     // Build trial balance items
     const trialBalanceItems: TrialBalanceItem[] = accounts.map(account => {
-      const opening = openingMap.get(account.id) || { debit: '0', credit: '0' };
-      const period = periodMap.get(account.id) || { debit: '0', credit: '0' };
+      const opening = openingMap.get(account.id) || { debit: 0, credit: 0 };
+      const period = periodMap.get(account.id) || { debit: 0, credit: 0 };
 
       // Add account opening balance
-      let openingDebit = parseFloat(opening.debit);
-      let openingCredit = parseFloat(opening.credit);
+      let openingDebit = opening.debit;
+      let openingCredit = opening.credit;
 
       // Add configured opening balance for the account
       if (account.openingBalance) {
@@ -121,8 +111,8 @@ router.get('/', requireCompany, async (req: AuthenticatedRequest, res) => {
         }
       }
 
-      const periodDebit = parseFloat(period.debit);
-      const periodCredit = parseFloat(period.credit);
+      const periodDebit = period.debit;
+      const periodCredit = period.credit;
 
       // Calculate closing balance
       const netOpening = openingDebit - openingCredit;
@@ -292,22 +282,11 @@ router.get('/summary', requireCompany, async (req: AuthenticatedRequest, res) =>
 
     const endDate = asOfDate as string || fy.endDate;
 
-    const summary = await db
-      .select({
-        accountType: chartOfAccounts.accountType,
-        totalDebit: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}), 0)`,
-        totalCredit: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount}), 0)`,
-      })
-      .from(journalEntryLines)
-      .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
-      .innerJoin(chartOfAccounts, eq(journalEntryLines.accountId, chartOfAccounts.id))
-      .where(and(
-        eq(journalEntries.companyId, req.companyId!),
-        eq(journalEntries.fiscalYearId, fy.id),
-        eq(journalEntries.status, 'posted'),
-        lte(journalEntries.entryDate, endDate)
-      ))
-      .groupBy(chartOfAccounts.accountType);
+    const balances = await getAccountBalances(req.companyId!, { fiscalYearId: fy.id, to: endDate });
+    const accounts = await db.query.chartOfAccounts.findMany({
+      where: eq(chartOfAccounts.companyId, req.companyId!),
+      columns: { id: true, accountType: true },
+    });
 
     const result = {
       asset: { debit: 0, credit: 0, balance: 0 },
@@ -317,13 +296,14 @@ router.get('/summary', requireCompany, async (req: AuthenticatedRequest, res) =>
       expense: { debit: 0, credit: 0, balance: 0 },
     };
 
-    summary.forEach(item => {
-      const type = item.accountType as keyof typeof result;
-      result[type] = {
-        debit: parseFloat(item.totalDebit),
-        credit: parseFloat(item.totalCredit),
-        balance: parseFloat(item.totalDebit) - parseFloat(item.totalCredit),
-      };
+    accounts.forEach(account => {
+      const balance = balances.get(account.id);
+      if (!balance) return;
+
+      const type = result[account.accountType as keyof typeof result];
+      type.debit += balance.debit;
+      type.credit += balance.credit;
+      type.balance = type.debit - type.credit;
     });
 
     // Calculate derived values
@@ -354,4 +334,77 @@ router.get('/summary', requireCompany, async (req: AuthenticatedRequest, res) =>
   }
 });
 
+// Trial balance of the movements tagged to a cost center and those below it
+router.get('/cost-center/:costCenterId', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { fiscalYearId, asOfDate, fromDate } = req.query;
+
+    // Get fiscal year
+    let fy;
+    if (fiscalYearId) {
+      fy = await db.query.fiscalYears.findFirst({
+        where: and(
+          eq(fiscalYears.id, fiscalYearId as string),
+          eq(fiscalYears.companyId, req.companyId!)
+        ),
+      });
+    } else {
+      fy = await db.query.fiscalYears.findFirst({
+        where: and(
+          eq(fiscalYears.companyId, req.companyId!),
+          eq(fiscalYears.isCurrent, true)
+        ),
+      });
+    }
+
+    if (!fy) {
+      return res.status(400).json({ error: 'No fiscal year found' });
+    }
+
+    const trialBalance = await getCostCenterTrialBalance(req.companyId!, req.params.costCenterId, {
+      from: fromDate as string || fy.startDate,
+      to: asOfDate as string || fy.endDate,
+    });
+    if (!trialBalance) {
+      return res.status(404).json({ error: 'Cost center not found' });
+    }
+
+    res.json({
+      fiscalYear: fy,
+      ...trialBalance,
+      isBalanced: Math.abs(trialBalance.totals.debit - trialBalance.totals.credit) < 0.01,
+    });
+  } catch (error) {
+    console.error('Cost center trial balance error:', error);
+    res.status(500).json({ error: 'Failed to calculate cost center trial balance' });
+  }
+});
+
+// Compare stored period balances with the journal lines
+router.get('/consistency', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const mismatches = await checkPeriodBalances(req.companyId!);
+
+    res.json({
+      isConsistent: mismatches.length === 0,
+      mismatches,
+    });
+  } catch (error) {
+    console.error('Period balance check error:', error);
+    res.status(500).json({ error: 'Failed to check period balances' });
+  }
+});
+
+// Recompute stored period balances from the journal lines
+router.post('/rebuild', requireCompany, async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await rebuildPeriodBalances(req.companyId!);
+
+    res.json({ message: 'Period balances rebuilt', ...result });
+  } catch (error) {
+    console.error('Period balance rebuild error:', error);
+    res.status(500).json({ error: 'Failed to rebuild period balances' });
+  }
+});
+
 export default router;
@@ -15,10 +15,16 @@ import {
   tdsDeductions,
   expenses,
   bankFeedTransactions,
+  products,
+  budgets,
+  fiscalYears,
   type SmartAlert,
   type InsertSmartAlert
 } from '../../../../shared/schema';
-import { eq, and, lte, gte, or, sql, lt, gt, isNull } from 'drizzle-orm';
+import { eq, and, lte, gte, or, sql, lt, gt, isNull, isNotNull } from 'drizzle-orm';
+import { isLowStock } from '../inventory';
+import { getBudgetVsActual } from '../budgets';
+import { chequesDueWithin, getUnpresentedCheques } from '../cheques';
 
 type AlertType =
   | 'low_cash'
@@ -30,7 +36,10 @@ type AlertType =
   | 'reconciliation_pending'
   | 'filing_deadline'
   | 'payment_received'
-  | 'unusual_transaction';
+  | 'unusual_transaction'
+  | 'low_stock'
+  | 'budget_overrun'
+  | 'pdc_due';
 
 type AlertSeverity = 'info' | 'warning' | 'critical';
 
@@ -39,13 +48,15 @@ interface AlertConfig {
   expenseMonthlyLimit?: number;
   reconciliationPendingDays?: number;
   overdueReminderDays?: number[];
+  pdcReminderDays?: number;
 }
 
 const DEFAULT_CONFIG: AlertConfig = {
   lowCashThreshold: 50000, // Rs 50,000
   expenseMonthlyLimit: 100000, // Rs 1,00,000
   reconciliationPendingDays: 7,
-  overdueReminderDays: [7, 15, 30]
+  overdueReminderDays: [7, 15, 30],
+  pdcReminderDays: 3
 };
 
 /**
@@ -81,10 +92,22 @@ export async function runAlertChecks(
   const expenseAlert = await checkExpenseLimits(companyId, config.expenseMonthlyLimit);
   if (expenseAlert) newAlerts.push(expenseAlert);
 
+  // Check expenses against active budgets
+  const budgetAlerts = await checkBudgetOverruns(companyId);
+  newAlerts.push(...budgetAlerts);
+
+  // Check post-dated cheques falling due
+  const chequeAlerts = await checkPostDatedCheques(companyId, config.pdcReminderDays);
+  newAlerts.push(...chequeAlerts);
+
   // Check pending reconciliation
   const reconciliationAlert = await checkPendingReconciliation(companyId, config.reconciliationPendingDays);
   if (reconciliationAlert) newAlerts.push(reconciliationAlert);
 
+  // Check stock against reorder levels
+  const lowStockAlerts = await checkLowStock(companyId);
+  newAlerts.push(...lowStockAlerts);
+
   return newAlerts;
 }
 
@@ -438,6 +461,146 @@ async function checkExpenseLimits(
   return null;
 }
 
+/**
+ * Checks expense lines of active budgets for the current fiscal year whose
+ * actuals to date exceed the budget phased to date
+ */
+async function checkBudgetOverruns(companyId: string): Promise<SmartAlert[]> {
+  const alerts: SmartAlert[] = [];
+  const today = new Date().toISOString().split('T')[0];
+
+  const fiscalYear = await db.query.fiscalYears.findFirst({
+    where: and(
+      eq(fiscalYears.companyId, companyId),
+      eq(fiscalYears.isCurrent, true)
+    ),
+  });
+
+  if (!fiscalYear) {
+    return alerts;
+  }
+
+  const activeBudgets = await db.query.budgets.findMany({
+    where: and(
+      eq(budgets.companyId, companyId),
+      eq(budgets.fiscalYearId, fiscalYear.id),
+      eq(budgets.isActive, true)
+    ),
+    with: {
+      fiscalYear: true,
+      lines: {
+        with: { account: true, costCenter: true },
+      },
+    },
+  });
+
+  for (const budget of activeBudgets) {
+    const report = await getBudgetVsActual(companyId, budget, { to: today });
+
+    for (const line of report.lines) {
+      if (line.accountType !== 'expense' || line.budget <= 0 || line.actual <= line.budget) {
+        continue;
+      }
+
+      // Check for existing alert
+      const existingAlert = await db.select()
+        .from(smartAlerts)
+        .where(and(
+          eq(smartAlerts.companyId, companyId),
+          eq(smartAlerts.alertType, 'budget_overrun'),
+          eq(smartAlerts.entityId, line.id),
+          eq(smartAlerts.isDismissed, false),
+          gte(smartAlerts.createdAt, new Date(Date.now() - 7 * 24 * 60 * 60 * 1000))
+        ))
+        .limit(1);
+
+      if (existingAlert.length > 0) {
+        continue;
+      }
+
+      const lineName = line.costCenter ? `${line.accountName} (${line.costCenter.name})` : line.accountName;
+      const overAnnual = line.actual > line.annualBudget;
+
+      const [alert] = await db.insert(smartAlerts)
+        .values({
+          companyId,
+          alertType: 'budget_overrun',
+          severity: overAnnual ? 'critical' : 'warning',
+          title: `${lineName} is over budget`,
+          message: overAnnual
+            ? `${lineName} has spent Rs. ${line.actual.toLocaleString('en-IN')}, above its annual budget of Rs. ${line.annualBudget.toLocaleString('en-IN')} in ${budget.name}.`
+            : `${lineName} has spent Rs. ${line.actual.toLocaleString('en-IN')} against a budget to date of Rs. ${line.budget.toLocaleString('en-IN')} (${line.percentConsumed}%) in ${budget.name}.`,
+          data: { budgetId: budget.id, budgetLineId: line.id, budget: line.budget, actual: line.actual, annualBudget: line.annualBudget, percentConsumed: line.percentConsumed },
+          entityType: 'budget_line',
+          entityId: line.id,
+          actionUrl: '/budgets',
+          actionLabel: 'View Budget'
+        })
+        .returning();
+
+      alerts.push(alert);
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Checks for cheques not yet presented whose date is near or past: received
+ * ones to deposit, issued ones to keep funds for
+ */
+async function checkPostDatedCheques(companyId: string, days: number = 3): Promise<SmartAlert[]> {
+  const alerts: SmartAlert[] = [];
+  const today = new Date().toISOString().split('T')[0];
+
+  const unpresented = await getUnpresentedCheques(companyId);
+  const due = chequesDueWithin(unpresented.map(row => ({ ...row, status: row.cheque.status, chequeDate: row.cheque.chequeDate })), today, days);
+
+  for (const { cheque, partyName, bankName } of due) {
+    // One reminder a cheque until it is dismissed
+    const existingAlert = await db.select()
+      .from(smartAlerts)
+      .where(and(
+        eq(smartAlerts.companyId, companyId),
+        eq(smartAlerts.alertType, 'pdc_due'),
+        eq(smartAlerts.entityId, cheque.id),
+        eq(smartAlerts.isDismissed, false)
+      ))
+      .limit(1);
+
+    if (existingAlert.length > 0) {
+      continue;
+    }
+
+    const amount = parseFloat(cheque.amount).toLocaleString('en-IN');
+    const party = partyName || cheque.payeeName || 'the party';
+    const received = cheque.direction === 'received';
+
+    const [alert] = await db.insert(smartAlerts)
+      .values({
+        companyId,
+        alertType: 'pdc_due',
+        severity: cheque.chequeDate <= today ? 'warning' : 'info',
+        title: received
+          ? `Deposit cheque ${cheque.chequeNumber} from ${party}`
+          : `Cheque ${cheque.chequeNumber} to ${party} falls due`,
+        message: received
+          ? `Cheque ${cheque.chequeNumber} from ${party} for Rs. ${amount} is dated ${cheque.chequeDate}. Deposit it on or after that date.`
+          : `Cheque ${cheque.chequeNumber} to ${party} for Rs. ${amount} is dated ${cheque.chequeDate}. Keep funds in ${bankName || 'the bank account'} to meet it.`,
+        data: { chequeId: cheque.id, chequeNumber: cheque.chequeNumber, direction: cheque.direction, amount: cheque.amount, chequeDate: cheque.chequeDate },
+        entityType: 'cheque',
+        entityId: cheque.id,
+        actionUrl: '/cheques',
+        actionLabel: 'View Cheques'
+      })
+      .returning();
+
+    alerts.push(alert);
+  }
+
+  return alerts;
+}
+
 /**
  * Checks for pending bank reconciliation
  */
@@ -492,6 +655,66 @@ async function checkPendingReconciliation(
   return null;
 }
 
+/**
+ * Checks goods products that have fallen to or below their reorder level
+ */
+async function checkLowStock(companyId: string): Promise<SmartAlert[]> {
+  const alerts: SmartAlert[] = [];
+
+  const stockedProducts = await db.select()
+    .from(products)
+    .where(and(
+      eq(products.companyId, companyId),
+      eq(products.type, 'goods'),
+      eq(products.isActive, true),
+      isNotNull(products.reorderLevel)
+    ));
+
+  for (const product of stockedProducts) {
+    const currentStock = parseFloat(product.currentStock || '0');
+    const reorderLevel = parseFloat(product.reorderLevel!);
+
+    if (!isLowStock(currentStock, reorderLevel)) {
+      continue;
+    }
+
+    // Check for existing alert
+    const existingAlert = await db.select()
+      .from(smartAlerts)
+      .where(and(
+        eq(smartAlerts.companyId, companyId),
+        eq(smartAlerts.alertType, 'low_stock'),
+        eq(smartAlerts.entityId, product.id),
+        eq(smartAlerts.isDismissed, false),
+        gte(smartAlerts.createdAt, new Date(Date.now() - 3 * 24 * 60 * 60 * 1000))
+      ))
+      .limit(1);
+
+    if (existingAlert.length > 0) {
+      continue;
+    }
+
+    const [alert] = await db.insert(smartAlerts)
+      .values({
+        companyId,
+        alertType: 'low_stock',
+        severity: currentStock <= 0 ? 'critical' : 'warning',
+        title: currentStock <= 0 ? `${product.name} is out of stock` : `${product.name} is running low`,
+        message: `Stock of ${product.name} is ${currentStock}${product.unit ? ` ${product.unit}` : ''}, at or below the reorder level of ${reorderLevel}.`,
+        data: { productId: product.id, productName: product.name, currentStock, reorderLevel },
+        entityType: 'product',
+        entityId: product.id,
+        actionUrl: '/products',
+        actionLabel: 'View Products'
+      })
+      .returning();
+
+    alerts.push(alert);
+  }
+
+  return alerts;
+}
+
 /**
  * Creates a new alert manually
  */
@@ -0,0 +1,293 @@
+/**
+ * Approval Engine
+ *
+ * Maker-checker control for journal entries, expenses and bills. Each
+ * company sets approval policies by amount threshold, accounts touched and
+ * journal entry type; a document that meets a policy waits in an approval
+ * request until someone other than its maker, in one of the policy's
+ * approver roles, approves or rejects it.
+ */
+
+import type { DbClient } from '../../db';
+import {
+  approvalPolicies,
+  approvalRequests,
+  journalEntries,
+  expenses,
+  bills,
+  journalEntryTypeEnum,
+  type ApprovalPolicy,
+  type ApprovalRequest,
+} from '../../../../shared/schema';
+import { PERMISSION_MATRIX } from '../../../../shared/permissions';
+import { eq, and, ne, asc, desc, inArray } from 'drizzle-orm';
+
+export type ApprovalDocumentType = 'journal_entry' | 'expense' | 'bill';
+
+export const APPROVAL_DOCUMENT_TYPES: ApprovalDocumentType[] = ['journal_entry', 'expense', 'bill'];
+
+// Only roles that can write accounting documents can approve them
+export const APPROVER_ROLES: string[] = PERMISSION_MATRIX.accounting.write;
+
+export interface ApprovalDocument {
+  documentType: ApprovalDocumentType;
+  documentId: string;
+  documentNumber?: string | null;
+  amount: number;
+  // Every account the document posts to
+  accountIds: string[];
+  // Journal entries only
+  entryType?: string | null;
+  description?: string | null;
+}
+
+export interface ApprovalPolicyInput {
+  documentType?: string;
+  name?: string;
+  minAmount?: number | null;
+  accountIds?: string[];
+  entryTypes?: string[];
+  approverRoles?: string[];
+}
+
+type PolicyConditions = Pick<ApprovalPolicy, 'documentType' | 'minAmount' | 'accountIds' | 'entryTypes' | 'isActive'>;
+
+const documentLabels: Record<ApprovalDocumentType, string> = {
+  journal_entry: 'journal entry',
+  expense: 'expense',
+  bill: 'bill',
+};
+
+/**
+ * Whether a document meets every condition of a policy. Conditions left
+ * empty match any document, so a policy without conditions covers every
+ * document of its type.
+ */
+export function policyMatches(policy: PolicyConditions, document: Omit<ApprovalDocument, 'documentId'>): boolean {
+  if (!policy.isActive || policy.documentType !== document.documentType) return false;
+  if (policy.minAmount !== null && document.amount < parseFloat(policy.minAmount)) return false;
+
+  const accountIds = policy.accountIds as string[];
+  if (accountIds.length > 0 && !document.accountIds.some(id => accountIds.includes(id))) return false;
+
+  const entryTypes = policy.entryTypes as string[];
+  if (document.documentType === 'journal_entry' && entryTypes.length > 0 && !entryTypes.includes(document.entryType || '')) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Reason a user cannot decide an approval request, or null when they can.
+ * Neither the user who submitted the document nor the one who created it
+ * may decide it.
+ */
+export function approvalBlocker(
+  request: Pick<ApprovalRequest, 'documentType' | 'requestedByUserId'>,
+  approverRoles: string[],
+  approver: { userId: string; role: string | null | undefined },
+  documentCreatedByUserId?: string | null
+): string | null {
+  const label = documentLabels[request.documentType];
+  if (request.requestedByUserId === approver.userId) {
+    return `A ${label} must be approved by someone other than the person who submitted it`;
+  }
+  if (documentCreatedByUserId === approver.userId) {
+    return `A ${label} must be approved by someone other than the person who created it`;
+  }
+  if (!approver.role || !approverRoles.includes(approver.role)) {
+    return `Your role cannot approve this ${label}`;
+  }
+  return null;
+}
+
+/**
+ * Reason a policy cannot be saved, or null when it can
+ */
+export function validateApprovalPolicy(input: ApprovalPolicyInput): string | null {
+  if (!input.documentType || !APPROVAL_DOCUMENT_TYPES.includes(input.documentType as ApprovalDocumentType)) {
+    return 'Document type must be journal_entry, expense or bill';
+  }
+  if (!input.name?.trim()) return 'Name is required';
+  if (input.minAmount !== undefined && input.minAmount !== null && (!Number.isFinite(input.minAmount) || input.minAmount < 0)) {
+    return 'Minimum amount must be zero or more';
+  }
+  if (input.entryTypes?.length && input.documentType !== 'journal_entry') {
+    return 'Entry types apply only to journal entry policies';
+  }
+  const unknownType = input.entryTypes?.find(type => !(journalEntryTypeEnum.enumValues as string[]).includes(type));
+  if (unknownType) return `Unknown entry type: ${unknownType}`;
+  if (!input.approverRoles?.length) return 'At least one approver role is required';
+  if (input.approverRoles.some(role => !APPROVER_ROLES.includes(role))) {
+    return `Approvers must have one of these roles: ${APPROVER_ROLES.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * The first active policy, oldest first, that the document meets
+ */
+export async function findApplicablePolicy(
+  client: DbClient,
+  companyId: string,
+  document: Omit<ApprovalDocument, 'documentId'>
+): Promise<ApprovalPolicy | null> {
+  const policies = await client.query.approvalPolicies.findMany({
+    where: and(
+      eq(approvalPolicies.companyId, companyId),
+      eq(approvalPolicies.documentType, document.documentType),
+      eq(approvalPolicies.isActive, true)
+    ),
+    orderBy: [asc(approvalPolicies.createdAt)],
+  });
+  return policies.find(policy => policyMatches(policy, document)) || null;
+}
+
+/**
+ * Cancels the document's open approval requests, e.g. when it is deleted
+ */
+export async function cancelApprovalRequests(
+  client: DbClient,
+  companyId: string,
+  documentType: ApprovalDocumentType,
+  documentId: string
+) {
+  await client.update(approvalRequests)
+    .set({ status: 'cancelled', updatedAt: new Date() })
+    .where(and(
+      eq(approvalRequests.companyId, companyId),
+      eq(approvalRequests.documentType, documentType),
+      eq(approvalRequests.documentId, documentId),
+      eq(approvalRequests.status, 'pending')
+    ));
+}
+
+/**
+ * Opens an approval request for the document, replacing any still open
+ */
+export async function requestApproval(
+  client: DbClient,
+  companyId: string,
+  document: ApprovalDocument,
+  policy: ApprovalPolicy,
+  userId: string | undefined
+): Promise<ApprovalRequest> {
+  await cancelApprovalRequests(client, companyId, document.documentType, document.documentId);
+
+  const [request] = await client.insert(approvalRequests).values({
+    companyId,
+    policyId: policy.id,
+    documentType: document.documentType,
+    documentId: document.documentId,
+    documentNumber: document.documentNumber,
+    amount: document.amount.toFixed(2),
+    description: document.description,
+    status: 'pending',
+    requestedByUserId: userId,
+  }).returning();
+
+  return request;
+}
+
+export async function getPendingApproval(
+  client: DbClient,
+  companyId: string,
+  documentType: ApprovalDocumentType,
+  documentId: string
+) {
+  return client.query.approvalRequests.findFirst({
+    where: and(
+      eq(approvalRequests.companyId, companyId),
+      eq(approvalRequests.documentType, documentType),
+      eq(approvalRequests.documentId, documentId),
+      eq(approvalRequests.status, 'pending')
+    ),
+    with: { policy: true },
+  });
+}
+
+/**
+ * The document's most recent request that was not cancelled, to show who
+ * approved it or why it was rejected
+ */
+export async function getLatestApproval(
+  client: DbClient,
+  companyId: string,
+  documentType: ApprovalDocumentType,
+  documentId: string
+) {
+  return client.query.approvalRequests.findFirst({
+    where: and(
+      eq(approvalRequests.companyId, companyId),
+      eq(approvalRequests.documentType, documentType),
+      eq(approvalRequests.documentId, documentId),
+      ne(approvalRequests.status, 'cancelled')
+    ),
+    with: {
+      policy: true,
+      requestedBy: { columns: { id: true, firstName: true, lastName: true } },
+      decidedBy: { columns: { id: true, firstName: true, lastName: true } },
+    },
+    orderBy: [desc(approvalRequests.createdAt)],
+  });
+}
+
+/**
+ * Who created each requested document, by document id, for approvalBlocker
+ */
+export async function getDocumentCreators(
+  client: DbClient,
+  requests: Pick<ApprovalRequest, 'documentType' | 'documentId'>[]
+): Promise<Map<string, string | null>> {
+  const idsOf = (type: ApprovalDocumentType) =>
+    requests.filter(request => request.documentType === type).map(request => request.documentId);
+  const tables = { journal_entry: journalEntries, expense: expenses, bill: bills };
+  const creators = new Map<string, string | null>();
+
+  for (const type of APPROVAL_DOCUMENT_TYPES) {
+    const ids = idsOf(type);
+    if (ids.length === 0) continue;
+    const table = tables[type];
+    const rows = await client.select({ id: table.id, createdByUserId: table.createdByUserId })
+      .from(table)
+      .where(inArray(table.id, ids));
+    for (const row of rows) creators.set(row.id, row.createdByUserId);
+  }
+  return creators;
+}
+
+/**
+ * Roles that can decide a request. A request whose policy has since been
+ * deleted falls back to every approver role.
+ */
+export function requestApproverRoles(request: { policy: ApprovalPolicy | null }): string[] {
+  return request.policy ? (request.policy.approverRoles as string[]) : APPROVER_ROLES;
+}
+
+/**
+ * Records the decision on a pending request. Returns null when the request
+ * was no longer pending, i.e. someone else decided it first.
+ */
+export async function decideApproval(
+  client: DbClient,
+  requestId: string,
+  decision: 'approved' | 'rejected',
+  userId: string,
+  comments?: string | null
+): Promise<ApprovalRequest | null> {
+  const [request] = await client.update(approvalRequests)
+    .set({
+      status: decision,
+      decidedByUserId: userId,
+      decidedAt: new Date(),
+      comments: comments || null,
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(approvalRequests.id, requestId),
+      eq(approvalRequests.status, 'pending')
+    ))
+    .returning();
+
+  return request || null;
+}
@@ -0,0 +1,7 @@
+/**
+ * Approvals Service
+ *
+ * Main export for approval policies and maker-checker requests
+ */
+
+export * from './approvalEngine';
@@ -1,7 +1,8 @@
 /**
  * Bank Feed Transaction Categorization Service
  *
- * Provides AI-powered and rule-based categorization for bank transactions
+ * Provides rule-based categorization for bank transactions, falling back to
+ * the company's learned categorization model
  */
 
 import { db } from '../../db';
@@ -13,7 +14,12 @@ import {
   type CategorizationRule,
   type BankFeedTransaction
 } from '../../../../shared/schema';
-import { eq, and, desc, sql, ilike } from 'drizzle-orm';
+import { eq, and, desc, sql, inArray } from 'drizzle-orm';
+import { predictCategory, type CategorizationModelState, type CategorySuggestion } from './categorizationModel';
+import { loadCategorizationModel } from './categorizationTraining';
+
+// Model suggestions less certain than this are not applied to a transaction
+const MIN_MODEL_CONFIDENCE = 40;
 
 interface CategorizationResult {
   accountId: string | null;
@@ -31,7 +37,8 @@ interface RuleCondition {
 }
 
 /**
- * Applies categorization rules to a transaction
+ * Applies categorization rules to a transaction, then the learned model.
+ * Callers categorizing many transactions pass the model in to load it once.
  */
 export async function categorizeTransaction(
   companyId: string,
@@ -40,7 +47,8 @@ export async function categorizeTransaction(
     referenceNumber?: string | null;
     debitAmount?: string | null;
     creditAmount?: string | null;
-  }
+  },
+  model?: CategorizationModelState
 ): Promise<CategorizationResult> {
   // Fetch active rules for the company, ordered by priority
   const rules = await db.select()
@@ -72,8 +80,8 @@ export async function categorizeTransaction(
     }
   }
 
-  // Fall back to ML-based categorization using keyword matching
-  const mlResult = await mlCategorize(companyId, transaction.description);
+  // Fall back to the company's learned model
+  const mlResult = await mlCategorize(companyId, transaction, model || await loadCategorizationModel(companyId));
   if (mlResult) {
     return mlResult;
   }
@@ -156,65 +164,73 @@ function matchesRule(
 }
 
 /**
- * ML-based categorization using keyword matching and historical patterns
+ * Ranked suggestions of the company's model, limited to accounts and
+ * parties that are still active
  */
-async function mlCategorize(
+export async function suggestCategories(
   companyId: string,
-  description: string
-): Promise<CategorizationResult | null> {
-  // Common keyword patterns for Indian businesses
-  const keywordPatterns: { keywords: string[]; accountType: string; accountName: string }[] = [
-    // Bank charges
-    { keywords: ['charges', 'sms charges', 'maintenance', 'service charge'], accountType: 'expense', accountName: 'Bank Charges' },
-    // Interest
-    { keywords: ['interest credit', 'int cred', 'interest paid'], accountType: 'income', accountName: 'Interest Income' },
-    { keywords: ['interest debit', 'int paid', 'loan interest'], accountType: 'expense', accountName: 'Interest Expense' },
-    // Salary
-    { keywords: ['salary', 'sal credit', 'neft-sal'], accountType: 'income', accountName: 'Salary Income' },
-    // UPI/IMPS patterns
-    { keywords: ['upi/', 'upi-', 'imps/', 'neft/', 'rtgs/'], accountType: 'income', accountName: 'Sales' },
-    // E-commerce
-    { keywords: ['amazon', 'flipkart', 'meesho', 'swiggy', 'zomato'], accountType: 'expense', accountName: 'Office Expenses' },
-    // Utilities
-    { keywords: ['electricity', 'power', 'bescom', 'tata power'], accountType: 'expense', accountName: 'Electricity Expenses' },
-    { keywords: ['telephone', 'mobile', 'airtel', 'jio', 'vodafone'], accountType: 'expense', accountName: 'Telephone Expenses' },
-    // Rent
-    { keywords: ['rent', 'lease'], accountType: 'expense', accountName: 'Rent Expense' },
-    // Insurance
-    { keywords: ['insurance', 'lic', 'hdfc life', 'icici prudential'], accountType: 'expense', accountName: 'Insurance Expense' },
-    // GST
-    { keywords: ['gst', 'cgst', 'sgst', 'igst', 'gstr'], accountType: 'liability', accountName: 'GST Payable' },
-    // TDS
-    { keywords: ['tds', 'tax deducted'], accountType: 'asset', accountName: 'TDS Receivable' },
-  ];
+  transaction: { description: string; debitAmount?: string | null; creditAmount?: string | null },
+  model: CategorizationModelState,
+  limit = 3
+): Promise<{ accounts: CategorySuggestion[]; parties: CategorySuggestion[] }> {
+  // Ask for extra suggestions in case some point at closed accounts
+  const prediction = predictCategory(model, transaction, limit + 2);
+
+  const accountIds = prediction.accounts.map(suggestion => suggestion.id);
+  const partyIds = prediction.parties.map(suggestion => suggestion.id);
+
+  const activeAccounts = accountIds.length > 0
+    ? await db.select({ id: chartOfAccounts.id })
+      .from(chartOfAccounts)
+      .where(and(
+        eq(chartOfAccounts.companyId, companyId),
+        eq(chartOfAccounts.isActive, true),
+        inArray(chartOfAccounts.id, accountIds)
+      ))
+    : [];
+  const activeParties = partyIds.length > 0
+    ? await db.select({ id: parties.id })
+      .from(parties)
+      .where(and(
+        eq(parties.companyId, companyId),
+        eq(parties.isActive, true),
+        inArray(parties.id, partyIds)
+      ))
+    : [];
 
-  const lowerDesc = description.toLowerCase();
+  const accountSet = new Set(activeAccounts.map(account => account.id));
+  const partySet = new Set(activeParties.map(party => party.id));
 
-  for (const pattern of keywordPatterns) {
-    if (pattern.keywords.some(keyword => lowerDesc.includes(keyword))) {
-      // Find matching account
-      const accounts = await db.select()
-        .from(chartOfAccounts)
-        .where(and(
-          eq(chartOfAccounts.companyId, companyId),
-          eq(chartOfAccounts.isActive, true),
-          ilike(chartOfAccounts.name, `%${pattern.accountName}%`)
-        ))
-        .limit(1);
-
-      if (accounts.length > 0) {
-        return {
-          accountId: accounts[0].id,
-          partyId: null,
-          confidenceScore: 70,
-          source: 'ml'
-        };
-      }
-    }
+  return {
+    accounts: prediction.accounts.filter(suggestion => accountSet.has(suggestion.id)).slice(0, limit),
+    parties: prediction.parties.filter(suggestion => partySet.has(suggestion.id)).slice(0, limit),
+  };
+}
+
+/**
+ * Categorization by the company's learned model, or by party name when the
+ * model is unsure
+ */
+async function mlCategorize(
+  companyId: string,
+  transaction: { description: string; debitAmount?: string | null; creditAmount?: string | null },
+  model: CategorizationModelState
+): Promise<CategorizationResult | null> {
+  const suggestions = await suggestCategories(companyId, transaction, model, 1);
+  const [account] = suggestions.accounts;
+  const [party] = suggestions.parties;
+
+  if (account && account.confidence >= MIN_MODEL_CONFIDENCE) {
+    return {
+      accountId: account.id,
+      partyId: party && party.confidence >= MIN_MODEL_CONFIDENCE ? party.id : null,
+      confidenceScore: account.confidence,
+      source: 'ml'
+    };
   }
 
   // Try to match party from description
-  const partyMatch = await matchPartyFromDescription(companyId, description);
+  const partyMatch = await matchPartyFromDescription(companyId, transaction.description);
   if (partyMatch) {
     return partyMatch;
   }
@@ -338,6 +354,7 @@ export async function bulkCategorize(
   transactionIds: string[]
 ): Promise<{ processed: number; categorized: number }> {
   let categorized = 0;
+  const model = await loadCategorizationModel(companyId);
 
   for (const id of transactionIds) {
     const [transaction] = await db.select()
@@ -354,7 +371,7 @@ export async function bulkCategorize(
       referenceNumber: transaction.referenceNumber,
       debitAmount: transaction.debitAmount,
       creditAmount: transaction.creditAmount
-    });
+    }, model);
 
     if (result.accountId || result.partyId) {
       await db.update(bankFeedTransactions)
@@ -0,0 +1,363 @@
+/**
+ * Bank Transaction Categorization Model
+ *
+ * A multinomial naive Bayes model over the words of a transaction's
+ * narration, its direction and the size of its amount. Each company has its
+ * own model, trained on its own decisions, with one classifier for the
+ * account and one for the party.
+ *
+ * Naive Bayes probabilities are overconfident, so confidences are
+ * calibrated against cross-validation: a raw probability is mapped to how
+ * often predictions of that probability were actually right.
+ */
+
+export const MODEL_VERSION = 1;
+
+// Raw probability bins used for calibration and the accuracy report
+const CALIBRATION_EDGES = [0, 0.5, 0.6, 0.7, 0.8, 0.9, 0.95, 0.99, 1];
+
+// Weight of the raw probability against a bin's observed accuracy
+const CALIBRATION_PRIOR = 5;
+
+const CROSS_VALIDATION_FOLDS = 5;
+
+// Confidence at which a suggestion counts as sure enough to apply unattended
+export const AUTO_APPLY_CONFIDENCE = 80;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'from', 'to', 'of', 'in', 'on', 'at', 'by', 'a', 'an',
+  'ref', 'no', 'txn', 'trf', 'transfer', 'payment', 'paid', 'received', 'cr', 'dr',
+]);
+
+export interface CategorizationInput {
+  description: string;
+  debitAmount?: string | number | null;
+  creditAmount?: string | number | null;
+}
+
+export interface CategorizationExample extends CategorizationInput {
+  accountId: string | null;
+  partyId: string | null;
+}
+
+interface ClassStats {
+  documents: number;
+  tokenCount: number;
+  tokens: Record<string, number>;
+}
+
+interface Classifier {
+  documents: number;
+  classes: Record<string, ClassStats>;
+}
+
+export interface CalibrationBin {
+  from: number;
+  to: number;
+  predictions: number;
+  correct: number;
+}
+
+export interface CategorizationModelState {
+  version: number;
+  examples: number;
+  // Distinct tokens seen, for Laplace smoothing
+  vocabulary: Record<string, true>;
+  accounts: Classifier;
+  parties: Classifier;
+  calibration: { accounts: CalibrationBin[]; parties: CalibrationBin[] };
+  // Suggestions users accepted or corrected since the model was created
+  feedback: { accepted: number; corrected: number };
+}
+
+export interface CategorySuggestion {
+  id: string;
+  // Calibrated confidence, 0-100
+  confidence: number;
+}
+
+export interface CategorizationPrediction {
+  accounts: CategorySuggestion[];
+  parties: CategorySuggestion[];
+}
+
+export interface AccountAccuracy {
+  accountId: string;
+  examples: number;
+  correct: number;
+  predicted: number;
+}
+
+export interface CategorizationAccuracyReport {
+  examples: number;
+  evaluated: number;
+  folds: number;
+  // Share of examples whose account was the top suggestion, 0-100
+  accountAccuracy: number;
+  // Share whose account was among the top three suggestions
+  topThreeAccuracy: number;
+  partyExamples: number;
+  partyAccuracy: number;
+  // Share of examples suggested with AUTO_APPLY_CONFIDENCE or more, and how
+  // often those suggestions were right
+  autoApplyCoverage: number;
+  autoApplyAccuracy: number;
+  calibration: CalibrationBin[];
+  accounts: AccountAccuracy[];
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0);
+
+function emptyBins(): CalibrationBin[] {
+  return CALIBRATION_EDGES.slice(0, -1).map((from, index) => ({
+    from,
+    to: CALIBRATION_EDGES[index + 1],
+    predictions: 0,
+    correct: 0,
+  }));
+}
+
+function amountOf(input: CategorizationInput): { amount: number; isCredit: boolean } {
+  const debit = Math.abs(parseFloat(String(input.debitAmount ?? '')) || 0);
+  const credit = Math.abs(parseFloat(String(input.creditAmount ?? '')) || 0);
+  return credit > 0 ? { amount: credit, isCredit: true } : { amount: debit, isCredit: false };
+}
+
+/**
+ * Features of a transaction: narration words, whether money came in or went
+ * out, and the order of magnitude of the amount. Numbers and references
+ * (words with four or more digits) carry no meaning across transactions.
+ */
+export function tokenizeTransaction(input: CategorizationInput): string[] {
+  const words = (input.description || '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 2 && !STOP_WORDS.has(word) && !/^\d+$/.test(word) && !/\d{4,}/.test(word));
+
+  const { amount, isCredit } = amountOf(input);
+  const features = [...words, isCredit ? '#in' : '#out'];
+  if (amount > 0) features.push(`#amount${Math.floor(Math.log10(amount))}`);
+  return features;
+}
+
+export function createCategorizationModel(): CategorizationModelState {
+  return {
+    version: MODEL_VERSION,
+    examples: 0,
+    vocabulary: {},
+    accounts: { documents: 0, classes: {} },
+    parties: { documents: 0, classes: {} },
+    calibration: { accounts: emptyBins(), parties: emptyBins() },
+    feedback: { accepted: 0, corrected: 0 },
+  };
+}
+
+function addToClassifier(classifier: Classifier, label: string, tokens: string[]): void {
+  const stats = classifier.classes[label] || (classifier.classes[label] = { documents: 0, tokenCount: 0, tokens: {} });
+  classifier.documents++;
+  stats.documents++;
+  for (const token of tokens) {
+    stats.tokens[token] = (stats.tokens[token] || 0) + 1;
+    stats.tokenCount++;
+  }
+}
+
+/**
+ * Adds one categorised transaction to the model
+ */
+export function learnExample(model: CategorizationModelState, example: CategorizationExample): CategorizationModelState {
+  if (!example.accountId && !example.partyId) return model;
+
+  const tokens = tokenizeTransaction(example);
+  for (const token of tokens) model.vocabulary[token] = true;
+  if (example.accountId) addToClassifier(model.accounts, example.accountId, tokens);
+  if (example.partyId) addToClassifier(model.parties, example.partyId, tokens);
+  model.examples++;
+  return model;
+}
+
+// Posterior probability of each class, highest first
+function classProbabilities(classifier: Classifier, tokens: string[], vocabularySize: number): { id: string; probability: number }[] {
+  const labels = Object.keys(classifier.classes);
+  if (labels.length === 0) return [];
+
+  const scores = labels.map(label => {
+    const stats = classifier.classes[label];
+    let score = Math.log(stats.documents / classifier.documents);
+    for (const token of tokens) {
+      score += Math.log(((stats.tokens[token] || 0) + 1) / (stats.tokenCount + vocabularySize + 1));
+    }
+    return score;
+  });
+
+  const best = Math.max(...scores);
+  const weights = scores.map(score => Math.exp(score - best));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return labels
+    .map((id, index) => ({ id, probability: weights[index] / total }))
+    .sort((a, b) => b.probability - a.probability);
+}
+
+function binFor(bins: CalibrationBin[], probability: number): CalibrationBin | undefined {
+  return bins.find(bin => probability >= bin.from && (probability < bin.to || bin.to === 1));
+}
+
+/**
+ * Calibrated confidence (0-100) of a raw probability: the accuracy observed
+ * for similar probabilities, leaning on the raw value while few were seen
+ */
+export function calibrateConfidence(bins: CalibrationBin[], probability: number): number {
+  const bin = binFor(bins, probability);
+  const predictions = bin?.predictions || 0;
+  const correct = bin?.correct || 0;
+  const calibrated = (correct + probability * CALIBRATION_PRIOR) / (predictions + CALIBRATION_PRIOR);
+  return Math.round(calibrated * 1000) / 10;
+}
+
+function rawPredictions(model: CategorizationModelState, input: CategorizationInput) {
+  const tokens = tokenizeTransaction(input);
+  const vocabularySize = Object.keys(model.vocabulary).length;
+  return {
+    accounts: classProbabilities(model.accounts, tokens, vocabularySize),
+    parties: classProbabilities(model.parties, tokens, vocabularySize),
+  };
+}
+
+/**
+ * Ranked account and party suggestions for a transaction
+ */
+export function predictCategory(
+  model: CategorizationModelState,
+  input: CategorizationInput,
+  limit = 3
+): CategorizationPrediction {
+  const raw = rawPredictions(model, input);
+  const suggest = (probabilities: { id: string; probability: number }[], bins: CalibrationBin[]) =>
+    probabilities.slice(0, limit).map(({ id, probability }) => ({ id, confidence: calibrateConfidence(bins, probability) }));
+
+  return {
+    accounts: suggest(raw.accounts, model.calibration.accounts),
+    parties: suggest(raw.parties, model.calibration.parties),
+  };
+}
+
+function trainOn(examples: CategorizationExample[]): CategorizationModelState {
+  const model = createCategorizationModel();
+  for (const example of examples) learnExample(model, example);
+  return model;
+}
+
+/**
+ * Trains a model and measures it by k-fold cross-validation: each example
+ * is predicted by a model trained on the other folds. The calibration
+ * learned along the way is kept in the returned model.
+ */
+export function trainCategorizationModel(examples: CategorizationExample[]): {
+  model: CategorizationModelState;
+  report: CategorizationAccuracyReport;
+} {
+  const usable = examples.filter(example => example.accountId || example.partyId);
+  const folds = Math.min(CROSS_VALIDATION_FOLDS, usable.length);
+  const accountBins = emptyBins();
+  const partyBins = emptyBins();
+  const byAccount = new Map<string, AccountAccuracy>();
+  const accountStats = (accountId: string) => {
+    if (!byAccount.has(accountId)) byAccount.set(accountId, { accountId, examples: 0, correct: 0, predicted: 0 });
+    return byAccount.get(accountId)!;
+  };
+
+  let evaluated = 0;
+  let correct = 0;
+  let topThree = 0;
+  let partyExamples = 0;
+  let partyCorrect = 0;
+  const outcomes: { probability: number; isCorrect: boolean }[] = [];
+
+  for (let fold = 0; fold < folds && folds > 1; fold++) {
+    const training = usable.filter((_, index) => index % folds !== fold);
+    const model = trainOn(training);
+
+    usable.forEach((example, index) => {
+      if (index % folds !== fold) return;
+      const raw = rawPredictions(model, example);
+
+      if (example.accountId) {
+        const top = raw.accounts[0];
+        accountStats(example.accountId).examples++;
+        evaluated++;
+        if (top) {
+          const isCorrect = top.id === example.accountId;
+          outcomes.push({ probability: top.probability, isCorrect });
+          accountStats(top.id).predicted++;
+          const bin = binFor(accountBins, top.probability);
+          if (bin) {
+            bin.predictions++;
+            if (isCorrect) bin.correct++;
+          }
+          if (isCorrect) {
+            correct++;
+            accountStats(example.accountId).correct++;
+          }
+          if (raw.accounts.slice(0, 3).some(candidate => candidate.id === example.accountId)) topThree++;
+        }
+      }
+
+      if (example.partyId) {
+        const top = raw.parties[0];
+        partyExamples++;
+        if (top) {
+          const bin = binFor(partyBins, top.probability);
+          if (bin) {
+            bin.predictions++;
+            if (top.id === example.partyId) bin.correct++;
+          }
+          if (top.id === example.partyId) partyCorrect++;
+        }
+      }
+    });
+  }
+
+  // Auto-apply figures use the calibrated confidence, known once every fold is in
+  const autoApplied = outcomes.filter(outcome => calibrateConfidence(accountBins, outcome.probability) >= AUTO_APPLY_CONFIDENCE);
+  const autoAppliedCorrect = autoApplied.filter(outcome => outcome.isCorrect).length;
+
+  const model = trainOn(usable);
+  model.calibration = { accounts: accountBins, parties: partyBins };
+
+  return {
+    model,
+    report: {
+      examples: usable.length,
+      evaluated,
+      folds: folds > 1 ? folds : 0,
+      accountAccuracy: percent(correct, evaluated),
+      topThreeAccuracy: percent(topThree, evaluated),
+      partyExamples,
+      partyAccuracy: percent(partyCorrect, partyExamples),
+      autoApplyCoverage: percent(autoApplied.length, evaluated),
+      autoApplyAccuracy: percent(autoAppliedCorrect, autoApplied.length),
+      calibration: accountBins,
+      accounts: Array.from(byAccount.values()).sort((a, b) => b.examples - a.examples),
+    },
+  };
+}
+
+/**
+ * Records whether a suggestion was accepted or corrected, then learns the
+ * user's decision
+ */
+export function learnDecision(
+  model: CategorizationModelState,
+  example: CategorizationExample,
+  suggestedAccountId: string | null
+): CategorizationModelState {
+  if (suggestedAccountId && example.accountId) {
+    if (suggestedAccountId === example.accountId) {
+      model.feedback.accepted++;
+    } else {
+      model.feedback.corrected++;
+    }
+  }
+  return learnExample(model, example);
+}
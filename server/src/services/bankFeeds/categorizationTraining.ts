@@ -0,0 +1,230 @@
+/**
+ * Categorization Model Training
+ *
+ * Builds each company's categorization model from its own history and keeps
+ * it up to date as users accept or correct suggestions. Training data are:
+ * - bank feed transactions a user categorised, and
+ * - posted journal entries with two lines, one of them on a bank account, where
+ *   the other line gives the account and party for the narration.
+ */
+
+import { db } from '../../db';
+import {
+  categorizationModels,
+  bankFeedTransactions,
+  bankAccounts,
+  journalEntries,
+  journalEntryLines,
+  type CategorizationModel,
+} from '../../../../shared/schema';
+import { eq, and, desc, inArray, isNotNull, isNull } from 'drizzle-orm';
+import {
+  MODEL_VERSION,
+  trainCategorizationModel,
+  learnDecision,
+  type CategorizationExample,
+  type CategorizationModelState,
+  type CategorizationAccuracyReport,
+} from './categorizationModel';
+
+// Most recent journal entries read for training, with all of their lines
+const JOURNAL_HISTORY_ENTRIES = 10000;
+
+/**
+ * The company's bank ledger accounts: those linked to a bank account, and
+ * those bank feeds were imported into
+ */
+async function bankLedgerAccountIds(companyId: string): Promise<Set<string>> {
+  const linked = await db.select({ accountId: bankAccounts.accountId })
+    .from(bankAccounts)
+    .where(eq(bankAccounts.companyId, companyId));
+
+  const feeds = await db.selectDistinct({ accountId: bankFeedTransactions.bankAccountId })
+    .from(bankFeedTransactions)
+    .where(eq(bankFeedTransactions.companyId, companyId));
+
+  return new Set(
+    [...linked, ...feeds].map(row => row.accountId).filter((id): id is string => !!id)
+  );
+}
+
+/**
+ * Categorised examples from the company's bank feeds and journal history,
+ * oldest first
+ */
+export async function collectTrainingExamples(companyId: string): Promise<CategorizationExample[]> {
+  // Feed transactions already turned into journal entries are covered by them
+  const feedExamples = await db.select({
+    description: bankFeedTransactions.description,
+    debitAmount: bankFeedTransactions.debitAmount,
+    creditAmount: bankFeedTransactions.creditAmount,
+    accountId: bankFeedTransactions.suggestedAccountId,
+    partyId: bankFeedTransactions.suggestedPartyId,
+    date: bankFeedTransactions.transactionDate,
+  })
+    .from(bankFeedTransactions)
+    .where(and(
+      eq(bankFeedTransactions.companyId, companyId),
+      eq(bankFeedTransactions.categorizationSource, 'manual'),
+      isNotNull(bankFeedTransactions.suggestedAccountId),
+      isNull(bankFeedTransactions.matchedJournalEntryId)
+    ));
+
+  const bankAccountIds = await bankLedgerAccountIds(companyId);
+  const journalExamples: (CategorizationExample & { date: string })[] = [];
+
+  if (bankAccountIds.size > 0) {
+    // Limited by entry, not by line, so no entry is cut short
+    const recentEntries = db.select({ id: journalEntries.id })
+      .from(journalEntries)
+      .where(and(
+        eq(journalEntries.companyId, companyId),
+        eq(journalEntries.status, 'posted')
+      ))
+      .orderBy(desc(journalEntries.entryDate), desc(journalEntries.createdAt))
+      .limit(JOURNAL_HISTORY_ENTRIES);
+
+    const lines = await db.select({
+      journalEntryId: journalEntryLines.journalEntryId,
+      accountId: journalEntryLines.accountId,
+      partyId: journalEntryLines.partyId,
+      debitAmount: journalEntryLines.debitAmount,
+      creditAmount: journalEntryLines.creditAmount,
+      description: journalEntryLines.description,
+      narration: journalEntries.narration,
+      date: journalEntries.entryDate,
+    })
+      .from(journalEntryLines)
+      .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+      .where(inArray(journalEntryLines.journalEntryId, recentEntries))
+      .orderBy(desc(journalEntries.entryDate));
+
+    const byEntry = new Map<string, typeof lines>();
+    for (const line of lines) {
+      const entryLines = byEntry.get(line.journalEntryId) || [];
+      entryLines.push(line);
+      byEntry.set(line.journalEntryId, entryLines);
+    }
+
+    for (const entryLines of Array.from(byEntry.values())) {
+      if (entryLines.length !== 2) continue;
+      const bankLine = entryLines.find(line => bankAccountIds.has(line.accountId));
+      const otherLine = entryLines.find(line => line !== bankLine);
+      if (!bankLine || !otherLine || bankAccountIds.has(otherLine.accountId)) continue;
+
+      const description = bankLine.description || otherLine.description || bankLine.narration;
+      if (!description) continue;
+
+      // A debit to the bank is money in, a credit in statement terms
+      journalExamples.push({
+        description,
+        debitAmount: bankLine.creditAmount,
+        creditAmount: bankLine.debitAmount,
+        accountId: otherLine.accountId,
+        partyId: otherLine.partyId || bankLine.partyId,
+        date: bankLine.date,
+      });
+    }
+  }
+
+  return [...feedExamples, ...journalExamples]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(({ date, ...example }) => example);
+}
+
+export async function getCategorizationModel(companyId: string): Promise<CategorizationModel | undefined> {
+  const [stored] = await db.select()
+    .from(categorizationModels)
+    .where(eq(categorizationModels.companyId, companyId));
+  return stored;
+}
+
+/**
+ * Retrains the company's model from scratch and stores it with its
+ * accuracy report
+ */
+export async function retrainCategorizationModel(companyId: string): Promise<{
+  model: CategorizationModelState;
+  report: CategorizationAccuracyReport;
+}> {
+  const examples = await collectTrainingExamples(companyId);
+  const { model, report } = trainCategorizationModel(examples);
+
+  // Feedback counts describe the live model, so they carry over
+  const existing = await getCategorizationModel(companyId);
+  const previous = existing?.model as CategorizationModelState | undefined;
+  if (previous?.feedback) model.feedback = previous.feedback;
+
+  const values = {
+    model,
+    evaluation: report,
+    trainingExamples: model.examples,
+    trainedAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  // Upsert, as two first uses of the model can train it at the same time
+  await db.insert(categorizationModels)
+    .values({ companyId, ...values })
+    .onConflictDoUpdate({ target: categorizationModels.companyId, set: values });
+
+  return { model, report };
+}
+
+/**
+ * The company's model, trained on first use or when its format is outdated
+ */
+export async function loadCategorizationModel(companyId: string): Promise<CategorizationModelState> {
+  const stored = await getCategorizationModel(companyId);
+  const model = stored?.model as CategorizationModelState | undefined;
+  if (model && model.version === MODEL_VERSION) return model;
+  return (await retrainCategorizationModel(companyId)).model;
+}
+
+export interface CategorizationDecision {
+  example: CategorizationExample;
+  // What the model had suggested, if anything
+  suggestedAccountId: string | null;
+}
+
+/**
+ * Learns users' categorisations straight away, noting whether each accepted
+ * or corrected the model's suggestion
+ */
+export async function learnFromCategorizations(
+  companyId: string,
+  decisions: CategorizationDecision[]
+): Promise<void> {
+  if (decisions.length === 0) return;
+
+  // The model row is locked so concurrent categorisations each build on the
+  // other's update instead of overwriting it
+  const learned = await db.transaction(async (tx) => {
+    const [stored] = await tx.select()
+      .from(categorizationModels)
+      .where(eq(categorizationModels.companyId, companyId))
+      .for('update');
+    const previous = stored?.model as CategorizationModelState | undefined;
+    if (!stored || !previous || previous.version !== MODEL_VERSION) return false;
+
+    let model = previous;
+    for (const decision of decisions) {
+      model = learnDecision(model, decision.example, decision.suggestedAccountId);
+    }
+
+    await tx.update(categorizationModels)
+      .set({
+        model,
+        trainingExamples: model.examples,
+        lastLearnedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(categorizationModels.id, stored.id));
+    return true;
+  });
+
+  if (!learned) {
+    // A full training picks these decisions up from the database
+    await retrainCategorizationModel(companyId);
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * Grouped Bank Matching
+ *
+ * Matches N bank lines against M open invoices or bills of one party. One
+ * NEFT receipt often settles several invoices, and one vendor payout
+ * several bills, so the matcher searches combinations of a party's open
+ * documents whose total comes to the bank amount (subset-sum).
+ *
+ * The two rarely agree to the paisa. The difference between the documents
+ * settled and the money through the bank is explained as:
+ * - TDS the customer deducted, or we deducted from the vendor,
+ * - bank charges taken from a receipt or added to a payment, or
+ * - rounding.
+ */
+
+export type MatchSide = 'receipt' | 'payment';
+
+export type DifferenceType = 'none' | 'rounding' | 'tds' | 'bank_charges';
+
+export interface OpenDocument {
+  id: string;
+  number: string;
+  date: string;
+  partyId: string;
+  balanceDue: number;
+  // Value before GST, on which TDS is deducted
+  taxableAmount: number;
+}
+
+export interface MatchTolerances {
+  // Largest difference written off as rounding
+  rounding: number;
+  // Largest difference taken as bank charges
+  bankCharges: number;
+  // TDS rates (percent) a difference is checked against
+  tdsRates: number[];
+}
+
+export const DEFAULT_MATCH_TOLERANCES: MatchTolerances = {
+  rounding: 1,
+  bankCharges: 500,
+  tdsRates: [0.1, 1, 2, 5, 10],
+};
+
+export interface MatchDifference {
+  type: DifferenceType;
+  // Documents settled less the bank amount
+  amount: number;
+  // TDS rate the difference matches
+  rate?: number;
+}
+
+export interface GroupMatchProposal {
+  partyId: string;
+  documentIds: string[];
+  documentNumbers: string[];
+  documentsTotal: number;
+  bankTotal: number;
+  difference: MatchDifference;
+  // Higher is better
+  score: number;
+}
+
+export interface MatchAdjustment {
+  type: Exclude<DifferenceType, 'none'>;
+  accountId: string;
+  // Added to the bank amount to give the documents settled
+  amount: number;
+}
+
+export interface MatchAllocation {
+  documentId: string;
+  balanceDue: number;
+  amount: number;
+}
+
+export interface GroupMatchPlan {
+  bankTotal: number;
+  settledTotal: number;
+  allocations: MatchAllocation[];
+  adjustments: MatchAdjustment[];
+}
+
+export interface GroupMatchJournalLine {
+  accountId: string;
+  debitAmount: string;
+  creditAmount: string;
+  partyType?: 'customer' | 'vendor';
+  partyId?: string;
+  description: string;
+}
+
+// Combinations examined per party before the search gives up
+const SEARCH_BUDGET = 50000;
+
+const DIFFERENCE_SCORES: Record<DifferenceType, number> = {
+  none: 100,
+  rounding: 95,
+  tds: 90,
+  bank_charges: 85,
+};
+
+export const ADJUSTMENT_LABELS: Record<MatchAdjustment['type'], string> = {
+  rounding: 'Rounding off',
+  tds: 'TDS deducted',
+  bank_charges: 'Bank charges',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Explains the difference between the documents and the bank amount, or
+ * returns null when none of the allowed reasons fits
+ */
+export function classifyDifference(
+  side: MatchSide,
+  bankTotal: number,
+  documents: Pick<OpenDocument, 'balanceDue' | 'taxableAmount'>[],
+  tolerances: MatchTolerances = DEFAULT_MATCH_TOLERANCES
+): MatchDifference | null {
+  const documentsTotal = documents.reduce((sum, doc) => sum + doc.balanceDue, 0);
+  const amount = round(documentsTotal - bankTotal);
+
+  if (Math.abs(amount) < 0.005) return { type: 'none', amount: 0 };
+  if (Math.abs(amount) <= tolerances.rounding) return { type: 'rounding', amount };
+
+  if (amount > 0) {
+    // TDS is deducted on each document and rounded to the rupee
+    for (const rate of tolerances.tdsRates) {
+      const tds = documents.reduce((sum, doc) => sum + Math.round(doc.taxableAmount * rate / 100), 0);
+      if (tds > 0 && Math.abs(amount - tds) <= tolerances.rounding) return { type: 'tds', amount, rate };
+    }
+  }
+
+  // The bank keeps its charges from a receipt and adds them to a payment
+  const charges = side === 'receipt' ? amount : -amount;
+  if (charges > 0 && charges <= tolerances.bankCharges) return { type: 'bank_charges', amount };
+
+  return null;
+}
+
+/**
+ * Combinations of each party's open documents that the bank amount could
+ * settle, best first. Documents named in the narration are preferred, then
+ * fewer and older documents.
+ */
+export function proposeGroupMatches(
+  side: MatchSide,
+  bankTotal: number,
+  documents: OpenDocument[],
+  options: { tolerances?: MatchTolerances; narration?: string; maxDocuments?: number; limit?: number } = {}
+): GroupMatchProposal[] {
+  const tolerances = options.tolerances || DEFAULT_MATCH_TOLERANCES;
+  const maxDocuments = options.maxDocuments || 10;
+  const narration = (options.narration || '').toLowerCase();
+  const maxRate = Math.max(0, ...tolerances.tdsRates);
+
+  // Window of document totals that could explain the bank amount
+  const lower = bankTotal - Math.max(tolerances.rounding, side === 'payment' ? tolerances.bankCharges : 0);
+  const upper = bankTotal + Math.max(
+    tolerances.rounding,
+    side === 'receipt' ? tolerances.bankCharges : 0,
+    maxRate < 100 ? (bankTotal * maxRate) / (100 - maxRate) + tolerances.rounding : 0
+  );
+
+  const byParty = new Map<string, OpenDocument[]>();
+  for (const doc of documents) {
+    if (doc.balanceDue <= 0) continue;
+    const partyDocuments = byParty.get(doc.partyId) || [];
+    partyDocuments.push(doc);
+    byParty.set(doc.partyId, partyDocuments);
+  }
+
+  const proposals: GroupMatchProposal[] = [];
+
+  for (const [partyId, partyDocuments] of Array.from(byParty.entries())) {
+    const ordered = [...partyDocuments].sort((a, b) => a.date.localeCompare(b.date) || a.number.localeCompare(b.number));
+    // Total of the documents from each position on, to prune hopeless branches
+    const remaining = ordered.map((_, index) => ordered.slice(index).reduce((sum, doc) => sum + doc.balanceDue, 0));
+    let budget = SEARCH_BUDGET;
+
+    const search = (start: number, chosen: OpenDocument[], total: number) => {
+      if (--budget < 0) return;
+
+      if (chosen.length > 0 && total >= lower - 0.005 && total <= upper + 0.005) {
+        const difference = classifyDifference(side, bankTotal, chosen, tolerances);
+        if (difference) {
+          const named = chosen.filter(doc => narration && narration.includes(doc.number.toLowerCase())).length;
+          // Older documents are usually paid first
+          const age = chosen.reduce((sum, doc) => sum + ordered.indexOf(doc), 0) / chosen.length;
+          proposals.push({
+            partyId,
+            documentIds: chosen.map(doc => doc.id),
+            documentNumbers: chosen.map(doc => doc.number),
+            documentsTotal: round(total),
+            bankTotal: round(bankTotal),
+            difference,
+            score: round(DIFFERENCE_SCORES[difference.type] + named * 5 - (chosen.length - 1) * 0.5 - age * 0.1),
+          });
+        }
+      }
+
+      if (chosen.length >= maxDocuments) return;
+      for (let index = start; index < ordered.length; index++) {
+        if (total + remaining[index] < lower - 0.005) return;
+        const next = total + ordered[index].balanceDue;
+        if (next > upper + 0.005) continue;
+        chosen.push(ordered[index]);
+        search(index + 1, chosen, next);
+        chosen.pop();
+      }
+    };
+
+    search(0, [], 0);
+  }
+
+  return proposals
+    .sort((a, b) => b.score - a.score || a.documentIds.length - b.documentIds.length)
+    .slice(0, options.limit || 5);
+}
+
+/**
+ * Checks a user's match: every document settled for no more than its
+ * balance, and the documents settled equal to the bank amount plus the
+ * differences posted to charges, TDS or rounding
+ */
+export function planGroupMatch(
+  bankTotal: number,
+  allocations: MatchAllocation[],
+  adjustments: MatchAdjustment[]
+): { error: string } | { plan: GroupMatchPlan } {
+  if (allocations.length === 0) return { error: 'Select at least one document' };
+
+  for (const allocation of allocations) {
+    if (!(allocation.amount > 0)) return { error: 'Allocated amounts must be positive' };
+    if (allocation.amount > allocation.balanceDue + 0.005) {
+      return { error: 'An allocation is more than the balance due on its document' };
+    }
+  }
+
+  const used = adjustments.filter(adjustment => round(adjustment.amount) !== 0);
+  if (used.some(adjustment => !adjustment.accountId)) {
+    return { error: 'Choose an account for each difference' };
+  }
+
+  const settledTotal = round(allocations.reduce((sum, allocation) => sum + allocation.amount, 0));
+  const adjusted = round(bankTotal + used.reduce((sum, adjustment) => sum + adjustment.amount, 0));
+  if (Math.abs(settledTotal - adjusted) > 0.005) {
+    return {
+      error: `Documents settled (${settledTotal.toFixed(2)}) must equal the bank amount plus differences (${adjusted.toFixed(2)})`,
+    };
+  }
+
+  return {
+    plan: {
+      bankTotal: round(bankTotal),
+      settledTotal,
+      allocations: allocations.map(allocation => ({ ...allocation, amount: round(allocation.amount) })),
+      adjustments: used.map(adjustment => ({ ...adjustment, amount: round(adjustment.amount) })),
+    },
+  };
+}
+
+/**
+ * Journal lines for a grouped match. The bank takes what went through it,
+ * the party's account is cleared by the documents settled and each
+ * difference sits on the bank's side: a debit on a receipt (charges, TDS
+ * receivable) and a credit on a payment (TDS payable), reversed when
+ * negative.
+ */
+export function groupMatchJournalLines(
+  side: MatchSide,
+  plan: GroupMatchPlan,
+  accounts: { bankAccountId: string; controlAccountId: string; partyId: string },
+  descriptions: { bank: string; party: string }
+): GroupMatchJournalLine[] {
+  const receipt = side === 'receipt';
+  const entry = (accountId: string, amount: number, onBankSide: boolean, description: string): GroupMatchJournalLine => {
+    const debit = receipt === onBankSide ? amount >= 0 : amount < 0;
+    const value = Math.abs(amount).toFixed(2);
+    return { accountId, debitAmount: debit ? value : '0', creditAmount: debit ? '0' : value, description };
+  };
+
+  const bankLine = entry(accounts.bankAccountId, plan.bankTotal, true, descriptions.bank);
+  const partyLine: GroupMatchJournalLine = {
+    ...entry(accounts.controlAccountId, plan.settledTotal, false, descriptions.party),
+    partyType: receipt ? 'customer' : 'vendor',
+    partyId: accounts.partyId,
+  };
+  const adjustmentLines = plan.adjustments.map(adjustment =>
+    entry(adjustment.accountId, adjustment.amount, true, `${ADJUSTMENT_LABELS[adjustment.type]} - ${descriptions.party}`)
+  );
+
+  return receipt ? [bankLine, ...adjustmentLines, partyLine] : [partyLine, bankLine, ...adjustmentLines];
+}
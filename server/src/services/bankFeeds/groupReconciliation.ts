@@ -0,0 +1,508 @@
+/**
+ * Grouped Bank Reconciliation
+ *
+ * Proposes and posts matches of several bank lines against several open
+ * invoices or bills of one party. Confirming a match records one payment
+ * received or made with an allocation per document, posts its journal
+ * entry with any difference to charges, TDS or rounding, and marks the
+ * bank lines matched. Undoing a match removes all of that again.
+ *
+ * Only base currency documents are matched; foreign currency settlements
+ * go through payments, which realise the exchange difference.
+ */
+
+import { db, type DbClient } from '../../db';
+import {
+  bankAccounts,
+  bankFeedTransactions,
+  bankMatchGroups,
+  bills,
+  chartOfAccounts,
+  fiscalYears,
+  invoices,
+  journalEntries,
+  journalEntryLines,
+  paymentAllocations,
+  paymentMadeAllocations,
+  paymentsMade,
+  paymentsReceived,
+  type BankFeedTransaction,
+  type BankMatchGroup,
+} from '../../../../shared/schema';
+import { eq, and, desc, inArray, isNull, gt } from 'drizzle-orm';
+import { allocateDocumentNumber } from '../numbering';
+import { refreshPeriodBalances } from '../ledger';
+import { getForexAccounts } from '../forex';
+import {
+  proposeGroupMatches,
+  planGroupMatch,
+  groupMatchJournalLines,
+  type MatchSide,
+  type MatchAdjustment,
+  type OpenDocument,
+  type GroupMatchProposal,
+} from './groupMatching';
+
+const OPEN_INVOICE_STATUSES = ['sent', 'partially_paid', 'overdue'] as const;
+const OPEN_BILL_STATUSES = ['pending', 'partially_paid', 'overdue'] as const;
+
+export interface GroupMatchInput {
+  transactionIds: string[];
+  partyId: string;
+  allocations: { documentId: string; amount: number }[];
+  adjustments: MatchAdjustment[];
+}
+
+function lineAmount(transaction: BankFeedTransaction): number {
+  return parseFloat(transaction.creditAmount || '0') || parseFloat(transaction.debitAmount || '0');
+}
+
+function sideOf(transaction: BankFeedTransaction): MatchSide {
+  return parseFloat(transaction.creditAmount || '0') > 0 ? 'receipt' : 'payment';
+}
+
+/**
+ * Open base currency invoices (receipts) or bills (payments), optionally of
+ * one party
+ */
+export async function getOpenDocuments(
+  companyId: string,
+  side: MatchSide,
+  partyId?: string,
+  client: DbClient = db,
+  options: { lock?: boolean } = {}
+): Promise<OpenDocument[]> {
+  if (side === 'receipt') {
+    const query = client.select()
+      .from(invoices)
+      .where(and(
+        eq(invoices.companyId, companyId),
+        inArray(invoices.status, [...OPEN_INVOICE_STATUSES]),
+        isNull(invoices.currencyCode),
+        gt(invoices.balanceDue, '0'),
+        ...(partyId ? [eq(invoices.customerId, partyId)] : [])
+      ));
+    // Locked while confirming, so a payment in between cannot settle them twice
+    const rows = options.lock ? await query.for('update') : await query;
+
+    return rows.map(invoice => ({
+      id: invoice.id,
+      number: invoice.invoiceNumber,
+      date: invoice.invoiceDate,
+      partyId: invoice.customerId,
+      balanceDue: parseFloat(invoice.balanceDue),
+      taxableAmount: parseFloat(invoice.subtotal) - parseFloat(invoice.discountAmount || '0'),
+    }));
+  }
+
+  const query = client.select()
+    .from(bills)
+    .where(and(
+      eq(bills.companyId, companyId),
+      inArray(bills.status, [...OPEN_BILL_STATUSES]),
+      isNull(bills.currencyCode),
+      gt(bills.balanceDue, '0'),
+      ...(partyId ? [eq(bills.vendorId, partyId)] : [])
+    ));
+  const rows = options.lock ? await query.for('update') : await query;
+
+  return rows.map(bill => ({
+    id: bill.id,
+    number: bill.billNumber,
+    date: bill.billDate,
+    partyId: bill.vendorId,
+    balanceDue: parseFloat(bill.balanceDue),
+    taxableAmount: parseFloat(bill.subtotal),
+  }));
+}
+
+/**
+ * The pending bank lines of a match; all must move money the same way
+ * through the same bank account
+ */
+async function loadMatchLines(
+  companyId: string,
+  transactionIds: string[],
+  client: DbClient = db,
+  options: { lock?: boolean } = {}
+): Promise<{ error: string } | { transactions: BankFeedTransaction[]; side: MatchSide; bankTotal: number }> {
+  const ids = Array.from(new Set(transactionIds));
+  if (ids.length === 0) return { error: 'Select at least one bank transaction' };
+
+  const query = client.select()
+    .from(bankFeedTransactions)
+    .where(and(
+      eq(bankFeedTransactions.companyId, companyId),
+      inArray(bankFeedTransactions.id, ids)
+    ));
+  // Locked while confirming, so a line cannot be matched twice
+  const transactions = options.lock ? await query.for('update') : await query;
+
+  if (transactions.length !== ids.length) return { error: 'Transaction not found' };
+  if (transactions.some(txn => txn.reconciliationStatus !== 'pending')) {
+    return { error: 'Only pending transactions can be matched' };
+  }
+
+  const side = sideOf(transactions[0]);
+  if (transactions.some(txn => sideOf(txn) !== side)) {
+    return { error: 'Receipts and payments cannot be matched together' };
+  }
+  if (transactions.some(txn => txn.bankAccountId !== transactions[0].bankAccountId)) {
+    return { error: 'All transactions must be from the same bank account' };
+  }
+
+  const bankTotal = Math.round(transactions.reduce((sum, txn) => sum + lineAmount(txn), 0) * 100) / 100;
+  return { transactions, side, bankTotal };
+}
+
+/**
+ * Combinations of open documents the bank lines could settle. Without a
+ * party, every party with open documents is searched, starting with the one
+ * the lines were categorised to.
+ */
+export async function proposeMatchesForTransactions(
+  companyId: string,
+  transactionIds: string[],
+  partyId?: string
+): Promise<{ error: string } | {
+  side: MatchSide;
+  bankTotal: number;
+  proposals: GroupMatchProposal[];
+  documents: OpenDocument[];
+}> {
+  const lines = await loadMatchLines(companyId, transactionIds);
+  if ('error' in lines) return lines;
+
+  const suggestedParty = lines.transactions.find(txn => txn.suggestedPartyId)?.suggestedPartyId;
+  const documents = await getOpenDocuments(companyId, lines.side, partyId);
+  const narration = lines.transactions.map(txn => `${txn.description} ${txn.referenceNumber || ''}`).join(' ');
+
+  const proposals = proposeGroupMatches(lines.side, lines.bankTotal, documents, { narration, limit: 10 })
+    .sort((a, b) => Number(b.partyId === suggestedParty) - Number(a.partyId === suggestedParty) || b.score - a.score)
+    .slice(0, 5);
+
+  return { side: lines.side, bankTotal: lines.bankTotal, proposals, documents };
+}
+
+/**
+ * The bank's ledger account and bank account record. Feed lines may carry
+ * either, depending on how they were imported.
+ */
+async function resolveBankAccount(
+  client: DbClient,
+  companyId: string,
+  feedBankAccountId: string | null
+): Promise<{ ledgerAccountId: string; bankAccountId: string | null } | null> {
+  if (!feedBankAccountId) return null;
+
+  const [bankAccount] = await client.select()
+    .from(bankAccounts)
+    .where(and(eq(bankAccounts.companyId, companyId), eq(bankAccounts.id, feedBankAccountId)));
+  if (bankAccount) {
+    return bankAccount.accountId ? { ledgerAccountId: bankAccount.accountId, bankAccountId: bankAccount.id } : null;
+  }
+
+  const [ledger] = await client.select()
+    .from(chartOfAccounts)
+    .where(and(eq(chartOfAccounts.companyId, companyId), eq(chartOfAccounts.id, feedBankAccountId)));
+  if (!ledger) return null;
+
+  const [linked] = await client.select()
+    .from(bankAccounts)
+    .where(and(eq(bankAccounts.companyId, companyId), eq(bankAccounts.accountId, ledger.id)));
+  return { ledgerAccountId: ledger.id, bankAccountId: linked?.id || null };
+}
+
+// Same numbering as payments entered by hand
+async function nextPaymentNumber(
+  client: DbClient,
+  companyId: string,
+  side: MatchSide,
+  fiscalYearName: string
+): Promise<string> {
+  const table = side === 'receipt' ? paymentsReceived : paymentsMade;
+  const [last] = await client.select({ paymentNumber: table.paymentNumber })
+    .from(table)
+    .where(eq(table.companyId, companyId))
+    .orderBy(desc(table.createdAt))
+    .limit(1);
+
+  const nextNumber = last ? parseInt(last.paymentNumber.split('-').pop() || '0', 10) + 1 : 1;
+  const prefix = side === 'receipt' ? 'PR' : 'PM';
+  return `${prefix}-${fiscalYearName.replace(/\s/g, '')}-${nextNumber.toString().padStart(5, '0')}`;
+}
+
+/**
+ * Posts a grouped match: the payment and its allocations, the journal
+ * entry and the bank lines' match
+ */
+export async function confirmGroupMatch(
+  companyId: string,
+  userId: string,
+  input: GroupMatchInput
+): Promise<{ error: string } | { group: BankMatchGroup; paymentId: string; journalEntryId: string }> {
+  return db.transaction(async (tx) => {
+    const lines = await loadMatchLines(companyId, input.transactionIds, tx, { lock: true });
+    if ('error' in lines) return lines;
+    const { transactions, side, bankTotal } = lines;
+    const receipt = side === 'receipt';
+
+    const documents = await getOpenDocuments(companyId, side, input.partyId, tx, { lock: true });
+    const allocations = [];
+    for (const allocation of input.allocations) {
+      const document = documents.find(doc => doc.id === allocation.documentId);
+      if (!document) return { error: `Open ${receipt ? 'invoice' : 'bill'} not found for this party` };
+      allocations.push({ documentId: document.id, balanceDue: document.balanceDue, amount: Number(allocation.amount) });
+    }
+    if (new Set(allocations.map(allocation => allocation.documentId)).size !== allocations.length) {
+      return { error: 'A document can only be allocated once' };
+    }
+
+    const planned = planGroupMatch(bankTotal, allocations, input.adjustments.map(adjustment => ({
+      ...adjustment,
+      amount: Number(adjustment.amount),
+    })));
+    if ('error' in planned) return planned;
+    const { plan } = planned;
+
+    const adjustmentAccountIds = Array.from(new Set(plan.adjustments.map(adjustment => adjustment.accountId)));
+    if (adjustmentAccountIds.length > 0) {
+      const found = await tx.select({ id: chartOfAccounts.id })
+        .from(chartOfAccounts)
+        .where(and(eq(chartOfAccounts.companyId, companyId), inArray(chartOfAccounts.id, adjustmentAccountIds)));
+      if (found.length !== adjustmentAccountIds.length) return { error: 'Difference account not found' };
+    }
+
+    const bank = await resolveBankAccount(tx, companyId, transactions[0].bankAccountId);
+    if (!bank) return { error: 'The bank account of these transactions has no ledger account' };
+
+    const controlAccounts = await getForexAccounts(tx, companyId);
+    const controlAccountId = receipt ? controlAccounts.receivablesAccountId : controlAccounts.payablesAccountId;
+    if (!controlAccountId) return { error: `${receipt ? 'Receivables' : 'Payables'} account not found` };
+
+    const [fiscalYear] = await tx.select()
+      .from(fiscalYears)
+      .where(and(eq(fiscalYears.companyId, companyId), eq(fiscalYears.isCurrent, true)))
+      .limit(1);
+    if (!fiscalYear) return { error: 'No active fiscal year found' };
+
+    const paymentDate = transactions.map(txn => txn.transactionDate).sort().pop()!;
+    const reference = transactions.map(txn => txn.referenceNumber).filter(Boolean).join(', ').slice(0, 100) || null;
+
+    const paymentNumber = await nextPaymentNumber(tx, companyId, side, fiscalYear.name);
+    const paymentValues = {
+      companyId,
+      fiscalYearId: fiscalYear.id,
+      paymentNumber,
+      paymentDate,
+      amount: plan.bankTotal.toFixed(2),
+      paymentMethod: 'bank_transfer',
+      referenceNumber: reference,
+      bankAccountId: bank.bankAccountId,
+      notes: `Matched from ${transactions.length} bank statement line${transactions.length === 1 ? '' : 's'}`,
+      createdByUserId: userId,
+    };
+
+    let paymentId: string;
+    if (receipt) {
+      const [payment] = await tx.insert(paymentsReceived)
+        .values({ ...paymentValues, customerId: input.partyId })
+        .returning();
+      paymentId = payment.id;
+    } else {
+      const [payment] = await tx.insert(paymentsMade)
+        .values({ ...paymentValues, vendorId: input.partyId })
+        .returning();
+      paymentId = payment.id;
+    }
+
+    // Each document is settled by its allocation, TDS and charges included
+    for (const allocation of plan.allocations) {
+      if (receipt) {
+        await tx.insert(paymentAllocations).values({
+          paymentReceivedId: paymentId,
+          invoiceId: allocation.documentId,
+          amount: allocation.amount.toFixed(2),
+        });
+        const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, allocation.documentId));
+        const paid = parseFloat(invoice.paidAmount || '0') + allocation.amount;
+        const balance = Math.round((parseFloat(invoice.totalAmount) - paid) * 100) / 100;
+        await tx.update(invoices)
+          .set({
+            paidAmount: paid.toFixed(2),
+            balanceDue: balance.toFixed(2),
+            status: balance <= 0 ? 'paid' : 'partially_paid',
+            updatedAt: new Date(),
+          })
+          .where(eq(invoices.id, invoice.id));
+      } else {
+        await tx.insert(paymentMadeAllocations).values({
+          paymentMadeId: paymentId,
+          billId: allocation.documentId,
+          amount: allocation.amount.toFixed(2),
+        });
+        const [bill] = await tx.select().from(bills).where(eq(bills.id, allocation.documentId));
+        const paid = parseFloat(bill.paidAmount || '0') + allocation.amount;
+        const balance = Math.round((parseFloat(bill.totalAmount) - paid) * 100) / 100;
+        await tx.update(bills)
+          .set({
+            paidAmount: paid.toFixed(2),
+            balanceDue: balance.toFixed(2),
+            status: balance <= 0 ? 'paid' : 'partially_paid',
+            updatedAt: new Date(),
+          })
+          .where(eq(bills.id, bill.id));
+      }
+    }
+
+    const [group] = await tx.insert(bankMatchGroups).values({
+      companyId,
+      side,
+      partyId: input.partyId,
+      bankAmount: plan.bankTotal.toFixed(2),
+      settledAmount: plan.settledTotal.toFixed(2),
+      adjustments: plan.adjustments,
+      paymentReceivedId: receipt ? paymentId : null,
+      paymentMadeId: receipt ? null : paymentId,
+      createdByUserId: userId,
+    }).returning();
+
+    const narration = `${receipt ? 'Payment received' : 'Payment made'} - ${paymentNumber}`;
+    const journalLines = groupMatchJournalLines(side, plan, {
+      bankAccountId: bank.ledgerAccountId,
+      controlAccountId,
+      partyId: input.partyId,
+    }, {
+      bank: `Payment - ${reference || paymentNumber}`,
+      party: narration,
+    });
+    const total = journalLines.reduce((sum, line) => sum + parseFloat(line.debitAmount), 0).toFixed(2);
+
+    const entryNumber = await allocateDocumentNumber(tx, companyId, 'journal_entry', fiscalYear, { type: receipt ? 'RCV' : 'PAY' });
+    const [je] = await tx.insert(journalEntries).values({
+      companyId,
+      fiscalYearId: fiscalYear.id,
+      entryNumber,
+      entryDate: paymentDate,
+      entryType: 'auto_payment',
+      narration,
+      totalDebit: total,
+      totalCredit: total,
+      sourceType: 'bank_match_group',
+      sourceId: group.id,
+      status: 'posted',
+      createdByUserId: userId,
+    }).returning();
+
+    await tx.insert(journalEntryLines).values(journalLines.map(line => ({ journalEntryId: je.id, ...line })));
+    await refreshPeriodBalances(tx, companyId, [je]);
+
+    if (receipt) {
+      await tx.update(paymentsReceived).set({ journalEntryId: je.id }).where(eq(paymentsReceived.id, paymentId));
+    } else {
+      await tx.update(paymentsMade).set({ journalEntryId: je.id }).where(eq(paymentsMade.id, paymentId));
+    }
+
+    const [posted] = await tx.update(bankMatchGroups)
+      .set({ journalEntryId: je.id })
+      .where(eq(bankMatchGroups.id, group.id))
+      .returning();
+
+    // A single document is also linked directly, as a one-to-one match is
+    const singleDocument = plan.allocations.length === 1 ? plan.allocations[0].documentId : null;
+    await tx.update(bankFeedTransactions)
+      .set({
+        reconciliationStatus: 'matched',
+        matchGroupId: group.id,
+        ...(receipt
+          ? { matchedPaymentReceivedId: paymentId, ...(singleDocument && { matchedInvoiceId: singleDocument }) }
+          : { matchedPaymentMadeId: paymentId, ...(singleDocument && { matchedBillId: singleDocument }) }),
+      })
+      .where(inArray(bankFeedTransactions.id, transactions.map(txn => txn.id)));
+
+    return { group: posted, paymentId, journalEntryId: je.id };
+  });
+}
+
+/**
+ * Undoes a grouped match: the bank lines go back to pending, the documents
+ * get their balances back, and the payment and its journal entry are deleted
+ */
+export async function undoGroupMatch(
+  companyId: string,
+  groupId: string
+): Promise<{ error: string } | { group: BankMatchGroup }> {
+  return db.transaction(async (tx) => {
+    const [group] = await tx.select()
+      .from(bankMatchGroups)
+      .where(and(eq(bankMatchGroups.companyId, companyId), eq(bankMatchGroups.id, groupId)))
+      .for('update');
+    if (!group) return { error: 'Match not found' };
+    const receipt = group.side === 'receipt';
+
+    await tx.update(bankFeedTransactions)
+      .set({
+        reconciliationStatus: 'pending',
+        matchGroupId: null,
+        matchedPaymentReceivedId: null,
+        matchedPaymentMadeId: null,
+        matchedInvoiceId: null,
+        matchedBillId: null,
+      })
+      .where(eq(bankFeedTransactions.matchGroupId, group.id));
+
+    if (receipt && group.paymentReceivedId) {
+      const allocations = await tx.select()
+        .from(paymentAllocations)
+        .where(eq(paymentAllocations.paymentReceivedId, group.paymentReceivedId));
+      for (const allocation of allocations) {
+        const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, allocation.invoiceId)).for('update');
+        const paid = Math.max(0, parseFloat(invoice.paidAmount || '0') - parseFloat(allocation.amount));
+        const balance = Math.round((parseFloat(invoice.totalAmount) - paid) * 100) / 100;
+        await tx.update(invoices)
+          .set({
+            paidAmount: paid.toFixed(2),
+            balanceDue: balance.toFixed(2),
+            status: paid <= 0 ? 'sent' : 'partially_paid',
+            updatedAt: new Date(),
+          })
+          .where(eq(invoices.id, invoice.id));
+      }
+      await tx.delete(paymentAllocations).where(eq(paymentAllocations.paymentReceivedId, group.paymentReceivedId));
+    } else if (group.paymentMadeId) {
+      const allocations = await tx.select()
+        .from(paymentMadeAllocations)
+        .where(eq(paymentMadeAllocations.paymentMadeId, group.paymentMadeId));
+      for (const allocation of allocations) {
+        const [bill] = await tx.select().from(bills).where(eq(bills.id, allocation.billId)).for('update');
+        const paid = Math.max(0, parseFloat(bill.paidAmount || '0') - parseFloat(allocation.amount));
+        const balance = Math.round((parseFloat(bill.totalAmount) - paid) * 100) / 100;
+        await tx.update(bills)
+          .set({
+            paidAmount: paid.toFixed(2),
+            balanceDue: balance.toFixed(2),
+            status: paid <= 0 ? 'pending' : 'partially_paid',
+            updatedAt: new Date(),
+          })
+          .where(eq(bills.id, bill.id));
+      }
+      await tx.delete(paymentMadeAllocations).where(eq(paymentMadeAllocations.paymentMadeId, group.paymentMadeId));
+    }
+
+    // The group refers to the payment and journal entry, and the payment to the entry
+    await tx.delete(bankMatchGroups).where(eq(bankMatchGroups.id, group.id));
+    if (group.paymentReceivedId) {
+      await tx.delete(paymentsReceived).where(eq(paymentsReceived.id, group.paymentReceivedId));
+    }
+    if (group.paymentMadeId) {
+      await tx.delete(paymentsMade).where(eq(paymentsMade.id, group.paymentMadeId));
+    }
+    if (group.journalEntryId) {
+      await tx.delete(journalEntryLines).where(eq(journalEntryLines.journalEntryId, group.journalEntryId));
+      const [je] = await tx.delete(journalEntries).where(eq(journalEntries.id, group.journalEntryId)).returning();
+      if (je) await refreshPeriodBalances(tx, companyId, [je]);
+    }
+
+    return { group };
+  });
+}
@@ -5,6 +5,10 @@
  */
 
 export * from './categorization';
+export * from './categorizationModel';
+export * from './categorizationTraining';
+export * from './groupMatching';
+export * from './groupReconciliation';
 export * from './reconciliation';
 
 import { db } from '../../db';
@@ -17,7 +21,9 @@ import {
 } from '../../../../shared/schema';
 import { eq, and, desc } from 'drizzle-orm';
 import { categorizeTransaction } from './categorization';
+import { loadCategorizationModel } from './categorizationTraining';
 import { findMatch } from './reconciliation';
+import type { ParsedStatement } from '../bankStatements';
 
 interface ParsedTransaction {
   transactionDate: string;
@@ -36,7 +42,7 @@ interface ImportResult {
 }
 
 /**
- * Imports transactions from a parsed CSV/OFX file
+ * Imports transactions from a parsed bank statement
  */
 export async function importTransactions(
   companyId: string,
@@ -45,6 +51,7 @@ export async function importTransactions(
   connectionId?: string
 ): Promise<ImportResult> {
   const result: ImportResult = { imported: 0, duplicates: 0, errors: [] };
+  const model = await loadCategorizationModel(companyId);
 
   for (const txn of transactions) {
     try {
@@ -70,7 +77,7 @@ export async function importTransactions(
         referenceNumber: txn.referenceNumber,
         debitAmount: txn.debitAmount,
         creditAmount: txn.creditAmount
-      });
+      }, model);
 
       // Insert the transaction
       const [newTxn] = await db.insert(bankFeedTransactions)
@@ -130,144 +137,20 @@ export async function importTransactions(
 }
 
 /**
- * Parses a bank CSV file (auto-detects format)
+ * Converts a parsed bank statement into feed transactions
  */
-export function parseCSV(
-  csvContent: string,
-  format?: string
-): ParsedTransaction[] {
-  const lines = csvContent.split('\n').filter(line => line.trim());
-  if (lines.length < 2) return [];
-
-  // Auto-detect format based on header
-  const header = lines[0].toLowerCase();
-  const transactions: ParsedTransaction[] = [];
-
-  // Common Indian bank formats
-  if (header.includes('txn date') || header.includes('transaction date') || header.includes('value date')) {
-    // Standard format with headers
-    const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-    const dateIdx = headers.findIndex(h => h.includes('date') && (h.includes('txn') || h.includes('transaction')));
-    const valueDateIdx = headers.findIndex(h => h.includes('value') && h.includes('date'));
-    const descIdx = headers.findIndex(h => h.includes('description') || h.includes('particulars') || h.includes('narration'));
-    const refIdx = headers.findIndex(h => h.includes('ref') || h.includes('reference') || h.includes('cheque'));
-    const debitIdx = headers.findIndex(h => h.includes('debit') || h.includes('withdrawal'));
-    const creditIdx = headers.findIndex(h => h.includes('credit') || h.includes('deposit'));
-    const balanceIdx = headers.findIndex(h => h.includes('balance'));
-
-    for (let i = 1; i < lines.length; i++) {
-      const values = parseCSVLine(lines[i]);
-      if (values.length <= Math.max(dateIdx, descIdx)) continue;
-
-      const txn: ParsedTransaction = {
-        transactionDate: parseDate(values[dateIdx] || ''),
-        valueDate: valueDateIdx >= 0 ? parseDate(values[valueDateIdx] || '') : undefined,
-        description: values[descIdx] || '',
-        referenceNumber: refIdx >= 0 ? values[refIdx] : undefined,
-        debitAmount: debitIdx >= 0 ? parseAmount(values[debitIdx] || '') : undefined,
-        creditAmount: creditIdx >= 0 ? parseAmount(values[creditIdx] || '') : undefined,
-        runningBalance: balanceIdx >= 0 ? parseAmount(values[balanceIdx] || '') : undefined
-      };
-
-      if (txn.transactionDate && txn.description) {
-        transactions.push(txn);
-      }
-    }
-  }
-
-  return transactions;
-}
-
-/**
- * Parses a CSV line handling quoted values
- */
-function parseCSVLine(line: string): string[] {
-  const values: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      values.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  values.push(current.trim());
-
-  return values;
-}
-
-/**
- * Parses a date string to ISO format
- */
-function parseDate(dateStr: string): string {
-  if (!dateStr) return '';
-
-  // Try various formats
-  const formats = [
-    // DD/MM/YYYY
-    /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/,
-    // DD-MM-YYYY
-    /^(\d{1,2})-(\d{1,2})-(\d{4})$/,
-    // YYYY-MM-DD
-    /^(\d{4})-(\d{1,2})-(\d{1,2})$/,
-    // DD MMM YYYY
-    /^(\d{1,2})\s+(\w{3})\s+(\d{4})$/
-  ];
-
-  for (const format of formats) {
-    const match = dateStr.match(format);
-    if (match) {
-      let year, month, day;
-
-      if (format.source.startsWith('^(\\d{4})')) {
-        // YYYY-MM-DD
-        [, year, month, day] = match;
-      } else if (format.source.includes('\\w{3}')) {
-        // DD MMM YYYY
-        const months: { [key: string]: string } = {
-          'jan': '01', 'feb': '02', 'mar': '03', 'apr': '04',
-          'may': '05', 'jun': '06', 'jul': '07', 'aug': '08',
-          'sep': '09', 'oct': '10', 'nov': '11', 'dec': '12'
-        };
-        day = match[1].padStart(2, '0');
-        month = months[match[2].toLowerCase()] || '01';
-        year = match[3];
-      } else {
-        // DD/MM/YYYY or DD-MM-YYYY
-        day = match[1].padStart(2, '0');
-        month = match[2].padStart(2, '0');
-        year = match[3];
-      }
-
-      return `${year}-${month}-${day}`;
-    }
-  }
-
-  return dateStr;
-}
-
-/**
- * Parses an amount string to decimal
- */
-function parseAmount(amountStr: string): string | undefined {
-  if (!amountStr || amountStr.trim() === '') return undefined;
-
-  // Remove currency symbols, commas, spaces
-  const cleaned = amountStr
-    .replace(/[₹$€£,\s]/g, '')
-    .replace(/\(([^)]+)\)/, '-$1') // Handle (100) as -100
-    .trim();
-
-  const num = parseFloat(cleaned);
-  if (isNaN(num) || num === 0) return undefined;
-
-  return Math.abs(num).toFixed(2);
+export function toFeedTransactions(statement: ParsedStatement): ParsedTransaction[] {
+  const amount = (value: number | undefined) => (value ? value.toFixed(2) : undefined);
+
+  return statement.transactions.map(txn => ({
+    transactionDate: txn.date,
+    valueDate: txn.valueDate,
+    description: txn.description,
+    referenceNumber: txn.reference,
+    debitAmount: amount(txn.debit),
+    creditAmount: amount(txn.credit),
+    runningBalance: txn.balance !== undefined ? txn.balance.toFixed(2) : undefined,
+  }));
 }
 
 /**
@@ -18,7 +18,9 @@ import {
   fiscalYears,
   type BankFeedTransaction
 } from '../../../../shared/schema';
-import { eq, and, sql, between, or, ilike, gte, lte } from 'drizzle-orm';
+import { eq, and, between, or, ilike, gte, lte } from 'drizzle-orm';
+import { allocateDocumentNumber } from '../numbering';
+import { refreshPeriodBalances } from '../ledger';
 
 interface MatchResult {
   matchType: 'invoice' | 'bill' | 'payment_received' | 'payment_made' | 'expense' | 'journal_entry' | null;
@@ -358,85 +360,84 @@ export async function createJournalEntryFromTransaction(
     throw new Error('No active fiscal year found');
   }
 
-  // Generate entry number
-  const existingEntries = await db.select({ count: sql<number>`count(*)` })
-    .from(journalEntries)
-    .where(eq(journalEntries.fiscalYearId, fiscalYear.id));
-
-  const count = existingEntries[0]?.count || 0;
-  const entryNumber = `JV/${fiscalYear.name.replace('FY ', '')}/${String(Number(count) + 1).padStart(4, '0')}`;
-
   const amount = parseFloat(transaction.debitAmount || '0') || parseFloat(transaction.creditAmount || '0');
   const isCredit = !!transaction.creditAmount && parseFloat(transaction.creditAmount) > 0;
 
-  // Create journal entry
-  const [journalEntry] = await db.insert(journalEntries)
-    .values({
-      companyId,
-      fiscalYearId: fiscalYear.id,
-      entryNumber,
-      entryDate: transaction.transactionDate,
-      entryType: 'bank_import',
-      narration: transaction.description,
-      totalDebit: amount.toFixed(2),
-      totalCredit: amount.toFixed(2),
-      sourceType: 'bank_feed',
-      sourceId: transactionId,
-      status: 'posted',
-      createdByUserId: userId
-    })
-    .returning();
-
-  // Create journal entry lines
-  const lines = [];
+  // Post the entry and mark the bank transaction together
+  const journalEntry = await db.transaction(async (tx) => {
+    const entryNumber = await allocateDocumentNumber(tx, companyId, 'journal_entry', fiscalYear, { type: 'JV' });
+
+    const [created] = await tx.insert(journalEntries)
+      .values({
+        companyId,
+        fiscalYearId: fiscalYear.id,
+        entryNumber,
+        entryDate: transaction.transactionDate,
+        entryType: 'bank_import',
+        narration: transaction.description,
+        totalDebit: amount.toFixed(2),
+        totalCredit: amount.toFixed(2),
+        sourceType: 'bank_feed',
+        sourceId: transactionId,
+        status: 'posted',
+        createdByUserId: userId
+      })
+      .returning();
+
+    // Create journal entry lines
+    const lines = [];
+
+    if (isCredit) {
+      // Money received: Debit Bank, Credit Account
+      lines.push({
+        journalEntryId: created.id,
+        accountId: bankAccount[0].id,
+        debitAmount: amount.toFixed(2),
+        creditAmount: '0',
+        description: transaction.description,
+        partyId: partyId || null
+      });
+      lines.push({
+        journalEntryId: created.id,
+        accountId,
+        debitAmount: '0',
+        creditAmount: amount.toFixed(2),
+        description: transaction.description,
+        partyId: partyId || null
+      });
+    } else {
+      // Money paid: Debit Account, Credit Bank
+      lines.push({
+        journalEntryId: created.id,
+        accountId,
+        debitAmount: amount.toFixed(2),
+        creditAmount: '0',
+        description: transaction.description,
+        partyId: partyId || null
+      });
+      lines.push({
+        journalEntryId: created.id,
+        accountId: bankAccount[0].id,
+        debitAmount: '0',
+        creditAmount: amount.toFixed(2),
+        description: transaction.description,
+        partyId: partyId || null
+      });
+    }
 
-  if (isCredit) {
-    // Money received: Debit Bank, Credit Account
-    lines.push({
-      journalEntryId: journalEntry.id,
-      accountId: bankAccount[0].id,
-      debitAmount: amount.toFixed(2),
-      creditAmount: '0',
-      description: transaction.description,
-      partyId: partyId || null
-    });
-    lines.push({
-      journalEntryId: journalEntry.id,
-      accountId,
-      debitAmount: '0',
-      creditAmount: amount.toFixed(2),
-      description: transaction.description,
-      partyId: partyId || null
-    });
-  } else {
-    // Money paid: Debit Account, Credit Bank
-    lines.push({
-      journalEntryId: journalEntry.id,
-      accountId,
-      debitAmount: amount.toFixed(2),
-      creditAmount: '0',
-      description: transaction.description,
-      partyId: partyId || null
-    });
-    lines.push({
-      journalEntryId: journalEntry.id,
-      accountId: bankAccount[0].id,
-      debitAmount: '0',
-      creditAmount: amount.toFixed(2),
-      description: transaction.description,
-      partyId: partyId || null
-    });
-  }
+    await tx.insert(journalEntryLines).values(lines);
+    await refreshPeriodBalances(tx, companyId, [created]);
 
-  await db.insert(journalEntryLines).values(lines);
+    // Update transaction status
+    await tx.update(bankFeedTransactions)
+      .set({
+        reconciliationStatus: 'created',
+        matchedJournalEntryId: created.id
+      })
+      .where(eq(bankFeedTransactions.id, transactionId));
 
-  // Update transaction status
-  await db.update(bankFeedTransactions)
-    .set({
-      reconciliationStatus: 'created',
-      matchedJournalEntryId: journalEntry.id
-    })
-    .where(eq(bankFeedTransactions.id, transactionId));
+    return created;
+  });
 
   return {
     transactionId,
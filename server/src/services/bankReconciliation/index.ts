@@ -0,0 +1,8 @@
+/**
+ * Bank Reconciliation Service
+ *
+ * Main export for bank reconciliation statements and their history
+ */
+
+export * from './reconciliationStatement';
+export * from './statementData';
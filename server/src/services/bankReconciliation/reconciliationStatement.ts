@@ -0,0 +1,302 @@
+/**
+ * Bank Reconciliation Statement
+ *
+ * Reconciles the balance of a bank account in the books with the balance
+ * the bank shows on a date:
+ *
+ *   Balance per books
+ *   + cheques issued but not presented
+ *   - deposits not yet credited
+ *   - bank debits not in books (charges, direct debits)
+ *   + bank credits not in books (interest, direct receipts)
+ *   = Balance per bank
+ *
+ * A book entry has been through the bank once a bank statement line is
+ * matched to it, or it was ticked off in a reconciliation session, on or
+ * before the date. Balances are in the bank's terms: positive is money in
+ * the account.
+ */
+
+export interface BookEntry {
+  journalEntryId: string;
+  date: string;
+  entryNumber: string;
+  description: string;
+  // Debit is money into the bank, credit money out
+  debit: number;
+  credit: number;
+  // Statement date of the reconciliation session that ticked it off
+  reconciledOn?: string | null;
+}
+
+export interface BankEntry {
+  id: string;
+  date: string;
+  description: string;
+  reference?: string | null;
+  // Debit is money out of the account, credit money in
+  debit: number;
+  credit: number;
+  // Journal entries the line was matched to
+  journalEntryIds: string[];
+}
+
+export type StatementSectionKey =
+  | 'chequesNotPresented'
+  | 'depositsNotCredited'
+  | 'bankDebitsNotInBooks'
+  | 'bankCreditsNotInBooks';
+
+export interface StatementItem {
+  source: 'book' | 'bank';
+  // Journal entry for book items, bank feed transaction for bank items
+  id: string;
+  date: string;
+  reference: string | null;
+  description: string;
+  amount: number;
+  // When the other side caught up, if after the statement date
+  clearedOn: string | null;
+}
+
+export interface StatementSection {
+  key: StatementSectionKey;
+  label: string;
+  // +1 added to the book balance, -1 deducted
+  sign: 1 | -1;
+  total: number;
+  items: StatementItem[];
+}
+
+export interface BankReconciliationStatement {
+  asOfDate: string;
+  balancePerBooks: number;
+  sections: StatementSection[];
+  balancePerBank: number;
+  // The bank's own closing balance, when known, and what is left unexplained
+  statementBalance: number | null;
+  difference: number | null;
+}
+
+export interface StatementSummary {
+  asOfDate: string;
+  balancePerBooks: number;
+  chequesNotPresented: number;
+  depositsNotCredited: number;
+  bankDebitsNotInBooks: number;
+  bankCreditsNotInBooks: number;
+  balancePerBank: number;
+  statementBalance: number | null;
+  difference: number | null;
+  items: number;
+}
+
+export const SECTION_LABELS: Record<StatementSectionKey, string> = {
+  chequesNotPresented: 'Add: Cheques issued but not presented',
+  depositsNotCredited: 'Less: Deposits not yet credited by the bank',
+  bankDebitsNotInBooks: 'Less: Debits in the bank not in the books',
+  bankCreditsNotInBooks: 'Add: Credits in the bank not in the books',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const earliest = (a: string | null | undefined, b: string | null | undefined): string | null => {
+  if (!a) return b || null;
+  if (!b) return a;
+  return a < b ? a : b;
+};
+
+/**
+ * Dates each book entry went through the bank and each bank line was
+ * booked; either is null while the other side has nothing
+ */
+export function linkBankToBooks(bookEntries: BookEntry[], bankEntries: BankEntry[]): {
+  clearedOn: Map<string, string | null>;
+  bookedOn: Map<string, string | null>;
+} {
+  const bookDates = new Map<string, string>();
+  const clearedOn = new Map<string, string | null>();
+  for (const entry of bookEntries) {
+    bookDates.set(entry.journalEntryId, earliest(bookDates.get(entry.journalEntryId), entry.date)!);
+    clearedOn.set(entry.journalEntryId, earliest(clearedOn.get(entry.journalEntryId), entry.reconciledOn));
+  }
+
+  const bookedOn = new Map<string, string | null>();
+  for (const line of bankEntries) {
+    let booked: string | null = null;
+    for (const journalEntryId of line.journalEntryIds) {
+      // Entries that do not touch this bank account are not its book side
+      if (!bookDates.has(journalEntryId)) continue;
+      booked = earliest(booked, bookDates.get(journalEntryId));
+      clearedOn.set(journalEntryId, earliest(clearedOn.get(journalEntryId), line.date));
+    }
+    bookedOn.set(line.id, booked);
+  }
+
+  return { clearedOn, bookedOn };
+}
+
+/**
+ * The statement as of a date. Entries after the date are ignored, so the
+ * same history gives the statement for any earlier date.
+ */
+export function buildBankReconciliationStatement(
+  asOfDate: string,
+  openingBalance: number,
+  bookEntries: BookEntry[],
+  bankEntries: BankEntry[],
+  statementBalance: number | null = null
+): BankReconciliationStatement {
+  const { clearedOn, bookedOn } = linkBankToBooks(bookEntries, bankEntries);
+  const pending = (date: string | null | undefined) => (date && date <= asOfDate ? null : date || null);
+
+  let balancePerBooks = openingBalance;
+  const items: Record<StatementSectionKey, StatementItem[]> = {
+    chequesNotPresented: [],
+    depositsNotCredited: [],
+    bankDebitsNotInBooks: [],
+    bankCreditsNotInBooks: [],
+  };
+
+  for (const entry of bookEntries) {
+    if (entry.date > asOfDate) continue;
+    balancePerBooks += entry.debit - entry.credit;
+
+    const cleared = clearedOn.get(entry.journalEntryId);
+    if (cleared && cleared <= asOfDate) continue;
+    const net = round(entry.debit - entry.credit);
+    if (net === 0) continue;
+
+    items[net < 0 ? 'chequesNotPresented' : 'depositsNotCredited'].push({
+      source: 'book',
+      id: entry.journalEntryId,
+      date: entry.date,
+      reference: entry.entryNumber,
+      description: entry.description,
+      amount: Math.abs(net),
+      clearedOn: pending(cleared),
+    });
+  }
+
+  for (const line of bankEntries) {
+    if (line.date > asOfDate) continue;
+    const booked = bookedOn.get(line.id);
+    if (booked && booked <= asOfDate) continue;
+    const net = round(line.credit - line.debit);
+    if (net === 0) continue;
+
+    items[net < 0 ? 'bankDebitsNotInBooks' : 'bankCreditsNotInBooks'].push({
+      source: 'bank',
+      id: line.id,
+      date: line.date,
+      reference: line.reference || null,
+      description: line.description,
+      amount: Math.abs(net),
+      clearedOn: pending(booked),
+    });
+  }
+
+  const signs: Record<StatementSectionKey, 1 | -1> = {
+    chequesNotPresented: 1,
+    depositsNotCredited: -1,
+    bankDebitsNotInBooks: -1,
+    bankCreditsNotInBooks: 1,
+  };
+
+  const sections = (Object.keys(items) as StatementSectionKey[]).map(key => ({
+    key,
+    label: SECTION_LABELS[key],
+    sign: signs[key],
+    total: round(items[key].reduce((sum, item) => sum + item.amount, 0)),
+    items: items[key].sort((a, b) => a.date.localeCompare(b.date)),
+  }));
+
+  const balancePerBank = round(balancePerBooks + sections.reduce((sum, section) => sum + section.sign * section.total, 0));
+
+  return {
+    asOfDate,
+    balancePerBooks: round(balancePerBooks),
+    sections,
+    balancePerBank,
+    statementBalance,
+    difference: statementBalance === null ? null : round(statementBalance - balancePerBank),
+  };
+}
+
+export function summarizeStatement(statement: BankReconciliationStatement): StatementSummary {
+  const total = (key: StatementSectionKey) => statement.sections.find(section => section.key === key)?.total || 0;
+  return {
+    asOfDate: statement.asOfDate,
+    balancePerBooks: statement.balancePerBooks,
+    chequesNotPresented: total('chequesNotPresented'),
+    depositsNotCredited: total('depositsNotCredited'),
+    bankDebitsNotInBooks: total('bankDebitsNotInBooks'),
+    bankCreditsNotInBooks: total('bankCreditsNotInBooks'),
+    balancePerBank: statement.balancePerBank,
+    statementBalance: statement.statementBalance,
+    difference: statement.difference,
+    items: statement.sections.reduce((sum, section) => sum + section.items.length, 0),
+  };
+}
+
+/**
+ * Month or quarter ends from one date to another, for the history of
+ * statements auditors ask for
+ */
+export function periodEndDates(fromDate: string, toDate: string, interval: 'month' | 'quarter' = 'quarter'): string[] {
+  const dates: string[] = [];
+  const [fromYear, fromMonth] = fromDate.split('-').map(Number);
+  let year = fromYear;
+  let month = fromMonth;
+
+  while (true) {
+    // Quarter ends fall in March, June, September and December
+    if (interval === 'month' || month % 3 === 0) {
+      const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      const date = `${year}-${String(month).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`;
+      if (date > toDate) break;
+      if (date >= fromDate) dates.push(date);
+    }
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+
+  return dates;
+}
+
+export interface StatementLineBalance {
+  date: string;
+  debit: number;
+  credit: number;
+  // Running balance the bank printed on the line
+  balance: number;
+}
+
+/**
+ * The closing balance of each statement day, latest day first. Banks list a
+ * day's lines oldest or newest first, so the closing line is found from the
+ * balances: it is the line no other line of the day carries on from, i.e.
+ * whose balance is not another line's balance before its own amount. If
+ * that leaves more than one, the one imported last is taken; lines are
+ * given in import order.
+ */
+export function dailyClosingBalances(lines: StatementLineBalance[]): { date: string; balance: number }[] {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const byDate = new Map<string, StatementLineBalance[]>();
+  for (const line of lines) {
+    byDate.set(line.date, [...(byDate.get(line.date) || []), line]);
+  }
+
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([date, dayLines]) => {
+      const closing = dayLines.filter(line => !dayLines.some(other =>
+        other !== line && round(other.balance - other.credit + other.debit) === round(line.balance)
+      ));
+      const candidates = closing.length > 0 ? closing : dayLines;
+      return { date, balance: candidates[candidates.length - 1].balance };
+    });
+}
@@ -0,0 +1,278 @@
+/**
+ * Bank Reconciliation Statement Data
+ *
+ * Loads a bank account's book entries and bank statement lines, and how
+ * they were matched, to build its reconciliation statement for one date or
+ * a series of dates. Cheques marked cleared in the cheque register count
+ * as reconciled on their clearing date.
+ */
+
+import { db } from '../../db';
+import {
+  bankAccounts,
+  bankFeedTransactions,
+  bankMatchGroups,
+  bankReconciliationLines,
+  bankReconciliations,
+  chartOfAccounts,
+  cheques,
+  expenses,
+  journalEntries,
+  journalEntryLines,
+  paymentsMade,
+  paymentsReceived,
+  type BankAccount,
+} from '../../../../shared/schema';
+import { eq, and, desc, lte, or, isNotNull } from 'drizzle-orm';
+import {
+  buildBankReconciliationStatement,
+  summarizeStatement,
+  dailyClosingBalances,
+  type BankEntry,
+  type BankReconciliationStatement,
+  type BookEntry,
+  type StatementLineBalance,
+  type StatementSummary,
+} from './reconciliationStatement';
+
+interface StatementHistory {
+  bankAccount: BankAccount;
+  openingBalance: number;
+  bookEntries: BookEntry[];
+  bankEntries: BankEntry[];
+  // Closing balances of completed reconciliation sessions, by statement date
+  sessionBalances: Map<string, number>;
+  // Closing balance of each statement day, latest first
+  lineBalances: { date: string; balance: number }[];
+}
+
+async function loadStatementHistory(
+  companyId: string,
+  bankAccountId: string,
+  toDate: string
+): Promise<StatementHistory | null> {
+  const [bankAccount] = await db.select()
+    .from(bankAccounts)
+    .where(and(eq(bankAccounts.id, bankAccountId), eq(bankAccounts.companyId, companyId)));
+  if (!bankAccount || !bankAccount.accountId) return null;
+  const ledgerAccountId = bankAccount.accountId;
+
+  const [ledger] = await db.select()
+    .from(chartOfAccounts)
+    .where(eq(chartOfAccounts.id, ledgerAccountId));
+  const configured = parseFloat(ledger?.openingBalance || '0');
+  const openingBalance = ledger?.openingBalanceType === 'credit' ? -configured : configured;
+
+  const lines = await db.select({
+    journalEntryId: journalEntries.id,
+    date: journalEntries.entryDate,
+    entryNumber: journalEntries.entryNumber,
+    narration: journalEntries.narration,
+    description: journalEntryLines.description,
+    debit: journalEntryLines.debitAmount,
+    credit: journalEntryLines.creditAmount,
+  })
+    .from(journalEntryLines)
+    .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+    .where(and(
+      eq(journalEntries.companyId, companyId),
+      eq(journalEntries.status, 'posted'),
+      eq(journalEntryLines.accountId, ledgerAccountId),
+      lte(journalEntries.entryDate, toDate)
+    ));
+
+  // One book entry per journal entry, however many bank lines it has
+  const byEntry = new Map<string, BookEntry>();
+  for (const line of lines) {
+    const entry = byEntry.get(line.journalEntryId) || {
+      journalEntryId: line.journalEntryId,
+      date: line.date,
+      entryNumber: line.entryNumber,
+      description: line.description || line.narration || 'Journal entry',
+      debit: 0,
+      credit: 0,
+      reconciledOn: null,
+    };
+    entry.debit += parseFloat(line.debit || '0');
+    entry.credit += parseFloat(line.credit || '0');
+    byEntry.set(line.journalEntryId, entry);
+  }
+
+  // Entries ticked off in this account's reconciliation sessions
+  const ticked = await db.select({
+    journalEntryId: bankReconciliationLines.journalEntryId,
+    statementDate: bankReconciliations.statementDate,
+  })
+    .from(bankReconciliationLines)
+    .innerJoin(bankReconciliations, eq(bankReconciliationLines.reconciliationId, bankReconciliations.id))
+    .where(and(
+      eq(bankReconciliations.companyId, companyId),
+      eq(bankReconciliations.bankAccountId, bankAccount.id),
+      eq(bankReconciliationLines.isReconciled, true),
+      isNotNull(bankReconciliationLines.journalEntryId)
+    ));
+  for (const line of ticked) {
+    const entry = byEntry.get(line.journalEntryId!);
+    if (entry && (!entry.reconciledOn || line.statementDate < entry.reconciledOn)) {
+      entry.reconciledOn = line.statementDate;
+    }
+  }
+
+  // Cheques in the register name their book entries; cleared ones count as
+  // reconciled, and one that bounced or was cancelled never moved the bank,
+  // so its payment and the reversal both drop out on that date
+  const registered = await db.select({
+    cheque: cheques,
+    paymentReceivedEntryId: paymentsReceived.journalEntryId,
+    paymentMadeEntryId: paymentsMade.journalEntryId,
+  })
+    .from(cheques)
+    .leftJoin(paymentsReceived, eq(cheques.paymentReceivedId, paymentsReceived.id))
+    .leftJoin(paymentsMade, eq(cheques.paymentMadeId, paymentsMade.id))
+    .where(and(
+      eq(cheques.companyId, companyId),
+      eq(cheques.bankAccountId, bankAccount.id)
+    ));
+  for (const row of registered) {
+    const { cheque } = row;
+    const paymentEntry = byEntry.get(row.paymentReceivedEntryId || row.paymentMadeEntryId || '');
+    if (paymentEntry) {
+      paymentEntry.description = `Cheque ${cheque.chequeNumber} - ${paymentEntry.description}`;
+    }
+
+    const settledOn = cheque.clearedDate || cheque.bouncedDate || cheque.cancelledDate;
+    if (!settledOn) continue;
+    const reversal = cheque.reversalJournalEntryId ? byEntry.get(cheque.reversalJournalEntryId) : undefined;
+    for (const entry of [paymentEntry, cheque.status === 'cleared' ? undefined : reversal]) {
+      if (entry && (!entry.reconciledOn || settledOn < entry.reconciledOn)) {
+        entry.reconciledOn = settledOn;
+      }
+    }
+  }
+
+  // Feed lines may carry the bank account or its ledger account
+  const feed = await db.select({
+    transaction: bankFeedTransactions,
+    paymentReceivedEntryId: paymentsReceived.journalEntryId,
+    paymentMadeEntryId: paymentsMade.journalEntryId,
+    expenseEntryId: expenses.journalEntryId,
+    matchGroupEntryId: bankMatchGroups.journalEntryId,
+  })
+    .from(bankFeedTransactions)
+    .leftJoin(paymentsReceived, eq(bankFeedTransactions.matchedPaymentReceivedId, paymentsReceived.id))
+    .leftJoin(paymentsMade, eq(bankFeedTransactions.matchedPaymentMadeId, paymentsMade.id))
+    .leftJoin(expenses, eq(bankFeedTransactions.matchedExpenseId, expenses.id))
+    .leftJoin(bankMatchGroups, eq(bankFeedTransactions.matchGroupId, bankMatchGroups.id))
+    .where(and(
+      eq(bankFeedTransactions.companyId, companyId),
+      or(
+        eq(bankFeedTransactions.bankAccountId, bankAccount.id),
+        eq(bankFeedTransactions.bankAccountId, ledgerAccountId)
+      ),
+      lte(bankFeedTransactions.transactionDate, toDate)
+    ))
+    .orderBy(desc(bankFeedTransactions.transactionDate), desc(bankFeedTransactions.createdAt));
+
+  const bankEntries: BankEntry[] = [];
+  const statementLines: StatementLineBalance[] = [];
+  for (const row of feed) {
+    const txn = row.transaction;
+    if (txn.isDuplicate) continue;
+
+    bankEntries.push({
+      id: txn.id,
+      date: txn.transactionDate,
+      description: txn.description,
+      reference: txn.referenceNumber,
+      debit: parseFloat(txn.debitAmount || '0'),
+      credit: parseFloat(txn.creditAmount || '0'),
+      journalEntryIds: [
+        txn.matchedJournalEntryId,
+        row.paymentReceivedEntryId,
+        row.paymentMadeEntryId,
+        row.expenseEntryId,
+        row.matchGroupEntryId,
+      ].filter((id): id is string => !!id),
+    });
+
+    if (txn.runningBalance !== null && txn.runningBalance !== undefined) {
+      statementLines.push({
+        date: txn.transactionDate,
+        debit: parseFloat(txn.debitAmount || '0'),
+        credit: parseFloat(txn.creditAmount || '0'),
+        balance: parseFloat(txn.runningBalance),
+      });
+    }
+  }
+
+  const sessions = await db.select({
+    statementDate: bankReconciliations.statementDate,
+    closingBalance: bankReconciliations.closingBalance,
+  })
+    .from(bankReconciliations)
+    .where(and(
+      eq(bankReconciliations.companyId, companyId),
+      eq(bankReconciliations.bankAccountId, bankAccount.id),
+      eq(bankReconciliations.status, 'completed')
+    ));
+
+  return {
+    bankAccount,
+    openingBalance,
+    bookEntries: Array.from(byEntry.values()),
+    bankEntries,
+    sessionBalances: new Map(sessions.map(session => [session.statementDate, parseFloat(session.closingBalance || '0')])),
+    // The lines were loaded latest imported first
+    lineBalances: dailyClosingBalances(statementLines.reverse()),
+  };
+}
+
+// The bank's balance on a date: a session for that date, else the last
+// statement line on or before it
+function reportedBalanceOn(history: StatementHistory, date: string): number | null {
+  const session = history.sessionBalances.get(date);
+  if (session !== undefined) return session;
+
+  const latest = history.lineBalances.find(line => line.date <= date);
+  return latest ? latest.balance : null;
+}
+
+export async function getBankReconciliationStatement(
+  companyId: string,
+  bankAccountId: string,
+  asOfDate: string,
+  statementBalance?: number | null
+): Promise<{ bankAccount: BankAccount; statement: BankReconciliationStatement } | null> {
+  const history = await loadStatementHistory(companyId, bankAccountId, asOfDate);
+  if (!history) return null;
+
+  const reported = statementBalance ?? reportedBalanceOn(history, asOfDate);
+  return {
+    bankAccount: history.bankAccount,
+    statement: buildBankReconciliationStatement(asOfDate, history.openingBalance, history.bookEntries, history.bankEntries, reported),
+  };
+}
+
+/**
+ * Statement totals for each date, oldest first
+ */
+export async function getBankReconciliationHistory(
+  companyId: string,
+  bankAccountId: string,
+  dates: string[]
+): Promise<{ bankAccount: BankAccount; history: StatementSummary[] } | null> {
+  const sorted = [...dates].sort();
+  const history = await loadStatementHistory(companyId, bankAccountId, sorted[sorted.length - 1] || '');
+  if (!history) return null;
+
+  return {
+    bankAccount: history.bankAccount,
+    history: sorted.map(date => summarizeStatement(buildBankReconciliationStatement(
+      date,
+      history.openingBalance,
+      history.bookEntries,
+      history.bankEntries,
+      reportedBalanceOn(history, date)
+    ))),
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * CAMT.053 Statements
+ *
+ * Reads ISO 20022 bank-to-customer statements (camt.053). The XML is read
+ * into a small element tree with namespace prefixes dropped, which is all
+ * the statement structure needs.
+ */
+
+import type { ParsedStatement, StatementTransaction } from './types';
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const tokens = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[?!][^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+
+  for (const token of Array.from(xml.matchAll(tokens))) {
+    const [, cdata, closing, opening, attributeText, selfClosing, text] = token;
+    const parent = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      parent.text += cdata;
+    } else if (text !== undefined) {
+      parent.text += decodeEntities(text);
+    } else if (closing !== undefined) {
+      if (stack.length > 1 && stack[stack.length - 1].name === localName(closing)) stack.pop();
+    } else if (opening !== undefined) {
+      const attributes: Record<string, string> = {};
+      for (const [, name, value] of Array.from((attributeText || '').matchAll(/([^\s=]+)\s*=\s*["']([^"']*)["']/g))) {
+        attributes[localName(name)] = decodeEntities(value);
+      }
+      const element: XmlElement = { name: localName(opening), attributes, children: [], text: '' };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+function child(element: XmlElement | undefined, ...path: string[]): XmlElement | undefined {
+  let current = element;
+  for (const name of path) {
+    current = current?.children.find(candidate => candidate.name === name);
+  }
+  return current;
+}
+
+function children(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element?.children.filter(candidate => candidate.name === name) || [];
+}
+
+function descendants(element: XmlElement, name: string): XmlElement[] {
+  return element.children.flatMap(candidate =>
+    candidate.name === name ? [candidate] : descendants(candidate, name)
+  );
+}
+
+function textOf(element: XmlElement | undefined, ...path: string[]): string | undefined {
+  const value = child(element, ...path)?.text.trim();
+  return value || undefined;
+}
+
+// Dates are given as <Dt>2024-04-01</Dt> or <DtTm>2024-04-01T10:00:00</DtTm>
+function camtDate(element: XmlElement | undefined): string | undefined {
+  return (textOf(element, 'Dt') || textOf(element, 'DtTm'))?.slice(0, 10);
+}
+
+function signedAmount(element: XmlElement): number | null {
+  const amount = parseFloat(textOf(element, 'Amt') || '');
+  if (isNaN(amount)) return null;
+  const rounded = Math.round(amount * 100) / 100;
+  return textOf(element, 'CdtDbtInd') === 'DBIT' ? -rounded : rounded;
+}
+
+function partyName(details: XmlElement | undefined, isDebit: boolean): string | undefined {
+  const parties = child(details, 'RltdPties');
+  // The other side is the creditor of a payment out and the debtor of money in
+  const party = isDebit ? child(parties, 'Cdtr') : child(parties, 'Dbtr');
+  return textOf(party, 'Nm') || textOf(party, 'Pty', 'Nm');
+}
+
+function entryTransaction(entry: XmlElement): StatementTransaction | null {
+  const amount = signedAmount(entry);
+  const date = camtDate(child(entry, 'BookgDt')) || camtDate(child(entry, 'ValDt'));
+  if (!amount || !date) return null;
+
+  // A reversal undoes an earlier entry, so money moves the other way
+  const isDebit = textOf(entry, 'RvslInd') === 'true' ? amount > 0 : amount < 0;
+  const details = child(entry, 'NtryDtls', 'TxDtls');
+  const remittance = children(child(details, 'RmtInf'), 'Ustrd').map(element => element.text.trim());
+  const description = [
+    partyName(details, isDebit),
+    ...remittance,
+    remittance.length === 0 ? textOf(entry, 'AddtlNtryInf') || textOf(details, 'AddtlTxInf') : undefined,
+  ].filter(Boolean).join(' - ');
+
+  const valueDate = camtDate(child(entry, 'ValDt'));
+  const endToEndId = textOf(details, 'Refs', 'EndToEndId');
+  return {
+    date,
+    valueDate: valueDate !== date ? valueDate : undefined,
+    description: description || 'Transaction',
+    reference: (endToEndId !== 'NOTPROVIDED' ? endToEndId : undefined)
+      || textOf(entry, 'AcctSvcrRef')
+      || textOf(details, 'Refs', 'AcctSvcrRef'),
+    debit: isDebit ? Math.abs(amount) : undefined,
+    credit: isDebit ? undefined : Math.abs(amount),
+  };
+}
+
+export function isCamt053(text: string): boolean {
+  const head = text.slice(0, 3000);
+  return /camt\.053/i.test(head) || /<(\w+:)?BkToCstmrStmt[\s>]/.test(head);
+}
+
+export function parseCamt053(text: string): ParsedStatement {
+  const statements = descendants(parseXml(text), 'Stmt');
+  if (statements.length === 0) {
+    throw new Error('The file has no CAMT.053 statement');
+  }
+
+  const first = statements[0];
+  const account = child(first, 'Acct');
+  const result: ParsedStatement = {
+    format: 'camt053',
+    bank: textOf(account, 'Svcr', 'FinInstnId', 'Nm'),
+    accountNumber: textOf(account, 'Id', 'IBAN') || textOf(account, 'Id', 'Othr', 'Id'),
+    currency: textOf(account, 'Ccy'),
+    transactions: [],
+  };
+
+  for (const statement of statements) {
+    for (const balance of children(statement, 'Bal')) {
+      const code = textOf(balance, 'Tp', 'CdOrPrtry', 'Cd');
+      const amount = signedAmount(balance);
+      if (amount === null) continue;
+      if ((code === 'OPBD' || code === 'PRCD') && result.openingBalance === undefined) result.openingBalance = amount;
+      if (code === 'CLBD') result.closingBalance = amount;
+    }
+
+    for (const entry of children(statement, 'Ntry')) {
+      const transaction = entryTransaction(entry);
+      if (transaction) result.transactions.push(transaction);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,112 @@
+/**
+ * Delimited Statements
+ *
+ * Splits CSV, tab-, pipe- and semicolon-separated statements into rows,
+ * and text copied out of a PDF statement into columns wherever two or more
+ * spaces separate them.
+ */
+
+const DELIMITERS = [',', '\t', '|', ';'];
+
+function splitLine(line: string, delimiter: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current.trim());
+
+  return values;
+}
+
+function textLines(text: string): string[] {
+  return text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+}
+
+/**
+ * The delimiter that splits most of the first lines into three or more
+ * columns, or null when none does
+ */
+export function detectDelimiter(text: string): string | null {
+  const sample = textLines(text).slice(0, 50);
+  let best: { delimiter: string; lines: number } | null = null;
+
+  for (const delimiter of DELIMITERS) {
+    const lines = sample.filter(line => splitLine(line, delimiter).length >= 3).length;
+    if (lines > 0 && (!best || lines > best.lines)) best = { delimiter, lines };
+  }
+  return best && best.lines >= Math.min(2, sample.length) ? best.delimiter : null;
+}
+
+export function splitDelimited(text: string, delimiter: string): string[][] {
+  return textLines(text).map(line => splitLine(line, delimiter));
+}
+
+const splitTextLine = (line: string) => line.trim().split(/\t+|\s{2,}/).map(value => value.trim());
+
+/**
+ * Columns of text laid out with spaces, as copied from a PDF statement
+ */
+export function splitTextColumns(text: string): string[][] {
+  return textLines(text).map(splitTextLine);
+}
+
+interface TextChunk {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Runs of words separated by single spaces, with their positions
+function textChunks(line: string): TextChunk[] {
+  return Array.from(line.matchAll(/\S+(?: \S+)*/g)).map(match => ({
+    text: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+/**
+ * Columns of PDF text placed under the heading they line up with. Blank
+ * cells, such as the debit of a deposit, leave no gap in the text, so the
+ * lines after the heading row are split by position rather than by spaces.
+ */
+export function alignTextColumns(text: string, headerIndex: number): string[][] {
+  const lines = textLines(text);
+  const headerLine = lines[headerIndex];
+  if (!headerLine || headerLine.includes('\t')) return lines.map(splitTextLine);
+
+  const headings = textChunks(headerLine);
+  const distance = (chunk: TextChunk, heading: TextChunk) =>
+    Math.max(heading.start, chunk.start) - Math.min(heading.end, chunk.end);
+
+  return lines.map((line, index) => {
+    if (index <= headerIndex || line.includes('\t')) return splitTextLine(line);
+
+    const row = headings.map(() => '');
+    for (const chunk of textChunks(line)) {
+      // The heading overlapping the chunk most, or else the nearest one
+      let column = 0;
+      headings.forEach((heading, i) => {
+        if (distance(chunk, heading) < distance(chunk, headings[column])) column = i;
+      });
+      row[column] = row[column] ? `${row[column]} ${chunk.text}` : chunk.text;
+    }
+    return row;
+  });
+}
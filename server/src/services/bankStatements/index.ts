@@ -0,0 +1,15 @@
+/**
+ * Bank Statements Service
+ *
+ * Main export for reading bank statements in every supported format
+ */
+
+export * from './types';
+export * from './values';
+export * from './delimited';
+export * from './tabular';
+export * from './ofx';
+export * from './mt940';
+export * from './camt053';
+export * from './spreadsheet';
+export * from './registry';
@@ -0,0 +1,111 @@
+/**
+ * MT940 Statements
+ *
+ * Reads SWIFT MT940 customer statements. Each :61: statement line carries
+ * the dates, the debit/credit mark and the amount; the :86: line after it
+ * holds the narration.
+ */
+
+import type { ParsedStatement, StatementTransaction } from './types';
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+// :61:YYMMDD[MMDD](R)C|D[funds code]amount type+code[reference][//bank reference]
+const STATEMENT_LINE = /^(\d{6})(\d{4})?(R?[CD])([A-Z])?([\d,]+)([A-Z][A-Z0-9]{3})([^/\r\n]*)(?:\/\/([^\r\n]*))?/;
+
+// :60F: and :62F: balances: C|D, YYMMDD, currency, amount
+const BALANCE = /^([CD])(\d{6})([A-Z]{3})([\d,]+)/;
+
+function fields(text: string): Mt940Field[] {
+  const result: Mt940Field[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const tag = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tag) {
+      result.push({ tag: tag[1], value: tag[2] });
+    } else if (result.length > 0 && line.trim() && !/^-?\}?$/.test(line.trim())) {
+      result[result.length - 1].value += `\n${line}`;
+    }
+  }
+  return result;
+}
+
+function mt940Date(value: string): string {
+  return `20${value.slice(0, 2)}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+}
+
+function mt940Amount(value: string): number {
+  return Math.round(parseFloat(value.replace(',', '.')) * 100) / 100;
+}
+
+function balance(value: string): { amount: number; currency: string } | null {
+  const match = value.match(BALANCE);
+  if (!match) return null;
+  const amount = mt940Amount(match[4]);
+  return { amount: match[1] === 'D' ? -amount : amount, currency: match[3] };
+}
+
+// Narrations split into ?20, ?21 ... subfields (German banks) are joined
+// back; line breaks inside a subfield fall mid-word
+function narration(value: string): string {
+  if (/^\d{3}\?\d{2}/.test(value)) {
+    return value.replace(/\r?\n/g, '').split(/\?\d{2}/).slice(1).map(part => part.trim()).filter(Boolean).join(' ');
+  }
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+export function isMt940(text: string): boolean {
+  return /^:20:/m.test(text) && /^:61:/m.test(text);
+}
+
+export function parseMt940(text: string): ParsedStatement {
+  const statement: ParsedStatement = { format: 'mt940', transactions: [] };
+  let current: StatementTransaction | null = null;
+
+  for (const { tag, value } of fields(text)) {
+    if (tag === '25') {
+      statement.accountNumber = statement.accountNumber || value.trim();
+    } else if (tag === '60F' || tag === '60M') {
+      const opening = balance(value);
+      if (opening && statement.openingBalance === undefined) {
+        statement.openingBalance = opening.amount;
+        statement.currency = opening.currency;
+      }
+    } else if (tag === '62F' || tag === '62M') {
+      const closing = balance(value);
+      if (closing) statement.closingBalance = closing.amount;
+    } else if (tag === '61') {
+      const match = value.match(STATEMENT_LINE);
+      current = null;
+      if (!match) continue;
+
+      // The value date comes first; the booking (entry) date is optional
+      const valueDate = mt940Date(match[1]);
+      const date = match[2] ? `${valueDate.slice(0, 4)}-${match[2].slice(0, 2)}-${match[2].slice(2, 4)}` : valueDate;
+      const amount = mt940Amount(match[5]);
+      // A reversal (RC/RD) moves money the opposite way to its mark
+      const isDebit = match[3] === 'D' || match[3] === 'RC';
+      const reference = match[7].trim() !== 'NONREF' && match[7].trim() ? match[7].trim() : match[8]?.trim();
+
+      current = {
+        date,
+        valueDate: valueDate !== date ? valueDate : undefined,
+        description: '',
+        reference: reference || undefined,
+        debit: isDebit ? amount : undefined,
+        credit: isDebit ? undefined : amount,
+      };
+      statement.transactions.push(current);
+    } else if (tag === '86' && current) {
+      current.description = narration(value);
+    }
+  }
+
+  for (const transaction of statement.transactions) {
+    if (!transaction.description) transaction.description = transaction.reference || 'Transaction';
+  }
+
+  return statement;
+}
@@ -0,0 +1,73 @@
+/**
+ * OFX Statements
+ *
+ * Reads OFX and Quicken QFX downloads, both the SGML form of OFX 1.x where
+ * elements are left unclosed and the XML form of OFX 2.x.
+ */
+
+import type { ParsedStatement, StatementTransaction } from './types';
+
+function field(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// OFX dates are YYYYMMDD, optionally followed by the time and zone
+function ofxDate(value: string | undefined): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function ofxAmount(value: string | undefined): number | null {
+  if (!value) return null;
+  const amount = parseFloat(value.replace(',', '.'));
+  return isNaN(amount) ? null : Math.round(amount * 100) / 100;
+}
+
+export function isOfx(text: string): boolean {
+  return /OFXHEADER|<OFX>/i.test(text.slice(0, 2000));
+}
+
+export function parseOfx(text: string): ParsedStatement {
+  const transactions: StatementTransaction[] = [];
+
+  for (const [, block] of Array.from(text.matchAll(/<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi))) {
+    const date = ofxDate(field(block, 'DTPOSTED'));
+    const amount = ofxAmount(field(block, 'TRNAMT'));
+    if (!date || !amount) continue;
+
+    const name = field(block, 'NAME');
+    const memo = field(block, 'MEMO');
+    const description = [name, memo && memo !== name ? memo : undefined].filter(Boolean).join(' - ');
+
+    transactions.push({
+      date,
+      valueDate: ofxDate(field(block, 'DTAVAIL')) || undefined,
+      description: description || field(block, 'TRNTYPE') || 'Transaction',
+      reference: field(block, 'CHECKNUM') || field(block, 'REFNUM') || field(block, 'FITID'),
+      debit: amount < 0 ? -amount : undefined,
+      credit: amount > 0 ? amount : undefined,
+    });
+  }
+
+  const ledgerBalance = text.match(/<LEDGERBAL>([\s\S]*?)(?=<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>)/i)?.[1];
+
+  return {
+    format: 'ofx',
+    bank: field(text, 'ORG'),
+    accountNumber: field(text, 'ACCTID'),
+    currency: field(text, 'CURDEF'),
+    closingBalance: ofxAmount(ledgerBalance && field(ledgerBalance, 'BALAMT')) ?? undefined,
+    transactions,
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Statement Parser Registry
+ *
+ * Every statement format is read by a parser registered here. An upload is
+ * given to the parser the user picked, or else to the first parser that
+ * recognises the file's extension or content. Bank import and bank feeds
+ * both read statements through parseStatement.
+ */
+
+import { detectDelimiter, splitDelimited, splitTextColumns, alignTextColumns } from './delimited';
+import { tabularStatement, detectHeader } from './tabular';
+import { isOfx, parseOfx } from './ofx';
+import { isMt940, parseMt940 } from './mt940';
+import { isCamt053, parseCamt053 } from './camt053';
+import { isWorkbook, isHtmlTable, workbookSheets, htmlTableRows } from './spreadsheet';
+import type { ParsedStatement, StatementFormat, StatementInput, StatementParser } from './types';
+
+const parsers: StatementParser[] = [];
+
+/**
+ * Adds a parser, replacing any registered for the same format. Parsers are
+ * tried for detection in the order they were registered.
+ */
+export function registerStatementParser(parser: StatementParser): void {
+  const index = parsers.findIndex(existing => existing.format === parser.format);
+  if (index >= 0) {
+    parsers[index] = parser;
+  } else {
+    parsers.push(parser);
+  }
+}
+
+export function getStatementParsers(): StatementParser[] {
+  return [...parsers];
+}
+
+export function getStatementParser(format: string): StatementParser | undefined {
+  return parsers.find(parser => parser.format === format);
+}
+
+// Tables are read from the first worksheet, or HTML table, with column headings
+async function spreadsheetStatement(input: StatementInput): Promise<ParsedStatement> {
+  const sheets = isWorkbook(input.buffer) ? await workbookSheets(input.buffer) : [htmlTableRows(input.text)];
+  const rows = sheets.find(sheet => detectHeader(sheet)) || sheets[0] || [];
+  return tabularStatement(rows, 'xlsx');
+}
+
+// PDF text is split on spaces to find the heading row, then by position
+function textStatement(input: StatementInput): ParsedStatement {
+  const header = detectHeader(splitTextColumns(input.text));
+  const rows = header ? alignTextColumns(input.text, header.rowIndex) : splitTextColumns(input.text);
+  return tabularStatement(rows, 'text');
+}
+
+registerStatementParser({
+  format: 'ofx',
+  label: 'OFX / QFX',
+  extensions: ['.ofx', '.qfx'],
+  detect: input => isOfx(input.text),
+  parse: input => parseOfx(input.text),
+});
+
+registerStatementParser({
+  format: 'camt053',
+  label: 'ISO 20022 CAMT.053',
+  extensions: ['.xml'],
+  detect: input => isCamt053(input.text),
+  parse: input => parseCamt053(input.text),
+});
+
+registerStatementParser({
+  format: 'mt940',
+  label: 'SWIFT MT940',
+  extensions: ['.sta', '.mt940', '.940'],
+  detect: input => isMt940(input.text),
+  parse: input => parseMt940(input.text),
+});
+
+registerStatementParser({
+  format: 'xlsx',
+  label: 'Excel (XLS / XLSX)',
+  extensions: ['.xlsx', '.xls'],
+  detect: input => isWorkbook(input.buffer) || isHtmlTable(input.text),
+  parse: spreadsheetStatement,
+});
+
+registerStatementParser({
+  format: 'csv',
+  label: 'CSV',
+  extensions: ['.csv', '.tsv'],
+  detect: input => {
+    // Amounts like 1,25,000.00 split PDF text on commas too, so the
+    // column headings must also be found
+    const delimiter = detectDelimiter(input.text);
+    return delimiter !== null && detectHeader(splitDelimited(input.text, delimiter)) !== null;
+  },
+  parse: input => tabularStatement(splitDelimited(input.text, detectDelimiter(input.text) || ','), 'csv'),
+});
+
+// Text copied out of a PDF statement; tried last as it accepts any text.
+// It claims no extension, since .txt downloads are often delimited.
+registerStatementParser({
+  format: 'text',
+  label: 'PDF text',
+  extensions: [],
+  detect: () => true,
+  parse: textStatement,
+});
+
+export interface ParseStatementOptions {
+  // A registered format, or 'auto' to detect it
+  format?: string;
+  // How the content is encoded; binary files such as workbooks come as base64
+  encoding?: 'utf8' | 'base64';
+  fileName?: string;
+}
+
+function extensionOf(fileName: string | undefined): string | null {
+  const match = fileName?.toLowerCase().match(/\.[a-z0-9]+$/);
+  return match ? match[0] : null;
+}
+
+function pickParser(input: StatementInput, format: string | undefined): StatementParser | string {
+  if (format && format !== 'auto') {
+    return getStatementParser(format)
+      || `Unsupported format. Use one of: ${parsers.map(parser => parser.format).join(', ')}`;
+  }
+
+  const extension = extensionOf(input.fileName);
+  const byExtension = extension ? parsers.find(parser => parser.extensions.includes(extension)) : undefined;
+  // The extension is only trusted when the content agrees, as banks label
+  // HTML and CSV downloads as .xls
+  if (byExtension && byExtension.detect(input)) return byExtension;
+
+  return parsers.find(parser => parser.detect(input)) || 'The statement format could not be recognised';
+}
+
+/**
+ * Reads an uploaded statement into transactions
+ */
+export async function parseStatement(
+  content: string,
+  options: ParseStatementOptions = {}
+): Promise<{ error: string } | { statement: ParsedStatement }> {
+  const buffer = Buffer.from(content, options.encoding === 'base64' ? 'base64' : 'utf8');
+  const input: StatementInput = {
+    text: buffer.toString('utf8'),
+    buffer,
+    fileName: options.fileName,
+  };
+
+  const parser = pickParser(input, options.format);
+  if (typeof parser === 'string') return { error: parser };
+
+  try {
+    const statement = await parser.parse(input);
+    if (statement.transactions.length === 0) {
+      return { error: 'No transactions found in the statement' };
+    }
+    return { statement };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'The statement could not be read' };
+  }
+}
+
+/**
+ * Formats a user can pick from, in detection order
+ */
+export function statementFormats(): { format: StatementFormat; label: string; extensions: string[] }[] {
+  return parsers.map(({ format, label, extensions }) => ({ format, label, extensions }));
+}
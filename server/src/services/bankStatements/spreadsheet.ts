@@ -0,0 +1,85 @@
+/**
+ * Spreadsheet Statements
+ *
+ * Reads Excel statements. Besides .xlsx workbooks, several Indian banks
+ * download "XLS" statements that are really HTML tables, which are read
+ * as well. Legacy binary .xls workbooks cannot be read.
+ */
+
+import ExcelJS from 'exceljs';
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0];
+
+const startsWith = (buffer: Buffer, signature: number[]) =>
+  signature.every((byte, index) => buffer[index] === byte);
+
+export function isWorkbook(buffer: Buffer): boolean {
+  return startsWith(buffer, ZIP_SIGNATURE) || startsWith(buffer, OLE_SIGNATURE);
+}
+
+export function isHtmlTable(text: string): boolean {
+  return /<table[\s>]/i.test(text.slice(0, 20000));
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'number') return value.toString();
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if ('richText' in value) return value.richText.map(part => part.text).join('').trim();
+  if ('text' in value) return String(value.text).trim();
+  if ('result' in value) return cellText(value.result as ExcelJS.CellValue);
+  return '';
+}
+
+/**
+ * Rows of each worksheet in the workbook, in sheet order
+ */
+export async function workbookSheets(buffer: Buffer): Promise<string[][][]> {
+  if (startsWith(buffer, OLE_SIGNATURE)) {
+    throw new Error('Old .xls workbooks cannot be read; save the statement as .xlsx or CSV and upload it again');
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+  return workbook.worksheets.map(sheet => {
+    const rows: string[][] = [];
+    sheet.eachRow({ includeEmpty: false }, row => {
+      const values: string[] = [];
+      for (let column = 1; column <= row.cellCount; column++) {
+        values.push(cellText(row.getCell(column).value));
+      }
+      rows.push(values);
+    });
+    return rows;
+  });
+}
+
+function decodeHtml(value: string): string {
+  return value
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Rows of every HTML table in the document, one table after another
+ */
+export function htmlTableRows(html: string): string[][] {
+  const rows: string[][] = [];
+  for (const [, row] of Array.from(html.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi))) {
+    const cells = Array.from(row.matchAll(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi)).map(([, value]) => decodeHtml(value));
+    if (cells.length > 0) rows.push(cells);
+  }
+  return rows;
+}
@@ -0,0 +1,256 @@
+/**
+ * Tabular Statements
+ *
+ * Reads statements laid out as rows and columns (CSV, Excel, PDF text).
+ * The heading row is found automatically below any account details at the
+ * top, first against the layouts of the major Indian banks and then by
+ * common heading words. Rows without a valid date, such as separators and
+ * the summary at the end, are skipped.
+ */
+
+import { normalizeHeader, parseStatementAmount, parseStatementDate } from './values';
+import type { ParsedStatement, StatementFormat, StatementTransaction } from './types';
+
+type ColumnField = 'date' | 'valueDate' | 'description' | 'reference' | 'debit' | 'credit' | 'amount' | 'drCr' | 'balance';
+
+export type ColumnMap = Partial<Record<ColumnField, number>>;
+
+export interface BankLayout {
+  bank: string;
+  // Normalized headings that together identify the bank's layout
+  signature: string[];
+  // Normalized headings of each column
+  columns: Partial<Record<ColumnField, string[]>>;
+}
+
+export interface DetectedHeader {
+  rowIndex: number;
+  bank: string | null;
+  columns: ColumnMap;
+}
+
+// Only the first rows are searched for the heading row
+const HEADER_SEARCH_ROWS = 40;
+
+export const BANK_LAYOUTS: BankLayout[] = [
+  {
+    bank: 'HDFC Bank',
+    signature: ['narration', 'withdrawalamt', 'depositamt', 'closingbalance'],
+    columns: {
+      date: ['date'],
+      valueDate: ['valuedt', 'valuedate'],
+      description: ['narration'],
+      reference: ['chqrefno'],
+      debit: ['withdrawalamt'],
+      credit: ['depositamt'],
+      balance: ['closingbalance'],
+    },
+  },
+  {
+    bank: 'ICICI Bank',
+    signature: ['transactionremarks', 'withdrawalamountinr', 'depositamountinr'],
+    columns: {
+      date: ['transactiondate'],
+      valueDate: ['valuedate'],
+      description: ['transactionremarks'],
+      reference: ['chequenumber'],
+      debit: ['withdrawalamountinr'],
+      credit: ['depositamountinr'],
+      balance: ['balanceinr'],
+    },
+  },
+  {
+    bank: 'State Bank of India',
+    signature: ['txndate', 'refnochequeno'],
+    columns: {
+      date: ['txndate'],
+      valueDate: ['valuedate'],
+      description: ['description'],
+      reference: ['refnochequeno'],
+      debit: ['debit'],
+      credit: ['credit'],
+      balance: ['balance'],
+    },
+  },
+  {
+    bank: 'Axis Bank',
+    signature: ['trandate', 'chqno', 'particulars'],
+    columns: {
+      date: ['trandate'],
+      valueDate: ['valuedate'],
+      description: ['particulars'],
+      reference: ['chqno'],
+      debit: ['dr', 'debit'],
+      credit: ['cr', 'credit'],
+      balance: ['bal', 'balance'],
+    },
+  },
+  {
+    bank: 'Kotak Mahindra Bank',
+    signature: ['slno', 'description', 'drcr'],
+    columns: {
+      date: ['transactiondate', 'date'],
+      valueDate: ['valuedate'],
+      description: ['description'],
+      reference: ['chqrefnumber', 'chqrefno'],
+      debit: ['debit', 'withdrawal'],
+      credit: ['credit', 'deposit'],
+      amount: ['amount'],
+      drCr: ['drcr'],
+      balance: ['balance'],
+    },
+  },
+];
+
+// Heading words of banks without a layout of their own
+const GENERIC_COLUMNS: Record<ColumnField, (header: string) => boolean> = {
+  valueDate: h => h.includes('valuedate') || h.includes('valuedt'),
+  date: h => h.includes('date') && !h.includes('value'),
+  description: h => ['description', 'narration', 'particular', 'remark', 'details'].some(word => h.includes(word)),
+  reference: h => ['ref', 'cheque', 'chq', 'instrument'].some(word => h.includes(word)),
+  debit: h => h.includes('withdrawal') || h.includes('debit') || h === 'dr',
+  credit: h => h.includes('deposit') || h.includes('credit') || h === 'cr',
+  drCr: h => h === 'drcr' || h === 'crdr',
+  amount: h => h.includes('amount'),
+  balance: h => h.includes('balance') || h === 'bal',
+};
+
+const FIELD_ORDER: ColumnField[] = ['valueDate', 'date', 'description', 'reference', 'debit', 'credit', 'drCr', 'amount', 'balance'];
+
+function hasAmountColumns(columns: ColumnMap): boolean {
+  return columns.debit !== undefined || columns.credit !== undefined || columns.amount !== undefined;
+}
+
+function layoutColumns(layout: BankLayout, headers: string[]): ColumnMap {
+  const columns: ColumnMap = {};
+  for (const field of FIELD_ORDER) {
+    const names = layout.columns[field];
+    if (!names) continue;
+    // The Dr/Cr of the amount comes right after it; a later one marks the balance
+    const from = field === 'drCr' && columns.amount !== undefined ? columns.amount + 1 : 0;
+    const index = headers.findIndex((header, i) => i >= from && names.includes(header));
+    if (index >= 0) columns[field] = index;
+  }
+  return columns;
+}
+
+function genericColumns(headers: string[]): ColumnMap {
+  const columns: ColumnMap = {};
+  const used = new Set<number>();
+  for (const field of FIELD_ORDER) {
+    if (field === 'amount' && (columns.debit !== undefined || columns.credit !== undefined)) continue;
+    const index = headers.findIndex((header, i) => !used.has(i) && GENERIC_COLUMNS[field](header));
+    if (index >= 0) {
+      columns[field] = index;
+      used.add(index);
+    }
+  }
+  return columns;
+}
+
+/**
+ * Finds the heading row and the column of each field
+ */
+export function detectHeader(rows: string[][]): DetectedHeader | null {
+  const searchRows = rows.slice(0, HEADER_SEARCH_ROWS);
+
+  for (let rowIndex = 0; rowIndex < searchRows.length; rowIndex++) {
+    const headers = searchRows[rowIndex].map(normalizeHeader);
+    const layout = BANK_LAYOUTS.find(candidate => candidate.signature.every(name => headers.includes(name)));
+    if (!layout) continue;
+
+    const columns = layoutColumns(layout, headers);
+    if (columns.date !== undefined && columns.description !== undefined && hasAmountColumns(columns)) {
+      return { rowIndex, bank: layout.bank, columns };
+    }
+  }
+
+  for (let rowIndex = 0; rowIndex < searchRows.length; rowIndex++) {
+    const columns = genericColumns(searchRows[rowIndex].map(normalizeHeader));
+    if (columns.date !== undefined && columns.description !== undefined && hasAmountColumns(columns)) {
+      return { rowIndex, bank: null, columns };
+    }
+  }
+
+  return null;
+}
+
+function cell(row: string[], index: number | undefined): string | undefined {
+  return index === undefined ? undefined : row[index]?.trim() || undefined;
+}
+
+function rowAmounts(row: string[], columns: ColumnMap): { debit?: number; credit?: number } {
+  if (columns.debit !== undefined || columns.credit !== undefined) {
+    const debit = parseStatementAmount(cell(row, columns.debit));
+    const credit = parseStatementAmount(cell(row, columns.credit));
+    return {
+      debit: debit ? Math.abs(debit) : undefined,
+      credit: credit ? Math.abs(credit) : undefined,
+    };
+  }
+
+  const amount = parseStatementAmount(cell(row, columns.amount));
+  if (!amount) return {};
+  const marker = normalizeHeader(cell(row, columns.drCr));
+  const isDebit = marker ? marker.startsWith('d') : amount < 0;
+  return isDebit ? { debit: Math.abs(amount) } : { credit: Math.abs(amount) };
+}
+
+/**
+ * Transactions of a statement read as rows. A row carrying only text
+ * continues the description of the transaction above it, as long
+ * narrations wrap onto the next line in PDF statements.
+ */
+export function tabularStatement(rows: string[][], format: StatementFormat): ParsedStatement {
+  const header = detectHeader(rows);
+  if (!header) {
+    throw new Error('Could not find the column headings (date, description and amounts) in the statement');
+  }
+
+  const { columns } = header;
+  const transactions: StatementTransaction[] = [];
+  let continuation: string[] = [];
+
+  // Wrapped narration lines belong to the transaction above them
+  const flushContinuation = () => {
+    if (continuation.length === 0) return;
+    const previous = transactions[transactions.length - 1];
+    previous.description = [previous.description, ...continuation].join(' ');
+    continuation = [];
+  };
+
+  for (const row of rows.slice(header.rowIndex + 1)) {
+    const date = parseStatementDate(cell(row, columns.date));
+    if (!date) {
+      // Only text carried in the narration column continues it; footers start elsewhere
+      const text = row.filter(value => value.trim());
+      if (
+        transactions.length > 0 && cell(row, columns.description) && text.length <= 2 &&
+        !text.some(value => parseStatementAmount(value) !== null)
+      ) {
+        continuation.push(...text);
+      }
+      continue;
+    }
+
+    flushContinuation();
+
+    const { debit, credit } = rowAmounts(row, columns);
+    const description = cell(row, columns.description);
+    if (!description || (!debit && !credit)) continue;
+
+    const balance = parseStatementAmount(cell(row, columns.balance));
+    transactions.push({
+      date,
+      valueDate: parseStatementDate(cell(row, columns.valueDate)) || undefined,
+      description,
+      reference: cell(row, columns.reference),
+      debit,
+      credit,
+      balance: balance ?? undefined,
+    });
+  }
+  flushContinuation();
+
+  return { format, bank: header.bank || undefined, transactions };
+}
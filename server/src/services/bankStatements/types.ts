@@ -0,0 +1,43 @@
+/**
+ * Bank Statement Types
+ */
+
+export type StatementFormat = 'csv' | 'ofx' | 'camt053' | 'mt940' | 'xlsx' | 'text';
+
+export interface StatementTransaction {
+  date: string;
+  valueDate?: string;
+  description: string;
+  reference?: string;
+  debit?: number;
+  credit?: number;
+  balance?: number;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  bank?: string;
+  accountNumber?: string;
+  currency?: string;
+  openingBalance?: number;
+  closingBalance?: number;
+  transactions: StatementTransaction[];
+}
+
+/**
+ * An uploaded statement, both as raw bytes and as text
+ */
+export interface StatementInput {
+  text: string;
+  buffer: Buffer;
+  fileName?: string;
+}
+
+export interface StatementParser {
+  format: StatementFormat;
+  label: string;
+  // File extensions, lowercase with the dot
+  extensions: string[];
+  detect(input: StatementInput): boolean;
+  parse(input: StatementInput): ParsedStatement | Promise<ParsedStatement>;
+}
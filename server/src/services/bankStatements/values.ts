@@ -0,0 +1,83 @@
+/**
+ * Statement Values
+ *
+ * Dates, amounts and column headings as banks write them. Indian banks put
+ * the day first (01/04/24, 01-Apr-2024, 1 Apr 2024), group digits with
+ * commas and mark balances with Dr/Cr.
+ */
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+function fullYear(year: string): number {
+  const value = parseInt(year, 10);
+  if (year.length === 4) return value;
+  return value < 80 ? 2000 + value : 1900 + value;
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * ISO date of a statement date, reading numeric dates day first, or null
+ */
+export function parseStatementDate(value: string | undefined): string | null {
+  const cleaned = (value || '').replace(/"/g, '').trim();
+  if (!cleaned) return null;
+
+  // 2024-04-01, 2024/04/01, optionally with a time
+  const iso = cleaned.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T\s].*)?$/);
+  if (iso) return isoDate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+
+  // 01/04/2024, 01-04-24, 01.04.2024
+  const numeric = cleaned.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})(?:\s.*)?$/);
+  if (numeric) return isoDate(fullYear(numeric[3]), parseInt(numeric[2], 10), parseInt(numeric[1], 10));
+
+  // 01-Apr-2024, 1 Apr 24, 01 April 2024
+  const named = cleaned.match(/^(\d{1,2})[-/\s]+([A-Za-z]{3,9})[-/\s,]+(\d{2}|\d{4})(?:\s.*)?$/);
+  if (named) {
+    const month = MONTHS[named[2].slice(0, 3).toLowerCase()];
+    return month ? isoDate(fullYear(named[3]), month, parseInt(named[1], 10)) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Signed amount: negative for a leading minus, brackets or a Dr marker
+ */
+export function parseStatementAmount(value: string | undefined): number | null {
+  let cleaned = (value || '').replace(/["₹$€£,\s]|INR/gi, '');
+  if (!cleaned || cleaned === '-') return null;
+
+  let sign = 1;
+  const marker = cleaned.match(/(Dr|Cr)\.?$/i) || cleaned.match(/^(Dr|Cr)\.?/i);
+  if (marker) {
+    if (marker[1].toLowerCase() === 'dr') sign = -1;
+    cleaned = cleaned.replace(marker[0], '');
+  }
+  const bracketed = cleaned.match(/^\((.+)\)$/);
+  if (bracketed) {
+    sign = -sign;
+    cleaned = bracketed[1];
+  }
+
+  if (!/^[-+]?\d*\.?\d+$/.test(cleaned)) return null;
+  return Math.round(sign * parseFloat(cleaned) * 100) / 100;
+}
+
+/**
+ * Column heading reduced to lowercase letters and digits, so that
+ * "Chq./Ref.No." and "Chq / Ref No" compare equal
+ */
+export function normalizeHeader(value: string | undefined): string {
+  return (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
@@ -19,6 +19,7 @@ import {
 } from '../../../../shared/schema';
 import { eq, and, lte, sql } from 'drizzle-orm';
 import { sendEmail } from '../email';
+import { allocateDocumentNumber } from '../numbering';
 
 interface TemplateData {
   lines: TemplateLineItem[];
@@ -82,14 +83,6 @@ export async function generateInvoiceFromRecurring(
     throw new Error('No active fiscal year found');
   }
 
-  // Generate invoice number
-  const invoiceCount = await db.select({ count: sql<number>`count(*)` })
-    .from(invoices)
-    .where(eq(invoices.fiscalYearId, fiscalYear.id));
-
-  const count = invoiceCount[0]?.count || 0;
-  const invoiceNumber = `INV/${fiscalYear.name.replace('FY ', '')}/${String(Number(count) + 1).padStart(4, '0')}`;
-
   const templateData = recurring.templateData as TemplateData;
   const today = new Date();
   const invoiceDate = today.toISOString().split('T')[0];
@@ -131,56 +124,60 @@ export async function generateInvoiceFromRecurring(
   const sgst = isInterState ? 0 : totalTax / 2;
   const igst = isInterState ? totalTax : 0;
 
-  // Create invoice
-  const [invoice] = await db.insert(invoices)
-    .values({
-      companyId,
-      fiscalYearId: fiscalYear.id,
-      invoiceNumber,
-      invoiceDate,
-      dueDate: dueDate.toISOString().split('T')[0],
-      customerId: recurring.customerId,
-      billingAddress: templateData.billingAddress || customer.address,
-      shippingAddress: templateData.shippingAddress,
-      subtotal: subtotal.toFixed(2),
-      discountAmount: discountAmount.toFixed(2),
-      taxAmount: totalTax.toFixed(2),
-      totalAmount: totalAmount.toFixed(2),
-      paidAmount: '0',
-      balanceDue: totalAmount.toFixed(2),
-      cgst: cgst.toFixed(2),
-      sgst: sgst.toFixed(2),
-      igst: igst.toFixed(2),
-      status: 'draft',
-      notes: templateData.notes,
-      terms: templateData.terms,
-      createdByUserId: recurring.createdByUserId
-    })
-    .returning();
-
-  // Create invoice lines
-  for (let i = 0; i < processedLines.length; i++) {
-    await db.insert(invoiceLines).values({
-      invoiceId: invoice.id,
-      ...processedLines[i],
-      sortOrder: i
-    });
-  }
-
-  // Update recurring invoice
-  const nextDate = calculateNextDate(new Date(recurring.nextGenerateDate || today), recurring.frequency);
-
-  await db.update(recurringInvoices)
-    .set({
-      lastGeneratedAt: new Date(),
-      totalGenerated: sql`${recurringInvoices.totalGenerated} + 1`,
-      totalAmount: sql`${recurringInvoices.totalAmount} + ${totalAmount}`,
-      nextGenerateDate: nextDate.toISOString().split('T')[0],
-      updatedAt: new Date()
-    })
-    .where(eq(recurringInvoices.id, recurringInvoiceId));
+  // Create the invoice and move the schedule on in a transaction
+  return db.transaction(async (tx) => {
+    const invoiceNumber = await allocateDocumentNumber(tx, companyId, 'invoice', fiscalYear);
+
+    const [created] = await tx.insert(invoices)
+      .values({
+        companyId,
+        fiscalYearId: fiscalYear.id,
+        invoiceNumber,
+        invoiceDate,
+        dueDate: dueDate.toISOString().split('T')[0],
+        customerId: recurring.customerId,
+        billingAddress: templateData.billingAddress || customer.address,
+        shippingAddress: templateData.shippingAddress,
+        subtotal: subtotal.toFixed(2),
+        discountAmount: discountAmount.toFixed(2),
+        taxAmount: totalTax.toFixed(2),
+        totalAmount: totalAmount.toFixed(2),
+        paidAmount: '0',
+        balanceDue: totalAmount.toFixed(2),
+        cgst: cgst.toFixed(2),
+        sgst: sgst.toFixed(2),
+        igst: igst.toFixed(2),
+        status: 'draft',
+        notes: templateData.notes,
+        terms: templateData.terms,
+        createdByUserId: recurring.createdByUserId
+      })
+      .returning();
+
+    // Create invoice lines
+    for (let i = 0; i < processedLines.length; i++) {
+      await tx.insert(invoiceLines).values({
+        invoiceId: created.id,
+        ...processedLines[i],
+        sortOrder: i
+      });
+    }
 
-  return invoice;
+    // Update recurring invoice
+    const nextDate = calculateNextDate(new Date(recurring.nextGenerateDate || today), recurring.frequency);
+
+    await tx.update(recurringInvoices)
+      .set({
+        lastGeneratedAt: new Date(),
+        totalGenerated: sql`${recurringInvoices.totalGenerated} + 1`,
+        totalAmount: sql`${recurringInvoices.totalAmount} + ${totalAmount}`,
+        nextGenerateDate: nextDate.toISOString().split('T')[0],
+        updatedAt: new Date()
+      })
+      .where(eq(recurringInvoices.id, recurringInvoiceId));
+
+    return created;
+  });
 }
 
 /**
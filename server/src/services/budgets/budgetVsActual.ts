@@ -0,0 +1,147 @@
+/**
+ * Budget vs Actual
+ *
+ * Compares the phased budget of each line with the actuals posted to its
+ * account, over every cost center or only the line's cost center and those
+ * below it. Variance is favourable when positive: income above budget or
+ * expenses below it.
+ */
+
+import { db } from '../../db';
+import {
+  costCenters,
+  type Budget,
+  type BudgetLine,
+  type ChartOfAccount,
+  type CostCenter,
+  type FiscalYear,
+} from '../../../../shared/schema';
+import { eq } from 'drizzle-orm';
+import { costCenterSubtree } from '../costCenters';
+import { monthStart, monthEnd } from '../ledger';
+import {
+  fiscalYearMonths,
+  getMonthlyActuals,
+  monthlyAmountsFor,
+  previousYearMonth,
+  sumAmounts,
+} from './phasing';
+
+export interface BudgetComparison {
+  budget: number;
+  actual: number;
+  variance: number;
+  // Actual as a percentage of budget; null without a budget
+  percentConsumed: number | null;
+}
+
+type LineWithAccount = BudgetLine & {
+  account: Pick<ChartOfAccount, 'id' | 'code' | 'name' | 'accountType'>;
+  costCenter: Pick<CostCenter, 'id' | 'code' | 'name'> | null;
+};
+
+type BudgetWithLines = Budget & {
+  fiscalYear: Pick<FiscalYear, 'id' | 'name' | 'startDate' | 'endDate'>;
+  lines: LineWithAccount[];
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function compareBudget(accountType: string, budget: number, actual: number): BudgetComparison {
+  const variance = accountType === 'income' ? actual - budget : budget - actual;
+  return {
+    budget: round(budget),
+    actual: round(actual),
+    variance: round(variance),
+    percentConsumed: budget !== 0 ? Math.round((actual / budget) * 10000) / 100 : null,
+  };
+}
+
+/**
+ * Budget of the months from the first to the last given month
+ */
+export function budgetForMonths(monthlyAmounts: number[], months: string[], from: string, to: string): number {
+  return sumAmounts(monthlyAmounts.filter((_, index) => months[index] >= monthStart(from) && months[index] <= monthStart(to)));
+}
+
+async function loadCostCenters(companyId: string) {
+  return db.query.costCenters.findMany({ where: eq(costCenters.companyId, companyId) });
+}
+
+/**
+ * Last year's actuals of an account for each month of the fiscal year
+ */
+export async function getLastYearActuals(
+  companyId: string,
+  fiscalYear: Pick<FiscalYear, 'startDate' | 'endDate'>,
+  account: Pick<ChartOfAccount, 'id' | 'accountType'>,
+  costCenterId: string | null
+): Promise<number[]> {
+  const lastYearMonths = fiscalYearMonths(fiscalYear.startDate, fiscalYear.endDate).map(previousYearMonth);
+
+  const [actuals, centers] = await Promise.all([
+    getMonthlyActuals(companyId, { from: lastYearMonths[0], to: monthEnd(lastYearMonths[lastYearMonths.length - 1]) }, [account.id]),
+    costCenterId ? loadCostCenters(companyId) : Promise.resolve([]),
+  ]);
+  const subtree = costCenterId ? costCenterSubtree(centers, costCenterId) : null;
+  return monthlyAmountsFor(actuals, account.id, account.accountType, lastYearMonths, subtree);
+}
+
+/**
+ * Budget against actuals for each line of a budget over a date range
+ * within its fiscal year, with the annual budget alongside
+ */
+export async function getBudgetVsActual(
+  companyId: string,
+  budget: BudgetWithLines,
+  range: { from?: string; to?: string } = {}
+) {
+  const { fiscalYear } = budget;
+  const from = range.from && range.from > fiscalYear.startDate ? range.from : fiscalYear.startDate;
+  const to = range.to && range.to < fiscalYear.endDate ? range.to : fiscalYear.endDate;
+  const months = fiscalYearMonths(fiscalYear.startDate, fiscalYear.endDate);
+  const actualMonths = months.filter(month => month >= monthStart(from) && month <= monthStart(to));
+
+  const [actuals, centers] = await Promise.all([
+    getMonthlyActuals(companyId, { from, to }, [...new Set(budget.lines.map(line => line.accountId))]),
+    budget.lines.some(line => line.costCenterId) ? loadCostCenters(companyId) : Promise.resolve([]),
+  ]);
+
+  const lines = budget.lines
+    .map(line => {
+      const accountType = line.account.accountType as string;
+      const subtree = line.costCenterId ? costCenterSubtree(centers, line.costCenterId) : null;
+      const actual = sumAmounts(monthlyAmountsFor(actuals, line.accountId, accountType, actualMonths, subtree));
+      const monthlyAmounts = line.monthlyAmounts as number[];
+      return {
+        id: line.id,
+        accountId: line.accountId,
+        accountCode: line.account.code,
+        accountName: line.account.name,
+        accountType,
+        costCenter: line.costCenter,
+        annualBudget: parseFloat(line.annualAmount),
+        ...compareBudget(accountType, budgetForMonths(monthlyAmounts, months, from, to), actual),
+      };
+    })
+    .sort((a, b) => a.accountCode.localeCompare(b.accountCode) || (a.costCenter?.code || '').localeCompare(b.costCenter?.code || ''));
+
+  const totalFor = (accountType: string) => {
+    const rows = lines.filter(line => line.accountType === accountType);
+    return {
+      annualBudget: sumAmounts(rows.map(row => row.annualBudget)),
+      ...compareBudget(accountType, sumAmounts(rows.map(row => row.budget)), sumAmounts(rows.map(row => row.actual))),
+    };
+  };
+
+  return {
+    budget: { id: budget.id, name: budget.name, fiscalYear },
+    fromDate: from,
+    toDate: to,
+    lines,
+    totals: {
+      income: totalFor('income'),
+      expenses: totalFor('expense'),
+    },
+  };
+}
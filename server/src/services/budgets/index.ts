@@ -0,0 +1,8 @@
+/**
+ * Budgets Service
+ *
+ * Main export for budget phasing and budget vs actual reporting
+ */
+
+export * from './phasing';
+export * from './budgetVsActual';
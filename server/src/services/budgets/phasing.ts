@@ -0,0 +1,167 @@
+/**
+ * Budget Phasing
+ *
+ * Spreads an annual budget over the months of the fiscal year: evenly, by
+ * the weights of a seasonal template, or month by month from last year's
+ * actuals with a growth percentage. Amounts carry the natural sign of the
+ * account, so an expense budget and an income budget are both positive.
+ */
+
+import { db } from '../../db';
+import {
+  journalEntries,
+  journalEntryLines,
+} from '../../../../shared/schema';
+import { eq, ne, and, gte, lte, inArray, sql } from 'drizzle-orm';
+import { YEAR_END_SOURCE_TYPE } from '../yearEnd';
+import { monthStart } from '../ledger';
+
+export type BudgetPhasing = 'even' | 'seasonal' | 'last_year';
+
+export interface MonthlyActual {
+  accountId: string;
+  costCenterId: string | null;
+  periodStart: string;
+  debit: number;
+  credit: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toDate = (value: string) => new Date(`${value}T00:00:00Z`);
+
+/**
+ * First day of each month of the fiscal year
+ */
+export function fiscalYearMonths(startDate: string, endDate: string): string[] {
+  const months: string[] = [];
+  const last = monthStart(endDate);
+  const start = toDate(monthStart(startDate));
+  for (let i = 0; ; i++) {
+    const month = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + i, 1)).toISOString().slice(0, 10);
+    if (month > last) break;
+    months.push(month);
+  }
+  return months;
+}
+
+/**
+ * The same month a year earlier, for reading last year's actuals
+ */
+export function previousYearMonth(month: string): string {
+  return `${parseInt(month.slice(0, 4), 10) - 1}${month.slice(4)}`;
+}
+
+/**
+ * Balance in the account's natural direction: debit for assets and
+ * expenses, credit for liabilities, equity and income
+ */
+export function naturalAmount(accountType: string, debit: number, credit: number): number {
+  return accountType === 'asset' || accountType === 'expense' ? debit - credit : credit - debit;
+}
+
+export function sumAmounts(amounts: number[]): number {
+  return round(amounts.reduce((sum, amount) => sum + amount, 0));
+}
+
+/**
+ * Splits an amount by weights, rounded to the paisa with the rounding
+ * difference in the month carrying the largest weight
+ */
+export function phaseByWeights(annualAmount: number, weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0 || total <= 0) return [];
+
+  const amounts = weights.map(weight => round((annualAmount * weight) / total));
+  const difference = round(annualAmount - sumAmounts(amounts));
+  if (difference !== 0) {
+    const largest = weights.indexOf(Math.max(...weights));
+    amounts[largest] = round(amounts[largest] + difference);
+  }
+  return amounts;
+}
+
+export function phaseEvenly(annualAmount: number, monthCount: number): number[] {
+  return phaseByWeights(annualAmount, Array(monthCount).fill(1));
+}
+
+/**
+ * Last year's monthly actuals grown by a percentage
+ */
+export function phaseFromActuals(actuals: number[], growthPercent: number): number[] {
+  return actuals.map(actual => round(actual * (1 + growthPercent / 100)));
+}
+
+/**
+ * Reason the weights of a seasonal template cannot be used, or null
+ */
+export function validatePhasingWeights(weights: unknown): string | null {
+  if (!Array.isArray(weights) || weights.length !== 12) return 'A template needs twelve monthly weights';
+  if (weights.some(weight => typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0)) {
+    return 'Weights must be zero or more';
+  }
+  if (weights.every(weight => weight === 0)) return 'At least one weight must be more than zero';
+  return null;
+}
+
+/**
+ * Posted debit and credit totals per account, cost center and month for a
+ * date range. Carried-in opening balances and year-end entries are left out.
+ */
+export async function getMonthlyActuals(
+  companyId: string,
+  range: { from: string; to: string },
+  accountIds?: string[]
+): Promise<MonthlyActual[]> {
+  if (accountIds && accountIds.length === 0) return [];
+
+  const periodStart = sql<string>`to_char(date_trunc('month', ${journalEntries.entryDate}), 'YYYY-MM-DD')`;
+  const rows = await db
+    .select({
+      accountId: journalEntryLines.accountId,
+      costCenterId: journalEntryLines.costCenterId,
+      periodStart,
+      debit: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}), 0)`,
+      credit: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount}), 0)`,
+    })
+    .from(journalEntryLines)
+    .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+    .where(and(
+      eq(journalEntries.companyId, companyId),
+      eq(journalEntries.status, 'posted'),
+      gte(journalEntries.entryDate, range.from),
+      lte(journalEntries.entryDate, range.to),
+      ne(journalEntries.entryType, 'opening'),
+      sql`${journalEntries.sourceType} IS DISTINCT FROM ${YEAR_END_SOURCE_TYPE}`,
+      accountIds ? inArray(journalEntryLines.accountId, accountIds) : undefined
+    ))
+    .groupBy(journalEntryLines.accountId, journalEntryLines.costCenterId, periodStart);
+
+  return rows.map(row => ({
+    accountId: row.accountId,
+    costCenterId: row.costCenterId,
+    periodStart: row.periodStart,
+    debit: parseFloat(row.debit),
+    credit: parseFloat(row.credit),
+  }));
+}
+
+/**
+ * Natural-sign actuals of an account for each of the given months, over
+ * all cost centers or only those in the given set
+ */
+export function monthlyAmountsFor(
+  actuals: MonthlyActual[],
+  accountId: string,
+  accountType: string,
+  months: string[],
+  costCenterIds: Set<string> | null
+): number[] {
+  const byMonth = new Map(months.map(month => [month, 0]));
+  for (const actual of actuals) {
+    if (actual.accountId !== accountId || !byMonth.has(actual.periodStart)) continue;
+    if (costCenterIds && (!actual.costCenterId || !costCenterIds.has(actual.costCenterId))) continue;
+    byMonth.set(actual.periodStart, byMonth.get(actual.periodStart)! + naturalAmount(accountType, actual.debit, actual.credit));
+  }
+  return months.map(month => round(byMonth.get(month)!));
+}
@@ -0,0 +1,700 @@
+/**
+ * Cheque Register
+ *
+ * Records cheques issued from the company's cheque books and received from
+ * customers, and moves them through their lifecycle. A cheque that bounces
+ * or is cancelled takes its payment back off the invoices or bills it
+ * settled and reverses the payment's journal entry; bank charges on a
+ * bounce are booked and can be recovered from the customer with an
+ * invoice outside GST.
+ */
+
+import { db, withTransaction, type DbClient } from '../../db';
+import {
+  bankAccounts,
+  bills,
+  chartOfAccounts,
+  chequeBooks,
+  chequeLayouts,
+  cheques,
+  fiscalYears,
+  invoiceLines,
+  invoices,
+  journalEntries,
+  journalEntryLines,
+  parties,
+  paymentAllocations,
+  paymentMadeAllocations,
+  paymentsMade,
+  paymentsReceived,
+  type Cheque,
+  type FiscalYear,
+} from '../../../../shared/schema';
+import { eq, and, gte, lte, or } from 'drizzle-orm';
+import { allocateDocumentNumber } from '../numbering';
+import { refreshPeriodBalances } from '../ledger';
+import { getForexAccounts } from '../forex';
+import {
+  formatChequeNumber,
+  validateChequeTransition,
+  type ChequeDirection,
+  type ChequeStatus,
+} from './lifecycle';
+import {
+  chequePrintFields,
+  findBuiltInLayout,
+  type ChequeLayout,
+  type PrintField,
+} from './printing';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const BANK_CHARGES_CODE = '5420';
+
+export interface ChequeInput {
+  direction: ChequeDirection;
+  bankAccountId?: string | null;
+  chequeBookId?: string | null;
+  // Taken from the cheque book when left out of an issued cheque
+  chequeNumber?: string | null;
+  chequeDate: string;
+  amount: number;
+  partyId?: string | null;
+  payeeName?: string | null;
+  drawerBankName?: string | null;
+  paymentReceivedId?: string | null;
+  paymentMadeId?: string | null;
+  notes?: string | null;
+}
+
+export interface BounceInput {
+  bouncedDate: string;
+  reason?: string | null;
+  bankCharges?: number;
+  chargesAccountId?: string | null;
+  // Invoice the customer for the bank charges
+  recoverCharges?: boolean;
+}
+
+async function fiscalYearOn(client: DbClient, companyId: string, date: string): Promise<FiscalYear | undefined> {
+  const [fiscalYear] = await client.select()
+    .from(fiscalYears)
+    .where(and(
+      eq(fiscalYears.companyId, companyId),
+      lte(fiscalYears.startDate, date),
+      gte(fiscalYears.endDate, date)
+    ))
+    .limit(1);
+  return fiscalYear;
+}
+
+async function postEntry(
+  tx: DbClient,
+  companyId: string,
+  userId: string,
+  fiscalYear: FiscalYear,
+  entry: {
+    numberType: string;
+    date: string;
+    entryType: 'reversal' | 'auto_expense' | 'auto_invoice';
+    narration: string;
+    sourceType: string;
+    sourceId: string;
+    reversedEntryId?: string;
+  },
+  lines: Omit<typeof journalEntryLines.$inferInsert, 'journalEntryId'>[]
+) {
+  const total = lines.reduce((sum, line) => sum + parseFloat(line.debitAmount || '0'), 0).toFixed(2);
+  const entryNumber = await allocateDocumentNumber(tx, companyId, 'journal_entry', fiscalYear, { type: entry.numberType });
+
+  const [je] = await tx.insert(journalEntries).values({
+    companyId,
+    fiscalYearId: fiscalYear.id,
+    entryNumber,
+    entryDate: entry.date,
+    postingDate: entry.date,
+    entryType: entry.entryType,
+    narration: entry.narration,
+    totalDebit: total,
+    totalCredit: total,
+    sourceType: entry.sourceType,
+    sourceId: entry.sourceId,
+    reversedEntryId: entry.reversedEntryId,
+    status: 'posted',
+    createdByUserId: userId,
+  }).returning();
+
+  await tx.insert(journalEntryLines).values(lines.map((line, index) => ({
+    ...line,
+    journalEntryId: je.id,
+    sortOrder: index,
+  })));
+  return je;
+}
+
+/**
+ * The bank account of a payment's cheque. Payments may carry the bank
+ * account or its ledger account.
+ */
+export async function findPaymentBankAccount(
+  client: DbClient,
+  companyId: string,
+  id: string | null | undefined
+): Promise<string | null> {
+  if (!id) return null;
+  const [account] = await client.select({ id: bankAccounts.id })
+    .from(bankAccounts)
+    .where(and(
+      eq(bankAccounts.companyId, companyId),
+      or(eq(bankAccounts.id, id), eq(bankAccounts.accountId, id))
+    ))
+    .limit(1);
+  return account?.id || null;
+}
+
+/**
+ * Why a cheque cannot be registered, or null if it can
+ */
+export async function validateChequeInput(client: DbClient, companyId: string, input: ChequeInput): Promise<string | null> {
+  if (input.direction !== 'issued' && input.direction !== 'received') return 'Direction must be issued or received';
+  if (!DATE_PATTERN.test(input.chequeDate || '')) return 'Cheque date (YYYY-MM-DD) is required';
+  if (!(input.amount > 0)) return 'Amount must be more than zero';
+  if (!input.chequeNumber && (input.direction === 'received' || !input.chequeBookId)) return 'Cheque number is required';
+  if (input.direction === 'issued' && !input.bankAccountId && !input.chequeBookId) {
+    return 'Bank account or cheque book is required';
+  }
+  if (input.chequeNumber && !/^\d{1,20}$/.test(input.chequeNumber)) return 'Cheque number must be digits only';
+
+  if (input.bankAccountId) {
+    const [account] = await client.select({ id: bankAccounts.id })
+      .from(bankAccounts)
+      .where(and(eq(bankAccounts.id, input.bankAccountId), eq(bankAccounts.companyId, companyId)));
+    if (!account) return 'Bank account not found';
+  }
+
+  if (input.partyId) {
+    const [party] = await client.select({ id: parties.id })
+      .from(parties)
+      .where(and(eq(parties.id, input.partyId), eq(parties.companyId, companyId)));
+    if (!party) return 'Party not found';
+  }
+
+  return null;
+}
+
+/**
+ * Registers a cheque. An issued cheque from a cheque book takes the book's
+ * next leaf unless a number is given.
+ */
+export async function registerCheque(
+  client: DbClient,
+  companyId: string,
+  userId: string,
+  input: ChequeInput
+): Promise<{ error: string } | { cheque: Cheque }> {
+  const invalid = await validateChequeInput(client, companyId, input);
+  if (invalid) return { error: invalid };
+
+  return withTransaction(client, async (tx) => {
+    let bankAccountId = input.bankAccountId || null;
+    let chequeNumber = input.chequeNumber || null;
+    let nextLeaf: { bookId: string; number: number } | null = null;
+
+    if (input.direction === 'issued' && input.chequeBookId) {
+      const [book] = await tx.select()
+        .from(chequeBooks)
+        .where(and(eq(chequeBooks.id, input.chequeBookId), eq(chequeBooks.companyId, companyId)))
+        .for('update');
+      if (!book || !book.isActive) return { error: 'Cheque book not found' };
+      if (bankAccountId && bankAccountId !== book.bankAccountId) {
+        return { error: 'The cheque book belongs to another bank account' };
+      }
+      bankAccountId = book.bankAccountId;
+
+      const number = chequeNumber ? parseInt(chequeNumber, 10) : book.nextNumber;
+      if (number < book.firstNumber || number > book.lastNumber) {
+        return { error: chequeNumber ? `Leaf ${chequeNumber} is not in this cheque book` : 'The cheque book has no leaves left' };
+      }
+      chequeNumber = formatChequeNumber(number, book.numberLength);
+      if (number === book.nextNumber) nextLeaf = { bookId: book.id, number: number + 1 };
+    }
+
+    if (input.direction === 'issued' && bankAccountId) {
+      const [used] = await tx.select({ id: cheques.id })
+        .from(cheques)
+        .where(and(
+          eq(cheques.companyId, companyId),
+          eq(cheques.direction, 'issued'),
+          eq(cheques.bankAccountId, bankAccountId),
+          eq(cheques.chequeNumber, chequeNumber!)
+        ))
+        .limit(1);
+      if (used) return { error: `Cheque ${chequeNumber} of this account has already been used` };
+    }
+
+    // Only taking the next leaf moves the book on; a leaf used out of order leaves it be
+    if (nextLeaf) {
+      await tx.update(chequeBooks)
+        .set({ nextNumber: nextLeaf.number, updatedAt: new Date() })
+        .where(eq(chequeBooks.id, nextLeaf.bookId));
+    }
+
+    let payeeName = input.payeeName || null;
+    if (!payeeName && input.direction === 'issued' && input.partyId) {
+      const [party] = await tx.select({ name: parties.name }).from(parties).where(eq(parties.id, input.partyId));
+      payeeName = party?.name || null;
+    }
+
+    const [cheque] = await tx.insert(cheques).values({
+      companyId,
+      direction: input.direction,
+      chequeBookId: input.direction === 'issued' ? input.chequeBookId || null : null,
+      bankAccountId,
+      chequeNumber: chequeNumber!,
+      chequeDate: input.chequeDate,
+      amount: input.amount.toFixed(2),
+      partyId: input.partyId || null,
+      payeeName,
+      drawerBankName: input.direction === 'received' ? input.drawerBankName || null : null,
+      paymentReceivedId: input.paymentReceivedId || null,
+      paymentMadeId: input.paymentMadeId || null,
+      notes: input.notes || null,
+      createdByUserId: userId,
+    }).returning();
+
+    return { cheque };
+  });
+}
+
+async function lockCheque(tx: DbClient, companyId: string, id: string): Promise<Cheque | undefined> {
+  const [cheque] = await tx.select()
+    .from(cheques)
+    .where(and(eq(cheques.id, id), eq(cheques.companyId, companyId)))
+    .for('update');
+  return cheque;
+}
+
+/**
+ * Marks a cheque presented to the bank or cleared. A received cheque
+ * needs the account it was deposited into.
+ */
+export async function advanceCheque(
+  companyId: string,
+  id: string,
+  to: Extract<ChequeStatus, 'presented' | 'cleared'>,
+  date: string,
+  depositAccountId?: string | null
+): Promise<{ error: string } | { cheque: Cheque } | null> {
+  if (!DATE_PATTERN.test(date || '')) return { error: 'Date (YYYY-MM-DD) is required' };
+
+  return db.transaction(async (tx) => {
+    const cheque = await lockCheque(tx, companyId, id);
+    if (!cheque) return null;
+
+    const invalid = validateChequeTransition(cheque, to, date);
+    if (invalid) return { error: invalid };
+
+    const bankAccountId = cheque.bankAccountId || depositAccountId || null;
+    if (!bankAccountId) return { error: 'Choose the bank account the cheque was deposited into' };
+    if (!cheque.bankAccountId) {
+      const [account] = await tx.select({ id: bankAccounts.id })
+        .from(bankAccounts)
+        .where(and(eq(bankAccounts.id, bankAccountId), eq(bankAccounts.companyId, companyId)));
+      if (!account) return { error: 'Bank account not found' };
+    }
+
+    const [updated] = await tx.update(cheques)
+      .set({
+        status: to,
+        bankAccountId,
+        ...(to === 'presented' ? { presentedDate: date } : { clearedDate: date, presentedDate: cheque.presentedDate || date }),
+        updatedAt: new Date(),
+      })
+      .where(eq(cheques.id, id))
+      .returning();
+
+    return { cheque: updated };
+  });
+}
+
+/**
+ * Takes a cheque's payment off the documents it settled and reverses its
+ * journal entry. Returns the reversal entry, if one was posted. Callers
+ * check everything that can fail first; this only writes.
+ */
+async function reverseChequePayment(
+  tx: DbClient,
+  companyId: string,
+  userId: string,
+  cheque: Cheque,
+  fiscalYear: FiscalYear,
+  date: string,
+  why: string
+): Promise<typeof journalEntries.$inferSelect | null> {
+  const received = cheque.direction === 'received';
+  const paymentId = received ? cheque.paymentReceivedId : cheque.paymentMadeId;
+  if (!paymentId) return null;
+
+  const table = received ? paymentsReceived : paymentsMade;
+  const [payment] = await tx.select().from(table).where(eq(table.id, paymentId)).for('update');
+  if (!payment) return null;
+
+  if (received) {
+    const allocations = await tx.select().from(paymentAllocations).where(eq(paymentAllocations.paymentReceivedId, paymentId));
+    for (const alloc of allocations) {
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, alloc.invoiceId)).for('update');
+      if (!invoice) continue;
+
+      const newPaid = Math.max(0, parseFloat(invoice.paidAmount || '0') - parseFloat(alloc.amount));
+      const newBalance = parseFloat(invoice.totalAmount) - newPaid;
+      const newPaidFcy = Math.max(0, parseFloat(invoice.paidAmountFcy || '0') - parseFloat(alloc.amountFcy || '0'));
+
+      await tx.update(invoices)
+        .set({
+          paidAmount: newPaid.toString(),
+          balanceDue: newBalance.toString(),
+          ...(invoice.currencyCode && {
+            paidAmountFcy: newPaidFcy.toString(),
+            balanceDueFcy: (parseFloat(invoice.totalAmountFcy || '0') - newPaidFcy).toString(),
+          }),
+          status: newBalance === parseFloat(invoice.totalAmount) ? 'sent' : 'partially_paid',
+          updatedAt: new Date(),
+        })
+        .where(eq(invoices.id, alloc.invoiceId));
+    }
+    await tx.delete(paymentAllocations).where(eq(paymentAllocations.paymentReceivedId, paymentId));
+  } else {
+    const allocations = await tx.select().from(paymentMadeAllocations).where(eq(paymentMadeAllocations.paymentMadeId, paymentId));
+    for (const alloc of allocations) {
+      const [bill] = await tx.select().from(bills).where(eq(bills.id, alloc.billId)).for('update');
+      if (!bill) continue;
+
+      const newPaid = Math.max(0, parseFloat(bill.paidAmount || '0') - parseFloat(alloc.amount));
+      const newBalance = parseFloat(bill.totalAmount) - newPaid;
+      const newPaidFcy = Math.max(0, parseFloat(bill.paidAmountFcy || '0') - parseFloat(alloc.amountFcy || '0'));
+
+      await tx.update(bills)
+        .set({
+          paidAmount: newPaid.toString(),
+          balanceDue: newBalance.toString(),
+          ...(bill.currencyCode && {
+            paidAmountFcy: newPaidFcy.toString(),
+            balanceDueFcy: (parseFloat(bill.totalAmountFcy || '0') - newPaidFcy).toString(),
+          }),
+          status: newBalance === parseFloat(bill.totalAmount) ? 'pending' : 'partially_paid',
+          updatedAt: new Date(),
+        })
+        .where(eq(bills.id, alloc.billId));
+    }
+    await tx.delete(paymentMadeAllocations).where(eq(paymentMadeAllocations.paymentMadeId, paymentId));
+  }
+
+  await tx.update(table)
+    .set({
+      notes: [payment.notes, `Cheque ${cheque.chequeNumber} ${why} on ${date}`].filter(Boolean).join('\n'),
+      updatedAt: new Date(),
+    })
+    .where(eq(table.id, paymentId));
+
+  if (!payment.journalEntryId) return null;
+
+  const [original] = await tx.select()
+    .from(journalEntries)
+    .where(eq(journalEntries.id, payment.journalEntryId))
+    .for('update');
+  if (!original || original.status !== 'posted' || original.isReversed) return null;
+
+  const lines = await tx.select().from(journalEntryLines).where(eq(journalEntryLines.journalEntryId, original.id));
+  const reversal = await postEntry(tx, companyId, userId, fiscalYear, {
+    numberType: 'JV',
+    date,
+    entryType: 'reversal',
+    narration: `Cheque ${cheque.chequeNumber} ${why} - reversal of ${original.entryNumber}`,
+    sourceType: 'cheque',
+    sourceId: cheque.id,
+    reversedEntryId: original.id,
+  }, lines.map(line => ({
+    accountId: line.accountId,
+    debitAmount: line.creditAmount,
+    creditAmount: line.debitAmount,
+    currencyCode: line.currencyCode,
+    exchangeRate: line.exchangeRate,
+    debitAmountFcy: line.creditAmountFcy,
+    creditAmountFcy: line.debitAmountFcy,
+    partyType: line.partyType,
+    partyId: line.partyId,
+    costCenterId: line.costCenterId,
+    description: `Reversal: ${line.description || ''}`,
+  })));
+
+  await tx.update(journalEntries)
+    .set({ isReversed: true, reversedEntryId: reversal.id, updatedAt: new Date() })
+    .where(eq(journalEntries.id, original.id));
+
+  return reversal;
+}
+
+/**
+ * Records a bounced cheque: reverses its payment, books the bank's charges
+ * and, for a customer's cheque, optionally charges them on with an invoice
+ */
+export async function bounceCheque(
+  companyId: string,
+  userId: string,
+  id: string,
+  input: BounceInput
+): Promise<{ error: string } | { cheque: Cheque } | null> {
+  if (!DATE_PATTERN.test(input.bouncedDate || '')) return { error: 'Bounce date (YYYY-MM-DD) is required' };
+  const charges = input.bankCharges || 0;
+  if (charges < 0) return { error: 'Bank charges cannot be negative' };
+
+  return db.transaction(async (tx) => {
+    const cheque = await lockCheque(tx, companyId, id);
+    if (!cheque) return null;
+
+    const invalid = validateChequeTransition(cheque, 'bounced', input.bouncedDate);
+    if (invalid) return { error: invalid };
+    if (input.recoverCharges && (cheque.direction !== 'received' || !cheque.partyId)) {
+      return { error: 'Charges can be recovered only from the customer of a received cheque' };
+    }
+    if (input.recoverCharges && charges === 0) return { error: 'Enter the bank charges to recover' };
+
+    const fiscalYear = await fiscalYearOn(tx, companyId, input.bouncedDate);
+    if (!fiscalYear) return { error: `No fiscal year covers ${input.bouncedDate}` };
+    if (fiscalYear.isLocked) return { error: `${fiscalYear.name} is locked` };
+
+    let bankLedgerId: string | null = null;
+    let chargesAccountId: string | null = null;
+    let receivablesAccountId: string | null = null;
+    if (charges > 0) {
+      const [bankAccount] = cheque.bankAccountId
+        ? await tx.select().from(bankAccounts).where(eq(bankAccounts.id, cheque.bankAccountId))
+        : [];
+      if (!bankAccount?.accountId) return { error: 'The cheque has no bank account with a ledger to charge' };
+      bankLedgerId = bankAccount.accountId;
+
+      const [chargesAccount] = await tx.select()
+        .from(chartOfAccounts)
+        .where(and(
+          eq(chartOfAccounts.companyId, companyId),
+          input.chargesAccountId ? eq(chartOfAccounts.id, input.chargesAccountId) : eq(chartOfAccounts.code, BANK_CHARGES_CODE)
+        ))
+        .limit(1);
+      if (!chargesAccount) return { error: 'Bank charges account not found' };
+      chargesAccountId = chargesAccount.id;
+
+      if (input.recoverCharges) {
+        receivablesAccountId = (await getForexAccounts(tx, companyId)).receivablesAccountId;
+        if (!receivablesAccountId) return { error: 'Receivables account not found' };
+      }
+    }
+
+    const reversal = await reverseChequePayment(tx, companyId, userId, cheque, fiscalYear, input.bouncedDate, 'bounced');
+    const entries = reversal ? [reversal] : [];
+
+    let chargesEntryId: string | null = null;
+    let chargesInvoiceId: string | null = null;
+
+    if (charges > 0) {
+      const amount = charges.toFixed(2);
+      const chargesEntry = await postEntry(tx, companyId, userId, fiscalYear, {
+        numberType: 'JV',
+        date: input.bouncedDate,
+        entryType: 'auto_expense',
+        narration: `Cheque ${cheque.chequeNumber} bounce charges`,
+        sourceType: 'cheque',
+        sourceId: cheque.id,
+      }, [
+        { accountId: chargesAccountId!, debitAmount: amount, creditAmount: '0', description: `Cheque ${cheque.chequeNumber} bounce charges` },
+        { accountId: bankLedgerId!, debitAmount: '0', creditAmount: amount, description: `Cheque ${cheque.chequeNumber} bounce charges` },
+      ]);
+      chargesEntryId = chargesEntry.id;
+      entries.push(chargesEntry);
+
+      if (receivablesAccountId) {
+        // Charged on as a sales invoice, due on receipt, so it sits in the customer's receivables.
+        // A charge for a dishonoured cheque is not consideration for a supply, so the line is
+        // outside GST and the invoice has no GSTR-1 rows.
+        const invoiceNumber = await allocateDocumentNumber(tx, companyId, 'invoice', fiscalYear);
+        const description = `Charges for cheque ${cheque.chequeNumber} returned unpaid`;
+        const [invoice] = await tx.insert(invoices).values({
+          companyId,
+          fiscalYearId: fiscalYear.id,
+          invoiceNumber,
+          invoiceDate: input.bouncedDate,
+          dueDate: input.bouncedDate,
+          customerId: cheque.partyId!,
+          subtotal: amount,
+          taxAmount: '0',
+          totalAmount: amount,
+          paidAmount: '0',
+          balanceDue: amount,
+          status: 'sent',
+          notes: description,
+          createdByUserId: userId,
+        }).returning();
+
+        await tx.insert(invoiceLines).values({
+          invoiceId: invoice.id,
+          accountId: chargesAccountId,
+          description,
+          quantity: '1',
+          unitPrice: amount,
+          amount,
+          nonGst: true,
+        });
+
+        const invoiceEntry = await postEntry(tx, companyId, userId, fiscalYear, {
+          numberType: 'INV',
+          date: input.bouncedDate,
+          entryType: 'auto_invoice',
+          narration: `Invoice ${invoiceNumber} - ${description}`,
+          sourceType: 'invoice',
+          sourceId: invoice.id,
+        }, [
+          { accountId: receivablesAccountId, debitAmount: amount, creditAmount: '0', partyType: 'customer', partyId: cheque.partyId, description: `Invoice ${invoiceNumber}` },
+          { accountId: chargesAccountId!, debitAmount: '0', creditAmount: amount, description },
+        ]);
+        entries.push(invoiceEntry);
+
+        await tx.update(invoices)
+          .set({ journalEntryId: invoiceEntry.id })
+          .where(eq(invoices.id, invoice.id));
+        chargesInvoiceId = invoice.id;
+      }
+    }
+
+    if (entries.length > 0) {
+      await refreshPeriodBalances(tx, companyId, entries);
+    }
+
+    const [updated] = await tx.update(cheques)
+      .set({
+        status: 'bounced',
+        bouncedDate: input.bouncedDate,
+        bounceReason: input.reason || null,
+        bankCharges: charges > 0 ? charges.toFixed(2) : null,
+        reversalJournalEntryId: reversal?.id || null,
+        chargesJournalEntryId: chargesEntryId,
+        chargesInvoiceId,
+        updatedAt: new Date(),
+      })
+      .where(eq(cheques.id, id))
+      .returning();
+
+    return { cheque: updated };
+  });
+}
+
+/**
+ * Cancels a cheque not yet presented, reversing its payment if it had one
+ */
+export async function cancelCheque(
+  companyId: string,
+  userId: string,
+  id: string,
+  input: { cancelledDate: string; reason?: string | null }
+): Promise<{ error: string } | { cheque: Cheque } | null> {
+  if (!DATE_PATTERN.test(input.cancelledDate || '')) return { error: 'Cancellation date (YYYY-MM-DD) is required' };
+
+  return db.transaction(async (tx) => {
+    const cheque = await lockCheque(tx, companyId, id);
+    if (!cheque) return null;
+
+    const invalid = validateChequeTransition(cheque, 'cancelled', input.cancelledDate);
+    if (invalid) return { error: invalid };
+
+    const fiscalYear = await fiscalYearOn(tx, companyId, input.cancelledDate);
+    if (!fiscalYear) return { error: `No fiscal year covers ${input.cancelledDate}` };
+    if (fiscalYear.isLocked) return { error: `${fiscalYear.name} is locked` };
+
+    const reversal = await reverseChequePayment(tx, companyId, userId, cheque, fiscalYear, input.cancelledDate, 'cancelled');
+    if (reversal) {
+      await refreshPeriodBalances(tx, companyId, [reversal]);
+    }
+
+    const [updated] = await tx.update(cheques)
+      .set({
+        status: 'cancelled',
+        cancelledDate: input.cancelledDate,
+        notes: [cheque.notes, input.reason && `Cancelled: ${input.reason}`].filter(Boolean).join('\n') || null,
+        reversalJournalEntryId: reversal?.id || null,
+        updatedAt: new Date(),
+      })
+      .where(eq(cheques.id, id))
+      .returning();
+
+    return { cheque: updated };
+  });
+}
+
+/**
+ * The layout of a cheque book: a built-in bank layout, a saved layout of
+ * the company, or the CTS-2010 standard
+ */
+export async function resolveChequeLayout(companyId: string, layoutKey: string | null | undefined): Promise<ChequeLayout> {
+  const builtIn = findBuiltInLayout(layoutKey);
+  if (builtIn) return builtIn.layout;
+
+  if (layoutKey) {
+    const [saved] = await db.select()
+      .from(chequeLayouts)
+      .where(and(eq(chequeLayouts.id, layoutKey), eq(chequeLayouts.companyId, companyId)));
+    if (saved) return saved.layout as ChequeLayout;
+  }
+
+  return findBuiltInLayout('cts2010')!.layout;
+}
+
+/**
+ * What to print on an issued cheque's leaf, recording that it was printed
+ */
+export async function printCheque(
+  companyId: string,
+  id: string,
+  options: { accountPayee?: boolean } = {}
+): Promise<{ error: string } | { layout: ChequeLayout; fields: PrintField[] } | null> {
+  const [cheque] = await db.select()
+    .from(cheques)
+    .where(and(eq(cheques.id, id), eq(cheques.companyId, companyId)));
+  if (!cheque) return null;
+
+  if (cheque.direction !== 'issued') return { error: 'Only cheques the company issues can be printed' };
+  if (cheque.status !== 'issued') return { error: `A ${cheque.status} cheque cannot be printed` };
+  if (!cheque.payeeName) return { error: 'Enter the payee name before printing' };
+
+  let layoutKey: string | null = null;
+  if (cheque.chequeBookId) {
+    const [book] = await db.select({ layoutKey: chequeBooks.layoutKey }).from(chequeBooks).where(eq(chequeBooks.id, cheque.chequeBookId));
+    layoutKey = book?.layoutKey || null;
+  }
+  const layout = await resolveChequeLayout(companyId, layoutKey);
+
+  await db.update(cheques)
+    .set({ printedAt: new Date() })
+    .where(eq(cheques.id, id));
+
+  return {
+    layout,
+    fields: chequePrintFields(layout, {
+      chequeDate: cheque.chequeDate,
+      payeeName: cheque.payeeName,
+      amount: parseFloat(cheque.amount),
+      accountPayee: options.accountPayee ?? true,
+    }),
+  };
+}
+
+/**
+ * Cheques not yet presented, for post-dated cheque reminders
+ */
+export async function getUnpresentedCheques(companyId: string) {
+  return db.select({
+    cheque: cheques,
+    partyName: parties.name,
+    bankName: bankAccounts.bankName,
+  })
+    .from(cheques)
+    .leftJoin(parties, eq(cheques.partyId, parties.id))
+    .leftJoin(bankAccounts, eq(cheques.bankAccountId, bankAccounts.id))
+    .where(and(eq(cheques.companyId, companyId), eq(cheques.status, 'issued')));
+}
@@ -0,0 +1,9 @@
+/**
+ * Cheques Service
+ *
+ * Main export for the cheque register, post-dated cheques and cheque printing
+ */
+
+export * from './lifecycle';
+export * from './printing';
+export * from './chequeRegister';
@@ -0,0 +1,93 @@
+/**
+ * Cheque Lifecycle
+ *
+ * A cheque is written (issued), presented to the bank, and then cleared or
+ * bounced; one not yet presented can be cancelled. Received cheques follow
+ * the same path, "issued" being the day the customer handed it over.
+ * Cleared, bounced and cancelled are final; a bounced cheque presented
+ * again is recorded as a new cheque.
+ */
+
+export type ChequeDirection = 'issued' | 'received';
+export type ChequeStatus = 'issued' | 'presented' | 'cleared' | 'bounced' | 'cancelled';
+
+export const CHEQUE_TRANSITIONS: Record<ChequeStatus, ChequeStatus[]> = {
+  issued: ['presented', 'cleared', 'bounced', 'cancelled'],
+  presented: ['cleared', 'bounced'],
+  cleared: [],
+  bounced: [],
+  cancelled: [],
+};
+
+export interface ChequeState {
+  status: ChequeStatus;
+  chequeDate: string;
+  presentedDate?: string | null;
+}
+
+/**
+ * Why a cheque cannot move to a status on a date, or null if it can
+ */
+export function validateChequeTransition(cheque: ChequeState, to: ChequeStatus, date: string): string | null {
+  if (!CHEQUE_TRANSITIONS[cheque.status].includes(to)) {
+    return `A ${cheque.status} cheque cannot be marked ${to}`;
+  }
+  // A post-dated cheque is not payable before its date
+  if (to !== 'cancelled' && date < cheque.chequeDate) {
+    return `The cheque is dated ${cheque.chequeDate} and cannot be ${to} before then`;
+  }
+  if (cheque.presentedDate && date < cheque.presentedDate) {
+    return `The cheque was presented on ${cheque.presentedDate}`;
+  }
+  return null;
+}
+
+export function isPostDated(cheque: Pick<ChequeState, 'status' | 'chequeDate'>, today: string): boolean {
+  return cheque.status === 'issued' && cheque.chequeDate > today;
+}
+
+/**
+ * Cheques not yet presented whose date falls within the given days,
+ * including any already past their date
+ */
+export function chequesDueWithin<T extends Pick<ChequeState, 'status' | 'chequeDate'>>(
+  cheques: T[],
+  today: string,
+  days: number
+): T[] {
+  const until = new Date(`${today}T00:00:00Z`);
+  until.setUTCDate(until.getUTCDate() + days);
+  const lastDate = until.toISOString().split('T')[0];
+
+  return cheques
+    .filter(cheque => cheque.status === 'issued' && cheque.chequeDate <= lastDate)
+    .sort((a, b) => a.chequeDate.localeCompare(b.chequeDate));
+}
+
+export function formatChequeNumber(number: number, length: number): string {
+  return String(number).padStart(length, '0');
+}
+
+export interface ChequeBookRange {
+  firstNumber: number;
+  lastNumber: number;
+  nextNumber: number;
+}
+
+/**
+ * Why a cheque book's leaf numbers are not usable, or null if they are
+ */
+export function validateChequeBookRange(book: ChequeBookRange): string | null {
+  if (![book.firstNumber, book.lastNumber, book.nextNumber].every(Number.isInteger) || book.firstNumber < 0) {
+    return 'Leaf numbers must be whole numbers';
+  }
+  if (book.lastNumber < book.firstNumber) return 'The last leaf must not be before the first';
+  if (book.nextNumber < book.firstNumber || book.nextNumber > book.lastNumber + 1) {
+    return 'The next leaf must be within the cheque book';
+  }
+  return null;
+}
+
+export function leavesRemaining(book: ChequeBookRange): number {
+  return Math.max(0, book.lastNumber - book.nextNumber + 1);
+}
@@ -0,0 +1,210 @@
+/**
+ * Cheque Printing
+ *
+ * Places the date, payee and amount on a cheque leaf. Leaves follow the
+ * CTS-2010 standard (202 x 92 mm) but banks differ in where the boxes sit,
+ * so each bank has its own layout. Positions are in millimetres from the
+ * top left corner of the leaf; companies whose printer or bank needs a
+ * different fit save their own layout.
+ */
+
+export interface FieldPosition {
+  xMm: number;
+  yMm: number;
+  widthMm?: number;
+}
+
+export interface ChequeLayout {
+  widthMm: number;
+  heightMm: number;
+  // First of the eight DDMMYYYY boxes and the distance between boxes
+  date: FieldPosition & { digitSpacingMm: number };
+  payee: FieldPosition;
+  amountInWords: FieldPosition & { secondLine: FieldPosition };
+  amountInFigures: FieldPosition;
+  // Where "A/c Payee" is printed across the top left corner, if at all
+  accountPayee?: FieldPosition | null;
+  fontSizePt?: number;
+}
+
+export interface BuiltInChequeLayout {
+  key: string;
+  name: string;
+  bankName: string;
+  layout: ChequeLayout;
+}
+
+export interface PrintField {
+  name: 'date' | 'payee' | 'amountInWords' | 'amountInFigures' | 'accountPayee';
+  text: string;
+  xMm: number;
+  yMm: number;
+  widthMm?: number;
+}
+
+const cts2010 = (overrides: Partial<ChequeLayout> = {}): ChequeLayout => ({
+  widthMm: 202,
+  heightMm: 92,
+  date: { xMm: 160, yMm: 9, digitSpacingMm: 5 },
+  payee: { xMm: 22, yMm: 22, widthMm: 150 },
+  amountInWords: { xMm: 34, yMm: 31, widthMm: 135, secondLine: { xMm: 10, yMm: 39, widthMm: 140 } },
+  amountInFigures: { xMm: 162, yMm: 38, widthMm: 36 },
+  accountPayee: { xMm: 12, yMm: 10 },
+  fontSizePt: 11,
+  ...overrides,
+});
+
+export const CHEQUE_LAYOUTS: BuiltInChequeLayout[] = [
+  { key: 'cts2010', name: 'CTS-2010 standard', bankName: 'Any bank', layout: cts2010() },
+  { key: 'sbi', name: 'State Bank of India', bankName: 'State Bank of India', layout: cts2010({
+    date: { xMm: 158, yMm: 8, digitSpacingMm: 5 },
+    amountInWords: { xMm: 30, yMm: 31, widthMm: 138, secondLine: { xMm: 8, yMm: 39, widthMm: 142 } },
+  }) },
+  { key: 'hdfc', name: 'HDFC Bank', bankName: 'HDFC Bank', layout: cts2010({
+    date: { xMm: 161, yMm: 10, digitSpacingMm: 4.9 },
+    payee: { xMm: 18, yMm: 23, widthMm: 154 },
+    amountInFigures: { xMm: 163, yMm: 39, widthMm: 35 },
+  }) },
+  { key: 'icici', name: 'ICICI Bank', bankName: 'ICICI Bank', layout: cts2010({
+    date: { xMm: 159, yMm: 7, digitSpacingMm: 5.1 },
+    payee: { xMm: 20, yMm: 21, widthMm: 152 },
+    amountInWords: { xMm: 36, yMm: 30, widthMm: 132, secondLine: { xMm: 8, yMm: 38, widthMm: 142 } },
+  }) },
+  { key: 'axis', name: 'Axis Bank', bankName: 'Axis Bank', layout: cts2010({
+    date: { xMm: 160, yMm: 8.5, digitSpacingMm: 5 },
+    amountInFigures: { xMm: 160, yMm: 37, widthMm: 38 },
+  }) },
+  { key: 'kotak', name: 'Kotak Mahindra Bank', bankName: 'Kotak Mahindra Bank', layout: cts2010({
+    payee: { xMm: 16, yMm: 22, widthMm: 156 },
+    amountInWords: { xMm: 33, yMm: 32, widthMm: 136, secondLine: { xMm: 9, yMm: 40, widthMm: 141 } },
+  }) },
+  { key: 'pnb', name: 'Punjab National Bank', bankName: 'Punjab National Bank', layout: cts2010({
+    date: { xMm: 157, yMm: 9, digitSpacingMm: 5.2 },
+    amountInFigures: { xMm: 161, yMm: 39, widthMm: 37 },
+  }) },
+  { key: 'bob', name: 'Bank of Baroda', bankName: 'Bank of Baroda', layout: cts2010({
+    date: { xMm: 159, yMm: 10, digitSpacingMm: 5 },
+    payee: { xMm: 20, yMm: 23, widthMm: 152 },
+  }) },
+];
+
+export function findBuiltInLayout(key: string | null | undefined): BuiltInChequeLayout | undefined {
+  return CHEQUE_LAYOUTS.find(layout => layout.key === key);
+}
+
+/**
+ * Why a saved layout cannot be printed with, or null if it can
+ */
+export function validateChequeLayout(layout: any): string | null {
+  const isPosition = (position: any) =>
+    position && Number.isFinite(position.xMm) && Number.isFinite(position.yMm) && position.xMm >= 0 && position.yMm >= 0;
+
+  if (!layout || !(layout.widthMm > 0) || !(layout.heightMm > 0)) return 'Leaf width and height are required';
+  for (const field of ['date', 'payee', 'amountInWords', 'amountInFigures']) {
+    if (!isPosition(layout[field])) return `Position of ${field} is required`;
+  }
+  if (!(layout.date.digitSpacingMm > 0)) return 'Date box spacing is required';
+  if (!isPosition(layout.amountInWords.secondLine)) return 'Position of the second line of the amount in words is required';
+  if (layout.accountPayee && !isPosition(layout.accountPayee)) return 'Position of A/c Payee is invalid';
+  return null;
+}
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+function belowHundred(n: number): string {
+  if (n < 20) return ONES[n];
+  return [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(' ');
+}
+
+function belowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', belowHundred(n % 100)].filter(Boolean).join(' ');
+}
+
+// Whole rupees in the Indian system of crores, lakhs and thousands
+function rupeesInWords(n: number): string {
+  if (n === 0) return 'Zero';
+
+  const crores = Math.floor(n / 10000000);
+  const lakhs = Math.floor((n % 10000000) / 100000);
+  const thousands = Math.floor((n % 100000) / 1000);
+  const rest = n % 1000;
+
+  return [
+    crores ? `${rupeesInWords(crores)} Crore` : '',
+    lakhs ? `${belowHundred(lakhs)} Lakh` : '',
+    thousands ? `${belowHundred(thousands)} Thousand` : '',
+    belowThousand(rest),
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * The amount as written on a cheque: "Rupees One Lakh Five Thousand and
+ * Fifty Paise Only"
+ */
+export function amountInWords(amount: number): string {
+  const paiseTotal = Math.round(amount * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+
+  const words = `Rupees ${rupeesInWords(rupees)}`;
+  return paise ? `${words} and ${belowHundred(paise)} Paise Only` : `${words} Only`;
+}
+
+/**
+ * Amount in figures with Indian digit grouping, closed off so nothing can
+ * be added after it: "1,05,000.50/-"
+ */
+export function amountInFigures(amount: number): string {
+  const [rupees, paise] = amount.toFixed(2).split('.');
+  const lastThree = rupees.slice(-3);
+  const others = rupees.slice(0, -3).replace(/\B(?=(\d{2})+(?!\d))/g, ',');
+  return `${others ? `${others},` : ''}${lastThree}.${paise}/-`;
+}
+
+// Words that fit in the first line, and the rest
+function splitLine(text: string, maxChars: number): [string, string] {
+  if (text.length <= maxChars) return [text, ''];
+  const cut = text.lastIndexOf(' ', maxChars);
+  const at = cut > 0 ? cut : maxChars;
+  return [text.slice(0, at), text.slice(at).trim()];
+}
+
+/**
+ * What to print where on a leaf
+ */
+export function chequePrintFields(
+  layout: ChequeLayout,
+  cheque: { chequeDate: string; payeeName: string; amount: number; accountPayee?: boolean }
+): PrintField[] {
+  const fields: PrintField[] = [];
+
+  // Date goes one digit to a box, DDMMYYYY
+  const [year, month, day] = cheque.chequeDate.split('-');
+  [...`${day}${month}${year}`].forEach((digit, i) => {
+    fields.push({ name: 'date', text: digit, xMm: layout.date.xMm + i * layout.date.digitSpacingMm, yMm: layout.date.yMm });
+  });
+
+  fields.push({ name: 'payee', text: cheque.payeeName, ...layout.payee });
+
+  // About 2.2 mm a character at 11 pt
+  const charWidthMm = 2.2 * (layout.fontSizePt || 11) / 11;
+  const words = amountInWords(cheque.amount);
+  const firstLineChars = Math.floor((layout.amountInWords.widthMm || 130) / charWidthMm);
+  const [firstLine, secondLine] = splitLine(words, firstLineChars);
+  const { secondLine: secondPosition, ...firstPosition } = layout.amountInWords;
+  fields.push({ name: 'amountInWords', text: firstLine, ...firstPosition });
+  if (secondLine) fields.push({ name: 'amountInWords', text: secondLine, ...secondPosition });
+
+  fields.push({ name: 'amountInFigures', text: amountInFigures(cheque.amount), ...layout.amountInFigures });
+
+  if (cheque.accountPayee && layout.accountPayee) {
+    fields.push({ name: 'accountPayee', text: 'A/c Payee', ...layout.accountPayee });
+  }
+
+  return fields;
+}
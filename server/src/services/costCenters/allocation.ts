@@ -0,0 +1,232 @@
+/**
+ * Cost Allocation
+ *
+ * Allocation rules spread what a shared expense account, such as rent or
+ * salaries, carries in a pool cost center (or on lines with no cost center)
+ * across target cost centers, by fixed percentages or in proportion to a
+ * driver such as headcount or floor area. A run posts an allocation journal
+ * that moves the amount off the pool and onto the targets in the same
+ * account, so the company-wide profit and loss does not change.
+ */
+
+import { db, type DbClient } from '../../db';
+import {
+  costAllocationRuns,
+  journalEntries,
+  journalEntryLines,
+  type CostAllocationRule,
+  type FiscalYear,
+} from '../../../../shared/schema';
+import { eq, and, gte, lte, isNull, sql } from 'drizzle-orm';
+import { allocateDocumentNumber } from '../numbering';
+import { refreshPeriodBalances } from '../ledger';
+
+export const COST_ALLOCATION_SOURCE_TYPE = 'cost_allocation_run';
+
+export type AllocationBasis = 'percentage' | 'driver';
+
+export interface AllocationTarget {
+  costCenterId: string;
+  // Percent of the pool, or the cost center's driver quantity
+  value: number;
+}
+
+export interface AllocationShare {
+  costCenterId: string;
+  // Fraction of the pool
+  share: number;
+  amount: number;
+}
+
+export interface AllocationJournalLine {
+  accountId: string;
+  costCenterId: string | null;
+  debitAmount: string;
+  creditAmount: string;
+  description: string;
+}
+
+export interface AllocationPeriod {
+  periodStart: string;
+  periodEnd: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Reason the targets of a rule cannot be used, or null when they can
+ */
+export function validateAllocationTargets(basis: AllocationBasis, targets: AllocationTarget[]): string | null {
+  if (targets.length === 0) return 'At least one target cost center is required';
+  if (new Set(targets.map(target => target.costCenterId)).size !== targets.length) {
+    return 'Each target cost center can be listed only once';
+  }
+  if (targets.some(target => !Number.isFinite(target.value) || target.value <= 0)) {
+    return basis === 'percentage' ? 'Percentages must be greater than zero' : 'Driver quantities must be greater than zero';
+  }
+  if (basis === 'percentage') {
+    const total = targets.reduce((sum, target) => sum + target.value, 0);
+    if (Math.abs(total - 100) > 0.001) return `Percentages add up to ${round(total)}, not 100`;
+  }
+  return null;
+}
+
+/**
+ * Splits an amount over the targets. Shares are rounded to the paisa and
+ * the rounding difference goes to the largest share, so the parts always
+ * add up to the amount.
+ */
+export function allocateAmount(amount: number, basis: AllocationBasis, targets: AllocationTarget[]): AllocationShare[] {
+  const weightTotal = basis === 'percentage' ? 100 : targets.reduce((sum, target) => sum + target.value, 0);
+  if (targets.length === 0 || weightTotal <= 0) return [];
+
+  const shares = targets.map(target => {
+    const share = target.value / weightTotal;
+    return { costCenterId: target.costCenterId, share: Math.round(share * 1e6) / 1e6, amount: round(amount * share) };
+  });
+
+  const difference = round(amount - shares.reduce((sum, share) => sum + share.amount, 0));
+  if (difference !== 0) {
+    const largest = shares.reduce((max, share) => (Math.abs(share.amount) > Math.abs(max.amount) ? share : max), shares[0]);
+    largest.amount = round(largest.amount + difference);
+  }
+  return shares;
+}
+
+/**
+ * Journal lines moving a pool balance onto the target cost centers within
+ * the same account. A debit balance is credited to the pool and debited to
+ * the targets; a credit balance (say, a rent rebate) the other way round.
+ */
+export function allocationJournalLines(
+  accountId: string,
+  sourceCostCenterId: string | null,
+  amount: number,
+  shares: AllocationShare[],
+  description: string
+): AllocationJournalLine[] {
+  const pool = round(amount);
+  if (pool === 0) return [];
+
+  const line = (costCenterId: string | null, value: number): AllocationJournalLine => ({
+    accountId,
+    costCenterId,
+    debitAmount: value > 0 ? value.toFixed(2) : '0',
+    creditAmount: value < 0 ? (-value).toFixed(2) : '0',
+    description,
+  });
+
+  return [
+    line(sourceCostCenterId, -pool),
+    ...shares.filter(share => share.amount !== 0).map(share => line(share.costCenterId, share.amount)),
+  ];
+}
+
+/**
+ * Net debit the rule's account carries in its pool over the period
+ */
+export async function getPoolBalance(
+  client: DbClient,
+  companyId: string,
+  rule: Pick<CostAllocationRule, 'sourceAccountId' | 'sourceCostCenterId'>,
+  period: AllocationPeriod
+): Promise<number> {
+  const [row] = await client
+    .select({
+      balance: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount} - ${journalEntryLines.creditAmount}), 0)`,
+    })
+    .from(journalEntryLines)
+    .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+    .where(and(
+      eq(journalEntries.companyId, companyId),
+      eq(journalEntries.status, 'posted'),
+      gte(journalEntries.entryDate, period.periodStart),
+      lte(journalEntries.entryDate, period.periodEnd),
+      eq(journalEntryLines.accountId, rule.sourceAccountId),
+      rule.sourceCostCenterId
+        ? eq(journalEntryLines.costCenterId, rule.sourceCostCenterId)
+        : isNull(journalEntryLines.costCenterId)
+    ));
+
+  return round(parseFloat(row?.balance || '0'));
+}
+
+type RuleWithTargets = CostAllocationRule & { targets: { costCenterId: string; value: string }[] };
+
+const targetsOf = (rule: RuleWithTargets): AllocationTarget[] =>
+  rule.targets.map(target => ({ costCenterId: target.costCenterId, value: parseFloat(target.value) }));
+
+/**
+ * Pool balance of the rule over the period and its split across the targets
+ */
+export async function previewAllocation(
+  companyId: string,
+  rule: RuleWithTargets,
+  period: AllocationPeriod,
+  client: DbClient = db
+) {
+  const amount = await getPoolBalance(client, companyId, rule, period);
+  return {
+    ...period,
+    amount,
+    allocations: allocateAmount(amount, rule.basis, targetsOf(rule)),
+  };
+}
+
+/**
+ * Posts the allocation journal for the period and records the run
+ */
+export async function runAllocation(
+  companyId: string,
+  rule: RuleWithTargets,
+  fiscalYear: Pick<FiscalYear, 'id' | 'startDate' | 'endDate'>,
+  period: AllocationPeriod,
+  userId: string
+) {
+  return db.transaction(async (tx) => {
+    const preview = await previewAllocation(companyId, rule, period, tx);
+
+    const [run] = await tx.insert(costAllocationRuns).values({
+      companyId,
+      ruleId: rule.id,
+      fiscalYearId: fiscalYear.id,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      amount: preview.amount.toFixed(2),
+      allocations: preview.allocations,
+      createdByUserId: userId,
+    }).returning();
+
+    const narration = `${rule.name}: allocation from ${period.periodStart} to ${period.periodEnd}`;
+    const lines = allocationJournalLines(rule.sourceAccountId, rule.sourceCostCenterId, preview.amount, preview.allocations, narration);
+    if (lines.length === 0) {
+      return { run, journalEntry: null };
+    }
+
+    const total = lines.reduce((sum, line) => sum + parseFloat(line.debitAmount), 0).toFixed(2);
+    const [je] = await tx.insert(journalEntries).values({
+      companyId,
+      fiscalYearId: fiscalYear.id,
+      entryNumber: await allocateDocumentNumber(tx, companyId, 'journal_entry', fiscalYear, { type: 'ALC' }),
+      entryDate: period.periodEnd,
+      entryType: 'cost_allocation',
+      narration,
+      totalDebit: total,
+      totalCredit: total,
+      sourceType: COST_ALLOCATION_SOURCE_TYPE,
+      sourceId: run.id,
+      status: 'posted',
+      createdByUserId: userId,
+    }).returning();
+
+    await tx.insert(journalEntryLines).values(lines.map((line, index) => ({ journalEntryId: je.id, ...line, sortOrder: index })));
+    await refreshPeriodBalances(tx, companyId, [je]);
+
+    const [posted] = await tx.update(costAllocationRuns)
+      .set({ journalEntryId: je.id })
+      .where(eq(costAllocationRuns.id, run.id))
+      .returning();
+
+    return { run: posted, journalEntry: je };
+  });
+}
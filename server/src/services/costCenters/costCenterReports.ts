@@ -0,0 +1,323 @@
+/**
+ * Cost Center Reports
+ *
+ * Profit and loss and trial balance by cost center, read from the cost
+ * center tagged on each posted journal line. A cost center's totals take in
+ * every cost center below it in the parentCostCenterId tree, so a branch
+ * shows the profit of all its departments.
+ */
+
+import { db } from '../../db';
+import {
+  chartOfAccounts,
+  costCenters,
+  journalEntries,
+  journalEntryLines,
+  type ChartOfAccount,
+} from '../../../../shared/schema';
+import { eq, ne, and, gte, lte, sql } from 'drizzle-orm';
+import { YEAR_END_SOURCE_TYPE } from '../yearEnd';
+
+export interface CostCenterNode {
+  id: string;
+  code: string;
+  name: string;
+  parentCostCenterId: string | null;
+}
+
+export interface CostCenterLineTotal {
+  costCenterId: string | null;
+  accountId: string;
+  debit: number;
+  credit: number;
+}
+
+export interface ProfitTotals {
+  income: number;
+  expenses: number;
+  netProfit: number;
+}
+
+export interface CostCenterProfitRow extends CostCenterNode {
+  level: number;
+  // Lines tagged to the cost center itself
+  own: ProfitTotals;
+  // Own lines plus those of every cost center below it
+  total: ProfitTotals;
+}
+
+export interface CostCenterAccountRow {
+  accountId: string;
+  accountCode: string;
+  accountName: string;
+  accountType: ChartOfAccount['accountType'];
+  debit: number;
+  credit: number;
+}
+
+type AccountInfo = Pick<ChartOfAccount, 'id' | 'code' | 'name' | 'accountType'>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const emptyTotals = (): ProfitTotals => ({ income: 0, expenses: 0, netProfit: 0 });
+
+function addLine(totals: ProfitTotals, accountType: string | undefined, line: CostCenterLineTotal) {
+  if (accountType === 'income') {
+    totals.income = round(totals.income + line.credit - line.debit);
+  } else if (accountType === 'expense') {
+    totals.expenses = round(totals.expenses + line.debit - line.credit);
+  } else {
+    return;
+  }
+  totals.netProfit = round(totals.income - totals.expenses);
+}
+
+function childrenByParent(centers: CostCenterNode[]) {
+  const ids = new Set(centers.map(center => center.id));
+  const children = new Map<string | null, CostCenterNode[]>();
+  for (const center of centers) {
+    // A parent outside the list makes the cost center a root
+    const parentId = center.parentCostCenterId && ids.has(center.parentCostCenterId) ? center.parentCostCenterId : null;
+    children.set(parentId, [...(children.get(parentId) || []), center]);
+  }
+  for (const list of children.values()) {
+    list.sort((a, b) => a.code.localeCompare(b.code));
+  }
+  return children;
+}
+
+/**
+ * The cost center and every cost center below it
+ */
+export function costCenterSubtree(centers: CostCenterNode[], rootId: string): Set<string> {
+  const children = childrenByParent(centers);
+  const subtree = new Set<string>();
+  const pending = [rootId];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (subtree.has(id)) continue;
+    subtree.add(id);
+    pending.push(...(children.get(id) || []).map(child => child.id));
+  }
+  return subtree;
+}
+
+/**
+ * Income, expenses and net profit of each cost center in tree order, with
+ * the totals rolled up from the cost centers below it. Lines without a cost
+ * center are reported as unassigned.
+ */
+export function costCenterProfitRows(
+  centers: CostCenterNode[],
+  lines: CostCenterLineTotal[],
+  accountTypes: Map<string, string>
+): { costCenters: CostCenterProfitRow[]; unassigned: ProfitTotals; total: ProfitTotals } {
+  const ids = new Set(centers.map(center => center.id));
+  const own = new Map<string, ProfitTotals>();
+  const unassigned = emptyTotals();
+  const total = emptyTotals();
+
+  for (const line of lines) {
+    const accountType = accountTypes.get(line.accountId);
+    addLine(total, accountType, line);
+    if (line.costCenterId && ids.has(line.costCenterId)) {
+      const totals = own.get(line.costCenterId) || emptyTotals();
+      addLine(totals, accountType, line);
+      own.set(line.costCenterId, totals);
+    } else {
+      addLine(unassigned, accountType, line);
+    }
+  }
+
+  const children = childrenByParent(centers);
+  const rows: CostCenterProfitRow[] = [];
+  const visit = (center: CostCenterNode, level: number, seen: Set<string>): ProfitTotals => {
+    const row: CostCenterProfitRow = {
+      ...center,
+      level,
+      own: own.get(center.id) || emptyTotals(),
+      total: emptyTotals(),
+    };
+    rows.push(row);
+    seen.add(center.id);
+
+    let { income, expenses } = row.own;
+    for (const child of children.get(center.id) || []) {
+      if (seen.has(child.id)) continue;
+      const childTotal = visit(child, level + 1, seen);
+      income += childTotal.income;
+      expenses += childTotal.expenses;
+    }
+    row.total = { income: round(income), expenses: round(expenses), netProfit: round(income - expenses) };
+    return row.total;
+  };
+
+  const seen = new Set<string>();
+  for (const root of children.get(null) || []) {
+    visit(root, 0, seen);
+  }
+
+  return { costCenters: rows, unassigned, total };
+}
+
+/**
+ * Debit and credit totals per account over the given cost centers
+ */
+export function costCenterAccountRows(
+  lines: CostCenterLineTotal[],
+  costCenterIds: Set<string>,
+  accounts: AccountInfo[]
+): CostCenterAccountRow[] {
+  const byId = new Map(accounts.map(account => [account.id, account]));
+  const rows = new Map<string, CostCenterAccountRow>();
+
+  for (const line of lines) {
+    if (!line.costCenterId || !costCenterIds.has(line.costCenterId)) continue;
+    const account = byId.get(line.accountId);
+    if (!account) continue;
+
+    const row = rows.get(account.id) || {
+      accountId: account.id,
+      accountCode: account.code,
+      accountName: account.name,
+      accountType: account.accountType,
+      debit: 0,
+      credit: 0,
+    };
+    row.debit = round(row.debit + line.debit);
+    row.credit = round(row.credit + line.credit);
+    rows.set(account.id, row);
+  }
+
+  return [...rows.values()]
+    .filter(row => row.debit !== 0 || row.credit !== 0)
+    .sort((a, b) => a.accountCode.localeCompare(b.accountCode));
+}
+
+/**
+ * Posted debit and credit totals per cost center and account for a date
+ * range. Carried-in opening balances and year-end entries are left out.
+ */
+export async function getCostCenterLineTotals(
+  companyId: string,
+  range: { from: string; to: string }
+): Promise<CostCenterLineTotal[]> {
+  const rows = await db
+    .select({
+      costCenterId: journalEntryLines.costCenterId,
+      accountId: journalEntryLines.accountId,
+      debit: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}), 0)`,
+      credit: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount}), 0)`,
+    })
+    .from(journalEntryLines)
+    .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+    .where(and(
+      eq(journalEntries.companyId, companyId),
+      eq(journalEntries.status, 'posted'),
+      gte(journalEntries.entryDate, range.from),
+      lte(journalEntries.entryDate, range.to),
+      ne(journalEntries.entryType, 'opening'),
+      sql`${journalEntries.sourceType} IS DISTINCT FROM ${YEAR_END_SOURCE_TYPE}`
+    ))
+    .groupBy(journalEntryLines.costCenterId, journalEntryLines.accountId);
+
+  return rows.map(row => ({
+    costCenterId: row.costCenterId,
+    accountId: row.accountId,
+    debit: parseFloat(row.debit),
+    credit: parseFloat(row.credit),
+  }));
+}
+
+async function loadCostCenterData(companyId: string, range: { from: string; to: string }) {
+  const [centers, accounts, lines] = await Promise.all([
+    db.query.costCenters.findMany({ where: eq(costCenters.companyId, companyId) }),
+    db.query.chartOfAccounts.findMany({ where: eq(chartOfAccounts.companyId, companyId) }),
+    getCostCenterLineTotals(companyId, range),
+  ]);
+  return { centers, accounts, lines };
+}
+
+/**
+ * Cost-center-wise profit and loss for a date range
+ */
+export async function getCostCenterProfitAndLoss(companyId: string, range: { from: string; to: string }) {
+  const { centers, accounts, lines } = await loadCostCenterData(companyId, range);
+  const accountTypes = new Map(accounts.map(account => [account.id, account.accountType as string]));
+
+  return {
+    fromDate: range.from,
+    toDate: range.to,
+    ...costCenterProfitRows(centers, lines, accountTypes),
+  };
+}
+
+/**
+ * Income and expense accounts of one cost center and those below it
+ */
+export async function getCostCenterProfitAndLossDetail(
+  companyId: string,
+  costCenterId: string,
+  range: { from: string; to: string }
+) {
+  const { centers, accounts, lines } = await loadCostCenterData(companyId, range);
+  const costCenter = centers.find(center => center.id === costCenterId);
+  if (!costCenter) return null;
+
+  const rows = costCenterAccountRows(lines, costCenterSubtree(centers, costCenterId), accounts);
+  const income = rows
+    .filter(row => row.accountType === 'income')
+    .map(row => ({ ...row, amount: round(row.credit - row.debit) }));
+  const expenses = rows
+    .filter(row => row.accountType === 'expense')
+    .map(row => ({ ...row, amount: round(row.debit - row.credit) }));
+  const totalIncome = round(income.reduce((sum, row) => sum + row.amount, 0));
+  const totalExpenses = round(expenses.reduce((sum, row) => sum + row.amount, 0));
+
+  return {
+    costCenter,
+    fromDate: range.from,
+    toDate: range.to,
+    income,
+    expenses,
+    totalIncome,
+    totalExpenses,
+    netProfit: round(totalIncome - totalExpenses),
+  };
+}
+
+/**
+ * Trial balance of the movements tagged to one cost center and those below it
+ */
+export async function getCostCenterTrialBalance(
+  companyId: string,
+  costCenterId: string,
+  range: { from: string; to: string }
+) {
+  const { centers, accounts, lines } = await loadCostCenterData(companyId, range);
+  const costCenter = centers.find(center => center.id === costCenterId);
+  if (!costCenter) return null;
+
+  const items = costCenterAccountRows(lines, costCenterSubtree(centers, costCenterId), accounts).map(row => {
+    const net = round(row.debit - row.credit);
+    return {
+      ...row,
+      closingDebit: net > 0 ? net : 0,
+      closingCredit: net < 0 ? -net : 0,
+    };
+  });
+
+  return {
+    costCenter,
+    fromDate: range.from,
+    toDate: range.to,
+    items,
+    totals: {
+      debit: round(items.reduce((sum, item) => sum + item.debit, 0)),
+      credit: round(items.reduce((sum, item) => sum + item.credit, 0)),
+      closingDebit: round(items.reduce((sum, item) => sum + item.closingDebit, 0)),
+      closingCredit: round(items.reduce((sum, item) => sum + item.closingCredit, 0)),
+    },
+  };
+}
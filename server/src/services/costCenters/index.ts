@@ -0,0 +1,8 @@
+/**
+ * Cost Centers Service
+ *
+ * Main export for cost center reports and cost allocation
+ */
+
+export * from './costCenterReports';
+export * from './allocation';
@@ -1,27 +1,22 @@
 import ExcelJS from 'exceljs';
-import { Company, FiscalYear } from '@shared/schema';
+import { BankAccount, Company, FiscalYear } from '@shared/schema';
+import type { StatementLine, StatementComparative, StatementNote } from './statements';
+import type { BankReconciliationStatement, StatementSummary } from './bankReconciliation';
 
-interface StatementLine {
-  code: string;
+const AMOUNT_FORMAT = '#,##0.00;(#,##0.00);"-"';
+
+interface StatementSheetOptions {
   name: string;
-  amount: number;
-  previousAmount?: number;
-  indentLevel: number;
-  isBold: boolean;
-  isTotal: boolean;
-  hasSubSchedule: boolean;
+  title: string;
+  note: string;
+  periodLabel: 'Year' | 'Period';
+  comparative?: StatementComparative | null;
 }
 
-export async function generateBalanceSheetExcel(
-  company: Company,
-  fiscalYear: FiscalYear,
-  data: { statement: StatementLine[]; netProfit: number }
-): Promise<Buffer> {
-  const workbook = new ExcelJS.Workbook();
-  workbook.creator = 'Zara Books';
-  workbook.created = new Date();
-
-  const sheet = workbook.addWorksheet('Balance Sheet', {
+// Worksheet with the company heading and the column headers shared by the
+// financial statements
+function createStatementSheet(workbook: ExcelJS.Workbook, company: Company, options: StatementSheetOptions) {
+  const sheet = workbook.addWorksheet(options.name, {
     pageSetup: {
       paperSize: 9, // A4
       orientation: 'portrait',
@@ -40,12 +35,15 @@ export async function generateBalanceSheetExcel(
   // Set column widths
   sheet.columns = [
     { key: 'particulars', width: 50 },
+    { key: 'note', width: 8 },
     { key: 'amount', width: 18 },
     { key: 'previous', width: 18 },
+    { key: 'variance', width: 18 },
+    { key: 'variancePercent', width: 12 },
   ];
 
   // Company Header
-  sheet.mergeCells('A1:C1');
+  sheet.mergeCells('A1:F1');
   const titleCell = sheet.getCell('A1');
   titleCell.value = company.name || 'Company Name';
   titleCell.font = { bold: true, size: 16 };
@@ -53,37 +51,51 @@ export async function generateBalanceSheetExcel(
 
   // Legal name / CIN
   if (company.cin || company.legalName) {
-    sheet.mergeCells('A2:C2');
+    sheet.mergeCells('A2:F2');
     const subTitle = sheet.getCell('A2');
     subTitle.value = company.legalName || company.cin || '';
     subTitle.font = { size: 10 };
     subTitle.alignment = { horizontal: 'center' };
   }
 
-  // Balance Sheet title
-  sheet.mergeCells('A3:C3');
-  const bsTitle = sheet.getCell('A3');
-  bsTitle.value = `Balance Sheet as at ${fiscalYear.endDate}`;
-  bsTitle.font = { bold: true, size: 12 };
-  bsTitle.alignment = { horizontal: 'center' };
+  // Statement title
+  sheet.mergeCells('A3:F3');
+  const statementTitle = sheet.getCell('A3');
+  statementTitle.value = options.title;
+  statementTitle.font = { bold: true, size: 12 };
+  statementTitle.alignment = { horizontal: 'center' };
 
-  // Schedule III note
-  sheet.mergeCells('A4:C4');
+  sheet.mergeCells('A4:F4');
   const note = sheet.getCell('A4');
-  note.value = '(As per Schedule III of Companies Act, 2013)';
+  note.value = options.note;
   note.font = { italic: true, size: 10 };
   note.alignment = { horizontal: 'center' };
 
   // Amount in Rupees note
-  sheet.mergeCells('A5:C5');
+  sheet.mergeCells('A5:F5');
   const amountNote = sheet.getCell('A5');
   amountNote.value = '(Amount in ₹)';
   amountNote.font = { italic: true, size: 9 };
   amountNote.alignment = { horizontal: 'right' };
 
+  // Previous year taken from opening balances
+  if (options.comparative?.source === 'opening_balances') {
+    sheet.mergeCells('A6:F6');
+    const comparativeNote = sheet.getCell('A6');
+    comparativeNote.value = `Previous ${options.periodLabel.toLowerCase()} figures are the opening balances brought forward`;
+    comparativeNote.font = { italic: true, size: 9 };
+  }
+
   // Header row
   const headerRow = sheet.getRow(7);
-  headerRow.values = ['Particulars', 'Current Year', 'Previous Year'];
+  headerRow.values = [
+    'Particulars',
+    'Note',
+    `Current ${options.periodLabel}`,
+    `Previous ${options.periodLabel}`,
+    'Variance',
+    'Variance %',
+  ];
   headerRow.font = { bold: true };
   headerRow.eachCell((cell) => {
     cell.fill = {
@@ -98,21 +110,46 @@ export async function generateBalanceSheetExcel(
       right: { style: 'thin' },
     };
   });
-  headerRow.getCell(2).alignment = { horizontal: 'right' };
-  headerRow.getCell(3).alignment = { horizontal: 'right' };
+  headerRow.getCell(2).alignment = { horizontal: 'center' };
+  for (let col = 3; col <= 6; col++) {
+    headerRow.getCell(col).alignment = { horizontal: 'right' };
+  }
 
-  // Data rows
+  return sheet;
+}
+
+// Writes statement lines from the row under the header and returns the row
+// after the last one. Note references link to the note on the Notes sheet.
+function writeStatementLines(
+  sheet: ExcelJS.Worksheet,
+  lines: StatementLine[],
+  highlightCode?: string,
+  noteRows: Map<number, number> = new Map()
+): number {
   let rowIndex = 8;
-  for (const line of data.statement) {
+  for (const line of lines) {
     const row = sheet.getRow(rowIndex);
 
     // Indent based on level
     const indent = '    '.repeat(line.indentLevel);
     row.getCell(1).value = indent + line.name;
-    row.getCell(2).value = line.amount !== 0 ? line.amount : '-';
-    row.getCell(3).value = line.previousAmount !== undefined && line.previousAmount !== 0
+    if (line.noteNumber !== undefined && noteRows.has(line.noteNumber)) {
+      row.getCell(2).value = {
+        text: String(line.noteNumber),
+        hyperlink: `#'Notes'!A${noteRows.get(line.noteNumber)}`,
+      };
+      row.getCell(2).alignment = { horizontal: 'center' };
+    }
+    row.getCell(3).value = line.amount !== 0 ? line.amount : '-';
+    row.getCell(4).value = line.previousAmount !== undefined && line.previousAmount !== 0
       ? line.previousAmount
       : '-';
+    row.getCell(5).value = line.variance !== undefined && line.variance !== 0
+      ? line.variance
+      : '-';
+    row.getCell(6).value = line.variancePercent !== undefined && line.variancePercent !== null
+      ? line.variancePercent / 100
+      : '-';
 
     // Formatting
     if (line.isBold || line.isTotal) {
@@ -128,170 +165,206 @@ export async function generateBalanceSheetExcel(
       });
     }
 
+    if (line.code === highlightCode) {
+      row.font = { bold: true, size: 12 };
+      row.eachCell((cell) => {
+        cell.fill = {
+          type: 'pattern',
+          pattern: 'solid',
+          fgColor: { argb: 'FFFFF0CC' },
+        };
+      });
+    }
+
     // Number formatting
-    row.getCell(2).numFmt = '#,##0.00;(#,##0.00);"-"';
-    row.getCell(3).numFmt = '#,##0.00;(#,##0.00);"-"';
-    row.getCell(2).alignment = { horizontal: 'right' };
-    row.getCell(3).alignment = { horizontal: 'right' };
+    for (let col = 3; col <= 5; col++) {
+      row.getCell(col).numFmt = AMOUNT_FORMAT;
+    }
+    row.getCell(6).numFmt = '0.0%;(0.0%);"-"';
+    for (let col = 3; col <= 6; col++) {
+      row.getCell(col).alignment = { horizontal: 'right' };
+    }
 
     rowIndex++;
   }
 
-  // Add Net Profit row
-  const profitRow = sheet.getRow(rowIndex + 1);
-  profitRow.getCell(1).value = 'Net Profit/(Loss) for the period';
-  profitRow.getCell(2).value = data.netProfit;
-  profitRow.getCell(2).numFmt = '#,##0.00;(#,##0.00);"-"';
-  profitRow.font = { italic: true };
+  return rowIndex;
+}
+
+// Notes to accounts on a sheet of their own; returns the row of each note
+// heading by note number so the statement can link to it
+function writeNotesSheet(workbook: ExcelJS.Workbook, company: Company, notes: StatementNote[]) {
+  const sheet = workbook.addWorksheet('Notes', {
+    pageSetup: {
+      paperSize: 9, // A4
+      orientation: 'landscape',
+      fitToPage: true,
+      fitToHeight: 0,
+    },
+  });
+  const width = Math.max(...notes.map(note => note.columns.length)) + 1;
+  sheet.columns = [
+    { key: 'particulars', width: 50 },
+    ...Array.from({ length: width - 1 }, (_, i) => ({ key: `value${i}`, width: 18 })),
+  ];
+
+  sheet.getCell('A1').value = company.name || 'Company Name';
+  sheet.getCell('A1').font = { bold: true, size: 14 };
+  sheet.getCell('A2').value = 'Notes to Accounts';
+  sheet.getCell('A2').font = { bold: true, size: 12 };
+
+  const noteRows = new Map<number, number>();
+  let rowIndex = 4;
+  for (const note of notes) {
+    noteRows.set(note.number, rowIndex);
+    const titleRow = sheet.getRow(rowIndex++);
+    titleRow.getCell(1).value = `Note ${note.number}: ${note.title}`;
+    titleRow.font = { bold: true, size: 11 };
+
+    const headerRow = sheet.getRow(rowIndex++);
+    headerRow.values = ['Particulars', ...note.columns];
+    headerRow.font = { bold: true };
+    headerRow.eachCell((cell, col) => {
+      cell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFE0E0E0' },
+      };
+      if (col > 1) cell.alignment = { horizontal: 'right', wrapText: true };
+    });
+
+    for (const line of note.rows) {
+      const row = sheet.getRow(rowIndex++);
+      row.getCell(1).value = '    '.repeat(line.indentLevel) + line.label;
+      line.values.forEach((value, i) => {
+        const cell = row.getCell(i + 2);
+        cell.value = value;
+        if (typeof value === 'number') {
+          cell.numFmt = AMOUNT_FORMAT;
+          cell.alignment = { horizontal: 'right' };
+        }
+      });
+
+      if (line.isBold || line.isTotal) {
+        row.font = { bold: true };
+      }
+      if (line.isTotal) {
+        row.eachCell((cell) => {
+          cell.border = { top: { style: 'thin' }, bottom: { style: 'thin' } };
+        });
+      }
+    }
+
+    for (const footnote of note.footnotes) {
+      const row = sheet.getRow(rowIndex++);
+      row.getCell(1).value = footnote;
+      row.font = { italic: true, size: 9 };
+    }
 
-  // Footer
-  const footerRow = sheet.getRow(rowIndex + 4);
+    rowIndex++;
+  }
+
+  return noteRows;
+}
+
+function writeSignature(sheet: ExcelJS.Worksheet, company: Company, rowIndex: number) {
+  const footerRow = sheet.getRow(rowIndex);
   footerRow.getCell(1).value = 'For ' + (company.name || 'Company Name');
   footerRow.font = { bold: true };
 
-  const signatureRow = sheet.getRow(rowIndex + 7);
+  const signatureRow = sheet.getRow(rowIndex + 3);
   signatureRow.getCell(1).value = 'Authorized Signatory';
-
-  const buffer = await workbook.xlsx.writeBuffer();
-  return Buffer.from(buffer);
 }
 
-export async function generatePLExcel(
+export async function generateBalanceSheetExcel(
   company: Company,
   fiscalYear: FiscalYear,
-  data: { statement: StatementLine[]; fromDate: string; toDate: string }
+  data: {
+    statement: StatementLine[];
+    netProfit: number;
+    asOfDate?: string;
+    comparative?: StatementComparative | null;
+    notes?: StatementNote[];
+  }
 ): Promise<Buffer> {
   const workbook = new ExcelJS.Workbook();
   workbook.creator = 'Zara Books';
   workbook.created = new Date();
 
-  const sheet = workbook.addWorksheet('Profit & Loss', {
-    pageSetup: {
-      paperSize: 9,
-      orientation: 'portrait',
-      fitToPage: true,
-      margins: {
-        left: 0.7,
-        right: 0.7,
-        top: 0.75,
-        bottom: 0.75,
-        header: 0.3,
-        footer: 0.3,
-      },
-    },
+  const sheet = createStatementSheet(workbook, company, {
+    name: 'Balance Sheet',
+    title: `Balance Sheet as at ${data.asOfDate || fiscalYear.endDate}`,
+    note: '(As per Schedule III of Companies Act, 2013)',
+    periodLabel: 'Year',
+    comparative: data.comparative,
   });
 
-  sheet.columns = [
-    { key: 'particulars', width: 50 },
-    { key: 'amount', width: 18 },
-    { key: 'previous', width: 18 },
-  ];
-
-  // Company Header
-  sheet.mergeCells('A1:C1');
-  const titleCell = sheet.getCell('A1');
-  titleCell.value = company.name || 'Company Name';
-  titleCell.font = { bold: true, size: 16 };
-  titleCell.alignment = { horizontal: 'center' };
+  const noteRows = data.notes?.length ? writeNotesSheet(workbook, company, data.notes) : undefined;
+  const rowIndex = writeStatementLines(sheet, data.statement, undefined, noteRows);
 
-  if (company.cin || company.legalName) {
-    sheet.mergeCells('A2:C2');
-    const subTitle = sheet.getCell('A2');
-    subTitle.value = company.legalName || company.cin || '';
-    subTitle.font = { size: 10 };
-    subTitle.alignment = { horizontal: 'center' };
-  }
+  // Add Net Profit row
+  const profitRow = sheet.getRow(rowIndex + 1);
+  profitRow.getCell(1).value = 'Net Profit/(Loss) for the period';
+  profitRow.getCell(3).value = data.netProfit;
+  profitRow.getCell(3).numFmt = AMOUNT_FORMAT;
+  profitRow.font = { italic: true };
 
-  // P&L title
-  sheet.mergeCells('A3:C3');
-  const plTitle = sheet.getCell('A3');
-  plTitle.value = `Statement of Profit and Loss for the period ${data.fromDate} to ${data.toDate}`;
-  plTitle.font = { bold: true, size: 12 };
-  plTitle.alignment = { horizontal: 'center' };
+  writeSignature(sheet, company, rowIndex + 4);
 
-  sheet.mergeCells('A4:C4');
-  const note = sheet.getCell('A4');
-  note.value = '(As per Schedule III of Companies Act, 2013)';
-  note.font = { italic: true, size: 10 };
-  note.alignment = { horizontal: 'center' };
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
 
-  sheet.mergeCells('A5:C5');
-  const amountNote = sheet.getCell('A5');
-  amountNote.value = '(Amount in ₹)';
-  amountNote.font = { italic: true, size: 9 };
-  amountNote.alignment = { horizontal: 'right' };
+export async function generatePLExcel(
+  company: Company,
+  fiscalYear: FiscalYear,
+  data: {
+    statement: StatementLine[];
+    fromDate: string;
+    toDate: string;
+    comparative?: StatementComparative | null;
+    notes?: StatementNote[];
+  }
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Zara Books';
+  workbook.created = new Date();
 
-  // Header row
-  const headerRow = sheet.getRow(7);
-  headerRow.values = ['Particulars', 'Current Period', 'Previous Period'];
-  headerRow.font = { bold: true };
-  headerRow.eachCell((cell) => {
-    cell.fill = {
-      type: 'pattern',
-      pattern: 'solid',
-      fgColor: { argb: 'FFE0E0E0' },
-    };
-    cell.border = {
-      top: { style: 'thin' },
-      bottom: { style: 'thin' },
-      left: { style: 'thin' },
-      right: { style: 'thin' },
-    };
+  const sheet = createStatementSheet(workbook, company, {
+    name: 'Profit & Loss',
+    title: `Statement of Profit and Loss for the period ${data.fromDate} to ${data.toDate}`,
+    note: '(As per Schedule III of Companies Act, 2013)',
+    periodLabel: 'Period',
+    comparative: data.comparative,
   });
-  headerRow.getCell(2).alignment = { horizontal: 'right' };
-  headerRow.getCell(3).alignment = { horizontal: 'right' };
-
-  // Data rows
-  let rowIndex = 8;
-  for (const line of data.statement) {
-    const row = sheet.getRow(rowIndex);
 
-    const indent = '    '.repeat(line.indentLevel);
-    row.getCell(1).value = indent + line.name;
-    row.getCell(2).value = line.amount !== 0 ? line.amount : '-';
-    row.getCell(3).value = line.previousAmount !== undefined && line.previousAmount !== 0
-      ? line.previousAmount
-      : '-';
-
-    if (line.isBold || line.isTotal) {
-      row.font = { bold: true };
-    }
-
-    if (line.isTotal) {
-      row.eachCell((cell) => {
-        cell.border = {
-          top: { style: 'thin' },
-          bottom: { style: 'double' },
-        };
-      });
-    }
-
-    if (line.code === 'PL_PAT') {
-      row.font = { bold: true, size: 12 };
-      row.eachCell((cell) => {
-        cell.fill = {
-          type: 'pattern',
-          pattern: 'solid',
-          fgColor: { argb: 'FFFFF0CC' },
-        };
-      });
-    }
+  const noteRows = data.notes?.length ? writeNotesSheet(workbook, company, data.notes) : undefined;
+  const rowIndex = writeStatementLines(sheet, data.statement, 'PL_PAT', noteRows);
+  writeSignature(sheet, company, rowIndex + 3);
 
-    row.getCell(2).numFmt = '#,##0.00;(#,##0.00);"-"';
-    row.getCell(3).numFmt = '#,##0.00;(#,##0.00);"-"';
-    row.getCell(2).alignment = { horizontal: 'right' };
-    row.getCell(3).alignment = { horizontal: 'right' };
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
 
-    rowIndex++;
-  }
+export async function generateCashFlowExcel(
+  company: Company,
+  fiscalYear: FiscalYear,
+  data: { statement: StatementLine[]; fromDate: string; toDate: string; comparative?: StatementComparative | null }
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Zara Books';
+  workbook.created = new Date();
 
-  // Footer
-  const footerRow = sheet.getRow(rowIndex + 3);
-  footerRow.getCell(1).value = 'For ' + (company.name || 'Company Name');
-  footerRow.font = { bold: true };
+  const sheet = createStatementSheet(workbook, company, {
+    name: 'Cash Flow',
+    title: `Cash Flow Statement for the period ${data.fromDate} to ${data.toDate}`,
+    note: '(Indirect Method)',
+    periodLabel: 'Period',
+    comparative: data.comparative,
+  });
 
-  const signatureRow = sheet.getRow(rowIndex + 6);
-  signatureRow.getCell(1).value = 'Authorized Signatory';
+  const rowIndex = writeStatementLines(sheet, data.statement, 'CF_CLOSING');
+  writeSignature(sheet, company, rowIndex + 3);
 
   const buffer = await workbook.xlsx.writeBuffer();
   return Buffer.from(buffer);
@@ -433,3 +506,142 @@ export async function generateTrialBalanceExcel(
   const buffer = await workbook.xlsx.writeBuffer();
   return Buffer.from(buffer);
 }
+
+export async function generateBankReconciliationExcel(
+  company: Company,
+  bankAccount: BankAccount,
+  data: { statement: BankReconciliationStatement; history?: StatementSummary[] }
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Zara Books';
+  workbook.created = new Date();
+
+  const { statement } = data;
+  const sheet = workbook.addWorksheet('Reconciliation Statement', {
+    pageSetup: { paperSize: 9, orientation: 'portrait', fitToPage: true },
+  });
+
+  sheet.columns = [
+    { key: 'date', width: 12 },
+    { key: 'reference', width: 20 },
+    { key: 'description', width: 50 },
+    { key: 'amount', width: 16 },
+    { key: 'total', width: 18 },
+  ];
+
+  sheet.mergeCells('A1:E1');
+  sheet.getCell('A1').value = company.name || 'Company Name';
+  sheet.getCell('A1').font = { bold: true, size: 16 };
+  sheet.getCell('A1').alignment = { horizontal: 'center' };
+
+  sheet.mergeCells('A2:E2');
+  sheet.getCell('A2').value = `Bank Reconciliation Statement as at ${statement.asOfDate}`;
+  sheet.getCell('A2').font = { bold: true, size: 12 };
+  sheet.getCell('A2').alignment = { horizontal: 'center' };
+
+  sheet.mergeCells('A3:E3');
+  sheet.getCell('A3').value = `${bankAccount.bankName} - ${bankAccount.accountNumber}`;
+  sheet.getCell('A3').alignment = { horizontal: 'center' };
+
+  const totalLine = (rowIndex: number, label: string, amount: number, double = false) => {
+    const row = sheet.getRow(rowIndex);
+    row.getCell(1).value = label;
+    row.getCell(5).value = amount;
+    row.getCell(5).numFmt = AMOUNT_FORMAT;
+    row.font = { bold: true };
+    if (double) {
+      row.getCell(5).border = { top: { style: 'thin' }, bottom: { style: 'double' } };
+    }
+  };
+
+  let rowIndex = 5;
+  totalLine(rowIndex++, 'Balance as per books', statement.balancePerBooks);
+  rowIndex++;
+
+  for (const section of statement.sections) {
+    totalLine(rowIndex++, section.label, section.sign * section.total);
+
+    for (const item of section.items) {
+      const row = sheet.getRow(rowIndex++);
+      row.values = [item.date, item.reference || '', item.description, item.amount];
+      row.getCell(4).numFmt = AMOUNT_FORMAT;
+      row.getCell(3).alignment = { indent: 1 };
+    }
+    rowIndex++;
+  }
+
+  totalLine(rowIndex++, 'Balance as per bank', statement.balancePerBank, true);
+
+  if (statement.statementBalance !== null) {
+    rowIndex++;
+    const reported = sheet.getRow(rowIndex++);
+    reported.getCell(1).value = 'Balance as per bank statement';
+    reported.getCell(5).value = statement.statementBalance;
+    reported.getCell(5).numFmt = AMOUNT_FORMAT;
+
+    const difference = sheet.getRow(rowIndex++);
+    difference.getCell(1).value = 'Unexplained difference';
+    difference.getCell(5).value = statement.difference;
+    difference.getCell(5).numFmt = AMOUNT_FORMAT;
+    difference.font = { italic: true };
+  }
+
+  writeSignature(sheet, company, rowIndex + 2);
+
+  if (data.history?.length) {
+    const historySheet = workbook.addWorksheet('History', {
+      pageSetup: { paperSize: 9, orientation: 'landscape', fitToPage: true },
+    });
+    historySheet.columns = [
+      { key: 'asOfDate', width: 12 },
+      { key: 'books', width: 16 },
+      { key: 'cheques', width: 16 },
+      { key: 'deposits', width: 16 },
+      { key: 'bankDebits', width: 16 },
+      { key: 'bankCredits', width: 16 },
+      { key: 'bank', width: 16 },
+      { key: 'statement', width: 16 },
+      { key: 'difference', width: 16 },
+    ];
+
+    const headerRow = historySheet.getRow(1);
+    headerRow.values = [
+      'As at',
+      'Per Books',
+      'Cheques Not Presented',
+      'Deposits Not Credited',
+      'Bank Debits',
+      'Bank Credits',
+      'Per Bank',
+      'Bank Statement',
+      'Difference',
+    ];
+    headerRow.font = { bold: true };
+    headerRow.eachCell((cell) => {
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE0E0E0' } };
+      cell.border = { bottom: { style: 'thin' } };
+      cell.alignment = { horizontal: 'center', wrapText: true };
+    });
+
+    data.history.forEach((summary, i) => {
+      const row = historySheet.getRow(i + 2);
+      row.values = [
+        summary.asOfDate,
+        summary.balancePerBooks,
+        summary.chequesNotPresented,
+        summary.depositsNotCredited,
+        summary.bankDebitsNotInBooks,
+        summary.bankCreditsNotInBooks,
+        summary.balancePerBank,
+        summary.statementBalance ?? '',
+        summary.difference ?? '',
+      ];
+      for (let col = 2; col <= 9; col++) {
+        row.getCell(col).numFmt = AMOUNT_FORMAT;
+      }
+    });
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
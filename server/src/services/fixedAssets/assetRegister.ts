@@ -0,0 +1,412 @@
+/**
+ * Fixed Asset Register
+ *
+ * Keeps the register of property, plant and equipment and intangible
+ * assets, posts depreciation runs period by period and takes disposed
+ * assets out of the books with the profit or loss on sale.
+ */
+
+import { db, type DbClient } from '../../db';
+import {
+  chartOfAccounts,
+  depreciationRuns,
+  fixedAssetDepreciation,
+  fixedAssets,
+  journalEntries,
+  journalEntryLines,
+  type FiscalYear,
+  type FixedAsset,
+} from '../../../../shared/schema';
+import { eq, and, gt, gte, lte, inArray, notInArray, isNotNull, desc, sql } from 'drizzle-orm';
+import { allocateDocumentNumber } from '../numbering';
+import { refreshPeriodBalances } from '../ledger';
+import { YEAR_END_SOURCE_TYPE } from '../yearEnd';
+import { resolveScheduleIIIMappings } from '../statements/statementBalances';
+import {
+  addDays,
+  daysInclusive,
+  monthEnd,
+  periodDepreciation,
+  depreciationJournalLines,
+  disposalJournalLines,
+  type AssetJournalLine,
+  type DepreciableAsset,
+} from './depreciation';
+
+// Default accounts of the seeded chart
+export const DEPRECIATION_ACCOUNT_CODE = '5510';
+export const AMORTISATION_ACCOUNT_CODE = '5520';
+export const PROFIT_ON_SALE_ACCOUNT_CODE = '4240';
+export const LOSS_ON_SALE_ACCOUNT_CODE = '5696';
+
+// Schedule III lines whose accounts hold registered assets
+export const FIXED_ASSET_LINE_ITEMS = ['BS_ASSET_NCA_PPE', 'BS_ASSET_NCA_INTANGIBLE'];
+
+export const DEPRECIATION_SOURCE_TYPE = 'depreciation_run';
+export const DISPOSAL_SOURCE_TYPE = 'asset_disposal';
+
+export type DepreciationFrequency = 'monthly' | 'yearly';
+
+export interface DepreciationPeriodRange {
+  periodStart: string;
+  periodEnd: string;
+}
+
+export function toDepreciableAsset(asset: FixedAsset): DepreciableAsset {
+  return {
+    cost: parseFloat(asset.cost),
+    residualValue: parseFloat(asset.residualValue),
+    usefulLifeYears: parseFloat(asset.usefulLifeYears),
+    method: asset.depreciationMethod,
+    putToUseDate: asset.putToUseDate,
+    accumulatedDepreciation: parseFloat(asset.accumulatedDepreciation),
+    depreciatedUpTo: asset.depreciatedUpTo,
+  };
+}
+
+/**
+ * Ledger accounts on the property, plant and equipment and intangible
+ * asset lines, with the line each one falls on
+ */
+export async function getFixedAssetAccounts(companyId: string) {
+  const accounts = await db.query.chartOfAccounts.findMany({
+    where: eq(chartOfAccounts.companyId, companyId),
+    orderBy: chartOfAccounts.code,
+  });
+  const mappings = resolveScheduleIIIMappings(accounts);
+
+  return accounts
+    .filter(account => !account.isGroup && account.isActive && FIXED_ASSET_LINE_ITEMS.includes(mappings.get(account.id) || ''))
+    .map(account => ({
+      id: account.id,
+      code: account.code,
+      name: account.name,
+      lineItemCode: mappings.get(account.id)!,
+    }));
+}
+
+/**
+ * Depreciation for tangible assets and amortisation for intangibles
+ */
+export async function defaultDepreciationAccountId(companyId: string, assetAccountId: string): Promise<string | null> {
+  const assetAccounts = await getFixedAssetAccounts(companyId);
+  const isIntangible = assetAccounts.find(account => account.id === assetAccountId)?.lineItemCode === 'BS_ASSET_NCA_INTANGIBLE';
+
+  const account = await db.query.chartOfAccounts.findFirst({
+    where: and(
+      eq(chartOfAccounts.companyId, companyId),
+      eq(chartOfAccounts.code, isIntangible ? AMORTISATION_ACCOUNT_CODE : DEPRECIATION_ACCOUNT_CODE)
+    ),
+  });
+  return account?.id || null;
+}
+
+/**
+ * Posted debits to fixed asset accounts from bills and journals that are
+ * not in the register yet
+ */
+export async function getAdditionCandidates(companyId: string) {
+  const assetAccounts = await getFixedAssetAccounts(companyId);
+  if (assetAccounts.length === 0) return [];
+  const accountNames = new Map(assetAccounts.map(account => [account.id, `${account.code} - ${account.name}`]));
+
+  const registered = db.select({ id: fixedAssets.sourceJournalLineId })
+    .from(fixedAssets)
+    .where(and(
+      eq(fixedAssets.companyId, companyId),
+      isNotNull(fixedAssets.sourceJournalLineId)
+    ));
+
+  const lines = await db.select({
+    journalEntryLineId: journalEntryLines.id,
+    journalEntryId: journalEntries.id,
+    entryNumber: journalEntries.entryNumber,
+    entryDate: journalEntries.entryDate,
+    narration: journalEntries.narration,
+    sourceType: journalEntries.sourceType,
+    description: journalEntryLines.description,
+    accountId: journalEntryLines.accountId,
+    amount: journalEntryLines.debitAmount,
+  })
+    .from(journalEntryLines)
+    .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+    .where(and(
+      eq(journalEntries.companyId, companyId),
+      eq(journalEntries.status, 'posted'),
+      notInArray(journalEntries.entryType, ['opening', 'closing']),
+      sql`COALESCE(${journalEntries.sourceType}, '') NOT IN (${YEAR_END_SOURCE_TYPE}, ${DISPOSAL_SOURCE_TYPE})`,
+      inArray(journalEntryLines.accountId, [...accountNames.keys()]),
+      gt(journalEntryLines.debitAmount, '0'),
+      notInArray(journalEntryLines.id, registered)
+    ))
+    .orderBy(desc(journalEntries.entryDate));
+
+  return lines.map(line => ({ ...line, accountName: accountNames.get(line.accountId) || '' }));
+}
+
+/**
+ * The period the next run covers: the month after the last run, or the
+ * rest of the year. Null once the year has been depreciated to its end.
+ */
+export async function getNextDepreciationPeriod(
+  companyId: string,
+  fiscalYear: Pick<FiscalYear, 'id' | 'startDate' | 'endDate'>,
+  frequency: DepreciationFrequency
+): Promise<DepreciationPeriodRange | null> {
+  const [lastRun] = await db.select({ periodEnd: depreciationRuns.periodEnd })
+    .from(depreciationRuns)
+    .where(and(
+      eq(depreciationRuns.companyId, companyId),
+      eq(depreciationRuns.fiscalYearId, fiscalYear.id)
+    ))
+    .orderBy(desc(depreciationRuns.periodEnd))
+    .limit(1);
+
+  const periodStart = lastRun ? addDays(lastRun.periodEnd, 1) : fiscalYear.startDate;
+  if (periodStart > fiscalYear.endDate) return null;
+
+  const end = frequency === 'monthly' ? monthEnd(periodStart) : fiscalYear.endDate;
+  return { periodStart, periodEnd: end < fiscalYear.endDate ? end : fiscalYear.endDate };
+}
+
+async function postAssetJournal(
+  client: DbClient,
+  companyId: string,
+  fiscalYear: Pick<FiscalYear, 'id' | 'startDate' | 'endDate'>,
+  entry: { date: string; narration: string; sourceType: string; sourceId: string; type: string },
+  lines: AssetJournalLine[],
+  userId: string
+) {
+  if (lines.length === 0) return null;
+
+  const total = lines.reduce((sum, line) => sum + parseFloat(line.debitAmount), 0).toFixed(2);
+  const [je] = await client.insert(journalEntries).values({
+    companyId,
+    fiscalYearId: fiscalYear.id,
+    entryNumber: await allocateDocumentNumber(client, companyId, 'journal_entry', fiscalYear, { type: entry.type }),
+    entryDate: entry.date,
+    entryType: 'auto_depreciation',
+    narration: entry.narration,
+    totalDebit: total,
+    totalCredit: total,
+    sourceType: entry.sourceType,
+    sourceId: entry.sourceId,
+    status: 'posted',
+    createdByUserId: userId,
+  }).returning();
+
+  await client.insert(journalEntryLines).values(lines.map(line => ({ journalEntryId: je.id, ...line })));
+  await refreshPeriodBalances(client, companyId, [je]);
+  return je;
+}
+
+// Depreciation charged on each asset since the start of the fiscal year
+async function chargedSince(client: DbClient, assetIds: string[], startDate: string) {
+  if (assetIds.length === 0) return new Map<string, number>();
+
+  const rows = await client.select({
+    assetId: fixedAssetDepreciation.assetId,
+    total: sql<string>`COALESCE(SUM(${fixedAssetDepreciation.amount}), 0)`,
+  })
+    .from(fixedAssetDepreciation)
+    .where(and(
+      inArray(fixedAssetDepreciation.assetId, assetIds),
+      gte(fixedAssetDepreciation.fromDate, startDate)
+    ))
+    .groupBy(fixedAssetDepreciation.assetId);
+  return new Map(rows.map(row => [row.assetId, parseFloat(row.total)]));
+}
+
+// WDV is charged on the book value at the start of the fiscal year
+function bookValueAtYearStart(asset: FixedAsset, chargedThisYear: number): number {
+  return parseFloat(asset.cost) - (parseFloat(asset.accumulatedDepreciation) - chargedThisYear);
+}
+
+const creditAccountOf = (asset: FixedAsset) => asset.accumulatedDepreciationAccountId || asset.assetAccountId;
+
+/**
+ * Charges depreciation on every active asset for the period and posts one
+ * journal for the run
+ */
+export async function runDepreciation(
+  companyId: string,
+  fiscalYear: Pick<FiscalYear, 'id' | 'name' | 'startDate' | 'endDate'>,
+  frequency: DepreciationFrequency,
+  period: DepreciationPeriodRange,
+  userId: string
+) {
+  return db.transaction(async (tx) => {
+    const assets = await tx.select()
+      .from(fixedAssets)
+      .where(and(
+        eq(fixedAssets.companyId, companyId),
+        eq(fixedAssets.status, 'active'),
+        lte(fixedAssets.putToUseDate, period.periodEnd)
+      ));
+    const charged = await chargedSince(tx, assets.map(asset => asset.id), fiscalYear.startDate);
+    const daysInYear = daysInclusive(fiscalYear.startDate, fiscalYear.endDate);
+
+    const charges = assets.flatMap(asset => {
+      const charge = periodDepreciation(
+        toDepreciableAsset(asset),
+        { from: period.periodStart, to: period.periodEnd, daysInYear },
+        bookValueAtYearStart(asset, charged.get(asset.id) || 0)
+      );
+      return charge ? [{ asset, ...charge }] : [];
+    });
+    const total = charges.reduce((sum, charge) => sum + charge.amount, 0).toFixed(2);
+
+    const [run] = await tx.insert(depreciationRuns).values({
+      companyId,
+      fiscalYearId: fiscalYear.id,
+      frequency,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      totalAmount: total,
+      createdByUserId: userId,
+    }).returning();
+
+    const narration = `Depreciation from ${period.periodStart} to ${period.periodEnd}`;
+    const je = await postAssetJournal(tx, companyId, fiscalYear, {
+      date: period.periodEnd,
+      narration,
+      sourceType: DEPRECIATION_SOURCE_TYPE,
+      sourceId: run.id,
+      type: 'DEP',
+    }, depreciationJournalLines(charges.map(charge => ({
+      debitAccountId: charge.asset.depreciationAccountId,
+      creditAccountId: creditAccountOf(charge.asset),
+      amount: charge.amount,
+    })), narration), userId);
+
+    if (charges.length > 0) {
+      await tx.insert(fixedAssetDepreciation).values(charges.map(charge => ({
+        assetId: charge.asset.id,
+        runId: run.id,
+        journalEntryId: je?.id,
+        fromDate: charge.fromDate,
+        toDate: charge.toDate,
+        amount: charge.amount.toFixed(2),
+      })));
+    }
+    for (const charge of charges) {
+      await tx.update(fixedAssets)
+        .set({
+          accumulatedDepreciation: (parseFloat(charge.asset.accumulatedDepreciation) + charge.amount).toFixed(2),
+          depreciatedUpTo: charge.toDate,
+          updatedAt: new Date(),
+        })
+        .where(eq(fixedAssets.id, charge.asset.id));
+    }
+
+    const [posted] = await tx.update(depreciationRuns)
+      .set({ journalEntryId: je?.id })
+      .where(eq(depreciationRuns.id, run.id))
+      .returning();
+
+    return {
+      run: posted,
+      journalEntry: je,
+      charges: charges.map(charge => ({
+        assetId: charge.asset.id,
+        assetCode: charge.asset.assetCode,
+        name: charge.asset.name,
+        fromDate: charge.fromDate,
+        toDate: charge.toDate,
+        amount: charge.amount,
+      })),
+    };
+  });
+}
+
+/**
+ * Charges depreciation up to the disposal date, then writes the asset off
+ * against the proceeds with the profit or loss on sale in the same journal
+ */
+export async function disposeAsset(
+  companyId: string,
+  asset: FixedAsset,
+  fiscalYear: Pick<FiscalYear, 'id' | 'name' | 'startDate' | 'endDate'>,
+  disposal: { disposalDate: string; proceeds: number; proceedsAccountId: string },
+  userId: string
+) {
+  return db.transaction(async (tx) => {
+    const saleAccounts = await tx.select({ id: chartOfAccounts.id, code: chartOfAccounts.code })
+      .from(chartOfAccounts)
+      .where(and(
+        eq(chartOfAccounts.companyId, companyId),
+        inArray(chartOfAccounts.code, [PROFIT_ON_SALE_ACCOUNT_CODE, LOSS_ON_SALE_ACCOUNT_CODE])
+      ));
+    const gainAccount = saleAccounts.find(account => account.code === PROFIT_ON_SALE_ACCOUNT_CODE);
+    const lossAccount = saleAccounts.find(account => account.code === LOSS_ON_SALE_ACCOUNT_CODE);
+    if (!gainAccount || !lossAccount) throw new Error('Profit or loss on sale of assets account not found');
+
+    const charged = await chargedSince(tx, [asset.id], fiscalYear.startDate);
+    const charge = periodDepreciation(
+      toDepreciableAsset(asset),
+      {
+        from: asset.putToUseDate,
+        to: disposal.disposalDate,
+        daysInYear: daysInclusive(fiscalYear.startDate, fiscalYear.endDate),
+      },
+      bookValueAtYearStart(asset, charged.get(asset.id) || 0)
+    );
+    const accumulated = parseFloat(asset.accumulatedDepreciation) + (charge?.amount || 0);
+
+    const narration = `Disposal of ${asset.assetCode} - ${asset.name}`;
+    const disposalLines = disposalJournalLines({
+      cost: parseFloat(asset.cost),
+      accumulatedDepreciation: accumulated,
+      assetAccountId: asset.assetAccountId,
+      accumulatedDepreciationAccountId: asset.accumulatedDepreciationAccountId,
+    }, disposal.proceeds, {
+      proceedsAccountId: disposal.proceedsAccountId,
+      gainAccountId: gainAccount.id,
+      lossAccountId: lossAccount.id,
+    }, narration);
+
+    const depreciationLines = charge ? depreciationJournalLines([{
+      debitAccountId: asset.depreciationAccountId,
+      creditAccountId: creditAccountOf(asset),
+      amount: charge.amount,
+    }], `Depreciation from ${charge.fromDate} to ${charge.toDate}`) : [];
+
+    const je = await postAssetJournal(tx, companyId, fiscalYear, {
+      date: disposal.disposalDate,
+      narration,
+      sourceType: DISPOSAL_SOURCE_TYPE,
+      sourceId: asset.id,
+      type: 'DSP',
+    }, [...depreciationLines, ...disposalLines.lines], userId);
+
+    if (charge) {
+      await tx.insert(fixedAssetDepreciation).values({
+        assetId: asset.id,
+        journalEntryId: je?.id,
+        fromDate: charge.fromDate,
+        toDate: charge.toDate,
+        amount: charge.amount.toFixed(2),
+      });
+    }
+
+    const [disposed] = await tx.update(fixedAssets)
+      .set({
+        status: 'disposed',
+        disposalDate: disposal.disposalDate,
+        disposalProceeds: disposal.proceeds.toFixed(2),
+        disposalJournalEntryId: je?.id,
+        accumulatedDepreciation: accumulated.toFixed(2),
+        depreciatedUpTo: charge?.toDate || asset.depreciatedUpTo,
+        updatedAt: new Date(),
+      })
+      .where(eq(fixedAssets.id, asset.id))
+      .returning();
+
+    return {
+      asset: disposed,
+      journalEntry: je,
+      depreciation: charge?.amount || 0,
+      gainOrLoss: disposalLines.gainOrLoss,
+    };
+  });
+}
@@ -0,0 +1,167 @@
+/**
+ * Depreciation
+ *
+ * Companies Act, 2013 Schedule II depreciation of a fixed asset: straight
+ * line or written down value over its useful life, charged pro rata from the
+ * date the asset is put to use and never below its residual value.
+ */
+
+export type DepreciationMethod = 'slm' | 'wdv';
+
+export interface DepreciableAsset {
+  cost: number;
+  residualValue: number;
+  usefulLifeYears: number;
+  method: DepreciationMethod;
+  putToUseDate: string;
+  accumulatedDepreciation: number;
+  depreciatedUpTo: string | null;
+}
+
+export interface DepreciationPeriod {
+  from: string;
+  to: string;
+  // Days in the fiscal year the period belongs to
+  daysInYear: number;
+}
+
+export interface DepreciationCharge {
+  fromDate: string;
+  toDate: string;
+  amount: number;
+}
+
+export interface AssetJournalLine {
+  accountId: string;
+  debitAmount: string;
+  creditAmount: string;
+  description: string;
+}
+
+// Schedule II allows a residual value of up to 5% of the original cost; the
+// WDV rate is worked out on that when no residual value is given
+const DEFAULT_RESIDUAL_SHARE = 0.05;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split('T')[0];
+}
+
+/**
+ * Days from one date to another, both included
+ */
+export function daysInclusive(from: string, to: string): number {
+  const ms = Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`);
+  return Math.round(ms / 86400000) + 1;
+}
+
+export function monthEnd(date: string): string {
+  const [year, month] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0];
+}
+
+/**
+ * Written down value rate that brings the cost down to the residual value
+ * over the useful life: 1 - (residual / cost) ^ (1 / life)
+ */
+export function wdvRate(cost: number, residualValue: number, usefulLifeYears: number): number {
+  if (cost <= 0 || usefulLifeYears <= 0) return 0;
+  const residual = residualValue > 0 ? Math.min(residualValue, cost) : cost * DEFAULT_RESIDUAL_SHARE;
+  return 1 - Math.pow(residual / cost, 1 / usefulLifeYears);
+}
+
+/**
+ * Depreciation of an asset for a period. The charge starts on the later of
+ * the period start, the put-to-use date and the day after the asset was last
+ * depreciated to. WDV runs on the book value at the start of the fiscal
+ * year, or on cost for an asset added during it.
+ */
+export function periodDepreciation(
+  asset: DepreciableAsset,
+  period: DepreciationPeriod,
+  bookValueAtYearStart: number
+): DepreciationCharge | null {
+  const starts = [period.from, asset.putToUseDate];
+  if (asset.depreciatedUpTo) starts.push(addDays(asset.depreciatedUpTo, 1));
+  const fromDate = starts.sort()[starts.length - 1];
+  if (fromDate > period.to) return null;
+
+  const remaining = round(asset.cost - asset.residualValue - asset.accumulatedDepreciation);
+  if (remaining <= 0) return null;
+
+  const annual = asset.method === 'wdv'
+    ? bookValueAtYearStart * wdvRate(asset.cost, asset.residualValue, asset.usefulLifeYears)
+    : (asset.cost - asset.residualValue) / asset.usefulLifeYears;
+  const amount = round(Math.min(annual * daysInclusive(fromDate, period.to) / period.daysInYear, remaining));
+  if (amount <= 0) return null;
+
+  return { fromDate, toDate: period.to, amount };
+}
+
+/**
+ * Journal lines of a set of charges: one debit per expense account and one
+ * credit per accumulated depreciation (or asset) account
+ */
+export function depreciationJournalLines(
+  charges: { debitAccountId: string; creditAccountId: string; amount: number }[],
+  description: string
+): AssetJournalLine[] {
+  const debits = new Map<string, number>();
+  const credits = new Map<string, number>();
+  for (const charge of charges) {
+    debits.set(charge.debitAccountId, (debits.get(charge.debitAccountId) || 0) + charge.amount);
+    credits.set(charge.creditAccountId, (credits.get(charge.creditAccountId) || 0) + charge.amount);
+  }
+
+  return [
+    ...[...debits].map(([accountId, amount]) => ({
+      accountId, debitAmount: round(amount).toFixed(2), creditAmount: '0', description,
+    })),
+    ...[...credits].map(([accountId, amount]) => ({
+      accountId, debitAmount: '0', creditAmount: round(amount).toFixed(2), description,
+    })),
+  ].filter(line => parseFloat(line.debitAmount) > 0 || parseFloat(line.creditAmount) > 0);
+}
+
+/**
+ * Lines taking a disposed asset out of the books: the cost and accumulated
+ * depreciation are written off, the proceeds are debited and the difference
+ * from the book value is booked as a profit or loss on sale
+ */
+export function disposalJournalLines(
+  asset: {
+    cost: number;
+    accumulatedDepreciation: number;
+    assetAccountId: string;
+    accumulatedDepreciationAccountId: string | null;
+  },
+  proceeds: number,
+  accounts: { proceedsAccountId: string; gainAccountId: string; lossAccountId: string },
+  description: string
+): { lines: AssetJournalLine[]; gainOrLoss: number } {
+  const lines: AssetJournalLine[] = [];
+  const debit = (accountId: string, amount: number) => {
+    if (amount > 0) lines.push({ accountId, debitAmount: round(amount).toFixed(2), creditAmount: '0', description });
+  };
+  const credit = (accountId: string, amount: number) => {
+    if (amount > 0) lines.push({ accountId, debitAmount: '0', creditAmount: round(amount).toFixed(2), description });
+  };
+
+  if (asset.accumulatedDepreciationAccountId) {
+    debit(asset.accumulatedDepreciationAccountId, asset.accumulatedDepreciation);
+    credit(asset.assetAccountId, asset.cost);
+  } else {
+    // Depreciation was credited to the asset account, which holds the book value
+    credit(asset.assetAccountId, asset.cost - asset.accumulatedDepreciation);
+  }
+  debit(accounts.proceedsAccountId, proceeds);
+
+  const gainOrLoss = round(proceeds - (asset.cost - asset.accumulatedDepreciation));
+  credit(accounts.gainAccountId, gainOrLoss);
+  debit(accounts.lossAccountId, -gainOrLoss);
+
+  return { lines, gainOrLoss };
+}
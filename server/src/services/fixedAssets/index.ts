@@ -0,0 +1,9 @@
+/**
+ * Fixed Assets Service
+ *
+ * Main export for the asset register, depreciation and income-tax blocks
+ */
+
+export * from './depreciation';
+export * from './assetRegister';
+export * from './incomeTaxBlocks';
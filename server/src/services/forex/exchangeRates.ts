@@ -0,0 +1,99 @@
+/**
+ * Exchange Rates
+ *
+ * Looks up stored rates for converting foreign currency documents into the
+ * company's base currency. A rate is the latest one effective on or before
+ * the date; the reverse pair is inverted when only that was stored.
+ */
+
+import type { DbClient } from '../../db';
+import { companies, exchangeRates } from '../../../../shared/schema';
+import { eq, and, desc, lte } from 'drizzle-orm';
+import { roundRate } from './settlement';
+
+export interface ResolvedExchangeRate {
+  rate: number;
+  effectiveDate: string;
+  source: string | null;
+  // Worked out from the reverse pair
+  calculated?: boolean;
+}
+
+export interface DocumentCurrency {
+  // Null for the base currency
+  currencyCode: string | null;
+  exchangeRate: number;
+}
+
+export async function getBaseCurrency(client: DbClient, companyId: string): Promise<string> {
+  const [company] = await client.select({ baseCurrency: companies.baseCurrency })
+    .from(companies)
+    .where(eq(companies.id, companyId))
+    .limit(1);
+  return company?.baseCurrency || 'INR';
+}
+
+export async function lookupExchangeRate(
+  client: DbClient,
+  companyId: string,
+  fromCurrency: string,
+  toCurrency: string,
+  date: string
+): Promise<ResolvedExchangeRate | null> {
+  if (fromCurrency === toCurrency) {
+    return { rate: 1, effectiveDate: date, source: null };
+  }
+
+  const latest = (from: string, to: string) => client.select()
+    .from(exchangeRates)
+    .where(and(
+      eq(exchangeRates.companyId, companyId),
+      eq(exchangeRates.fromCurrency, from),
+      eq(exchangeRates.toCurrency, to),
+      lte(exchangeRates.effectiveDate, date)
+    ))
+    .orderBy(desc(exchangeRates.effectiveDate))
+    .limit(1);
+
+  const [direct] = await latest(fromCurrency, toCurrency);
+  if (direct) {
+    return { rate: parseFloat(direct.rate), effectiveDate: direct.effectiveDate, source: direct.source };
+  }
+
+  const [reverse] = await latest(toCurrency, fromCurrency);
+  if (reverse) {
+    return {
+      rate: 1 / parseFloat(reverse.rate),
+      effectiveDate: reverse.effectiveDate,
+      source: reverse.source,
+      calculated: true,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Currency and rate for a document dated `date`. A rate given on the
+ * document wins over the stored one; null when a foreign currency has no
+ * rate to fall back on.
+ */
+export async function resolveDocumentCurrency(
+  client: DbClient,
+  companyId: string,
+  currencyCode: string | null | undefined,
+  date: string,
+  exchangeRate?: number | null
+): Promise<DocumentCurrency | null> {
+  const baseCurrency = await getBaseCurrency(client, companyId);
+  if (!currencyCode || currencyCode === baseCurrency) {
+    return { currencyCode: null, exchangeRate: 1 };
+  }
+
+  if (exchangeRate && exchangeRate > 0) {
+    return { currencyCode, exchangeRate: roundRate(exchangeRate) };
+  }
+
+  const stored = await lookupExchangeRate(client, companyId, currencyCode, baseCurrency, date);
+  return stored ? { currencyCode, exchangeRate: roundRate(stored.rate) } : null;
+}
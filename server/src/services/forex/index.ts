@@ -0,0 +1,10 @@
+/**
+ * Forex Service
+ *
+ * Main export for exchange rates, foreign currency settlement and
+ * period-end revaluation
+ */
+
+export * from './exchangeRates';
+export * from './settlement';
+export * from './revaluation';
@@ -0,0 +1,405 @@
+/**
+ * Foreign Currency Revaluation
+ *
+ * At period end open foreign currency receivables, payables and bank
+ * balances are restated at the closing rate (AS 11 / Ind AS 21). The
+ * unrealised difference is posted on the revaluation date and reversed the
+ * next day, so documents keep their booked rate and settlement still
+ * realises the full difference against it.
+ */
+
+import { db, type DbClient } from '../../db';
+import {
+  bankAccounts,
+  bills,
+  chartOfAccounts,
+  currencyRevaluations,
+  invoices,
+  journalEntries,
+  journalEntryLines,
+  type FiscalYear,
+} from '../../../../shared/schema';
+import { eq, and, lte, gt, inArray, isNotNull, sql } from 'drizzle-orm';
+import { allocateDocumentNumber } from '../numbering';
+import { refreshPeriodBalances } from '../ledger';
+import { getBaseCurrency, lookupExchangeRate } from './exchangeRates';
+import { exchangeDifferenceLine, roundRate, toBase, type ForexJournalLine } from './settlement';
+
+// Default accounts of the seeded chart
+export const RECEIVABLES_ACCOUNT_CODE = '1300';
+export const PAYABLES_ACCOUNT_CODE = '2100';
+export const EXCHANGE_GAIN_ACCOUNT_CODE = '4250';
+export const EXCHANGE_LOSS_ACCOUNT_CODE = '5695';
+
+export const REVALUATION_SOURCE_TYPE = 'currency_revaluation';
+
+export type RevaluationKind = 'receivable' | 'payable' | 'bank';
+
+export interface RevaluationItem {
+  kind: RevaluationKind;
+  accountId: string;
+  currencyCode: string;
+  balanceFcy: number;
+  // Base currency amount the item is carried at; positive for a debit
+  // balance on assets and a credit balance on payables
+  carryingAmount: number;
+  reference: string;
+  documentId?: string;
+  partyType?: 'customer' | 'vendor';
+  partyId?: string;
+}
+
+export interface RevaluedItem extends RevaluationItem {
+  closingRate: number;
+  revaluedAmount: number;
+  // Unrealised gain (positive) or loss
+  difference: number;
+}
+
+export interface RevaluationJournalLine extends ForexJournalLine {
+  currencyCode?: string;
+  exchangeRate?: string;
+  debitAmountFcy?: string;
+  creditAmountFcy?: string;
+  partyType?: 'customer' | 'vendor';
+  partyId?: string;
+}
+
+export interface ForexAccounts {
+  receivablesAccountId: string | null;
+  payablesAccountId: string | null;
+  gainAccountId: string | null;
+  lossAccountId: string | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Revaluations are reversed on the day after they are posted
+ */
+export function reversalDateFor(revaluationDate: string): string {
+  const date = new Date(`${revaluationDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+export function revalueItem(item: RevaluationItem, closingRate: number): RevaluedItem {
+  const revaluedAmount = toBase(item.balanceFcy, closingRate);
+  return {
+    ...item,
+    closingRate,
+    revaluedAmount,
+    difference: round(item.kind === 'payable'
+      ? item.carryingAmount - revaluedAmount
+      : revaluedAmount - item.carryingAmount),
+  };
+}
+
+/**
+ * A gain is a debit to the item's account whichever side it is on (an
+ * asset grows or a liability shrinks) and a loss a credit. Gains and losses
+ * go to their own accounts rather than being netted.
+ */
+export function revaluationJournalLines(
+  items: RevaluedItem[],
+  accounts: { gainAccountId: string; lossAccountId: string },
+  description: string
+): RevaluationJournalLine[] {
+  const lines: RevaluationJournalLine[] = [];
+  let gains = 0;
+  let losses = 0;
+
+  for (const item of items) {
+    if (item.difference === 0) continue;
+    const amount = Math.abs(item.difference).toFixed(2);
+
+    lines.push({
+      accountId: item.accountId,
+      debitAmount: item.difference > 0 ? amount : '0',
+      creditAmount: item.difference > 0 ? '0' : amount,
+      // Restates the base amount only; the foreign currency balance is unchanged
+      currencyCode: item.currencyCode,
+      exchangeRate: item.closingRate.toString(),
+      debitAmountFcy: '0',
+      creditAmountFcy: '0',
+      partyType: item.partyType,
+      partyId: item.partyId,
+      description: `${description} - ${item.reference}`,
+    });
+
+    if (item.difference > 0) gains += item.difference;
+    else losses -= item.difference;
+  }
+
+  const gainLine = exchangeDifferenceLine(round(gains), accounts, description);
+  const lossLine = exchangeDifferenceLine(-round(losses), accounts, description);
+  if (gainLine) lines.push(gainLine);
+  if (lossLine) lines.push(lossLine);
+
+  return lines;
+}
+
+export function reversalJournalLines(lines: RevaluationJournalLine[], description: string): RevaluationJournalLine[] {
+  return lines.map(line => ({
+    ...line,
+    debitAmount: line.creditAmount,
+    creditAmount: line.debitAmount,
+    description: `${description}: ${line.description}`,
+  }));
+}
+
+export async function getForexAccounts(client: DbClient, companyId: string): Promise<ForexAccounts> {
+  const accounts = await client.select({ id: chartOfAccounts.id, code: chartOfAccounts.code })
+    .from(chartOfAccounts)
+    .where(and(
+      eq(chartOfAccounts.companyId, companyId),
+      inArray(chartOfAccounts.code, [
+        RECEIVABLES_ACCOUNT_CODE,
+        PAYABLES_ACCOUNT_CODE,
+        EXCHANGE_GAIN_ACCOUNT_CODE,
+        EXCHANGE_LOSS_ACCOUNT_CODE,
+      ])
+    ));
+  const idOf = (code: string) => accounts.find(account => account.code === code)?.id || null;
+
+  return {
+    receivablesAccountId: idOf(RECEIVABLES_ACCOUNT_CODE),
+    payablesAccountId: idOf(PAYABLES_ACCOUNT_CODE),
+    gainAccountId: idOf(EXCHANGE_GAIN_ACCOUNT_CODE),
+    lossAccountId: idOf(EXCHANGE_LOSS_ACCOUNT_CODE),
+  };
+}
+
+/**
+ * Open foreign currency invoices and bills dated on or before the date,
+ * and the balances of bank accounts held in a foreign currency
+ */
+export async function getOpenForeignItems(
+  client: DbClient,
+  companyId: string,
+  asOfDate: string,
+  accounts: ForexAccounts
+): Promise<RevaluationItem[]> {
+  const items: RevaluationItem[] = [];
+
+  if (accounts.receivablesAccountId) {
+    const openInvoices = await client.select()
+      .from(invoices)
+      .where(and(
+        eq(invoices.companyId, companyId),
+        isNotNull(invoices.currencyCode),
+        inArray(invoices.status, ['sent', 'partially_paid', 'overdue']),
+        lte(invoices.invoiceDate, asOfDate),
+        gt(invoices.balanceDueFcy, '0')
+      ));
+    for (const invoice of openInvoices) {
+      items.push({
+        kind: 'receivable',
+        accountId: accounts.receivablesAccountId,
+        currencyCode: invoice.currencyCode!,
+        balanceFcy: parseFloat(invoice.balanceDueFcy || '0'),
+        carryingAmount: parseFloat(invoice.balanceDue),
+        reference: `Invoice ${invoice.invoiceNumber}`,
+        documentId: invoice.id,
+        partyType: 'customer',
+        partyId: invoice.customerId,
+      });
+    }
+  }
+
+  if (accounts.payablesAccountId) {
+    const openBills = await client.select()
+      .from(bills)
+      .where(and(
+        eq(bills.companyId, companyId),
+        isNotNull(bills.currencyCode),
+        inArray(bills.status, ['pending', 'partially_paid', 'overdue']),
+        lte(bills.billDate, asOfDate),
+        gt(bills.balanceDueFcy, '0')
+      ));
+    for (const bill of openBills) {
+      items.push({
+        kind: 'payable',
+        accountId: accounts.payablesAccountId,
+        currencyCode: bill.currencyCode!,
+        balanceFcy: parseFloat(bill.balanceDueFcy || '0'),
+        carryingAmount: parseFloat(bill.balanceDue),
+        reference: `Bill ${bill.billNumber}`,
+        documentId: bill.id,
+        partyType: 'vendor',
+        partyId: bill.vendorId,
+      });
+    }
+  }
+
+  const foreignBanks = await client.select()
+    .from(bankAccounts)
+    .where(and(
+      eq(bankAccounts.companyId, companyId),
+      eq(bankAccounts.isActive, true),
+      isNotNull(bankAccounts.currencyCode),
+      isNotNull(bankAccounts.accountId)
+    ));
+  if (foreignBanks.length > 0) {
+    const balances = await client.select({
+      accountId: journalEntryLines.accountId,
+      currencyCode: journalEntryLines.currencyCode,
+      balance: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}) - SUM(${journalEntryLines.creditAmount}), 0)`,
+      balanceFcy: sql<string>`COALESCE(SUM(COALESCE(${journalEntryLines.debitAmountFcy}, 0)) - SUM(COALESCE(${journalEntryLines.creditAmountFcy}, 0)), 0)`,
+    })
+      .from(journalEntryLines)
+      .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+      .where(and(
+        eq(journalEntries.companyId, companyId),
+        eq(journalEntries.status, 'posted'),
+        lte(journalEntries.entryDate, asOfDate),
+        inArray(journalEntryLines.accountId, foreignBanks.map(bank => bank.accountId!))
+      ))
+      .groupBy(journalEntryLines.accountId, journalEntryLines.currencyCode);
+
+    for (const bank of foreignBanks) {
+      // Only lines tagged with the account's currency carry foreign money; untagged
+      // lines (bank charges booked in base currency) are not revalued
+      const tagged = balances.find(row => row.accountId === bank.accountId && row.currencyCode === bank.currencyCode);
+      const balanceFcy = parseFloat(tagged?.balanceFcy || '0');
+      const carryingAmount = parseFloat(tagged?.balance || '0');
+      if (balanceFcy === 0 && carryingAmount === 0) continue;
+
+      items.push({
+        kind: 'bank',
+        accountId: bank.accountId!,
+        currencyCode: bank.currencyCode!,
+        balanceFcy,
+        carryingAmount: round(carryingAmount),
+        reference: `${bank.bankName} ${bank.accountNumber}`,
+      });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * What a revaluation on the date would post. Items in a currency with no
+ * stored rate are left out and the currency listed under missingRates.
+ */
+export async function previewRevaluation(companyId: string, asOfDate: string, client: DbClient = db) {
+  const baseCurrency = await getBaseCurrency(client, companyId);
+  const accounts = await getForexAccounts(client, companyId);
+  const openItems = (await getOpenForeignItems(client, companyId, asOfDate, accounts))
+    .filter(item => item.currencyCode !== baseCurrency);
+
+  const rates: Record<string, number> = {};
+  const missingRates: string[] = [];
+  for (const currencyCode of new Set(openItems.map(item => item.currencyCode))) {
+    const rate = await lookupExchangeRate(client, companyId, currencyCode, baseCurrency, asOfDate);
+    if (rate) rates[currencyCode] = roundRate(rate.rate);
+    else missingRates.push(currencyCode);
+  }
+
+  const items = openItems
+    .filter(item => rates[item.currencyCode] !== undefined)
+    .map(item => revalueItem(item, rates[item.currencyCode]));
+
+  return {
+    revaluationDate: asOfDate,
+    baseCurrency,
+    accounts,
+    rates,
+    missingRates,
+    items,
+    netAmount: round(items.reduce((sum, item) => sum + item.difference, 0)),
+  };
+}
+
+async function postRevaluationJournal(
+  client: DbClient,
+  companyId: string,
+  fiscalYear: Pick<FiscalYear, 'id' | 'startDate' | 'endDate'>,
+  entry: { date: string; narration: string; sourceId: string; reversedEntryId?: string },
+  lines: RevaluationJournalLine[],
+  userId: string
+) {
+  const total = lines.reduce((sum, line) => sum + parseFloat(line.debitAmount), 0).toFixed(2);
+  const [je] = await client.insert(journalEntries).values({
+    companyId,
+    fiscalYearId: fiscalYear.id,
+    entryNumber: await allocateDocumentNumber(client, companyId, 'journal_entry', fiscalYear, { type: 'FXR' }),
+    entryDate: entry.date,
+    entryType: entry.reversedEntryId ? 'reversal' : 'auto_revaluation',
+    narration: entry.narration,
+    totalDebit: total,
+    totalCredit: total,
+    sourceType: REVALUATION_SOURCE_TYPE,
+    sourceId: entry.sourceId,
+    status: 'posted',
+    reversedEntryId: entry.reversedEntryId,
+    createdByUserId: userId,
+  }).returning();
+
+  await client.insert(journalEntryLines).values(lines.map((line, index) => ({ journalEntryId: je.id, ...line, sortOrder: index })));
+  await refreshPeriodBalances(client, companyId, [je]);
+  return je;
+}
+
+/**
+ * Posts the revaluation on the date and its reversal on the next day,
+ * which may fall in the following fiscal year
+ */
+export async function runRevaluation(
+  companyId: string,
+  fiscalYear: Pick<FiscalYear, 'id' | 'startDate' | 'endDate'>,
+  reversalFiscalYear: Pick<FiscalYear, 'id' | 'startDate' | 'endDate'>,
+  dates: { revaluationDate: string; reversalDate: string },
+  userId: string
+) {
+  return db.transaction(async (tx) => {
+    const preview = await previewRevaluation(companyId, dates.revaluationDate, tx);
+    const { gainAccountId, lossAccountId } = preview.accounts;
+    if (!gainAccountId || !lossAccountId) throw new Error('Foreign exchange gain or loss account not found');
+    if (preview.missingRates.length > 0) {
+      throw new Error(`No exchange rate for ${preview.missingRates.join(', ')} on ${dates.revaluationDate}`);
+    }
+
+    const narration = `Foreign currency revaluation as on ${dates.revaluationDate}`;
+    const lines = revaluationJournalLines(preview.items, { gainAccountId, lossAccountId }, narration);
+
+    const [revaluation] = await tx.insert(currencyRevaluations).values({
+      companyId,
+      fiscalYearId: fiscalYear.id,
+      revaluationDate: dates.revaluationDate,
+      reversalDate: dates.reversalDate,
+      netAmount: preview.netAmount.toFixed(2),
+      rates: preview.rates,
+      lines: preview.items,
+      createdByUserId: userId,
+    }).returning();
+
+    if (lines.length === 0) {
+      return { revaluation, journalEntry: null, reversalEntry: null };
+    }
+
+    const je = await postRevaluationJournal(tx, companyId, fiscalYear, {
+      date: dates.revaluationDate,
+      narration,
+      sourceId: revaluation.id,
+    }, lines, userId);
+    const reversal = await postRevaluationJournal(tx, companyId, reversalFiscalYear, {
+      date: dates.reversalDate,
+      narration: `Reversal of ${je.entryNumber}`,
+      sourceId: revaluation.id,
+      reversedEntryId: je.id,
+    }, reversalJournalLines(lines, 'Reversal'), userId);
+
+    await tx.update(journalEntries)
+      .set({ isReversed: true, reversedEntryId: reversal.id, updatedAt: new Date() })
+      .where(eq(journalEntries.id, je.id));
+
+    const [posted] = await tx.update(currencyRevaluations)
+      .set({ journalEntryId: je.id, reversalJournalEntryId: reversal.id })
+      .where(eq(currencyRevaluations.id, revaluation.id))
+      .returning();
+
+    return { revaluation: posted, journalEntry: je, reversalEntry: reversal };
+  });
+}
@@ -0,0 +1,194 @@
+/**
+ * Foreign Currency Settlement
+ *
+ * Invoices, bills and payments in a foreign currency keep their amounts in
+ * the base currency, converted at the document's rate, with the foreign
+ * currency figures alongside. Settling a document at a different rate
+ * clears its carrying amount and books the realised exchange difference.
+ */
+
+export type ForexSide = 'receivable' | 'payable';
+
+export interface ForeignBalance {
+  // Carrying amount in the base currency
+  balanceDue: number;
+  balanceDueFcy: number;
+  // Rate the document was booked at
+  exchangeRate: number;
+}
+
+export interface Settlement {
+  amountFcy: number;
+  // Carrying amount taken off the receivable or payable
+  baseCleared: number;
+  // Base value of the foreign currency at the payment rate
+  baseSettled: number;
+  // Realised gain (positive) or loss (negative)
+  exchangeDifference: number;
+}
+
+export interface ForexJournalLine {
+  accountId: string;
+  debitAmount: string;
+  creditAmount: string;
+  description: string;
+}
+
+export interface ForeignAmountFields {
+  currencyCode: string;
+  exchangeRate: string;
+  debitAmountFcy: string;
+  creditAmountFcy: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function roundRate(rate: number): number {
+  return Math.round(rate * 1e6) / 1e6;
+}
+
+export function toBase(amountFcy: number, exchangeRate: number): number {
+  return round(amountFcy * exchangeRate);
+}
+
+/**
+ * Settles up to the open foreign currency balance of a document. The last
+ * settlement clears whatever carrying amount is left so that rounding never
+ * strands paise on a fully paid document.
+ */
+export function settleForeignBalance(
+  balance: ForeignBalance,
+  amountFcy: number,
+  paymentRate: number,
+  side: ForexSide
+): Settlement {
+  const settledFcy = round(Math.min(amountFcy, balance.balanceDueFcy));
+  const baseCleared = settledFcy >= balance.balanceDueFcy
+    ? round(balance.balanceDue)
+    : Math.min(toBase(settledFcy, balance.exchangeRate), round(balance.balanceDue));
+  const baseSettled = toBase(settledFcy, paymentRate);
+
+  return {
+    amountFcy: settledFcy,
+    baseCleared,
+    baseSettled,
+    exchangeDifference: round(side === 'receivable' ? baseSettled - baseCleared : baseCleared - baseSettled),
+  };
+}
+
+/**
+ * Journal line for a realised or unrealised exchange difference: gains are
+ * credited to the gain account, losses debited to the loss account
+ */
+export function exchangeDifferenceLine(
+  difference: number,
+  accounts: { gainAccountId: string; lossAccountId: string },
+  description: string
+): ForexJournalLine | null {
+  const amount = round(Math.abs(difference));
+  if (amount === 0) return null;
+
+  return difference > 0
+    ? { accountId: accounts.gainAccountId, debitAmount: '0', creditAmount: amount.toFixed(2), description }
+    : { accountId: accounts.lossAccountId, debitAmount: amount.toFixed(2), creditAmount: '0', description };
+}
+
+/**
+ * Foreign currency columns of a journal line; empty for the base currency
+ */
+export function foreignAmountFields(
+  currencyCode: string | null,
+  exchangeRate: number,
+  debitFcy: number,
+  creditFcy: number
+): ForeignAmountFields | Record<string, never> {
+  if (!currencyCode) return {};
+
+  return {
+    currencyCode,
+    exchangeRate: exchangeRate.toString(),
+    debitAmountFcy: round(debitFcy).toFixed(2),
+    creditAmountFcy: round(creditFcy).toFixed(2),
+  };
+}
+
+export interface SettlementJournalInput {
+  side: ForexSide;
+  bankAccountId: string;
+  // Trade receivables or payables
+  controlAccountId: string;
+  partyType: 'customer' | 'vendor';
+  partyId: string;
+  currencyCode: string | null;
+  paymentRate: number;
+  // The whole payment, in its own currency and in the base currency
+  amountFcy: number;
+  baseAmount: number;
+  settlements: Settlement[];
+  // Only needed when the settlements realise a difference
+  accounts: { gainAccountId: string | null; lossAccountId: string | null };
+  descriptions: { bank: string; party: string; exchange: string };
+}
+
+export interface SettlementJournalLine extends ForexJournalLine {
+  partyType?: 'customer' | 'vendor';
+  partyId?: string;
+  currencyCode?: string;
+  exchangeRate?: string;
+  debitAmountFcy?: string;
+  creditAmountFcy?: string;
+}
+
+/**
+ * Journal lines for a payment received or made. The party's account is
+ * cleared at the carrying amount of the documents settled, any unallocated
+ * part goes on account at the payment rate and the difference is the
+ * realised exchange gain or loss.
+ */
+export function settlementJournalLines(input: SettlementJournalInput): SettlementJournalLine[] {
+  const cleared = input.settlements.reduce((sum, s) => sum + s.baseCleared, 0);
+  const settled = input.settlements.reduce((sum, s) => sum + s.baseSettled, 0);
+  const difference = round(input.settlements.reduce((sum, s) => sum + s.exchangeDifference, 0));
+  const partyAmount = round(cleared + input.baseAmount - settled).toFixed(2);
+  const bankAmount = round(input.baseAmount).toFixed(2);
+  const receipt = input.side === 'receivable';
+
+  const bankLine: SettlementJournalLine = {
+    accountId: input.bankAccountId,
+    debitAmount: receipt ? bankAmount : '0',
+    creditAmount: receipt ? '0' : bankAmount,
+    ...foreignAmountFields(input.currencyCode, input.paymentRate, receipt ? input.amountFcy : 0, receipt ? 0 : input.amountFcy),
+    description: input.descriptions.bank,
+  };
+  const partyLine: SettlementJournalLine = {
+    accountId: input.controlAccountId,
+    debitAmount: receipt ? '0' : partyAmount,
+    creditAmount: receipt ? partyAmount : '0',
+    ...foreignAmountFields(input.currencyCode, input.paymentRate, receipt ? 0 : input.amountFcy, receipt ? input.amountFcy : 0),
+    partyType: input.partyType,
+    partyId: input.partyId,
+    description: input.descriptions.party,
+  };
+
+  const lines = receipt ? [bankLine, partyLine] : [partyLine, bankLine];
+  if (difference !== 0) {
+    const { gainAccountId, lossAccountId } = input.accounts;
+    if (!gainAccountId || !lossAccountId) throw new Error('Foreign exchange gain or loss account not found');
+    lines.push(exchangeDifferenceLine(difference, { gainAccountId, lossAccountId }, input.descriptions.exchange)!);
+  }
+  return lines;
+}
+
+/**
+ * Converts the money fields of a line entered in a foreign currency
+ */
+export function convertAmountFields<T extends Record<string, any>>(line: T, exchangeRate: number, fields: (keyof T & string)[]): T {
+  const converted: Record<string, any> = { ...line };
+  for (const field of fields) {
+    const value = line[field];
+    if (value !== undefined && value !== null && value !== '') {
+      converted[field] = toBase(parseFloat(String(value)), exchangeRate).toString();
+    }
+  }
+  return converted as T;
+}
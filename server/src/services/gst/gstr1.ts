@@ -0,0 +1,359 @@
+/**
+ * GSTR-1 Service
+ *
+ * Builds GSTR-1 rows from issued sales documents (invoices and credit
+ * notes) and keeps the gstr1_entries table in sync with them. Debit notes
+ * here are purchase returns to suppliers, not outward supplies, so they are
+ * not reported.
+ */
+
+import { db, type DbClient } from '../../db';
+import {
+  gstr1Entries,
+  gstConfig,
+  companies,
+  invoices,
+  creditNotes,
+  type Party,
+} from '../../../../shared/schema';
+import { eq, and } from 'drizzle-orm';
+
+export type Gstr1DocumentType = 'invoice' | 'credit_note' | 'debit_note';
+
+// Sales documents whose GSTR-1 rows are generated automatically
+export type Gstr1SourceType = Exclude<Gstr1DocumentType, 'debit_note'>;
+
+export type Gstr1InvoiceType = 'B2B' | 'B2CL' | 'B2CS' | 'CDNR' | 'CDNUR' | 'EXPWP' | 'EXPWOP';
+
+// GSTN invoice type of a B2B or CDNR document: regular, or to an SEZ unit with or without payment of IGST
+export type Gstr1SupplyType = 'R' | 'SEWP' | 'SEWOP';
+
+// Unregistered inter-state invoices above this value are reported as B2CL (Notification 12/2024-CT)
+export const B2CL_THRESHOLD = 100000;
+
+// Place of supply code used for exports
+export const EXPORT_PLACE_OF_SUPPLY = '96';
+
+export interface Gstr1SourceLine {
+  hsnSacCode?: string | null;
+  quantity?: string | number | null;
+  taxRate?: string | number | null;
+  taxAmount?: string | number | null;
+  amount: string | number; // Line amount including tax
+  nonGst?: boolean | null; // Supplies outside GST are left to GSTR-3B 3.1(e)
+}
+
+export interface Gstr1SourceDocument {
+  documentType: Gstr1DocumentType;
+  documentId: string;
+  documentNumber: string;
+  documentDate: string;
+  totalAmount: string | number;
+  originalInvoiceAmount?: string | number | null; // Credit notes: value of the invoice being credited
+  party: Pick<Party, 'name' | 'gstin' | 'gstRegistrationType' | 'stateCode' | 'country'>;
+  lines: Gstr1SourceLine[];
+}
+
+export interface Gstr1Row {
+  documentType: Gstr1DocumentType;
+  invoiceId: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  invoiceType: Gstr1InvoiceType;
+  returnPeriod: string;
+  partyGstin: string | null;
+  partyName: string;
+  placeOfSupply: string;
+  supplyType: Gstr1SupplyType;
+  hsnSacCode: string | null;
+  taxRate: string;
+  quantity: string;
+  taxableValue: string;
+  igst: string;
+  cgst: string;
+  sgst: string;
+  cess: string;
+  invoiceValue: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: string | number | null | undefined) =>
+  typeof value === 'number' ? value : parseFloat(value || '0') || 0;
+
+/**
+ * Returns the GST return period (MMYYYY) for a document date (YYYY-MM-DD)
+ */
+export function getReturnPeriod(documentDate: string): string {
+  const [year, month] = documentDate.split('-');
+  return `${month}${year}`;
+}
+
+/**
+ * First and last day (YYYY-MM-DD) of a return period (MMYYYY)
+ */
+export function getPeriodDates(returnPeriod: string) {
+  const month = parseInt(returnPeriod.substring(0, 2), 10);
+  const year = parseInt(returnPeriod.substring(2), 10);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const mm = String(month).padStart(2, '0');
+  return { startDate: `${year}-${mm}-01`, endDate: `${year}-${mm}-${String(lastDay).padStart(2, '0')}` };
+}
+
+/**
+ * Whether the party is a GST-registered recipient
+ */
+export function isRegisteredParty(party: Gstr1SourceDocument['party']): boolean {
+  return !!party.gstin && !['unregistered', 'consumer', 'overseas'].includes(party.gstRegistrationType || '');
+}
+
+/**
+ * Whether a supply to the party is an export of goods/services
+ */
+export function isExportParty(party: Gstr1SourceDocument['party']): boolean {
+  if (party.gstRegistrationType === 'overseas') return true;
+  return !!party.country && party.country.trim().toLowerCase() !== 'india';
+}
+
+/**
+ * Resolves the place of supply (2-digit state code) for a party
+ */
+export function resolvePlaceOfSupply(
+  party: Gstr1SourceDocument['party'],
+  supplierStateCode: string
+): string {
+  if (isExportParty(party)) return EXPORT_PLACE_OF_SUPPLY;
+  if (party.stateCode) return party.stateCode.padStart(2, '0');
+  if (party.gstin) return party.gstin.substring(0, 2);
+  // Unknown customer location - treat as intra-state
+  return supplierStateCode;
+}
+
+/**
+ * Whether the supply is inter-state (IGST) rather than intra-state (CGST + SGST)
+ */
+export function isInterStateSupply(
+  party: Gstr1SourceDocument['party'],
+  placeOfSupply: string,
+  supplierStateCode: string
+): boolean {
+  // Exports and supplies to SEZ units are always inter-state
+  if (placeOfSupply === EXPORT_PLACE_OF_SUPPLY || party.gstRegistrationType === 'sez') return true;
+  return placeOfSupply !== supplierStateCode;
+}
+
+/**
+ * Classifies a document into its GSTR-1 table. Notes follow the invoice they
+ * adjust, so their size is judged by the original invoice's value when known.
+ */
+export function classifyDocument(
+  doc: Pick<Gstr1SourceDocument, 'documentType' | 'party' | 'totalAmount' | 'originalInvoiceAmount'>,
+  isInterState: boolean,
+  hasIgst: boolean
+): Gstr1InvoiceType {
+  const registered = isRegisteredParty(doc.party);
+  const isExport = isExportParty(doc.party);
+  const value = doc.documentType === 'invoice' ? doc.totalAmount : doc.originalInvoiceAmount ?? doc.totalAmount;
+  const isLarge = isInterState && toNumber(value) > B2CL_THRESHOLD;
+
+  if (doc.documentType === 'invoice') {
+    if (isExport) return hasIgst ? 'EXPWP' : 'EXPWOP';
+    if (registered) return 'B2B';
+    return isLarge ? 'B2CL' : 'B2CS';
+  }
+
+  // Credit/debit notes: registered recipients go to CDNR. Notes to unregistered
+  // recipients only go to CDNUR for exports and B2CL-sized supplies; the rest
+  // are netted into B2CS.
+  if (registered) return 'CDNR';
+  if (isExport || isLarge) return 'CDNUR';
+  return 'B2CS';
+}
+
+/**
+ * Builds GSTR-1 rows for a document, one row per HSN/SAC code and tax rate
+ */
+export function buildGstr1Rows(doc: Gstr1SourceDocument, supplierStateCode: string): Gstr1Row[] {
+  const placeOfSupply = resolvePlaceOfSupply(doc.party, supplierStateCode);
+  const interState = isInterStateSupply(doc.party, placeOfSupply, supplierStateCode);
+  const hasIgst = interState && doc.lines.some(l => toNumber(l.taxAmount) > 0);
+  const invoiceType = classifyDocument(doc, interState, hasIgst);
+  const supplyType: Gstr1SupplyType = doc.party.gstRegistrationType === 'sez' ? (hasIgst ? 'SEWP' : 'SEWOP') : 'R';
+
+  // Credit notes reduce outward supplies; when netted into B2CS they are negative
+  const sign = doc.documentType === 'credit_note' && invoiceType === 'B2CS' ? -1 : 1;
+
+  const groups = new Map<string, { hsnSacCode: string | null; taxRate: number; quantity: number; taxable: number; tax: number }>();
+  for (const line of doc.lines) {
+    if (line.nonGst) continue;
+    const taxRate = toNumber(line.taxRate);
+    const hsnSacCode = line.hsnSacCode?.trim() || null;
+    const key = `${hsnSacCode || ''}|${taxRate}`;
+    const taxAmount = toNumber(line.taxAmount);
+    const group = groups.get(key) || { hsnSacCode, taxRate, quantity: 0, taxable: 0, tax: 0 };
+    group.quantity += toNumber(line.quantity);
+    group.taxable += toNumber(line.amount) - taxAmount;
+    group.tax += taxAmount;
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).map(group => {
+    const tax = round2(group.tax) * sign;
+    const igst = interState ? tax : 0;
+    const cgst = interState ? 0 : round2(tax / 2);
+    const sgst = interState ? 0 : round2(tax - cgst);
+
+    return {
+      documentType: doc.documentType,
+      invoiceId: doc.documentId,
+      invoiceNumber: doc.documentNumber,
+      invoiceDate: doc.documentDate,
+      invoiceType,
+      returnPeriod: getReturnPeriod(doc.documentDate),
+      partyGstin: isRegisteredParty(doc.party) ? doc.party.gstin!.toUpperCase() : null,
+      partyName: doc.party.name,
+      placeOfSupply,
+      supplyType,
+      hsnSacCode: group.hsnSacCode,
+      taxRate: group.taxRate.toFixed(2),
+      quantity: group.quantity.toFixed(4),
+      taxableValue: (round2(group.taxable) * sign).toFixed(2),
+      igst: igst.toFixed(2),
+      cgst: cgst.toFixed(2),
+      sgst: sgst.toFixed(2),
+      cess: '0.00',
+      invoiceValue: (round2(toNumber(doc.totalAmount)) * sign).toFixed(2),
+    };
+  });
+}
+
+/**
+ * Resolves the company's primary GST registration and its state code
+ */
+export async function getSupplierGstContext(client: DbClient, companyId: string) {
+  const config = await client.query.gstConfig.findFirst({
+    where: and(
+      eq(gstConfig.companyId, companyId),
+      eq(gstConfig.isPrimary, true),
+      eq(gstConfig.isActive, true)
+    ),
+  });
+
+  if (config) {
+    return { gstConfigId: config.id, gstin: config.gstin, stateCode: config.stateCode || config.gstin.substring(0, 2) };
+  }
+
+  const company = await client.query.companies.findFirst({
+    where: eq(companies.id, companyId),
+  });
+
+  return {
+    gstConfigId: null,
+    gstin: company?.gstin || null,
+    stateCode: company?.stateCode || company?.gstin?.substring(0, 2) || '',
+  };
+}
+
+/**
+ * Loads a sales document in the shape expected by buildGstr1Rows
+ */
+async function loadSourceDocument(
+  client: DbClient,
+  companyId: string,
+  documentType: Gstr1SourceType,
+  documentId: string
+): Promise<{ status: string; doc: Gstr1SourceDocument } | null> {
+  if (documentType === 'invoice') {
+    const invoice = await client.query.invoices.findFirst({
+      where: and(eq(invoices.id, documentId), eq(invoices.companyId, companyId)),
+      with: { customer: true, lines: { with: { product: true } } },
+    });
+    if (!invoice) return null;
+    return {
+      status: invoice.status,
+      doc: {
+        documentType,
+        documentId,
+        documentNumber: invoice.invoiceNumber,
+        documentDate: invoice.invoiceDate,
+        totalAmount: invoice.totalAmount,
+        party: invoice.customer,
+        lines: invoice.lines.map(line => ({ ...line, nonGst: line.nonGst || line.product?.nonGst })),
+      },
+    };
+  }
+
+  const note = await client.query.creditNotes.findFirst({
+    where: and(eq(creditNotes.id, documentId), eq(creditNotes.companyId, companyId)),
+    with: { customer: true, originalInvoice: true, lines: { with: { product: true } } },
+  });
+  if (!note) return null;
+  return {
+    status: note.status,
+    doc: {
+      documentType,
+      documentId,
+      documentNumber: note.creditNoteNumber,
+      documentDate: note.creditNoteDate,
+      totalAmount: note.totalAmount,
+      originalInvoiceAmount: note.originalInvoice?.totalAmount,
+      party: note.customer,
+      lines: note.lines.map(line => ({ ...line, nonGst: line.product?.nonGst })),
+    },
+  };
+}
+
+/**
+ * Re-generates the GSTR-1 rows of a document from its current state.
+ *
+ * Drafts have no rows, cancelled documents keep their rows flagged as cancelled
+ * (they still count in the documents-issued table), and rows that have already
+ * been filed are never rewritten - changes to those must go through amendments,
+ * which is reported back as `synced: false`.
+ */
+export async function syncGstr1ForDocument(
+  client: DbClient,
+  companyId: string,
+  documentType: Gstr1SourceType,
+  documentId: string
+): Promise<{ synced: boolean }> {
+  const source = await loadSourceDocument(client, companyId, documentType, documentId);
+  const documentFilter = and(
+    eq(gstr1Entries.companyId, companyId),
+    eq(gstr1Entries.documentType, documentType),
+    eq(gstr1Entries.invoiceId, documentId)
+  );
+
+  const existing = await client.query.gstr1Entries.findMany({ where: documentFilter });
+  if (existing.some(e => e.filingStatus !== 'pending')) {
+    return { synced: false };
+  }
+
+  if (!source || source.status === 'draft') {
+    await client.delete(gstr1Entries).where(documentFilter);
+    return { synced: true };
+  }
+
+  if (source.status === 'cancelled' || source.status === 'void') {
+    await client.update(gstr1Entries)
+      .set({ isCancelled: true, cancelledAt: new Date(), updatedAt: new Date() })
+      .where(and(documentFilter, eq(gstr1Entries.isCancelled, false)));
+    return { synced: true };
+  }
+
+  const supplier = await getSupplierGstContext(client, companyId);
+  const rows = buildGstr1Rows(source.doc, supplier.stateCode);
+
+  await client.delete(gstr1Entries).where(documentFilter);
+  if (rows.length > 0) {
+    await client.insert(gstr1Entries).values(
+      rows.map(row => ({
+        ...row,
+        companyId,
+        gstConfigId: supplier.gstConfigId,
+        source: 'auto',
+      }))
+    );
+  }
+  return { synced: true };
+}
@@ -0,0 +1,500 @@
+/**
+ * GSTR-1 Export Service
+ *
+ * Renders a return period's GSTR-1 entries into the JSON accepted by the GSTN
+ * offline tool / portal upload, and validates the data before doing so.
+ */
+
+import type { Gstr1Entry } from '../../../../shared/schema';
+import { B2CL_THRESHOLD, EXPORT_PLACE_OF_SUPPLY } from './gstr1';
+
+export type Gstr1ExportEntry = Pick<
+  Gstr1Entry,
+  | 'documentType'
+  | 'invoiceNumber'
+  | 'invoiceDate'
+  | 'invoiceType'
+  | 'partyGstin'
+  | 'placeOfSupply'
+  | 'hsnSacCode'
+  | 'taxRate'
+  | 'quantity'
+  | 'taxableValue'
+  | 'igst'
+  | 'cgst'
+  | 'sgst'
+  | 'cess'
+  | 'invoiceValue'
+  | 'isCancelled'
+> & Partial<Pick<Gstr1Entry, 'supplyType'>>;
+
+export interface Gstr1ExportInput {
+  gstin: string;
+  returnPeriod: string; // MMYYYY
+  entries: Gstr1ExportEntry[];
+  hsnDescriptions?: Record<string, string>;
+}
+
+export interface Gstr1ValidationIssue {
+  documentNumber: string | null;
+  field: string;
+  message: string;
+}
+
+// ---- GSTN JSON shapes ----
+
+export interface Gstr1ItemDetail {
+  txval: number;
+  rt: number;
+  iamt: number;
+  camt?: number;
+  samt?: number;
+  csamt: number;
+}
+
+export interface Gstr1Item {
+  num: number;
+  itm_det: Gstr1ItemDetail;
+}
+
+export interface Gstr1B2bInvoice {
+  inum: string;
+  idt: string;
+  val: number;
+  pos: string;
+  rchrg: 'Y' | 'N';
+  inv_typ: 'R' | 'SEWP' | 'SEWOP' | 'DE';
+  itms: Gstr1Item[];
+}
+
+export interface Gstr1B2clInvoice {
+  inum: string;
+  idt: string;
+  val: number;
+  itms: Gstr1Item[];
+}
+
+export interface Gstr1B2csRow {
+  sply_ty: 'INTRA' | 'INTER';
+  typ: 'OE';
+  pos: string;
+  rt: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+export interface Gstr1CdnrNote {
+  ntty: 'C' | 'D';
+  nt_num: string;
+  nt_dt: string;
+  val: number;
+  pos: string;
+  rchrg: 'Y' | 'N';
+  inv_typ: 'R' | 'SEWP' | 'SEWOP' | 'DE';
+  itms: Gstr1Item[];
+}
+
+export interface Gstr1CdnurNote {
+  typ: 'B2CL' | 'EXPWP' | 'EXPWOP';
+  ntty: 'C' | 'D';
+  nt_num: string;
+  nt_dt: string;
+  val: number;
+  pos?: string;
+  itms: Gstr1Item[];
+}
+
+export interface Gstr1ExpInvoice {
+  inum: string;
+  idt: string;
+  val: number;
+  itms: Array<{ txval: number; rt: number; iamt: number; csamt: number }>;
+}
+
+export interface Gstr1HsnRow {
+  num: number;
+  hsn_sc: string;
+  desc: string;
+  uqc: string;
+  qty: number;
+  rt: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+export interface Gstr1DocIssueRow {
+  doc_num: number;
+  doc_typ: string;
+  docs: Array<{ num: number; from: string; to: string; totnum: number; cancel: number; net_issue: number }>;
+}
+
+export interface Gstr1Json {
+  gstin: string;
+  fp: string;
+  b2b?: Array<{ ctin: string; inv: Gstr1B2bInvoice[] }>;
+  b2cl?: Array<{ pos: string; inv: Gstr1B2clInvoice[] }>;
+  b2cs?: Gstr1B2csRow[];
+  cdnr?: Array<{ ctin: string; nt: Gstr1CdnrNote[] }>;
+  cdnur?: Gstr1CdnurNote[];
+  exp?: Array<{ exp_typ: 'WPAY' | 'WOPAY'; inv: Gstr1ExpInvoice[] }>;
+  hsn?: { data: Gstr1HsnRow[] };
+  doc_issue?: { doc_det: Gstr1DocIssueRow[] };
+}
+
+const GSTIN_REGEX = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/;
+const RETURN_PERIOD_REGEX = /^(0[1-9]|1[0-2])[0-9]{4}$/;
+// Rule 46: up to 16 characters, alphanumeric with '-' and '/'
+const DOCUMENT_NUMBER_REGEX = /^[A-Za-z0-9/-]{1,16}$/;
+const HSN_REGEX = /^[0-9]{4,8}$/;
+const VALID_TAX_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28, 40];
+
+// Table 13 document types
+const DOC_ISSUE_TYPES: Record<string, { num: number; label: string }> = {
+  invoice: { num: 1, label: 'Invoices for outward supply' },
+  debit_note: { num: 4, label: 'Debit Note' },
+  credit_note: { num: 5, label: 'Credit Note' },
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: string | number | null | undefined) =>
+  typeof value === 'number' ? value : parseFloat(value || '0') || 0;
+
+/**
+ * Formats a YYYY-MM-DD date as DD-MM-YYYY
+ */
+function formatGstnDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${day}-${month}-${year}`;
+}
+
+// GSTN invoice type of a B2B or CDNR document
+function supplyTypeOf(entry: Gstr1ExportEntry): 'R' | 'SEWP' | 'SEWOP' | 'DE' {
+  const type = entry.supplyType;
+  return type === 'SEWP' || type === 'SEWOP' || type === 'DE' ? type : 'R';
+}
+
+function isInterStateRow(entry: Gstr1ExportEntry, supplierStateCode: string): boolean {
+  // Supplies to SEZ units are inter-state wherever the unit is
+  const supplyType = supplyTypeOf(entry);
+  if (supplyType === 'SEWP' || supplyType === 'SEWOP') return true;
+  return entry.placeOfSupply === EXPORT_PLACE_OF_SUPPLY || entry.placeOfSupply !== supplierStateCode;
+}
+
+/**
+ * Groups active rows by source document, keeping first-seen order
+ */
+function groupByDocument(entries: Gstr1ExportEntry[]): Gstr1ExportEntry[][] {
+  const documents = new Map<string, Gstr1ExportEntry[]>();
+  for (const entry of entries) {
+    const key = `${entry.documentType}:${entry.invoiceNumber}`;
+    if (!documents.has(key)) documents.set(key, []);
+    documents.get(key)!.push(entry);
+  }
+  return Array.from(documents.values());
+}
+
+/**
+ * Collapses a document's rows into GSTN items, one per tax rate
+ */
+function buildItems(rows: Gstr1ExportEntry[], interState: boolean): Gstr1Item[] {
+  const byRate = new Map<number, Gstr1ItemDetail>();
+  for (const row of rows) {
+    const rt = toNumber(row.taxRate);
+    const detail = byRate.get(rt) || (interState
+      ? { txval: 0, rt, iamt: 0, csamt: 0 }
+      : { txval: 0, rt, iamt: 0, camt: 0, samt: 0, csamt: 0 });
+    detail.txval += Math.abs(toNumber(row.taxableValue));
+    detail.iamt += Math.abs(toNumber(row.igst));
+    if (!interState) {
+      detail.camt! += Math.abs(toNumber(row.cgst));
+      detail.samt! += Math.abs(toNumber(row.sgst));
+    }
+    detail.csamt += Math.abs(toNumber(row.cess));
+    byRate.set(rt, detail);
+  }
+
+  return Array.from(byRate.values())
+    .sort((a, b) => a.rt - b.rt)
+    .map((detail, index) => ({
+      num: index + 1,
+      itm_det: {
+        ...detail,
+        txval: round2(detail.txval),
+        iamt: round2(detail.iamt),
+        ...(interState ? {} : { camt: round2(detail.camt!), samt: round2(detail.samt!) }),
+        csamt: round2(detail.csamt),
+      },
+    }));
+}
+
+/**
+ * Checks the entries for fields GSTN rejects. Returns an empty list when the
+ * period can be exported.
+ */
+export function validateGstr1Export(input: Gstr1ExportInput): Gstr1ValidationIssue[] {
+  const issues: Gstr1ValidationIssue[] = [];
+  const seen = new Set<string>();
+  const addIssue = (documentNumber: string | null, field: string, message: string) => {
+    const key = `${documentNumber}|${field}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    issues.push({ documentNumber, field, message });
+  };
+
+  if (!GSTIN_REGEX.test(input.gstin || '')) {
+    addIssue(null, 'gstin', 'Supplier GSTIN is missing or invalid');
+  }
+  if (!RETURN_PERIOD_REGEX.test(input.returnPeriod || '')) {
+    addIssue(null, 'fp', 'Return period must be in MMYYYY format');
+  }
+
+  const supplierStateCode = (input.gstin || '').substring(0, 2);
+
+  for (const entry of input.entries) {
+    if (entry.isCancelled) continue;
+    const docNo = entry.invoiceNumber;
+
+    if (!DOCUMENT_NUMBER_REGEX.test(docNo)) {
+      addIssue(docNo, 'invoiceNumber', 'Document number must be up to 16 characters using letters, digits, "-" or "/"');
+    }
+    if (!/^[0-9]{2}$/.test(entry.placeOfSupply || '')) {
+      addIssue(docNo, 'placeOfSupply', 'Place of supply must be a 2-digit state code');
+    }
+    if (!entry.hsnSacCode || !HSN_REGEX.test(entry.hsnSacCode)) {
+      addIssue(docNo, 'hsnSacCode', 'HSN/SAC code must be 4 to 8 digits');
+    }
+    if (!VALID_TAX_RATES.includes(toNumber(entry.taxRate))) {
+      addIssue(docNo, 'taxRate', `Tax rate ${toNumber(entry.taxRate)}% is not a valid GST rate`);
+    }
+
+    if (entry.invoiceType === 'B2B' || entry.invoiceType === 'CDNR') {
+      if (!entry.partyGstin || !GSTIN_REGEX.test(entry.partyGstin)) {
+        addIssue(docNo, 'partyGstin', 'Recipient GSTIN is missing or invalid');
+      } else if (entry.partyGstin === input.gstin) {
+        addIssue(docNo, 'partyGstin', 'Recipient GSTIN cannot be the supplier GSTIN');
+      }
+    }
+
+    if (entry.invoiceType === 'B2CL' && toNumber(entry.invoiceValue) <= B2CL_THRESHOLD) {
+      addIssue(docNo, 'invoiceValue', `B2CL invoices must exceed ${B2CL_THRESHOLD}`);
+    }
+
+    const interState = isInterStateRow(entry, supplierStateCode);
+    if (interState && (toNumber(entry.cgst) !== 0 || toNumber(entry.sgst) !== 0)) {
+      addIssue(docNo, 'cgst', 'Inter-state supplies must be taxed under IGST');
+    }
+    if (!interState && toNumber(entry.igst) !== 0) {
+      addIssue(docNo, 'igst', 'Intra-state supplies must be taxed under CGST and SGST');
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Builds the GSTR-1 JSON for a return period. Cancelled documents only
+ * appear in the documents-issued section.
+ */
+export function buildGstr1Json(input: Gstr1ExportInput): Gstr1Json {
+  const supplierStateCode = input.gstin.substring(0, 2);
+  const active = input.entries.filter(e => !e.isCancelled);
+  const documents = groupByDocument(active);
+
+  const b2b = new Map<string, Gstr1B2bInvoice[]>();
+  const b2cl = new Map<string, Gstr1B2clInvoice[]>();
+  const cdnr = new Map<string, Gstr1CdnrNote[]>();
+  const cdnur: Gstr1CdnurNote[] = [];
+  const exp = new Map<'WPAY' | 'WOPAY', Gstr1ExpInvoice[]>();
+
+  for (const rows of documents) {
+    const head = rows[0];
+    const pos = head.placeOfSupply || supplierStateCode;
+    const interState = isInterStateRow(head, supplierStateCode);
+    const common = {
+      inum: head.invoiceNumber,
+      idt: formatGstnDate(head.invoiceDate),
+      val: round2(Math.abs(toNumber(head.invoiceValue))),
+    };
+
+    switch (head.invoiceType) {
+      case 'B2B': {
+        const list = b2b.get(head.partyGstin!) || [];
+        list.push({ ...common, pos, rchrg: 'N', inv_typ: supplyTypeOf(head), itms: buildItems(rows, interState) });
+        b2b.set(head.partyGstin!, list);
+        break;
+      }
+      case 'B2CL': {
+        const list = b2cl.get(pos) || [];
+        list.push({ ...common, itms: buildItems(rows, true) });
+        b2cl.set(pos, list);
+        break;
+      }
+      case 'CDNR': {
+        const list = cdnr.get(head.partyGstin!) || [];
+        list.push({
+          ntty: head.documentType === 'debit_note' ? 'D' : 'C',
+          nt_num: common.inum,
+          nt_dt: common.idt,
+          val: common.val,
+          pos,
+          rchrg: 'N',
+          inv_typ: supplyTypeOf(head),
+          itms: buildItems(rows, interState),
+        });
+        cdnr.set(head.partyGstin!, list);
+        break;
+      }
+      case 'CDNUR': {
+        const isExport = pos === EXPORT_PLACE_OF_SUPPLY;
+        const hasIgst = rows.some(r => toNumber(r.igst) !== 0);
+        cdnur.push({
+          typ: isExport ? (hasIgst ? 'EXPWP' : 'EXPWOP') : 'B2CL',
+          ntty: head.documentType === 'debit_note' ? 'D' : 'C',
+          nt_num: common.inum,
+          nt_dt: common.idt,
+          val: common.val,
+          ...(isExport ? {} : { pos }),
+          itms: buildItems(rows, true),
+        });
+        break;
+      }
+      case 'EXPWP':
+      case 'EXPWOP': {
+        const expTyp = head.invoiceType === 'EXPWP' ? 'WPAY' : 'WOPAY';
+        const list = exp.get(expTyp) || [];
+        list.push({ ...common, itms: buildItems(rows, true).map(item => item.itm_det) });
+        exp.set(expTyp, list);
+        break;
+      }
+      // B2CS rows are summarised below
+    }
+  }
+
+  // B2CS: net of notes, summarised by supply type, place of supply and rate
+  const b2cs = new Map<string, Gstr1B2csRow>();
+  for (const entry of active.filter(e => e.invoiceType === 'B2CS')) {
+    const pos = entry.placeOfSupply || supplierStateCode;
+    const interState = isInterStateRow(entry, supplierStateCode);
+    const rt = toNumber(entry.taxRate);
+    const key = `${interState}|${pos}|${rt}`;
+    const row = b2cs.get(key) || {
+      sply_ty: interState ? 'INTER' : 'INTRA',
+      typ: 'OE',
+      pos,
+      rt,
+      txval: 0,
+      iamt: 0,
+      camt: 0,
+      samt: 0,
+      csamt: 0,
+    };
+    row.txval += toNumber(entry.taxableValue);
+    row.iamt += toNumber(entry.igst);
+    row.camt += toNumber(entry.cgst);
+    row.samt += toNumber(entry.sgst);
+    row.csamt += toNumber(entry.cess);
+    b2cs.set(key, row);
+  }
+
+  // HSN summary: credit notes reduce the outward totals
+  const hsn = new Map<string, Omit<Gstr1HsnRow, 'num'>>();
+  for (const entry of active) {
+    const code = entry.hsnSacCode || '';
+    const rt = toNumber(entry.taxRate);
+    const uqc = code.startsWith('99') ? 'NA' : 'NOS';
+    const sign = entry.documentType === 'credit_note' ? -1 : 1;
+    const key = `${code}|${rt}|${uqc}`;
+    const row = hsn.get(key) || {
+      hsn_sc: code,
+      desc: input.hsnDescriptions?.[code] || '',
+      uqc,
+      qty: 0,
+      rt,
+      txval: 0,
+      iamt: 0,
+      camt: 0,
+      samt: 0,
+      csamt: 0,
+    };
+    row.qty += uqc === 'NA' ? 0 : sign * Math.abs(toNumber(entry.quantity));
+    row.txval += sign * Math.abs(toNumber(entry.taxableValue));
+    row.iamt += sign * Math.abs(toNumber(entry.igst));
+    row.camt += sign * Math.abs(toNumber(entry.cgst));
+    row.samt += sign * Math.abs(toNumber(entry.sgst));
+    row.csamt += sign * Math.abs(toNumber(entry.cess));
+    hsn.set(key, row);
+  }
+
+  // Documents issued: every numbered document, including cancelled ones
+  const docIssue: Gstr1DocIssueRow[] = [];
+  for (const [documentType, meta] of Object.entries(DOC_ISSUE_TYPES)) {
+    const series = new Map<string, { numbers: Set<string>; cancelled: Set<string> }>();
+    for (const entry of input.entries.filter(e => (e.documentType || 'invoice') === documentType)) {
+      const prefix = entry.invoiceNumber.replace(/[0-9]+$/, '');
+      const group = series.get(prefix) || { numbers: new Set<string>(), cancelled: new Set<string>() };
+      group.numbers.add(entry.invoiceNumber);
+      if (entry.isCancelled) group.cancelled.add(entry.invoiceNumber);
+      series.set(prefix, group);
+    }
+    if (series.size === 0) continue;
+
+    const docs = Array.from(series.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, group], index) => {
+        const numbers = Array.from(group.numbers).sort((a, b) =>
+          a.localeCompare(b, undefined, { numeric: true })
+        );
+        return {
+          num: index + 1,
+          from: numbers[0],
+          to: numbers[numbers.length - 1],
+          totnum: numbers.length,
+          cancel: group.cancelled.size,
+          net_issue: numbers.length - group.cancelled.size,
+        };
+      });
+    docIssue.push({ doc_num: meta.num, doc_typ: meta.label, docs });
+  }
+
+  const roundRow = <T extends object>(row: T): T =>
+    Object.fromEntries(
+      Object.entries(row).map(([k, v]) => [k, typeof v === 'number' && k !== 'rt' && k !== 'num' ? round2(v) : v])
+    ) as T;
+
+  const result: Gstr1Json = { gstin: input.gstin, fp: input.returnPeriod };
+  if (b2b.size > 0) {
+    result.b2b = Array.from(b2b.entries()).map(([ctin, inv]) => ({ ctin, inv }));
+  }
+  if (b2cl.size > 0) {
+    result.b2cl = Array.from(b2cl.entries()).map(([pos, inv]) => ({ pos, inv }));
+  }
+  if (b2cs.size > 0) {
+    result.b2cs = Array.from(b2cs.values()).map(roundRow);
+  }
+  if (cdnr.size > 0) {
+    result.cdnr = Array.from(cdnr.entries()).map(([ctin, nt]) => ({ ctin, nt }));
+  }
+  if (cdnur.length > 0) {
+    result.cdnur = cdnur;
+  }
+  if (exp.size > 0) {
+    result.exp = Array.from(exp.entries()).map(([exp_typ, inv]) => ({ exp_typ, inv }));
+  }
+  if (hsn.size > 0) {
+    result.hsn = {
+      data: Array.from(hsn.values()).map((row, index) => roundRow({ num: index + 1, ...row })),
+    };
+  }
+  if (docIssue.length > 0) {
+    result.doc_issue = { doc_det: docIssue };
+  }
+
+  return result;
+}
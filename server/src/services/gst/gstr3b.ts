@@ -0,0 +1,524 @@
+/**
+ * GSTR-3B Service
+ *
+ * Computes the GSTR-3B tables for a return period from GSTR-1 entries, the
+ * ITC register, purchase bills and sales of non-GST products, and applies the ITC set-off order of
+ * sections 49, 49A and 49B / rule 88A to work out the cash liability.
+ */
+
+import type { DbClient } from '../../db';
+import {
+  gstr1Entries,
+  gstr3bSummary,
+  itcRegister,
+  bills,
+  invoices,
+  creditNotes,
+  type Gstr1Entry,
+  type ItcRegisterEntry,
+} from '../../../../shared/schema';
+import { eq, and, gte, lte, notInArray } from 'drizzle-orm';
+import { EXPORT_PLACE_OF_SUPPLY, getPeriodDates, getSupplierGstContext } from './gstr1';
+
+export type TaxHead = 'igst' | 'cgst' | 'sgst' | 'cess';
+
+export type TaxHeads = Record<TaxHead, number>;
+
+export interface SupplyTotals extends TaxHeads {
+  taxableValue: number;
+}
+
+export interface InterStateSupply {
+  placeOfSupply: string;
+  taxableValue: number;
+  igst: number;
+}
+
+export type Gstr3bOutwardEntry = Pick<
+  Gstr1Entry,
+  'documentType' | 'invoiceType' | 'placeOfSupply' | 'taxRate' | 'taxableValue' | 'igst' | 'cgst' | 'sgst' | 'cess'
+>;
+
+export type Gstr3bItcEntry = Pick<
+  ItcRegisterEntry,
+  | 'igst' | 'cgst' | 'sgst' | 'cess'
+  | 'eligibleItc' | 'ineligibleItc' | 'reversalAmount'
+  | 'reconciliationStatus' | 'reconciliationAction'
+>;
+
+export interface Gstr3bInwardExempt {
+  taxableValue: number;
+  interState: boolean;
+}
+
+// A bill line on which we pay the tax under reverse charge
+export interface Gstr3bReverseChargeSupply {
+  taxableValue: number;
+  taxRate: number;
+  interState: boolean;
+}
+
+// Outward supplies outside GST; credit notes carry a negative value
+export interface Gstr3bNonGstSupply {
+  taxableValue: number;
+}
+
+export interface Gstr3bInput {
+  returnPeriod: string;
+  supplierStateCode: string;
+  outward: Gstr3bOutwardEntry[];
+  itc: Gstr3bItcEntry[];
+  inwardExempt: Gstr3bInwardExempt[];
+  reverseCharge: Gstr3bReverseChargeSupply[];
+  nonGst: Gstr3bNonGstSupply[];
+}
+
+export interface ItcSetOff {
+  // Credit of each head used against each liability head: utilisation[liability][credit]
+  utilisation: Record<TaxHead, TaxHeads>;
+  itcUtilized: TaxHeads; // Total credit used against each liability head
+  cashPayable: TaxHeads;
+  itcBalance: TaxHeads; // Credit carried forward
+}
+
+export interface Gstr3bComputation extends ItcSetOff {
+  returnPeriod: string;
+  section31: {
+    outwardTaxable: SupplyTotals; // (a) other than zero rated, nil rated and exempted
+    zeroRated: SupplyTotals; // (b)
+    exempted: SupplyTotals; // (c) nil rated and exempted
+    reverseCharge: SupplyTotals; // (d) inward supplies liable to reverse charge
+    nonGst: SupplyTotals; // (e)
+  };
+  section32: {
+    unregistered: InterStateSupply[];
+    composition: InterStateSupply[];
+    uinHolders: InterStateSupply[];
+  };
+  section4: {
+    itcAvailable: TaxHeads; // (A) total
+    itcAvailableBreakdown: {
+      importGoods: TaxHeads;
+      importServices: TaxHeads;
+      reverseCharge: TaxHeads;
+      isd: TaxHeads;
+      allOther: TaxHeads;
+    };
+    itcReversed: TaxHeads; // (B)
+    netItc: TaxHeads; // (C) = (A) - (B)
+    ineligibleItc: TaxHeads; // (D)
+  };
+  section5: {
+    interState: number;
+    intraState: number;
+  };
+  taxPayable: TaxHeads;
+}
+
+const TAX_HEADS: TaxHead[] = ['igst', 'cgst', 'sgst', 'cess'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: string | number | null | undefined) =>
+  typeof value === 'number' ? value : parseFloat(value || '0') || 0;
+
+const emptyHeads = (): TaxHeads => ({ igst: 0, cgst: 0, sgst: 0, cess: 0 });
+
+const emptySupply = (): SupplyTotals => ({ taxableValue: 0, ...emptyHeads() });
+
+function roundHeads<T extends object>(values: T): T {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, typeof value === 'number' ? round2(value) : value])
+  ) as T;
+}
+
+/**
+ * Sets off ITC against output tax in the statutory order:
+ * IGST credit is used fully first (against IGST, then CGST/SGST), then CGST
+ * credit (against CGST, then IGST) and SGST credit (against SGST, then IGST).
+ * CGST and SGST credit can never be used against each other, and cess
+ * credit only against cess.
+ */
+export function applyItcSetOff(liability: TaxHeads, credit: TaxHeads): ItcSetOff {
+  const due = { ...liability };
+  const available = { ...credit };
+  const utilisation: Record<TaxHead, TaxHeads> = {
+    igst: emptyHeads(),
+    cgst: emptyHeads(),
+    sgst: emptyHeads(),
+    cess: emptyHeads(),
+  };
+
+  const use = (creditHead: TaxHead, liabilityHead: TaxHead, limit = Infinity) => {
+    const amount = round2(Math.max(0, Math.min(available[creditHead], due[liabilityHead], limit)));
+    if (amount <= 0) return;
+    available[creditHead] = round2(available[creditHead] - amount);
+    due[liabilityHead] = round2(due[liabilityHead] - amount);
+    utilisation[liabilityHead][creditHead] = round2(utilisation[liabilityHead][creditHead] + amount);
+  };
+
+  // IGST credit: IGST liability first
+  use('igst', 'igst');
+
+  // Remaining IGST credit goes to CGST/SGST (any order, rule 88A). Cover the
+  // part that CGST/SGST credit cannot first so no credit is stranded.
+  use('igst', 'cgst', Math.max(0, due.cgst - available.cgst));
+  use('igst', 'sgst', Math.max(0, due.sgst - available.sgst));
+  use('igst', 'cgst');
+  use('igst', 'sgst');
+
+  // CGST credit: CGST, then IGST
+  use('cgst', 'cgst');
+  use('cgst', 'igst');
+
+  // SGST credit: SGST, then IGST
+  use('sgst', 'sgst');
+  use('sgst', 'igst');
+
+  use('cess', 'cess');
+
+  const itcUtilized = emptyHeads();
+  for (const head of TAX_HEADS) {
+    itcUtilized[head] = round2(TAX_HEADS.reduce((sum, creditHead) => sum + utilisation[head][creditHead], 0));
+  }
+
+  return {
+    utilisation,
+    itcUtilized,
+    cashPayable: roundHeads(due),
+    itcBalance: roundHeads(available),
+  };
+}
+
+/**
+ * Computes the GSTR-3B tables from the period's source data
+ */
+export function computeGstr3b(input: Gstr3bInput): Gstr3bComputation {
+  const section31 = {
+    outwardTaxable: emptySupply(),
+    zeroRated: emptySupply(),
+    exempted: emptySupply(),
+    reverseCharge: emptySupply(),
+    nonGst: emptySupply(),
+  };
+  const unregistered = new Map<string, InterStateSupply>();
+
+  for (const entry of input.outward) {
+    // Notes carry positive values except when netted into B2CS
+    const sign = entry.documentType === 'credit_note' ? -1 : 1;
+    const value = (amount: string | null) => sign * Math.abs(toNumber(amount));
+    const pos = entry.placeOfSupply || input.supplierStateCode;
+    const isExport = entry.invoiceType === 'EXPWP' || entry.invoiceType === 'EXPWOP' || pos === EXPORT_PLACE_OF_SUPPLY;
+
+    const bucket = isExport
+      ? section31.zeroRated
+      : toNumber(entry.taxRate) === 0
+        ? section31.exempted
+        : section31.outwardTaxable;
+
+    bucket.taxableValue += value(entry.taxableValue);
+    for (const head of TAX_HEADS) {
+      bucket[head] += value(entry[head]);
+    }
+
+    // 3.2: inter-state supplies to unregistered persons, by place of supply
+    const isUnregistered = ['B2CL', 'B2CS'].includes(entry.invoiceType)
+      || (entry.invoiceType === 'CDNUR' && !isExport);
+    if (isUnregistered && !isExport && pos !== input.supplierStateCode) {
+      const row = unregistered.get(pos) || { placeOfSupply: pos, taxableValue: 0, igst: 0 };
+      row.taxableValue += value(entry.taxableValue);
+      row.igst += value(entry.igst);
+      unregistered.set(pos, row);
+    }
+  }
+
+  // 3.1(d): the tax on reverse charge purchases is worked out at the line's rate
+  for (const supply of input.reverseCharge) {
+    const tax = supply.taxableValue * supply.taxRate / 100;
+    section31.reverseCharge.taxableValue += supply.taxableValue;
+    if (supply.interState) {
+      section31.reverseCharge.igst += tax;
+    } else {
+      section31.reverseCharge.cgst += tax / 2;
+      section31.reverseCharge.sgst += tax / 2;
+    }
+  }
+
+  for (const supply of input.nonGst) {
+    section31.nonGst.taxableValue += supply.taxableValue;
+  }
+
+  // Table 4: ITC split into eligible and ineligible using the register's
+  // eligible/ineligible amounts. Portal-only invoices count once accepted.
+  // Tax paid under reverse charge is claimed back in 4A(3), so the register
+  // is expected to leave reverse charge bills out.
+  const registerItc = emptyHeads();
+  const itcAvailable = emptyHeads();
+  const itcReversed = emptyHeads();
+  const ineligibleItc = emptyHeads();
+
+  for (const entry of input.itc) {
+    if (entry.reconciliationStatus === 'excess_in_2a' && entry.reconciliationAction !== 'accepted') continue;
+
+    const heads: TaxHeads = {
+      igst: toNumber(entry.igst),
+      cgst: toNumber(entry.cgst),
+      sgst: toNumber(entry.sgst),
+      cess: toNumber(entry.cess),
+    };
+    const total = TAX_HEADS.reduce((sum, head) => sum + heads[head], 0);
+    if (total === 0) continue;
+
+    const eligible = toNumber(entry.eligibleItc);
+    const ineligible = toNumber(entry.ineligibleItc);
+    // Entries without an eligibility split are treated as fully eligible
+    const eligibleShare = eligible > 0 || ineligible > 0
+      ? Math.min(1, eligible / (eligible + ineligible))
+      : 1;
+    const reversalShare = Math.min(1, toNumber(entry.reversalAmount) / total);
+
+    for (const head of TAX_HEADS) {
+      registerItc[head] += heads[head] * eligibleShare;
+      ineligibleItc[head] += heads[head] * (1 - eligibleShare);
+      itcReversed[head] += heads[head] * reversalShare;
+    }
+  }
+
+  const reverseChargeItc = emptyHeads();
+  const allOtherItc = emptyHeads();
+  for (const head of TAX_HEADS) {
+    reverseChargeItc[head] = round2(section31.reverseCharge[head]);
+    itcAvailable[head] = round2(registerItc[head] + reverseChargeItc[head]);
+    allOtherItc[head] = round2(itcAvailable[head] - reverseChargeItc[head]);
+  }
+
+  const netItc = emptyHeads();
+  for (const head of TAX_HEADS) {
+    netItc[head] = round2(Math.max(0, itcAvailable[head] - itcReversed[head]));
+  }
+
+  const section5 = { interState: 0, intraState: 0 };
+  for (const supply of input.inwardExempt) {
+    if (supply.interState) section5.interState += supply.taxableValue;
+    else section5.intraState += supply.taxableValue;
+  }
+
+  // Outward tax (3.1 a and b) is set off against ITC; reverse charge tax is
+  // payable in cash only
+  const outputTax = emptyHeads();
+  for (const head of TAX_HEADS) {
+    outputTax[head] = round2(Math.max(0, section31.outwardTaxable[head] + section31.zeroRated[head]));
+  }
+  const setOff = applyItcSetOff(outputTax, netItc);
+
+  const taxPayable = emptyHeads();
+  const cashPayable = emptyHeads();
+  for (const head of TAX_HEADS) {
+    taxPayable[head] = round2(outputTax[head] + section31.reverseCharge[head]);
+    cashPayable[head] = round2(setOff.cashPayable[head] + section31.reverseCharge[head]);
+  }
+
+  return {
+    returnPeriod: input.returnPeriod,
+    section31: {
+      outwardTaxable: roundHeads(section31.outwardTaxable),
+      zeroRated: roundHeads(section31.zeroRated),
+      exempted: roundHeads(section31.exempted),
+      reverseCharge: roundHeads(section31.reverseCharge),
+      nonGst: roundHeads(section31.nonGst),
+    },
+    section32: {
+      unregistered: Array.from(unregistered.values())
+        .sort((a, b) => a.placeOfSupply.localeCompare(b.placeOfSupply))
+        .map(roundHeads),
+      composition: [],
+      uinHolders: [],
+    },
+    section4: {
+      itcAvailable: roundHeads(itcAvailable),
+      itcAvailableBreakdown: {
+        importGoods: emptyHeads(),
+        importServices: emptyHeads(),
+        reverseCharge: reverseChargeItc,
+        isd: emptyHeads(),
+        allOther: allOtherItc,
+      },
+      itcReversed: roundHeads(itcReversed),
+      netItc,
+      ineligibleItc: roundHeads(ineligibleItc),
+    },
+    section5: roundHeads(section5),
+    taxPayable,
+    utilisation: setOff.utilisation,
+    itcUtilized: setOff.itcUtilized,
+    cashPayable,
+    itcBalance: setOff.itcBalance,
+  };
+}
+
+/**
+ * Loads a period's source data and computes GSTR-3B
+ */
+export async function computeGstr3bForPeriod(
+  client: DbClient,
+  companyId: string,
+  returnPeriod: string
+): Promise<Gstr3bComputation> {
+  const supplier = await getSupplierGstContext(client, companyId);
+  const { startDate, endDate } = getPeriodDates(returnPeriod);
+
+  const outward = await client.query.gstr1Entries.findMany({
+    where: and(
+      eq(gstr1Entries.companyId, companyId),
+      eq(gstr1Entries.returnPeriod, returnPeriod),
+      eq(gstr1Entries.isCancelled, false)
+    ),
+  });
+
+  const itc = await client.query.itcRegister.findMany({
+    where: and(
+      eq(itcRegister.companyId, companyId),
+      eq(itcRegister.returnPeriod, returnPeriod)
+    ),
+  });
+
+  // 3.1(d) reverse charge purchases and table 5 purchases on which no GST was charged
+  const periodBills = await client.query.bills.findMany({
+    where: and(
+      eq(bills.companyId, companyId),
+      gte(bills.billDate, startDate),
+      lte(bills.billDate, endDate),
+      notInArray(bills.status, ['draft', 'cancelled'])
+    ),
+    with: { vendor: true, lines: true },
+  });
+
+  const isInterStateBill = (bill: (typeof periodBills)[number]) => {
+    const vendorState = bill.vendor?.stateCode || bill.vendor?.gstin?.substring(0, 2) || supplier.stateCode;
+    return vendorState !== supplier.stateCode;
+  };
+
+  const reverseCharge = periodBills
+    .filter(bill => bill.reverseCharge)
+    .flatMap(bill => bill.lines.map(line => ({
+      taxableValue: toNumber(line.amount) - toNumber(line.taxAmount),
+      taxRate: toNumber(line.taxRate),
+      interState: isInterStateBill(bill),
+    })));
+
+  // Their tax is claimed in 4A(3) from the bill lines, not from the register
+  const reverseChargeBillIds = new Set(periodBills.filter(bill => bill.reverseCharge).map(bill => bill.id));
+  const registerItc = itc.filter(entry => !entry.billId || !reverseChargeBillIds.has(entry.billId));
+
+  const inwardExempt = periodBills
+    .filter(bill => !bill.reverseCharge && toNumber(bill.taxAmount) === 0)
+    .map(bill => ({ taxableValue: toNumber(bill.subtotal), interState: isInterStateBill(bill) }));
+
+  // 3.1(e): lines outside GST, which have no GSTR-1 rows
+  const nonGstLine = (line: { nonGst?: boolean | null; product: { nonGst: boolean | null } | null }) =>
+    Boolean(line.nonGst || line.product?.nonGst);
+
+  const periodInvoices = await client.query.invoices.findMany({
+    where: and(
+      eq(invoices.companyId, companyId),
+      gte(invoices.invoiceDate, startDate),
+      lte(invoices.invoiceDate, endDate),
+      notInArray(invoices.status, ['draft', 'cancelled', 'void'])
+    ),
+    with: { lines: { with: { product: true } } },
+  });
+
+  const periodCreditNotes = await client.query.creditNotes.findMany({
+    where: and(
+      eq(creditNotes.companyId, companyId),
+      gte(creditNotes.creditNoteDate, startDate),
+      lte(creditNotes.creditNoteDate, endDate),
+      notInArray(creditNotes.status, ['draft', 'cancelled'])
+    ),
+    with: { lines: { with: { product: true } } },
+  });
+
+  const nonGst = [
+    ...periodInvoices.flatMap(invoice => invoice.lines.filter(nonGstLine).map(line => ({
+      taxableValue: toNumber(line.amount) - toNumber(line.taxAmount),
+    }))),
+    ...periodCreditNotes.flatMap(note => note.lines.filter(nonGstLine).map(line => ({
+      taxableValue: -(toNumber(line.amount) - toNumber(line.taxAmount)),
+    }))),
+  ];
+
+  return computeGstr3b({
+    returnPeriod,
+    supplierStateCode: supplier.stateCode,
+    outward,
+    itc: registerItc,
+    inwardExempt,
+    reverseCharge,
+    nonGst,
+  });
+}
+
+/**
+ * Recomputes and stores a period's GSTR-3B summary. Filed returns are never
+ * recomputed.
+ */
+export async function refreshGstr3bSummary(
+  client: DbClient,
+  companyId: string,
+  returnPeriod: string
+) {
+  const existing = await client.query.gstr3bSummary.findFirst({
+    where: and(
+      eq(gstr3bSummary.companyId, companyId),
+      eq(gstr3bSummary.returnPeriod, returnPeriod)
+    ),
+  });
+
+  if (existing && existing.filingStatus !== 'pending') {
+    return existing;
+  }
+
+  const computation = await computeGstr3bForPeriod(client, companyId, returnPeriod);
+  const { gstConfigId } = await getSupplierGstContext(client, companyId);
+  const { section31, section32, section4, section5, cashPayable } = computation;
+  const outwardTax = (head: TaxHead) => (section31.outwardTaxable[head] + section31.zeroRated[head]).toFixed(2);
+
+  const values = {
+    gstConfigId,
+    outwardTaxable: (section31.outwardTaxable.taxableValue + section31.zeroRated.taxableValue).toFixed(2),
+    outwardIgst: outwardTax('igst'),
+    outwardCgst: outwardTax('cgst'),
+    outwardSgst: outwardTax('sgst'),
+    outwardCess: outwardTax('cess'),
+    interStateTaxable: section32.unregistered.reduce((sum, r) => sum + r.taxableValue, 0).toFixed(2),
+    interStateIgst: section32.unregistered.reduce((sum, r) => sum + r.igst, 0).toFixed(2),
+    itcIgst: section4.netItc.igst.toFixed(2),
+    itcCgst: section4.netItc.cgst.toFixed(2),
+    itcSgst: section4.netItc.sgst.toFixed(2),
+    itcCess: section4.netItc.cess.toFixed(2),
+    exemptInterState: section5.interState.toFixed(2),
+    exemptIntraState: section5.intraState.toFixed(2),
+    payableIgst: cashPayable.igst.toFixed(2),
+    payableCgst: cashPayable.cgst.toFixed(2),
+    payableSgst: cashPayable.sgst.toFixed(2),
+    payableCess: cashPayable.cess.toFixed(2),
+    computation,
+    computedAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  if (existing) {
+    const [updated] = await client.update(gstr3bSummary)
+      .set(values)
+      .where(eq(gstr3bSummary.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  const [created] = await client.insert(gstr3bSummary).values({
+    companyId,
+    returnPeriod,
+    ...values,
+  }).returning();
+  return created;
+}
@@ -0,0 +1,10 @@
+/**
+ * GST Service
+ *
+ * Main export for GST return functionality
+ */
+
+export * from './gstr1';
+export * from './gstr1Export';
+export * from './itcReconciliation';
+export * from './gstr3b';
@@ -0,0 +1,519 @@
+/**
+ * ITC Reconciliation Service
+ *
+ * Parses GSTR-2A/2B JSON downloaded from the GST portal and reconciles it
+ * against the ITC register and purchase bills.
+ */
+
+import type { DbClient } from '../../db';
+import {
+  itcRegister,
+  bills,
+  type ItcRegisterEntry,
+} from '../../../../shared/schema';
+import { eq, and, gte, lte, isNull, inArray, notInArray } from 'drizzle-orm';
+import { getPeriodDates, getSupplierGstContext } from './gstr1';
+
+export type ItcMatchStatus = 'matched' | 'mismatch' | 'not_in_2a' | 'excess_in_2a';
+
+export type ItcAction = 'accepted' | 'rejected';
+
+export interface ItcAmounts {
+  taxableValue: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+}
+
+export interface PortalInvoice extends ItcAmounts {
+  vendorGstin: string;
+  vendorName: string | null;
+  invoiceNumber: string;
+  invoiceDate: string; // YYYY-MM-DD
+  invoiceValue: number;
+  documentType: 'invoice' | 'credit_note' | 'debit_note';
+  itcAvailable: boolean;
+}
+
+export interface PortalItcData {
+  source: 'gstr2a' | 'gstr2b';
+  gstin: string | null;
+  returnPeriod: string | null;
+  invoices: PortalInvoice[];
+}
+
+export interface BookItcRecord extends ItcAmounts {
+  id: string;
+  vendorGstin: string;
+  invoiceNumber: string;
+}
+
+export interface ItcDifference {
+  field: keyof ItcAmounts;
+  books: number;
+  portal: number;
+  difference: number;
+}
+
+export interface ItcMatchResult {
+  status: ItcMatchStatus;
+  book: BookItcRecord | null;
+  portal: PortalInvoice | null;
+  matchedBy: 'exact' | 'fuzzy' | null;
+  differences: ItcDifference[];
+}
+
+export interface ItcReconciliationOptions {
+  amountTolerance?: number; // Absolute difference allowed per amount, in rupees
+  similarityThreshold?: number; // Minimum invoice number similarity (0-1) for a fuzzy match
+}
+
+const DEFAULT_AMOUNT_TOLERANCE = 1;
+const DEFAULT_SIMILARITY_THRESHOLD = 0.8;
+const AMOUNT_FIELDS: (keyof ItcAmounts)[] = ['taxableValue', 'igst', 'cgst', 'sgst', 'cess'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: unknown) =>
+  typeof value === 'number' ? value : parseFloat(String(value ?? '0')) || 0;
+
+/**
+ * Total tax (ITC) on a document
+ */
+export function totalTax(amounts: ItcAmounts): number {
+  return round2(amounts.igst + amounts.cgst + amounts.sgst + amounts.cess);
+}
+
+/**
+ * Converts a portal date (DD-MM-YYYY) to YYYY-MM-DD
+ */
+function parsePortalDate(date: string): string {
+  const [day, month, year] = (date || '').split('-');
+  return year ? `${year}-${month}-${day}` : date;
+}
+
+function sumItems(items: any[], pick: (item: any) => any): ItcAmounts {
+  return (items || []).reduce<ItcAmounts>((totals, raw) => {
+    const item = pick(raw) || {};
+    return {
+      taxableValue: round2(totals.taxableValue + toNumber(item.txval)),
+      igst: round2(totals.igst + toNumber(item.igst ?? item.iamt)),
+      cgst: round2(totals.cgst + toNumber(item.cgst ?? item.camt)),
+      sgst: round2(totals.sgst + toNumber(item.sgst ?? item.samt)),
+      cess: round2(totals.cess + toNumber(item.cess ?? item.csamt)),
+    };
+  }, { taxableValue: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 });
+}
+
+/**
+ * Parses GSTR-2B (docdata) or GSTR-2A (b2b/cdn) JSON into portal invoices
+ */
+export function parsePortalItcData(json: any): PortalItcData {
+  const root = json?.data ?? json;
+  if (!root || typeof root !== 'object') {
+    throw new Error('Invalid GSTR-2A/2B file');
+  }
+
+  if (root.docdata) {
+    const invoices: PortalInvoice[] = [];
+    for (const supplier of root.docdata.b2b || []) {
+      for (const inv of supplier.inv || []) {
+        invoices.push({
+          vendorGstin: supplier.ctin,
+          vendorName: supplier.trdnm || null,
+          invoiceNumber: String(inv.inum),
+          invoiceDate: parsePortalDate(inv.dt),
+          invoiceValue: toNumber(inv.val),
+          documentType: 'invoice',
+          itcAvailable: inv.itcavl !== 'N',
+          ...sumItems(inv.items, item => item),
+        });
+      }
+    }
+    for (const supplier of root.docdata.cdnr || []) {
+      for (const note of supplier.nt || []) {
+        invoices.push({
+          vendorGstin: supplier.ctin,
+          vendorName: supplier.trdnm || null,
+          invoiceNumber: String(note.ntnum),
+          invoiceDate: parsePortalDate(note.dt),
+          invoiceValue: toNumber(note.val),
+          documentType: note.typ === 'D' ? 'debit_note' : 'credit_note',
+          itcAvailable: note.itcavl !== 'N',
+          ...sumItems(note.items, item => item),
+        });
+      }
+    }
+    return { source: 'gstr2b', gstin: root.gstin || null, returnPeriod: root.rtnprd || null, invoices };
+  }
+
+  if (Array.isArray(root.b2b) || Array.isArray(root.cdn)) {
+    const invoices: PortalInvoice[] = [];
+    for (const supplier of root.b2b || []) {
+      for (const inv of supplier.inv || []) {
+        invoices.push({
+          vendorGstin: supplier.ctin,
+          vendorName: supplier.trdnm || null,
+          invoiceNumber: String(inv.inum),
+          invoiceDate: parsePortalDate(inv.idt),
+          invoiceValue: toNumber(inv.val),
+          documentType: 'invoice',
+          itcAvailable: true,
+          ...sumItems(inv.itms, item => item.itm_det),
+        });
+      }
+    }
+    for (const supplier of root.cdn || []) {
+      for (const note of supplier.nt || []) {
+        invoices.push({
+          vendorGstin: supplier.ctin,
+          vendorName: supplier.trdnm || null,
+          invoiceNumber: String(note.nt_num),
+          invoiceDate: parsePortalDate(note.nt_dt),
+          invoiceValue: toNumber(note.val),
+          documentType: note.ntty === 'D' ? 'debit_note' : 'credit_note',
+          itcAvailable: true,
+          ...sumItems(note.itms, item => item.itm_det),
+        });
+      }
+    }
+    return { source: 'gstr2a', gstin: root.gstin || null, returnPeriod: root.fp || null, invoices };
+  }
+
+  throw new Error('Unrecognised file: expected GSTR-2B docdata or GSTR-2A b2b/cdn sections');
+}
+
+/**
+ * Normalises a vendor invoice number for comparison: case, separators and
+ * leading zeros in numeric parts are ignored ("inv/0042" == "INV-42")
+ */
+export function normalizeInvoiceNumber(invoiceNumber: string): string {
+  return (invoiceNumber || '')
+    .toUpperCase()
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean)
+    .map(part => (/^[0-9]+$/.test(part) ? String(parseInt(part, 10)) : part))
+    .join('');
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = previous[j];
+      previous[j] = a[i - 1] === b[j - 1]
+        ? diagonal
+        : 1 + Math.min(diagonal, previous[j], previous[j - 1]);
+      diagonal = current;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity (0-1) of two invoice numbers after normalisation
+ */
+export function invoiceNumberSimilarity(a: string, b: string): number {
+  const x = normalizeInvoiceNumber(a);
+  const y = normalizeInvoiceNumber(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+
+  // Vendors often add or drop a prefix/financial-year suffix
+  const [shorter, longer] = x.length <= y.length ? [x, y] : [y, x];
+  if (shorter.length >= 3 && /[0-9]/.test(shorter) && longer.includes(shorter)) return 0.9;
+
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+}
+
+/**
+ * Per-field differences beyond the tolerance
+ */
+export function compareItcAmounts(
+  books: ItcAmounts,
+  portal: ItcAmounts,
+  tolerance: number = DEFAULT_AMOUNT_TOLERANCE
+): ItcDifference[] {
+  return AMOUNT_FIELDS
+    .map(field => ({
+      field,
+      books: round2(books[field]),
+      portal: round2(portal[field]),
+      difference: round2(books[field] - portal[field]),
+    }))
+    .filter(d => Math.abs(d.difference) > tolerance);
+}
+
+/**
+ * Matches book records to portal invoices of the same vendor GSTIN.
+ * Exact invoice number matches are taken first, then the most similar
+ * remaining number above the threshold.
+ */
+export function reconcileItcRecords(
+  books: BookItcRecord[],
+  portal: PortalInvoice[],
+  options: ItcReconciliationOptions = {}
+): ItcMatchResult[] {
+  const tolerance = options.amountTolerance ?? DEFAULT_AMOUNT_TOLERANCE;
+  const threshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+
+  const unmatchedPortal = new Set(portal.map((_, index) => index));
+  const matches = new Map<BookItcRecord, { index: number; matchedBy: 'exact' | 'fuzzy' }>();
+  const sameVendor = (book: BookItcRecord, index: number) =>
+    portal[index].vendorGstin.toUpperCase() === book.vendorGstin.toUpperCase();
+
+  // Pass 1: exact (normalised) invoice numbers
+  for (const book of books) {
+    const key = normalizeInvoiceNumber(book.invoiceNumber);
+    const index = Array.from(unmatchedPortal).find(i =>
+      sameVendor(book, i) && normalizeInvoiceNumber(portal[i].invoiceNumber) === key
+    );
+    if (index !== undefined) {
+      matches.set(book, { index, matchedBy: 'exact' });
+      unmatchedPortal.delete(index);
+    }
+  }
+
+  // Pass 2: fuzzy invoice numbers, closest amount breaking ties
+  for (const book of books) {
+    if (matches.has(book)) continue;
+    let best: { index: number; score: number; gap: number } | null = null;
+    for (const index of unmatchedPortal) {
+      if (!sameVendor(book, index)) continue;
+      const score = invoiceNumberSimilarity(book.invoiceNumber, portal[index].invoiceNumber);
+      if (score < threshold) continue;
+      const gap = Math.abs(totalTax(book) - totalTax(portal[index]));
+      if (!best || score > best.score || (score === best.score && gap < best.gap)) {
+        best = { index, score, gap };
+      }
+    }
+    if (best) {
+      matches.set(book, { index: best.index, matchedBy: 'fuzzy' });
+      unmatchedPortal.delete(best.index);
+    }
+  }
+
+  const results: ItcMatchResult[] = books.map(book => {
+    const match = matches.get(book);
+    if (!match) {
+      return { status: 'not_in_2a', book, portal: null, matchedBy: null, differences: [] };
+    }
+    const differences = compareItcAmounts(book, portal[match.index], tolerance);
+    return {
+      status: differences.length > 0 ? 'mismatch' : 'matched',
+      book,
+      portal: portal[match.index],
+      matchedBy: match.matchedBy,
+      differences,
+    };
+  });
+
+  for (const index of unmatchedPortal) {
+    results.push({ status: 'excess_in_2a', book: null, portal: portal[index], matchedBy: null, differences: [] });
+  }
+
+  return results;
+}
+
+function toBookRecord(entry: ItcRegisterEntry): BookItcRecord {
+  return {
+    id: entry.id,
+    vendorGstin: entry.vendorGstin,
+    invoiceNumber: entry.invoiceNumber,
+    taxableValue: toNumber(entry.taxableValue),
+    igst: toNumber(entry.igst),
+    cgst: toNumber(entry.cgst),
+    sgst: toNumber(entry.sgst),
+    cess: toNumber(entry.cess),
+  };
+}
+
+/**
+ * Adds ITC register rows for the period's GST bills that are not in it yet
+ */
+async function syncBillsToItcRegister(
+  client: DbClient,
+  companyId: string,
+  returnPeriod: string,
+  gstConfigId: string | null
+) {
+  const { startDate, endDate } = getPeriodDates(returnPeriod);
+  const periodBills = await client.query.bills.findMany({
+    where: and(
+      eq(bills.companyId, companyId),
+      gte(bills.billDate, startDate),
+      lte(bills.billDate, endDate),
+      notInArray(bills.status, ['draft', 'cancelled'])
+    ),
+    with: { vendor: true },
+  });
+
+  const billIds = periodBills.map(b => b.id);
+  const existing = billIds.length > 0
+    ? await client.query.itcRegister.findMany({ where: inArray(itcRegister.billId, billIds) })
+    : [];
+  const registered = new Set(existing.map(e => e.billId));
+
+  const rows = periodBills
+    // Reverse charge bills are claimed in GSTR-3B 4A(3) from their lines
+    .filter(bill => !registered.has(bill.id) && !bill.reverseCharge && bill.vendor?.gstin && toNumber(bill.taxAmount) > 0)
+    .map(bill => ({
+      companyId,
+      gstConfigId,
+      returnPeriod,
+      billId: bill.id,
+      source: 'bill',
+      vendorGstin: bill.vendor.gstin!.toUpperCase(),
+      vendorName: bill.vendor.name,
+      invoiceNumber: bill.vendorBillNumber || bill.billNumber,
+      invoiceDate: bill.billDate,
+      invoiceValue: bill.totalAmount,
+      taxableValue: bill.subtotal,
+      igst: bill.igst,
+      cgst: bill.cgst,
+      sgst: bill.sgst,
+      eligibleItc: bill.taxAmount,
+    }));
+
+  if (rows.length > 0) {
+    await client.insert(itcRegister).values(rows);
+  }
+}
+
+/**
+ * Reconciles a return period against imported portal data and stores the
+ * outcome on the ITC register. Portal invoices missing from the books are
+ * added as excess_in_2a rows with no ITC claimed until accepted.
+ */
+export async function runItcReconciliation(
+  client: DbClient,
+  companyId: string,
+  returnPeriod: string,
+  data: PortalItcData,
+  options: ItcReconciliationOptions = {}
+): Promise<ItcMatchResult[]> {
+  const { gstConfigId } = await getSupplierGstContext(client, companyId);
+  await syncBillsToItcRegister(client, companyId, returnPeriod, gstConfigId);
+
+  // Portal-only rows from an earlier import are rebuilt unless already actioned
+  await client.delete(itcRegister).where(and(
+    eq(itcRegister.companyId, companyId),
+    eq(itcRegister.returnPeriod, returnPeriod),
+    eq(itcRegister.reconciliationStatus, 'excess_in_2a'),
+    inArray(itcRegister.source, ['gstr2a', 'gstr2b']),
+    isNull(itcRegister.reconciliationAction)
+  ));
+
+  const entries = await client.query.itcRegister.findMany({
+    where: and(eq(itcRegister.companyId, companyId), eq(itcRegister.returnPeriod, returnPeriod)),
+  });
+
+  const results = reconcileItcRecords(entries.map(toBookRecord), data.invoices, options);
+  const now = new Date();
+
+  for (const result of results) {
+    if (result.book) {
+      await client.update(itcRegister)
+        .set({
+          reconciliationStatus: result.status,
+          gstr2aData: result.portal,
+          reconciliationDifferences: result.differences,
+          matchedAt: result.portal ? now : null,
+          updatedAt: now,
+        })
+        .where(eq(itcRegister.id, result.book.id));
+    } else if (result.portal) {
+      const portal = result.portal;
+      await client.insert(itcRegister).values({
+        companyId,
+        gstConfigId,
+        returnPeriod,
+        source: data.source,
+        vendorGstin: portal.vendorGstin,
+        vendorName: portal.vendorName,
+        invoiceNumber: portal.invoiceNumber,
+        invoiceDate: portal.invoiceDate,
+        invoiceValue: portal.invoiceValue.toFixed(2),
+        taxableValue: portal.taxableValue.toFixed(2),
+        igst: portal.igst.toFixed(2),
+        cgst: portal.cgst.toFixed(2),
+        sgst: portal.sgst.toFixed(2),
+        cess: portal.cess.toFixed(2),
+        eligibleItc: '0',
+        reconciliationStatus: 'excess_in_2a',
+        gstr2aData: portal,
+        matchedAt: now,
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Summarises the reconciliation state of a period's ITC register
+ */
+export function buildItcReconciliationReport(entries: ItcRegisterEntry[]) {
+  const portalTax = (entry: ItcRegisterEntry) => {
+    const portal = entry.gstr2aData as PortalInvoice | null;
+    return portal ? totalTax(portal) : 0;
+  };
+
+  const lines = entries.map(entry => ({
+    id: entry.id,
+    vendorGstin: entry.vendorGstin,
+    vendorName: entry.vendorName,
+    invoiceNumber: entry.invoiceNumber,
+    invoiceDate: entry.invoiceDate,
+    portalInvoiceNumber: (entry.gstr2aData as PortalInvoice | null)?.invoiceNumber ?? null,
+    status: entry.reconciliationStatus,
+    booksItc: entry.reconciliationStatus === 'excess_in_2a' ? 0 : totalTax(toBookRecord(entry)),
+    portalItc: portalTax(entry),
+    eligibleItc: toNumber(entry.eligibleItc),
+    differences: (entry.reconciliationDifferences as ItcDifference[] | null) || [],
+    action: entry.reconciliationAction,
+    billId: entry.billId,
+  }));
+
+  const count = (status: string) => lines.filter(l => l.status === status).length;
+
+  return {
+    summary: {
+      total: lines.length,
+      matched: count('matched'),
+      mismatch: count('mismatch'),
+      notIn2a: count('not_in_2a'),
+      excessIn2a: count('excess_in_2a'),
+      pending: count('pending'),
+      booksItc: round2(lines.reduce((sum, l) => sum + l.booksItc, 0)),
+      portalItc: round2(lines.reduce((sum, l) => sum + l.portalItc, 0)),
+      eligibleItc: round2(lines.reduce((sum, l) => sum + l.eligibleItc, 0)),
+      pendingActions: lines.filter(l => l.status !== 'matched' && !l.action).length,
+    },
+    lines,
+  };
+}
+
+/**
+ * ITC to claim when a reconciliation line is accepted or rejected. Accepted
+ * lines claim the lower of books and portal ITC (only what the supplier has
+ * reported is available); rejected lines claim nothing.
+ */
+export function getItcForAction(entry: ItcRegisterEntry, action: ItcAction) {
+  const portal = entry.gstr2aData as PortalInvoice | null;
+  const booksItc = entry.reconciliationStatus === 'excess_in_2a' ? 0 : totalTax(toBookRecord(entry));
+  const portalItc = portal ? totalTax(portal) : 0;
+
+  let claimable: number;
+  if (entry.reconciliationStatus === 'excess_in_2a') claimable = portalItc;
+  else if (entry.reconciliationStatus === 'not_in_2a' || !portal) claimable = booksItc;
+  else claimable = Math.min(booksItc, portalItc);
+
+  if (action === 'accepted') {
+    return { eligibleItc: claimable.toFixed(2), ineligibleItc: '0' };
+  }
+  return { eligibleItc: '0', ineligibleItc: Math.max(booksItc, portalItc).toFixed(2) };
+}
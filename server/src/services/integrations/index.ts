@@ -19,20 +19,11 @@ import {
 import { eq, and, sql } from 'drizzle-orm';
 import crypto from 'crypto';
 
+import type { WebhookEventType } from './webhookDispatcher';
+
 // Re-export sub-modules
 export * from './webhookDispatcher';
 
-type WebhookEventType =
-  | 'invoice.created'
-  | 'invoice.sent'
-  | 'invoice.paid'
-  | 'payment.received'
-  | 'payment.made'
-  | 'expense.created'
-  | 'bill.created'
-  | 'bill.paid'
-  | 'gst.filed';
-
 interface ShopifyOrder {
   id: number;
   order_number: number;
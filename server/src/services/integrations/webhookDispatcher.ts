@@ -8,21 +8,19 @@ import { db } from '../../db';
 import {
   webhooks,
   webhookLogs,
+  webhookEventTypeEnum,
   type Webhook
 } from '../../../../shared/schema';
 import { eq, and, sql } from 'drizzle-orm';
 import crypto from 'crypto';
 
-type WebhookEventType =
-  | 'invoice.created'
-  | 'invoice.sent'
-  | 'invoice.paid'
-  | 'payment.received'
-  | 'payment.made'
-  | 'expense.created'
-  | 'bill.created'
-  | 'bill.paid'
-  | 'gst.filed';
+export type WebhookEventType = (typeof webhookEventTypeEnum.enumValues)[number];
+
+export const WEBHOOK_EVENT_TYPES: readonly WebhookEventType[] = webhookEventTypeEnum.enumValues;
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+}
 
 interface WebhookPayload {
   event: WebhookEventType;
@@ -33,6 +31,15 @@ interface WebhookPayload {
 const MAX_CONSECUTIVE_FAILURES = 5;
 const WEBHOOK_TIMEOUT = 30000; // 30 seconds
 
+/**
+ * Signs a serialized payload with the webhook secret (HMAC-SHA256, hex).
+ * Receivers recompute this over the raw request body and compare it with
+ * the X-Webhook-Signature header.
+ */
+export function signWebhookPayload(secret: string, payloadString: string): string {
+  return crypto.createHmac('sha256', secret).update(payloadString).digest('hex');
+}
+
 /**
  * Dispatches a webhook event to all registered listeners
  */
@@ -82,7 +89,7 @@ async function sendWebhook(
 
   // Generate signature
   const signature = webhook.secret
-    ? crypto.createHmac('sha256', webhook.secret).update(payloadString).digest('hex')
+    ? signWebhookPayload(webhook.secret, payloadString)
     : undefined;
 
   const headers: Record<string, string> = {
@@ -282,34 +289,66 @@ export async function enableWebhook(
     ));
 }
 
+/**
+ * Dispatches an event without holding up the caller. Business routes call
+ * this after their transaction commits; delivery results end up in the
+ * webhook logs, so failures are only reported to the console here.
+ */
+export function emitWebhook(companyId: string, event: WebhookEventType, data: any): void {
+  dispatchWebhook(companyId, event, data).catch(error => {
+    console.error(`Webhook dispatch error (${event}):`, error);
+  });
+}
+
 /**
  * Dispatches webhooks for common events
  */
 export const webhookEvents = {
   invoiceCreated: (companyId: string, invoice: any) =>
-    dispatchWebhook(companyId, 'invoice.created', invoice),
+    emitWebhook(companyId, 'invoice.created', invoice),
 
   invoiceSent: (companyId: string, invoice: any) =>
-    dispatchWebhook(companyId, 'invoice.sent', invoice),
+    emitWebhook(companyId, 'invoice.sent', invoice),
 
   invoicePaid: (companyId: string, invoice: any) =>
-    dispatchWebhook(companyId, 'invoice.paid', invoice),
+    emitWebhook(companyId, 'invoice.paid', invoice),
 
   paymentReceived: (companyId: string, payment: any) =>
-    dispatchWebhook(companyId, 'payment.received', payment),
+    emitWebhook(companyId, 'payment.received', payment),
 
   paymentMade: (companyId: string, payment: any) =>
-    dispatchWebhook(companyId, 'payment.made', payment),
+    emitWebhook(companyId, 'payment.made', payment),
 
   expenseCreated: (companyId: string, expense: any) =>
-    dispatchWebhook(companyId, 'expense.created', expense),
+    emitWebhook(companyId, 'expense.created', expense),
 
   billCreated: (companyId: string, bill: any) =>
-    dispatchWebhook(companyId, 'bill.created', bill),
+    emitWebhook(companyId, 'bill.created', bill),
 
   billPaid: (companyId: string, bill: any) =>
-    dispatchWebhook(companyId, 'bill.paid', bill),
+    emitWebhook(companyId, 'bill.paid', bill),
 
   gstFiled: (companyId: string, data: any) =>
-    dispatchWebhook(companyId, 'gst.filed', data)
+    emitWebhook(companyId, 'gst.filed', data),
+
+  creditNoteCreated: (companyId: string, creditNote: any) =>
+    emitWebhook(companyId, 'credit_note.created', creditNote),
+
+  creditNoteIssued: (companyId: string, creditNote: any) =>
+    emitWebhook(companyId, 'credit_note.issued', creditNote),
+
+  journalEntryPosted: (companyId: string, entry: any) =>
+    emitWebhook(companyId, 'journal_entry.posted', entry),
+
+  journalEntryReversed: (companyId: string, entry: any) =>
+    emitWebhook(companyId, 'journal_entry.reversed', entry),
+
+  quoteCreated: (companyId: string, quote: any) =>
+    emitWebhook(companyId, 'quote.created', quote),
+
+  quoteSent: (companyId: string, quote: any) =>
+    emitWebhook(companyId, 'quote.sent', quote),
+
+  quoteAccepted: (companyId: string, quote: any) =>
+    emitWebhook(companyId, 'quote.accepted', quote)
 };
@@ -0,0 +1,8 @@
+/**
+ * Inventory Service
+ *
+ * Main export for the stock ledger and inventory valuation
+ */
+
+export * from './stockLedger';
+export * from './valuation';
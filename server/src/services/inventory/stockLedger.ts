@@ -0,0 +1,553 @@
+/**
+ * Stock Ledger Service
+ *
+ * Records inward and outward stock movements for goods products from sales
+ * and purchase documents, reverses them when a document is cancelled and
+ * keeps products.currentStock in step with the ledger. Every batch of
+ * movements is costed under the company's valuation method and posted to
+ * the stock-in-trade account against changes in inventories.
+ */
+
+import { db, type DbClient } from '../../db';
+import {
+  products, stockMovements, fiscalYears, journalEntries, journalEntryLines, chartOfAccounts,
+  type StockMovement, type FiscalYear,
+} from '../../../../shared/schema';
+import { eq, and, inArray, isNull, lt, lte, gte, asc, sql } from 'drizzle-orm';
+import { allocateDocumentNumber } from '../numbering';
+import { refreshPeriodBalances } from '../ledger';
+import { getStockPositions, getValuationMethod, issueStock, receiveStock, currentUnitCost } from './valuation';
+
+// Accounts the stock journal posts to
+export const STOCK_IN_TRADE_ACCOUNT_CODE = '1215';
+export const INVENTORY_CHANGE_ACCOUNT_CODE = '5250';
+
+// How the stock accounts are set up when a company's chart predates them (as in the seed chart)
+const STOCK_ACCOUNTS = [
+  { code: STOCK_IN_TRADE_ACCOUNT_CODE, name: 'Stock-in-Trade', accountType: 'asset', parentCode: '1210', scheduleIIIMapping: 'BS_ASSET_CA_INVENTORIES' },
+  { code: INVENTORY_CHANGE_ACCOUNT_CODE, name: 'Changes in Inventories', accountType: 'expense', parentCode: '5000', scheduleIIIMapping: 'PL_INVENTORY_CHANGE' },
+] as const;
+
+export type StockDocumentType = 'invoice' | 'bill' | 'credit_note' | 'debit_note';
+
+type MovementType = StockMovement['movementType'];
+type Direction = StockMovement['direction'];
+
+// How each source document moves stock
+export const DOCUMENT_STOCK_MOVEMENTS: Record<StockDocumentType, { movementType: MovementType; direction: Direction }> = {
+  invoice: { movementType: 'sale', direction: 'out' },
+  bill: { movementType: 'purchase', direction: 'in' },
+  credit_note: { movementType: 'sales_return', direction: 'in' },
+  debit_note: { movementType: 'purchase_return', direction: 'out' },
+};
+
+const MOVEMENT_NARRATIONS: Record<MovementType, string> = {
+  sale: 'Cost of goods sold',
+  purchase: 'Stock received',
+  sales_return: 'Stock returned by customer',
+  purchase_return: 'Stock returned to vendor',
+  adjustment: 'Stock adjustment',
+};
+
+export interface StockDocumentLine {
+  productId?: string | null;
+  quantity: string | number;
+  unitPrice?: string | number | null;
+}
+
+export interface StockDocument {
+  sourceType: StockDocumentType;
+  sourceId: string;
+  sourceNumber?: string | null;
+  date: string;
+  lines: StockDocumentLine[];
+}
+
+type LedgerMovement = Pick<StockMovement, 'direction' | 'quantity' | 'reversalOfId'> & { movementDate: string };
+
+export interface StockTotals {
+  opening: number;
+  inward: number;
+  outward: number;
+  closing: number;
+}
+
+/**
+ * Quantity of a movement with its sign: positive for stock in, negative for stock out
+ */
+export function signedQuantity(movement: Pick<StockMovement, 'direction' | 'quantity'>): number {
+  const quantity = parseFloat(movement.quantity);
+  return movement.direction === 'in' ? quantity : -quantity;
+}
+
+/**
+ * Opening, inward, outward and closing quantities for a period. Reversals
+ * net off the column of the movement they cancel, so a cancelled sale does
+ * not show up as a purchase.
+ */
+export function summarizeStockMovements(
+  openingStock: number,
+  movements: LedgerMovement[],
+  from?: string,
+  to?: string
+): StockTotals {
+  const totals: StockTotals = { opening: openingStock, inward: 0, outward: 0, closing: 0 };
+
+  for (const movement of movements) {
+    if (to && movement.movementDate > to) continue;
+
+    const quantity = signedQuantity(movement);
+    if (from && movement.movementDate < from) {
+      totals.opening += quantity;
+    } else if (movement.reversalOfId) {
+      // A reversal moving stock in cancels an earlier outward movement
+      if (quantity > 0) totals.outward -= quantity;
+      else totals.inward += quantity;
+    } else if (quantity > 0) {
+      totals.inward += quantity;
+    } else {
+      totals.outward -= quantity;
+    }
+  }
+
+  totals.closing = totals.opening + totals.inward - totals.outward;
+  return totals;
+}
+
+/**
+ * Adds the running stock balance after each movement
+ */
+export function withRunningBalance<T extends Pick<StockMovement, 'direction' | 'quantity'>>(
+  opening: number,
+  movements: T[]
+): (T & { balance: number })[] {
+  let balance = opening;
+  return movements.map(movement => {
+    balance += signedQuantity(movement);
+    return { ...movement, balance };
+  });
+}
+
+export function isLowStock(currentStock: number, reorderLevel: number | null): boolean {
+  return reorderLevel !== null && currentStock <= reorderLevel;
+}
+
+/**
+ * Net value of a batch of movements at their unit cost; positive when more
+ * value comes into stock than goes out
+ */
+export function stockJournalAmount(movements: Pick<StockMovement, 'direction' | 'quantity' | 'unitCost'>[]): number {
+  const amount = movements.reduce(
+    (sum, movement) => sum + Math.round(signedQuantity(movement) * parseFloat(movement.unitCost || '0') * 100) / 100,
+    0
+  );
+  return Math.round(amount * 100) / 100;
+}
+
+async function applyStockChange(client: DbClient, productId: string, change: number) {
+  await client.update(products)
+    .set({
+      currentStock: sql`coalesce(${products.currentStock}, 0) + ${change.toString()}`,
+      updatedAt: new Date(),
+    })
+    .where(eq(products.id, productId));
+}
+
+/**
+ * Finds the stock-in-trade and changes in inventories accounts, creating
+ * any that the company's chart is missing
+ */
+async function ensureStockAccounts(client: DbClient, companyId: string) {
+  const codes = STOCK_ACCOUNTS.flatMap(account => [account.code, account.parentCode]);
+  const existing = await client.select({ id: chartOfAccounts.id, code: chartOfAccounts.code, level: chartOfAccounts.level })
+    .from(chartOfAccounts)
+    .where(and(eq(chartOfAccounts.companyId, companyId), inArray(chartOfAccounts.code, codes)));
+
+  const accounts: Record<string, { id: string }> = {};
+  for (const definition of STOCK_ACCOUNTS) {
+    const found = existing.find(account => account.code === definition.code);
+    if (found) {
+      accounts[definition.code] = found;
+      continue;
+    }
+
+    const parent = existing.find(account => account.code === definition.parentCode);
+    const [created] = await client.insert(chartOfAccounts).values({
+      companyId,
+      code: definition.code,
+      name: definition.name,
+      accountType: definition.accountType,
+      parentAccountId: parent?.id ?? null,
+      level: parent ? parent.level + 1 : 1,
+      scheduleIIIMapping: definition.scheduleIIIMapping,
+      isSystem: true,
+    }).returning();
+    accounts[definition.code] = created;
+  }
+
+  return {
+    stockAccount: accounts[STOCK_IN_TRADE_ACCOUNT_CODE],
+    changeAccount: accounts[INVENTORY_CHANGE_ACCOUNT_CODE],
+  };
+}
+
+async function resolveStockPeriod(
+  client: DbClient,
+  companyId: string,
+  date: string
+): Promise<{ error: string } | { fiscalYear: FiscalYear }> {
+  const [fiscalYear] = await client.select()
+    .from(fiscalYears)
+    .where(and(
+      eq(fiscalYears.companyId, companyId),
+      lte(fiscalYears.startDate, date),
+      gte(fiscalYears.endDate, date)
+    ));
+  if (!fiscalYear) return { error: `No fiscal year covers ${date}` };
+  if (fiscalYear.isLocked) return { error: `${fiscalYear.name} is locked` };
+  return { fiscalYear };
+}
+
+/**
+ * Why stock cannot be moved on a date - no fiscal year covers it or the
+ * year is locked - or null when it can. Callers check this before writing;
+ * the ledger itself throws if it is reached with such a date.
+ */
+export async function getStockPeriodError(client: DbClient, companyId: string, date: string): Promise<string | null> {
+  const period = await resolveStockPeriod(client, companyId, date);
+  return 'error' in period ? period.error : null;
+}
+
+async function requireStockPeriod(client: DbClient, companyId: string, date: string) {
+  const period = await resolveStockPeriod(client, companyId, date);
+  if ('error' in period) throw new Error(`Cannot post stock: ${period.error}`);
+  return period.fiscalYear;
+}
+
+/**
+ * Posts the value of a batch of movements between the stock-in-trade and
+ * changes in inventories accounts, creating them if needed
+ */
+async function postStockJournal(
+  client: DbClient,
+  companyId: string,
+  fiscalYear: FiscalYear,
+  entry: { date: string; sourceId?: string | null; narration: string },
+  movements: StockMovement[],
+  userId?: string
+) {
+  const amount = stockJournalAmount(movements);
+  if (amount === 0) return null;
+
+  const { stockAccount, changeAccount } = await ensureStockAccounts(client, companyId);
+  const entryNumber = await allocateDocumentNumber(client, companyId, 'journal_entry', fiscalYear, { type: 'STK' });
+  const value = Math.abs(amount).toFixed(2);
+
+  const [je] = await client.insert(journalEntries).values({
+    companyId,
+    fiscalYearId: fiscalYear.id,
+    entryNumber,
+    entryDate: entry.date,
+    entryType: 'auto_inventory',
+    narration: entry.narration,
+    totalDebit: value,
+    totalCredit: value,
+    sourceType: 'stock_movement',
+    sourceId: entry.sourceId,
+    status: 'posted',
+    createdByUserId: userId,
+  }).returning();
+
+  // Stock coming in is carried as an asset until it is sold
+  const [debitAccount, creditAccount] = amount > 0 ? [stockAccount, changeAccount] : [changeAccount, stockAccount];
+  await client.insert(journalEntryLines).values([
+    { journalEntryId: je.id, accountId: debitAccount.id, debitAmount: value, creditAmount: '0', description: entry.narration },
+    { journalEntryId: je.id, accountId: creditAccount.id, debitAmount: '0', creditAmount: value, description: entry.narration },
+  ]);
+  await refreshPeriodBalances(client, companyId, [je]);
+
+  return je;
+}
+
+/**
+ * Writes one movement per goods line of an issued document and posts its
+ * value. Lines without a product, service products and zero quantities are
+ * skipped. Issues are costed under the valuation method; purchases come in
+ * at the bill price and customer returns at the current cost.
+ */
+export async function recordDocumentStock(
+  client: DbClient,
+  companyId: string,
+  document: StockDocument,
+  userId?: string
+): Promise<StockMovement[]> {
+  const productIds = [...new Set(document.lines.map(line => line.productId).filter((id): id is string => !!id))];
+  if (productIds.length === 0) return [];
+
+  const goods = await client.select({ id: products.id })
+    .from(products)
+    .where(and(
+      eq(products.companyId, companyId),
+      inArray(products.id, productIds),
+      eq(products.type, 'goods')
+    ));
+  const goodsIds = new Set(goods.map(product => product.id));
+
+  const lines = document.lines
+    .filter(line => line.productId && goodsIds.has(line.productId) && parseFloat(String(line.quantity)) > 0);
+  if (lines.length === 0) return [];
+
+  const fiscalYear = await requireStockPeriod(client, companyId, document.date);
+  const { movementType, direction } = DOCUMENT_STOCK_MOVEMENTS[document.sourceType];
+  const method = await getValuationMethod(client, companyId);
+  const positions = await getStockPositions(client, companyId, [...goodsIds], document.date, method);
+
+  const values = lines.map(line => {
+    const productId = line.productId!;
+    const quantity = parseFloat(String(line.quantity));
+    const layers = positions.get(productId) || [];
+    let unitCost: number;
+
+    if (direction === 'out') {
+      const issue = issueStock(layers, method, quantity);
+      positions.set(productId, issue.layers);
+      unitCost = issue.cost / quantity;
+    } else {
+      unitCost = document.sourceType === 'bill' && line.unitPrice != null
+        ? parseFloat(String(line.unitPrice))
+        : currentUnitCost(layers);
+      positions.set(productId, receiveStock(layers, method, quantity, unitCost));
+    }
+
+    return {
+      companyId,
+      productId,
+      movementDate: document.date,
+      movementType,
+      direction,
+      quantity: quantity.toString(),
+      unitCost: unitCost.toFixed(2),
+      sourceType: document.sourceType,
+      sourceId: document.sourceId,
+      sourceNumber: document.sourceNumber,
+      createdByUserId: userId,
+    };
+  });
+
+  const movements = await client.insert(stockMovements).values(values).returning();
+  for (const movement of movements) {
+    await applyStockChange(client, movement.productId, signedQuantity(movement));
+  }
+
+  await postStockJournal(client, companyId, fiscalYear, {
+    date: document.date,
+    sourceId: document.sourceId,
+    narration: `${MOVEMENT_NARRATIONS[movementType]} - ${document.sourceNumber || document.sourceType}`,
+  }, movements, userId);
+
+  return movements;
+}
+
+/**
+ * Reverses the open movements of a cancelled or deleted document at their
+ * original cost, so the reversing stock journal nets off the first one.
+ * The reversal is dated on the document's date, in the period its stock
+ * journal went to.
+ */
+export async function reverseDocumentStock(
+  client: DbClient,
+  companyId: string,
+  sourceType: StockDocumentType,
+  sourceId: string,
+  date: string,
+  userId?: string
+): Promise<StockMovement[]> {
+  const open = await client.select()
+    .from(stockMovements)
+    .where(and(
+      eq(stockMovements.companyId, companyId),
+      eq(stockMovements.sourceType, sourceType),
+      eq(stockMovements.sourceId, sourceId),
+      eq(stockMovements.isReversed, false),
+      isNull(stockMovements.reversalOfId)
+    ));
+
+  if (open.length === 0) return [];
+
+  const fiscalYear = await requireStockPeriod(client, companyId, date);
+  const reversals: StockMovement[] = [];
+
+  for (const movement of open) {
+    const [reversal] = await client.insert(stockMovements).values({
+      companyId,
+      productId: movement.productId,
+      movementDate: date,
+      movementType: movement.movementType,
+      direction: movement.direction === 'in' ? 'out' : 'in',
+      quantity: movement.quantity,
+      unitCost: movement.unitCost,
+      sourceType,
+      sourceId,
+      sourceNumber: movement.sourceNumber,
+      reversalOfId: movement.id,
+      notes: `Reversal of ${movement.sourceNumber || sourceType}`,
+      createdByUserId: userId,
+    }).returning();
+
+    await client.update(stockMovements)
+      .set({ isReversed: true })
+      .where(eq(stockMovements.id, movement.id));
+
+    await applyStockChange(client, movement.productId, signedQuantity(reversal));
+    reversals.push(reversal);
+  }
+
+  await postStockJournal(client, companyId, fiscalYear, {
+    date,
+    sourceId,
+    narration: `Reversal of stock entry - ${open[0].sourceNumber || sourceType}`,
+  }, reversals, userId);
+
+  return reversals;
+}
+
+/**
+ * Records a manual stock adjustment; positive quantities add stock at the
+ * current cost and negative ones are costed like an issue
+ */
+export async function recordStockAdjustment(
+  client: DbClient,
+  companyId: string,
+  productId: string,
+  adjustment: number,
+  options: { date?: string; notes?: string; userId?: string } = {}
+): Promise<StockMovement> {
+  const date = options.date || new Date().toISOString().split('T')[0];
+  const fiscalYear = await requireStockPeriod(client, companyId, date);
+  const quantity = Math.abs(adjustment);
+  const method = await getValuationMethod(client, companyId);
+  const positions = await getStockPositions(client, companyId, [productId], date, method);
+  const layers = positions.get(productId) || [];
+  const unitCost = adjustment >= 0
+    ? currentUnitCost(layers)
+    : issueStock(layers, method, quantity).cost / quantity;
+
+  const [movement] = await client.insert(stockMovements).values({
+    companyId,
+    productId,
+    movementDate: date,
+    movementType: 'adjustment',
+    direction: adjustment >= 0 ? 'in' : 'out',
+    quantity: quantity.toString(),
+    unitCost: unitCost.toFixed(2),
+    sourceType: 'adjustment',
+    notes: options.notes,
+    createdByUserId: options.userId,
+  }).returning();
+
+  await applyStockChange(client, productId, adjustment);
+
+  await postStockJournal(client, companyId, fiscalYear, {
+    date,
+    sourceId: movement.id,
+    narration: options.notes ? `${MOVEMENT_NARRATIONS.adjustment} - ${options.notes}` : MOVEMENT_NARRATIONS.adjustment,
+  }, [movement], options.userId);
+
+  return movement;
+}
+
+/**
+ * Stock summary of every goods product for a period
+ */
+export async function getStockSummary(companyId: string, period: { from?: string; to?: string } = {}) {
+  const goods = await db.query.products.findMany({
+    where: and(
+      eq(products.companyId, companyId),
+      eq(products.type, 'goods')
+    ),
+    orderBy: asc(products.name),
+  });
+
+  const movements = await db.select()
+    .from(stockMovements)
+    .where(and(
+      eq(stockMovements.companyId, companyId),
+      period.to ? lte(stockMovements.movementDate, period.to) : undefined
+    ));
+
+  return goods.map(product => {
+    const totals = summarizeStockMovements(
+      parseFloat(product.openingStock || '0'),
+      movements.filter(movement => movement.productId === product.id),
+      period.from,
+      period.to
+    );
+    const currentStock = parseFloat(product.currentStock || '0');
+    const reorderLevel = product.reorderLevel !== null ? parseFloat(product.reorderLevel) : null;
+
+    return {
+      productId: product.id,
+      code: product.code,
+      name: product.name,
+      unit: product.unit,
+      ...totals,
+      currentStock,
+      reorderLevel,
+      isLowStock: isLowStock(currentStock, reorderLevel),
+    };
+  });
+}
+
+/**
+ * Movement register of one product with opening and running balances
+ */
+export async function getProductStockMovements(
+  companyId: string,
+  productId: string,
+  period: { from?: string; to?: string } = {}
+) {
+  const product = await db.query.products.findFirst({
+    where: and(
+      eq(products.id, productId),
+      eq(products.companyId, companyId)
+    ),
+  });
+
+  if (!product) return null;
+
+  const openingStock = parseFloat(product.openingStock || '0');
+  const before = period.from
+    ? await db.select()
+      .from(stockMovements)
+      .where(and(
+        eq(stockMovements.productId, productId),
+        lt(stockMovements.movementDate, period.from)
+      ))
+    : [];
+  const opening = before.reduce((sum, movement) => sum + signedQuantity(movement), openingStock);
+
+  const movements = await db.select()
+    .from(stockMovements)
+    .where(and(
+      eq(stockMovements.productId, productId),
+      period.from ? gte(stockMovements.movementDate, period.from) : undefined,
+      period.to ? lte(stockMovements.movementDate, period.to) : undefined
+    ))
+    .orderBy(asc(stockMovements.movementDate), asc(stockMovements.createdAt));
+
+  const register = withRunningBalance(opening, movements);
+
+  return {
+    product: {
+      id: product.id,
+      code: product.code,
+      name: product.name,
+      unit: product.unit,
+      currentStock: parseFloat(product.currentStock || '0'),
+      reorderLevel: product.reorderLevel !== null ? parseFloat(product.reorderLevel) : null,
+    },
+    opening,
+    movements: register,
+    closing: register.length > 0 ? register[register.length - 1].balance : opening,
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * Inventory Valuation Service
+ *
+ * Costs stock issues and values closing stock under the company's
+ * valuation method. FIFO keeps one cost layer per receipt and issues from
+ * the oldest layer first; weighted average keeps a single moving-average
+ * layer that is re-averaged on every receipt.
+ */
+
+import { db, type DbClient } from '../../db';
+import { companies, products, stockMovements, type StockMovement } from '../../../../shared/schema';
+import { eq, and, inArray, lte, asc } from 'drizzle-orm';
+
+export type ValuationMethod = 'fifo' | 'weighted_average';
+
+export interface CostLayer {
+  quantity: number;
+  unitCost: number;
+}
+
+export type ValuedMovement = Pick<StockMovement, 'direction' | 'quantity' | 'unitCost'>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function stockQuantity(layers: CostLayer[]): number {
+  return layers.reduce((sum, layer) => sum + layer.quantity, 0);
+}
+
+export function stockValue(layers: CostLayer[]): number {
+  return round(layers.reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0));
+}
+
+/**
+ * Cost of the next unit issued: the oldest layer under FIFO, the running
+ * average otherwise. Falls back to the last known cost once stock runs out.
+ */
+export function currentUnitCost(layers: CostLayer[]): number {
+  const layer = layers.find(candidate => candidate.quantity > 0) || layers[layers.length - 1];
+  return layer ? layer.unitCost : 0;
+}
+
+/**
+ * Adds received stock. A shortfall left by issuing more than was on hand is
+ * made good first.
+ */
+export function receiveStock(
+  layers: CostLayer[],
+  method: ValuationMethod,
+  quantity: number,
+  unitCost: number
+): CostLayer[] {
+  if (method === 'weighted_average') {
+    const onHand = stockQuantity(layers);
+    if (onHand <= 0) {
+      return [{ quantity: onHand + quantity, unitCost }];
+    }
+    const total = onHand + quantity;
+    const value = onHand * layers[0].unitCost + quantity * unitCost;
+    return [{ quantity: total, unitCost: value / total }];
+  }
+
+  const next = layers.map(layer => ({ ...layer }));
+  let remaining = quantity;
+  while (remaining > 0 && next.length > 0 && next[0].quantity < 0) {
+    const filled = Math.min(remaining, -next[0].quantity);
+    next[0].quantity += filled;
+    remaining -= filled;
+    if (next[0].quantity === 0) next.shift();
+  }
+  if (remaining > 0) next.push({ quantity: remaining, unitCost });
+  return next;
+}
+
+/**
+ * Removes issued stock and returns its cost. Issuing more than is on hand
+ * costs the shortfall at the last known unit cost.
+ */
+export function issueStock(
+  layers: CostLayer[],
+  method: ValuationMethod,
+  quantity: number
+): { layers: CostLayer[]; cost: number } {
+  if (method === 'weighted_average') {
+    const unitCost = currentUnitCost(layers);
+    return {
+      layers: [{ quantity: stockQuantity(layers) - quantity, unitCost }],
+      cost: round(quantity * unitCost),
+    };
+  }
+
+  const next = layers.map(layer => ({ ...layer }));
+  let remaining = quantity;
+  let cost = 0;
+  let lastCost = currentUnitCost(layers);
+
+  while (remaining > 0 && next.length > 0 && next[0].quantity > 0) {
+    const taken = Math.min(remaining, next[0].quantity);
+    cost += taken * next[0].unitCost;
+    lastCost = next[0].unitCost;
+    next[0].quantity -= taken;
+    remaining -= taken;
+    if (next[0].quantity === 0) next.shift();
+  }
+
+  if (remaining > 0) {
+    cost += remaining * lastCost;
+    if (next.length > 0) next[0].quantity -= remaining;
+    else next.push({ quantity: -remaining, unitCost: lastCost });
+  }
+
+  return { layers: next, cost: round(cost) };
+}
+
+/**
+ * Replays movements in date order from the opening stock. Receipts without
+ * a cost come in at the current unit cost.
+ */
+export function replayStockMovements(
+  method: ValuationMethod,
+  opening: CostLayer,
+  movements: ValuedMovement[]
+): CostLayer[] {
+  let layers: CostLayer[] = opening.quantity !== 0 ? [{ ...opening }] : [];
+
+  for (const movement of movements) {
+    const quantity = parseFloat(movement.quantity);
+    if (movement.direction === 'in') {
+      const unitCost = movement.unitCost !== null ? parseFloat(movement.unitCost) : currentUnitCost(layers);
+      layers = receiveStock(layers, method, quantity, unitCost);
+    } else {
+      layers = issueStock(layers, method, quantity).layers;
+    }
+  }
+
+  return layers;
+}
+
+export async function getValuationMethod(client: DbClient, companyId: string): Promise<ValuationMethod> {
+  const [company] = await client.select({ method: companies.inventoryValuationMethod })
+    .from(companies)
+    .where(eq(companies.id, companyId));
+  return company?.method || 'weighted_average';
+}
+
+/**
+ * Cost layers of each product as at a date, built from opening stock at the
+ * purchase price and every movement up to and including that date
+ */
+export async function getStockPositions(
+  client: DbClient,
+  companyId: string,
+  productIds: string[],
+  asOfDate: string,
+  method: ValuationMethod
+): Promise<Map<string, CostLayer[]>> {
+  const positions = new Map<string, CostLayer[]>();
+  if (productIds.length === 0) return positions;
+
+  const items = await client.select()
+    .from(products)
+    .where(and(
+      eq(products.companyId, companyId),
+      inArray(products.id, productIds)
+    ));
+
+  const movements = await client.select()
+    .from(stockMovements)
+    .where(and(
+      eq(stockMovements.companyId, companyId),
+      inArray(stockMovements.productId, productIds),
+      lte(stockMovements.movementDate, asOfDate)
+    ))
+    .orderBy(asc(stockMovements.movementDate), asc(stockMovements.createdAt));
+
+  for (const product of items) {
+    positions.set(product.id, replayStockMovements(
+      method,
+      {
+        quantity: parseFloat(product.openingStock || '0'),
+        unitCost: parseFloat(product.purchasePrice || '0'),
+      },
+      movements.filter(movement => movement.productId === product.id)
+    ));
+  }
+
+  return positions;
+}
+
+/**
+ * Closing stock quantity and value of every goods product as at a date
+ */
+export async function getStockValuation(companyId: string, asOfDate: string) {
+  const method = await getValuationMethod(db, companyId);
+  const goods = await db.query.products.findMany({
+    where: and(
+      eq(products.companyId, companyId),
+      eq(products.type, 'goods')
+    ),
+    orderBy: asc(products.name),
+  });
+
+  const positions = await getStockPositions(db, companyId, goods.map(product => product.id), asOfDate, method);
+
+  const items = goods.map(product => {
+    const layers = positions.get(product.id) || [];
+    const quantity = stockQuantity(layers);
+    const value = stockValue(layers);
+    return {
+      productId: product.id,
+      code: product.code,
+      name: product.name,
+      unit: product.unit,
+      quantity,
+      unitCost: quantity !== 0 ? round(value / quantity) : 0,
+      value,
+    };
+  });
+
+  return {
+    asOfDate,
+    method,
+    items,
+    totalValue: round(items.reduce((sum, item) => sum + item.value, 0)),
+  };
+}
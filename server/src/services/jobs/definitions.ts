@@ -0,0 +1,66 @@
+/**
+ * Background Jobs
+ *
+ * The jobs run by the scheduler and their default schedules
+ */
+
+import { db } from '../../db';
+import { companies } from '../../../../shared/schema';
+import { processDueRecurringInvoices, processDueReminders } from '../billing';
+import { runAlertChecks } from '../analytics';
+import { processDueRecurringEntries } from '../recurringEntries';
+import type { JobDefinition } from './scheduler';
+
+/**
+ * Runs the smart alert checks for every company
+ */
+async function runAlertChecksForAllCompanies(): Promise<{
+  companies: number;
+  alerts: number;
+  errors: string[];
+}> {
+  const companyList = await db.select({ id: companies.id, name: companies.name }).from(companies);
+  const result = { companies: companyList.length, alerts: 0, errors: [] as string[] };
+
+  for (const company of companyList) {
+    try {
+      const alerts = await runAlertChecks(company.id);
+      result.alerts += alerts.length;
+    } catch (error) {
+      result.errors.push(`Failed to check alerts for ${company.name}: ${error}`);
+    }
+  }
+
+  return result;
+}
+
+export const JOBS: JobDefinition[] = [
+  {
+    name: 'recurring_invoices',
+    description: 'Generate due recurring invoices and auto-send them',
+    schedule: '0 6 * * *',
+    run: processDueRecurringInvoices,
+  },
+  {
+    name: 'recurring_journal_entries',
+    description: 'Create draft journal entries from due recurring templates',
+    schedule: '15 6 * * *',
+    run: () => processDueRecurringEntries(),
+  },
+  {
+    name: 'payment_reminders',
+    description: 'Send scheduled payment reminders for unpaid invoices',
+    schedule: '0 9 * * *',
+    run: processDueReminders,
+  },
+  {
+    name: 'alert_checks',
+    description: 'Check cash, overdue, GST/TDS deadline and expense alerts',
+    schedule: '0 7 * * *',
+    run: runAlertChecksForAllCompanies,
+  },
+];
+
+export function getJobDefinition(name: string): JobDefinition | undefined {
+  return JOBS.find(job => job.name === name);
+}
@@ -0,0 +1,9 @@
+/**
+ * Jobs Service
+ *
+ * Main export for the background job scheduler
+ */
+
+export * from './cron';
+export * from './scheduler';
+export * from './definitions';
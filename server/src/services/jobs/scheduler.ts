@@ -0,0 +1,218 @@
+/**
+ * Job Scheduler
+ *
+ * Runs background jobs on cron schedules stored in the database. A job is
+ * locked in its `scheduled_jobs` row while it runs, so with several server
+ * instances only one of them executes it.
+ */
+
+import os from 'os';
+import { db } from '../../db';
+import {
+  scheduledJobs,
+  jobRuns,
+  type ScheduledJob,
+  type JobRun
+} from '../../../../shared/schema';
+import { eq, and, or, lte, isNull, inArray } from 'drizzle-orm';
+import { getNextCronRun } from './cron';
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  // Default schedule; can be changed per installation through the admin API
+  schedule: string;
+  run: () => Promise<unknown>;
+}
+
+export type JobTrigger = 'schedule' | 'manual';
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+const TICK_INTERVAL = 60 * 1000; // 1 minute
+const LOCK_TIMEOUT = 60 * 60 * 1000; // 1 hour; a crashed instance's lock expires after this
+
+/**
+ * Collects the per-item errors a job reported in its result
+ * (the billing jobs return `{ errors: string[] }`, recurring entries a `failed` count)
+ */
+export function getJobResultErrors(result: unknown): string[] {
+  if (!result || typeof result !== 'object') return [];
+
+  const { errors, failed } = result as { errors?: unknown; failed?: unknown };
+  if (Array.isArray(errors)) return errors.map(String);
+  if (typeof failed === 'number' && failed > 0) return [`${failed} item(s) failed`];
+  return [];
+}
+
+/**
+ * Creates the database rows for registered jobs that do not have one yet
+ */
+export async function registerJobs(definitions: JobDefinition[]): Promise<void> {
+  const now = new Date();
+
+  for (const definition of definitions) {
+    await db.insert(scheduledJobs)
+      .values({
+        name: definition.name,
+        schedule: definition.schedule,
+        nextRunAt: getNextCronRun(definition.schedule, now),
+      })
+      .onConflictDoNothing();
+  }
+}
+
+/**
+ * Takes the job lock. Returns null when another run holds it, or for a
+ * scheduled run when the job is no longer due (another instance has
+ * already run it and moved nextRunAt on).
+ */
+async function acquireJobLock(name: string, trigger: JobTrigger): Promise<ScheduledJob | null> {
+  const now = new Date();
+
+  const [job] = await db.update(scheduledJobs)
+    .set({
+      lockedBy: INSTANCE_ID,
+      lockedUntil: new Date(now.getTime() + LOCK_TIMEOUT),
+      lastStatus: 'running',
+      updatedAt: now,
+    })
+    .where(and(
+      eq(scheduledJobs.name, name),
+      or(isNull(scheduledJobs.lockedUntil), lte(scheduledJobs.lockedUntil, now)),
+      trigger === 'schedule' ? lte(scheduledJobs.nextRunAt, now) : undefined
+    ))
+    .returning();
+
+  return job ?? null;
+}
+
+/**
+ * Runs a job under its lock and records the run. Returns null if the job
+ * is already running elsewhere, or was already run for this schedule slot.
+ */
+export async function runJob(
+  definition: JobDefinition,
+  trigger: JobTrigger,
+  userId?: string
+): Promise<JobRun | null> {
+  const job = await acquireJobLock(definition.name, trigger);
+  if (!job) return null;
+
+  const startedAt = new Date();
+  let status: 'succeeded' | 'failed' = 'succeeded';
+  let error: string | null = null;
+
+  // The lock is released however the run ends, so a failed insert cannot hold it until it times out
+  try {
+    const [run] = await db.insert(jobRuns)
+      .values({
+        jobName: definition.name,
+        trigger,
+        triggeredByUserId: userId,
+        instanceId: INSTANCE_ID,
+        status: 'running',
+        startedAt,
+      })
+      .returning();
+
+    let result: unknown = null;
+    try {
+      result = await definition.run();
+      const errors = getJobResultErrors(result);
+      if (errors.length > 0) {
+        status = 'failed';
+        error = errors.join('\n');
+      }
+    } catch (err) {
+      status = 'failed';
+      error = err instanceof Error ? err.message : String(err);
+      console.error(`Job ${definition.name} error:`, err);
+    }
+
+    const finishedAt = new Date();
+    const [finished] = await db.update(jobRuns)
+      .set({
+        status,
+        result,
+        error,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+      })
+      .where(eq(jobRuns.id, run.id))
+      .returning();
+
+    return finished;
+  } catch (err) {
+    status = 'failed';
+    error = err instanceof Error ? err.message : String(err);
+    throw err;
+  } finally {
+    const finishedAt = new Date();
+    let nextRunAt: Date | null = job.nextRunAt;
+    try {
+      nextRunAt = getNextCronRun(job.schedule, finishedAt);
+    } catch (err) {
+      console.error(`Job ${definition.name} schedule error:`, err);
+    }
+
+    // Only release a lock this instance still holds; after a timeout another run may own it
+    await db.update(scheduledJobs)
+      .set({
+        lastRunAt: startedAt,
+        lastStatus: status,
+        lastError: error,
+        nextRunAt,
+        lockedBy: null,
+        lockedUntil: null,
+        updatedAt: finishedAt,
+      })
+      .where(and(eq(scheduledJobs.id, job.id), eq(scheduledJobs.lockedBy, INSTANCE_ID)));
+  }
+}
+
+/**
+ * Runs every enabled job whose next run time has passed, one at a time
+ */
+export async function runDueJobs(definitions: JobDefinition[]): Promise<void> {
+  const dueJobs = await db.select()
+    .from(scheduledJobs)
+    .where(and(
+      inArray(scheduledJobs.name, definitions.map(d => d.name)),
+      eq(scheduledJobs.isEnabled, true),
+      lte(scheduledJobs.nextRunAt, new Date())
+    ));
+
+  for (const job of dueJobs) {
+    const definition = definitions.find(d => d.name === job.name)!;
+    await runJob(definition, 'schedule');
+  }
+}
+
+/**
+ * Starts the in-process scheduler. Returns a function that stops it.
+ */
+export function startScheduler(definitions: JobDefinition[]): () => void {
+  let ticking = false;
+
+  const tick = async () => {
+    // Skip a tick while a long job from the previous one is still running
+    if (ticking) return;
+    ticking = true;
+    try {
+      await runDueJobs(definitions);
+    } catch (error) {
+      console.error('Job scheduler error:', error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  registerJobs(definitions)
+    .then(tick)
+    .catch(error => console.error('Job scheduler start error:', error));
+
+  const timer = setInterval(tick, TICK_INTERVAL);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
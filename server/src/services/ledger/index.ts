@@ -0,0 +1,7 @@
+/**
+ * Ledger Service
+ *
+ * Main export for stored account period balances
+ */
+
+export * from './periodBalances';
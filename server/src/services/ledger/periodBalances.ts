@@ -0,0 +1,401 @@
+/**
+ * Period Balances Service
+ *
+ * Keeps account_period_balances, the posted debit and credit totals per
+ * account per month, in step with journal entry lines. Every change to a
+ * posted entry refreshes the months it touches, recomputing them from the
+ * lines under an advisory lock so concurrent postings cannot lose an update.
+ * Reports read whole months from the store and sum journal lines only for
+ * the part months at either end of the range asked for.
+ */
+
+import { db, withTransaction, type DbClient } from '../../db';
+import {
+  accountPeriodBalances,
+  journalEntries,
+  journalEntryLines,
+} from '../../../../shared/schema';
+import { eq, ne, and, or, gte, lte, sql, type SQL } from 'drizzle-orm';
+import { YEAR_END_SOURCE_TYPE } from '../yearEnd';
+
+export interface PeriodBalanceQuery {
+  fiscalYearId?: string;
+  from?: string;
+  to?: string;
+  // Entries with entry type 'opening' (carried-in balances)
+  openingEntries?: 'include' | 'exclude' | 'only';
+  // Year-end closing and carry-forward entries
+  includeYearEnd?: boolean;
+}
+
+export interface AccountBalance {
+  debit: number;
+  credit: number;
+}
+
+export interface PeriodBalanceMismatch {
+  fiscalYearId: string;
+  periodStart: string;
+  accountId: string;
+  isOpening: boolean;
+  isYearEnd: boolean;
+  storedDebit: number;
+  storedCredit: number;
+  ledgerDebit: number;
+  ledgerCredit: number;
+}
+
+interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+const toDate = (value: string) => new Date(`${value}T00:00:00Z`);
+const toIsoDate = (value: Date) => value.toISOString().slice(0, 10);
+
+export function monthStart(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+export function monthEnd(date: string): string {
+  const d = toDate(monthStart(date));
+  return toIsoDate(new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)));
+}
+
+export function previousDay(date: string): string {
+  const d = toDate(date);
+  return toIsoDate(new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - 1)));
+}
+
+function addMonths(date: string, months: number): string {
+  const d = toDate(monthStart(date));
+  return toIsoDate(new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1)));
+}
+
+/**
+ * Splits a date range into the whole months that can be read from the store
+ * (as period starts) and the part months that must be summed from journal
+ * lines. Open ends stay open.
+ */
+export function splitDateRange(from?: string, to?: string): { months: DateRange | null; partial: DateRange[] } {
+  if (from && to && from > to) {
+    return { months: null, partial: [] };
+  }
+
+  if (from && to && monthStart(from) === monthStart(to)) {
+    const wholeMonth = from === monthStart(from) && to === monthEnd(to);
+    return wholeMonth
+      ? { months: { from: monthStart(from), to: monthStart(to) }, partial: [] }
+      : { months: null, partial: [{ from, to }] };
+  }
+
+  const partial: DateRange[] = [];
+  const months: DateRange = {};
+
+  if (from) {
+    if (from === monthStart(from)) {
+      months.from = from;
+    } else {
+      partial.push({ from, to: monthEnd(from) });
+      months.from = addMonths(from, 1);
+    }
+  }
+
+  if (to) {
+    if (to === monthEnd(to)) {
+      months.to = monthStart(to);
+    } else {
+      partial.push({ from: monthStart(to), to });
+      months.to = addMonths(to, -1);
+    }
+  }
+
+  const hasMonths = !months.from || !months.to || months.from <= months.to;
+  return { months: hasMonths ? months : null, partial };
+}
+
+/**
+ * Unique fiscal year and month pairs touched by a set of entries
+ */
+export function periodsOf(entries: { fiscalYearId: string; entryDate: string }[]) {
+  const periods = new Map<string, { fiscalYearId: string; periodStart: string }>();
+  for (const entry of entries) {
+    const periodStart = monthStart(entry.entryDate);
+    periods.set(`${entry.fiscalYearId}:${periodStart}`, { fiscalYearId: entry.fiscalYearId, periodStart });
+  }
+  return [...periods.values()].sort((a, b) =>
+    a.fiscalYearId.localeCompare(b.fiscalYearId) || a.periodStart.localeCompare(b.periodStart)
+  );
+}
+
+// Bucket columns computed from a journal entry. Built on call since the
+// year-end service imports this module too
+const bucketColumns = () => ({
+  periodStart: sql<string>`to_char(date_trunc('month', ${journalEntries.entryDate}), 'YYYY-MM-DD')`,
+  isOpening: sql<boolean>`(${journalEntries.entryType} = 'opening')`,
+  isYearEnd: sql<boolean>`(${journalEntries.sourceType} IS NOT DISTINCT FROM ${YEAR_END_SOURCE_TYPE})`,
+});
+
+// Runs on the caller's transaction, or in a transaction of its own
+async function refreshPeriod(tx: DbClient, companyId: string, fiscalYearId: string, periodStart: string) {
+  // Held to the end of the transaction, so the next writer of this month
+  // recomputes after our lines are committed
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`period_balances:${companyId}:${fiscalYearId}:${periodStart}`}))`);
+
+  await tx.delete(accountPeriodBalances)
+    .where(and(
+      eq(accountPeriodBalances.companyId, companyId),
+      eq(accountPeriodBalances.fiscalYearId, fiscalYearId),
+      eq(accountPeriodBalances.periodStart, periodStart)
+    ));
+
+  const bucket = bucketColumns();
+  const totals = await tx
+    .select({
+      accountId: journalEntryLines.accountId,
+      isOpening: bucket.isOpening,
+      isYearEnd: bucket.isYearEnd,
+      debit: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}), 0)`,
+      credit: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount}), 0)`,
+    })
+    .from(journalEntryLines)
+    .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+    .where(and(
+      eq(journalEntries.companyId, companyId),
+      eq(journalEntries.fiscalYearId, fiscalYearId),
+      eq(journalEntries.status, 'posted'),
+      gte(journalEntries.entryDate, periodStart),
+      lte(journalEntries.entryDate, monthEnd(periodStart))
+    ))
+    .groupBy(journalEntryLines.accountId, bucket.isOpening, bucket.isYearEnd);
+
+  if (totals.length > 0) {
+    await tx.insert(accountPeriodBalances).values(totals.map(total => ({
+      companyId,
+      fiscalYearId,
+      periodStart,
+      accountId: total.accountId,
+      isOpening: total.isOpening,
+      isYearEnd: total.isYearEnd,
+      debit: total.debit,
+      credit: total.credit,
+    })));
+  }
+}
+
+/**
+ * Recomputes the stored balances for the months of the given entries. Call
+ * after posting, reversing, editing or deleting an entry, passing the old
+ * date as well when an edit moves it to another month. Pass the caller's
+ * transaction so the balances commit with the entry.
+ */
+export async function refreshPeriodBalances(
+  client: DbClient,
+  companyId: string,
+  entries: { fiscalYearId: string; entryDate: string }[]
+) {
+  const periods = periodsOf(entries);
+  if (periods.length === 0) return;
+
+  await withTransaction(client, async (tx) => {
+    for (const period of periods) {
+      await refreshPeriod(tx, companyId, period.fiscalYearId, period.periodStart);
+    }
+  });
+}
+
+// Companies whose stored months are known to cover every posted entry
+const backfilledCompanies = new Set<string>();
+
+/**
+ * Fills in the months that have posted entries but nothing stored, such as
+ * entries posted before the store existed. Checked once per company per
+ * process, before the first report reads the store.
+ */
+async function backfillPeriodBalances(companyId: string) {
+  if (backfilledCompanies.has(companyId)) return;
+
+  const missing = await db
+    .selectDistinct({ fiscalYearId: journalEntries.fiscalYearId, entryDate: bucketColumns().periodStart })
+    .from(journalEntries)
+    .where(and(
+      eq(journalEntries.companyId, companyId),
+      eq(journalEntries.status, 'posted'),
+      sql`NOT EXISTS (
+        SELECT 1 FROM ${accountPeriodBalances}
+        WHERE ${accountPeriodBalances.companyId} = ${journalEntries.companyId}
+          AND ${accountPeriodBalances.fiscalYearId} = ${journalEntries.fiscalYearId}
+          AND ${accountPeriodBalances.periodStart} = date_trunc('month', ${journalEntries.entryDate})::date
+      )`
+    ));
+
+  await refreshPeriodBalances(db, companyId, missing);
+  backfilledCompanies.add(companyId);
+}
+
+/**
+ * Recomputes every stored month for a company from its journal lines
+ */
+export async function rebuildPeriodBalances(companyId: string) {
+  return db.transaction(async (tx) => {
+    const ledgerPeriods = await tx
+      .selectDistinct({ fiscalYearId: journalEntries.fiscalYearId, entryDate: bucketColumns().periodStart })
+      .from(journalEntries)
+      .where(eq(journalEntries.companyId, companyId));
+
+    const storedPeriods = await tx
+      .selectDistinct({ fiscalYearId: accountPeriodBalances.fiscalYearId, entryDate: accountPeriodBalances.periodStart })
+      .from(accountPeriodBalances)
+      .where(eq(accountPeriodBalances.companyId, companyId));
+
+    const periods = periodsOf([...ledgerPeriods, ...storedPeriods]);
+    for (const period of periods) {
+      await refreshPeriod(tx, companyId, period.fiscalYearId, period.periodStart);
+    }
+
+    return { periods: periods.length };
+  });
+}
+
+/**
+ * Compares the stored balances with totals summed from journal lines and
+ * lists every bucket that differs
+ */
+export async function checkPeriodBalances(companyId: string): Promise<PeriodBalanceMismatch[]> {
+  const bucket = bucketColumns();
+  const ledger = await db
+    .select({
+      fiscalYearId: journalEntries.fiscalYearId,
+      periodStart: bucket.periodStart,
+      accountId: journalEntryLines.accountId,
+      isOpening: bucket.isOpening,
+      isYearEnd: bucket.isYearEnd,
+      debit: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}), 0)`,
+      credit: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount}), 0)`,
+    })
+    .from(journalEntryLines)
+    .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+    .where(and(
+      eq(journalEntries.companyId, companyId),
+      eq(journalEntries.status, 'posted')
+    ))
+    .groupBy(journalEntries.fiscalYearId, bucket.periodStart, journalEntryLines.accountId, bucket.isOpening, bucket.isYearEnd);
+
+  const stored = await db.query.accountPeriodBalances.findMany({
+    where: eq(accountPeriodBalances.companyId, companyId),
+  });
+
+  const keyOf = (row: { fiscalYearId: string; periodStart: string; accountId: string; isOpening: boolean; isYearEnd: boolean }) =>
+    [row.fiscalYearId, row.periodStart, row.accountId, row.isOpening, row.isYearEnd].join(':');
+
+  const buckets = new Map<string, PeriodBalanceMismatch>();
+  const bucketFor = (row: Parameters<typeof keyOf>[0]) => {
+    const key = keyOf(row);
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        fiscalYearId: row.fiscalYearId,
+        periodStart: row.periodStart,
+        accountId: row.accountId,
+        isOpening: row.isOpening,
+        isYearEnd: row.isYearEnd,
+        storedDebit: 0,
+        storedCredit: 0,
+        ledgerDebit: 0,
+        ledgerCredit: 0,
+      };
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  };
+
+  for (const row of ledger) {
+    const bucket = bucketFor(row);
+    bucket.ledgerDebit = parseFloat(row.debit);
+    bucket.ledgerCredit = parseFloat(row.credit);
+  }
+  for (const row of stored) {
+    const bucket = bucketFor(row);
+    bucket.storedDebit = parseFloat(row.debit);
+    bucket.storedCredit = parseFloat(row.credit);
+  }
+
+  return [...buckets.values()].filter(bucket =>
+    Math.abs(bucket.storedDebit - bucket.ledgerDebit) >= 0.005 ||
+    Math.abs(bucket.storedCredit - bucket.ledgerCredit) >= 0.005
+  );
+}
+
+function addTotals(
+  balances: Map<string, AccountBalance>,
+  rows: { accountId: string; debit: string; credit: string }[]
+) {
+  for (const row of rows) {
+    const balance = balances.get(row.accountId) || { debit: 0, credit: 0 };
+    balance.debit += parseFloat(row.debit);
+    balance.credit += parseFloat(row.credit);
+    balances.set(row.accountId, balance);
+  }
+}
+
+/**
+ * Posted debit and credit totals per account for a date range, read from
+ * the stored months with journal lines filling in part months
+ */
+export async function getAccountBalances(
+  companyId: string,
+  query: PeriodBalanceQuery = {}
+): Promise<Map<string, AccountBalance>> {
+  const { fiscalYearId, openingEntries = 'include', includeYearEnd = true } = query;
+  const { months, partial } = splitDateRange(query.from, query.to);
+  const balances = new Map<string, AccountBalance>();
+
+  if (months) {
+    await backfillPeriodBalances(companyId);
+
+    const conditions: SQL[] = [eq(accountPeriodBalances.companyId, companyId)];
+    if (fiscalYearId) conditions.push(eq(accountPeriodBalances.fiscalYearId, fiscalYearId));
+    if (months.from) conditions.push(gte(accountPeriodBalances.periodStart, months.from));
+    if (months.to) conditions.push(lte(accountPeriodBalances.periodStart, months.to));
+    if (openingEntries !== 'include') conditions.push(eq(accountPeriodBalances.isOpening, openingEntries === 'only'));
+    if (!includeYearEnd) conditions.push(eq(accountPeriodBalances.isYearEnd, false));
+
+    addTotals(balances, await db
+      .select({
+        accountId: accountPeriodBalances.accountId,
+        debit: sql<string>`COALESCE(SUM(${accountPeriodBalances.debit}), 0)`,
+        credit: sql<string>`COALESCE(SUM(${accountPeriodBalances.credit}), 0)`,
+      })
+      .from(accountPeriodBalances)
+      .where(and(...conditions))
+      .groupBy(accountPeriodBalances.accountId));
+  }
+
+  if (partial.length > 0) {
+    const conditions: SQL[] = [
+      eq(journalEntries.companyId, companyId),
+      eq(journalEntries.status, 'posted'),
+      or(...partial.map(range => and(
+        range.from ? gte(journalEntries.entryDate, range.from) : undefined,
+        range.to ? lte(journalEntries.entryDate, range.to) : undefined
+      )))!,
+    ];
+    if (fiscalYearId) conditions.push(eq(journalEntries.fiscalYearId, fiscalYearId));
+    if (openingEntries === 'exclude') conditions.push(ne(journalEntries.entryType, 'opening'));
+    if (openingEntries === 'only') conditions.push(eq(journalEntries.entryType, 'opening'));
+    if (!includeYearEnd) conditions.push(sql`${journalEntries.sourceType} IS DISTINCT FROM ${YEAR_END_SOURCE_TYPE}`);
+
+    addTotals(balances, await db
+      .select({
+        accountId: journalEntryLines.accountId,
+        debit: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}), 0)`,
+        credit: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount}), 0)`,
+      })
+      .from(journalEntryLines)
+      .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+      .where(and(...conditions))
+      .groupBy(journalEntryLines.accountId));
+  }
+
+  return balances;
+}
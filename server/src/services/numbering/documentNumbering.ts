@@ -0,0 +1,384 @@
+/**
+ * Document Numbering Service
+ *
+ * Allocates document numbers from numbering series kept per company,
+ * document type and GSTIN branch. Each series has a template such as
+ * INV/{FY}/{SEQ:5} and one counter per fiscal year. Counters are locked
+ * while a number is taken so concurrent requests never share a number.
+ * Deleting the latest draft winds the counter back. Other numbers freed by
+ * deleted drafts are issued again first, except in GST document series:
+ * there a reused number could be dated after the number that follows it,
+ * so the gap is left to the documents-issued summary of GSTR-1 (Rule 46 of
+ * the CGST Rules).
+ */
+
+import { db, withTransaction, type DbClient } from '../../db';
+import {
+  numberingSeries,
+  numberingSeriesCounters,
+  numberingDocumentTypeEnum,
+  fiscalYears,
+  type FiscalYear,
+  type NumberingSeries,
+} from '../../../../shared/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { getSupplierGstContext } from '../gst/gstr1';
+
+export type NumberingDocumentType = typeof numberingDocumentTypeEnum.enumValues[number];
+
+export const DEFAULT_TEMPLATES: Record<NumberingDocumentType, string> = {
+  invoice: 'INV/{FY}/{SEQ:5}',
+  credit_note: 'CN/{FY}/{SEQ:5}',
+  debit_note: 'DN/{FY}/{SEQ:5}',
+  bill: 'BILL/{FY}/{SEQ:5}',
+  quote: 'QT/{FY}/{SEQ:5}',
+  sales_order: 'SO/{FY}/{SEQ:5}',
+  purchase_order: 'PO/{FY}/{SEQ:5}',
+  // Journal entries share one series; {TYPE} keeps the source prefix (JV, INV, RCV, ...)
+  journal_entry: '{TYPE}/{FY}/{SEQ:5}',
+};
+
+export const DOCUMENT_TYPE_LABELS: Record<NumberingDocumentType, string> = {
+  invoice: 'Invoices',
+  credit_note: 'Credit Notes',
+  debit_note: 'Debit Notes',
+  bill: 'Bills',
+  quote: 'Quotes',
+  sales_order: 'Sales Orders',
+  purchase_order: 'Purchase Orders',
+  journal_entry: 'Journal Entries',
+};
+
+// Documents reported in GSTR-1, where the number is limited to 16 characters
+const GST_DOCUMENT_TYPES: NumberingDocumentType[] = ['invoice', 'credit_note', 'debit_note'];
+const GST_NUMBER_MAX_LENGTH = 16;
+
+/**
+ * Whether numbers freed in the middle of a series are issued again. GST
+ * documents must be numbered in date order, which a reused number breaks.
+ */
+export function reusesReleasedNumbers(documentType: NumberingDocumentType): boolean {
+  return !GST_DOCUMENT_TYPES.includes(documentType);
+}
+
+const TOKEN_PATTERN = /\{([A-Z]+)(?::(\d+))?\}/g;
+
+export interface NumberingContext {
+  fiscalYear: string;
+  type?: string;
+}
+
+/**
+ * Fiscal year as it appears in document numbers: "24-25" for a year that
+ * spans two calendar years, "2025" for a calendar year
+ */
+export function fiscalYearToken(fiscalYear: Pick<FiscalYear, 'startDate' | 'endDate'>): string {
+  const startYear = fiscalYear.startDate.substring(0, 4);
+  const endYear = fiscalYear.endDate.substring(0, 4);
+  return startYear === endYear ? startYear : `${startYear.substring(2)}-${endYear.substring(2)}`;
+}
+
+export function renderDocumentNumber(template: string, context: NumberingContext, sequence: number): string {
+  return template.replace(TOKEN_PATTERN, (_, token: string, width?: string) => {
+    switch (token) {
+      case 'FY':
+        return context.fiscalYear;
+      case 'TYPE':
+        return context.type || '';
+      case 'SEQ':
+        return sequence.toString().padStart(width ? parseInt(width, 10) : 1, '0');
+      default:
+        return '';
+    }
+  });
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Reads the sequence back out of a number rendered from the template.
+ * Returns null when the number was not produced by this template.
+ */
+export function parseDocumentNumber(template: string, context: NumberingContext, documentNumber: string): number | null {
+  let pattern = '';
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    pattern += escapeRegex(template.substring(lastIndex, match.index));
+    if (match[1] === 'FY') pattern += escapeRegex(context.fiscalYear);
+    else if (match[1] === 'TYPE') pattern += context.type ? escapeRegex(context.type) : '[A-Za-z0-9]*';
+    else if (match[1] === 'SEQ') pattern += '(\\d+)';
+    lastIndex = match.index! + match[0].length;
+  }
+  pattern += escapeRegex(template.substring(lastIndex));
+
+  const result = new RegExp(`^${pattern}$`).exec(documentNumber);
+  return result ? parseInt(result[1], 10) : null;
+}
+
+/**
+ * Checks a template before it is saved. Returns an error message, or null
+ * when the template is usable for the document type.
+ */
+export function validateTemplate(template: string, documentType: NumberingDocumentType): string | null {
+  const tokens = Array.from(template.matchAll(TOKEN_PATTERN));
+
+  const unknown = tokens.find(match => !['FY', 'SEQ', 'TYPE'].includes(match[1]));
+  if (unknown) {
+    return `Unknown placeholder ${unknown[0]}`;
+  }
+  if (/[{}]/.test(template.replace(TOKEN_PATTERN, ''))) {
+    return 'Placeholders must be written as {FY}, {SEQ} or {SEQ:n}';
+  }
+
+  const sequences = tokens.filter(match => match[1] === 'SEQ');
+  if (sequences.length !== 1) {
+    return 'Template must contain exactly one {SEQ} placeholder';
+  }
+  const width = sequences[0][2] ? parseInt(sequences[0][2], 10) : 1;
+  if (width < 1 || width > 10) {
+    return 'Sequence padding must be between 1 and 10 digits';
+  }
+  if (tokens.some(match => match[1] === 'TYPE') && documentType !== 'journal_entry') {
+    return '{TYPE} can only be used in journal entry templates';
+  }
+
+  if (GST_DOCUMENT_TYPES.includes(documentType)) {
+    const sample = renderDocumentNumber(template, { fiscalYear: '24-25' }, 1);
+    if (!/^[A-Za-z0-9/-]+$/.test(sample)) {
+      return 'GST document numbers may only contain letters, digits, "/" and "-"';
+    }
+    if (sample.length > GST_NUMBER_MAX_LENGTH) {
+      return `GST document numbers cannot exceed ${GST_NUMBER_MAX_LENGTH} characters (${sample} is ${sample.length})`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The series used for a document: the branch series for the GSTIN when one
+ * is active, otherwise the company-wide series
+ */
+async function findSeries(
+  client: DbClient,
+  companyId: string,
+  documentType: NumberingDocumentType,
+  gstin?: string | null
+): Promise<NumberingSeries | undefined> {
+  if (gstin) {
+    const [branch] = await client.select()
+      .from(numberingSeries)
+      .where(and(
+        eq(numberingSeries.companyId, companyId),
+        eq(numberingSeries.documentType, documentType),
+        eq(numberingSeries.gstin, gstin),
+        eq(numberingSeries.isActive, true)
+      ));
+    if (branch) return branch;
+  }
+
+  const [companyWide] = await client.select()
+    .from(numberingSeries)
+    .where(and(
+      eq(numberingSeries.companyId, companyId),
+      eq(numberingSeries.documentType, documentType),
+      isNull(numberingSeries.gstin)
+    ));
+  return companyWide;
+}
+
+/**
+ * GSTIN whose branch series a document is numbered from. GST documents
+ * default to the primary registration; other documents use the
+ * company-wide series unless a GSTIN is given.
+ */
+async function resolveGstin(
+  client: DbClient,
+  companyId: string,
+  documentType: NumberingDocumentType,
+  gstin?: string | null
+): Promise<string | null> {
+  if (gstin !== undefined) return gstin;
+  if (!GST_DOCUMENT_TYPES.includes(documentType)) return null;
+  return (await getSupplierGstContext(client, companyId)).gstin;
+}
+
+async function findOrCreateSeries(
+  client: DbClient,
+  companyId: string,
+  documentType: NumberingDocumentType,
+  gstin?: string | null
+): Promise<NumberingSeries> {
+  const existing = await findSeries(client, companyId, documentType, gstin);
+  if (existing) return existing;
+
+  await client.insert(numberingSeries)
+    .values({
+      companyId,
+      documentType,
+      name: DOCUMENT_TYPE_LABELS[documentType],
+      template: DEFAULT_TEMPLATES[documentType],
+    })
+    .onConflictDoNothing();
+
+  return (await findSeries(client, companyId, documentType))!;
+}
+
+async function lockCounter(client: DbClient, seriesId: string, fiscalYearId: string) {
+  await client.insert(numberingSeriesCounters)
+    .values({ seriesId, fiscalYearId })
+    .onConflictDoNothing();
+
+  const [counter] = await client.select()
+    .from(numberingSeriesCounters)
+    .where(and(
+      eq(numberingSeriesCounters.seriesId, seriesId),
+      eq(numberingSeriesCounters.fiscalYearId, fiscalYearId)
+    ))
+    .for('update');
+
+  return {
+    ...counter,
+    releasedNumbers: ((counter.releasedNumbers as number[] | null) || []).slice().sort((a, b) => a - b),
+  };
+}
+
+// Runs on the caller's transaction, or in a transaction of its own
+/**
+ * Takes the next number in the series for a fiscal year. Pass the caller's
+ * transaction so the number is returned to the pool if the document insert
+ * fails.
+ */
+export async function allocateDocumentNumber(
+  client: DbClient,
+  companyId: string,
+  documentType: NumberingDocumentType,
+  fiscalYear: Pick<FiscalYear, 'id' | 'startDate' | 'endDate'>,
+  options: { gstin?: string | null; type?: string } = {}
+): Promise<string> {
+  return withTransaction(client, async (tx) => {
+    const gstin = await resolveGstin(tx, companyId, documentType, options.gstin);
+    const series = await findOrCreateSeries(tx, companyId, documentType, gstin);
+    const counter = await lockCounter(tx, series.id, fiscalYear.id);
+
+    const released = reusesReleasedNumbers(documentType) ? counter.releasedNumbers : [];
+    const sequence = released.length > 0 ? released.shift()! : counter.lastNumber + 1;
+
+    await tx.update(numberingSeriesCounters)
+      .set({
+        lastNumber: Math.max(counter.lastNumber, sequence),
+        releasedNumbers: released,
+        updatedAt: new Date(),
+      })
+      .where(eq(numberingSeriesCounters.id, counter.id));
+
+    return renderDocumentNumber(
+      series.template,
+      { fiscalYear: fiscalYearToken(fiscalYear), type: options.type },
+      sequence
+    );
+  });
+}
+
+/**
+ * Returns the number of a deleted draft to its series. The latest number
+ * winds the counter back; an earlier one is kept and issued next, unless
+ * the series does not reuse numbers. Numbers the series did not produce are
+ * ignored.
+ */
+export async function releaseDocumentNumber(
+  client: DbClient,
+  companyId: string,
+  documentType: NumberingDocumentType,
+  fiscalYearId: string,
+  documentNumber: string,
+  options: { gstin?: string | null; type?: string } = {}
+): Promise<void> {
+  await withTransaction(client, async (tx) => {
+    const [fiscalYear] = await tx.select()
+      .from(fiscalYears)
+      .where(and(eq(fiscalYears.id, fiscalYearId), eq(fiscalYears.companyId, companyId)));
+    const gstin = await resolveGstin(tx, companyId, documentType, options.gstin);
+    const series = await findSeries(tx, companyId, documentType, gstin);
+    if (!fiscalYear || !series) return;
+
+    const sequence = parseDocumentNumber(
+      series.template,
+      { fiscalYear: fiscalYearToken(fiscalYear), type: options.type },
+      documentNumber
+    );
+    if (sequence === null) return;
+
+    const counter = await lockCounter(tx, series.id, fiscalYear.id);
+    if (sequence > counter.lastNumber || counter.releasedNumbers.includes(sequence)) return;
+    if (sequence < counter.lastNumber && !reusesReleasedNumbers(documentType)) return;
+
+    let lastNumber = counter.lastNumber;
+    let released = [...counter.releasedNumbers, sequence];
+    while (lastNumber > 0 && released.includes(lastNumber)) {
+      released = released.filter(number => number !== lastNumber);
+      lastNumber--;
+    }
+
+    await tx.update(numberingSeriesCounters)
+      .set({ lastNumber, releasedNumbers: released, updatedAt: new Date() })
+      .where(eq(numberingSeriesCounters.id, counter.id));
+  });
+}
+
+/**
+ * Every series of the company with the next number each will issue in the
+ * fiscal year. Missing company-wide series are created with the defaults.
+ */
+export async function listNumberingSeries(companyId: string, fiscalYear?: FiscalYear) {
+  for (const documentType of numberingDocumentTypeEnum.enumValues) {
+    await findOrCreateSeries(db, companyId, documentType);
+  }
+
+  const seriesList = await db.select()
+    .from(numberingSeries)
+    .where(eq(numberingSeries.companyId, companyId))
+    .orderBy(numberingSeries.documentType, numberingSeries.gstin);
+
+  const counters = fiscalYear
+    ? await db.select()
+      .from(numberingSeriesCounters)
+      .where(eq(numberingSeriesCounters.fiscalYearId, fiscalYear.id))
+    : [];
+
+  return seriesList.map(series => {
+    const counter = counters.find(candidate => candidate.seriesId === series.id);
+    const released = reusesReleasedNumbers(series.documentType)
+      ? ((counter?.releasedNumbers as number[] | null) || []).slice().sort((a, b) => a - b)
+      : [];
+    const nextSequence = released.length > 0 ? released[0] : (counter?.lastNumber || 0) + 1;
+
+    return {
+      ...series,
+      lastNumber: counter?.lastNumber || 0,
+      releasedNumbers: released,
+      nextNumber: fiscalYear
+        ? renderDocumentNumber(series.template, { fiscalYear: fiscalYearToken(fiscalYear), type: 'JV' }, nextSequence)
+        : null,
+    };
+  });
+}
+
+/**
+ * Moves a series counter forward, e.g. to continue a sequence started in
+ * another system. Counters never move back, so issued numbers stay unique.
+ */
+export async function setNextSequence(seriesId: string, fiscalYearId: string, nextSequence: number) {
+  return db.transaction(async (tx) => {
+    const counter = await lockCounter(tx, seriesId, fiscalYearId);
+    if (nextSequence <= counter.lastNumber) {
+      return false;
+    }
+
+    await tx.update(numberingSeriesCounters)
+      .set({ lastNumber: nextSequence - 1, updatedAt: new Date() })
+      .where(eq(numberingSeriesCounters.id, counter.id));
+    return true;
+  });
+}
@@ -0,0 +1,7 @@
+/**
+ * Numbering Service
+ *
+ * Main export for document numbering series
+ */
+
+export * from './documentNumbering';
@@ -22,6 +22,7 @@ import {
   type InsertDocumentScan
 } from '../../../../shared/schema';
 import { eq, and, ilike } from 'drizzle-orm';
+import { allocateDocumentNumber } from '../numbering';
 
 // Google Cloud Vision integration would go here
 // For MVP, we'll use a simpler approach that can be enhanced later
@@ -449,81 +450,79 @@ export async function createBillFromScan(
     throw new Error('No active fiscal year found');
   }
 
-  // Generate bill number
-  const billCount = await db.select({ count: db.$count(bills) })
-    .from(bills)
-    .where(eq(bills.companyId, companyId));
-
-  const count = billCount[0]?.count || 0;
-  const billNumber = `BILL/${new Date().getFullYear()}/${String(Number(count) + 1).padStart(4, '0')}`;
-
   const invoiceDate = extractedData.invoiceDate || new Date().toISOString().split('T')[0];
   const dueDate = extractedData.dueDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
-  // Create bill
-  const [bill] = await db.insert(bills)
-    .values({
-      companyId,
-      fiscalYearId: fiscalYear.id,
-      billNumber,
-      vendorBillNumber: extractedData.invoiceNumber,
-      billDate: invoiceDate,
-      dueDate,
-      vendorId,
-      subtotal: (extractedData.subtotal || extractedData.totalAmount || 0).toFixed(2),
-      taxAmount: (extractedData.taxAmount || 0).toFixed(2),
-      totalAmount: (extractedData.totalAmount || 0).toFixed(2),
-      balanceDue: (extractedData.totalAmount || 0).toFixed(2),
-      cgst: (extractedData.cgst || 0).toFixed(2),
-      sgst: (extractedData.sgst || 0).toFixed(2),
-      igst: (extractedData.igst || 0).toFixed(2),
-      status: 'pending',
-      notes: `Created from scanned document`,
-      createdByUserId: userId
-    })
-    .returning();
+  // Create the bill and link the scan in a transaction
+  const bill = await db.transaction(async (tx) => {
+    const billNumber = await allocateDocumentNumber(tx, companyId, 'bill', fiscalYear);
+
+    const [created] = await tx.insert(bills)
+      .values({
+        companyId,
+        fiscalYearId: fiscalYear.id,
+        billNumber,
+        vendorBillNumber: extractedData.invoiceNumber,
+        billDate: invoiceDate,
+        dueDate,
+        vendorId,
+        subtotal: (extractedData.subtotal || extractedData.totalAmount || 0).toFixed(2),
+        taxAmount: (extractedData.taxAmount || 0).toFixed(2),
+        totalAmount: (extractedData.totalAmount || 0).toFixed(2),
+        balanceDue: (extractedData.totalAmount || 0).toFixed(2),
+        cgst: (extractedData.cgst || 0).toFixed(2),
+        sgst: (extractedData.sgst || 0).toFixed(2),
+        igst: (extractedData.igst || 0).toFixed(2),
+        status: 'pending',
+        notes: `Created from scanned document`,
+        createdByUserId: userId
+      })
+      .returning();
+
+    // Create bill lines if items were extracted
+    if (extractedData.items && extractedData.items.length > 0) {
+      const lineValues = extractedData.items.map((item, idx) => ({
+        billId: created.id,
+        description: item.description,
+        hsnSacCode: item.hsnCode,
+        quantity: (item.quantity || 1).toFixed(4),
+        unitPrice: (item.rate || item.amount || 0).toFixed(2),
+        taxRate: (item.taxRate || 0).toFixed(2),
+        taxAmount: '0',
+        amount: (item.amount || 0).toFixed(2),
+        sortOrder: idx
+      }));
+
+      await tx.insert(billLines).values(lineValues);
+    } else {
+      // Create a single line item
+      await tx.insert(billLines).values({
+        billId: created.id,
+        description: `${extractedData.vendorName || 'Vendor'} - Purchase`,
+        quantity: '1',
+        unitPrice: (extractedData.subtotal || extractedData.totalAmount || 0).toFixed(2),
+        taxRate: '0',
+        taxAmount: (extractedData.taxAmount || 0).toFixed(2),
+        amount: (extractedData.totalAmount || 0).toFixed(2),
+        sortOrder: 0
+      });
+    }
 
-  // Create bill lines if items were extracted
-  if (extractedData.items && extractedData.items.length > 0) {
-    const lineValues = extractedData.items.map((item, idx) => ({
-      billId: bill.id,
-      description: item.description,
-      hsnSacCode: item.hsnCode,
-      quantity: (item.quantity || 1).toFixed(4),
-      unitPrice: (item.rate || item.amount || 0).toFixed(2),
-      taxRate: (item.taxRate || 0).toFixed(2),
-      taxAmount: '0',
-      amount: (item.amount || 0).toFixed(2),
-      sortOrder: idx
-    }));
-
-    await db.insert(billLines).values(lineValues);
-  } else {
-    // Create a single line item
-    await db.insert(billLines).values({
-      billId: bill.id,
-      description: `${extractedData.vendorName || 'Vendor'} - Purchase`,
-      quantity: '1',
-      unitPrice: (extractedData.subtotal || extractedData.totalAmount || 0).toFixed(2),
-      taxRate: '0',
-      taxAmount: (extractedData.taxAmount || 0).toFixed(2),
-      amount: (extractedData.totalAmount || 0).toFixed(2),
-      sortOrder: 0
-    });
-  }
+    // Update document scan
+    await tx.update(documentScans)
+      .set({
+        createdBillId: created.id,
+        needsReview: false,
+        reviewedByUserId: userId,
+        reviewedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(documentScans.id, documentId));
 
-  // Update document scan
-  await db.update(documentScans)
-    .set({
-      createdBillId: bill.id,
-      needsReview: false,
-      reviewedByUserId: userId,
-      reviewedAt: new Date(),
-      updatedAt: new Date()
-    })
-    .where(eq(documentScans.id, documentId));
+    return created;
+  });
 
-  return { billId: bill.id, billNumber };
+  return { billId: bill.id, billNumber: bill.billNumber };
 }
 
 /**
@@ -0,0 +1,162 @@
+/**
+ * Recurring Journal Entries
+ *
+ * Generates draft journal entries from recurring entry templates that are due
+ */
+
+import { db } from '../db';
+import {
+  recurringEntryTemplates, journalEntries, journalEntryLines, fiscalYears,
+  type RecurringEntryTemplate
+} from '@shared/schema';
+import { eq, and, lte } from 'drizzle-orm';
+import { allocateDocumentNumber } from './numbering';
+
+export interface RecurringEntryResult {
+  templateId: string;
+  templateName: string;
+  entryId?: string;
+  error?: string;
+}
+
+/**
+ * Works out the run date after `current` for a template frequency
+ */
+export function getNextRunDate(current: string, frequency: RecurringEntryTemplate['frequency']): string {
+  const nextDate = new Date(current);
+
+  switch (frequency) {
+    case 'daily':
+      nextDate.setDate(nextDate.getDate() + 1);
+      break;
+    case 'weekly':
+      nextDate.setDate(nextDate.getDate() + 7);
+      break;
+    case 'monthly':
+      nextDate.setMonth(nextDate.getMonth() + 1);
+      break;
+    case 'quarterly':
+      nextDate.setMonth(nextDate.getMonth() + 3);
+      break;
+    case 'half_yearly':
+      nextDate.setMonth(nextDate.getMonth() + 6);
+      break;
+    case 'yearly':
+      nextDate.setFullYear(nextDate.getFullYear() + 1);
+      break;
+  }
+
+  return nextDate.toISOString().split('T')[0];
+}
+
+/**
+ * Processes all due recurring entry templates, for one company or (from the
+ * job scheduler) for every company. Entries are created as drafts.
+ */
+export async function processDueRecurringEntries(options: {
+  companyId?: string;
+  userId?: string;
+} = {}): Promise<{
+  processed: number;
+  failed: number;
+  results: RecurringEntryResult[];
+}> {
+  const today = new Date().toISOString().split('T')[0];
+
+  const dueTemplates = await db.query.recurringEntryTemplates.findMany({
+    where: and(
+      options.companyId ? eq(recurringEntryTemplates.companyId, options.companyId) : undefined,
+      eq(recurringEntryTemplates.isActive, true),
+      lte(recurringEntryTemplates.nextRunDate, today)
+    ),
+  });
+
+  const results: RecurringEntryResult[] = [];
+
+  for (const template of dueTemplates) {
+    try {
+      // Get current fiscal year
+      const fiscalYear = await db.query.fiscalYears.findFirst({
+        where: and(
+          eq(fiscalYears.companyId, template.companyId),
+          eq(fiscalYears.isCurrent, true)
+        ),
+      });
+
+      if (!fiscalYear) continue;
+
+      const templateLines = template.templateLines as any[];
+      const totalDebit = templateLines.reduce((sum, l) => sum + (l.debitAmount || 0), 0);
+      const totalCredit = templateLines.reduce((sum, l) => sum + (l.creditAmount || 0), 0);
+
+      // Create the entry and move the template on in a transaction
+      const entry = await db.transaction(async (tx) => {
+        const entryNumber = await allocateDocumentNumber(tx, template.companyId, 'journal_entry', fiscalYear, { type: 'REC' });
+
+        const [created] = await tx.insert(journalEntries).values({
+          companyId: template.companyId,
+          fiscalYearId: fiscalYear.id,
+          entryNumber,
+          entryDate: template.nextRunDate!,
+          postingDate: template.nextRunDate,
+          entryType: 'recurring',
+          narration: template.narration || template.name,
+          totalDebit,
+          totalCredit,
+          sourceType: 'recurring',
+          sourceId: template.id,
+          status: 'draft',
+          createdByUserId: options.userId || template.createdByUserId,
+        }).returning();
+
+        // Create journal entry lines
+        for (const line of templateLines) {
+          await tx.insert(journalEntryLines).values({
+            journalEntryId: created.id,
+            accountId: line.accountId,
+            debitAmount: line.debitAmount || 0,
+            creditAmount: line.creditAmount || 0,
+            partyId: line.partyId || null,
+            description: line.description || '',
+          });
+        }
+
+        const nextRunDate = getNextRunDate(template.nextRunDate!, template.frequency);
+
+        // Check if end date is reached
+        const shouldDeactivate = template.endDate && nextRunDate > template.endDate;
+
+        // Update template
+        await tx
+          .update(recurringEntryTemplates)
+          .set({
+            nextRunDate,
+            lastRunAt: new Date(),
+            isActive: !shouldDeactivate,
+          })
+          .where(eq(recurringEntryTemplates.id, template.id));
+
+        return created;
+      });
+
+      results.push({
+        templateId: template.id,
+        templateName: template.name,
+        entryId: entry.id,
+      });
+    } catch (err) {
+      console.error(`Recurring entry ${template.id} error:`, err);
+      results.push({
+        templateId: template.id,
+        templateName: template.name,
+        error: 'Failed to process',
+      });
+    }
+  }
+
+  return {
+    processed: results.filter(r => r.entryId).length,
+    failed: results.filter(r => r.error).length,
+    results,
+  };
+}
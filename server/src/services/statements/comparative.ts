@@ -0,0 +1,73 @@
+/**
+ * Statement Comparatives
+ *
+ * Schedule III statements show the figures of the previous reporting period
+ * next to the current ones. The previous period is the same dates one year
+ * earlier; each line carries the previous amount and the variance from it.
+ */
+
+export interface StatementLine {
+  code: string;
+  name: string;
+  amount: number;
+  previousAmount?: number;
+  variance?: number;
+  variancePercent?: number | null;
+  indentLevel: number;
+  isBold: boolean;
+  isTotal: boolean;
+  hasSubSchedule: boolean;
+  noteNumber?: number;
+  children?: StatementLine[];
+}
+
+// Where the previous period figures came from: posted entries of that
+// period, the opening balances of a year whose prior year was never
+// booked, or nowhere
+export type ComparativeSource = 'ledger' | 'opening_balances' | 'none';
+
+export interface StatementComparative {
+  fromDate?: string;
+  toDate: string;
+  source: ComparativeSource;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The same day one year earlier; 29 February falls back to the 28th
+ */
+export function previousYearDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year - 1, month, 0)).getUTCDate();
+  return `${year - 1}-${String(month).padStart(2, '0')}-${String(Math.min(day, lastDay)).padStart(2, '0')}`;
+}
+
+/**
+ * Change against the previous amount as a percentage of its size, or null
+ * when there is nothing to compare with
+ */
+export function variancePercent(amount: number, previousAmount: number): number | null {
+  if (Math.abs(previousAmount) < 0.005) return null;
+  return round(((amount - previousAmount) / Math.abs(previousAmount)) * 100);
+}
+
+/**
+ * Fills previous amounts and variances from the previous period's lines,
+ * matched by line code. Lines are returned unchanged without a previous
+ * period.
+ */
+export function addComparative(current: StatementLine[], previous: StatementLine[] | null): StatementLine[] {
+  if (!previous) return current;
+
+  const previousAmounts = new Map(previous.map(line => [line.code, line.amount]));
+  return current.map(line => {
+    const previousAmount = previousAmounts.get(line.code) || 0;
+    return {
+      ...line,
+      previousAmount,
+      variance: round(line.amount - previousAmount),
+      variancePercent: variancePercent(line.amount, previousAmount),
+    };
+  });
+}
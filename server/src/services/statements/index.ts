@@ -0,0 +1,9 @@
+/**
+ * Statements Service
+ *
+ * Main export for financial statement balances, comparatives and notes
+ */
+
+export * from './statementBalances';
+export * from './comparative';
+export * from './notes';
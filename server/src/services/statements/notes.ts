@@ -0,0 +1,558 @@
+/**
+ * Notes to Accounts
+ *
+ * Builds the Schedule III notes behind the face statement lines from the
+ * same account balances, so every note total agrees with the line it
+ * supports. Note numbers are fixed by the order of NOTE_DEFINITIONS and are
+ * carried on the face statement lines as their note reference.
+ */
+
+import { db } from '../../db';
+import {
+  chartOfAccounts,
+  journalEntries,
+  journalEntryLines,
+  parties,
+  invoices,
+  bills,
+} from '../../../../shared/schema';
+import { eq, and, gte, lte, isNotNull, notInArray, inArray, sql } from 'drizzle-orm';
+import { YEAR_END_SOURCE_TYPE } from '../yearEnd';
+import {
+  getStatementBalances,
+  resolveScheduleIIIMappings,
+  statementAmount,
+  type StatementBalance,
+} from './statementBalances';
+
+export type NoteValue = number | string | null;
+
+export interface NoteRow {
+  label: string;
+  values: NoteValue[];
+  indentLevel: number;
+  isBold: boolean;
+  isTotal: boolean;
+}
+
+export interface StatementNote {
+  number: number;
+  code: string;
+  title: string;
+  // Face statement lines that refer to this note
+  lineItemCodes: string[];
+  columns: string[];
+  rows: NoteRow[];
+  footnotes: string[];
+}
+
+export interface OpenItem {
+  date: string;
+  amount: number;
+}
+
+interface NoteDefinition {
+  code: string;
+  title: string;
+  lineItemCodes: string[];
+}
+
+export const NOTE_DEFINITIONS: NoteDefinition[] = [
+  { code: 'PPE', title: 'Property, Plant and Equipment and Intangible Assets', lineItemCodes: ['BS_ASSET_NCA_PPE', 'BS_ASSET_NCA_INTANGIBLE'] },
+  { code: 'TRADE_RECEIVABLES', title: 'Trade Receivables', lineItemCodes: ['BS_ASSET_CA_RECEIVABLES'] },
+  { code: 'SHARE_CAPITAL', title: 'Share Capital', lineItemCodes: ['BS_EQUITY_SHARE_CAPITAL'] },
+  { code: 'RESERVES', title: 'Reserves and Surplus', lineItemCodes: ['BS_EQUITY_RESERVES'] },
+  { code: 'BORROWINGS', title: 'Borrowings', lineItemCodes: ['BS_LIAB_NCL_BORROWINGS', 'BS_LIAB_CL_BORROWINGS'] },
+  { code: 'TRADE_PAYABLES', title: 'Trade Payables', lineItemCodes: ['BS_LIAB_CL_PAYABLES'] },
+  { code: 'OTHER_EXPENSES', title: 'Other Expenses', lineItemCodes: ['PL_OTHER_EXPENSES'] },
+  { code: 'RELATED_PARTIES', title: 'Related Party Disclosures', lineItemCodes: [] },
+];
+
+const RECEIVABLE_AGES = [6, 12, 24, 36];
+const RECEIVABLE_COLUMNS = ['Less than 6 months', '6 months - 1 year', '1-2 years', '2-3 years', 'More than 3 years', 'Total'];
+const PAYABLE_AGES = [12, 24, 36];
+const PAYABLE_COLUMNS = ['Less than 1 year', '1-2 years', '2-3 years', 'More than 3 years', 'Total'];
+const MOVEMENT_COLUMNS = ['Opening balance', 'Additions', 'Deductions', 'Closing balance'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Number of the note behind a face statement line
+ */
+export function noteNumberFor(lineItemCode: string): number | undefined {
+  const index = NOTE_DEFINITIONS.findIndex(note => note.lineItemCodes.includes(lineItemCode));
+  return index === -1 ? undefined : index + 1;
+}
+
+function createNote(code: string, columns: string[], rows: NoteRow[], footnotes: string[] = []): StatementNote {
+  const index = NOTE_DEFINITIONS.findIndex(note => note.code === code);
+  const definition = NOTE_DEFINITIONS[index];
+  return {
+    number: index + 1,
+    code,
+    title: definition.title,
+    lineItemCodes: definition.lineItemCodes,
+    columns,
+    rows,
+    footnotes,
+  };
+}
+
+function noteRow(label: string, values: NoteValue[], options: Partial<Omit<NoteRow, 'label' | 'values'>> = {}): NoteRow {
+  return {
+    label,
+    values,
+    indentLevel: options.indentLevel ?? 0,
+    isBold: options.isBold ?? false,
+    isTotal: options.isTotal ?? false,
+  };
+}
+
+/**
+ * The same day the given number of months earlier, kept within the month
+ */
+export function monthsBefore(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 - months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  return `${target.getUTCFullYear()}-${String(target.getUTCMonth() + 1).padStart(2, '0')}-${String(Math.min(day, lastDay)).padStart(2, '0')}`;
+}
+
+/**
+ * Index of the ageing column for an item dated `date`; the limits are ages
+ * in months, and items older than the last limit fall in the final column
+ */
+export function ageingBucket(date: string, asOfDate: string, limits: number[]): number {
+  const index = limits.findIndex(months => date > monthsBefore(asOfDate, months));
+  return index === -1 ? limits.length : index;
+}
+
+/**
+ * Items still open after settling each decrease against the oldest
+ * increases first. Movements must be in date order; positive amounts open
+ * items and negative amounts settle them. Settlements beyond the open items
+ * are returned as a negative unapplied amount (advances) and are used up by
+ * later items.
+ */
+export function openItems(movements: OpenItem[]): { open: OpenItem[]; unapplied: number } {
+  const open: OpenItem[] = [];
+  let unapplied = 0;
+
+  for (const movement of movements) {
+    if (movement.amount > 0) {
+      const fromAdvance = Math.min(movement.amount, -unapplied);
+      unapplied += fromAdvance;
+      const remaining = movement.amount - fromAdvance;
+      if (remaining >= 0.005) {
+        open.push({ date: movement.date, amount: remaining });
+      }
+    } else {
+      let toSettle = -movement.amount;
+      while (toSettle >= 0.005 && open.length > 0) {
+        const oldest = open[0];
+        const used = Math.min(oldest.amount, toSettle);
+        oldest.amount -= used;
+        toSettle -= used;
+        if (oldest.amount < 0.005) open.shift();
+      }
+      if (toSettle >= 0.005) unapplied -= toSettle;
+    }
+  }
+
+  return {
+    open: open.map(item => ({ date: item.date, amount: round(item.amount) })),
+    unapplied: round(unapplied),
+  };
+}
+
+/**
+ * Open items spread over the ageing columns, with the total last
+ */
+export function ageItems(items: OpenItem[], asOfDate: string, limits: number[]): number[] {
+  const buckets = new Array(limits.length + 2).fill(0);
+  for (const item of items) {
+    buckets[ageingBucket(item.date, asOfDate, limits)] += item.amount;
+    buckets[limits.length + 1] += item.amount;
+  }
+  return buckets.map(round);
+}
+
+/**
+ * Per account opening, additions, deductions and closing balance, where the
+ * movement excludes carried-in opening entries
+ */
+export function accountMovements(closing: StatementBalance[], movement: StatementBalance[]) {
+  const movementById = new Map(movement.map(b => [b.accountId, b]));
+
+  return closing.map(balance => {
+    const moved = movementById.get(balance.accountId);
+    const debit = moved ? parseFloat(moved.debit) : 0;
+    const credit = moved ? parseFloat(moved.credit) : 0;
+    const increasesOnDebit = balance.accountType === 'asset' || balance.accountType === 'expense';
+    const additions = increasesOnDebit ? debit : credit;
+    const deductions = increasesOnDebit ? credit : debit;
+    const closingAmount = statementAmount(balance);
+
+    return {
+      balance,
+      opening: round(closingAmount - additions + deductions),
+      additions: round(additions),
+      deductions: round(deductions),
+      closing: round(closingAmount),
+    };
+  });
+}
+
+const isZero = (values: NoteValue[]) => values.every(value => typeof value !== 'number' || Math.abs(value) < 0.005);
+
+function sumColumns(rows: NoteValue[][], width: number): number[] {
+  const totals = new Array(width).fill(0);
+  for (const values of rows) {
+    values.forEach((value, i) => {
+      if (typeof value === 'number') totals[i] += value;
+    });
+  }
+  return totals.map(round);
+}
+
+/**
+ * One row per account on the given lines, with its previous year amount
+ * when there is a comparative
+ */
+function accountRows(
+  lineItemCodes: string[],
+  current: StatementBalance[],
+  previous: StatementBalance[] | null,
+  indentLevel = 0
+): NoteRow[] {
+  const previousById = new Map((previous || []).map(b => [b.accountId, statementAmount(b)]));
+
+  return current
+    .filter(b => b.scheduleIIIMapping && lineItemCodes.includes(b.scheduleIIIMapping))
+    .sort((a, b) => a.accountCode.localeCompare(b.accountCode))
+    .map(b => {
+      const values: NoteValue[] = [round(statementAmount(b))];
+      if (previous) values.push(round(previousById.get(b.accountId) || 0));
+      return noteRow(b.accountName, values, { indentLevel });
+    })
+    .filter(row => !isZero(row.values));
+}
+
+function totalRow(label: string, rows: NoteRow[], width: number, indentLevel = 0): NoteRow {
+  return noteRow(label, sumColumns(rows.map(row => row.values), width), { indentLevel, isBold: true, isTotal: true });
+}
+
+function movementRows(lineItemCodes: string[], closing: StatementBalance[], movement: StatementBalance[], indentLevel = 0): NoteRow[] {
+  return accountMovements(
+    closing.filter(b => b.scheduleIIIMapping && lineItemCodes.includes(b.scheduleIIIMapping)),
+    movement
+  )
+    .sort((a, b) => a.balance.accountCode.localeCompare(b.balance.accountCode))
+    .map(m => noteRow(m.balance.accountName, [m.opening, m.additions, m.deductions, m.closing], { indentLevel }))
+    .filter(row => !isZero(row.values));
+}
+
+const netProfitOf = (balances: StatementBalance[]) =>
+  balances.reduce((sum, b) => {
+    if (b.accountType === 'income') return sum + statementAmount(b);
+    if (b.accountType === 'expense') return sum - statementAmount(b);
+    return sum;
+  }, 0);
+
+export interface BalanceSheetNoteInput {
+  // Start of the fiscal year; movements are shown from here
+  fromDate: string;
+  asOfDate: string;
+  balances: StatementBalance[];
+  previousBalances: StatementBalance[] | null;
+  previousAsOf?: string;
+}
+
+export interface ProfitAndLossNoteInput {
+  fromDate: string;
+  toDate: string;
+  balances: StatementBalance[];
+  previousBalances: StatementBalance[] | null;
+  previousFromDate?: string;
+  previousToDate?: string;
+}
+
+/**
+ * Party ledger lines on the accounts of a Schedule III line, in date order
+ */
+async function partyMovements(companyId: string, lineItemCode: string, asOfDate: string) {
+  const accounts = await db.query.chartOfAccounts.findMany({
+    where: eq(chartOfAccounts.companyId, companyId),
+  });
+  const mappings = resolveScheduleIIIMappings(accounts);
+  const accountIds = accounts.filter(a => mappings.get(a.id) === lineItemCode).map(a => a.id);
+  if (accountIds.length === 0) return [];
+
+  return db
+    .select({
+      partyId: journalEntryLines.partyId,
+      entryDate: journalEntries.entryDate,
+      debit: sql<string>`COALESCE(${journalEntryLines.debitAmount}, 0)`,
+      credit: sql<string>`COALESCE(${journalEntryLines.creditAmount}, 0)`,
+    })
+    .from(journalEntryLines)
+    .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+    .where(and(
+      eq(journalEntries.companyId, companyId),
+      eq(journalEntries.status, 'posted'),
+      lte(journalEntries.entryDate, asOfDate),
+      sql`${journalEntries.sourceType} IS DISTINCT FROM ${YEAR_END_SOURCE_TYPE}`,
+      inArray(journalEntryLines.accountId, accountIds)
+    ))
+    .orderBy(journalEntries.entryDate, journalEntries.createdAt);
+}
+
+/**
+ * Open items per party on a line, aged; balances without a party and
+ * unapplied advances are returned as one unallocated amount
+ */
+async function agedPartyBalances(
+  companyId: string,
+  lineItemCode: string,
+  asOfDate: string,
+  increasesOnDebit: boolean,
+  limits: number[]
+) {
+  const lines = await partyMovements(companyId, lineItemCode, asOfDate);
+  const byParty = new Map<string, OpenItem[]>();
+  let unallocated = 0;
+
+  for (const line of lines) {
+    const net = parseFloat(line.debit) - parseFloat(line.credit);
+    const amount = increasesOnDebit ? net : -net;
+    if (!line.partyId) {
+      unallocated += amount;
+      continue;
+    }
+    const movements = byParty.get(line.partyId) || [];
+    movements.push({ date: line.entryDate, amount });
+    byParty.set(line.partyId, movements);
+  }
+
+  const aged = new Map<string, number[]>();
+  for (const [partyId, movements] of byParty) {
+    const { open, unapplied } = openItems(movements);
+    aged.set(partyId, ageItems(open, asOfDate, limits));
+    unallocated += unapplied;
+  }
+
+  return { aged, unallocated: round(unallocated) };
+}
+
+async function tradeReceivablesNote(companyId: string, input: BalanceSheetNoteInput): Promise<StatementNote> {
+  const { aged, unallocated } = await agedPartyBalances(
+    companyId, 'BS_ASSET_CA_RECEIVABLES', input.asOfDate, true, RECEIVABLE_AGES
+  );
+  const width = RECEIVABLE_COLUMNS.length;
+  const considered = sumColumns([...aged.values()], width);
+
+  const rows = [
+    noteRow('Undisputed trade receivables - considered good', considered),
+  ];
+  if (Math.abs(unallocated) >= 0.005) {
+    rows.push(noteRow('Unadjusted receipts and balances without a party', [...new Array(width - 1).fill(null), unallocated]));
+  }
+  rows.push(totalRow('Total', rows, width));
+
+  return createNote('TRADE_RECEIVABLES', RECEIVABLE_COLUMNS, rows, [
+    `Ageing as at ${input.asOfDate}, from the date of the transaction. Receipts are set off against the oldest outstanding amounts of the customer first.`,
+  ]);
+}
+
+async function tradePayablesNote(companyId: string, input: BalanceSheetNoteInput): Promise<StatementNote> {
+  const { aged, unallocated } = await agedPartyBalances(
+    companyId, 'BS_LIAB_CL_PAYABLES', input.asOfDate, false, PAYABLE_AGES
+  );
+  const width = PAYABLE_COLUMNS.length;
+
+  const partyIds = [...aged.keys()];
+  const msmeIds = new Set(partyIds.length === 0 ? [] : (await db
+    .select({ id: parties.id })
+    .from(parties)
+    .where(and(
+      eq(parties.companyId, companyId),
+      inArray(parties.id, partyIds),
+      isNotNull(parties.udyamNumber)
+    ))).map(p => p.id));
+
+  const msme = sumColumns([...aged].filter(([id]) => msmeIds.has(id)).map(([, values]) => values), width);
+  const others = sumColumns([...aged].filter(([id]) => !msmeIds.has(id)).map(([, values]) => values), width);
+
+  const rows = [
+    noteRow('(i) MSME', msme),
+    noteRow('(ii) Others', others),
+  ];
+  if (Math.abs(unallocated) >= 0.005) {
+    rows.push(noteRow('Unadjusted payments and balances without a party', [...new Array(width - 1).fill(null), unallocated]));
+  }
+  rows.push(totalRow('Total', rows, width));
+
+  return createNote('TRADE_PAYABLES', PAYABLE_COLUMNS, rows, [
+    `Ageing as at ${input.asOfDate}, from the date of the transaction. Payments are set off against the oldest outstanding amounts of the vendor first.`,
+    'Dues to micro and small enterprises are identified from the Udyam registration number recorded on the vendor.',
+  ]);
+}
+
+async function relatedPartiesNote(companyId: string, input: BalanceSheetNoteInput): Promise<StatementNote> {
+  const related = await db.query.parties.findMany({
+    where: and(
+      eq(parties.companyId, companyId),
+      isNotNull(parties.relatedPartyRelationship)
+    ),
+    orderBy: parties.name,
+  });
+  const columns = ['Relationship', 'Sales', 'Purchases', 'Balance receivable/(payable)'];
+  if (related.length === 0) {
+    return createNote('RELATED_PARTIES', columns, [], ['No related parties are recorded.']);
+  }
+
+  const ids = related.map(p => p.id);
+  const sales = await db
+    .select({ partyId: invoices.customerId, total: sql<string>`COALESCE(SUM(${invoices.totalAmount}), 0)` })
+    .from(invoices)
+    .where(and(
+      eq(invoices.companyId, companyId),
+      inArray(invoices.customerId, ids),
+      notInArray(invoices.status, ['draft', 'cancelled', 'void']),
+      gte(invoices.invoiceDate, input.fromDate),
+      lte(invoices.invoiceDate, input.asOfDate)
+    ))
+    .groupBy(invoices.customerId);
+  const purchases = await db
+    .select({ partyId: bills.vendorId, total: sql<string>`COALESCE(SUM(${bills.totalAmount}), 0)` })
+    .from(bills)
+    .where(and(
+      eq(bills.companyId, companyId),
+      inArray(bills.vendorId, ids),
+      notInArray(bills.status, ['draft', 'cancelled']),
+      gte(bills.billDate, input.fromDate),
+      lte(bills.billDate, input.asOfDate)
+    ))
+    .groupBy(bills.vendorId);
+
+  const receivable = await partyMovements(companyId, 'BS_ASSET_CA_RECEIVABLES', input.asOfDate);
+  const payable = await partyMovements(companyId, 'BS_LIAB_CL_PAYABLES', input.asOfDate);
+  const outstanding = new Map<string, number>();
+  for (const line of [...receivable, ...payable]) {
+    if (!line.partyId) continue;
+    outstanding.set(line.partyId, (outstanding.get(line.partyId) || 0) + parseFloat(line.debit) - parseFloat(line.credit));
+  }
+
+  const salesByParty = new Map(sales.map(s => [s.partyId, parseFloat(s.total)]));
+  const purchasesByParty = new Map(purchases.map(p => [p.partyId, parseFloat(p.total)]));
+
+  const rows = related.map(party => noteRow(party.name, [
+    party.relatedPartyRelationship,
+    round(salesByParty.get(party.id) || 0),
+    round(purchasesByParty.get(party.id) || 0),
+    round(outstanding.get(party.id) || 0),
+  ]));
+
+  return createNote('RELATED_PARTIES', columns, rows, [
+    `Transactions from ${input.fromDate} to ${input.asOfDate}. Relationships are as recorded on each party.`,
+  ]);
+}
+
+/**
+ * Notes behind the balance sheet lines, with the related party disclosure
+ */
+export async function buildBalanceSheetNotes(companyId: string, input: BalanceSheetNoteInput): Promise<StatementNote[]> {
+  const { balances, previousBalances } = input;
+  const movement = await getStatementBalances(companyId, {
+    from: input.fromDate,
+    to: input.asOfDate,
+    openingEntries: 'exclude',
+  });
+
+  const comparativeColumns = [`As at ${input.asOfDate}`];
+  if (previousBalances && input.previousAsOf) comparativeColumns.push(`As at ${input.previousAsOf}`);
+  const width = comparativeColumns.length;
+  const previous = previousBalances && input.previousAsOf ? previousBalances : null;
+
+  // Property, plant and equipment and intangible assets
+  const tangible = movementRows(['BS_ASSET_NCA_PPE'], balances, movement, 1);
+  const intangible = movementRows(['BS_ASSET_NCA_INTANGIBLE'], balances, movement, 1);
+  const ppeRows = [
+    noteRow('Property, plant and equipment', [null, null, null, null], { isBold: true }),
+    ...tangible,
+    totalRow('Total property, plant and equipment', tangible, MOVEMENT_COLUMNS.length),
+    noteRow('Intangible assets', [null, null, null, null], { isBold: true }),
+    ...intangible,
+    totalRow('Total intangible assets', intangible, MOVEMENT_COLUMNS.length),
+  ];
+  const ppe = createNote('PPE', MOVEMENT_COLUMNS, ppeRows, [
+    `Movement from ${input.fromDate} to ${input.asOfDate}. Deductions include disposals and depreciation or amortisation credited to the asset accounts.`,
+  ]);
+
+  // Share capital
+  const capital = accountRows(['BS_EQUITY_SHARE_CAPITAL'], balances, previous);
+  const shareCapital = createNote('SHARE_CAPITAL', comparativeColumns, [
+    ...capital,
+    totalRow('Total', capital, width),
+  ]);
+
+  // Reserves and surplus, with profits not yet transferred shown as surplus
+  const reserveRows = movementRows(['BS_EQUITY_RESERVES'], balances, movement);
+  const profitToDate = netProfitOf(balances);
+  const profitForPeriod = netProfitOf(movement);
+  const surplus = noteRow('Surplus in Statement of Profit and Loss', [
+    round(profitToDate - profitForPeriod),
+    round(Math.max(profitForPeriod, 0)),
+    round(Math.max(-profitForPeriod, 0)),
+    round(profitToDate),
+  ]);
+  const reserves = createNote('RESERVES', MOVEMENT_COLUMNS, [
+    ...reserveRows,
+    surplus,
+    totalRow('Total', [...reserveRows, surplus], MOVEMENT_COLUMNS.length),
+  ], [
+    'Profit or loss for the period is added to the surplus until it is transferred at year-end close.',
+  ]);
+
+  // Borrowings
+  const longTerm = accountRows(['BS_LIAB_NCL_BORROWINGS'], balances, previous, 1);
+  const shortTerm = accountRows(['BS_LIAB_CL_BORROWINGS'], balances, previous, 1);
+  const heading = new Array(width).fill(null);
+  const borrowings = createNote('BORROWINGS', comparativeColumns, [
+    noteRow('Long-term borrowings', heading, { isBold: true }),
+    ...longTerm,
+    totalRow('Total long-term borrowings', longTerm, width),
+    noteRow('Short-term borrowings', heading, { isBold: true }),
+    ...shortTerm,
+    totalRow('Total short-term borrowings', shortTerm, width),
+  ]);
+
+  return [
+    ppe,
+    await tradeReceivablesNote(companyId, input),
+    shareCapital,
+    reserves,
+    borrowings,
+    await tradePayablesNote(companyId, input),
+    await relatedPartiesNote(companyId, input),
+  ];
+}
+
+/**
+ * Notes behind the profit and loss lines
+ */
+export function buildProfitAndLossNotes(input: ProfitAndLossNoteInput): StatementNote[] {
+  const columns = [`${input.fromDate} to ${input.toDate}`];
+  const previous = input.previousBalances && input.previousFromDate && input.previousToDate
+    ? input.previousBalances
+    : null;
+  if (previous) columns.push(`${input.previousFromDate} to ${input.previousToDate}`);
+
+  const expenses = accountRows(['PL_OTHER_EXPENSES'], input.balances, previous);
+  return [
+    createNote('OTHER_EXPENSES', columns, [
+      ...expenses,
+      totalRow('Total', expenses, columns.length),
+    ]),
+  ];
+}
@@ -0,0 +1,115 @@
+/**
+ * Statement Balances
+ *
+ * Ledger account balances as the financial statements read them: posted
+ * totals for a date range, each account placed on the Schedule III line of
+ * its own mapping or of the nearest group above it.
+ */
+
+import { db } from '../../db';
+import { chartOfAccounts, type ChartOfAccount } from '../../../../shared/schema';
+import { eq } from 'drizzle-orm';
+import { getAccountBalances, type PeriodBalanceQuery } from '../ledger';
+
+export interface StatementBalance {
+  accountId: string;
+  accountCode: string;
+  accountName: string;
+  accountType: ChartOfAccount['accountType'];
+  scheduleIIIMapping: string | null;
+  debit: string;
+  credit: string;
+}
+
+export interface StatementBalanceOptions {
+  accountTypes?: ChartOfAccount['accountType'][];
+  // Add the opening balance keyed into each account
+  includeAccountOpening?: boolean;
+}
+
+/**
+ * Schedule III line of each account, inherited from the nearest mapped
+ * group when the account has none of its own
+ */
+export function resolveScheduleIIIMappings(
+  accounts: Pick<ChartOfAccount, 'id' | 'parentAccountId' | 'scheduleIIIMapping'>[]
+): Map<string, string | null> {
+  const byId = new Map(accounts.map(account => [account.id, account]));
+  const resolved = new Map<string, string | null>();
+
+  const resolve = (id: string, seen: Set<string>): string | null => {
+    if (resolved.has(id)) return resolved.get(id)!;
+    const account = byId.get(id);
+    if (!account || seen.has(id)) return null;
+    seen.add(id);
+
+    const mapping = account.scheduleIIIMapping ||
+      (account.parentAccountId ? resolve(account.parentAccountId, seen) : null);
+    resolved.set(id, mapping);
+    return mapping;
+  };
+
+  for (const account of accounts) {
+    resolve(account.id, new Set());
+  }
+  return resolved;
+}
+
+/**
+ * Active ledger accounts with their posted totals for a date range.
+ * Statements run on dates across years, so year-end closing and
+ * carry-forward entries are left out as they would only double count.
+ */
+export async function getStatementBalances(
+  companyId: string,
+  query: Omit<PeriodBalanceQuery, 'includeYearEnd'>,
+  options: StatementBalanceOptions = {}
+): Promise<StatementBalance[]> {
+  const accounts = await db.query.chartOfAccounts.findMany({
+    where: eq(chartOfAccounts.companyId, companyId),
+  });
+  const mappings = resolveScheduleIIIMappings(accounts);
+  const balances = await getAccountBalances(companyId, { ...query, includeYearEnd: false });
+
+  return accounts
+    .filter(account =>
+      account.isActive &&
+      !account.isGroup &&
+      (!options.accountTypes || options.accountTypes.includes(account.accountType))
+    )
+    .map(account => {
+      const balance = balances.get(account.id) || { debit: 0, credit: 0 };
+      let { debit, credit } = balance;
+
+      // Balances keyed into the account itself when the books were taken over
+      if (options.includeAccountOpening && account.openingBalance) {
+        if (account.openingBalanceType === 'debit') {
+          debit += parseFloat(account.openingBalance);
+        } else if (account.openingBalanceType === 'credit') {
+          credit += parseFloat(account.openingBalance);
+        }
+      }
+
+      return {
+        accountId: account.id,
+        accountCode: account.code,
+        accountName: account.name,
+        accountType: account.accountType,
+        scheduleIIIMapping: mappings.get(account.id) ?? null,
+        debit: debit.toFixed(2),
+        credit: credit.toFixed(2),
+      };
+    });
+}
+
+export const hasActivity = (balances: StatementBalance[]) =>
+  balances.some(b => parseFloat(b.debit) !== 0 || parseFloat(b.credit) !== 0);
+
+/**
+ * Balance on the side the statements show it: debit balances for assets and
+ * expenses, credit balances for liabilities, equity and income
+ */
+export function statementAmount(balance: Pick<StatementBalance, 'accountType' | 'debit' | 'credit'>): number {
+  const net = parseFloat(balance.debit) - parseFloat(balance.credit);
+  return balance.accountType === 'asset' || balance.accountType === 'expense' ? net : -net;
+}
@@ -0,0 +1,7 @@
+/**
+ * Year-End Service
+ *
+ * Main export for closing and reopening fiscal years
+ */
+
+export * from './yearEndClose';
@@ -0,0 +1,469 @@
+/**
+ * Year-End Close Service
+ *
+ * Closes a fiscal year: income and expense balances are transferred to
+ * retained earnings by a closing entry on the last day of the year, and
+ * balance sheet balances are carried into the next year by an opening
+ * entry on its first day. Both entries are tagged with the closed year so
+ * reopening can remove them again.
+ */
+
+import { db, type DbClient } from '../../db';
+import {
+  fiscalYears, journalEntries, journalEntryLines, chartOfAccounts, bankFeedTransactions,
+  type FiscalYear,
+} from '../../../../shared/schema';
+import { eq, ne, and, inArray, gte, lte, sql } from 'drizzle-orm';
+import { allocateDocumentNumber, releaseDocumentNumber } from '../numbering';
+import { refreshPeriodBalances } from '../ledger';
+
+// Source type of the closing and opening entries; sourceId is the closed year
+export const YEAR_END_SOURCE_TYPE = 'year_end_close';
+
+// Accounts that receive the year's profit, in order of preference
+const RETAINED_EARNINGS_ACCOUNT_NAMES = [
+  'Retained Earnings',
+  'Unappropriated Retained Earnings',
+  'Profit & Loss Account',
+];
+
+export interface AccountBalance {
+  accountId: string;
+  accountType: string;
+  debit: number;
+  credit: number;
+}
+
+export interface YearEndLine {
+  accountId: string;
+  debitAmount: string;
+  creditAmount: string;
+  description: string;
+}
+
+export interface PreCloseCheck {
+  key: 'draft_entries' | 'bank_lines' | 'trial_balance' | 'retained_earnings' | 'next_year' | 'opening_entries';
+  label: string;
+  passed: boolean;
+  // Blocking checks must pass; the others are warnings the user acknowledges
+  blocking: boolean;
+  detail: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function entryLine(accountId: string, amount: number, description: string): YearEndLine {
+  return {
+    accountId,
+    debitAmount: amount > 0 ? amount.toFixed(2) : '0',
+    creditAmount: amount < 0 ? (-amount).toFixed(2) : '0',
+    description,
+  };
+}
+
+/**
+ * Lines that clear every income and expense balance, with the net profit
+ * credited (or loss debited) to retained earnings
+ */
+export function buildClosingLines(balances: AccountBalance[], retainedEarningsAccountId: string) {
+  const lines: YearEndLine[] = [];
+  let netProfit = 0;
+
+  for (const balance of balances) {
+    if (balance.accountType !== 'income' && balance.accountType !== 'expense') continue;
+    const net = round(balance.debit - balance.credit);
+    if (net === 0) continue;
+    netProfit += net;
+    lines.push(entryLine(balance.accountId, -net, 'Transfer to retained earnings'));
+  }
+
+  netProfit = round(-netProfit);
+  if (netProfit !== 0) {
+    lines.push(entryLine(retainedEarningsAccountId, -netProfit, 'Profit for the year'));
+  }
+
+  return { lines, netProfit };
+}
+
+/**
+ * Lines that bring forward every asset, liability and equity balance, with
+ * the year's profit already moved into retained earnings
+ */
+export function buildOpeningLines(
+  balances: AccountBalance[],
+  retainedEarningsAccountId: string,
+  netProfit: number
+): YearEndLine[] {
+  const carried = new Map<string, number>();
+
+  for (const balance of balances) {
+    if (balance.accountType === 'income' || balance.accountType === 'expense') continue;
+    carried.set(balance.accountId, round(balance.debit - balance.credit));
+  }
+  carried.set(retainedEarningsAccountId, round((carried.get(retainedEarningsAccountId) || 0) - netProfit));
+
+  return [...carried.entries()]
+    .filter(([, net]) => net !== 0)
+    .map(([accountId, net]) => entryLine(accountId, net, 'Balance brought forward'));
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split('T')[0];
+}
+
+/**
+ * Dates and name of the year that follows a fiscal year
+ */
+export function nextFiscalYearPeriod(fiscalYear: Pick<FiscalYear, 'endDate'>) {
+  const startDate = addDays(fiscalYear.endDate, 1);
+  const end = new Date(`${startDate}T00:00:00Z`);
+  end.setUTCFullYear(end.getUTCFullYear() + 1);
+  const endDate = addDays(end.toISOString().split('T')[0], -1);
+
+  const startYear = parseInt(startDate.slice(0, 4), 10);
+  const endYear = parseInt(endDate.slice(0, 4), 10);
+  const name = startYear === endYear
+    ? `FY ${startYear}`
+    : `FY ${startYear}-${(endYear % 100).toString().padStart(2, '0')}`;
+
+  return { name, startDate, endDate };
+}
+
+async function getFiscalYearBalances(client: DbClient, companyId: string, fiscalYearId: string): Promise<AccountBalance[]> {
+  const rows = await client
+    .select({
+      accountId: journalEntryLines.accountId,
+      accountType: chartOfAccounts.accountType,
+      debit: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}), 0)`,
+      credit: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount}), 0)`,
+    })
+    .from(journalEntryLines)
+    .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+    .innerJoin(chartOfAccounts, eq(journalEntryLines.accountId, chartOfAccounts.id))
+    .where(and(
+      eq(journalEntries.companyId, companyId),
+      eq(journalEntries.fiscalYearId, fiscalYearId),
+      eq(journalEntries.status, 'posted')
+    ))
+    .groupBy(journalEntryLines.accountId, chartOfAccounts.accountType);
+
+  return rows.map(row => ({
+    accountId: row.accountId,
+    accountType: row.accountType,
+    debit: parseFloat(row.debit),
+    credit: parseFloat(row.credit),
+  }));
+}
+
+async function findRetainedEarningsAccount(client: DbClient, companyId: string) {
+  const candidates = await client.select()
+    .from(chartOfAccounts)
+    .where(and(
+      eq(chartOfAccounts.companyId, companyId),
+      eq(chartOfAccounts.accountType, 'equity'),
+      eq(chartOfAccounts.isGroup, false),
+      eq(chartOfAccounts.isActive, true),
+      inArray(chartOfAccounts.name, RETAINED_EARNINGS_ACCOUNT_NAMES)
+    ));
+
+  for (const name of RETAINED_EARNINGS_ACCOUNT_NAMES) {
+    const account = candidates.find(candidate => candidate.name === name);
+    if (account) return account;
+  }
+  return null;
+}
+
+/**
+ * The year that starts the day after a fiscal year ends
+ */
+export async function findNextFiscalYear(client: DbClient, companyId: string, fiscalYear: FiscalYear) {
+  const [next] = await client.select()
+    .from(fiscalYears)
+    .where(and(
+      eq(fiscalYears.companyId, companyId),
+      eq(fiscalYears.startDate, addDays(fiscalYear.endDate, 1))
+    ));
+  return next || null;
+}
+
+/**
+ * Opening entries already in a year, e.g. balances keyed in by hand. Carrying
+ * balances forward on top of them would count those balances twice.
+ */
+async function findOpeningEntries(client: DbClient, companyId: string, fiscalYearId: string) {
+  return client.select({ id: journalEntries.id, entryNumber: journalEntries.entryNumber })
+    .from(journalEntries)
+    .where(and(
+      eq(journalEntries.companyId, companyId),
+      eq(journalEntries.fiscalYearId, fiscalYearId),
+      eq(journalEntries.entryType, 'opening'),
+      ne(journalEntries.status, 'reversed')
+    ));
+}
+
+async function postYearEndEntry(
+  client: DbClient,
+  companyId: string,
+  fiscalYear: FiscalYear,
+  entry: { entryType: 'closing' | 'opening'; date: string; narration: string; sourceId: string },
+  lines: YearEndLine[],
+  userId: string
+) {
+  if (lines.length === 0) return null;
+
+  const total = round(lines.reduce((sum, line) => sum + parseFloat(line.debitAmount), 0)).toFixed(2);
+  const [je] = await client.insert(journalEntries).values({
+    companyId,
+    fiscalYearId: fiscalYear.id,
+    entryNumber: await allocateDocumentNumber(client, companyId, 'journal_entry', fiscalYear, {
+      type: entry.entryType === 'closing' ? 'CLS' : 'OPN',
+    }),
+    entryDate: entry.date,
+    entryType: entry.entryType,
+    narration: entry.narration,
+    totalDebit: total,
+    totalCredit: total,
+    sourceType: YEAR_END_SOURCE_TYPE,
+    sourceId: entry.sourceId,
+    status: 'posted',
+    createdByUserId: userId,
+  }).returning();
+
+  await client.insert(journalEntryLines).values(lines.map(line => ({ journalEntryId: je.id, ...line })));
+  await refreshPeriodBalances(client, companyId, [je]);
+  return je;
+}
+
+/**
+ * Checks run before a year can be closed
+ */
+export async function getPreCloseChecks(companyId: string, fiscalYear: FiscalYear) {
+  const [drafts] = await db.select({ count: sql<number>`count(*)::int` })
+    .from(journalEntries)
+    .where(and(
+      eq(journalEntries.companyId, companyId),
+      eq(journalEntries.fiscalYearId, fiscalYear.id),
+      inArray(journalEntries.status, ['draft', 'pending_approval'])
+    ));
+
+  const [bankLines] = await db.select({ count: sql<number>`count(*)::int` })
+    .from(bankFeedTransactions)
+    .where(and(
+      eq(bankFeedTransactions.companyId, companyId),
+      eq(bankFeedTransactions.reconciliationStatus, 'pending'),
+      gte(bankFeedTransactions.transactionDate, fiscalYear.startDate),
+      lte(bankFeedTransactions.transactionDate, fiscalYear.endDate)
+    ));
+
+  const balances = await getFiscalYearBalances(db, companyId, fiscalYear.id);
+  const totalDebit = round(balances.reduce((sum, balance) => sum + balance.debit, 0));
+  const totalCredit = round(balances.reduce((sum, balance) => sum + balance.credit, 0));
+  const difference = round(totalDebit - totalCredit);
+
+  const retainedEarnings = await findRetainedEarningsAccount(db, companyId);
+  const nextYear = await findNextFiscalYear(db, companyId, fiscalYear);
+  const openingEntries = nextYear ? await findOpeningEntries(db, companyId, nextYear.id) : [];
+
+  const checks: PreCloseCheck[] = [
+    {
+      key: 'draft_entries',
+      label: 'All journal entries posted',
+      passed: drafts.count === 0,
+      blocking: true,
+      detail: drafts.count === 0
+        ? 'No draft or pending journal entries'
+        : `${drafts.count} draft or pending journal entries in the year`,
+    },
+    {
+      key: 'bank_lines',
+      label: 'Bank lines reconciled',
+      passed: bankLines.count === 0,
+      blocking: false,
+      detail: bankLines.count === 0
+        ? 'All bank feed lines are reconciled'
+        : `${bankLines.count} bank feed lines are not reconciled`,
+    },
+    {
+      key: 'trial_balance',
+      label: 'Trial balance agrees',
+      passed: difference === 0,
+      blocking: true,
+      detail: difference === 0
+        ? `Debits and credits total ${totalDebit.toFixed(2)}`
+        : `Debits exceed credits by ${difference.toFixed(2)}`,
+    },
+    {
+      key: 'retained_earnings',
+      label: 'Retained earnings account',
+      passed: !!retainedEarnings,
+      blocking: true,
+      detail: retainedEarnings
+        ? `Profit is transferred to ${retainedEarnings.code} ${retainedEarnings.name}`
+        : 'Add a Retained Earnings or Profit & Loss Account equity ledger',
+    },
+    {
+      key: 'next_year',
+      label: 'Next year open',
+      passed: !nextYear?.isLocked,
+      blocking: true,
+      detail: !nextYear
+        ? `${nextFiscalYearPeriod(fiscalYear).name} will be created`
+        : nextYear.isLocked ? `${nextYear.name} is locked` : `Balances carry forward to ${nextYear.name}`,
+    },
+    {
+      key: 'opening_entries',
+      label: 'No opening entries in next year',
+      passed: openingEntries.length === 0,
+      blocking: true,
+      detail: openingEntries.length === 0
+        ? 'Opening balances will be posted by the close'
+        : `Delete or reverse opening entries ${openingEntries.map(entry => entry.entryNumber).join(', ')} in ${nextYear!.name} first`,
+    },
+  ];
+
+  return {
+    checks,
+    canClose: checks.every(check => check.passed || !check.blocking),
+    hasWarnings: checks.some(check => !check.passed && !check.blocking),
+  };
+}
+
+/**
+ * Posts the closing and opening entries, creates the next year if needed
+ * and locks the closed year
+ */
+export async function closeFiscalYear(companyId: string, fiscalYear: FiscalYear, userId: string) {
+  return db.transaction(async (tx) => {
+    const retainedEarnings = await findRetainedEarningsAccount(tx, companyId);
+    if (!retainedEarnings) throw new Error('Retained earnings account not found');
+
+    let nextYear = await findNextFiscalYear(tx, companyId, fiscalYear);
+    if (nextYear) {
+      const existing = await findOpeningEntries(tx, companyId, nextYear.id);
+      if (existing.length > 0) {
+        return { error: `${nextYear.name} already has opening entries: ${existing.map(entry => entry.entryNumber).join(', ')}` };
+      }
+    } else {
+      [nextYear] = await tx.insert(fiscalYears).values({
+        companyId,
+        ...nextFiscalYearPeriod(fiscalYear),
+        isCurrent: false,
+      }).returning();
+    }
+
+    const balances = await getFiscalYearBalances(tx, companyId, fiscalYear.id);
+    const closing = buildClosingLines(balances, retainedEarnings.id);
+
+    const closingEntry = await postYearEndEntry(tx, companyId, fiscalYear, {
+      entryType: 'closing',
+      date: fiscalYear.endDate,
+      narration: `Year-end closing entry for ${fiscalYear.name}`,
+      sourceId: fiscalYear.id,
+    }, closing.lines, userId);
+
+    const openingEntry = await postYearEndEntry(tx, companyId, nextYear, {
+      entryType: 'opening',
+      date: nextYear.startDate,
+      narration: `Opening balances brought forward from ${fiscalYear.name}`,
+      sourceId: fiscalYear.id,
+    }, buildOpeningLines(balances, retainedEarnings.id, closing.netProfit), userId);
+
+    if (fiscalYear.isCurrent) {
+      await tx.update(fiscalYears)
+        .set({ isCurrent: false })
+        .where(eq(fiscalYears.companyId, companyId));
+      await tx.update(fiscalYears)
+        .set({ isCurrent: true, updatedAt: new Date() })
+        .where(eq(fiscalYears.id, nextYear.id));
+    }
+
+    const now = new Date();
+    const [closedYear] = await tx.update(fiscalYears)
+      .set({
+        isClosed: true,
+        closedByUserId: userId,
+        closedAt: now,
+        isLocked: true,
+        lockedByUserId: userId,
+        lockedAt: now,
+        isCurrent: false,
+        updatedAt: now,
+      })
+      .where(eq(fiscalYears.id, fiscalYear.id))
+      .returning();
+
+    return {
+      fiscalYear: closedYear,
+      nextFiscalYear: nextYear,
+      netProfit: closing.netProfit,
+      closingEntry,
+      openingEntry,
+    };
+  });
+}
+
+/**
+ * Removes the closing and opening entries of a closed year and unlocks it.
+ * The next year must still be open, since its opening entry is removed too.
+ */
+export async function reopenFiscalYear(companyId: string, fiscalYear: FiscalYear) {
+  return db.transaction(async (tx) => {
+    const [nextYear] = await tx.select()
+      .from(fiscalYears)
+      .where(and(
+        eq(fiscalYears.companyId, companyId),
+        eq(fiscalYears.startDate, addDays(fiscalYear.endDate, 1))
+      ))
+      .for('update');
+    if (nextYear?.isClosed) {
+      return { error: `Reopen ${nextYear.name} first` };
+    }
+    if (nextYear?.isLocked) {
+      return { error: `${nextYear.name} is locked; unlock it before reopening ${fiscalYear.name}` };
+    }
+
+    const entries = await tx.select({
+      id: journalEntries.id,
+      entryNumber: journalEntries.entryNumber,
+      entryType: journalEntries.entryType,
+      entryDate: journalEntries.entryDate,
+      fiscalYearId: journalEntries.fiscalYearId,
+    })
+      .from(journalEntries)
+      .where(and(
+        eq(journalEntries.companyId, companyId),
+        eq(journalEntries.sourceType, YEAR_END_SOURCE_TYPE),
+        eq(journalEntries.sourceId, fiscalYear.id)
+      ));
+
+    const entryIds = entries.map(entry => entry.id);
+    if (entryIds.length > 0) {
+      await tx.delete(journalEntryLines).where(inArray(journalEntryLines.journalEntryId, entryIds));
+      await tx.delete(journalEntries).where(inArray(journalEntries.id, entryIds));
+      await refreshPeriodBalances(tx, companyId, entries);
+    }
+    for (const entry of entries) {
+      await releaseDocumentNumber(tx, companyId, 'journal_entry', entry.fiscalYearId, entry.entryNumber, {
+        type: entry.entryType === 'closing' ? 'CLS' : 'OPN',
+      });
+    }
+
+    const [reopened] = await tx.update(fiscalYears)
+      .set({
+        isClosed: false,
+        closedByUserId: null,
+        closedAt: null,
+        isLocked: false,
+        lockedByUserId: null,
+        lockedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(fiscalYears.id, fiscalYear.id))
+      .returning();
+
+    return { fiscalYear: reopened, removedEntries: entryIds.length };
+  });
+}
+
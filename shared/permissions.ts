@@ -0,0 +1,35 @@
+/**
+ * Company role permissions, shared by the API and the client.
+ *
+ * Every company route belongs to an area; GET requests need `read` access
+ * to the area and everything else needs `write`.
+ */
+
+export type CompanyRole = 'owner' | 'accountant' | 'auditor' | 'viewer';
+
+export type PermissionArea =
+  | 'accounting' // Books, documents, banking, GST/TDS
+  | 'reports'    // Dashboard, statements, aging, analytics
+  | 'audit'      // Audit log
+  | 'settings'   // Company settings, templates, integrations
+  | 'users'      // Company users and invitations
+  | 'periods';   // Fiscal year locking
+
+export type AccessLevel = 'read' | 'write';
+
+export const PERMISSION_MATRIX: Record<PermissionArea, Record<AccessLevel, CompanyRole[]>> = {
+  accounting: { read: ['owner', 'accountant', 'auditor'], write: ['owner', 'accountant'] },
+  reports: { read: ['owner', 'accountant', 'auditor', 'viewer'], write: ['owner', 'accountant'] },
+  audit: { read: ['owner', 'auditor'], write: [] },
+  settings: { read: ['owner', 'accountant', 'auditor'], write: ['owner', 'accountant'] },
+  users: { read: ['owner', 'accountant', 'auditor'], write: ['owner'] },
+  periods: { read: ['owner', 'accountant', 'auditor', 'viewer'], write: ['owner'] },
+};
+
+export function hasPermission(
+  role: string | null | undefined,
+  area: PermissionArea,
+  level: AccessLevel = 'read'
+): boolean {
+  return !!role && (PERMISSION_MATRIX[area][level] as string[]).includes(role);
+}
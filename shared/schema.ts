@@ -11,6 +11,7 @@ import {
   pgEnum,
   index,
   uniqueIndex,
+  unique,
   jsonb,
 } from 'drizzle-orm/pg-core';
 import { createInsertSchema } from 'drizzle-zod';
@@ -29,6 +30,7 @@ export const gaapStandardEnum = pgEnum('gaap_standard', [
   'US_GAAP',
   'IFRS'
 ]);
+export const inventoryValuationMethodEnum = pgEnum('inventory_valuation_method', ['fifo', 'weighted_average']);
 
 // Account Enums
 export const accountTypeEnum = pgEnum('account_type', ['asset', 'liability', 'equity', 'income', 'expense']);
@@ -36,7 +38,7 @@ export const balanceTypeEnum = pgEnum('balance_type', ['debit', 'credit']);
 
 // Journal Entry Enums
 export const journalEntryTypeEnum = pgEnum('journal_entry_type', [
-  'manual', 'auto_invoice', 'auto_payment', 'auto_expense', 'recurring', 'reversal', 'bank_import', 'opening'
+  'manual', 'auto_invoice', 'auto_payment', 'auto_expense', 'auto_inventory', 'recurring', 'reversal', 'bank_import', 'opening', 'closing', 'auto_depreciation', 'auto_revaluation', 'cost_allocation'
 ]);
 export const journalEntryStatusEnum = pgEnum('journal_entry_status', ['draft', 'posted', 'reversed', 'pending_approval']);
 export const partyTypeEnum = pgEnum('party_type', ['customer', 'vendor', 'employee']);
@@ -113,6 +115,8 @@ export const companies = pgTable('companies', {
   fiscalYearStart: integer('fiscal_year_start').default(4), // 1=Jan, 4=Apr
   gaapStandard: gaapStandardEnum('gaap_standard').default('INDIA_GAAP'),
   baseCurrency: varchar('base_currency', { length: 3 }).default('INR'),
+  // Inventory Settings
+  inventoryValuationMethod: inventoryValuationMethodEnum('inventory_valuation_method').default('weighted_average'),
   // Logo and branding
   logoUrl: text('logo_url'), // Base64 encoded logo for document templates
   defaultTemplate: varchar('default_template', { length: 50 }).default('classic'), // classic, modern, professional, minimal
@@ -147,6 +151,10 @@ export const fiscalYears = pgTable('fiscal_years', {
   isLocked: boolean('is_locked').default(false),
   lockedByUserId: varchar('locked_by_user_id', { length: 36 }).references(() => users.id),
   lockedAt: timestamp('locked_at'),
+  // Year-end close
+  isClosed: boolean('is_closed').default(false),
+  closedByUserId: varchar('closed_by_user_id', { length: 36 }).references(() => users.id),
+  closedAt: timestamp('closed_at'),
   isCurrent: boolean('is_current').default(false),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -235,6 +243,9 @@ export const parties = pgTable('parties', {
   pan: varchar('pan', { length: 10 }),
   gstin: varchar('gstin', { length: 15 }),
   gstRegistrationType: gstRegistrationTypeEnum('gst_registration_type').default('regular'),
+  udyamNumber: varchar('udyam_number', { length: 19 }), // MSME registration, e.g. UDYAM-MH-01-0000001
+  // Disclosure
+  relatedPartyRelationship: varchar('related_party_relationship', { length: 100 }), // e.g. Director, Subsidiary; null when not related
   // Contact
   email: varchar('email', { length: 255 }),
   phone: varchar('phone', { length: 20 }),
@@ -296,6 +307,7 @@ export const bankAccounts = pgTable('bank_accounts', {
   accountNumber: varchar('account_number', { length: 50 }).notNull(),
   accountType: varchar('account_type', { length: 50 }), // savings, current, etc.
   ifscCode: varchar('ifsc_code', { length: 11 }),
+  currencyCode: varchar('currency_code', { length: 3 }), // Null for the base currency
   branchName: varchar('branch_name', { length: 255 }),
   branchAddress: text('branch_address'),
   openingBalance: decimal('opening_balance', { precision: 18, scale: 2 }).default('0'),
@@ -381,23 +393,25 @@ export const recurringEntryTemplates = pgTable('recurring_entry_templates', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
-// ==================== TRIAL BALANCE CACHE ====================
-export const trialBalanceCache = pgTable('trial_balance_cache', {
+// ==================== ACCOUNT PERIOD BALANCES ====================
+// Posted debits and credits per account per month, kept in step with
+// journal_entry_lines so reports read a few rows per account
+export const accountPeriodBalances = pgTable('account_period_balances', {
   id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
   companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
-  fiscalYearId: varchar('fiscal_year_id', { length: 36 }).references(() => fiscalYears.id).notNull(),
-  asOfDate: date('as_of_date').notNull(),
-  accountId: varchar('account_id', { length: 36 }).references(() => chartOfAccounts.id).notNull(),
-  openingDebit: decimal('opening_debit', { precision: 18, scale: 2 }).default('0'),
-  openingCredit: decimal('opening_credit', { precision: 18, scale: 2 }).default('0'),
-  periodDebit: decimal('period_debit', { precision: 18, scale: 2 }).default('0'),
-  periodCredit: decimal('period_credit', { precision: 18, scale: 2 }).default('0'),
-  closingDebit: decimal('closing_debit', { precision: 18, scale: 2 }).default('0'),
-  closingCredit: decimal('closing_credit', { precision: 18, scale: 2 }).default('0'),
+  fiscalYearId: varchar('fiscal_year_id', { length: 36 }).references(() => fiscalYears.id, { onDelete: 'cascade' }).notNull(),
+  accountId: varchar('account_id', { length: 36 }).references(() => chartOfAccounts.id, { onDelete: 'cascade' }).notNull(),
+  periodStart: date('period_start').notNull(), // First day of the month
+  isOpening: boolean('is_opening').default(false).notNull(), // Opening entries
+  isYearEnd: boolean('is_year_end').default(false).notNull(), // Year-end closing and carry-forward entries
+  debit: decimal('debit', { precision: 18, scale: 2 }).default('0').notNull(),
+  credit: decimal('credit', { precision: 18, scale: 2 }).default('0').notNull(),
   computedAt: timestamp('computed_at').defaultNow().notNull(),
-  isStale: boolean('is_stale').default(false),
 }, (table) => [
-  index('idx_tb_cache_company_date').on(table.companyId, table.asOfDate),
+  uniqueIndex('idx_period_balances_bucket').on(
+    table.companyId, table.fiscalYearId, table.periodStart, table.accountId, table.isOpening, table.isYearEnd
+  ),
+  index('idx_period_balances_company_period').on(table.companyId, table.periodStart),
 ]);
 
 // ==================== SCHEDULE III MAPPINGS ====================
@@ -487,14 +501,18 @@ export const gstr1Entries = pgTable('gstr1_entries', {
   companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
   gstConfigId: varchar('gst_config_id', { length: 36 }).references(() => gstConfig.id),
   returnPeriod: varchar('return_period', { length: 10 }).notNull(), // MMYYYY format
-  invoiceId: varchar('invoice_id', { length: 36 }), // Reference if from invoice
+  documentType: varchar('document_type', { length: 20 }).default('invoice'), // invoice, credit_note, debit_note
+  invoiceId: varchar('invoice_id', { length: 36 }), // Source document (invoice, credit note or debit note) if auto-generated
   invoiceNumber: varchar('invoice_number', { length: 100 }).notNull(),
   invoiceDate: date('invoice_date').notNull(),
   invoiceType: invoiceTypeGstEnum('invoice_type').notNull(),
   partyGstin: varchar('party_gstin', { length: 15 }),
   partyName: varchar('party_name', { length: 255 }),
-  placeOfSupply: varchar('place_of_supply', { length: 100 }),
+  placeOfSupply: varchar('place_of_supply', { length: 100 }), // 2-digit GST state code, 96 for exports
+  supplyType: varchar('supply_type', { length: 10 }).default('R'), // GSTN invoice type: R, SEWP/SEWOP (SEZ with/without payment), DE
   hsnSacCode: varchar('hsn_sac_code', { length: 20 }),
+  taxRate: decimal('tax_rate', { precision: 5, scale: 2 }).default('0'),
+  quantity: decimal('quantity', { precision: 18, scale: 4 }).default('0'),
   taxableValue: decimal('taxable_value', { precision: 18, scale: 2 }).notNull(),
   igst: decimal('igst', { precision: 18, scale: 2 }).default('0'),
   cgst: decimal('cgst', { precision: 18, scale: 2 }).default('0'),
@@ -511,13 +529,17 @@ export const gstr1Entries = pgTable('gstr1_entries', {
   // E-Way Bill
   ewaybillNumber: varchar('ewaybill_number', { length: 20 }),
   ewaybillDate: date('ewaybill_date'),
+  // Cancellation
+  isCancelled: boolean('is_cancelled').default(false),
+  cancelledAt: timestamp('cancelled_at'),
   // Filing status
   filingStatus: gstFilingStatusEnum('filing_status').default('pending'),
-  source: varchar('source', { length: 50 }).default('manual'), // manual, auto_pm, import
+  source: varchar('source', { length: 50 }).default('manual'), // manual, auto, auto_pm, import
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => [
   index('idx_gstr1_company_period').on(table.companyId, table.returnPeriod),
+  index('idx_gstr1_document').on(table.companyId, table.documentType, table.invoiceId),
 ]);
 
 // ==================== GSTR-3B SUMMARY ====================
@@ -555,10 +577,13 @@ export const gstr3bSummary = pgTable('gstr3b_summary', {
   filingStatus: gstFilingStatusEnum('filing_status').default('pending'),
   arnNumber: varchar('arn_number', { length: 50 }),
   filingDate: date('filing_date'),
+  computation: jsonb('computation'), // Table-wise breakdown and ITC set-off
   computedAt: timestamp('computed_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('idx_gstr3b_company_period').on(table.companyId, table.returnPeriod),
+]);
 
 // ==================== ITC REGISTER ====================
 export const itcRegister = pgTable('itc_register', {
@@ -583,9 +608,18 @@ export const itcRegister = pgTable('itc_register', {
   reconciliationStatus: reconciliationStatusEnum('reconciliation_status').default('pending'),
   gstr2aData: jsonb('gstr2a_data'), // Data from GST portal
   matchedAt: timestamp('matched_at'),
+  billId: varchar('bill_id', { length: 36 }).references(() => bills.id, { onDelete: 'set null' }),
+  source: varchar('source', { length: 20 }).default('manual'), // manual, bill, gstr2a, gstr2b
+  reconciliationDifferences: jsonb('reconciliation_differences'), // Per-field books vs portal differences
+  reconciliationAction: varchar('reconciliation_action', { length: 20 }), // accepted, rejected
+  actionedByUserId: varchar('actioned_by_user_id', { length: 36 }).references(() => users.id),
+  actionedAt: timestamp('actioned_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('idx_itc_company_period').on(table.companyId, table.returnPeriod),
+  index('idx_itc_bill').on(table.billId),
+]);
 
 // ==================== GST PAYMENTS ====================
 export const gstPayments = pgTable('gst_payments', {
@@ -776,6 +810,12 @@ export const invoices = pgTable('invoices', {
   totalAmount: decimal('total_amount', { precision: 18, scale: 2 }).notNull(),
   paidAmount: decimal('paid_amount', { precision: 18, scale: 2 }).default('0'),
   balanceDue: decimal('balance_due', { precision: 18, scale: 2 }).notNull(),
+  // Foreign currency (null for the base currency); the amounts above are in the base currency
+  currencyCode: varchar('currency_code', { length: 3 }),
+  exchangeRate: decimal('exchange_rate', { precision: 18, scale: 6 }).default('1'),
+  totalAmountFcy: decimal('total_amount_fcy', { precision: 18, scale: 2 }),
+  paidAmountFcy: decimal('paid_amount_fcy', { precision: 18, scale: 2 }),
+  balanceDueFcy: decimal('balance_due_fcy', { precision: 18, scale: 2 }),
   // GST
   cgst: decimal('cgst', { precision: 18, scale: 2 }).default('0'),
   sgst: decimal('sgst', { precision: 18, scale: 2 }).default('0'),
@@ -800,7 +840,9 @@ export const invoices = pgTable('invoices', {
 export const invoiceLines = pgTable('invoice_lines', {
   id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
   invoiceId: varchar('invoice_id', { length: 36 }).references(() => invoices.id, { onDelete: 'cascade' }).notNull(),
+  productId: varchar('product_id', { length: 36 }).references(() => products.id),
   accountId: varchar('account_id', { length: 36 }).references(() => chartOfAccounts.id),
+  costCenterId: varchar('cost_center_id', { length: 36 }).references(() => costCenters.id),
   description: text('description').notNull(),
   hsnSacCode: varchar('hsn_sac_code', { length: 20 }),
   quantity: decimal('quantity', { precision: 18, scale: 4 }).default('1').notNull(),
@@ -810,6 +852,7 @@ export const invoiceLines = pgTable('invoice_lines', {
   taxRate: decimal('tax_rate', { precision: 5, scale: 2 }).default('0'),
   taxAmount: decimal('tax_amount', { precision: 18, scale: 2 }).default('0'),
   amount: decimal('amount', { precision: 18, scale: 2 }).notNull(),
+  nonGst: boolean('non_gst').default(false), // Outside GST whatever the product, e.g. recovered cheque bounce charges
   sortOrder: integer('sort_order').default(0),
 });
 
@@ -823,6 +866,7 @@ export const expenses = pgTable('expenses', {
   vendorId: varchar('vendor_id', { length: 36 }).references(() => parties.id),
   accountId: varchar('account_id', { length: 36 }).references(() => chartOfAccounts.id).notNull(),
   paymentAccountId: varchar('payment_account_id', { length: 36 }).references(() => chartOfAccounts.id),
+  costCenterId: varchar('cost_center_id', { length: 36 }).references(() => costCenters.id),
   // Category
   category: varchar('category', { length: 100 }),
   // Amounts
@@ -1069,6 +1113,10 @@ export const itcRegisterRelations = relations(itcRegister, ({ one }) => ({
     fields: [itcRegister.gstConfigId],
     references: [gstConfig.id],
   }),
+  bill: one(bills, {
+    fields: [itcRegister.billId],
+    references: [bills.id],
+  }),
 }));
 
 export const tdsDeductionsRelations = relations(tdsDeductions, ({ one }) => ({
@@ -1172,10 +1220,18 @@ export const invoiceLinesRelations = relations(invoiceLines, ({ one }) => ({
     fields: [invoiceLines.invoiceId],
     references: [invoices.id],
   }),
+  product: one(products, {
+    fields: [invoiceLines.productId],
+    references: [products.id],
+  }),
   account: one(chartOfAccounts, {
     fields: [invoiceLines.accountId],
     references: [chartOfAccounts.id],
   }),
+  costCenter: one(costCenters, {
+    fields: [invoiceLines.costCenterId],
+    references: [costCenters.id],
+  }),
 }));
 
 export const expensesRelations = relations(expenses, ({ one }) => ({
@@ -1200,6 +1256,10 @@ export const expensesRelations = relations(expenses, ({ one }) => ({
     references: [chartOfAccounts.id],
     relationName: 'paymentAccount',
   }),
+  costCenter: one(costCenters, {
+    fields: [expenses.costCenterId],
+    references: [costCenters.id],
+  }),
   journalEntry: one(journalEntries, {
     fields: [expenses.journalEntryId],
     references: [journalEntries.id],
@@ -1235,6 +1295,7 @@ export const products = pgTable('products', {
   unit: varchar('unit', { length: 20 }).default('nos'),
   hsnSacCode: varchar('hsn_sac_code', { length: 20 }),
   gstRate: decimal('gst_rate', { precision: 5, scale: 2 }).default('18'),
+  nonGst: boolean('non_gst').default(false), // Outside GST altogether (e.g. petrol, alcohol for human consumption)
   purchasePrice: decimal('purchase_price', { precision: 18, scale: 2 }),
   salesPrice: decimal('sales_price', { precision: 18, scale: 2 }),
   openingStock: decimal('opening_stock', { precision: 18, scale: 4 }).default('0'),
@@ -1249,6 +1310,34 @@ export const products = pgTable('products', {
   index('idx_products_company').on(table.companyId),
 ]);
 
+// ==================== STOCK MOVEMENTS ====================
+export const stockMovementTypeEnum = pgEnum('stock_movement_type', ['purchase', 'sale', 'sales_return', 'purchase_return', 'adjustment']);
+export const stockDirectionEnum = pgEnum('stock_direction', ['in', 'out']);
+
+export const stockMovements = pgTable('stock_movements', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  productId: varchar('product_id', { length: 36 }).references(() => products.id, { onDelete: 'cascade' }).notNull(),
+  movementDate: date('movement_date').notNull(),
+  movementType: stockMovementTypeEnum('movement_type').notNull(),
+  direction: stockDirectionEnum('direction').notNull(),
+  quantity: decimal('quantity', { precision: 18, scale: 4 }).notNull(), // Always positive; direction gives the sign
+  unitCost: decimal('unit_cost', { precision: 18, scale: 2 }),
+  // Source document
+  sourceType: varchar('source_type', { length: 50 }).notNull(), // invoice, bill, credit_note, debit_note, adjustment
+  sourceId: varchar('source_id', { length: 36 }),
+  sourceNumber: varchar('source_number', { length: 50 }),
+  // Set on the movement that cancels an earlier one
+  reversalOfId: varchar('reversal_of_id', { length: 36 }),
+  isReversed: boolean('is_reversed').default(false).notNull(),
+  notes: text('notes'),
+  createdByUserId: varchar('created_by_user_id', { length: 36 }).references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_stock_movements_product').on(table.productId, table.movementDate),
+  index('idx_stock_movements_source').on(table.sourceType, table.sourceId),
+]);
+
 // ==================== QUOTES ====================
 export const quoteStatusEnum = pgEnum('quote_status', ['draft', 'sent', 'accepted', 'rejected', 'expired', 'converted']);
 
@@ -1392,7 +1481,7 @@ export const creditNoteLines = pgTable('credit_note_lines', {
 });
 
 // ==================== BILLS ====================
-export const billStatusEnum = pgEnum('bill_status', ['draft', 'pending', 'paid', 'partially_paid', 'overdue', 'cancelled']);
+export const billStatusEnum = pgEnum('bill_status', ['draft', 'pending', 'paid', 'partially_paid', 'overdue', 'cancelled', 'pending_approval']);
 
 export const bills = pgTable('bills', {
   id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
@@ -1408,9 +1497,16 @@ export const bills = pgTable('bills', {
   totalAmount: decimal('total_amount', { precision: 18, scale: 2 }).notNull(),
   paidAmount: decimal('paid_amount', { precision: 18, scale: 2 }).default('0'),
   balanceDue: decimal('balance_due', { precision: 18, scale: 2 }).notNull(),
+  // Foreign currency (null for the base currency); the amounts above are in the base currency
+  currencyCode: varchar('currency_code', { length: 3 }),
+  exchangeRate: decimal('exchange_rate', { precision: 18, scale: 6 }).default('1'),
+  totalAmountFcy: decimal('total_amount_fcy', { precision: 18, scale: 2 }),
+  paidAmountFcy: decimal('paid_amount_fcy', { precision: 18, scale: 2 }),
+  balanceDueFcy: decimal('balance_due_fcy', { precision: 18, scale: 2 }),
   cgst: decimal('cgst', { precision: 18, scale: 2 }).default('0'),
   sgst: decimal('sgst', { precision: 18, scale: 2 }).default('0'),
   igst: decimal('igst', { precision: 18, scale: 2 }).default('0'),
+  reverseCharge: boolean('reverse_charge').default(false), // We pay the GST on this purchase (section 9(3)/9(4))
   status: billStatusEnum('status').default('draft').notNull(),
   journalEntryId: varchar('journal_entry_id', { length: 36 }).references(() => journalEntries.id),
   notes: text('notes'),
@@ -1427,6 +1523,7 @@ export const billLines = pgTable('bill_lines', {
   billId: varchar('bill_id', { length: 36 }).references(() => bills.id, { onDelete: 'cascade' }).notNull(),
   productId: varchar('product_id', { length: 36 }).references(() => products.id),
   accountId: varchar('account_id', { length: 36 }).references(() => chartOfAccounts.id),
+  costCenterId: varchar('cost_center_id', { length: 36 }).references(() => costCenters.id),
   description: text('description').notNull(),
   hsnSacCode: varchar('hsn_sac_code', { length: 20 }),
   quantity: decimal('quantity', { precision: 18, scale: 4 }).default('1').notNull(),
@@ -1533,6 +1630,10 @@ export const paymentsReceived = pgTable('payments_received', {
   paymentDate: date('payment_date').notNull(),
   customerId: varchar('customer_id', { length: 36 }).references(() => parties.id).notNull(),
   amount: decimal('amount', { precision: 18, scale: 2 }).notNull(),
+  // Foreign currency (null for the base currency); amount is in the base currency
+  currencyCode: varchar('currency_code', { length: 3 }),
+  exchangeRate: decimal('exchange_rate', { precision: 18, scale: 6 }).default('1'),
+  amountFcy: decimal('amount_fcy', { precision: 18, scale: 2 }),
   paymentMethod: varchar('payment_method', { length: 50 }), // cash, bank_transfer, cheque, upi, card
   referenceNumber: varchar('reference_number', { length: 100 }),
   bankAccountId: varchar('bank_account_id', { length: 36 }).references(() => bankAccounts.id),
@@ -1551,6 +1652,9 @@ export const paymentAllocations = pgTable('payment_allocations', {
   paymentReceivedId: varchar('payment_received_id', { length: 36 }).references(() => paymentsReceived.id, { onDelete: 'cascade' }).notNull(),
   invoiceId: varchar('invoice_id', { length: 36 }).references(() => invoices.id).notNull(),
   amount: decimal('amount', { precision: 18, scale: 2 }).notNull(),
+  // Foreign currency settled and the realised exchange gain (positive) or loss on it
+  amountFcy: decimal('amount_fcy', { precision: 18, scale: 2 }),
+  exchangeDifference: decimal('exchange_difference', { precision: 18, scale: 2 }).default('0'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
@@ -1563,6 +1667,10 @@ export const paymentsMade = pgTable('payments_made', {
   paymentDate: date('payment_date').notNull(),
   vendorId: varchar('vendor_id', { length: 36 }).references(() => parties.id).notNull(),
   amount: decimal('amount', { precision: 18, scale: 2 }).notNull(),
+  // Foreign currency (null for the base currency); amount is in the base currency
+  currencyCode: varchar('currency_code', { length: 3 }),
+  exchangeRate: decimal('exchange_rate', { precision: 18, scale: 6 }).default('1'),
+  amountFcy: decimal('amount_fcy', { precision: 18, scale: 2 }),
   paymentMethod: varchar('payment_method', { length: 50 }), // cash, bank_transfer, cheque, upi, card
   referenceNumber: varchar('reference_number', { length: 100 }),
   bankAccountId: varchar('bank_account_id', { length: 36 }).references(() => bankAccounts.id),
@@ -1581,6 +1689,9 @@ export const paymentMadeAllocations = pgTable('payment_made_allocations', {
   paymentMadeId: varchar('payment_made_id', { length: 36 }).references(() => paymentsMade.id, { onDelete: 'cascade' }).notNull(),
   billId: varchar('bill_id', { length: 36 }).references(() => bills.id).notNull(),
   amount: decimal('amount', { precision: 18, scale: 2 }).notNull(),
+  // Foreign currency settled and the realised exchange gain (positive) or loss on it
+  amountFcy: decimal('amount_fcy', { precision: 18, scale: 2 }),
+  exchangeDifference: decimal('exchange_difference', { precision: 18, scale: 2 }).default('0'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
@@ -1790,7 +1901,7 @@ export const partnerPayouts = pgTable('partner_payouts', {
 
 // ==================== NEW RELATIONS ====================
 
-export const productsRelations = relations(products, ({ one }) => ({
+export const productsRelations = relations(products, ({ one, many }) => ({
   company: one(companies, {
     fields: [products.companyId],
     references: [companies.id],
@@ -1805,6 +1916,22 @@ export const productsRelations = relations(products, ({ one }) => ({
     references: [chartOfAccounts.id],
     relationName: 'salesAccount',
   }),
+  stockMovements: many(stockMovements),
+}));
+
+export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
+  company: one(companies, {
+    fields: [stockMovements.companyId],
+    references: [companies.id],
+  }),
+  product: one(products, {
+    fields: [stockMovements.productId],
+    references: [products.id],
+  }),
+  createdBy: one(users, {
+    fields: [stockMovements.createdByUserId],
+    references: [users.id],
+  }),
 }));
 
 export const quotesRelations = relations(quotes, ({ one, many }) => ({
@@ -1953,6 +2080,10 @@ export const billLinesRelations = relations(billLines, ({ one }) => ({
     fields: [billLines.accountId],
     references: [chartOfAccounts.id],
   }),
+  costCenter: one(costCenters, {
+    fields: [billLines.costCenterId],
+    references: [costCenters.id],
+  }),
 }));
 
 export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
@@ -2239,7 +2370,7 @@ export const paymentLinkStatusEnum = pgEnum('payment_link_status', ['active', 'p
 export const paymentGatewayEnum = pgEnum('payment_gateway', ['razorpay', 'payu', 'cashfree', 'stripe']);
 
 // Feature 4: Smart Alerts Enums
-export const alertTypeEnum = pgEnum('alert_type', ['low_cash', 'gst_due', 'tds_threshold', 'invoice_overdue', 'bill_due', 'expense_limit', 'reconciliation_pending', 'filing_deadline', 'payment_received', 'unusual_transaction']);
+export const alertTypeEnum = pgEnum('alert_type', ['low_cash', 'gst_due', 'tds_threshold', 'invoice_overdue', 'bill_due', 'expense_limit', 'reconciliation_pending', 'filing_deadline', 'payment_received', 'unusual_transaction', 'low_stock', 'budget_overrun', 'pdc_due']);
 export const alertSeverityEnum = pgEnum('alert_severity', ['info', 'warning', 'critical']);
 
 // Feature 6: Voice Interface Enums
@@ -2247,7 +2378,7 @@ export const voiceIntentEnum = pgEnum('voice_intent', ['create_expense', 'create
 
 // Feature 7: Integration Enums
 export const integrationPlatformEnum = pgEnum('integration_platform', ['shopify', 'woocommerce', 'meesho', 'amazon', 'flipkart', 'custom']);
-export const webhookEventTypeEnum = pgEnum('webhook_event_type', ['invoice.created', 'invoice.sent', 'invoice.paid', 'payment.received', 'payment.made', 'expense.created', 'bill.created', 'bill.paid', 'gst.filed']);
+export const webhookEventTypeEnum = pgEnum('webhook_event_type', ['invoice.created', 'invoice.sent', 'invoice.paid', 'payment.received', 'payment.made', 'expense.created', 'bill.created', 'bill.paid', 'gst.filed', 'credit_note.created', 'credit_note.issued', 'journal_entry.posted', 'journal_entry.reversed', 'quote.created', 'quote.sent', 'quote.accepted']);
 
 // ==================== BANK CONNECTIONS ====================
 export const bankConnections = pgTable('bank_connections', {
@@ -2296,6 +2427,8 @@ export const bankFeedTransactions = pgTable('bank_feed_transactions', {
   matchedExpenseId: varchar('matched_expense_id', { length: 36 }).references(() => expenses.id),
   matchedPaymentReceivedId: varchar('matched_payment_received_id', { length: 36 }).references(() => paymentsReceived.id),
   matchedPaymentMadeId: varchar('matched_payment_made_id', { length: 36 }).references(() => paymentsMade.id),
+  // Set when the line was matched together with others or against several documents
+  matchGroupId: varchar('match_group_id', { length: 36 }).references(() => bankMatchGroups.id),
   // Duplicate detection
   isDuplicate: boolean('is_duplicate').default(false),
   duplicateOfId: varchar('duplicate_of_id', { length: 36 }),
@@ -2309,6 +2442,26 @@ export const bankFeedTransactions = pgTable('bank_feed_transactions', {
   index('idx_bank_feed_txn_external').on(table.externalTransactionId),
 ]);
 
+// ==================== BANK MATCH GROUPS ====================
+// N bank lines matched against M invoices or bills of one party
+export const bankMatchGroups = pgTable('bank_match_groups', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  side: varchar('side', { length: 10 }).notNull(), // receipt, payment
+  partyId: varchar('party_id', { length: 36 }).references(() => parties.id).notNull(),
+  bankAmount: decimal('bank_amount', { precision: 18, scale: 2 }).notNull(),
+  settledAmount: decimal('settled_amount', { precision: 18, scale: 2 }).notNull(),
+  // [{ type: 'bank_charges' | 'tds' | 'rounding', accountId, amount }]
+  adjustments: jsonb('adjustments'),
+  paymentReceivedId: varchar('payment_received_id', { length: 36 }).references(() => paymentsReceived.id),
+  paymentMadeId: varchar('payment_made_id', { length: 36 }).references(() => paymentsMade.id),
+  journalEntryId: varchar('journal_entry_id', { length: 36 }).references(() => journalEntries.id),
+  createdByUserId: varchar('created_by_user_id', { length: 36 }).references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_bank_match_groups_company').on(table.companyId),
+]);
+
 // ==================== CATEGORIZATION RULES ====================
 export const categorizationRules = pgTable('categorization_rules', {
   id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
@@ -2330,6 +2483,25 @@ export const categorizationRules = pgTable('categorization_rules', {
   index('idx_cat_rules_priority').on(table.companyId, table.priority),
 ]);
 
+// ==================== CATEGORIZATION MODELS ====================
+// A company's own categorisation model, learned from its categorised bank
+// transactions and journal history. It never leaves the server.
+export const categorizationModels = pgTable('categorization_models', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  // {version, examples, vocabulary, accounts, parties, calibration, feedback}
+  model: jsonb('model').notNull(),
+  // Cross-validated accuracy report from the last full training
+  evaluation: jsonb('evaluation'),
+  trainingExamples: integer('training_examples').default(0),
+  trainedAt: timestamp('trained_at'),
+  lastLearnedAt: timestamp('last_learned_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('idx_cat_models_company').on(table.companyId),
+]);
+
 // ==================== DOCUMENT SCANS (OCR) ====================
 export const documentScans = pgTable('document_scans', {
   id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
@@ -2644,6 +2816,383 @@ export const webhookLogs = pgTable('webhook_logs', {
   index('idx_webhook_logs_created').on(table.createdAt),
 ]);
 
+// ==================== SCHEDULED JOBS ====================
+export const scheduledJobs = pgTable('scheduled_jobs', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar('name', { length: 100 }).notNull().unique(), // recurring_invoices, payment_reminders, ...
+  schedule: varchar('schedule', { length: 100 }).notNull(), // Cron expression (minute hour day month weekday)
+  isEnabled: boolean('is_enabled').default(true),
+  nextRunAt: timestamp('next_run_at'),
+  lastRunAt: timestamp('last_run_at'),
+  lastStatus: varchar('last_status', { length: 20 }), // running, succeeded, failed
+  lastError: text('last_error'),
+  // Lock held by the instance running the job
+  lockedBy: varchar('locked_by', { length: 100 }),
+  lockedUntil: timestamp('locked_until'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// ==================== JOB RUNS ====================
+export const jobRuns = pgTable('job_runs', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  jobName: varchar('job_name', { length: 100 }).notNull(),
+  trigger: varchar('trigger', { length: 20 }).notNull(), // schedule, manual
+  triggeredByUserId: varchar('triggered_by_user_id', { length: 36 }).references(() => users.id),
+  instanceId: varchar('instance_id', { length: 100 }),
+  status: varchar('status', { length: 20 }).notNull(), // running, succeeded, failed
+  result: jsonb('result'),
+  error: text('error'),
+  startedAt: timestamp('started_at').defaultNow().notNull(),
+  finishedAt: timestamp('finished_at'),
+  durationMs: integer('duration_ms'),
+}, (table) => [
+  index('idx_job_runs_job').on(table.jobName, table.startedAt),
+]);
+
+// ==================== NUMBERING SERIES ====================
+export const numberingDocumentTypeEnum = pgEnum('numbering_document_type', ['invoice', 'credit_note', 'debit_note', 'bill', 'quote', 'sales_order', 'purchase_order', 'journal_entry']);
+
+export const numberingSeries = pgTable('numbering_series', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  documentType: numberingDocumentTypeEnum('document_type').notNull(),
+  gstin: varchar('gstin', { length: 15 }), // Branch registration; null for the company-wide series
+  name: varchar('name', { length: 100 }).notNull(),
+  template: varchar('template', { length: 50 }).notNull(), // e.g. INV/{FY}/{SEQ:5}
+  isActive: boolean('is_active').default(true).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique('uq_numbering_series_scope').on(table.companyId, table.documentType, table.gstin).nullsNotDistinct(),
+]);
+
+// One counter per series and fiscal year; the row lock serialises allocation
+export const numberingSeriesCounters = pgTable('numbering_series_counters', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  seriesId: varchar('series_id', { length: 36 }).references(() => numberingSeries.id, { onDelete: 'cascade' }).notNull(),
+  fiscalYearId: varchar('fiscal_year_id', { length: 36 }).references(() => fiscalYears.id, { onDelete: 'cascade' }).notNull(),
+  lastNumber: integer('last_number').default(0).notNull(),
+  releasedNumbers: jsonb('released_numbers').default([]), // Numbers freed by deleted drafts, reissued first
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('idx_numbering_counter_series_fy').on(table.seriesId, table.fiscalYearId),
+]);
+
+// ==================== FIXED ASSETS ====================
+export const depreciationMethodEnum = pgEnum('depreciation_method', ['slm', 'wdv']);
+export const fixedAssetStatusEnum = pgEnum('fixed_asset_status', ['active', 'disposed']);
+
+// Income-tax block of assets; depreciation is allowed on the block's written down value
+export const incomeTaxAssetBlocks = pgTable('income_tax_asset_blocks', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(), // e.g. Plant and machinery @ 15%
+  rate: decimal('rate', { precision: 5, scale: 2 }).notNull(),
+  // Written down value brought forward at the start of the first year computed
+  openingWdv: decimal('opening_wdv', { precision: 18, scale: 2 }).default('0').notNull(),
+  openingDate: date('opening_date').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique('uq_income_tax_asset_block_name').on(table.companyId, table.name),
+]);
+
+export const fixedAssets = pgTable('fixed_assets', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  assetCode: varchar('asset_code', { length: 50 }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  assetAccountId: varchar('asset_account_id', { length: 36 }).references(() => chartOfAccounts.id).notNull(),
+  // Null credits depreciation to the asset account itself
+  accumulatedDepreciationAccountId: varchar('accumulated_depreciation_account_id', { length: 36 }).references(() => chartOfAccounts.id),
+  depreciationAccountId: varchar('depreciation_account_id', { length: 36 }).references(() => chartOfAccounts.id).notNull(),
+  // Bill or journal line that brought the asset into the books
+  sourceJournalLineId: varchar('source_journal_line_id', { length: 36 }).references(() => journalEntryLines.id),
+  purchaseDate: date('purchase_date').notNull(),
+  putToUseDate: date('put_to_use_date').notNull(),
+  cost: decimal('cost', { precision: 18, scale: 2 }).notNull(),
+  residualValue: decimal('residual_value', { precision: 18, scale: 2 }).default('0').notNull(),
+  usefulLifeYears: decimal('useful_life_years', { precision: 6, scale: 2 }).notNull(),
+  depreciationMethod: depreciationMethodEnum('depreciation_method').default('slm').notNull(),
+  incomeTaxBlockId: varchar('income_tax_block_id', { length: 36 }).references(() => incomeTaxAssetBlocks.id),
+  // Running totals; set on takeover for assets depreciated in earlier books
+  accumulatedDepreciation: decimal('accumulated_depreciation', { precision: 18, scale: 2 }).default('0').notNull(),
+  depreciatedUpTo: date('depreciated_up_to'),
+  status: fixedAssetStatusEnum('status').default('active').notNull(),
+  disposalDate: date('disposal_date'),
+  disposalProceeds: decimal('disposal_proceeds', { precision: 18, scale: 2 }),
+  disposalJournalEntryId: varchar('disposal_journal_entry_id', { length: 36 }).references(() => journalEntries.id),
+  createdByUserId: varchar('created_by_user_id', { length: 36 }).references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('idx_fixed_assets_code').on(table.companyId, table.assetCode),
+  index('idx_fixed_assets_status').on(table.companyId, table.status),
+]);
+
+export const depreciationRuns = pgTable('depreciation_runs', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  fiscalYearId: varchar('fiscal_year_id', { length: 36 }).references(() => fiscalYears.id).notNull(),
+  frequency: frequencyEnum('frequency').notNull(), // monthly or yearly
+  periodStart: date('period_start').notNull(),
+  periodEnd: date('period_end').notNull(),
+  totalAmount: decimal('total_amount', { precision: 18, scale: 2 }).default('0').notNull(),
+  journalEntryId: varchar('journal_entry_id', { length: 36 }).references(() => journalEntries.id),
+  createdByUserId: varchar('created_by_user_id', { length: 36 }).references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('idx_depreciation_runs_period').on(table.companyId, table.periodEnd),
+]);
+
+// Depreciation charged on each asset, by a run or up to the date of disposal
+export const fixedAssetDepreciation = pgTable('fixed_asset_depreciation', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  assetId: varchar('asset_id', { length: 36 }).references(() => fixedAssets.id, { onDelete: 'cascade' }).notNull(),
+  runId: varchar('run_id', { length: 36 }).references(() => depreciationRuns.id, { onDelete: 'cascade' }),
+  journalEntryId: varchar('journal_entry_id', { length: 36 }).references(() => journalEntries.id),
+  fromDate: date('from_date').notNull(),
+  toDate: date('to_date').notNull(),
+  amount: decimal('amount', { precision: 18, scale: 2 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_fixed_asset_depreciation_asset').on(table.assetId, table.fromDate),
+]);
+
+// ==================== CURRENCY REVALUATIONS ====================
+// Period-end revaluation of open foreign currency receivables, payables and
+// bank balances at the closing rate, reversed on the first day of the next period
+export const currencyRevaluations = pgTable('currency_revaluations', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  fiscalYearId: varchar('fiscal_year_id', { length: 36 }).references(() => fiscalYears.id).notNull(),
+  revaluationDate: date('revaluation_date').notNull(),
+  reversalDate: date('reversal_date').notNull(),
+  // Unrealised gain (positive) or loss over all items
+  netAmount: decimal('net_amount', { precision: 18, scale: 2 }).default('0').notNull(),
+  rates: jsonb('rates'), // { USD: 83.12, ... }
+  lines: jsonb('lines'), // Items revalued with their carrying and revalued amounts
+  journalEntryId: varchar('journal_entry_id', { length: 36 }).references(() => journalEntries.id),
+  reversalJournalEntryId: varchar('reversal_journal_entry_id', { length: 36 }).references(() => journalEntries.id),
+  createdByUserId: varchar('created_by_user_id', { length: 36 }).references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('idx_currency_revaluations_date').on(table.companyId, table.revaluationDate),
+]);
+
+// ==================== COST ALLOCATION ====================
+export const costAllocationBasisEnum = pgEnum('cost_allocation_basis', ['percentage', 'driver']);
+
+// Spreads the balance of a shared expense account, such as rent or salaries,
+// from a pool cost center (or untagged lines) across target cost centers
+export const costAllocationRules = pgTable('cost_allocation_rules', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  sourceAccountId: varchar('source_account_id', { length: 36 }).references(() => chartOfAccounts.id).notNull(),
+  // Null allocates the lines carrying no cost center
+  sourceCostCenterId: varchar('source_cost_center_id', { length: 36 }).references(() => costCenters.id),
+  basis: costAllocationBasisEnum('basis').default('percentage').notNull(),
+  driverName: varchar('driver_name', { length: 100 }), // e.g. Headcount, Floor area (sq ft)
+  isActive: boolean('is_active').default(true).notNull(),
+  createdByUserId: varchar('created_by_user_id', { length: 36 }).references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_cost_allocation_rules_company').on(table.companyId),
+]);
+
+export const costAllocationTargets = pgTable('cost_allocation_targets', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  ruleId: varchar('rule_id', { length: 36 }).references(() => costAllocationRules.id, { onDelete: 'cascade' }).notNull(),
+  costCenterId: varchar('cost_center_id', { length: 36 }).references(() => costCenters.id).notNull(),
+  // Share in percent for percentage rules, driver quantity for driver rules
+  value: decimal('value', { precision: 18, scale: 4 }).notNull(),
+}, (table) => [
+  unique('uq_cost_allocation_target').on(table.ruleId, table.costCenterId),
+]);
+
+export const costAllocationRuns = pgTable('cost_allocation_runs', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  ruleId: varchar('rule_id', { length: 36 }).references(() => costAllocationRules.id, { onDelete: 'cascade' }).notNull(),
+  fiscalYearId: varchar('fiscal_year_id', { length: 36 }).references(() => fiscalYears.id).notNull(),
+  periodStart: date('period_start').notNull(),
+  periodEnd: date('period_end').notNull(),
+  amount: decimal('amount', { precision: 18, scale: 2 }).notNull(),
+  allocations: jsonb('allocations'), // [{ costCenterId, share, amount }]
+  journalEntryId: varchar('journal_entry_id', { length: 36 }).references(() => journalEntries.id),
+  createdByUserId: varchar('created_by_user_id', { length: 36 }).references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('idx_cost_allocation_runs_period').on(table.ruleId, table.periodStart, table.periodEnd),
+]);
+
+// ==================== BUDGETS ====================
+export const budgetPhasingEnum = pgEnum('budget_phasing', ['even', 'seasonal', 'last_year']);
+
+// Monthly weights for seasonal phasing, from the first month of the fiscal year
+export const budgetPhasingTemplates = pgTable('budget_phasing_templates', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  weights: jsonb('weights').notNull(), // [number x 12], April first for an April year
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique('uq_budget_phasing_template_name').on(table.companyId, table.name),
+]);
+
+export const budgets = pgTable('budgets', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  fiscalYearId: varchar('fiscal_year_id', { length: 36 }).references(() => fiscalYears.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  isActive: boolean('is_active').default(true).notNull(), // Active budgets raise overrun alerts
+  createdByUserId: varchar('created_by_user_id', { length: 36 }).references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_budgets_company').on(table.companyId),
+  unique('uq_budget_name').on(table.companyId, table.fiscalYearId, table.name),
+]);
+
+// Annual amount for an account, optionally within a cost center, phased by month
+export const budgetLines = pgTable('budget_lines', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  budgetId: varchar('budget_id', { length: 36 }).references(() => budgets.id, { onDelete: 'cascade' }).notNull(),
+  accountId: varchar('account_id', { length: 36 }).references(() => chartOfAccounts.id).notNull(),
+  costCenterId: varchar('cost_center_id', { length: 36 }).references(() => costCenters.id), // Null budgets the whole account
+  phasing: budgetPhasingEnum('phasing').default('even').notNull(),
+  phasingTemplateId: varchar('phasing_template_id', { length: 36 }).references(() => budgetPhasingTemplates.id),
+  growthPercent: decimal('growth_percent', { precision: 7, scale: 2 }), // Over last year's actuals
+  annualAmount: decimal('annual_amount', { precision: 18, scale: 2 }).notNull(),
+  monthlyAmounts: jsonb('monthly_amounts').notNull(), // [number], one per month of the fiscal year
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_budget_lines_budget').on(table.budgetId),
+]);
+
+// ==================== APPROVALS ====================
+export const approvalDocumentTypeEnum = pgEnum('approval_document_type', ['journal_entry', 'expense', 'bill']);
+export const approvalStatusEnum = pgEnum('approval_status', ['pending', 'approved', 'rejected', 'cancelled']);
+
+// A document needs a second person's approval when it meets every condition
+// the policy sets; conditions left empty match any document
+export const approvalPolicies = pgTable('approval_policies', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  documentType: approvalDocumentTypeEnum('document_type').notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  minAmount: decimal('min_amount', { precision: 18, scale: 2 }), // Documents of this amount or more
+  accountIds: jsonb('account_ids').default([]).notNull(), // [accountId], documents touching any of these accounts
+  entryTypes: jsonb('entry_types').default([]).notNull(), // [journal entry type], journal entries only
+  approverRoles: jsonb('approver_roles').default(['owner', 'accountant']).notNull(), // [company role]
+  isActive: boolean('is_active').default(true).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_approval_policies_company').on(table.companyId, table.documentType),
+]);
+
+export const approvalRequests = pgTable('approval_requests', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  policyId: varchar('policy_id', { length: 36 }).references(() => approvalPolicies.id, { onDelete: 'set null' }),
+  documentType: approvalDocumentTypeEnum('document_type').notNull(),
+  documentId: varchar('document_id', { length: 36 }).notNull(),
+  documentNumber: varchar('document_number', { length: 50 }),
+  amount: decimal('amount', { precision: 18, scale: 2 }).notNull(),
+  description: text('description'),
+  status: approvalStatusEnum('status').default('pending').notNull(),
+  requestedByUserId: varchar('requested_by_user_id', { length: 36 }).references(() => users.id),
+  decidedByUserId: varchar('decided_by_user_id', { length: 36 }).references(() => users.id),
+  decidedAt: timestamp('decided_at'),
+  comments: text('comments'), // Reason given with the decision
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_approval_requests_company').on(table.companyId, table.status),
+  index('idx_approval_requests_document').on(table.documentType, table.documentId),
+]);
+
+// ==================== CHEQUES ====================
+export const chequeDirectionEnum = pgEnum('cheque_direction', ['issued', 'received']);
+export const chequeStatusEnum = pgEnum('cheque_status', ['issued', 'presented', 'cleared', 'bounced', 'cancelled']);
+
+// Print positions on a cheque leaf, for banks whose leaves the built-in layouts do not fit
+export const chequeLayouts = pgTable('cheque_layouts', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  bankName: varchar('bank_name', { length: 255 }),
+  layout: jsonb('layout').notNull(), // { widthMm, heightMm, date, payee, amountInWords, amountInFigures, accountPayee }
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique('uq_cheque_layout_name').on(table.companyId, table.name),
+]);
+
+// Leaves firstNumber to lastNumber of a cheque book of one of the company's bank accounts
+export const chequeBooks = pgTable('cheque_books', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  bankAccountId: varchar('bank_account_id', { length: 36 }).references(() => bankAccounts.id).notNull(),
+  firstNumber: integer('first_number').notNull(),
+  lastNumber: integer('last_number').notNull(),
+  nextNumber: integer('next_number').notNull(),
+  numberLength: integer('number_length').default(6).notNull(), // Leaves are numbered with leading zeros to this length
+  layoutKey: varchar('layout_key', { length: 50 }), // A built-in bank layout, or the id of a cheque layout
+  isActive: boolean('is_active').default(true).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_cheque_books_account').on(table.companyId, table.bankAccountId),
+]);
+
+export const cheques = pgTable('cheques', {
+  id: varchar('id', { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  companyId: varchar('company_id', { length: 36 }).references(() => companies.id, { onDelete: 'cascade' }).notNull(),
+  direction: chequeDirectionEnum('direction').notNull(),
+  chequeBookId: varchar('cheque_book_id', { length: 36 }).references(() => chequeBooks.id), // Issued cheques only
+  // Drawn on for issued cheques; deposited into for received ones, once known
+  bankAccountId: varchar('bank_account_id', { length: 36 }).references(() => bankAccounts.id),
+  chequeNumber: varchar('cheque_number', { length: 20 }).notNull(),
+  chequeDate: date('cheque_date').notNull(), // Later than the day it was written for a post-dated cheque
+  amount: decimal('amount', { precision: 18, scale: 2 }).notNull(),
+  partyId: varchar('party_id', { length: 36 }).references(() => parties.id),
+  payeeName: varchar('payee_name', { length: 255 }), // Printed on issued cheques
+  drawerBankName: varchar('drawer_bank_name', { length: 255 }), // Bank a received cheque is drawn on
+  status: chequeStatusEnum('status').default('issued').notNull(),
+  paymentReceivedId: varchar('payment_received_id', { length: 36 }).references(() => paymentsReceived.id),
+  paymentMadeId: varchar('payment_made_id', { length: 36 }).references(() => paymentsMade.id),
+  presentedDate: date('presented_date'),
+  clearedDate: date('cleared_date'),
+  bouncedDate: date('bounced_date'),
+  cancelledDate: date('cancelled_date'),
+  bounceReason: text('bounce_reason'),
+  bankCharges: decimal('bank_charges', { precision: 18, scale: 2 }),
+  // Entries posted when the cheque bounced or was cancelled
+  reversalJournalEntryId: varchar('reversal_journal_entry_id', { length: 36 }).references(() => journalEntries.id),
+  chargesJournalEntryId: varchar('charges_journal_entry_id', { length: 36 }).references(() => journalEntries.id),
+  // Invoice charging the bank's bounce charges on to the customer
+  chargesInvoiceId: varchar('charges_invoice_id', { length: 36 }).references(() => invoices.id),
+  printedAt: timestamp('printed_at'),
+  notes: text('notes'),
+  createdByUserId: varchar('created_by_user_id', { length: 36 }).references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('idx_cheques_company').on(table.companyId, table.status),
+  index('idx_cheques_date').on(table.companyId, table.chequeDate),
+  index('idx_cheques_book').on(table.chequeBookId, table.chequeNumber),
+]);
+
 // ==================== SMART FEATURES RELATIONS ====================
 
 export const bankConnectionsRelations = relations(bankConnections, ({ one, many }) => ({
@@ -2846,6 +3395,147 @@ export const webhookLogsRelations = relations(webhookLogs, ({ one }) => ({
   }),
 }));
 
+export const jobRunsRelations = relations(jobRuns, ({ one }) => ({
+  triggeredBy: one(users, {
+    fields: [jobRuns.triggeredByUserId],
+    references: [users.id],
+  }),
+}));
+
+export const costAllocationRulesRelations = relations(costAllocationRules, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [costAllocationRules.companyId],
+    references: [companies.id],
+  }),
+  sourceAccount: one(chartOfAccounts, {
+    fields: [costAllocationRules.sourceAccountId],
+    references: [chartOfAccounts.id],
+  }),
+  sourceCostCenter: one(costCenters, {
+    fields: [costAllocationRules.sourceCostCenterId],
+    references: [costCenters.id],
+  }),
+  targets: many(costAllocationTargets),
+  runs: many(costAllocationRuns),
+}));
+
+export const costAllocationTargetsRelations = relations(costAllocationTargets, ({ one }) => ({
+  rule: one(costAllocationRules, {
+    fields: [costAllocationTargets.ruleId],
+    references: [costAllocationRules.id],
+  }),
+  costCenter: one(costCenters, {
+    fields: [costAllocationTargets.costCenterId],
+    references: [costCenters.id],
+  }),
+}));
+
+export const costAllocationRunsRelations = relations(costAllocationRuns, ({ one }) => ({
+  rule: one(costAllocationRules, {
+    fields: [costAllocationRuns.ruleId],
+    references: [costAllocationRules.id],
+  }),
+  journalEntry: one(journalEntries, {
+    fields: [costAllocationRuns.journalEntryId],
+    references: [journalEntries.id],
+  }),
+}));
+
+export const budgetsRelations = relations(budgets, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [budgets.companyId],
+    references: [companies.id],
+  }),
+  fiscalYear: one(fiscalYears, {
+    fields: [budgets.fiscalYearId],
+    references: [fiscalYears.id],
+  }),
+  lines: many(budgetLines),
+}));
+
+export const budgetLinesRelations = relations(budgetLines, ({ one }) => ({
+  budget: one(budgets, {
+    fields: [budgetLines.budgetId],
+    references: [budgets.id],
+  }),
+  account: one(chartOfAccounts, {
+    fields: [budgetLines.accountId],
+    references: [chartOfAccounts.id],
+  }),
+  costCenter: one(costCenters, {
+    fields: [budgetLines.costCenterId],
+    references: [costCenters.id],
+  }),
+  phasingTemplate: one(budgetPhasingTemplates, {
+    fields: [budgetLines.phasingTemplateId],
+    references: [budgetPhasingTemplates.id],
+  }),
+}));
+
+export const approvalRequestsRelations = relations(approvalRequests, ({ one }) => ({
+  company: one(companies, {
+    fields: [approvalRequests.companyId],
+    references: [companies.id],
+  }),
+  policy: one(approvalPolicies, {
+    fields: [approvalRequests.policyId],
+    references: [approvalPolicies.id],
+  }),
+  requestedBy: one(users, {
+    fields: [approvalRequests.requestedByUserId],
+    references: [users.id],
+    relationName: 'approvalRequester',
+  }),
+  decidedBy: one(users, {
+    fields: [approvalRequests.decidedByUserId],
+    references: [users.id],
+    relationName: 'approvalDecider',
+  }),
+}));
+
+export const chequeBooksRelations = relations(chequeBooks, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [chequeBooks.companyId],
+    references: [companies.id],
+  }),
+  bankAccount: one(bankAccounts, {
+    fields: [chequeBooks.bankAccountId],
+    references: [bankAccounts.id],
+  }),
+  cheques: many(cheques),
+}));
+
+export const chequesRelations = relations(cheques, ({ one }) => ({
+  company: one(companies, {
+    fields: [cheques.companyId],
+    references: [companies.id],
+  }),
+  chequeBook: one(chequeBooks, {
+    fields: [cheques.chequeBookId],
+    references: [chequeBooks.id],
+  }),
+  bankAccount: one(bankAccounts, {
+    fields: [cheques.bankAccountId],
+    references: [bankAccounts.id],
+  }),
+  party: one(parties, {
+    fields: [cheques.partyId],
+    references: [parties.id],
+  }),
+  paymentReceived: one(paymentsReceived, {
+    fields: [cheques.paymentReceivedId],
+    references: [paymentsReceived.id],
+  }),
+  paymentMade: one(paymentsMade, {
+    fields: [cheques.paymentMadeId],
+    references: [paymentsMade.id],
+  }),
+  chargesInvoice: one(invoices, {
+    fields: [cheques.chargesInvoiceId],
+    references: [invoices.id],
+  }),
+}));
+
 // ==================== ZOD SCHEMAS ====================
 
 export const insertUserSchema = createInsertSchema(users).omit({
@@ -3286,7 +3976,7 @@ export type JournalEntryLine = typeof journalEntryLines.$inferSelect;
 export type InsertJournalEntryLine = z.infer<typeof insertJournalEntryLineSchema>;
 export type RecurringEntryTemplate = typeof recurringEntryTemplates.$inferSelect;
 export type InsertRecurringEntryTemplate = z.infer<typeof insertRecurringEntryTemplateSchema>;
-export type TrialBalanceCache = typeof trialBalanceCache.$inferSelect;
+export type AccountPeriodBalance = typeof accountPeriodBalances.$inferSelect;
 export type ScheduleIIIMapping = typeof scheduleIIIMappings.$inferSelect;
 export type FinancialStatementRun = typeof financialStatementRuns.$inferSelect;
 export type Attachment = typeof attachments.$inferSelect;
@@ -3320,6 +4010,7 @@ export type ExchangeRate = typeof exchangeRates.$inferSelect;
 export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
 export type Quote = typeof quotes.$inferSelect;
 export type InsertQuote = z.infer<typeof insertQuoteSchema>;
 export type QuoteLine = typeof quoteLines.$inferSelect;
@@ -3404,3 +4095,26 @@ export type Webhook = typeof webhooks.$inferSelect;
 export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
 export type WebhookLog = typeof webhookLogs.$inferSelect;
 export type InsertWebhookLog = z.infer<typeof insertWebhookLogSchema>;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type NumberingSeries = typeof numberingSeries.$inferSelect;
+export type NumberingSeriesCounter = typeof numberingSeriesCounters.$inferSelect;
+export type IncomeTaxAssetBlock = typeof incomeTaxAssetBlocks.$inferSelect;
+export type FixedAsset = typeof fixedAssets.$inferSelect;
+export type DepreciationRun = typeof depreciationRuns.$inferSelect;
+export type FixedAssetDepreciation = typeof fixedAssetDepreciation.$inferSelect;
+export type CurrencyRevaluation = typeof currencyRevaluations.$inferSelect;
+export type CostAllocationRule = typeof costAllocationRules.$inferSelect;
+export type CostAllocationTarget = typeof costAllocationTargets.$inferSelect;
+export type CostAllocationRun = typeof costAllocationRuns.$inferSelect;
+export type BudgetPhasingTemplate = typeof budgetPhasingTemplates.$inferSelect;
+export type Budget = typeof budgets.$inferSelect;
+export type BudgetLine = typeof budgetLines.$inferSelect;
+export type Expense = typeof expenses.$inferSelect;
+export type ApprovalPolicy = typeof approvalPolicies.$inferSelect;
+export type ApprovalRequest = typeof approvalRequests.$inferSelect;
+export type CategorizationModel = typeof categorizationModels.$inferSelect;
+export type BankMatchGroup = typeof bankMatchGroups.$inferSelect;
+export type ChequeLayoutRecord = typeof chequeLayouts.$inferSelect;
+export type ChequeBook = typeof chequeBooks.$inferSelect;
+export type Cheque = typeof cheques.$inferSelect;
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  policyMatches,
+  approvalBlocker,
+  validateApprovalPolicy,
+  requestApproverRoles,
+} from '../../server/src/services/approvals/approvalEngine';
+import type { ApprovalPolicy } from '../../shared/schema';
+
+const policy = (overrides: Partial<ApprovalPolicy> = {}): ApprovalPolicy => ({
+  id: 'policy-1',
+  companyId: 'company-1',
+  documentType: 'journal_entry',
+  name: 'Large entries',
+  minAmount: null,
+  accountIds: [],
+  entryTypes: [],
+  approverRoles: ['owner', 'accountant'],
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const entry = {
+  documentType: 'journal_entry' as const,
+  amount: 250000,
+  accountIds: ['bank', 'rent'],
+  entryType: 'manual',
+};
+
+describe('Approvals', () => {
+  describe('policyMatches', () => {
+    it('should match every document of its type without conditions', () => {
+      expect(policyMatches(policy(), entry)).toBe(true);
+      expect(policyMatches(policy(), { ...entry, documentType: 'bill' })).toBe(false);
+    });
+
+    it('should ignore inactive policies', () => {
+      expect(policyMatches(policy({ isActive: false }), entry)).toBe(false);
+    });
+
+    it('should apply the amount threshold inclusively', () => {
+      expect(policyMatches(policy({ minAmount: '250000.00' }), entry)).toBe(true);
+      expect(policyMatches(policy({ minAmount: '250000.01' }), entry)).toBe(false);
+    });
+
+    it('should match documents touching any of the accounts', () => {
+      expect(policyMatches(policy({ accountIds: ['capital', 'bank'] }), entry)).toBe(true);
+      expect(policyMatches(policy({ accountIds: ['capital'] }), entry)).toBe(false);
+    });
+
+    it('should match journal entry types', () => {
+      expect(policyMatches(policy({ entryTypes: ['manual'] }), entry)).toBe(true);
+      expect(policyMatches(policy({ entryTypes: ['bank_import'] }), entry)).toBe(false);
+    });
+
+    it('should need every condition to be met', () => {
+      const strict = policy({ minAmount: '100000', accountIds: ['capital'] });
+      expect(policyMatches(strict, entry)).toBe(false);
+      expect(policyMatches(strict, { ...entry, accountIds: ['capital', 'bank'] })).toBe(true);
+    });
+  });
+
+  describe('approvalBlocker', () => {
+    const request = { documentType: 'journal_entry' as const, requestedByUserId: 'maker' };
+
+    it('should stop the maker approving their own document', () => {
+      expect(approvalBlocker(request, ['owner'], { userId: 'maker', role: 'owner' }))
+        .toBe('A journal entry must be approved by someone other than the person who submitted it');
+    });
+
+    it('should stop the creator approving a document someone else submitted', () => {
+      expect(approvalBlocker(request, ['owner'], { userId: 'creator', role: 'owner' }, 'creator'))
+        .toBe('A journal entry must be approved by someone other than the person who created it');
+      expect(approvalBlocker(request, ['owner'], { userId: 'checker', role: 'owner' }, 'creator')).toBeNull();
+    });
+
+    it('should need one of the approver roles', () => {
+      expect(approvalBlocker(request, ['owner'], { userId: 'checker', role: 'accountant' }))
+        .toBe('Your role cannot approve this journal entry');
+      expect(approvalBlocker(request, ['owner'], { userId: 'checker', role: undefined }))
+        .toBe('Your role cannot approve this journal entry');
+    });
+
+    it('should allow another user in an approver role', () => {
+      expect(approvalBlocker(request, ['owner', 'accountant'], { userId: 'checker', role: 'accountant' })).toBeNull();
+    });
+  });
+
+  describe('requestApproverRoles', () => {
+    it('should fall back to every approver role when the policy is gone', () => {
+      expect(requestApproverRoles({ policy: policy({ approverRoles: ['owner'] }) })).toEqual(['owner']);
+      expect(requestApproverRoles({ policy: null })).toEqual(['owner', 'accountant']);
+    });
+  });
+
+  describe('validateApprovalPolicy', () => {
+    const valid = { documentType: 'journal_entry', name: 'Bank entries', approverRoles: ['owner'] };
+
+    it('should accept a valid policy', () => {
+      expect(validateApprovalPolicy(valid)).toBeNull();
+      expect(validateApprovalPolicy({ ...valid, minAmount: 0, entryTypes: ['manual'] })).toBeNull();
+    });
+
+    it('should reject unknown document types and missing names', () => {
+      expect(validateApprovalPolicy({ ...valid, documentType: 'invoice' })).toBe('Document type must be journal_entry, expense or bill');
+      expect(validateApprovalPolicy({ ...valid, name: ' ' })).toBe('Name is required');
+    });
+
+    it('should reject a negative threshold', () => {
+      expect(validateApprovalPolicy({ ...valid, minAmount: -1 })).toBe('Minimum amount must be zero or more');
+    });
+
+    it('should keep entry types to journal entry policies', () => {
+      expect(validateApprovalPolicy({ ...valid, documentType: 'bill', entryTypes: ['manual'] }))
+        .toBe('Entry types apply only to journal entry policies');
+      expect(validateApprovalPolicy({ ...valid, entryTypes: ['payroll'] })).toBe('Unknown entry type: payroll');
+    });
+
+    it('should only allow roles that can write accounting documents to approve', () => {
+      expect(validateApprovalPolicy({ ...valid, approverRoles: [] })).toBe('At least one approver role is required');
+      expect(validateApprovalPolicy({ ...valid, approverRoles: ['auditor'] }))
+        .toBe('Approvers must have one of these roles: owner, accountant');
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { resolveAuditTarget, type AuditedResource } from '../../server/src/middleware/auditTrail';
+
+const ID = '3f2b8c1e-5d4a-4e6f-9a7b-1c2d3e4f5a6b';
+
+const invoiceResources: AuditedResource[] = [{ path: '', entityType: 'invoice' }];
+
+const gstResources: AuditedResource[] = [
+  { path: '/config', entityType: 'gst_config' },
+  { path: '/itc', entityType: 'itc_entry' },
+];
+
+describe('Audit trail', () => {
+  describe('resolveAuditTarget', () => {
+    it('should map HTTP methods to create, update and delete', () => {
+      expect(resolveAuditTarget('POST', '/', invoiceResources)).toMatchObject({ action: 'create', entityId: null });
+      expect(resolveAuditTarget('PATCH', `/${ID}`, invoiceResources)).toMatchObject({ action: 'update', entityId: ID });
+      expect(resolveAuditTarget('PUT', `/${ID}`, invoiceResources)).toMatchObject({ action: 'update', entityId: ID });
+      expect(resolveAuditTarget('DELETE', `/${ID}`, invoiceResources)).toMatchObject({ action: 'delete', entityId: ID });
+    });
+
+    it('should use the trailing verb for workflow actions', () => {
+      expect(resolveAuditTarget('POST', `/${ID}/post`, invoiceResources)).toMatchObject({ action: 'post', entityId: ID });
+      expect(resolveAuditTarget('POST', `/${ID}/reverse`, invoiceResources)?.action).toBe('reverse');
+      expect(resolveAuditTarget('POST', `/${ID}/cancel`, invoiceResources)?.action).toBe('cancel');
+      expect(resolveAuditTarget('POST', `/${ID}/record-payment`, invoiceResources)?.action).toBe('record_payment');
+    });
+
+    it('should ignore reads', () => {
+      expect(resolveAuditTarget('GET', `/${ID}`, invoiceResources)).toBeNull();
+    });
+
+    it('should pick the resource by path prefix', () => {
+      expect(resolveAuditTarget('PATCH', `/config/${ID}`, gstResources)).toMatchObject({
+        resource: { entityType: 'gst_config' },
+        action: 'update',
+        entityId: ID,
+      });
+      expect(resolveAuditTarget('POST', `/itc/${ID}/accept`, gstResources)).toMatchObject({
+        resource: { entityType: 'itc_entry' },
+        action: 'accept',
+      });
+      expect(resolveAuditTarget('POST', '/itc/reconcile', gstResources)).toMatchObject({ action: 'reconcile', entityId: null });
+    });
+
+    it('should skip paths outside the audited resources', () => {
+      expect(resolveAuditTarget('POST', '/einvoice/generate', gstResources)).toBeNull();
+      expect(resolveAuditTarget('POST', '/configuration', gstResources)).toBeNull();
+    });
+  });
+});
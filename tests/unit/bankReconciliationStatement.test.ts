@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildBankReconciliationStatement,
+  summarizeStatement,
+  periodEndDates,
+  dailyClosingBalances,
+  type BankEntry,
+  type BookEntry,
+} from '../../server/src/services/bankReconciliation/reconciliationStatement';
+
+const book = (id: string, date: string, debit: number, credit: number, reconciledOn: string | null = null): BookEntry => ({
+  journalEntryId: id,
+  date,
+  entryNumber: `JV-${id}`,
+  description: `Entry ${id}`,
+  debit,
+  credit,
+  reconciledOn,
+});
+
+const bank = (id: string, date: string, debit: number, credit: number, journalEntryIds: string[] = []): BankEntry => ({
+  id,
+  date,
+  description: `Line ${id}`,
+  debit,
+  credit,
+  journalEntryIds,
+});
+
+// Opening 1,00,000; a receipt and a cheque cleared in March, a cheque and a
+// deposit still with the bank, and bank charges and interest not yet booked
+const bookEntries = [
+  book('r1', '2026-03-05', 50000, 0),
+  book('c1', '2026-03-10', 0, 20000),
+  book('c2', '2026-03-28', 0, 15000),
+  book('d1', '2026-03-31', 8000, 0),
+];
+const bankEntries = [
+  bank('b1', '2026-03-06', 0, 50000, ['r1']),
+  bank('b2', '2026-03-14', 20000, 0, ['c1']),
+  bank('b3', '2026-03-31', 236, 0),
+  bank('b4', '2026-03-31', 0, 1250),
+  bank('b5', '2026-04-03', 15000, 0, ['c2']),
+];
+
+const section = (statement: ReturnType<typeof buildBankReconciliationStatement>, key: string) =>
+  statement.sections.find(s => s.key === key)!;
+
+describe('Bank Reconciliation Statement', () => {
+  describe('buildBankReconciliationStatement', () => {
+    it('should reconcile the book balance to the bank balance', () => {
+      const statement = buildBankReconciliationStatement('2026-03-31', 100000, bookEntries, bankEntries, 130014);
+
+      expect(statement.balancePerBooks).toBe(123000);
+      expect(section(statement, 'chequesNotPresented').total).toBe(15000);
+      expect(section(statement, 'depositsNotCredited').total).toBe(8000);
+      expect(section(statement, 'bankDebitsNotInBooks').total).toBe(236);
+      expect(section(statement, 'bankCreditsNotInBooks').total).toBe(1250);
+      // 1,23,000 + 15,000 - 8,000 - 236 + 1,250
+      expect(statement.balancePerBank).toBe(131014);
+      expect(statement.difference).toBe(-1000);
+    });
+
+    it('should list the items in each section with the date they later cleared', () => {
+      const statement = buildBankReconciliationStatement('2026-03-31', 100000, bookEntries, bankEntries);
+      const cheques = section(statement, 'chequesNotPresented');
+
+      expect(cheques.items).toEqual([{
+        source: 'book',
+        id: 'c2',
+        date: '2026-03-28',
+        reference: 'JV-c2',
+        description: 'Entry c2',
+        amount: 15000,
+        clearedOn: '2026-04-03',
+      }]);
+      expect(section(statement, 'bankDebitsNotInBooks').items.map(item => item.id)).toEqual(['b3']);
+      expect(statement.difference).toBeNull();
+    });
+
+    it('should give the statement for any earlier date from the same history', () => {
+      const statement = buildBankReconciliationStatement('2026-03-10', 100000, bookEntries, bankEntries);
+
+      expect(statement.balancePerBooks).toBe(130000);
+      expect(section(statement, 'chequesNotPresented').items.map(item => item.id)).toEqual(['c1']);
+      expect(statement.balancePerBank).toBe(150000);
+    });
+
+    it('should treat entries ticked off in a reconciliation session as cleared', () => {
+      const statement = buildBankReconciliationStatement('2026-03-31', 0, [book('c3', '2026-03-20', 0, 5000, '2026-03-31')], []);
+      expect(section(statement, 'chequesNotPresented').items).toEqual([]);
+      expect(statement.balancePerBank).toBe(-5000);
+    });
+
+    it('should keep bank lines matched to entries on other accounts as not in the books', () => {
+      const statement = buildBankReconciliationStatement('2026-03-31', 0, [], [bank('x', '2026-03-15', 100, 0, ['elsewhere'])]);
+      expect(section(statement, 'bankDebitsNotInBooks').total).toBe(100);
+    });
+  });
+
+  describe('summarizeStatement', () => {
+    it('should total each section and count the items', () => {
+      const summary = summarizeStatement(buildBankReconciliationStatement('2026-03-31', 100000, bookEntries, bankEntries, 131014));
+      expect(summary).toEqual({
+        asOfDate: '2026-03-31',
+        balancePerBooks: 123000,
+        chequesNotPresented: 15000,
+        depositsNotCredited: 8000,
+        bankDebitsNotInBooks: 236,
+        bankCreditsNotInBooks: 1250,
+        balancePerBank: 131014,
+        statementBalance: 131014,
+        difference: 0,
+        items: 4,
+      });
+    });
+  });
+
+  describe('periodEndDates', () => {
+    it('should list quarter ends across a year end', () => {
+      expect(periodEndDates('2025-11-15', '2026-09-30')).toEqual(['2025-12-31', '2026-03-31', '2026-06-30', '2026-09-30']);
+    });
+
+    it('should list month ends including February', () => {
+      expect(periodEndDates('2028-01-01', '2028-03-15', 'month')).toEqual(['2028-01-31', '2028-02-29']);
+      expect(periodEndDates('2026-05-01', '2026-04-01', 'month')).toEqual([]);
+    });
+  });
+
+  describe('dailyClosingBalances', () => {
+    // Opening 10,000; a receipt of 5,000 then a payment of 2,000 on the 5th
+    const oldestFirst = [
+      { date: '2026-03-04', debit: 0, credit: 0, balance: 10000 },
+      { date: '2026-03-05', debit: 0, credit: 5000, balance: 15000 },
+      { date: '2026-03-05', debit: 2000, credit: 0, balance: 13000 },
+    ];
+
+    it('should take the line the others lead up to, in either statement order', () => {
+      expect(dailyClosingBalances(oldestFirst)).toEqual([
+        { date: '2026-03-05', balance: 13000 },
+        { date: '2026-03-04', balance: 10000 },
+      ]);
+      // A statement exported newest first is imported in that order
+      expect(dailyClosingBalances([...oldestFirst].reverse())[0]).toEqual({ date: '2026-03-05', balance: 13000 });
+    });
+
+    it('should fall back to the line imported last when the balances do not tell', () => {
+      expect(dailyClosingBalances([
+        { date: '2026-03-05', debit: 0, credit: 500, balance: 8000 },
+        { date: '2026-03-05', debit: 0, credit: 700, balance: 9000 },
+      ])).toEqual([{ date: '2026-03-05', balance: 9000 }]);
+    });
+  });
+});
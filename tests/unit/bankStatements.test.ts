@@ -0,0 +1,336 @@
+import { describe, it, expect } from 'vitest';
+import ExcelJS from 'exceljs';
+import {
+  parseStatementDate,
+  parseStatementAmount,
+  detectDelimiter,
+  splitDelimited,
+  detectHeader,
+  tabularStatement,
+  parseOfx,
+  parseMt940,
+  parseCamt053,
+  parseStatement,
+  registerStatementParser,
+  getStatementParsers,
+} from '../../server/src/services/bankStatements';
+
+const csv = (rows: string[][]) => rows.map(row => row.join(',')).join('\n');
+
+async function parsed(content: string, options: Parameters<typeof parseStatement>[1] = {}) {
+  const result = await parseStatement(content, options);
+  if ('error' in result) throw new Error(result.error);
+  return result.statement;
+}
+
+describe('Bank Statements', () => {
+  describe('parseStatementDate', () => {
+    it('should read numeric dates day first', () => {
+      expect(parseStatementDate('01/04/2024')).toBe('2024-04-01');
+      expect(parseStatementDate('5-3-24')).toBe('2024-03-05');
+      expect(parseStatementDate('31.12.2023')).toBe('2023-12-31');
+    });
+
+    it('should read ISO dates and named months', () => {
+      expect(parseStatementDate('2024-04-01T10:15:00')).toBe('2024-04-01');
+      expect(parseStatementDate('01-Apr-2024')).toBe('2024-04-01');
+      expect(parseStatementDate('1 Sept 24')).toBe('2024-09-01');
+    });
+
+    it('should reject text and impossible dates', () => {
+      expect(parseStatementDate('Opening Balance')).toBeNull();
+      expect(parseStatementDate('31/02/2024')).toBeNull();
+      expect(parseStatementDate('')).toBeNull();
+    });
+  });
+
+  describe('parseStatementAmount', () => {
+    it('should strip currency symbols and digit grouping', () => {
+      expect(parseStatementAmount('₹1,25,000.50')).toBe(125000.5);
+      expect(parseStatementAmount('INR 500')).toBe(500);
+    });
+
+    it('should read negative amounts', () => {
+      expect(parseStatementAmount('-250.00')).toBe(-250);
+      expect(parseStatementAmount('(1,000.00)')).toBe(-1000);
+      expect(parseStatementAmount('5,000.00 Dr')).toBe(-5000);
+      expect(parseStatementAmount('5,000.00 Cr')).toBe(5000);
+    });
+
+    it('should return null for blanks and text', () => {
+      expect(parseStatementAmount('')).toBeNull();
+      expect(parseStatementAmount('-')).toBeNull();
+      expect(parseStatementAmount('NEFT')).toBeNull();
+    });
+  });
+
+  describe('delimited files', () => {
+    it('should detect the delimiter', () => {
+      expect(detectDelimiter('a,b,c\n1,2,3')).toBe(',');
+      expect(detectDelimiter('a\tb\tc\n1\t2\t3')).toBe('\t');
+      expect(detectDelimiter('a;b;c\n1;2;3')).toBe(';');
+      expect(detectDelimiter('just some text\nwithout columns')).toBeNull();
+    });
+
+    it('should keep quoted delimiters and escaped quotes', () => {
+      expect(splitDelimited('"1,000.00","Say ""hi""",x', ',')).toEqual([['1,000.00', 'Say "hi"', 'x']]);
+    });
+  });
+
+  describe('bank layouts', () => {
+    it('should find the HDFC heading row below the account details', () => {
+      const rows = [
+        ['HDFC BANK Ltd.'],
+        ['Account No', '50100012345678'],
+        ['Date', 'Narration', 'Chq./Ref.No.', 'Value Dt', 'Withdrawal Amt.', 'Deposit Amt.', 'Closing Balance'],
+        ['01/04/24', 'UPI-SWIGGY', '0000412345', '01/04/24', '450.00', '', '99,550.00'],
+        ['02/04/24', 'NEFT CR-ACME LTD', 'N093241234', '02/04/24', '', '25,000.00', '1,24,550.00'],
+      ];
+      const statement = tabularStatement(rows, 'csv');
+      expect(statement.bank).toBe('HDFC Bank');
+      expect(statement.transactions).toEqual([
+        { date: '2024-04-01', valueDate: '2024-04-01', description: 'UPI-SWIGGY', reference: '0000412345', debit: 450, credit: undefined, balance: 99550 },
+        { date: '2024-04-02', valueDate: '2024-04-02', description: 'NEFT CR-ACME LTD', reference: 'N093241234', debit: undefined, credit: 25000, balance: 124550 },
+      ]);
+    });
+
+    it('should recognise ICICI, SBI and Axis layouts', () => {
+      const icici = detectHeader([['S No.', 'Value Date', 'Transaction Date', 'Cheque Number', 'Transaction Remarks', 'Withdrawal Amount (INR )', 'Deposit Amount (INR )', 'Balance (INR )']]);
+      expect(icici?.bank).toBe('ICICI Bank');
+      expect(icici?.columns).toMatchObject({ date: 2, valueDate: 1, description: 4, debit: 5, credit: 6, balance: 7 });
+
+      const sbi = detectHeader([['Txn Date', 'Value Date', 'Description', 'Ref No./Cheque No.', 'Debit', 'Credit', 'Balance']]);
+      expect(sbi?.bank).toBe('State Bank of India');
+      expect(sbi?.columns).toMatchObject({ date: 0, description: 2, reference: 3, debit: 4, credit: 5 });
+
+      const axis = detectHeader([['Tran Date', 'CHQNO', 'PARTICULARS', 'DR', 'CR', 'BAL', 'SOL']]);
+      expect(axis?.bank).toBe('Axis Bank');
+      expect(axis?.columns).toMatchObject({ date: 0, reference: 1, description: 2, debit: 3, credit: 4, balance: 5 });
+    });
+
+    it('should read Kotak amounts from the Dr/Cr column', () => {
+      const rows = [
+        ['Sl. No.', 'Transaction Date', 'Value Date', 'Description', 'Chq / Ref No.', 'Amount', 'Dr / Cr', 'Balance', 'Dr / Cr'],
+        ['1', '01-04-2024', '01-04-2024', 'IMPS-RENT', 'REF1', '30,000.00', 'DR', '70,000.00', 'CR'],
+        ['2', '03-04-2024', '03-04-2024', 'INT.PD', '', '120.00', 'CR', '70,120.00', 'CR'],
+      ];
+      const statement = tabularStatement(rows, 'xlsx');
+      expect(statement.bank).toBe('Kotak Mahindra Bank');
+      expect(statement.transactions.map(t => [t.debit, t.credit])).toEqual([[30000, undefined], [undefined, 120]]);
+    });
+
+    it('should fall back to common heading words', () => {
+      const header = detectHeader([['Posting Date', 'Details', 'Reference', 'Debit Amount', 'Credit Amount', 'Running Balance']]);
+      expect(header?.bank).toBeNull();
+      expect(header?.columns).toMatchObject({ date: 0, description: 1, reference: 2, debit: 3, credit: 4, balance: 5 });
+    });
+
+    it('should join wrapped narrations and skip the summary rows', () => {
+      const rows = [
+        ['Txn Date', 'Value Date', 'Description', 'Ref No./Cheque No.', 'Debit', 'Credit', 'Balance'],
+        ['1 Apr 2024', '1 Apr 2024', 'TO TRANSFER-INB', 'TRF1', '1,000.00', '', '9,000.00'],
+        ['', '', 'Electricity Board'],
+        ['2 Apr 2024', '2 Apr 2024', 'BY CLEARING', 'CLG2', '', '500.00', '9,500.00'],
+        ['**Computer generated statement'],
+      ];
+      const statement = tabularStatement(rows, 'csv');
+      expect(statement.transactions.map(t => t.description)).toEqual(['TO TRANSFER-INB Electricity Board', 'BY CLEARING']);
+    });
+
+    it('should join the wrapped narration of the last transaction', () => {
+      const rows = [
+        ['Txn Date', 'Value Date', 'Description', 'Ref No./Cheque No.', 'Debit', 'Credit', 'Balance'],
+        ['1 Apr 2024', '1 Apr 2024', 'BY CLEARING', 'CLG1', '', '500.00', '9,500.00'],
+        ['2 Apr 2024', '2 Apr 2024', 'TO TRANSFER-INB', 'TRF2', '1,000.00', '', '8,500.00'],
+        ['', '', 'Electricity Board'],
+        ['**Computer generated statement'],
+      ];
+      const statement = tabularStatement(rows, 'csv');
+      expect(statement.transactions.map(t => t.description)).toEqual(['BY CLEARING', 'TO TRANSFER-INB Electricity Board']);
+    });
+
+    it('should fail when no heading row is found', () => {
+      expect(() => tabularStatement([['a', 'b'], ['1', '2']], 'csv'))
+        .toThrow('Could not find the column headings (date, description and amounts) in the statement');
+    });
+  });
+
+  describe('parseOfx', () => {
+    it('should read SGML OFX transactions and balances', () => {
+      const ofx = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>INR
+<BANKACCTFROM><BANKID>HDFC0000001<ACCTID>50100012345678</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240401120000[+5.30:IST]<TRNAMT>-1500.00<FITID>T1<NAME>AMAZON<MEMO>Office supplies</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240402<TRNAMT>20000<FITID>T2<CHECKNUM>000123<NAME>Acme &amp; Co</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>118500.00<DTASOF>20240402</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+      const statement = parseOfx(ofx);
+      expect(statement).toMatchObject({ accountNumber: '50100012345678', currency: 'INR', closingBalance: 118500 });
+      expect(statement.transactions).toEqual([
+        { date: '2024-04-01', valueDate: undefined, description: 'AMAZON - Office supplies', reference: 'T1', debit: 1500, credit: undefined },
+        { date: '2024-04-02', valueDate: undefined, description: 'Acme & Co', reference: '000123', debit: undefined, credit: 20000 },
+      ]);
+    });
+  });
+
+  describe('parseMt940', () => {
+    it('should read statement lines, narrations and balances', () => {
+      const mt940 = [
+        ':20:STMT240401',
+        ':25:DEUTDEFF/123456789',
+        ':28C:00001/001',
+        ':60F:C240331INR100000,00',
+        ':61:2404010401D1500,00NTRFNONREF//BANKREF1',
+        ':86:UPI PAYMENT TO',
+        'SWIGGY',
+        ':61:240402C25000,50NTRFINV-42',
+        ':86:NEFT FROM ACME LTD',
+        ':61:240403RD200,00NCHG',
+        ':62F:C240403INR123300,50',
+        '-',
+      ].join('\n');
+      const statement = parseMt940(mt940);
+      expect(statement).toMatchObject({ accountNumber: 'DEUTDEFF/123456789', currency: 'INR', openingBalance: 100000, closingBalance: 123300.5 });
+      expect(statement.transactions).toEqual([
+        { date: '2024-04-01', valueDate: undefined, description: 'UPI PAYMENT TO SWIGGY', reference: 'BANKREF1', debit: 1500, credit: undefined },
+        { date: '2024-04-02', valueDate: undefined, description: 'NEFT FROM ACME LTD', reference: 'INV-42', debit: undefined, credit: 25000.5 },
+        { date: '2024-04-03', valueDate: undefined, description: 'Transaction', reference: undefined, debit: undefined, credit: 200 },
+      ]);
+    });
+
+    it('should join structured ?NN narrations', () => {
+      const statement = parseMt940(':20:X\n:61:240401C10,00NTRFREF\n:86:166?00GUTSCHRIFT?20INV 42?21PAID?32ACME GMBH\n-');
+      expect(statement.transactions[0].description).toBe('GUTSCHRIFT INV 42 PAID ACME GMBH');
+    });
+  });
+
+  describe('parseCamt053', () => {
+    const camt = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Acct><Id><Othr><Id>912020012345678</Id></Othr></Id><Ccy>INR</Ccy>
+        <Svcr><FinInstnId><Nm>Axis Bank</Nm></FinInstnId></Svcr></Acct>
+      <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="INR">50000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+      <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="INR">47000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+      <Ntry>
+        <Amt Ccy="INR">3000.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-04-05</Dt></BookgDt><ValDt><Dt>2024-04-06</Dt></ValDt>
+        <AcctSvcrRef>AX123</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+          <RltdPties><Cdtr><Nm>Power &amp; Light Co</Nm></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Bill April</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="INR">800.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><RvslInd>true</RvslInd>
+        <BookgDt><DtTm>2024-04-07T09:00:00</DtTm></BookgDt>
+        <AddtlNtryInf>Charges reversed</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+    it('should read the account, balances and entries', () => {
+      const statement = parseCamt053(camt);
+      expect(statement).toMatchObject({
+        format: 'camt053',
+        bank: 'Axis Bank',
+        accountNumber: '912020012345678',
+        currency: 'INR',
+        openingBalance: 50000,
+        closingBalance: 47000,
+      });
+      expect(statement.transactions[0]).toEqual({
+        date: '2024-04-05',
+        valueDate: '2024-04-06',
+        description: 'Power & Light Co - Bill April',
+        reference: 'AX123',
+        debit: 3000,
+        credit: undefined,
+      });
+    });
+
+    it('should treat a reversed credit as money out', () => {
+      const [, reversal] = parseCamt053(camt).transactions;
+      expect(reversal).toMatchObject({ date: '2024-04-07', description: 'Charges reversed', debit: 800, credit: undefined });
+    });
+  });
+
+  describe('parseStatement', () => {
+    const hdfc = csv([
+      ['Date', 'Narration', 'Chq./Ref.No.', 'Value Dt', 'Withdrawal Amt.', 'Deposit Amt.', 'Closing Balance'],
+      ['01/04/24', 'ATM WDL', '', '01/04/24', '2000.00', '', '8000.00'],
+    ]);
+
+    it('should detect the format from the content', async () => {
+      expect((await parsed(hdfc)).format).toBe('csv');
+      expect((await parsed(':20:X\n:25:ACC\n:61:240401C10,00NTRFREF\n:86:IN\n-')).format).toBe('mt940');
+      expect((await parsed('OFXHEADER:100\n<OFX><STMTTRN><DTPOSTED>20240401<TRNAMT>5<NAME>X</STMTTRN></OFX>')).format).toBe('ofx');
+    });
+
+    it('should read text copied from a PDF statement', async () => {
+      const text = [
+        'Statement of account',
+        'Txn Date       Description                Ref No./Cheque No.     Debit        Credit       Balance',
+        '01-04-2024     NEFT ACME LTD              N1234                               1,25,000.00  2,25,000.00',
+      ].join('\n');
+      const statement = await parsed(text);
+      expect(statement.format).toBe('text');
+      expect(statement.transactions[0]).toMatchObject({ description: 'NEFT ACME LTD', credit: 125000, balance: 225000 });
+    });
+
+    it('should read Excel workbooks sent as base64', async () => {
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('Statement');
+      sheet.addRow(['Account Statement']);
+      sheet.addRow(['Tran Date', 'CHQNO', 'PARTICULARS', 'DR', 'CR', 'BAL']);
+      sheet.addRow([new Date(Date.UTC(2024, 3, 10)), '', 'NEFT/ACME', null, 7500, 17500]);
+      const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+      const statement = await parsed(buffer.toString('base64'), { encoding: 'base64', fileName: 'statement.xlsx' });
+      expect(statement).toMatchObject({ format: 'xlsx', bank: 'Axis Bank' });
+      expect(statement.transactions).toEqual([
+        { date: '2024-04-10', valueDate: undefined, description: 'NEFT/ACME', reference: undefined, debit: undefined, credit: 7500, balance: 17500 },
+      ]);
+    });
+
+    it('should read HTML tables saved as .xls', async () => {
+      const html = `<html><body><table>
+        <tr><td>Date</td><td>Narration</td><td>Withdrawal Amt.</td><td>Deposit Amt.</td><td>Closing Balance</td></tr>
+        <tr><td>01/04/2024</td><td>CASH&nbsp;DEP</td><td></td><td>1,000.00</td><td>5,000.00</td></tr>
+      </table></body></html>`;
+      const statement = await parsed(html, { fileName: 'statement.xls' });
+      expect(statement.format).toBe('xlsx');
+      expect(statement.transactions[0]).toMatchObject({ description: 'CASH DEP', credit: 1000 });
+    });
+
+    it('should report unknown formats and empty statements', async () => {
+      expect(await parseStatement(hdfc, { format: 'qif' })).toEqual({ error: 'Unsupported format. Use one of: ofx, camt053, mt940, xlsx, csv, text' });
+      expect(await parseStatement(csv([['Date', 'Narration', 'Withdrawal Amt.', 'Deposit Amt.', 'Closing Balance']]), { format: 'csv' }))
+        .toEqual({ error: 'No transactions found in the statement' });
+      expect(await parseStatement(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0, 0]).toString('base64'), { encoding: 'base64', fileName: 'old.xls' }))
+        .toEqual({ error: 'Old .xls workbooks cannot be read; save the statement as .xlsx or CSV and upload it again' });
+    });
+
+    it('should let a registered parser replace a built-in one', async () => {
+      const original = getStatementParsers().find(parser => parser.format === 'ofx')!;
+      registerStatementParser({
+        ...original,
+        parse: () => ({ format: 'ofx', transactions: [{ date: '2024-04-01', description: 'Custom', credit: 1 }] }),
+      });
+      try {
+        const statement = await parsed('<OFX></OFX>', { format: 'ofx' });
+        expect(statement.transactions[0].description).toBe('Custom');
+        expect(getStatementParsers().map(parser => parser.format)).toEqual(['ofx', 'camt053', 'mt940', 'xlsx', 'csv', 'text']);
+      } finally {
+        registerStatementParser(original);
+      }
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fiscalYearMonths,
+  previousYearMonth,
+  naturalAmount,
+  phaseByWeights,
+  phaseEvenly,
+  phaseFromActuals,
+  validatePhasingWeights,
+  monthlyAmountsFor,
+  sumAmounts,
+  type MonthlyActual,
+} from '../../server/src/services/budgets/phasing';
+import { compareBudget, budgetForMonths } from '../../server/src/services/budgets/budgetVsActual';
+
+const months = fiscalYearMonths('2024-04-01', '2025-03-31');
+
+describe('Budgets', () => {
+  describe('fiscalYearMonths', () => {
+    it('should list the first day of each month of an April to March year', () => {
+      expect(months).toHaveLength(12);
+      expect(months[0]).toBe('2024-04-01');
+      expect(months[9]).toBe('2025-01-01');
+      expect(months[11]).toBe('2025-03-01');
+    });
+
+    it('should handle a short fiscal year', () => {
+      expect(fiscalYearMonths('2024-10-15', '2025-03-31')).toEqual([
+        '2024-10-01', '2024-11-01', '2024-12-01', '2025-01-01', '2025-02-01', '2025-03-01',
+      ]);
+    });
+  });
+
+  describe('previousYearMonth', () => {
+    it('should return the same month a year earlier', () => {
+      expect(previousYearMonth('2025-02-01')).toBe('2024-02-01');
+    });
+  });
+
+  describe('naturalAmount', () => {
+    it('should read expenses as debits and income as credits', () => {
+      expect(naturalAmount('expense', 500, 100)).toBe(400);
+      expect(naturalAmount('income', 100, 500)).toBe(400);
+    });
+  });
+
+  describe('phasing', () => {
+    it('should split evenly and keep the rounding difference in the total', () => {
+      const amounts = phaseEvenly(100000, 12);
+      expect(amounts).toHaveLength(12);
+      expect(amounts[1]).toBe(8333.33);
+      expect(sumAmounts(amounts)).toBe(100000);
+    });
+
+    it('should split by weights with the difference in the heaviest month', () => {
+      const amounts = phaseByWeights(1000, [1, 1, 1, 3]);
+      expect(amounts).toEqual([166.67, 166.67, 166.67, 499.99]);
+      expect(sumAmounts(amounts)).toBe(1000);
+    });
+
+    it('should not phase with no positive weight', () => {
+      expect(phaseByWeights(1000, [0, 0])).toEqual([]);
+      expect(phaseByWeights(1000, [])).toEqual([]);
+    });
+
+    it('should grow last year actuals by the growth percentage', () => {
+      expect(phaseFromActuals([1000, 0, 250.5], 10)).toEqual([1100, 0, 275.55]);
+      expect(phaseFromActuals([1000], -5)).toEqual([950]);
+    });
+  });
+
+  describe('validatePhasingWeights', () => {
+    it('should accept twelve non-negative weights', () => {
+      expect(validatePhasingWeights([1, 1, 1, 1, 1, 1, 1, 1, 2, 3, 0, 1])).toBeNull();
+    });
+
+    it('should reject the wrong number of weights', () => {
+      expect(validatePhasingWeights([1, 2, 3])).toBe('A template needs twelve monthly weights');
+      expect(validatePhasingWeights('even')).toBe('A template needs twelve monthly weights');
+    });
+
+    it('should reject negative and all-zero weights', () => {
+      expect(validatePhasingWeights([-1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1])).toBe('Weights must be zero or more');
+      expect(validatePhasingWeights(Array(12).fill(0))).toBe('At least one weight must be more than zero');
+    });
+  });
+
+  describe('monthlyAmountsFor', () => {
+    const actuals: MonthlyActual[] = [
+      { accountId: 'rent', costCenterId: 'north', periodStart: '2024-04-01', debit: 1000, credit: 0 },
+      { accountId: 'rent', costCenterId: 'south', periodStart: '2024-04-01', debit: 500, credit: 0 },
+      { accountId: 'rent', costCenterId: null, periodStart: '2024-05-01', debit: 800, credit: 100 },
+      { accountId: 'sales', costCenterId: 'north', periodStart: '2024-04-01', debit: 0, credit: 9000 },
+      { accountId: 'rent', costCenterId: 'north', periodStart: '2023-04-01', debit: 700, credit: 0 },
+    ];
+
+    it('should total every cost center without a filter', () => {
+      const amounts = monthlyAmountsFor(actuals, 'rent', 'expense', months, null);
+      expect(amounts[0]).toBe(1500);
+      expect(amounts[1]).toBe(700);
+      expect(sumAmounts(amounts)).toBe(2200);
+    });
+
+    it('should keep only the given cost centers', () => {
+      const amounts = monthlyAmountsFor(actuals, 'rent', 'expense', months, new Set(['north']));
+      expect(sumAmounts(amounts)).toBe(1000);
+    });
+
+    it('should use the natural sign of income accounts', () => {
+      expect(monthlyAmountsFor(actuals, 'sales', 'income', months, null)[0]).toBe(9000);
+    });
+  });
+
+  describe('compareBudget', () => {
+    it('should show spending under budget as a favourable variance', () => {
+      expect(compareBudget('expense', 1000, 750)).toEqual({
+        budget: 1000,
+        actual: 750,
+        variance: 250,
+        percentConsumed: 75,
+      });
+    });
+
+    it('should show income under budget as an adverse variance', () => {
+      expect(compareBudget('income', 1000, 750).variance).toBe(-250);
+    });
+
+    it('should leave the percentage consumed empty without a budget', () => {
+      expect(compareBudget('expense', 0, 100).percentConsumed).toBeNull();
+    });
+  });
+
+  describe('budgetForMonths', () => {
+    it('should total the months the date range touches', () => {
+      const monthly = Array(12).fill(100);
+      expect(budgetForMonths(monthly, months, '2024-04-01', '2024-06-15')).toBe(300);
+      expect(budgetForMonths(monthly, months, '2024-04-01', '2025-03-31')).toBe(1200);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  tokenizeTransaction,
+  createCategorizationModel,
+  learnExample,
+  learnDecision,
+  predictCategory,
+  calibrateConfidence,
+  trainCategorizationModel,
+  type CategorizationExample,
+} from '../../server/src/services/bankFeeds/categorizationModel';
+
+const example = (
+  description: string,
+  accountId: string,
+  partyId: string | null = null,
+  amounts: { debitAmount?: string; creditAmount?: string } = { debitAmount: '1500.00' }
+): CategorizationExample => ({ description, accountId, partyId, ...amounts });
+
+// A company's history: rent and power paid out, customers paying in
+const history: CategorizationExample[] = [];
+for (let month = 1; month <= 12; month++) {
+  history.push(example(`NEFT/${100000 + month}/SHARMA ESTATES RENT`, 'rent', 'sharma', { debitAmount: '45000.00' }));
+  history.push(example(`UPI/${200000 + month}/TATA POWER BILL`, 'power', null, { debitAmount: '3200.00' }));
+  history.push(example(`NEFT CR/${300000 + month}/ACME TRADERS`, 'debtors', 'acme', { creditAmount: '118000.00' }));
+}
+
+describe('Categorization Model', () => {
+  describe('tokenizeTransaction', () => {
+    it('should keep narration words and drop numbers, references and filler', () => {
+      expect(tokenizeTransaction({ description: 'UPI/412345678901/Swiggy Bangalore/Paid', debitAmount: '450' }))
+        .toEqual(['upi', 'swiggy', 'bangalore', '#out', '#amount2']);
+    });
+
+    it('should mark money in and the order of magnitude', () => {
+      expect(tokenizeTransaction({ description: 'Interest', creditAmount: '12500.00' }))
+        .toEqual(['interest', '#in', '#amount4']);
+      expect(tokenizeTransaction({ description: '' })).toEqual(['#out']);
+    });
+  });
+
+  describe('predictCategory', () => {
+    const model = createCategorizationModel();
+    history.forEach(e => learnExample(model, e));
+
+    it('should rank the account learned from similar narrations first', () => {
+      const prediction = predictCategory(model, { description: 'NEFT/999999/SHARMA ESTATES RENT APR', debitAmount: '45000' });
+      expect(prediction.accounts[0].id).toBe('rent');
+      expect(prediction.parties[0].id).toBe('sharma');
+      expect(prediction.accounts.map(s => s.id)).toHaveLength(3);
+    });
+
+    it('should use the direction of money to tell similar narrations apart', () => {
+      const prediction = predictCategory(model, { description: 'NEFT', creditAmount: '100000' });
+      expect(prediction.accounts[0].id).toBe('debtors');
+    });
+
+    it('should return confidences between 0 and 100, highest first', () => {
+      const { accounts } = predictCategory(model, { description: 'TATA POWER', debitAmount: '2900' });
+      expect(accounts[0].id).toBe('power');
+      for (const suggestion of accounts) {
+        expect(suggestion.confidence).toBeGreaterThanOrEqual(0);
+        expect(suggestion.confidence).toBeLessThanOrEqual(100);
+      }
+      expect(accounts[0].confidence).toBeGreaterThan(accounts[1].confidence);
+    });
+
+    it('should suggest nothing before anything is learned', () => {
+      expect(predictCategory(createCategorizationModel(), { description: 'RENT' })).toEqual({ accounts: [], parties: [] });
+    });
+  });
+
+  describe('learning', () => {
+    it('should learn corrections straight away', () => {
+      const model = createCategorizationModel();
+      history.forEach(e => learnExample(model, e));
+      const swiggy = { description: 'UPI/555555/SWIGGY', debitAmount: '3200.00' };
+
+      expect(predictCategory(model, swiggy).accounts[0].id).not.toBe('staff_welfare');
+      learnDecision(model, example('UPI/555555/SWIGGY', 'staff_welfare', null, { debitAmount: '3200.00' }), 'power');
+      learnDecision(model, example('UPI/555556/SWIGGY', 'staff_welfare', null, { debitAmount: '3000.00' }), 'power');
+      learnDecision(model, example('UPI/555557/SWIGGY', 'staff_welfare', null, { debitAmount: '2800.00' }), 'power');
+      expect(predictCategory(model, swiggy).accounts[0].id).toBe('staff_welfare');
+      expect(model.feedback).toEqual({ accepted: 0, corrected: 3 });
+    });
+
+    it('should count accepted suggestions and ignore uncategorised examples', () => {
+      const model = createCategorizationModel();
+      learnDecision(model, example('RENT', 'rent'), 'rent');
+      learnExample(model, { description: 'X', accountId: null, partyId: null });
+      expect(model.feedback).toEqual({ accepted: 1, corrected: 0 });
+      expect(model.examples).toBe(1);
+    });
+  });
+
+  describe('calibrateConfidence', () => {
+    const bins = [
+      { from: 0, to: 0.5, predictions: 0, correct: 0 },
+      { from: 0.5, to: 0.9, predictions: 0, correct: 0 },
+      { from: 0.9, to: 1, predictions: 95, correct: 57 },
+    ];
+
+    it('should map overconfident probabilities to the accuracy observed', () => {
+      expect(calibrateConfidence(bins, 0.99)).toBeCloseTo(62, 0);
+      expect(calibrateConfidence(bins, 1)).toBeCloseTo(62, 0);
+    });
+
+    it('should keep the raw probability where nothing was observed', () => {
+      expect(calibrateConfidence(bins, 0.7)).toBe(70);
+    });
+  });
+
+  describe('trainCategorizationModel', () => {
+    it('should report cross-validated accuracy', () => {
+      const { model, report } = trainCategorizationModel(history);
+      expect(model.examples).toBe(36);
+      expect(report).toMatchObject({ examples: 36, evaluated: 36, folds: 5, partyExamples: 24 });
+      expect(report.accountAccuracy).toBe(100);
+      expect(report.topThreeAccuracy).toBe(100);
+      expect(report.partyAccuracy).toBe(100);
+      expect(report.accounts.find(a => a.accountId === 'rent')).toEqual({ accountId: 'rent', examples: 12, correct: 12, predicted: 12 });
+    });
+
+    it('should keep the calibration learned while cross-validating', () => {
+      const { model, report } = trainCategorizationModel(history);
+      expect(model.calibration.accounts).toEqual(report.calibration);
+      expect(report.calibration.reduce((sum, bin) => sum + bin.predictions, 0)).toBe(36);
+    });
+
+    it('should count mistakes against the right accounts', () => {
+      const confusing = [...history, example('SHARMA ESTATES', 'power'), example('TATA POWER', 'rent')];
+      const { report } = trainCategorizationModel(confusing);
+      expect(report.accountAccuracy).toBeLessThan(100);
+      expect(report.autoApplyAccuracy).toBeGreaterThanOrEqual(report.accountAccuracy);
+    });
+
+    it('should not evaluate a model trained on a single example', () => {
+      const { model, report } = trainCategorizationModel([example('RENT', 'rent')]);
+      expect(model.examples).toBe(1);
+      expect(report).toMatchObject({ examples: 1, evaluated: 0, folds: 0, accountAccuracy: 0 });
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateChequeTransition,
+  chequesDueWithin,
+  isPostDated,
+  formatChequeNumber,
+  validateChequeBookRange,
+  leavesRemaining,
+} from '../../server/src/services/cheques/lifecycle';
+import {
+  CHEQUE_LAYOUTS,
+  findBuiltInLayout,
+  validateChequeLayout,
+  amountInWords,
+  amountInFigures,
+  chequePrintFields,
+} from '../../server/src/services/cheques/printing';
+
+describe('Cheque lifecycle', () => {
+  const issued = { status: 'issued' as const, chequeDate: '2026-05-10' };
+
+  it('moves a cheque from issued through presented to cleared or bounced', () => {
+    expect(validateChequeTransition(issued, 'presented', '2026-05-10')).toBeNull();
+    expect(validateChequeTransition(issued, 'cleared', '2026-05-12')).toBeNull();
+
+    const presented = { status: 'presented' as const, chequeDate: '2026-05-10', presentedDate: '2026-05-11' };
+    expect(validateChequeTransition(presented, 'bounced', '2026-05-13')).toBeNull();
+    expect(validateChequeTransition(presented, 'cancelled', '2026-05-13')).toBe('A presented cheque cannot be marked cancelled');
+  });
+
+  it('keeps cleared, bounced and cancelled cheques final', () => {
+    for (const status of ['cleared', 'bounced', 'cancelled'] as const) {
+      expect(validateChequeTransition({ status, chequeDate: '2026-05-10' }, 'presented', '2026-06-01')).toBe(
+        `A ${status} cheque cannot be marked presented`
+      );
+    }
+  });
+
+  it('does not present a post-dated cheque before its date but can cancel it', () => {
+    expect(validateChequeTransition(issued, 'presented', '2026-05-09')).toBe(
+      'The cheque is dated 2026-05-10 and cannot be presented before then'
+    );
+    expect(validateChequeTransition(issued, 'cancelled', '2026-05-01')).toBeNull();
+  });
+
+  it('does not clear a cheque before it was presented', () => {
+    const presented = { status: 'presented' as const, chequeDate: '2026-05-10', presentedDate: '2026-05-15' };
+    expect(validateChequeTransition(presented, 'cleared', '2026-05-14')).toBe('The cheque was presented on 2026-05-15');
+  });
+
+  it('lists unpresented cheques due within the reminder window, overdue ones included', () => {
+    const cheques = [
+      { id: 'a', status: 'issued' as const, chequeDate: '2026-05-14' },
+      { id: 'b', status: 'issued' as const, chequeDate: '2026-05-08' },
+      { id: 'c', status: 'issued' as const, chequeDate: '2026-05-12' },
+      { id: 'd', status: 'presented' as const, chequeDate: '2026-05-11' },
+    ];
+
+    expect(chequesDueWithin(cheques, '2026-05-10', 3).map(cheque => cheque.id)).toEqual(['b', 'c']);
+    expect(isPostDated(cheques[0], '2026-05-10')).toBe(true);
+    expect(isPostDated(cheques[1], '2026-05-10')).toBe(false);
+  });
+});
+
+describe('Cheque books', () => {
+  it('checks the leaf range and counts the leaves left', () => {
+    expect(validateChequeBookRange({ firstNumber: 100001, lastNumber: 100050, nextNumber: 100001 })).toBeNull();
+    expect(validateChequeBookRange({ firstNumber: 100050, lastNumber: 100001, nextNumber: 100050 })).toBe(
+      'The last leaf must not be before the first'
+    );
+    expect(validateChequeBookRange({ firstNumber: 100001, lastNumber: 100050, nextNumber: 100052 })).toBe(
+      'The next leaf must be within the cheque book'
+    );
+    expect(validateChequeBookRange({ firstNumber: 1.5, lastNumber: 10, nextNumber: 2 })).toBe('Leaf numbers must be whole numbers');
+
+    expect(leavesRemaining({ firstNumber: 100001, lastNumber: 100050, nextNumber: 100041 })).toBe(10);
+    expect(leavesRemaining({ firstNumber: 100001, lastNumber: 100050, nextNumber: 100051 })).toBe(0);
+    expect(formatChequeNumber(42, 6)).toBe('000042');
+  });
+});
+
+describe('Cheque printing', () => {
+  it('writes amounts in words in lakhs and crores', () => {
+    expect(amountInWords(105000.5)).toBe('Rupees One Lakh Five Thousand and Fifty Paise Only');
+    expect(amountInWords(12345678)).toBe('Rupees One Crore Twenty Three Lakh Forty Five Thousand Six Hundred Seventy Eight Only');
+    expect(amountInWords(999)).toBe('Rupees Nine Hundred Ninety Nine Only');
+    expect(amountInWords(0.75)).toBe('Rupees Zero and Seventy Five Paise Only');
+  });
+
+  it('groups amounts in figures the Indian way and closes them off', () => {
+    expect(amountInFigures(105000.5)).toBe('1,05,000.50/-');
+    expect(amountInFigures(12345678)).toBe('1,23,45,678.00/-');
+    expect(amountInFigures(500)).toBe('500.00/-');
+  });
+
+  it('places the date one digit to a box and wraps long amounts to the second line', () => {
+    const { layout } = findBuiltInLayout('cts2010')!;
+    const fields = chequePrintFields(layout, {
+      chequeDate: '2026-05-10',
+      payeeName: 'Acme Supplies Pvt Ltd',
+      amount: 12345678.9,
+      accountPayee: true,
+    });
+
+    const dateDigits = fields.filter(field => field.name === 'date');
+    expect(dateDigits.map(field => field.text).join('')).toBe('10052026');
+    expect(dateDigits[1].xMm - dateDigits[0].xMm).toBe(layout.date.digitSpacingMm);
+
+    const words = fields.filter(field => field.name === 'amountInWords');
+    expect(words).toHaveLength(2);
+    expect(words.map(field => field.text).join(' ')).toBe(amountInWords(12345678.9));
+    expect(words[1]).toMatchObject({ xMm: layout.amountInWords.secondLine.xMm, yMm: layout.amountInWords.secondLine.yMm });
+
+    expect(fields.find(field => field.name === 'amountInFigures')?.text).toBe('1,23,45,678.90/-');
+    expect(fields.find(field => field.name === 'accountPayee')?.text).toBe('A/c Payee');
+  });
+
+  it('ships valid layouts for the major banks and rejects incomplete ones', () => {
+    for (const builtIn of CHEQUE_LAYOUTS) {
+      expect(validateChequeLayout(builtIn.layout)).toBeNull();
+    }
+    expect(findBuiltInLayout('hdfc')?.bankName).toBe('HDFC Bank');
+
+    const { payee, ...withoutPayee } = findBuiltInLayout('sbi')!.layout;
+    expect(payee).toBeDefined();
+    expect(validateChequeLayout(withoutPayee)).toBe('Position of payee is required');
+    expect(validateChequeLayout({ widthMm: 0, heightMm: 92 })).toBe('Leaf width and height are required');
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import {
+  costCenterSubtree,
+  costCenterProfitRows,
+  costCenterAccountRows,
+  type CostCenterNode,
+} from '../../server/src/services/costCenters/costCenterReports';
+import {
+  validateAllocationTargets,
+  allocateAmount,
+  allocationJournalLines,
+} from '../../server/src/services/costCenters/allocation';
+
+const centers: CostCenterNode[] = [
+  { id: 'north', code: 'BR-N', name: 'North Branch', parentCostCenterId: null },
+  { id: 'north-sales', code: 'BR-N-01', name: 'North Sales', parentCostCenterId: 'north' },
+  { id: 'north-ops', code: 'BR-N-02', name: 'North Operations', parentCostCenterId: 'north' },
+  { id: 'south', code: 'BR-S', name: 'South Branch', parentCostCenterId: null },
+];
+
+const accountTypes = new Map([
+  ['sales', 'income'],
+  ['rent', 'expense'],
+  ['salaries', 'expense'],
+  ['bank', 'asset'],
+]);
+
+describe('Cost centers', () => {
+  describe('costCenterSubtree', () => {
+    it('should include the cost center and every cost center below it', () => {
+      expect(costCenterSubtree(centers, 'north')).toEqual(new Set(['north', 'north-sales', 'north-ops']));
+      expect(costCenterSubtree(centers, 'north-sales')).toEqual(new Set(['north-sales']));
+    });
+
+    it('should stop on a cycle in the hierarchy', () => {
+      const cyclic: CostCenterNode[] = [
+        { id: 'a', code: 'A', name: 'A', parentCostCenterId: 'b' },
+        { id: 'b', code: 'B', name: 'B', parentCostCenterId: 'a' },
+      ];
+      expect(costCenterSubtree(cyclic, 'a')).toEqual(new Set(['a', 'b']));
+    });
+  });
+
+  describe('costCenterProfitRows', () => {
+    const lines = [
+      { costCenterId: 'north-sales', accountId: 'sales', debit: 0, credit: 50000 },
+      { costCenterId: 'north-ops', accountId: 'salaries', debit: 20000, credit: 0 },
+      { costCenterId: 'north', accountId: 'rent', debit: 5000, credit: 0 },
+      { costCenterId: 'south', accountId: 'sales', debit: 0, credit: 30000 },
+      { costCenterId: 'south', accountId: 'bank', debit: 30000, credit: 0 },
+      { costCenterId: null, accountId: 'rent', debit: 8000, credit: 0 },
+    ];
+
+    it('should roll totals up the tree in code order', () => {
+      const report = costCenterProfitRows(centers, lines, accountTypes);
+
+      expect(report.costCenters.map(row => [row.id, row.level])).toEqual([
+        ['north', 0],
+        ['north-sales', 1],
+        ['north-ops', 1],
+        ['south', 0],
+      ]);
+      const north = report.costCenters[0];
+      expect(north.own).toEqual({ income: 0, expenses: 5000, netProfit: -5000 });
+      expect(north.total).toEqual({ income: 50000, expenses: 25000, netProfit: 25000 });
+      expect(report.costCenters[3].total).toEqual({ income: 30000, expenses: 0, netProfit: 30000 });
+    });
+
+    it('should report untagged lines as unassigned and keep the company total', () => {
+      const report = costCenterProfitRows(centers, lines, accountTypes);
+
+      expect(report.unassigned).toEqual({ income: 0, expenses: 8000, netProfit: -8000 });
+      expect(report.total).toEqual({ income: 80000, expenses: 33000, netProfit: 47000 });
+    });
+  });
+
+  describe('costCenterAccountRows', () => {
+    it('should total accounts over the given cost centers only', () => {
+      const rows = costCenterAccountRows(
+        [
+          { costCenterId: 'north-sales', accountId: 'sales', debit: 0, credit: 50000 },
+          { costCenterId: 'south', accountId: 'sales', debit: 0, credit: 30000 },
+          { costCenterId: 'north-ops', accountId: 'rent', debit: 4000, credit: 1000 },
+        ],
+        costCenterSubtree(centers, 'north'),
+        [
+          { id: 'sales', code: '4000', name: 'Sales', accountType: 'income' },
+          { id: 'rent', code: '5100', name: 'Rent', accountType: 'expense' },
+        ]
+      );
+
+      expect(rows.map(row => [row.accountCode, row.debit, row.credit])).toEqual([
+        ['4000', 0, 50000],
+        ['5100', 4000, 1000],
+      ]);
+    });
+  });
+});
+
+describe('Cost allocation', () => {
+  describe('validateAllocationTargets', () => {
+    it('should require percentages to add up to 100', () => {
+      expect(validateAllocationTargets('percentage', [
+        { costCenterId: 'north', value: 60 },
+        { costCenterId: 'south', value: 30 },
+      ])).toBe('Percentages add up to 90, not 100');
+      expect(validateAllocationTargets('percentage', [
+        { costCenterId: 'north', value: 60 },
+        { costCenterId: 'south', value: 40 },
+      ])).toBeNull();
+    });
+
+    it('should reject empty, duplicate and non-positive targets', () => {
+      expect(validateAllocationTargets('driver', [])).toBe('At least one target cost center is required');
+      expect(validateAllocationTargets('driver', [
+        { costCenterId: 'north', value: 2 },
+        { costCenterId: 'north', value: 3 },
+      ])).toBe('Each target cost center can be listed only once');
+      expect(validateAllocationTargets('driver', [
+        { costCenterId: 'north', value: 0 },
+      ])).toBe('Driver quantities must be greater than zero');
+    });
+  });
+
+  describe('allocateAmount', () => {
+    it('should split by driver quantities', () => {
+      const shares = allocateAmount(90000, 'driver', [
+        { costCenterId: 'north', value: 12 },
+        { costCenterId: 'south', value: 6 },
+      ]);
+      expect(shares.map(share => share.amount)).toEqual([60000, 30000]);
+    });
+
+    it('should give the rounding difference to the largest share', () => {
+      const shares = allocateAmount(100, 'driver', [
+        { costCenterId: 'a', value: 1 },
+        { costCenterId: 'b', value: 1 },
+        { costCenterId: 'c', value: 1 },
+      ]);
+      expect(shares.map(share => share.amount)).toEqual([33.34, 33.33, 33.33]);
+      expect(shares.reduce((sum, share) => sum + share.amount, 0)).toBeCloseTo(100, 2);
+    });
+  });
+
+  describe('allocationJournalLines', () => {
+    const shares = allocateAmount(10000, 'percentage', [
+      { costCenterId: 'north', value: 70 },
+      { costCenterId: 'south', value: 30 },
+    ]);
+
+    it('should credit the pool and debit the targets for a debit balance', () => {
+      const lines = allocationJournalLines('rent', 'head-office', 10000, shares, 'Rent allocation');
+
+      expect(lines.map(line => [line.costCenterId, line.debitAmount, line.creditAmount])).toEqual([
+        ['head-office', '0', '10000.00'],
+        ['north', '7000.00', '0'],
+        ['south', '3000.00', '0'],
+      ]);
+      expect(lines.every(line => line.accountId === 'rent')).toBe(true);
+    });
+
+    it('should reverse the sides for a credit balance', () => {
+      const credit = allocateAmount(-1000, 'percentage', [{ costCenterId: 'north', value: 100 }]);
+      const lines = allocationJournalLines('rent', null, -1000, credit, 'Rent rebate');
+
+      expect(lines.map(line => [line.costCenterId, line.debitAmount, line.creditAmount])).toEqual([
+        [null, '1000.00', '0'],
+        ['north', '0', '1000.00'],
+      ]);
+    });
+
+    it('should post nothing for an empty pool', () => {
+      expect(allocationJournalLines('rent', null, 0, [], 'Nothing')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fiscalYearToken,
+  renderDocumentNumber,
+  parseDocumentNumber,
+  validateTemplate,
+  reusesReleasedNumbers,
+} from '../../server/src/services/numbering/documentNumbering';
+
+describe('Document numbering', () => {
+  describe('fiscalYearToken', () => {
+    it('should shorten an April to March year', () => {
+      expect(fiscalYearToken({ startDate: '2024-04-01', endDate: '2025-03-31' })).toBe('24-25');
+    });
+
+    it('should use the single year of a calendar year', () => {
+      expect(fiscalYearToken({ startDate: '2025-01-01', endDate: '2025-12-31' })).toBe('2025');
+    });
+  });
+
+  describe('renderDocumentNumber', () => {
+    it('should fill the fiscal year and padded sequence', () => {
+      expect(renderDocumentNumber('INV/{FY}/{SEQ:5}', { fiscalYear: '24-25' }, 42)).toBe('INV/24-25/00042');
+    });
+
+    it('should not pad an unsized sequence', () => {
+      expect(renderDocumentNumber('{SEQ}-{FY}-B2', { fiscalYear: '2025' }, 7)).toBe('7-2025-B2');
+    });
+
+    it('should fill the journal type', () => {
+      expect(renderDocumentNumber('{TYPE}/{FY}/{SEQ:5}', { fiscalYear: '24-25', type: 'RCV' }, 3)).toBe('RCV/24-25/00003');
+    });
+  });
+
+  describe('parseDocumentNumber', () => {
+    it('should read the sequence back from a rendered number', () => {
+      expect(parseDocumentNumber('INV/{FY}/{SEQ:5}', { fiscalYear: '24-25' }, 'INV/24-25/00042')).toBe(42);
+      expect(parseDocumentNumber('{TYPE}/{FY}/{SEQ:5}', { fiscalYear: '24-25' }, 'BK/24-25/00010')).toBe(10);
+    });
+
+    it('should ignore numbers from another year or format', () => {
+      expect(parseDocumentNumber('INV/{FY}/{SEQ:5}', { fiscalYear: '25-26' }, 'INV/24-25/00042')).toBeNull();
+      expect(parseDocumentNumber('INV/{FY}/{SEQ:5}', { fiscalYear: '24-25' }, 'INV-FY2024-25-00042')).toBeNull();
+      expect(parseDocumentNumber('{TYPE}/{FY}/{SEQ:5}', { fiscalYear: '24-25', type: 'JV' }, 'BK/24-25/00010')).toBeNull();
+    });
+  });
+
+  describe('validateTemplate', () => {
+    it('should accept the default formats', () => {
+      expect(validateTemplate('INV/{FY}/{SEQ:5}', 'invoice')).toBeNull();
+      expect(validateTemplate('{TYPE}/{FY}/{SEQ:5}', 'journal_entry')).toBeNull();
+    });
+
+    it('should require exactly one sequence', () => {
+      expect(validateTemplate('INV/{FY}', 'invoice')).toMatch(/exactly one/);
+      expect(validateTemplate('{SEQ}/{SEQ:3}', 'quote')).toMatch(/exactly one/);
+    });
+
+    it('should reject unknown and malformed placeholders', () => {
+      expect(validateTemplate('INV/{YEAR}/{SEQ}', 'invoice')).toMatch(/Unknown placeholder/);
+      expect(validateTemplate('INV/{FY/{SEQ}', 'invoice')).toMatch(/Placeholders/);
+      expect(validateTemplate('{TYPE}/{SEQ}', 'bill')).toMatch(/journal entry/);
+    });
+
+    it('should hold GST documents to 16 characters of letters, digits, / and -', () => {
+      expect(validateTemplate('INVOICE/{FY}/{SEQ:5}', 'invoice')).toMatch(/16 characters/);
+      expect(validateTemplate('INV_{FY}_{SEQ:5}', 'credit_note')).toMatch(/letters, digits/);
+      expect(validateTemplate('PURCHASE-ORDER/{FY}/{SEQ:6}', 'purchase_order')).toBeNull();
+    });
+  });
+
+  describe('reusesReleasedNumbers', () => {
+    it('should leave gaps in GST document series rather than number out of date order', () => {
+      expect(reusesReleasedNumbers('invoice')).toBe(false);
+      expect(reusesReleasedNumbers('credit_note')).toBe(false);
+      expect(reusesReleasedNumbers('debit_note')).toBe(false);
+      expect(reusesReleasedNumbers('bill')).toBe(true);
+      expect(reusesReleasedNumbers('journal_entry')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import {
+  wdvRate,
+  periodDepreciation,
+  depreciationJournalLines,
+  disposalJournalLines,
+  type DepreciableAsset,
+} from '../../server/src/services/fixedAssets/depreciation';
+import { computeBlockYear, isHalfRateAddition } from '../../server/src/services/fixedAssets/incomeTaxBlocks';
+
+const fullYear = { from: '2024-04-01', to: '2025-03-31', daysInYear: 365 };
+
+function asset(overrides: Partial<DepreciableAsset> = {}): DepreciableAsset {
+  return {
+    cost: 120000,
+    residualValue: 0,
+    usefulLifeYears: 10,
+    method: 'slm',
+    putToUseDate: '2024-04-01',
+    accumulatedDepreciation: 0,
+    depreciatedUpTo: null,
+    ...overrides,
+  };
+}
+
+const totals = (lines: { debitAmount: string; creditAmount: string }[]) => ({
+  debit: lines.reduce((sum, line) => sum + parseFloat(line.debitAmount), 0),
+  credit: lines.reduce((sum, line) => sum + parseFloat(line.creditAmount), 0),
+});
+
+describe('Fixed assets', () => {
+  describe('wdvRate', () => {
+    it('should bring the cost down to the residual value over the useful life', () => {
+      const rate = wdvRate(100000, 5000, 5);
+      expect(rate).toBeCloseTo(0.4507, 4);
+      expect(100000 * Math.pow(1 - rate, 5)).toBeCloseTo(5000, 2);
+    });
+
+    it('should assume a 5% residual value when none is given', () => {
+      expect(wdvRate(100000, 0, 5)).toBe(wdvRate(100000, 5000, 5));
+    });
+  });
+
+  describe('periodDepreciation', () => {
+    it('should charge straight line depreciation pro rata from the put-to-use date', () => {
+      const charge = periodDepreciation(asset({ putToUseDate: '2024-10-01' }), fullYear, 120000);
+      expect(charge).toEqual({ fromDate: '2024-10-01', toDate: '2025-03-31', amount: 5983.56 });
+    });
+
+    it('should start the day after the asset was last depreciated to', () => {
+      const charge = periodDepreciation(
+        asset({ putToUseDate: '2023-04-01', accumulatedDepreciation: 12000, depreciatedUpTo: '2024-03-31' }),
+        { from: '2024-04-01', to: '2024-04-30', daysInYear: 365 },
+        108000
+      );
+      expect(charge).toEqual({ fromDate: '2024-04-01', toDate: '2024-04-30', amount: 986.3 });
+    });
+
+    it('should not charge a period already depreciated', () => {
+      expect(periodDepreciation(asset({ depreciatedUpTo: '2025-03-31' }), fullYear, 120000)).toBeNull();
+      expect(periodDepreciation(asset({ putToUseDate: '2025-04-15' }), fullYear, 120000)).toBeNull();
+    });
+
+    it('should stop at the residual value', () => {
+      const charge = periodDepreciation(
+        asset({ cost: 10000, residualValue: 500, accumulatedDepreciation: 9400 }),
+        fullYear,
+        600
+      );
+      expect(charge?.amount).toBe(100);
+    });
+
+    it('should charge WDV on the book value at the start of the year', () => {
+      const rate = wdvRate(100000, 5000, 5);
+      const charge = periodDepreciation(
+        asset({ cost: 100000, residualValue: 5000, usefulLifeYears: 5, method: 'wdv', accumulatedDepreciation: 45072 }),
+        fullYear,
+        54928
+      );
+      expect(charge?.amount).toBeCloseTo(54928 * rate, 1);
+    });
+  });
+
+  describe('journal lines', () => {
+    it('should post one debit per expense account and one credit per asset account', () => {
+      const lines = depreciationJournalLines([
+        { debitAccountId: 'dep', creditAccountId: 'plant', amount: 100 },
+        { debitAccountId: 'dep', creditAccountId: 'furniture', amount: 200 },
+      ], 'Depreciation');
+
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toMatchObject({ accountId: 'dep', debitAmount: '300.00' });
+      expect(totals(lines)).toEqual({ debit: 300, credit: 300 });
+    });
+
+    it('should write off the book value against the proceeds with the profit on sale', () => {
+      const { lines, gainOrLoss } = disposalJournalLines(
+        { cost: 100000, accumulatedDepreciation: 40000, assetAccountId: 'plant', accumulatedDepreciationAccountId: null },
+        70000,
+        { proceedsAccountId: 'bank', gainAccountId: 'gain', lossAccountId: 'loss' },
+        'Disposal'
+      );
+
+      expect(gainOrLoss).toBe(10000);
+      expect(lines.map(line => [line.accountId, line.debitAmount, line.creditAmount])).toEqual([
+        ['plant', '0', '60000.00'],
+        ['bank', '70000.00', '0'],
+        ['gain', '0', '10000.00'],
+      ]);
+    });
+
+    it('should clear the accumulated depreciation account and book a loss', () => {
+      const { lines, gainOrLoss } = disposalJournalLines(
+        { cost: 100000, accumulatedDepreciation: 40000, assetAccountId: 'plant', accumulatedDepreciationAccountId: 'accdep' },
+        50000,
+        { proceedsAccountId: 'bank', gainAccountId: 'gain', lossAccountId: 'loss' },
+        'Disposal'
+      );
+
+      expect(gainOrLoss).toBe(-10000);
+      expect(lines.find(line => line.accountId === 'accdep')?.debitAmount).toBe('40000.00');
+      expect(lines.find(line => line.accountId === 'loss')?.debitAmount).toBe('10000.00');
+      expect(totals(lines)).toEqual({ debit: 100000, credit: 100000 });
+    });
+  });
+
+  describe('income-tax blocks', () => {
+    it('should give half the rate to assets used for less than 180 days', () => {
+      expect(isHalfRateAddition('2024-10-03', '2025-03-31')).toBe(false);
+      expect(isHalfRateAddition('2024-10-04', '2025-03-31')).toBe(true);
+    });
+
+    it('should depreciate opening WDV plus additions less sale proceeds', () => {
+      const result = computeBlockYear({
+        openingWdv: 100000,
+        rate: 15,
+        yearEnd: '2025-03-31',
+        additions: [
+          { cost: 50000, putToUseDate: '2024-06-01' },
+          { cost: 20000, putToUseDate: '2024-12-01' },
+        ],
+        saleProceeds: 10000,
+        blockCeased: false,
+      });
+
+      expect(result).toMatchObject({
+        additionsFullRate: 50000,
+        additionsHalfRate: 20000,
+        depreciationFullRate: 21000,
+        depreciationHalfRate: 1500,
+        depreciation: 22500,
+        closingWdv: 137500,
+        shortTermCapitalGain: 0,
+      });
+    });
+
+    it('should take proceeds off the half-rate additions once the rest is used up', () => {
+      const result = computeBlockYear({
+        openingWdv: 10000,
+        rate: 15,
+        yearEnd: '2025-03-31',
+        additions: [{ cost: 20000, putToUseDate: '2025-01-01' }],
+        saleProceeds: 15000,
+        blockCeased: false,
+      });
+
+      expect(result.depreciation).toBe(1125);
+      expect(result.closingWdv).toBe(13875);
+    });
+
+    it('should treat proceeds above the block value as a short-term capital gain', () => {
+      const result = computeBlockYear({
+        openingWdv: 10000,
+        rate: 15,
+        yearEnd: '2025-03-31',
+        additions: [],
+        saleProceeds: 15000,
+        blockCeased: false,
+      });
+
+      expect(result).toMatchObject({ depreciation: 0, closingWdv: 0, shortTermCapitalGain: 5000 });
+    });
+
+    it('should show a capital loss when the block ceases with value left', () => {
+      const result = computeBlockYear({
+        openingWdv: 50000,
+        rate: 15,
+        yearEnd: '2025-03-31',
+        additions: [],
+        saleProceeds: 30000,
+        blockCeased: true,
+      });
+
+      expect(result).toMatchObject({ depreciation: 0, closingWdv: 0, shortTermCapitalGain: -20000 });
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toBase,
+  settleForeignBalance,
+  settlementJournalLines,
+  convertAmountFields,
+  foreignAmountFields,
+} from '../../server/src/services/forex/settlement';
+import {
+  revalueItem,
+  revaluationJournalLines,
+  reversalJournalLines,
+  reversalDateFor,
+  type RevaluationItem,
+} from '../../server/src/services/forex/revaluation';
+
+const accounts = { gainAccountId: 'gain', lossAccountId: 'loss' };
+const descriptions = { bank: 'Bank', party: 'Party', exchange: 'Exchange' };
+
+const totals = (lines: { debitAmount: string; creditAmount: string }[]) => ({
+  debit: Math.round(lines.reduce((sum, line) => sum + parseFloat(line.debitAmount), 0) * 100) / 100,
+  credit: Math.round(lines.reduce((sum, line) => sum + parseFloat(line.creditAmount), 0) * 100) / 100,
+});
+
+describe('Foreign currency', () => {
+  describe('settleForeignBalance', () => {
+    const invoice = { balanceDue: 83000, balanceDueFcy: 1000, exchangeRate: 83 };
+
+    it('should realise a gain when a receivable is paid at a higher rate', () => {
+      expect(settleForeignBalance(invoice, 400, 84.5, 'receivable')).toEqual({
+        amountFcy: 400,
+        baseCleared: 33200,
+        baseSettled: 33800,
+        exchangeDifference: 600,
+      });
+    });
+
+    it('should realise a gain when a payable is paid at a lower rate', () => {
+      const settlement = settleForeignBalance(invoice, 1000, 82, 'payable');
+      expect(settlement.exchangeDifference).toBe(1000);
+    });
+
+    it('should clear the whole carrying amount on the last settlement', () => {
+      const settlement = settleForeignBalance(
+        { balanceDue: 33333.34, balanceDueFcy: 333.33, exchangeRate: 100 },
+        500,
+        100,
+        'receivable'
+      );
+      expect(settlement.amountFcy).toBe(333.33);
+      expect(settlement.baseCleared).toBe(33333.34);
+      expect(settlement.exchangeDifference).toBe(-0.34);
+    });
+  });
+
+  describe('settlementJournalLines', () => {
+    it('should clear the receivable at its carrying amount and book the gain', () => {
+      const settlement = settleForeignBalance({ balanceDue: 83000, balanceDueFcy: 1000, exchangeRate: 83 }, 1000, 84, 'receivable');
+      const lines = settlementJournalLines({
+        side: 'receivable',
+        bankAccountId: 'bank',
+        controlAccountId: 'ar',
+        partyType: 'customer',
+        partyId: 'c1',
+        currencyCode: 'USD',
+        paymentRate: 84,
+        amountFcy: 1200,
+        baseAmount: toBase(1200, 84),
+        settlements: [settlement],
+        accounts,
+        descriptions,
+      });
+
+      expect(lines.map(line => [line.accountId, line.debitAmount, line.creditAmount])).toEqual([
+        ['bank', '100800.00', '0'],
+        // 83,000 cleared plus 200 USD on account at 84
+        ['ar', '0', '99800.00'],
+        ['gain', '0', '1000.00'],
+      ]);
+      expect(lines[0]).toMatchObject({ currencyCode: 'USD', debitAmountFcy: '1200.00', creditAmountFcy: '0.00' });
+      expect(lines[1]).toMatchObject({ partyId: 'c1', creditAmountFcy: '1200.00' });
+    });
+
+    it('should debit the payable and book the loss on a payment made', () => {
+      const settlement = settleForeignBalance({ balanceDue: 50000, balanceDueFcy: 500, exchangeRate: 100 }, 500, 101, 'payable');
+      const lines = settlementJournalLines({
+        side: 'payable',
+        bankAccountId: 'bank',
+        controlAccountId: 'ap',
+        partyType: 'vendor',
+        partyId: 'v1',
+        currencyCode: 'EUR',
+        paymentRate: 101,
+        amountFcy: 500,
+        baseAmount: toBase(500, 101),
+        settlements: [settlement],
+        accounts,
+        descriptions,
+      });
+
+      expect(lines.map(line => [line.accountId, line.debitAmount, line.creditAmount])).toEqual([
+        ['ap', '50000.00', '0'],
+        ['bank', '0', '50500.00'],
+        ['loss', '500.00', '0'],
+      ]);
+      expect(totals(lines)).toEqual({ debit: 50500, credit: 50500 });
+    });
+
+    it('should post a base currency payment without foreign currency fields', () => {
+      const lines = settlementJournalLines({
+        side: 'receivable',
+        bankAccountId: 'bank',
+        controlAccountId: 'ar',
+        partyType: 'customer',
+        partyId: 'c1',
+        currencyCode: null,
+        paymentRate: 1,
+        amountFcy: 2500,
+        baseAmount: 2500,
+        settlements: [],
+        accounts: { gainAccountId: null, lossAccountId: null },
+        descriptions,
+      });
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).not.toHaveProperty('currencyCode');
+      expect(totals(lines)).toEqual({ debit: 2500, credit: 2500 });
+    });
+
+    it('should refuse to realise a difference without exchange accounts', () => {
+      const settlement = settleForeignBalance({ balanceDue: 8300, balanceDueFcy: 100, exchangeRate: 83 }, 100, 84, 'receivable');
+      expect(() => settlementJournalLines({
+        side: 'receivable',
+        bankAccountId: 'bank',
+        controlAccountId: 'ar',
+        partyType: 'customer',
+        partyId: 'c1',
+        currencyCode: 'USD',
+        paymentRate: 84,
+        amountFcy: 100,
+        baseAmount: 8400,
+        settlements: [settlement],
+        accounts: { gainAccountId: null, lossAccountId: null },
+        descriptions,
+      })).toThrow('Foreign exchange gain or loss account not found');
+    });
+  });
+
+  describe('conversion', () => {
+    it('should convert the money fields of a line at the document rate', () => {
+      const line = convertAmountFields(
+        { description: 'Consulting', quantity: '3', unitPrice: '120.5', taxAmount: '0', amount: '361.5' },
+        83.25,
+        ['unitPrice', 'taxAmount', 'amount']
+      );
+      expect(line).toEqual({ description: 'Consulting', quantity: '3', unitPrice: '10031.63', taxAmount: '0', amount: '30094.88' });
+    });
+
+    it('should leave journal lines in the base currency untouched', () => {
+      expect(foreignAmountFields(null, 1, 100, 0)).toEqual({});
+      expect(foreignAmountFields('USD', 83.5, 100, 0)).toEqual({
+        currencyCode: 'USD',
+        exchangeRate: '83.5',
+        debitAmountFcy: '100.00',
+        creditAmountFcy: '0.00',
+      });
+    });
+  });
+
+  describe('revaluation', () => {
+    const receivable: RevaluationItem = {
+      kind: 'receivable',
+      accountId: 'ar',
+      currencyCode: 'USD',
+      balanceFcy: 1000,
+      carryingAmount: 83000,
+      reference: 'Invoice INV-1',
+      partyType: 'customer',
+      partyId: 'c1',
+    };
+    const payable: RevaluationItem = {
+      kind: 'payable',
+      accountId: 'ap',
+      currencyCode: 'USD',
+      balanceFcy: 400,
+      carryingAmount: 33000,
+      reference: 'Bill BILL-1',
+      partyType: 'vendor',
+      partyId: 'v1',
+    };
+
+    it('should restate receivables and payables at the closing rate', () => {
+      expect(revalueItem(receivable, 84).difference).toBe(1000);
+      // The payable grows from 33,000 to 33,600
+      expect(revalueItem(payable, 84).difference).toBe(-600);
+    });
+
+    it('should post gains and losses to their own accounts', () => {
+      const lines = revaluationJournalLines([revalueItem(receivable, 84), revalueItem(payable, 84)], accounts, 'Revaluation');
+
+      expect(lines.map(line => [line.accountId, line.debitAmount, line.creditAmount])).toEqual([
+        ['ar', '1000.00', '0'],
+        ['ap', '0', '600.00'],
+        ['gain', '0', '1000.00'],
+        ['loss', '600.00', '0'],
+      ]);
+      expect(lines[0]).toMatchObject({ partyId: 'c1', debitAmountFcy: '0', creditAmountFcy: '0' });
+    });
+
+    it('should swap the sides in the reversal on the next day', () => {
+      const lines = revaluationJournalLines([revalueItem(receivable, 82.5)], accounts, 'Revaluation');
+      const reversal = reversalJournalLines(lines, 'Reversal');
+
+      expect(reversal.map(line => [line.accountId, line.debitAmount, line.creditAmount])).toEqual([
+        ['ar', '500.00', '0'],
+        ['loss', '0', '500.00'],
+      ]);
+      expect(reversalDateFor('2025-03-31')).toBe('2025-04-01');
+      expect(reversalDateFor('2024-02-28')).toBe('2024-02-29');
+    });
+  });
+});
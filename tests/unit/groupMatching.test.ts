@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyDifference,
+  proposeGroupMatches,
+  planGroupMatch,
+  groupMatchJournalLines,
+  type OpenDocument,
+} from '../../server/src/services/bankFeeds/groupMatching';
+
+const doc = (id: string, balanceDue: number, date: string, partyId = 'acme', taxableAmount = balanceDue / 1.18): OpenDocument => ({
+  id,
+  number: `INV-${id}`,
+  date,
+  partyId,
+  balanceDue,
+  taxableAmount,
+});
+
+// Open invoices of two customers; Acme's three oldest come to 1,77,000
+const openInvoices = [
+  doc('1', 59000, '2026-04-05'),
+  doc('2', 47200, '2026-04-12'),
+  doc('3', 70800, '2026-04-20'),
+  doc('4', 35400, '2026-05-02'),
+  doc('5', 59000, '2026-04-08', 'zenith'),
+];
+
+describe('Grouped Bank Matching', () => {
+  describe('classifyDifference', () => {
+    it('should accept an exact match and small rounding either way', () => {
+      expect(classifyDifference('receipt', 1000, [doc('a', 1000, '2026-04-01')])).toEqual({ type: 'none', amount: 0 });
+      expect(classifyDifference('receipt', 1000.6, [doc('a', 1000, '2026-04-01')])).toEqual({ type: 'rounding', amount: -0.6 });
+    });
+
+    it('should recognise TDS deducted on the taxable value of each document', () => {
+      // 2% on 50,000 and 40,000, from invoices of 59,000 and 47,200
+      const difference = classifyDifference('receipt', 104400, [doc('a', 59000, '2026-04-01', 'acme', 50000), doc('b', 47200, '2026-04-02', 'acme', 40000)]);
+      expect(difference).toEqual({ type: 'tds', amount: 1800, rate: 2 });
+    });
+
+    it('should take bank charges from receipts and add them to payments', () => {
+      expect(classifyDifference('receipt', 58964.6, [doc('a', 59000, '2026-04-01')])).toEqual({ type: 'bank_charges', amount: 35.4 });
+      expect(classifyDifference('payment', 59017.7, [doc('a', 59000, '2026-04-01')])).toEqual({ type: 'bank_charges', amount: -17.7 });
+      expect(classifyDifference('payment', 58964.6, [doc('a', 59000, '2026-04-01')])).toBeNull();
+    });
+
+    it('should reject differences nothing explains', () => {
+      expect(classifyDifference('receipt', 50000, [doc('a', 59000, '2026-04-01')])).toBeNull();
+    });
+  });
+
+  describe('proposeGroupMatches', () => {
+    it('should find the invoices one receipt settles', () => {
+      const [best] = proposeGroupMatches('receipt', 177000, openInvoices);
+      expect(best).toMatchObject({ partyId: 'acme', documentIds: ['1', '2', '3'], documentsTotal: 177000 });
+      expect(best.difference.type).toBe('none');
+    });
+
+    it('should rank an exact match above one explained by charges', () => {
+      const proposals = proposeGroupMatches('receipt', 59000, openInvoices);
+      expect(proposals[0].difference.type).toBe('none');
+      expect(proposals.map(p => p.partyId)).toContain('zenith');
+    });
+
+    it('should prefer documents the narration names', () => {
+      const [best] = proposeGroupMatches('receipt', 59000, openInvoices, { narration: 'NEFT ZENITH INV-5' });
+      expect(best.documentIds).toEqual(['5']);
+    });
+
+    it('should propose a short receipt net of TDS', () => {
+      const tdsAt10 = Math.round(50000 * 0.1) + Math.round(40000 * 0.1);
+      const [best] = proposeGroupMatches('receipt', 59000 + 47200 - tdsAt10, openInvoices);
+      expect(best.documentIds).toEqual(['1', '2']);
+      expect(best.difference).toEqual({ type: 'tds', amount: tdsAt10, rate: 10 });
+    });
+
+    it('should stop at the document limit and ignore settled documents', () => {
+      expect(proposeGroupMatches('receipt', 212400, openInvoices, { maxDocuments: 3 })).toEqual([]);
+      expect(proposeGroupMatches('receipt', 1000, [doc('x', 0, '2026-04-01'), doc('y', 1000, '2026-04-02')])
+        .map(p => p.documentIds)).toEqual([['y']]);
+    });
+  });
+
+  describe('planGroupMatch', () => {
+    const allocations = [
+      { documentId: '1', balanceDue: 59000, amount: 59000 },
+      { documentId: '2', balanceDue: 47200, amount: 47200 },
+    ];
+
+    it('should balance documents against the bank amount and differences', () => {
+      const result = planGroupMatch(104400, allocations, [{ type: 'tds', accountId: 'tds-receivable', amount: 1800 }]);
+      expect(result).toEqual({
+        plan: {
+          bankTotal: 104400,
+          settledTotal: 106200,
+          allocations,
+          adjustments: [{ type: 'tds', accountId: 'tds-receivable', amount: 1800 }],
+        },
+      });
+    });
+
+    it('should reject an unbalanced match', () => {
+      const result = planGroupMatch(104400, allocations, []);
+      expect(result).toEqual({ error: 'Documents settled (106200.00) must equal the bank amount plus differences (104400.00)' });
+    });
+
+    it('should reject allocations beyond the balance due and differences without an account', () => {
+      expect(planGroupMatch(60000, [{ documentId: '1', balanceDue: 59000, amount: 60000 }], []))
+        .toEqual({ error: 'An allocation is more than the balance due on its document' });
+      expect(planGroupMatch(58990, [{ documentId: '1', balanceDue: 59000, amount: 59000 }], [{ type: 'bank_charges', accountId: '', amount: 10 }]))
+        .toEqual({ error: 'Choose an account for each difference' });
+    });
+
+    it('should allow a part payment of a document', () => {
+      const result = planGroupMatch(20000, [{ documentId: '1', balanceDue: 59000, amount: 20000 }], []);
+      expect('plan' in result && result.plan.settledTotal).toBe(20000);
+    });
+  });
+
+  describe('groupMatchJournalLines', () => {
+    const accounts = { bankAccountId: 'bank', controlAccountId: 'control', partyId: 'acme' };
+    const descriptions = { bank: 'Payment - UTR123', party: 'Payment received - PR-1' };
+    const totals = (lines: { debitAmount: string; creditAmount: string }[]) => ({
+      debit: lines.reduce((sum, line) => sum + parseFloat(line.debitAmount), 0),
+      credit: lines.reduce((sum, line) => sum + parseFloat(line.creditAmount), 0),
+    });
+
+    it('should debit the bank and TDS and credit the customer on a receipt', () => {
+      const lines = groupMatchJournalLines('receipt', {
+        bankTotal: 104400,
+        settledTotal: 106200,
+        allocations: [],
+        adjustments: [{ type: 'tds', accountId: 'tds', amount: 1800 }],
+      }, accounts, descriptions);
+
+      expect(lines.map(l => [l.accountId, l.debitAmount, l.creditAmount])).toEqual([
+        ['bank', '104400.00', '0'],
+        ['tds', '1800.00', '0'],
+        ['control', '0', '106200.00'],
+      ]);
+      expect(lines[2]).toMatchObject({ partyType: 'customer', partyId: 'acme' });
+      expect(totals(lines).debit).toBeCloseTo(totals(lines).credit, 2);
+    });
+
+    it('should debit the vendor and bank charges and credit the bank on a payment', () => {
+      const lines = groupMatchJournalLines('payment', {
+        bankTotal: 59017.7,
+        settledTotal: 59000,
+        allocations: [],
+        adjustments: [{ type: 'bank_charges', accountId: 'charges', amount: -17.7 }],
+      }, accounts, descriptions);
+
+      expect(lines.map(l => [l.accountId, l.debitAmount, l.creditAmount])).toEqual([
+        ['control', '59000.00', '0'],
+        ['bank', '0', '59017.70'],
+        ['charges', '17.70', '0'],
+      ]);
+      expect(lines[0].partyType).toBe('vendor');
+      expect(totals(lines).debit).toBeCloseTo(totals(lines).credit, 2);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildGstr1Rows,
+  classifyDocument,
+  getReturnPeriod,
+  resolvePlaceOfSupply,
+  type Gstr1SourceDocument,
+} from '../../server/src/services/gst/gstr1';
+
+const SUPPLIER_STATE = '27'; // Maharashtra
+
+const registeredCustomer = {
+  name: 'Acme Traders',
+  gstin: '29AABCU9603R1ZM',
+  gstRegistrationType: 'regular' as const,
+  stateCode: '29',
+  country: 'India',
+};
+
+const consumer = {
+  name: 'Walk-in Customer',
+  gstin: null,
+  gstRegistrationType: 'consumer' as const,
+  stateCode: '27',
+  country: 'India',
+};
+
+function makeDoc(overrides: Partial<Gstr1SourceDocument> = {}): Gstr1SourceDocument {
+  return {
+    documentType: 'invoice',
+    documentId: 'doc-1',
+    documentNumber: 'INV-FY2024-25-00001',
+    documentDate: '2024-07-15',
+    totalAmount: '1180.00',
+    party: registeredCustomer,
+    lines: [
+      { hsnSacCode: '998314', quantity: '1', taxRate: '18', taxAmount: '180', amount: '1180' },
+    ],
+    ...overrides,
+  };
+}
+
+describe('GSTR-1 auto-population', () => {
+  describe('getReturnPeriod', () => {
+    it('should format the return period as MMYYYY', () => {
+      expect(getReturnPeriod('2024-07-15')).toBe('072024');
+      expect(getReturnPeriod('2025-01-01')).toBe('012025');
+    });
+  });
+
+  describe('resolvePlaceOfSupply', () => {
+    it('should use the party state code', () => {
+      expect(resolvePlaceOfSupply(registeredCustomer, SUPPLIER_STATE)).toBe('29');
+    });
+
+    it('should fall back to the GSTIN state code', () => {
+      expect(resolvePlaceOfSupply({ ...registeredCustomer, stateCode: null }, SUPPLIER_STATE)).toBe('29');
+    });
+
+    it('should return 96 for overseas parties', () => {
+      expect(resolvePlaceOfSupply({ ...consumer, country: 'USA' }, SUPPLIER_STATE)).toBe('96');
+    });
+  });
+
+  describe('classifyDocument', () => {
+    it('should classify registered recipients as B2B', () => {
+      expect(classifyDocument(makeDoc(), true, true)).toBe('B2B');
+    });
+
+    it('should classify large inter-state unregistered invoices as B2CL', () => {
+      const doc = makeDoc({ party: { ...consumer, stateCode: '29' }, totalAmount: '150000' });
+      expect(classifyDocument(doc, true, true)).toBe('B2CL');
+    });
+
+    it('should classify intra-state unregistered invoices as B2CS regardless of value', () => {
+      const doc = makeDoc({ party: consumer, totalAmount: '500000' });
+      expect(classifyDocument(doc, false, false)).toBe('B2CS');
+    });
+
+    it('should classify exports by payment of IGST', () => {
+      const doc = makeDoc({ party: { ...consumer, country: 'Singapore' } });
+      expect(classifyDocument(doc, true, true)).toBe('EXPWP');
+      expect(classifyDocument(doc, true, false)).toBe('EXPWOP');
+    });
+
+    it('should classify notes to registered recipients as CDNR', () => {
+      expect(classifyDocument(makeDoc({ documentType: 'credit_note' }), true, true)).toBe('CDNR');
+    });
+
+    it('should classify notes to unregistered recipients as CDNUR only for large or export supplies', () => {
+      const large = makeDoc({ documentType: 'credit_note', party: { ...consumer, stateCode: '29' }, totalAmount: '200000' });
+      const small = makeDoc({ documentType: 'credit_note', party: consumer, totalAmount: '2000' });
+      expect(classifyDocument(large, true, true)).toBe('CDNUR');
+      expect(classifyDocument(small, false, false)).toBe('B2CS');
+    });
+
+    it('should classify notes by the value of the invoice they adjust', () => {
+      const party = { ...consumer, stateCode: '29' };
+      const onLargeInvoice = makeDoc({ documentType: 'credit_note', party, totalAmount: '5000', originalInvoiceAmount: '250000' });
+      const onSmallInvoice = makeDoc({ documentType: 'credit_note', party, totalAmount: '5000', originalInvoiceAmount: '50000' });
+      expect(classifyDocument(onLargeInvoice, true, true)).toBe('CDNUR');
+      expect(classifyDocument(onSmallInvoice, true, true)).toBe('B2CS');
+    });
+  });
+
+  describe('buildGstr1Rows', () => {
+    it('should use IGST for inter-state supplies', () => {
+      const [row] = buildGstr1Rows(makeDoc(), SUPPLIER_STATE);
+      expect(row.invoiceType).toBe('B2B');
+      expect(row.placeOfSupply).toBe('29');
+      expect(row.returnPeriod).toBe('072024');
+      expect(row.taxableValue).toBe('1000.00');
+      expect(row.igst).toBe('180.00');
+      expect(row.cgst).toBe('0.00');
+      expect(row.sgst).toBe('0.00');
+    });
+
+    it('should mark supplies to SEZ units by payment of IGST, always inter-state', () => {
+      const sezUnit = { ...registeredCustomer, gstin: '27AADCS0472N1ZU', gstRegistrationType: 'sez' as const, stateCode: '27' };
+      const [withPayment] = buildGstr1Rows(makeDoc({ party: sezUnit }), SUPPLIER_STATE);
+      expect(withPayment.supplyType).toBe('SEWP');
+      expect(withPayment.igst).toBe('180.00');
+
+      const [withoutPayment] = buildGstr1Rows(makeDoc({
+        party: sezUnit,
+        totalAmount: '1000.00',
+        lines: [{ hsnSacCode: '998314', quantity: '1', taxRate: '0', taxAmount: '0', amount: '1000' }],
+      }), SUPPLIER_STATE);
+      expect(withoutPayment.supplyType).toBe('SEWOP');
+      expect(buildGstr1Rows(makeDoc(), SUPPLIER_STATE)[0].supplyType).toBe('R');
+    });
+
+    it('should leave out lines of non-GST products', () => {
+      const rows = buildGstr1Rows(makeDoc({
+        lines: [
+          { hsnSacCode: '998314', quantity: '1', taxRate: '18', taxAmount: '180', amount: '1180' },
+          { hsnSacCode: '2710', quantity: '10', taxRate: '0', taxAmount: '0', amount: '1000', nonGst: true },
+        ],
+      }), SUPPLIER_STATE);
+      expect(rows).toHaveLength(1);
+      expect(rows[0].hsnSacCode).toBe('998314');
+    });
+
+    it('should split CGST and SGST for intra-state supplies', () => {
+      const doc = makeDoc({ party: { ...registeredCustomer, gstin: '27AADCB2230M1Z3', stateCode: '27' } });
+      const [row] = buildGstr1Rows(doc, SUPPLIER_STATE);
+      expect(row.igst).toBe('0.00');
+      expect(row.cgst).toBe('90.00');
+      expect(row.sgst).toBe('90.00');
+    });
+
+    it('should produce one row per HSN code and rate', () => {
+      const doc = makeDoc({
+        totalAmount: '2292.00',
+        lines: [
+          { hsnSacCode: '8471', quantity: '2', taxRate: '18', taxAmount: '180', amount: '1180' },
+          { hsnSacCode: '8471', quantity: '1', taxRate: '18', taxAmount: '90', amount: '590' },
+          { hsnSacCode: '4901', quantity: '5', taxRate: '12', taxAmount: '60', amount: '560' },
+        ],
+      });
+
+      const rows = buildGstr1Rows(doc, SUPPLIER_STATE);
+      expect(rows).toHaveLength(2);
+
+      const computers = rows.find(r => r.hsnSacCode === '8471')!;
+      expect(computers.quantity).toBe('3.0000');
+      expect(computers.taxableValue).toBe('1500.00');
+      expect(computers.igst).toBe('270.00');
+      expect(computers.invoiceValue).toBe('2292.00');
+
+      const books = rows.find(r => r.hsnSacCode === '4901')!;
+      expect(books.taxRate).toBe('12.00');
+      expect(books.taxableValue).toBe('500.00');
+    });
+
+    it('should net small credit notes to unregistered recipients into B2CS as negatives', () => {
+      const doc = makeDoc({ documentType: 'credit_note', party: consumer });
+      const [row] = buildGstr1Rows(doc, SUPPLIER_STATE);
+      expect(row.invoiceType).toBe('B2CS');
+      expect(row.taxableValue).toBe('-1000.00');
+      expect(row.cgst).toBe('-90.00');
+      expect(row.partyGstin).toBeNull();
+    });
+  });
+});
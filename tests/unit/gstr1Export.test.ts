@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  buildGstr1Json,
+  validateGstr1Export,
+  type Gstr1ExportEntry,
+  type Gstr1ExportInput,
+} from '../../server/src/services/gst/gstr1Export';
+
+const SUPPLIER_GSTIN = '27AAACZ1234F1Z5';
+
+function entry(overrides: Partial<Gstr1ExportEntry>): Gstr1ExportEntry {
+  return {
+    documentType: 'invoice',
+    invoiceNumber: 'INV/24/001',
+    invoiceDate: '2024-07-05',
+    invoiceType: 'B2B',
+    partyGstin: null,
+    placeOfSupply: '27',
+    hsnSacCode: '998314',
+    taxRate: '18.00',
+    quantity: '1.0000',
+    taxableValue: '1000.00',
+    igst: '0.00',
+    cgst: '90.00',
+    sgst: '90.00',
+    cess: '0.00',
+    invoiceValue: '1180.00',
+    isCancelled: false,
+    ...overrides,
+  };
+}
+
+// One period touching every section of the return
+const julyEntries: Gstr1ExportEntry[] = [
+  // B2B: intra-state, two rates on one invoice
+  entry({ invoiceNumber: 'INV/24/001', partyGstin: '27AADCB2230M1Z3', quantity: '2.0000', taxableValue: '1000.00', invoiceValue: '1740.00' }),
+  entry({ invoiceNumber: 'INV/24/001', partyGstin: '27AADCB2230M1Z3', hsnSacCode: '4901', taxRate: '12.00', quantity: '5.0000', taxableValue: '500.00', cgst: '30.00', sgst: '30.00', invoiceValue: '1740.00' }),
+  // B2B: inter-state to a second recipient
+  entry({ invoiceNumber: 'INV/24/002', invoiceDate: '2024-07-09', partyGstin: '29AABCU9603R1ZM', placeOfSupply: '29', igst: '180.00', cgst: '0.00', sgst: '0.00' }),
+  // B2CL: large inter-state invoice to a consumer
+  entry({ invoiceNumber: 'INV/24/003', invoiceDate: '2024-07-12', invoiceType: 'B2CL', placeOfSupply: '07', hsnSacCode: '8471', quantity: '4.0000', taxableValue: '200000.00', igst: '36000.00', cgst: '0.00', sgst: '0.00', invoiceValue: '236000.00' }),
+  // B2CS: two intra-state invoices and a small credit note netted in
+  entry({ invoiceNumber: 'INV/24/004', invoiceDate: '2024-07-15', invoiceType: 'B2CS' }),
+  entry({ invoiceNumber: 'INV/24/005', invoiceDate: '2024-07-16', invoiceType: 'B2CS', taxableValue: '2000.00', cgst: '180.00', sgst: '180.00', invoiceValue: '2360.00' }),
+  entry({ documentType: 'credit_note', invoiceNumber: 'CN/24/001', invoiceDate: '2024-07-20', invoiceType: 'B2CS', taxableValue: '-500.00', cgst: '-45.00', sgst: '-45.00', invoiceValue: '-590.00' }),
+  // Export with payment of IGST
+  entry({ invoiceNumber: 'INV/24/006', invoiceDate: '2024-07-22', invoiceType: 'EXPWP', placeOfSupply: '96', taxableValue: '5000.00', igst: '900.00', cgst: '0.00', sgst: '0.00', invoiceValue: '5900.00' }),
+  // Cancelled invoice: only counted in documents issued
+  entry({ invoiceNumber: 'INV/24/007', invoiceDate: '2024-07-25', invoiceType: 'B2B', partyGstin: '27AADCB2230M1Z3', isCancelled: true }),
+  // CDNR: credit note to a registered recipient
+  entry({ documentType: 'credit_note', invoiceNumber: 'CN/24/002', invoiceDate: '2024-07-28', invoiceType: 'CDNR', partyGstin: '29AABCU9603R1ZM', placeOfSupply: '29', taxableValue: '100.00', igst: '18.00', cgst: '0.00', sgst: '0.00', invoiceValue: '118.00' }),
+  // CDNUR: debit note on a large unregistered inter-state supply
+  entry({ documentType: 'debit_note', invoiceNumber: 'DN/24/001', invoiceDate: '2024-07-30', invoiceType: 'CDNUR', placeOfSupply: '07', hsnSacCode: '8471', quantity: '0.0000', taxableValue: '1000.00', igst: '180.00', cgst: '0.00', sgst: '0.00', invoiceValue: '1180.00' }),
+];
+
+const julyInput: Gstr1ExportInput = {
+  gstin: SUPPLIER_GSTIN,
+  returnPeriod: '072024',
+  entries: julyEntries,
+  hsnDescriptions: { '998314': 'IT design and development services', '8471': 'Computers' },
+};
+
+function readGolden(name: string) {
+  return JSON.parse(readFileSync(join(__dirname, 'golden', name), 'utf-8'));
+}
+
+describe('GSTR-1 JSON export', () => {
+  describe('buildGstr1Json', () => {
+    it('should match the golden file for a full period', () => {
+      expect(buildGstr1Json(julyInput)).toEqual(readGolden('gstr1-072024.json'));
+    });
+
+    it('should match the golden file for a nil return', () => {
+      expect(buildGstr1Json({ gstin: SUPPLIER_GSTIN, returnPeriod: '082024', entries: [] }))
+        .toEqual(readGolden('gstr1-nil.json'));
+    });
+
+    it('should report supplies to SEZ units with their GSTN invoice type', () => {
+      const json = buildGstr1Json({
+        gstin: SUPPLIER_GSTIN,
+        returnPeriod: '072024',
+        entries: [
+          entry({ invoiceNumber: 'INV/24/101', partyGstin: '27AADCS0472N1ZU', supplyType: 'SEWP', cgst: '0.00', sgst: '0.00', igst: '180.00' }),
+          entry({ invoiceNumber: 'INV/24/102', partyGstin: '27AADCS0472N1ZU', supplyType: 'SEWOP', cgst: '0.00', sgst: '0.00', invoiceValue: '1000.00' }),
+        ],
+      });
+
+      const invoices = json.b2b![0].inv;
+      expect(invoices.map(inv => inv.inv_typ)).toEqual(['SEWP', 'SEWOP']);
+      expect(invoices[0].itms[0].itm_det).toEqual({ txval: 1000, rt: 18, iamt: 180, csamt: 0 });
+    });
+  });
+
+  describe('validateGstr1Export', () => {
+    it('should accept a valid period', () => {
+      expect(validateGstr1Export(julyInput)).toEqual([]);
+    });
+
+    it('should reject an invalid supplier GSTIN and return period', () => {
+      const issues = validateGstr1Export({ gstin: '27ABC', returnPeriod: '2024-07', entries: [] });
+      expect(issues.map(i => i.field)).toEqual(['gstin', 'fp']);
+    });
+
+    it('should require a valid recipient GSTIN on B2B invoices', () => {
+      const issues = validateGstr1Export({ ...julyInput, entries: [entry({ partyGstin: null })] });
+      expect(issues).toEqual([
+        { documentNumber: 'INV/24/001', field: 'partyGstin', message: 'Recipient GSTIN is missing or invalid' },
+      ]);
+    });
+
+    it('should reject document numbers longer than 16 characters', () => {
+      const issues = validateGstr1Export({
+        ...julyInput,
+        entries: [entry({ invoiceNumber: 'INV-FY2024-25-00001', partyGstin: '27AADCB2230M1Z3' })],
+      });
+      expect(issues.map(i => i.field)).toEqual(['invoiceNumber']);
+    });
+
+    it('should require HSN codes and valid GST rates', () => {
+      const issues = validateGstr1Export({
+        ...julyInput,
+        entries: [entry({ partyGstin: '27AADCB2230M1Z3', hsnSacCode: null, taxRate: '17.00' })],
+      });
+      expect(issues.map(i => i.field)).toEqual(['hsnSacCode', 'taxRate']);
+    });
+
+    it('should flag tax heads that do not match the place of supply', () => {
+      const issues = validateGstr1Export({
+        ...julyInput,
+        entries: [entry({ partyGstin: '29AABCU9603R1ZM', placeOfSupply: '29' })],
+      });
+      expect(issues.map(i => i.field)).toEqual(['cgst']);
+    });
+
+    it('should skip cancelled documents', () => {
+      const issues = validateGstr1Export({
+        ...julyInput,
+        entries: [entry({ partyGstin: null, isCancelled: true })],
+      });
+      expect(issues).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyItcSetOff,
+  computeGstr3b,
+  type Gstr3bItcEntry,
+  type Gstr3bOutwardEntry,
+} from '../../server/src/services/gst/gstr3b';
+
+const heads = (igst = 0, cgst = 0, sgst = 0, cess = 0) => ({ igst, cgst, sgst, cess });
+
+function outward(overrides: Partial<Gstr3bOutwardEntry>): Gstr3bOutwardEntry {
+  return {
+    documentType: 'invoice',
+    invoiceType: 'B2B',
+    placeOfSupply: '27',
+    taxRate: '18.00',
+    taxableValue: '1000.00',
+    igst: '0.00',
+    cgst: '90.00',
+    sgst: '90.00',
+    cess: '0.00',
+    ...overrides,
+  };
+}
+
+function itc(overrides: Partial<Gstr3bItcEntry>): Gstr3bItcEntry {
+  return {
+    igst: '0',
+    cgst: '0',
+    sgst: '0',
+    cess: '0',
+    eligibleItc: '0',
+    ineligibleItc: '0',
+    reversalAmount: '0',
+    reconciliationStatus: 'matched',
+    reconciliationAction: null,
+    ...overrides,
+  };
+}
+
+describe('GSTR-3B computation', () => {
+  describe('applyItcSetOff', () => {
+    it('should use IGST credit against IGST before CGST and SGST', () => {
+      const result = applyItcSetOff(heads(1000, 500, 500), heads(1500, 0, 0));
+      expect(result.utilisation.igst.igst).toBe(1000);
+      expect(result.utilisation.cgst.igst + result.utilisation.sgst.igst).toBe(500);
+      expect(result.cashPayable.igst).toBe(0);
+      expect(result.cashPayable.cgst + result.cashPayable.sgst).toBe(500);
+      expect(result.itcBalance.igst).toBe(0);
+    });
+
+    it('should spend surplus IGST credit where CGST/SGST credit falls short', () => {
+      // CGST credit covers CGST fully, so IGST credit should go to SGST
+      const result = applyItcSetOff(heads(0, 300, 300), heads(300, 300, 0));
+      expect(result.utilisation.sgst.igst).toBe(300);
+      expect(result.utilisation.cgst.cgst).toBe(300);
+      expect(result.cashPayable).toEqual(heads());
+      expect(result.itcBalance).toEqual(heads());
+    });
+
+    it('should use CGST and SGST credit against IGST but never against each other', () => {
+      const result = applyItcSetOff(heads(400, 0, 100), heads(0, 300, 0));
+      expect(result.utilisation.igst.cgst).toBe(300);
+      expect(result.cashPayable).toEqual(heads(100, 0, 100));
+      expect(result.utilisation.sgst.cgst).toBe(0);
+    });
+
+    it('should only use cess credit against cess', () => {
+      const result = applyItcSetOff(heads(100, 0, 0, 50), heads(0, 0, 0, 80));
+      expect(result.cashPayable).toEqual(heads(100, 0, 0, 0));
+      expect(result.itcBalance.cess).toBe(30);
+    });
+
+    it('should carry forward unused credit', () => {
+      const result = applyItcSetOff(heads(100, 50, 50), heads(500, 100, 100));
+      expect(result.cashPayable).toEqual(heads());
+      expect(result.itcBalance).toEqual(heads(300, 100, 100));
+    });
+  });
+
+  describe('computeGstr3b', () => {
+    const result = computeGstr3b({
+      returnPeriod: '072024',
+      supplierStateCode: '27',
+      outward: [
+        outward({}),
+        outward({ invoiceType: 'B2CS', placeOfSupply: '29', igst: '180.00', cgst: '0.00', sgst: '0.00' }),
+        outward({ invoiceType: 'EXPWOP', placeOfSupply: '96', taxRate: '0.00', taxableValue: '5000.00', cgst: '0.00', sgst: '0.00' }),
+        outward({ invoiceType: 'B2CS', taxRate: '0.00', taxableValue: '200.00', cgst: '0.00', sgst: '0.00' }),
+        outward({ documentType: 'credit_note', invoiceType: 'CDNR', taxableValue: '100.00', cgst: '9.00', sgst: '9.00' }),
+      ],
+      itc: [
+        itc({ igst: '100.00', eligibleItc: '100.00' }),
+        itc({ cgst: '50.00', sgst: '50.00', eligibleItc: '50.00', ineligibleItc: '50.00' }),
+        itc({ igst: '40.00', reversalAmount: '10.00' }),
+        itc({ igst: '999.00', reconciliationStatus: 'excess_in_2a' }),
+      ],
+      inwardExempt: [
+        { taxableValue: 300, interState: true },
+        { taxableValue: 700, interState: false },
+      ],
+      reverseCharge: [],
+      nonGst: [],
+    });
+
+    it('should split outward supplies into tables 3.1(a) to (c)', () => {
+      expect(result.section31.outwardTaxable).toEqual({ taxableValue: 1900, igst: 180, cgst: 81, sgst: 81, cess: 0 });
+      expect(result.section31.zeroRated.taxableValue).toBe(5000);
+      expect(result.section31.exempted.taxableValue).toBe(200);
+    });
+
+    it('should list inter-state supplies to unregistered persons by place of supply', () => {
+      expect(result.section32.unregistered).toEqual([{ placeOfSupply: '29', taxableValue: 1000, igst: 180 }]);
+    });
+
+    it('should compute eligible, reversed and ineligible ITC', () => {
+      expect(result.section4.itcAvailable).toEqual(heads(140, 25, 25));
+      expect(result.section4.ineligibleItc).toEqual(heads(0, 25, 25));
+      expect(result.section4.itcReversed).toEqual(heads(10, 0, 0));
+      expect(result.section4.netItc).toEqual(heads(130, 25, 25));
+    });
+
+    it('should report exempt inward supplies in table 5', () => {
+      expect(result.section5).toEqual({ interState: 300, intraState: 700 });
+    });
+
+    it('should set off ITC and compute the cash liability', () => {
+      expect(result.taxPayable).toEqual(heads(180, 81, 81));
+      expect(result.cashPayable).toEqual(heads(50, 56, 56));
+      expect(result.itcUtilized).toEqual(heads(130, 25, 25));
+    });
+
+    it('should report reverse charge purchases in 3.1(d) and pay their tax in cash', () => {
+      const withRcm = computeGstr3b({
+        returnPeriod: '072024',
+        supplierStateCode: '27',
+        outward: [outward({})],
+        itc: [itc({ cgst: '500.00', sgst: '500.00' })],
+        inwardExempt: [],
+        reverseCharge: [
+          { taxableValue: 1000, taxRate: 18, interState: false },
+          { taxableValue: 500, taxRate: 5, interState: true },
+        ],
+        nonGst: [{ taxableValue: 2000 }, { taxableValue: -500 }],
+      });
+
+      expect(withRcm.section31.reverseCharge).toEqual({ taxableValue: 1500, igst: 25, cgst: 90, sgst: 90, cess: 0 });
+      expect(withRcm.section31.nonGst.taxableValue).toBe(1500);
+      expect(withRcm.taxPayable).toEqual(heads(25, 180, 180));
+      expect(withRcm.cashPayable).toEqual(heads(25, 90, 90));
+    });
+
+    it('should claim reverse charge tax as ITC in 4A(3) within the 4A total', () => {
+      const withRcm = computeGstr3b({
+        returnPeriod: '072024',
+        supplierStateCode: '27',
+        outward: [],
+        itc: [itc({ igst: '100.00', eligibleItc: '100.00' })],
+        inwardExempt: [],
+        reverseCharge: [{ taxableValue: 1000, taxRate: 18, interState: false }],
+        nonGst: [],
+      });
+
+      const { itcAvailable, itcAvailableBreakdown } = withRcm.section4;
+      expect(itcAvailableBreakdown.reverseCharge).toEqual(heads(0, 90, 90));
+      expect(itcAvailableBreakdown.allOther).toEqual(heads(100, 0, 0));
+      expect(itcAvailable).toEqual(heads(100, 90, 90));
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  receiveStock,
+  issueStock,
+  replayStockMovements,
+  stockQuantity,
+  stockValue,
+  currentUnitCost,
+} from '../../server/src/services/inventory/valuation';
+import { stockJournalAmount } from '../../server/src/services/inventory/stockLedger';
+
+const movement = (direction: 'in' | 'out', quantity: number, unitCost: number | null = null) => ({
+  direction,
+  quantity: quantity.toString(),
+  unitCost: unitCost !== null ? unitCost.toFixed(2) : null,
+});
+
+describe('Inventory valuation', () => {
+  const opening = [{ quantity: 10, unitCost: 100 }];
+
+  describe('FIFO', () => {
+    it('should issue from the oldest layer first', () => {
+      const layers = receiveStock(opening, 'fifo', 10, 130);
+      const issue = issueStock(layers, 'fifo', 15);
+
+      expect(issue.cost).toBe(1650);
+      expect(issue.layers).toEqual([{ quantity: 5, unitCost: 130 }]);
+      expect(stockValue(issue.layers)).toBe(650);
+    });
+
+    it('should cost a shortfall at the last cost and fill it from the next receipt', () => {
+      const issue = issueStock(opening, 'fifo', 12);
+      expect(issue.cost).toBe(1200);
+      expect(issue.layers).toEqual([{ quantity: -2, unitCost: 100 }]);
+
+      expect(receiveStock(issue.layers, 'fifo', 5, 120)).toEqual([{ quantity: 3, unitCost: 120 }]);
+    });
+  });
+
+  describe('Weighted average', () => {
+    it('should re-average on every receipt', () => {
+      const layers = receiveStock(opening, 'weighted_average', 10, 130);
+      expect(layers).toEqual([{ quantity: 20, unitCost: 115 }]);
+
+      const issue = issueStock(layers, 'weighted_average', 15);
+      expect(issue.cost).toBe(1725);
+      expect(stockValue(issue.layers)).toBe(575);
+    });
+
+    it('should restart the average after stock runs out', () => {
+      const issue = issueStock(opening, 'weighted_average', 12);
+      expect(stockQuantity(issue.layers)).toBe(-2);
+
+      expect(receiveStock(issue.layers, 'weighted_average', 5, 120)).toEqual([{ quantity: 3, unitCost: 120 }]);
+    });
+  });
+
+  it('should replay movements and bring uncosted receipts in at the current cost', () => {
+    const layers = replayStockMovements('fifo', { quantity: 10, unitCost: 100 }, [
+      movement('in', 10, 130),
+      movement('out', 12),
+      movement('in', 2),
+    ]);
+
+    expect(layers).toEqual([{ quantity: 8, unitCost: 130 }, { quantity: 2, unitCost: 130 }]);
+    expect(currentUnitCost([])).toBe(0);
+  });
+
+  it('should net stock journal amounts by direction', () => {
+    expect(stockJournalAmount([movement('out', 2, 50), movement('in', 1, 30)])).toBe(-70);
+    expect(stockJournalAmount([movement('in', 3, 33.33)])).toBe(99.99);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareItcAmounts,
+  invoiceNumberSimilarity,
+  normalizeInvoiceNumber,
+  parsePortalItcData,
+  reconcileItcRecords,
+  type BookItcRecord,
+  type PortalInvoice,
+} from '../../server/src/services/gst/itcReconciliation';
+
+const VENDOR_A = '29AABCU9603R1ZM';
+const VENDOR_B = '27AADCB2230M1Z3';
+
+function book(overrides: Partial<BookItcRecord>): BookItcRecord {
+  return {
+    id: 'itc-1',
+    vendorGstin: VENDOR_A,
+    invoiceNumber: 'TI/001',
+    taxableValue: 10000,
+    igst: 1800,
+    cgst: 0,
+    sgst: 0,
+    cess: 0,
+    ...overrides,
+  };
+}
+
+function portal(overrides: Partial<PortalInvoice>): PortalInvoice {
+  return {
+    vendorGstin: VENDOR_A,
+    vendorName: 'Acme Traders',
+    invoiceNumber: 'TI/001',
+    invoiceDate: '2024-07-10',
+    invoiceValue: 11800,
+    documentType: 'invoice',
+    itcAvailable: true,
+    taxableValue: 10000,
+    igst: 1800,
+    cgst: 0,
+    sgst: 0,
+    cess: 0,
+    ...overrides,
+  };
+}
+
+describe('ITC reconciliation', () => {
+  describe('parsePortalItcData', () => {
+    it('should parse GSTR-2B docdata', () => {
+      const data = parsePortalItcData({
+        data: {
+          gstin: '27AAACZ1234F1Z5',
+          rtnprd: '072024',
+          docdata: {
+            b2b: [{
+              ctin: VENDOR_A,
+              trdnm: 'Acme Traders',
+              inv: [{
+                inum: 'TI/001', dt: '10-07-2024', val: 11800, itcavl: 'Y',
+                items: [{ rt: 18, txval: 10000, igst: 1800, cgst: 0, sgst: 0, cess: 0 }],
+              }],
+            }],
+            cdnr: [{
+              ctin: VENDOR_B,
+              nt: [{ ntnum: 'CN-7', dt: '15-07-2024', typ: 'C', val: 590, items: [{ txval: 500, cgst: 45, sgst: 45 }] }],
+            }],
+          },
+        },
+      });
+
+      expect(data.source).toBe('gstr2b');
+      expect(data.returnPeriod).toBe('072024');
+      expect(data.invoices).toHaveLength(2);
+      expect(data.invoices[0]).toMatchObject({ vendorGstin: VENDOR_A, invoiceDate: '2024-07-10', taxableValue: 10000, igst: 1800 });
+      expect(data.invoices[1]).toMatchObject({ documentType: 'credit_note', cgst: 45, sgst: 45 });
+    });
+
+    it('should parse GSTR-2A b2b sections', () => {
+      const data = parsePortalItcData({
+        gstin: '27AAACZ1234F1Z5',
+        fp: '072024',
+        b2b: [{
+          ctin: VENDOR_A,
+          inv: [{
+            inum: 'TI/001', idt: '10-07-2024', val: 11800,
+            itms: [
+              { num: 1, itm_det: { rt: 18, txval: 6000, iamt: 1080, csamt: 0 } },
+              { num: 2, itm_det: { rt: 18, txval: 4000, iamt: 720, csamt: 0 } },
+            ],
+          }],
+        }],
+      });
+
+      expect(data.source).toBe('gstr2a');
+      expect(data.invoices[0]).toMatchObject({ taxableValue: 10000, igst: 1800 });
+    });
+
+    it('should reject unrecognised files', () => {
+      expect(() => parsePortalItcData({ foo: 'bar' })).toThrow(/Unrecognised/);
+    });
+  });
+
+  describe('invoice number matching', () => {
+    it('should ignore case, separators and leading zeros', () => {
+      expect(normalizeInvoiceNumber('inv/0042')).toBe(normalizeInvoiceNumber('INV-42'));
+    });
+
+    it('should score prefixed or suffixed numbers as similar', () => {
+      expect(invoiceNumberSimilarity('1234', 'GST/1234/24-25')).toBeGreaterThanOrEqual(0.8);
+      expect(invoiceNumberSimilarity('TI/1234', 'TI/9876')).toBeLessThan(0.8);
+    });
+  });
+
+  describe('compareItcAmounts', () => {
+    it('should allow differences within the tolerance', () => {
+      expect(compareItcAmounts(book({ igst: 1800.6 }), portal({}), 1)).toEqual([]);
+    });
+
+    it('should report differences beyond the tolerance', () => {
+      expect(compareItcAmounts(book({ igst: 1900 }), portal({}), 1)).toEqual([
+        { field: 'igst', books: 1900, portal: 1800, difference: 100 },
+      ]);
+    });
+  });
+
+  describe('reconcileItcRecords', () => {
+    it('should classify matched, mismatched, missing and excess invoices', () => {
+      const books = [
+        book({ id: 'a', invoiceNumber: 'TI/001' }),
+        book({ id: 'b', invoiceNumber: 'TI-0002', igst: 2000 }),
+        book({ id: 'c', invoiceNumber: 'TI/003' }),
+      ];
+      const portalInvoices = [
+        portal({ invoiceNumber: 'TI/001' }),
+        portal({ invoiceNumber: 'TI/2' }),
+        portal({ invoiceNumber: 'TI/004' }),
+      ];
+
+      const results = reconcileItcRecords(books, portalInvoices);
+      const byBook = (id: string) => results.find(r => r.book?.id === id)!;
+
+      expect(byBook('a').status).toBe('matched');
+      expect(byBook('b').status).toBe('mismatch');
+      expect(byBook('b').differences[0].field).toBe('igst');
+      // TI/003 vs TI/004 is one character apart but below the default threshold
+      expect(byBook('c').status).toBe('not_in_2a');
+      expect(results.filter(r => r.status === 'excess_in_2a').map(r => r.portal!.invoiceNumber)).toEqual(['TI/004']);
+    });
+
+    it('should only match invoices of the same vendor', () => {
+      const results = reconcileItcRecords([book({ vendorGstin: VENDOR_B })], [portal({})]);
+      expect(results.map(r => r.status)).toEqual(['not_in_2a', 'excess_in_2a']);
+    });
+
+    it('should fuzzy match invoice numbers with a vendor prefix', () => {
+      const results = reconcileItcRecords([book({ invoiceNumber: '1234' })], [portal({ invoiceNumber: 'AC/1234/24-25' })]);
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ status: 'matched', matchedBy: 'fuzzy' });
+    });
+
+    it('should prefer exact matches over fuzzy ones', () => {
+      const results = reconcileItcRecords(
+        [book({ id: 'x', invoiceNumber: '1234' }), book({ id: 'y', invoiceNumber: 'AC/1234' })],
+        [portal({ invoiceNumber: 'AC/1234' }), portal({ invoiceNumber: '1234' })]
+      );
+      expect(results.every(r => r.matchedBy === 'exact')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { parseCron, getNextCronRun, isValidCron } from '../../server/src/services/jobs/cron';
+import { getJobResultErrors } from '../../server/src/services/jobs/scheduler';
+
+// Local time, matching how schedules are evaluated
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute);
+
+describe('Job scheduler', () => {
+  describe('parseCron', () => {
+    it('should expand wildcards, ranges, steps and lists', () => {
+      const cron = parseCron('*/15 9-11 1,15 * 1-5');
+
+      expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...cron.hours]).toEqual([9, 10, 11]);
+      expect([...cron.daysOfMonth]).toEqual([1, 15]);
+      expect(cron.months.size).toBe(12);
+      expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat 7 as Sunday', () => {
+      expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCron('0 6 * *')).toThrow('5 fields');
+      expect(() => parseCron('60 6 * * *')).toThrow('minute');
+      expect(() => parseCron('0 6 * 13 *')).toThrow('month');
+      expect(() => parseCron('0 6 * * mon')).toThrow('day of week');
+      expect(isValidCron('0 0 31 2 *')).toBe(false);
+      expect(isValidCron('0 6 * * *')).toBe(true);
+    });
+  });
+
+  describe('getNextCronRun', () => {
+    it('should find the next daily run', () => {
+      expect(getNextCronRun('0 6 * * *', at(2024, 7, 15, 5, 30))).toEqual(at(2024, 7, 15, 6, 0));
+      expect(getNextCronRun('0 6 * * *', at(2024, 7, 15, 6, 0))).toEqual(at(2024, 7, 16, 6, 0));
+    });
+
+    it('should roll over month and year ends', () => {
+      expect(getNextCronRun('30 2 1 * *', at(2024, 12, 20))).toEqual(at(2025, 1, 1, 2, 30));
+      expect(getNextCronRun('0 0 29 2 *', at(2024, 3, 1))).toEqual(at(2028, 2, 29));
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // 15th of the month or any Monday; 2024-07-08 is a Monday
+      expect(getNextCronRun('0 9 15 * 1', at(2024, 7, 6))).toEqual(at(2024, 7, 8, 9, 0));
+      expect(getNextCronRun('0 9 15 * 1', at(2024, 7, 12))).toEqual(at(2024, 7, 15, 9, 0));
+    });
+
+    it('should run only on weekdays when the day of month is a wildcard', () => {
+      // 2024-07-13 is a Saturday
+      expect(getNextCronRun('0 9 * * 1-5', at(2024, 7, 13, 10))).toEqual(at(2024, 7, 15, 9, 0));
+    });
+  });
+
+  describe('getJobResultErrors', () => {
+    it('should read the errors reported by billing jobs', () => {
+      expect(getJobResultErrors({ processed: 2, errors: ['Failed to send invoice INV-1'] }))
+        .toEqual(['Failed to send invoice INV-1']);
+      expect(getJobResultErrors({ processed: 2, errors: [] })).toEqual([]);
+    });
+
+    it('should read the failed count of recurring entries', () => {
+      expect(getJobResultErrors({ processed: 1, failed: 2, results: [] })).toEqual(['2 item(s) failed']);
+      expect(getJobResultErrors({ processed: 1, failed: 0, results: [] })).toEqual([]);
+      expect(getJobResultErrors(undefined)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  monthEnd,
+  previousDay,
+  splitDateRange,
+  periodsOf,
+} from '../../server/src/services/ledger/periodBalances';
+
+describe('Period balances', () => {
+  describe('monthEnd and previousDay', () => {
+    it('should find the last day of the month', () => {
+      expect(monthEnd('2024-02-10')).toBe('2024-02-29');
+      expect(monthEnd('2025-02-01')).toBe('2025-02-28');
+      expect(monthEnd('2024-12-31')).toBe('2024-12-31');
+    });
+
+    it('should step back across month and year ends', () => {
+      expect(previousDay('2024-04-01')).toBe('2024-03-31');
+      expect(previousDay('2025-01-01')).toBe('2024-12-31');
+    });
+  });
+
+  describe('splitDateRange', () => {
+    it('should read a fiscal year wholly from the store', () => {
+      expect(splitDateRange('2024-04-01', '2025-03-31')).toEqual({
+        months: { from: '2024-04-01', to: '2025-03-01' },
+        partial: [],
+      });
+    });
+
+    it('should sum part months at either end from the lines', () => {
+      expect(splitDateRange('2024-04-15', '2024-07-10')).toEqual({
+        months: { from: '2024-05-01', to: '2024-06-01' },
+        partial: [
+          { from: '2024-04-15', to: '2024-04-30' },
+          { from: '2024-07-01', to: '2024-07-10' },
+        ],
+      });
+    });
+
+    it('should keep a range within one month to the lines', () => {
+      expect(splitDateRange('2024-04-05', '2024-04-20')).toEqual({
+        months: null,
+        partial: [{ from: '2024-04-05', to: '2024-04-20' }],
+      });
+    });
+
+    it('should leave no whole months between adjacent part months', () => {
+      expect(splitDateRange('2024-04-15', '2024-05-10')).toEqual({
+        months: null,
+        partial: [
+          { from: '2024-04-15', to: '2024-04-30' },
+          { from: '2024-05-01', to: '2024-05-10' },
+        ],
+      });
+    });
+
+    it('should keep open ends open', () => {
+      expect(splitDateRange(undefined, '2024-09-15')).toEqual({
+        months: { to: '2024-08-01' },
+        partial: [{ from: '2024-09-01', to: '2024-09-15' }],
+      });
+      expect(splitDateRange()).toEqual({ months: {}, partial: [] });
+    });
+  });
+
+  describe('periodsOf', () => {
+    it('should list each fiscal year and month once', () => {
+      expect(periodsOf([
+        { fiscalYearId: 'fy1', entryDate: '2024-05-20' },
+        { fiscalYearId: 'fy1', entryDate: '2024-04-02' },
+        { fiscalYearId: 'fy1', entryDate: '2024-05-03' },
+      ])).toEqual([
+        { fiscalYearId: 'fy1', periodStart: '2024-04-01' },
+        { fiscalYearId: 'fy1', periodStart: '2024-05-01' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { hasPermission } from '../../shared/permissions';
+
+const findCompanyUser = vi.fn();
+
+vi.mock('../../server/src/db', () => ({
+  db: { query: { companyUsers: { findFirst: (...args: unknown[]) => findCompanyUser(...args) } } },
+}));
+
+import { getAccessLevel, requirePermission } from '../../server/src/middleware/auth';
+
+function createRequest(method: string, path: string, role: string | null) {
+  findCompanyUser.mockResolvedValue(role ? { role, isActive: true } : undefined);
+  return {
+    method,
+    path,
+    session: { userId: 'user-1', companyId: 'company-1' },
+  } as any;
+}
+
+function createResponse() {
+  const res: any = {};
+  res.status = vi.fn().mockReturnValue(res);
+  res.json = vi.fn().mockReturnValue(res);
+  return res;
+}
+
+async function callGuard(guard: ReturnType<typeof requirePermission>, req: any) {
+  const res = createResponse();
+  const next = vi.fn();
+  await guard(req, res, next);
+  return { res, next };
+}
+
+describe('Role permissions', () => {
+  beforeEach(() => {
+    findCompanyUser.mockReset();
+  });
+
+  describe('hasPermission', () => {
+    it('should keep auditors read-only with audit log access', () => {
+      expect(hasPermission('auditor', 'accounting')).toBe(true);
+      expect(hasPermission('auditor', 'accounting', 'write')).toBe(false);
+      expect(hasPermission('auditor', 'audit')).toBe(true);
+      expect(hasPermission('accountant', 'audit')).toBe(false);
+    });
+
+    it('should restrict viewers to reports', () => {
+      expect(hasPermission('viewer', 'reports')).toBe(true);
+      expect(hasPermission('viewer', 'reports', 'write')).toBe(false);
+      expect(hasPermission('viewer', 'accounting')).toBe(false);
+      expect(hasPermission('viewer', 'settings')).toBe(false);
+    });
+
+    it('should reserve period locking and user management for owners', () => {
+      expect(hasPermission('owner', 'periods', 'write')).toBe(true);
+      expect(hasPermission('accountant', 'periods', 'write')).toBe(false);
+      expect(hasPermission('owner', 'users', 'write')).toBe(true);
+      expect(hasPermission('accountant', 'users', 'write')).toBe(false);
+    });
+
+    it('should deny unknown or missing roles', () => {
+      expect(hasPermission(null, 'reports')).toBe(false);
+      expect(hasPermission('guest', 'reports')).toBe(false);
+    });
+  });
+
+  describe('getAccessLevel', () => {
+    it('should treat safe methods and read-only paths as reads', () => {
+      expect(getAccessLevel('GET', '/')).toBe('read');
+      expect(getAccessLevel('POST', '/')).toBe('write');
+      expect(getAccessLevel('DELETE', '/abc')).toBe('write');
+      expect(getAccessLevel('POST', '/chat', [/^\/chat$/])).toBe('read');
+    });
+  });
+
+  describe('requirePermission', () => {
+    it('should return 403 when a viewer opens accounting data', async () => {
+      const { res, next } = await callGuard(requirePermission('accounting'), createRequest('GET', '/', 'viewer'));
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Insufficient permissions' });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when an auditor posts a journal entry', async () => {
+      const { res, next } = await callGuard(requirePermission('accounting'), createRequest('POST', '/', 'auditor'));
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when an accountant locks a fiscal year', async () => {
+      const { res, next } = await callGuard(requirePermission('periods'), createRequest('POST', '/company-1/fiscal-years/fy-1/lock', 'accountant'));
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when the user is not a member of the company', async () => {
+      const { res } = await callGuard(requirePermission('reports'), createRequest('GET', '/', null));
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({ error: 'No access to this company' });
+    });
+
+    it('should let auditors read the audit log and viewers read reports', async () => {
+      const auditor = createRequest('GET', '/', 'auditor');
+      const audit = await callGuard(requirePermission('audit'), auditor);
+      expect(audit.next).toHaveBeenCalled();
+      expect(auditor.companyRole).toBe('auditor');
+
+      const reports = await callGuard(requirePermission('reports'), createRequest('GET', '/', 'viewer'));
+      expect(reports.next).toHaveBeenCalled();
+    });
+
+    it('should allow read-only POSTs and skip exempt paths', async () => {
+      const chat = await callGuard(
+        requirePermission('accounting', { readOnlyPaths: [/^\/chat$/] }),
+        createRequest('POST', '/chat', 'auditor')
+      );
+      expect(chat.next).toHaveBeenCalled();
+      findCompanyUser.mockClear();
+
+      const invitation = await callGuard(
+        requirePermission('users', { exemptPaths: [/^\/accept-invitation$/] }),
+        createRequest('POST', '/accept-invitation', 'viewer')
+      );
+      expect(invitation.next).toHaveBeenCalled();
+      expect(findCompanyUser).not.toHaveBeenCalled();
+    });
+  });
+});
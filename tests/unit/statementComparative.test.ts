@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  previousYearDate,
+  variancePercent,
+  addComparative,
+  type StatementLine,
+} from '../../server/src/services/statements/comparative';
+
+const line = (code: string, amount: number): StatementLine => ({
+  code,
+  name: code,
+  amount,
+  indentLevel: 0,
+  isBold: false,
+  isTotal: false,
+  hasSubSchedule: false,
+});
+
+describe('Statement comparatives', () => {
+  describe('previousYearDate', () => {
+    it('should step back one year', () => {
+      expect(previousYearDate('2025-03-31')).toBe('2024-03-31');
+      expect(previousYearDate('2024-04-01')).toBe('2023-04-01');
+    });
+
+    it('should fall back to 28 February from a leap day', () => {
+      expect(previousYearDate('2024-02-29')).toBe('2023-02-28');
+    });
+  });
+
+  describe('variancePercent', () => {
+    it('should measure the change against the previous amount', () => {
+      expect(variancePercent(150, 100)).toBe(50);
+      expect(variancePercent(1, 3)).toBe(-66.67);
+    });
+
+    it('should measure against the size of a negative previous amount', () => {
+      expect(variancePercent(-50, -100)).toBe(50);
+      expect(variancePercent(100, -100)).toBe(200);
+    });
+
+    it('should have no percentage without a previous amount', () => {
+      expect(variancePercent(100, 0)).toBeNull();
+    });
+  });
+
+  describe('addComparative', () => {
+    it('should match previous amounts by line code', () => {
+      const [revenue, other] = addComparative(
+        [line('PL_REVENUE', 1200), line('PL_OTHER_INCOME', 50)],
+        [line('PL_REVENUE', 1000)]
+      );
+
+      expect(revenue).toMatchObject({ previousAmount: 1000, variance: 200, variancePercent: 20 });
+      expect(other).toMatchObject({ previousAmount: 0, variance: 50, variancePercent: null });
+    });
+
+    it('should leave lines alone without a previous period', () => {
+      const current = [line('PL_REVENUE', 1200)];
+      expect(addComparative(current, null)).toBe(current);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  noteNumberFor,
+  monthsBefore,
+  ageingBucket,
+  openItems,
+  ageItems,
+  accountMovements,
+} from '../../server/src/services/statements/notes';
+import { resolveScheduleIIIMappings } from '../../server/src/services/statements/statementBalances';
+
+describe('Notes to accounts', () => {
+  describe('noteNumberFor', () => {
+    it('should give lines sharing a note the same number', () => {
+      expect(noteNumberFor('BS_LIAB_NCL_BORROWINGS')).toBe(noteNumberFor('BS_LIAB_CL_BORROWINGS'));
+      expect(noteNumberFor('BS_ASSET_NCA_PPE')).toBe(1);
+    });
+
+    it('should have no note for other lines', () => {
+      expect(noteNumberFor('BS_ASSET_CA_CASH')).toBeUndefined();
+    });
+  });
+
+  describe('ageing', () => {
+    it('should step back whole months within the month', () => {
+      expect(monthsBefore('2025-03-31', 6)).toBe('2024-09-30');
+      expect(monthsBefore('2025-03-31', 12)).toBe('2024-03-31');
+      expect(monthsBefore('2024-08-31', 6)).toBe('2024-02-29');
+    });
+
+    it('should place items by age in months', () => {
+      const limits = [6, 12, 24, 36];
+      expect(ageingBucket('2025-01-15', '2025-03-31', limits)).toBe(0);
+      expect(ageingBucket('2024-09-30', '2025-03-31', limits)).toBe(1);
+      expect(ageingBucket('2023-06-01', '2025-03-31', limits)).toBe(2);
+      expect(ageingBucket('2020-01-01', '2025-03-31', limits)).toBe(4);
+    });
+
+    it('should total the aged items in the last column', () => {
+      expect(ageItems([
+        { date: '2025-02-01', amount: 100 },
+        { date: '2023-01-01', amount: 50 },
+      ], '2025-03-31', [12, 24, 36])).toEqual([100, 0, 50, 0, 150]);
+    });
+  });
+
+  describe('openItems', () => {
+    it('should settle the oldest items first', () => {
+      expect(openItems([
+        { date: '2024-04-10', amount: 100 },
+        { date: '2024-05-10', amount: 200 },
+        { date: '2024-06-01', amount: -150 },
+      ])).toEqual({ open: [{ date: '2024-05-10', amount: 150 }], unapplied: 0 });
+    });
+
+    it('should keep an advance and use it on the next item', () => {
+      expect(openItems([
+        { date: '2024-04-01', amount: -80 },
+      ])).toEqual({ open: [], unapplied: -80 });
+
+      expect(openItems([
+        { date: '2024-04-01', amount: -80 },
+        { date: '2024-04-20', amount: 100 },
+      ])).toEqual({ open: [{ date: '2024-04-20', amount: 20 }], unapplied: 0 });
+    });
+  });
+
+  describe('accountMovements', () => {
+    it('should work back to the opening balance from the movement', () => {
+      const [building] = accountMovements(
+        [{ accountId: 'a1', accountCode: '1112', accountName: 'Buildings', accountType: 'asset', scheduleIIIMapping: 'BS_ASSET_NCA_PPE', debit: '1500.00', credit: '200.00' }],
+        [{ accountId: 'a1', accountCode: '1112', accountName: 'Buildings', accountType: 'asset', scheduleIIIMapping: 'BS_ASSET_NCA_PPE', debit: '500.00', credit: '200.00' }]
+      );
+      expect(building).toMatchObject({ opening: 1000, additions: 500, deductions: 200, closing: 1300 });
+    });
+  });
+
+  describe('resolveScheduleIIIMappings', () => {
+    it('should inherit the mapping of the nearest mapped group', () => {
+      const mappings = resolveScheduleIIIMappings([
+        { id: 'g1', parentAccountId: null, scheduleIIIMapping: null },
+        { id: 'g2', parentAccountId: 'g1', scheduleIIIMapping: 'BS_ASSET_NCA_PPE' },
+        { id: 'a1', parentAccountId: 'g2', scheduleIIIMapping: null },
+        { id: 'a2', parentAccountId: 'g2', scheduleIIIMapping: 'BS_ASSET_NCA_CWIP' },
+      ]);
+      expect(mappings.get('a1')).toBe('BS_ASSET_NCA_PPE');
+      expect(mappings.get('a2')).toBe('BS_ASSET_NCA_CWIP');
+      expect(mappings.get('g1')).toBeNull();
+    });
+  });
+});
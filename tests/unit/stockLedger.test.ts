@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DOCUMENT_STOCK_MOVEMENTS,
+  signedQuantity,
+  summarizeStockMovements,
+  withRunningBalance,
+  isLowStock,
+} from '../../server/src/services/inventory/stockLedger';
+
+const movement = (
+  movementDate: string,
+  direction: 'in' | 'out',
+  quantity: number,
+  reversalOfId: string | null = null
+) => ({ movementDate, direction, quantity: quantity.toString(), reversalOfId });
+
+describe('Stock ledger', () => {
+  it('should move stock in for purchases and returns from customers', () => {
+    expect(DOCUMENT_STOCK_MOVEMENTS.bill).toEqual({ movementType: 'purchase', direction: 'in' });
+    expect(DOCUMENT_STOCK_MOVEMENTS.credit_note).toEqual({ movementType: 'sales_return', direction: 'in' });
+    expect(DOCUMENT_STOCK_MOVEMENTS.invoice).toEqual({ movementType: 'sale', direction: 'out' });
+    expect(DOCUMENT_STOCK_MOVEMENTS.debit_note).toEqual({ movementType: 'purchase_return', direction: 'out' });
+  });
+
+  it('should sign quantities by direction', () => {
+    expect(signedQuantity({ direction: 'in', quantity: '5.5' })).toBe(5.5);
+    expect(signedQuantity({ direction: 'out', quantity: '2' })).toBe(-2);
+  });
+
+  describe('summarizeStockMovements', () => {
+    const movements = [
+      movement('2024-03-20', 'in', 100),
+      movement('2024-04-05', 'in', 50),
+      movement('2024-04-10', 'out', 30),
+      movement('2024-04-12', 'out', 10),
+      movement('2024-05-02', 'out', 5),
+    ];
+
+    it('should carry earlier movements into the opening balance', () => {
+      expect(summarizeStockMovements(20, movements, '2024-04-01', '2024-04-30')).toEqual({
+        opening: 120,
+        inward: 50,
+        outward: 40,
+        closing: 130,
+      });
+    });
+
+    it('should include every movement when no period is given', () => {
+      expect(summarizeStockMovements(0, movements)).toEqual({
+        opening: 0,
+        inward: 150,
+        outward: 45,
+        closing: 105,
+      });
+    });
+
+    it('should net reversals off the movement they cancel', () => {
+      const cancelledSale = [
+        movement('2024-04-01', 'in', 10),
+        movement('2024-04-02', 'out', 4),
+        movement('2024-04-03', 'in', 4, 'sale-1'),
+      ];
+
+      expect(summarizeStockMovements(0, cancelledSale)).toEqual({
+        opening: 0,
+        inward: 10,
+        outward: 0,
+        closing: 10,
+      });
+    });
+  });
+
+  it('should add running balances from the opening stock', () => {
+    const register = withRunningBalance(10, [
+      movement('2024-04-01', 'in', 5),
+      movement('2024-04-02', 'out', 12),
+    ]);
+
+    expect(register.map(row => row.balance)).toEqual([15, 3]);
+  });
+
+  it('should flag stock at or below the reorder level', () => {
+    expect(isLowStock(5, 5)).toBe(true);
+    expect(isLowStock(4, 5)).toBe(true);
+    expect(isLowStock(6, 5)).toBe(false);
+    expect(isLowStock(0, null)).toBe(false);
+  });
+});
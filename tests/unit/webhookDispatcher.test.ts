@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import {
+  signWebhookPayload,
+  isWebhookEventType,
+  WEBHOOK_EVENT_TYPES,
+} from '../../server/src/services/integrations/webhookDispatcher';
+
+describe('Webhook dispatcher', () => {
+  describe('signWebhookPayload', () => {
+    it('should sign the raw payload with HMAC-SHA256', () => {
+      const payload = JSON.stringify({ event: 'invoice.created', timestamp: '2024-07-15T10:00:00.000Z', data: { id: 'inv-1' } });
+      const expected = crypto.createHmac('sha256', 'secret').update(payload).digest('hex');
+
+      expect(signWebhookPayload('secret', payload)).toBe(expected);
+    });
+
+    it('should change when the payload or secret changes', () => {
+      const signature = signWebhookPayload('secret', '{"amount":100}');
+
+      expect(signWebhookPayload('secret', '{"amount":101}')).not.toBe(signature);
+      expect(signWebhookPayload('other', '{"amount":100}')).not.toBe(signature);
+    });
+  });
+
+  describe('isWebhookEventType', () => {
+    it('should accept business and GST events', () => {
+      for (const event of ['invoice.created', 'payment.received', 'bill.created', 'gst.filed']) {
+        expect(isWebhookEventType(event)).toBe(true);
+      }
+    });
+
+    it('should cover credit notes, journal entries and quotes', () => {
+      expect(WEBHOOK_EVENT_TYPES).toEqual(expect.arrayContaining([
+        'credit_note.created',
+        'credit_note.issued',
+        'journal_entry.posted',
+        'journal_entry.reversed',
+        'quote.created',
+        'quote.sent',
+        'quote.accepted',
+      ]));
+    });
+
+    it('should reject unknown events', () => {
+      expect(isWebhookEventType('invoice.deleted')).toBe(false);
+      expect(isWebhookEventType('')).toBe(false);
+      expect(isWebhookEventType(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildClosingLines,
+  buildOpeningLines,
+  nextFiscalYearPeriod,
+} from '../../server/src/services/yearEnd/yearEndClose';
+
+const balance = (accountId: string, accountType: string, debit: number, credit: number) => ({
+  accountId,
+  accountType,
+  debit,
+  credit,
+});
+
+const total = (lines: { debitAmount: string; creditAmount: string }[], side: 'debitAmount' | 'creditAmount') =>
+  lines.reduce((sum, line) => sum + parseFloat(line[side]), 0);
+
+describe('Year-end close', () => {
+  const balances = [
+    balance('bank', 'asset', 5000, 1200),
+    balance('receivables', 'asset', 3000, 0),
+    balance('payables', 'liability', 0, 1800),
+    balance('capital', 'equity', 0, 4000),
+    balance('retained', 'equity', 0, 500),
+    balance('sales', 'income', 0, 2500),
+    balance('rent', 'expense', 1000, 0),
+    balance('salaries', 'expense', 1000, 0),
+  ];
+
+  describe('buildClosingLines', () => {
+    it('should clear income and expenses into retained earnings', () => {
+      const { lines, netProfit } = buildClosingLines(balances, 'retained');
+
+      expect(netProfit).toBe(500);
+      expect(lines).toEqual([
+        { accountId: 'sales', debitAmount: '2500.00', creditAmount: '0', description: 'Transfer to retained earnings' },
+        { accountId: 'rent', debitAmount: '0', creditAmount: '1000.00', description: 'Transfer to retained earnings' },
+        { accountId: 'salaries', debitAmount: '0', creditAmount: '1000.00', description: 'Transfer to retained earnings' },
+        { accountId: 'retained', debitAmount: '0', creditAmount: '500.00', description: 'Profit for the year' },
+      ]);
+    });
+
+    it('should debit retained earnings with a loss', () => {
+      const { lines, netProfit } = buildClosingLines([
+        balance('sales', 'income', 0, 800),
+        balance('rent', 'expense', 1000, 0),
+      ], 'retained');
+
+      expect(netProfit).toBe(-200);
+      expect(lines[lines.length - 1]).toMatchObject({ accountId: 'retained', debitAmount: '200.00', creditAmount: '0' });
+    });
+  });
+
+  describe('buildOpeningLines', () => {
+    it('should carry balance sheet balances forward with the profit in retained earnings', () => {
+      const lines = buildOpeningLines(balances, 'retained', 500);
+
+      expect(lines.map(line => [line.accountId, line.debitAmount, line.creditAmount])).toEqual([
+        ['bank', '3800.00', '0'],
+        ['receivables', '3000.00', '0'],
+        ['payables', '0', '1800.00'],
+        ['capital', '0', '4000.00'],
+        ['retained', '0', '1000.00'],
+      ]);
+      expect(total(lines, 'debitAmount')).toBe(total(lines, 'creditAmount'));
+    });
+
+    it('should skip accounts that net to zero', () => {
+      const lines = buildOpeningLines([balance('bank', 'asset', 100, 100)], 'retained', 0);
+      expect(lines).toEqual([]);
+    });
+  });
+
+  describe('nextFiscalYearPeriod', () => {
+    it('should follow an April to March year', () => {
+      expect(nextFiscalYearPeriod({ endDate: '2025-03-31' })).toEqual({
+        name: 'FY 2025-26',
+        startDate: '2025-04-01',
+        endDate: '2026-03-31',
+      });
+    });
+
+    it('should name calendar years by their single year', () => {
+      expect(nextFiscalYearPeriod({ endDate: '2024-12-31' })).toEqual({
+        name: 'FY 2025',
+        startDate: '2025-01-01',
+        endDate: '2025-12-31',
+      });
+    });
+  });
+});